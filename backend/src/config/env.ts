@@ -46,6 +46,10 @@ const envSchema = z.object({
   AUDIT_LOG_RETENTION_DAYS: z.string().default('2555'), // 7 years
   AUDIT_CLEANUP_SCHEDULE: z.string().default('0 0 1 * *'), // Monthly
   
+  // Supplier Portal
+  SUPPLIER_PORTAL_URL: z.string().optional(),
+  SUPPLIER_INVITE_EXPIRY_DAYS: z.string().default('30'),
+  
   // Signatures
   SIGNATURE_AUTHORIZED_ROLES: z.string().default('owner,director,auditor'),
   SIGNATURE_SECRET: z.string().optional(),
@@ -135,6 +139,12 @@ export const config = {
     cleanupSchedule: env.AUDIT_CLEANUP_SCHEDULE,
   },
   
+  // Supplier Portal (invite links are opened in the frontend)
+  supplierPortal: {
+    url: env.SUPPLIER_PORTAL_URL || `${env.CORS_ORIGIN.split(',')[0].trim()}/supplier-portal`,
+    inviteExpiryDays: parseInt(env.SUPPLIER_INVITE_EXPIRY_DAYS, 10),
+  },
+  
   // Signatures
   signature: {
     authorizedRoles: env.SIGNATURE_AUTHORIZED_ROLES.split(',').map((r) => r.trim()),
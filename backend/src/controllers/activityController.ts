@@ -4,6 +4,7 @@ import { redisClient as redis } from '../config/redis';
 import { generateId, convertUnits } from '../utils/helpers';
 import { BadRequestError, NotFoundError } from '../middleware/errorHandler';
 import { logger } from '../utils/logger';
+import * as cnCodeService from '../services/cnCodeService';
 import type { Activity, EmissionScope, Scope3Category, TierLevel, TierDirection, AuditAction } from '../types';
 
 // Audit log helper
@@ -45,8 +46,17 @@ export async function createActivity(req: Request, res: Response): Promise<void>
     tierDirection,
     dataSource,
     dataQualityScore,
-    metadata,
+    calculationMethod,
+    entityId,
+    facilityId,
+    productId,
+    processId,
+    cnCode,
+    productionRoute,
   } = req.body;
+  const metadata = cnCode
+    ? { ...req.body.metadata, ...cbamMetadata(cnCode, productionRoute ?? req.body.metadata?.productionRoute) }
+    : req.body.metadata;
 
   const activityId = generateId();
 
@@ -55,13 +65,22 @@ export async function createActivity(req: Request, res: Response): Promise<void>
     throw new BadRequestError('scope3Category is required for Scope 3 activities');
   }
 
+  if (entityId) {
+    await assertProjectEntity(projectId, entityId);
+  }
+  if (facilityId) {
+    await assertProjectFacility(projectId, facilityId);
+  }
+  await assertProductAssignment(projectId, productId, processId);
+
   const result = await db.query(
     `INSERT INTO activities (
       id, project_id, name, description, scope, scope3_category,
       activity_type, quantity, unit, source, tier_level, tier_direction,
-      data_source, data_quality_score, metadata
+      data_source, data_quality_score, calculation_method, metadata, entity_id, facility_id,
+      product_id, process_id
     )
-    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)
     RETURNING *`,
     [
       activityId,
@@ -78,7 +97,12 @@ export async function createActivity(req: Request, res: Response): Promise<void>
       tierDirection || 'both',
       dataSource || null,
       dataQualityScore || null,
+      calculationMethod || null,
       metadata ? JSON.stringify(metadata) : null,
+      entityId || null,
+      facilityId || null,
+      productId || null,
+      processId || null,
     ]
   );
 
@@ -199,7 +223,8 @@ export async function updateActivity(req: Request, res: Response): Promise<void>
   const allowedFields = [
     'name', 'description', 'scope', 'scope3_category', 'activity_type',
     'quantity', 'unit', 'source', 'tier_level', 'tier_direction',
-    'data_source', 'data_quality_score', 'metadata',
+    'data_source', 'data_quality_score', 'calculation_method', 'metadata', 'entity_id',
+    'facility_id', 'product_id', 'process_id',
   ];
 
   const fieldMapping: Record<string, string> = {
@@ -215,9 +240,29 @@ export async function updateActivity(req: Request, res: Response): Promise<void>
     tierDirection: 'tier_direction',
     dataSource: 'data_source',
     dataQualityScore: 'data_quality_score',
+    calculationMethod: 'calculation_method',
     metadata: 'metadata',
+    entityId: 'entity_id',
+    facilityId: 'facility_id',
+    productId: 'product_id',
+    processId: 'process_id',
   };
 
+  if (updates.entityId) {
+    await assertProjectEntity(projectId, updates.entityId);
+  }
+  if (updates.facilityId) {
+    await assertProjectFacility(projectId, updates.facilityId);
+  }
+  await assertProductAssignment(projectId, updates.productId, updates.processId);
+
+  // Assigning a product moves the activity off its shared process, and vice versa
+  if (updates.productId && updates.processId === undefined) {
+    updates.processId = null;
+  } else if (updates.processId && updates.productId === undefined) {
+    updates.productId = null;
+  }
+
   for (const [key, dbField] of Object.entries(fieldMapping)) {
     if (updates[key] !== undefined) {
       updateFields.push(`${dbField} = $${paramIndex}`);
@@ -226,12 +271,40 @@ export async function updateActivity(req: Request, res: Response): Promise<void>
     }
   }
 
+  // A production route on its own is checked against the stored CN code
+  let cnCode: string | undefined = updates.cnCode;
+  if (!cnCode && updates.productionRoute) {
+    const current = await db.queryOne(
+      `SELECT metadata FROM activities WHERE id = $1 AND project_id = $2`,
+      [activityId, projectId]
+    );
+    if (!current) {
+      throw new NotFoundError('Activity not found');
+    }
+    cnCode = current.metadata?.cnCode;
+    if (!cnCode) {
+      throw new BadRequestError('productionRoute needs a CN code; set cnCode as well');
+    }
+  }
+
+  // A new CN code or route re-derives the CBAM fields, merged into the stored metadata
+  if (cnCode) {
+    const derived = cbamMetadata(cnCode, updates.productionRoute ?? updates.metadata?.productionRoute);
+    if (updates.metadata !== undefined) {
+      params[updateFields.findIndex((f) => f.startsWith('metadata ='))] = JSON.stringify({ ...updates.metadata, ...derived });
+    } else {
+      updateFields.push(`metadata = COALESCE(metadata, '{}'::jsonb) || $${paramIndex}::jsonb`);
+      params.push(JSON.stringify(derived));
+      paramIndex++;
+    }
+  }
+
   if (updateFields.length === 0) {
     throw new BadRequestError('No valid fields to update');
   }
 
-  // Reset calculation status if quantity or unit changed
-  if (updates.quantity !== undefined || updates.unit !== undefined) {
+  // Reset calculation status if quantity, unit, CN code, route or facility (and so the grid region) changed
+  if (updates.quantity !== undefined || updates.unit !== undefined || cnCode || updates.facilityId !== undefined) {
     updateFields.push(`calculation_status = 'pending'`);
     updateFields.push(`total_emissions_kg_co2e = NULL`);
     updateFields.push(`emission_factor_used = NULL`);
@@ -519,8 +592,17 @@ export async function createActivityForProject(req: Request, res: Response): Pro
     tierDirection,
     dataSource,
     dataQualityScore,
-    metadata,
+    calculationMethod,
+    entityId,
+    facilityId,
+    productId,
+    processId,
+    cnCode,
+    productionRoute,
   } = req.body;
+  const metadata = cnCode
+    ? { ...req.body.metadata, ...cbamMetadata(cnCode, productionRoute ?? req.body.metadata?.productionRoute) }
+    : req.body.metadata;
 
   // Verify project exists
   const projectCheck = await db.query('SELECT id FROM projects WHERE id = $1', [projectId]);
@@ -535,13 +617,22 @@ export async function createActivityForProject(req: Request, res: Response): Pro
     throw new BadRequestError('scope3Category is required for Scope 3 activities');
   }
 
+  if (entityId) {
+    await assertProjectEntity(projectId, entityId);
+  }
+  if (facilityId) {
+    await assertProjectFacility(projectId, facilityId);
+  }
+  await assertProductAssignment(projectId, productId, processId);
+
   const result = await db.query(
     `INSERT INTO activities (
       id, project_id, name, description, scope, scope3_category,
       activity_type, quantity, unit, source, tier_level, tier_direction,
-      data_source, data_quality_score, metadata
+      data_source, data_quality_score, calculation_method, metadata, entity_id, facility_id,
+      product_id, process_id
     )
-    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)
     RETURNING *`,
     [
       activityId,
@@ -558,7 +649,12 @@ export async function createActivityForProject(req: Request, res: Response): Pro
       tierDirection || 'both',
       dataSource || null,
       dataQualityScore || null,
+      calculationMethod || null,
       metadata ? JSON.stringify(metadata) : null,
+      entityId || null,
+      facilityId || null,
+      productId || null,
+      processId || null,
     ]
   );
 
@@ -662,6 +758,68 @@ export async function exportActivities(req: Request, res: Response): Promise<voi
   }
 }
 
+// Helper function to derive the CBAM material, goods category and route from a CN code
+function cbamMetadata(cnCode: string, productionRoute?: string | null): Record<string, string> {
+  const derived = cnCodeService.deriveFromCnCode(cnCode, productionRoute || undefined);
+  return {
+    cnCode: derived.cnCode,
+    cbamMaterial: derived.entry.material,
+    cbamGoodsCategory: derived.entry.goodsCategory,
+    productionRoute: derived.productionRoute,
+  };
+}
+
+// Helper function to check that an organizational entity belongs to the project
+async function assertProjectEntity(projectId: string, entityId: string): Promise<void> {
+  const entity = await db.queryOne(
+    `SELECT id FROM organizational_entities WHERE id = $1 AND project_id = $2`,
+    [entityId, projectId]
+  );
+  if (!entity) {
+    throw new BadRequestError('Entity not found in this project');
+  }
+}
+
+// Helper function to check that a facility belongs to the project
+async function assertProjectFacility(projectId: string, facilityId: string): Promise<void> {
+  const facility = await db.queryOne(
+    `SELECT id FROM facilities WHERE id = $1 AND project_id = $2`,
+    [facilityId, projectId]
+  );
+  if (!facility) {
+    throw new BadRequestError('Facility not found in this project');
+  }
+}
+
+// Helper function to check an activity goes to one product or one shared process of the project
+async function assertProductAssignment(
+  projectId: string,
+  productId: string | null | undefined,
+  processId: string | null | undefined
+): Promise<void> {
+  if (productId && processId) {
+    throw new BadRequestError('Assign the activity to a product or to a shared process, not both');
+  }
+  if (productId) {
+    const product = await db.queryOne(
+      `SELECT id FROM products WHERE id = $1 AND project_id = $2`,
+      [productId, projectId]
+    );
+    if (!product) {
+      throw new BadRequestError('Product not found in this project');
+    }
+  }
+  if (processId) {
+    const process = await db.queryOne(
+      `SELECT id FROM product_processes WHERE id = $1 AND project_id = $2`,
+      [processId, projectId]
+    );
+    if (!process) {
+      throw new BadRequestError('Process not found in this project');
+    }
+  }
+}
+
 // Helper function to format activity response
 function formatActivity(row: any): any {
   return {
@@ -679,6 +837,11 @@ function formatActivity(row: any): any {
     tierDirection: row.tier_direction,
     dataSource: row.data_source,
     dataQualityScore: row.data_quality_score,
+    calculationMethod: row.calculation_method,
+    entityId: row.entity_id || null,
+    facilityId: row.facility_id || null,
+    productId: row.product_id || null,
+    processId: row.process_id || null,
     calculationStatus: row.calculation_status,
     totalEmissionsKgCo2e: row.total_emissions_kg_co2e ? parseFloat(row.total_emissions_kg_co2e) : null,
     emissionFactorUsed: row.emission_factor_used,
@@ -0,0 +1,301 @@
+import { Request, Response } from 'express';
+import { db } from '../config/database';
+import { generateId } from '../utils/helpers';
+import { BadRequestError, ConflictError, NotFoundError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import * as baseYearService from '../services/baseYearService';
+import type { AuditAction, RecalculationAssessment } from '../types';
+
+// Audit log helper
+async function logAudit(
+  userId: string,
+  action: AuditAction,
+  entityType: string,
+  entityId: string | null,
+  details: object,
+  projectId: string
+): Promise<void> {
+  try {
+    await db.query(
+      `INSERT INTO audit_logs (id, user_id, project_id, action, entity_type, entity_id, details)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [generateId(), userId, projectId, action, entityType, entityId, JSON.stringify(details)]
+    );
+  } catch (error) {
+    logger.error('Failed to create audit log:', error);
+  }
+}
+
+/**
+ * Base year of a project: the original and current inventory, the policy,
+ * pending changes and whether they trigger a recalculation
+ */
+export async function getBaseYear(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+
+  const status = await baseYearService.getBaseYearStatus(projectId);
+
+  res.json({
+    success: true,
+    data: {
+      baseYear: status.baseYear,
+      policy: status.policy,
+      originalCfoId: status.cfo?.id || null,
+      originalInventory: status.cfo ? baseYearService.cfoInventory(status.cfo) : null,
+      currentInventory: status.inventory,
+      latestRestatement: status.restatement ? formatRestatement(status.restatement) : null,
+      pendingChanges: status.pendingChanges,
+      assessment: assess(status),
+    },
+  });
+}
+
+/**
+ * Set the significance threshold and whether changes count cumulatively
+ */
+export async function updatePolicy(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+  const userId = req.user!.id;
+
+  const current = await db.queryOne(`SELECT settings FROM projects WHERE id = $1`, [projectId]);
+  if (!current) {
+    throw new NotFoundError('Project not found');
+  }
+  const policy = baseYearService.projectPolicy({
+    baseYearPolicy: { ...baseYearService.projectPolicy(current.settings), ...req.body },
+  });
+
+  await db.query(
+    `UPDATE projects
+     SET settings = COALESCE(settings, '{}'::jsonb) || jsonb_build_object('baseYearPolicy', $1::jsonb),
+         updated_at = NOW()
+     WHERE id = $2`,
+    [JSON.stringify(policy), projectId]
+  );
+
+  await logAudit(userId, 'UPDATE', 'base_year_policy', projectId, { policy }, projectId);
+
+  res.json({
+    success: true,
+    data: policy,
+  });
+}
+
+/**
+ * List recorded structural changes, pending and applied
+ */
+export async function getChanges(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+
+  const result = await db.query(
+    `SELECT * FROM base_year_changes WHERE project_id = $1 ORDER BY effective_date, created_at`,
+    [projectId]
+  );
+
+  res.json({
+    success: true,
+    data: result.rows.map(baseYearService.toStructuralChange),
+  });
+}
+
+/**
+ * Record a structural change, methodology change or error correction. The
+ * response carries the updated assessment, so callers see at once whether a
+ * recalculation is now triggered.
+ */
+export async function createChange(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+  const userId = req.user!.id;
+  const body = req.body;
+
+  if (body.entityId) {
+    const entity = await db.queryOne(
+      `SELECT id FROM organizational_entities WHERE id = $1 AND project_id = $2`,
+      [body.entityId, projectId]
+    );
+    if (!entity) {
+      throw new BadRequestError('Entity not found in this project');
+    }
+  }
+
+  const id = generateId();
+  const result = await db.query(
+    `INSERT INTO base_year_changes (
+      id, project_id, change_type, description, effective_date, entity_id, existed_in_base_year,
+      scope1_impact, scope2_location_impact, scope2_market_impact, scope3_impact, created_by
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+    RETURNING *`,
+    [
+      id,
+      projectId,
+      body.changeType,
+      body.description,
+      body.effectiveDate || null,
+      body.entityId || null,
+      body.existedInBaseYear,
+      body.impact.scope1,
+      body.impact.scope2Location,
+      body.impact.scope2Market ?? body.impact.scope2Location,
+      body.impact.scope3,
+      userId,
+    ]
+  );
+
+  const change = baseYearService.toStructuralChange(result.rows[0]);
+  const assessment = assess(await baseYearService.getBaseYearStatus(projectId));
+
+  await logAudit(userId, 'CREATE', 'base_year_change', id, {
+    changeType: change.changeType,
+    description: change.description,
+    impactKgCo2e: baseYearService.impactTotal(change.impact),
+    recalculationTriggered: assessment?.triggered ?? null,
+  }, projectId);
+
+  res.status(201).json({
+    success: true,
+    data: {
+      change,
+      assessment,
+    },
+  });
+}
+
+/**
+ * Delete a change no restatement has applied yet
+ */
+export async function deleteChange(req: Request, res: Response): Promise<void> {
+  const { projectId, changeId } = req.params;
+  const userId = req.user!.id;
+
+  const change = await db.queryOne(
+    `SELECT * FROM base_year_changes WHERE id = $1 AND project_id = $2`,
+    [changeId, projectId]
+  );
+  if (!change) {
+    throw new NotFoundError('Structural change not found');
+  }
+  if (change.restatement_id) {
+    throw new ConflictError('The change has been applied by a base-year restatement and cannot be deleted');
+  }
+
+  await db.query(`DELETE FROM base_year_changes WHERE id = $1`, [changeId]);
+
+  await logAudit(userId, 'DELETE', 'base_year_change', changeId, { description: change.description }, projectId);
+
+  res.json({
+    success: true,
+    message: 'Structural change deleted',
+  });
+}
+
+/**
+ * Restate the base year with every pending change. Refused while the changes
+ * stay below the significance threshold, unless forced (a voluntary
+ * restatement, e.g. for a methodology change the company adopts anyway).
+ */
+export async function restateBaseYear(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+  const userId = req.user!.id;
+  const { reason, force } = req.body;
+
+  const status = await baseYearService.getBaseYearStatus(projectId);
+  const assessment = assess(status);
+  if (!status.cfo || !status.inventory || !assessment) {
+    throw new BadRequestError(`No CFO result for base year ${status.baseYear}; calculate the base year first`);
+  }
+  if (status.pendingChanges.length === 0) {
+    throw new BadRequestError('No pending structural changes to restate');
+  }
+  if (!assessment.triggered && !force) {
+    throw new BadRequestError(`${assessment.reason}; pass force to restate anyway`);
+  }
+
+  const restatedInventory = baseYearService.restateInventory(status.inventory, status.pendingChanges);
+  const appliedChanges = assessment.changes;
+  const restatementId = generateId();
+
+  const restatement = await db.transaction(async (client) => {
+    const inserted = await client.query(
+      `INSERT INTO base_year_restatements (
+        id, project_id, base_year, original_cfo_id, previous_restatement_id,
+        original_inventory, restated_inventory, applied_changes, assessment, reason, created_by
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      RETURNING *`,
+      [
+        restatementId,
+        projectId,
+        status.baseYear,
+        status.cfo.id,
+        status.restatement?.id || null,
+        JSON.stringify(baseYearService.cfoInventory(status.cfo)),
+        JSON.stringify(restatedInventory),
+        JSON.stringify(appliedChanges),
+        JSON.stringify(assessment),
+        reason || assessment.reason,
+        userId,
+      ]
+    );
+
+    await client.query(
+      `UPDATE base_year_changes SET restatement_id = $1, updated_at = NOW() WHERE id = ANY($2)`,
+      [restatementId, status.pendingChanges.map((c) => c.id)]
+    );
+    return inserted.rows[0];
+  });
+
+  await logAudit(userId, 'RESTATE_BASE_YEAR', 'base_year_restatement', restatementId, {
+    baseYear: status.baseYear,
+    previousTotal: status.inventory.total,
+    restatedTotal: restatedInventory.total,
+    changes: appliedChanges.length,
+    forced: !assessment.triggered,
+  }, projectId);
+
+  res.status(201).json({
+    success: true,
+    data: formatRestatement(restatement),
+  });
+}
+
+/**
+ * List base-year restatements, newest first
+ */
+export async function getRestatements(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+
+  const result = await db.query(
+    `SELECT * FROM base_year_restatements WHERE project_id = $1 ORDER BY created_at DESC`,
+    [projectId]
+  );
+
+  res.json({
+    success: true,
+    data: result.rows.map(formatRestatement),
+  });
+}
+
+// Helper function to assess pending changes against the current base-year inventory
+function assess(status: Awaited<ReturnType<typeof baseYearService.getBaseYearStatus>>): RecalculationAssessment | null {
+  if (!status.inventory) {
+    return null;
+  }
+  return baseYearService.assessRecalculation(status.baseYear, status.inventory, status.pendingChanges, status.policy);
+}
+
+// Helper function to format restatement response
+function formatRestatement(row: any): any {
+  return {
+    id: row.id,
+    baseYear: row.base_year,
+    originalCfoId: row.original_cfo_id,
+    previousRestatementId: row.previous_restatement_id || null,
+    originalInventory: row.original_inventory,
+    restatedInventory: row.restated_inventory,
+    appliedChanges: row.applied_changes,
+    reason: row.reason,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+  };
+}
@@ -1,12 +1,39 @@
 import { Request, Response } from 'express';
 import { db } from '../config/database';
 import { redisClient as redis } from '../config/redis';
-import { config } from '../config/env';
 import { generateId, roundTo } from '../utils/helpers';
 import { BadRequestError, NotFoundError } from '../middleware/errorHandler';
 import { logger } from '../utils/logger';
 import * as ghgService from '../services/ghgService';
-import type { AuditAction, CFPResult, CFOResult } from '../types';
+import * as gwpService from '../services/gwpService';
+import * as scope2Service from '../services/scope2Service';
+import * as cnCodeService from '../services/cnCodeService';
+import * as spendService from '../services/spendService';
+import * as calculationRunService from '../services/calculationRunService';
+import * as factorMatchingService from '../services/factorMatchingService';
+import * as consolidationService from '../services/consolidationService';
+import * as baseYearService from '../services/baseYearService';
+import * as initiativeService from '../services/initiativeService';
+import * as uncertaintyService from '../services/uncertaintyService';
+import * as productService from '../services/productService';
+import * as landSectorService from '../services/landSectorService';
+import * as creditService from '../services/creditService';
+import type {
+  AllocationMethod,
+  AppliedFactor,
+  AuditAction,
+  CalculatePrecursorsRequest,
+  CalculationMethod,
+  CFPResult,
+  CFOResult,
+  ConsolidationMethod,
+  CreditNetView,
+  GWPSet,
+  LandSectorCalculation,
+  Product,
+  ProductFootprint,
+  ShipmentResult,
+} from '../types';
 
 // Audit log helper
 async function logAudit(
@@ -38,7 +65,10 @@ export async function calculateActivity(req: Request, res: Response): Promise<vo
 
   // Get activity
   const activityResult = await db.query(
-    `SELECT * FROM activities WHERE id = $1 AND project_id = $2`,
+    `SELECT a.*, f.country AS facility_country, f.grid_region AS facility_grid_region, f.entity_id AS facility_entity_id
+     FROM activities a
+     LEFT JOIN facilities f ON f.id = a.facility_id
+     WHERE a.id = $1 AND a.project_id = $2`,
     [activityId, projectId]
   );
 
@@ -47,58 +77,75 @@ export async function calculateActivity(req: Request, res: Response): Promise<vo
   }
 
   const activity = activityResult.rows[0];
+  const gwpSet = await ghgService.getProjectGWPSet(projectId);
+  const project = await calculationRunService.loadMatchProject(projectId);
+  const matchContext = factorMatchingService.activityMatchContext(activity, project);
 
-  // Get emission factor
-  let emissionFactor: number;
-  let emissionFactorSource: string;
+  // Get emission factor (per activity unit), pinned to the factor version applied
+  let applied: AppliedFactor;
+  let factorSource: calculationRunService.FactorSource = 'default';
+  let spend: spendService.SpendFactorLookup['spend'] | undefined;
+  let transport: ShipmentResult | undefined;
+  let landSector: LandSectorCalculation | undefined;
 
   if (customEmissionFactor) {
-    emissionFactor = customEmissionFactor;
-    emissionFactorSource = 'custom';
+    applied = calculationRunService.customFactor(customEmissionFactor, activity.unit);
   } else if (emissionFactorId) {
-    const efResult = await db.query(
-      `SELECT * FROM emission_factors WHERE id = $1`,
-      [emissionFactorId]
-    );
-    if (efResult.rows.length === 0) {
-      throw new NotFoundError('Emission factor not found');
-    }
-    emissionFactor = parseFloat(efResult.rows[0].factor_value);
-    emissionFactorSource = efResult.rows[0].source;
+    applied = await calculationRunService.resolveFactorRow(emissionFactorId, activity.unit, gwpSet);
   } else {
-    // Use default emission factor lookup
-    const lookupResult = await ghgService.lookupEmissionFactor(
-      activity.activity_type,
-      activity.unit,
-      activity.scope
-    );
-    emissionFactor = lookupResult.factor;
-    emissionFactorSource = lookupResult.source;
+    ({ applied, factorSource, spend, transport, landSector } =
+      await calculationRunService.resolveActivityFactor(activity, gwpSet, matchContext));
   }
 
-  // Calculate base emissions
-  let totalEmissions = activity.quantity * emissionFactor;
+  const calculationMethod = spendService.resolveCalculationMethod(activity, factorSource);
 
   // Apply tier multiplier if Tier 2+
   const tier = tierLevel || activity.tier_level;
-  if (tier === 'tier2plus') {
-    totalEmissions *= config.tier2PlusMultiplier;
-  }
+  const tierMultiplier = calculationRunService.tierMultiplierFor(tier);
 
   // Calculate precursors if requested
   let precursorEmissions = 0;
   if (includePrecursors && activity.scope === 'scope3') {
+    // CN-coded goods carry the CBAM material and route in their metadata
     precursorEmissions = await ghgService.calculatePrecursors(
       activityId,
-      activity.activity_type,
+      activity.metadata?.cbamMaterial || activity.activity_type,
       activity.quantity,
-      activity.unit
+      activity.unit,
+      activity.metadata?.productionRoute,
+      projectId
     );
-    totalEmissions += precursorEmissions;
   }
 
-  // Round to reasonable precision
-  totalEmissions = roundTo(totalEmissions, 4);
+  // Calculate base emissions per gas, then convert to CO2e
+  const { gasBreakdown, totalEmissions } = calculationRunService.computeEmissions(
+    parseFloat(activity.quantity),
+    applied,
+    gwpSet,
+    tierMultiplier,
+    precursorEmissions
+  );
+
+  const calculationRunId = await calculationRunService.recordRun({
+    projectId,
+    triggeredBy: userId,
+    calculationType: 'activity',
+    gwpSet,
+    items: [{
+      activityId,
+      inputs: calculationRunService.snapshotInputs(activity, {
+        tierLevel: tier,
+        emissionFactorId,
+        customEmissionFactor,
+        matchContext,
+      }),
+      factor: applied,
+      tierMultiplier,
+      precursorEmissions,
+      gasBreakdown,
+      totalEmissions,
+    }],
+  });
 
   // Update activity with calculated emissions
   await db.query(
@@ -106,17 +153,41 @@ export async function calculateActivity(req: Request, res: Response): Promise<vo
        calculation_status = 'calculated',
        total_emissions_kg_co2e = $1,
        emission_factor_used = $2,
-       tier_level = $3,
+       gas_breakdown = $3,
+       tier_level = $4,
+       calculation_method = $5,
        calculated_at = NOW(),
        updated_at = NOW()
-     WHERE id = $4`,
-    [totalEmissions, JSON.stringify({ factor: emissionFactor, source: emissionFactorSource }), tier, activityId]
+     WHERE id = $6`,
+    [
+      totalEmissions,
+      JSON.stringify({
+        factor: applied.factor,
+        source: applied.source,
+        factorUnit: applied.unit,
+        unitConversion: applied.conversionFactor,
+        gases: applied.gases,
+        reference: applied.reference,
+        ...(applied.matchReason && { matchReason: applied.matchReason }),
+        calculationRunId,
+        ...(spend && { spend }),
+        ...(transport && { transport }),
+        ...(landSector && { landSector }),
+      }),
+      JSON.stringify(gasBreakdown),
+      tier,
+      calculationMethod,
+      activityId,
+    ]
   );
 
   await logAudit(userId, 'CALCULATE', 'activity', activityId, {
-    emissionFactor,
+    emissionFactor: applied.factor,
+    factorReference: applied.reference,
+    calculationRunId,
     totalEmissions,
     tierLevel: tier,
+    gwpSet,
     precursorEmissions,
   }, projectId);
 
@@ -126,11 +197,21 @@ export async function calculateActivity(req: Request, res: Response): Promise<vo
       activityId,
       quantity: parseFloat(activity.quantity),
       unit: activity.unit,
-      emissionFactor,
-      emissionFactorSource,
+      emissionFactor: applied.factor,
+      emissionFactorSource: applied.source,
+      emissionFactorUnit: applied.unit,
+      factorReference: applied.reference,
+      factorMatchReason: applied.matchReason,
       tierLevel: tier,
+      calculationMethod,
+      ...(spend && { spend }),
+      ...(transport && { transport }),
+      ...(landSector && { landSector }),
+      gwpSet,
+      gasBreakdown: gwpService.summarizeGasBreakdown(gasBreakdown),
       precursorEmissions,
       totalEmissionsKgCo2e: totalEmissions,
+      calculationRunId,
     },
   });
 }
@@ -145,7 +226,10 @@ export async function calculateAllActivities(req: Request, res: Response): Promi
 
   // Get all pending activities
   const activitiesResult = await db.query(
-    `SELECT * FROM activities WHERE project_id = $1 AND calculation_status = 'pending'`,
+    `SELECT a.*, f.country AS facility_country, f.grid_region AS facility_grid_region, f.entity_id AS facility_entity_id
+     FROM activities a
+     LEFT JOIN facilities f ON f.id = a.facility_id
+     WHERE a.project_id = $1 AND a.calculation_status = 'pending'`,
     [projectId]
   );
 
@@ -154,35 +238,41 @@ export async function calculateAllActivities(req: Request, res: Response): Promi
     errors: [] as any[],
   };
 
+  const gwpSet = await ghgService.getProjectGWPSet(projectId);
+  const project = await calculationRunService.loadMatchProject(projectId);
+  const calculationRunId = generateId();
+  const runItems: calculationRunService.RunItemInput[] = [];
+
   for (const activity of activitiesResult.rows) {
     try {
       // Lookup emission factor
-      const lookupResult = await ghgService.lookupEmissionFactor(
-        activity.activity_type,
-        activity.unit,
-        activity.scope
-      );
-
-      let totalEmissions = activity.quantity * lookupResult.factor;
+      const matchContext = factorMatchingService.activityMatchContext(activity, project);
+      const { applied, factorSource, spend, transport, landSector } =
+        await calculationRunService.resolveActivityFactor(activity, gwpSet, matchContext);
 
       // Apply tier multiplier
-      if (activity.tier_level === 'tier2plus') {
-        totalEmissions *= config.tier2PlusMultiplier;
-      }
+      const tierMultiplier = calculationRunService.tierMultiplierFor(activity.tier_level);
 
       // Calculate precursors
       let precursorEmissions = 0;
       if (includePrecursors && activity.scope === 'scope3') {
         precursorEmissions = await ghgService.calculatePrecursors(
           activity.id,
-          activity.activity_type,
+          activity.metadata?.cbamMaterial || activity.activity_type,
           activity.quantity,
-          activity.unit
+          activity.unit,
+          activity.metadata?.productionRoute,
+          projectId
         );
-        totalEmissions += precursorEmissions;
       }
 
-      totalEmissions = roundTo(totalEmissions, 4);
+      const { gasBreakdown, totalEmissions } = calculationRunService.computeEmissions(
+        parseFloat(activity.quantity),
+        applied,
+        gwpSet,
+        tierMultiplier,
+        precursorEmissions
+      );
 
       // Update activity
       await db.query(
@@ -190,12 +280,41 @@ export async function calculateAllActivities(req: Request, res: Response): Promi
            calculation_status = 'calculated',
            total_emissions_kg_co2e = $1,
            emission_factor_used = $2,
+           gas_breakdown = $3,
+           calculation_method = $4,
            calculated_at = NOW(),
            updated_at = NOW()
-         WHERE id = $3`,
-        [totalEmissions, JSON.stringify({ factor: lookupResult.factor, source: lookupResult.source }), activity.id]
+         WHERE id = $5`,
+        [
+          totalEmissions,
+          JSON.stringify({
+            factor: applied.factor,
+            source: applied.source,
+            factorUnit: applied.unit,
+            unitConversion: applied.conversionFactor,
+            gases: applied.gases,
+            reference: applied.reference,
+            ...(applied.matchReason && { matchReason: applied.matchReason }),
+            calculationRunId,
+            ...(spend && { spend }),
+            ...(transport && { transport }),
+            ...(landSector && { landSector }),
+          }),
+          JSON.stringify(gasBreakdown),
+          spendService.resolveCalculationMethod(activity, factorSource),
+          activity.id,
+        ]
       );
 
+      runItems.push({
+        activityId: activity.id,
+        inputs: calculationRunService.snapshotInputs(activity, { matchContext }),
+        factor: applied,
+        tierMultiplier,
+        precursorEmissions,
+        gasBreakdown,
+        totalEmissions,
+      });
       results.calculated.push({
         activityId: activity.id,
         name: activity.name,
@@ -214,14 +333,27 @@ export async function calculateAllActivities(req: Request, res: Response): Promi
     }
   }
 
+  if (runItems.length > 0) {
+    await calculationRunService.recordRun({
+      id: calculationRunId,
+      projectId,
+      triggeredBy: userId,
+      calculationType: 'project',
+      gwpSet,
+      items: runItems,
+    });
+  }
+
   await logAudit(userId, 'BULK_CALCULATE', 'activity', null, {
     calculated: results.calculated.length,
     errors: results.errors.length,
+    calculationRunId: runItems.length > 0 ? calculationRunId : null,
   }, projectId);
 
   res.json({
     success: true,
     data: {
+      calculationRunId: runItems.length > 0 ? calculationRunId : null,
       ...results,
       summary: {
         total: activitiesResult.rows.length,
@@ -232,13 +364,152 @@ export async function calculateAllActivities(req: Request, res: Response): Promi
   });
 }
 
+/**
+ * Explain the emission factor match for an activity: the chosen factor, why it
+ * was chosen, and every candidate ranked or excluded
+ */
+export async function explainActivityFactorMatch(req: Request, res: Response): Promise<void> {
+  const { projectId, activityId } = req.params;
+
+  const activity = await db.queryOne(
+    `SELECT a.*, f.country AS facility_country, f.grid_region AS facility_grid_region, f.entity_id AS facility_entity_id
+     FROM activities a
+     LEFT JOIN facilities f ON f.id = a.facility_id
+     WHERE a.id = $1 AND a.project_id = $2`,
+    [activityId, projectId]
+  );
+
+  if (!activity) {
+    throw new NotFoundError('Activity not found');
+  }
+
+  const project = await calculationRunService.loadMatchProject(projectId);
+  const context = factorMatchingService.activityMatchContext(activity, project);
+  const { match } = await ghgService.matchEmissionFactor(activity.activity_type, activity.unit, activity.scope, context);
+
+  res.json({
+    success: true,
+    data: {
+      activityId,
+      activityType: activity.activity_type,
+      unit: activity.unit,
+      context,
+      chosen: match.chosen ? factorMatchingService.formatRankedCandidate(match.candidates[0]) : null,
+      ambiguous: match.ambiguous,
+      reason: match.reason,
+      candidates: match.candidates.map(factorMatchingService.formatRankedCandidate),
+    },
+  });
+}
+
+/**
+ * Recalculate CO2e for calculated activities with a (new) GWP set.
+ * Uses the stored per-gas masses, so emission factors are not looked up again.
+ */
+export async function recalculateGWP(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+  const userId = req.user!.id;
+
+  const previousGwpSet = await ghgService.getProjectGWPSet(projectId);
+  const gwpSet: GWPSet = req.body.gwpSet || previousGwpSet;
+
+  const activitiesResult = await db.query(
+    `SELECT id, name, gas_breakdown, total_emissions_kg_co2e FROM activities
+     WHERE project_id = $1 AND calculation_status = 'calculated'`,
+    [projectId]
+  );
+
+  // Activities without a per-gas breakdown would keep CO2e under the old set
+  const withoutBreakdown = activitiesResult.rows.filter((activity) => !gwpService.parseGasBreakdown(activity.gas_breakdown));
+  if (gwpSet !== previousGwpSet && withoutBreakdown.length > 0) {
+    const names = withoutBreakdown.slice(0, 5).map((activity) => activity.name).join(', ');
+    const more = withoutBreakdown.length > 5 ? ` and ${withoutBreakdown.length - 5} more` : '';
+    throw new BadRequestError(
+      `Cannot switch to ${gwpSet}: ${withoutBreakdown.length} activities have no per-gas breakdown (${names}${more}). Recalculate them first.`
+    );
+  }
+
+  const results = {
+    recalculated: [] as any[],
+    skipped: [] as any[],
+  };
+  let previousTotal = 0;
+  let newTotal = 0;
+
+  await db.transaction(async (client) => {
+    await client.query(
+      `UPDATE projects SET gwp_set = $1, updated_at = NOW() WHERE id = $2`,
+      [gwpSet, projectId]
+    );
+
+    for (const activity of activitiesResult.rows) {
+      const previousEmissions = parseFloat(activity.total_emissions_kg_co2e) || 0;
+      const gasBreakdown = gwpService.parseGasBreakdown(activity.gas_breakdown);
+      previousTotal += previousEmissions;
+
+      // Calculated before per-gas tracking; only reached when the set is unchanged
+      if (!gasBreakdown) {
+        newTotal += previousEmissions;
+        results.skipped.push({
+          activityId: activity.id,
+          name: activity.name,
+          reason: 'No per-gas breakdown stored; recalculate the activity',
+        });
+        continue;
+      }
+
+      const totalEmissions = roundTo(gwpService.breakdownToCO2e(gasBreakdown, gwpSet), 4);
+      newTotal += totalEmissions;
+
+      await client.query(
+        `UPDATE activities SET
+           total_emissions_kg_co2e = $1,
+           gas_breakdown = $2,
+           updated_at = NOW()
+         WHERE id = $3`,
+        [totalEmissions, JSON.stringify({ ...gasBreakdown, gwpSet }), activity.id]
+      );
+
+      results.recalculated.push({
+        activityId: activity.id,
+        name: activity.name,
+        previousEmissionsKgCo2e: previousEmissions,
+        totalEmissionsKgCo2e: totalEmissions,
+      });
+    }
+  });
+
+  await logAudit(userId, 'RECALCULATE_GWP', 'project', projectId, {
+    previousGwpSet,
+    gwpSet,
+    recalculated: results.recalculated.length,
+    skipped: results.skipped.length,
+  }, projectId);
+
+  res.json({
+    success: true,
+    data: {
+      previousGwpSet,
+      gwpSet,
+      ...results,
+      summary: {
+        total: activitiesResult.rows.length,
+        recalculated: results.recalculated.length,
+        skipped: results.skipped.length,
+        previousTotalKgCo2e: roundTo(previousTotal, 4),
+        totalKgCo2e: roundTo(newTotal, 4),
+      },
+    },
+  });
+}
+
 /**
  * Calculate CFP (Carbon Footprint of Product)
  */
 export async function calculateCFP(req: Request, res: Response): Promise<void> {
   const { projectId } = req.params;
   const userId = req.user!.id;
-  const { productName, functionalUnit, productionVolume, allocationMethod, includeBiogenic } = req.body;
+  const { productName, functionalUnit, productionVolume, allocationMethod, includeBiogenic, productIds } = req.body;
 
   // Get all calculated activities for the project
   const activitiesResult = await db.query(
@@ -254,63 +525,33 @@ export async function calculateCFP(req: Request, res: Response): Promise<void> {
 
   const activities = activitiesResult.rows;
 
-  // Calculate emissions by lifecycle stage
-  const lifecycleStages = {
-    rawMaterials: 0,
-    production: 0,
-    distribution: 0,
-    use: 0,
-    endOfLife: 0,
-  };
+  // A project with products gets one footprint per product
+  const products = await productService.getProjectProducts(projectId);
+  if (products.length > 0) {
+    res.json({
+      success: true,
+      data: await calculateProductCFPs(projectId, userId, activities, products, {
+        includeBiogenic,
+        productIds,
+        allocationMethod,
+      }),
+    });
+    return;
+  }
 
-  // Map activities to lifecycle stages
+  // Otherwise the whole project is one product. Calculate emissions by lifecycle stage
+  const lifecycleStages = productService.emptyStages();
   for (const activity of activities) {
-    const emissions = parseFloat(activity.total_emissions_kg_co2e) || 0;
-    
-    // Scope 1 & 2 go to production
-    if (activity.scope === 'scope1' || activity.scope === 'scope2') {
-      lifecycleStages.production += emissions;
-    } else if (activity.scope === 'scope3') {
-      // Map Scope 3 categories to lifecycle stages
-      switch (activity.scope3_category) {
-        case 'purchased_goods':
-        case 'capital_goods':
-        case 'fuel_energy':
-          lifecycleStages.rawMaterials += emissions;
-          break;
-        case 'upstream_transport':
-        case 'downstream_transport':
-          lifecycleStages.distribution += emissions;
-          break;
-        case 'waste':
-        case 'end_of_life':
-          lifecycleStages.endOfLife += emissions;
-          break;
-        case 'use_of_products':
-        case 'processing':
-          lifecycleStages.use += emissions;
-          break;
-        default:
-          lifecycleStages.production += emissions;
-      }
-    }
+    lifecycleStages[productService.lifecycleStageOf(activity)] += parseFloat(activity.total_emissions_kg_co2e) || 0;
   }
 
   // Calculate totals
   const totalEmissions = Object.values(lifecycleStages).reduce((sum, val) => sum + val, 0);
   const cfpPerUnit = productionVolume > 0 ? totalEmissions / productionVolume : totalEmissions;
 
-  // Biogenic carbon handling
-  let biogenicCarbon = 0;
-  if (includeBiogenic) {
-    // Query for biogenic emissions (would need separate tracking in real implementation)
-    const biogenicResult = await db.query(
-      `SELECT SUM(COALESCE((metadata->>'biogenic_emissions')::numeric, 0)) as biogenic
-       FROM activities WHERE project_id = $1`,
-      [projectId]
-    );
-    biogenicCarbon = parseFloat(biogenicResult.rows[0]?.biogenic) || 0;
-  }
+  // Biogenic CO2, removals and land-use change, reported apart from the fossil total
+  const landSector = landSectorService.summarizeLandSector(activities);
+  const biogenicCarbon = includeBiogenic ? landSector.biogenicCo2Emissions : 0;
 
   // Save CFP result
   const cfpId = generateId();
@@ -319,9 +560,9 @@ export async function calculateCFP(req: Request, res: Response): Promise<void> {
       id, project_id, product_name, functional_unit, production_volume,
       allocation_method, raw_materials_emissions, production_emissions,
       distribution_emissions, use_emissions, end_of_life_emissions,
-      cfp_total, cfp_per_unit, biogenic_carbon
+      cfp_total, cfp_per_unit, biogenic_carbon, land_sector
     )
-    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)`,
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)`,
     [
       cfpId,
       projectId,
@@ -337,6 +578,7 @@ export async function calculateCFP(req: Request, res: Response): Promise<void> {
       roundTo(totalEmissions, 4),
       roundTo(cfpPerUnit, 6),
       roundTo(biogenicCarbon, 4),
+      JSON.stringify(landSector),
     ]
   );
 
@@ -364,23 +606,123 @@ export async function calculateCFP(req: Request, res: Response): Promise<void> {
       cfpTotal: roundTo(totalEmissions, 4),
       cfpPerUnit: roundTo(cfpPerUnit, 6),
       biogenicCarbon: roundTo(biogenicCarbon, 4),
+      landSector,
     },
   });
 }
 
+// Helper function to footprint the project's products and store one CFP row per product
+async function calculateProductCFPs(
+  projectId: string,
+  userId: string,
+  activities: any[],
+  products: Product[],
+  options: { includeBiogenic?: boolean; productIds?: string[]; allocationMethod?: AllocationMethod }
+): Promise<any> {
+  const allocationMethod = options.allocationMethod || productService.DEFAULT_ALLOCATION_METHOD;
+  const unknown = (options.productIds || []).filter((id) => !products.some((product) => product.id === id));
+  if (unknown.length > 0) {
+    throw new BadRequestError('Products must belong to this project');
+  }
+
+  // Every product is footprinted, since the selected ones may be made from the others
+  const processes = await productService.getProjectProcesses(projectId);
+  const result = productService.calculateProductFootprints(products, processes, activities, {
+    includeBiogenic: options.includeBiogenic,
+    allocationMethod,
+  });
+  // Footprints under the other methods, kept with each result as the ISO 14044 sensitivity check
+  const sensitivity = productService.compareAllocationMethods(products, processes, activities, { allocationMethod }).products;
+  const footprints = options.productIds
+    ? result.footprints.filter((footprint) => options.productIds!.includes(footprint.productId))
+    : result.footprints;
+
+  // Credits retired against each product for the project's reporting year, shown next to the gross
+  const project = await db.queryOne(`SELECT reporting_year FROM projects WHERE id = $1`, [projectId]);
+  const creditsByProduct = await creditService.getRetiredCreditsByProduct(projectId, project.reporting_year);
+
+  const runId = generateId();
+  const stored = await db.transaction(async (client) => {
+    const rows: Array<{ id: string; credits: CreditNetView } & ProductFootprint> = [];
+    for (const footprint of footprints) {
+      const id = generateId();
+      const credits = creditService.netEmissions(
+        footprint.cfpTotal,
+        creditsByProduct.get(footprint.productId) || [],
+        footprint.outputQuantity
+      );
+      await client.query(
+        `INSERT INTO cfp_results (
+          id, project_id, product_id, run_id, product_name, functional_unit, production_volume,
+          allocation_method, raw_materials_emissions, production_emissions,
+          distribution_emissions, use_emissions, end_of_life_emissions,
+          cfp_total, cfp_per_unit, biogenic_carbon, allocation, land_sector, credits
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)`,
+        [
+          id,
+          projectId,
+          footprint.productId,
+          runId,
+          footprint.productName,
+          footprint.functionalUnit || footprint.declaredUnit,
+          footprint.outputQuantity,
+          allocationMethod,
+          footprint.lifecycleStages.rawMaterials,
+          footprint.lifecycleStages.production,
+          footprint.lifecycleStages.distribution,
+          footprint.lifecycleStages.use,
+          footprint.lifecycleStages.endOfLife,
+          footprint.cfpTotal,
+          footprint.cfpPerUnit,
+          footprint.biogenicCarbon,
+          JSON.stringify({
+            sources: footprint.sources,
+            allocations: footprint.allocations,
+            components: footprint.components,
+            sensitivity: sensitivity.find((entry) => entry.productId === footprint.productId),
+          }),
+          JSON.stringify(footprint.landSector),
+          JSON.stringify(credits),
+        ]
+      );
+      rows.push({ id, ...footprint, credits });
+    }
+    return rows;
+  });
+
+  await logAudit(userId, 'CALCULATE_CFP', 'cfp', runId, {
+    products: stored.map((row) => ({ productName: row.productName, cfpPerUnit: row.cfpPerUnit })),
+    unassignedEmissions: result.unassigned.emissions,
+  }, projectId);
+
+  return {
+    runId,
+    allocationMethod,
+    products: stored,
+    unassigned: result.unassigned,
+    sensitivity: options.productIds
+      ? sensitivity.filter((entry) => options.productIds!.includes(entry.productId))
+      : sensitivity,
+    warnings: result.warnings,
+  };
+}
+
 /**
  * Calculate CFO (Carbon Footprint of Organization)
  */
 export async function calculateCFO(req: Request, res: Response): Promise<void> {
   const { projectId } = req.params;
   const userId = req.user!.id;
-  const { organizationName, consolidationMethod, operationalBoundary, reportingYear } = req.body;
+  const { organizationName, consolidationMethod, operationalBoundary, reportingYear, includeUncertainty } = req.body;
 
   // Get all calculated activities
   const activitiesResult = await db.query(
-    `SELECT * FROM activities 
-     WHERE project_id = $1 AND calculation_status = 'calculated'
-     ORDER BY scope`,
+    `SELECT a.*, f.country AS facility_country, f.grid_region AS facility_grid_region, f.entity_id AS facility_entity_id
+     FROM activities a
+     LEFT JOIN facilities f ON f.id = a.facility_id
+     WHERE a.project_id = $1 AND a.calculation_status = 'calculated'
+     ORDER BY a.scope`,
     [projectId]
   );
 
@@ -388,6 +730,12 @@ export async function calculateCFO(req: Request, res: Response): Promise<void> {
     throw new BadRequestError('No calculated activities found. Please calculate activities first.');
   }
 
+  // Organizational boundary: each entity's share under the consolidation approach
+  const method: ConsolidationMethod = consolidationMethod || consolidationService.DEFAULT_CONSOLIDATION_METHOD;
+  const entities = await consolidationService.getProjectEntities(projectId);
+  const consolidation = consolidationService.consolidateActivities(activitiesResult.rows, entities, method);
+  const activities = consolidation.activities;
+
   // Calculate by scope
   const scopeEmissions = {
     scope1: 0,
@@ -399,7 +747,7 @@ export async function calculateCFO(req: Request, res: Response): Promise<void> {
 
   const scope3CategoryBreakdown: Record<string, number> = {};
 
-  for (const activity of activitiesResult.rows) {
+  for (const activity of activities) {
     const emissions = parseFloat(activity.total_emissions_kg_co2e) || 0;
 
     switch (activity.scope) {
@@ -407,8 +755,7 @@ export async function calculateCFO(req: Request, res: Response): Promise<void> {
         scopeEmissions.scope1 += emissions;
         break;
       case 'scope2':
-        // For simplicity, treat as location-based (would need separate tracking for market-based)
-        scopeEmissions.scope2Location += emissions;
+        // Location- and market-based totals are computed together below
         break;
       case 'scope3':
         const category = activity.scope3_category || 'other';
@@ -428,12 +775,43 @@ export async function calculateCFO(req: Request, res: Response): Promise<void> {
     }
   }
 
+  // Scope 2 dual reporting: location-based from activities, market-based from instruments
+  const cfoYear = reportingYear || new Date().getFullYear();
+  const projectResult = await db.query(`SELECT country FROM projects WHERE id = $1`, [projectId]);
+  const scope2 = await scope2Service.calculateProjectScope2(projectId, activities, {
+    country: projectResult.rows[0]?.country,
+    reportingYear: cfoYear,
+  });
+  scopeEmissions.scope2Location = scope2.locationBased;
+  scopeEmissions.scope2Market = scope2.marketBased;
+
   // Calculate totals
   const totalScope1 = scopeEmissions.scope1;
-  const totalScope2 = scopeEmissions.scope2Location; // Using location-based
+  const totalScope2 = scopeEmissions.scope2Location; // Location-based in the total; market-based is reported alongside
   const totalScope3 = scopeEmissions.scope3Upstream + scopeEmissions.scope3Downstream;
   const cfoTotal = totalScope1 + totalScope2 + totalScope3;
 
+  // Per-gas breakdown across all calculated activities
+  const gwpSet = await ghgService.getProjectGWPSet(projectId);
+  const gasBreakdown = gwpService.mergeGasBreakdowns(
+    activities.map((activity) => ({
+      breakdown: activity.gas_breakdown,
+      co2e: parseFloat(activity.total_emissions_kg_co2e) || 0,
+    })),
+    gwpSet
+  );
+
+  // Land-sector and biogenic flows of the consolidated inventory, reported apart from the fossil total
+  const landSector = landSectorService.summarizeLandSector(activities);
+
+  // Credits retired against the organization for the year, shown next to the gross total
+  const credits = creditService.netEmissions(cfoTotal, await creditService.getRetiredCredits(projectId, cfoYear));
+
+  // Optional Monte Carlo confidence intervals on the consolidated inventory
+  const uncertainty = includeUncertainty
+    ? await uncertaintyService.analyzeActivities(activities)
+    : null;
+
   // Save CFO result
   const cfoId = generateId();
   await db.query(
@@ -441,15 +819,16 @@ export async function calculateCFO(req: Request, res: Response): Promise<void> {
       id, project_id, organization_name, reporting_year, consolidation_method,
       operational_boundary, scope1_emissions, scope2_location_emissions,
       scope2_market_emissions, scope3_upstream_emissions, scope3_downstream_emissions,
-      scope3_category_breakdown, cfo_total
+      scope3_category_breakdown, cfo_total, gwp_set, gas_breakdown, scope2_quality_check,
+      entity_breakdown, approach_totals, uncertainty, land_sector, credits
     )
-    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21)`,
     [
       cfoId,
       projectId,
       organizationName,
-      reportingYear || new Date().getFullYear(),
-      consolidationMethod || 'operational_control',
+      cfoYear,
+      method,
       operationalBoundary || 'all',
       roundTo(totalScope1, 4),
       roundTo(scopeEmissions.scope2Location, 4),
@@ -458,6 +837,14 @@ export async function calculateCFO(req: Request, res: Response): Promise<void> {
       roundTo(scopeEmissions.scope3Downstream, 4),
       JSON.stringify(scope3CategoryBreakdown),
       roundTo(cfoTotal, 4),
+      gwpSet,
+      JSON.stringify(gasBreakdown),
+      JSON.stringify(scope2.qualityCheck),
+      JSON.stringify(consolidation.byEntity),
+      JSON.stringify(consolidation.approachTotals),
+      uncertainty ? JSON.stringify(uncertainty) : null,
+      JSON.stringify(landSector),
+      JSON.stringify(credits),
     ]
   );
 
@@ -466,7 +853,10 @@ export async function calculateCFO(req: Request, res: Response): Promise<void> {
     cfoTotal,
     scope1: totalScope1,
     scope2: totalScope2,
+    scope2MarketBased: scope2.marketBased,
     scope3: totalScope3,
+    gwpSet,
+    consolidationMethod: method,
   }, projectId);
 
   res.json({
@@ -474,14 +864,22 @@ export async function calculateCFO(req: Request, res: Response): Promise<void> {
     data: {
       id: cfoId,
       organizationName,
-      reportingYear: reportingYear || new Date().getFullYear(),
-      consolidationMethod: consolidationMethod || 'operational_control',
+      reportingYear: cfoYear,
+      consolidationMethod: method,
       operationalBoundary: operationalBoundary || 'all',
+      consolidation: {
+        byEntity: consolidation.byEntity,
+        approachTotals: consolidation.approachTotals,
+      },
       emissions: {
         scope1: roundTo(totalScope1, 4),
         scope2: {
           locationBased: roundTo(scopeEmissions.scope2Location, 4),
           marketBased: roundTo(scopeEmissions.scope2Market, 4),
+          electricityKwh: scope2.electricityKwh,
+          coveredKwh: scope2.coveredKwh,
+          byCountry: scope2.byCountry,
+          qualityCheck: scope2.qualityCheck,
         },
         scope3: {
           upstream: roundTo(scopeEmissions.scope3Upstream, 4),
@@ -490,8 +888,13 @@ export async function calculateCFO(req: Request, res: Response): Promise<void> {
             Object.entries(scope3CategoryBreakdown).map(([k, v]) => [k, roundTo(v, 4)])
           ),
         },
+        byGas: gwpService.summarizeGasBreakdown(gasBreakdown),
       },
+      landSector,
+      gwpSet,
       cfoTotal: roundTo(cfoTotal, 4),
+      credits,
+      ...(uncertainty && { uncertainty }),
     },
   });
 }
@@ -511,6 +914,8 @@ export async function getCFPResults(req: Request, res: Response): Promise<void>
     success: true,
     data: result.rows.map((row) => ({
       id: row.id,
+      runId: row.run_id || null,
+      productId: row.product_id || null,
       productName: row.product_name,
       functionalUnit: row.functional_unit,
       productionVolume: parseFloat(row.production_volume),
@@ -525,6 +930,9 @@ export async function getCFPResults(req: Request, res: Response): Promise<void>
       cfpTotal: parseFloat(row.cfp_total),
       cfpPerUnit: parseFloat(row.cfp_per_unit),
       biogenicCarbon: parseFloat(row.biogenic_carbon),
+      landSector: row.land_sector || null,
+      credits: row.credits || null,
+      allocation: row.allocation || null,
       createdAt: row.created_at,
     })),
   });
@@ -549,19 +957,29 @@ export async function getCFOResults(req: Request, res: Response): Promise<void>
       reportingYear: row.reporting_year,
       consolidationMethod: row.consolidation_method,
       operationalBoundary: row.operational_boundary,
+      consolidation: {
+        byEntity: row.entity_breakdown || [],
+        approachTotals: row.approach_totals || {},
+      },
       emissions: {
         scope1: parseFloat(row.scope1_emissions),
         scope2: {
           locationBased: parseFloat(row.scope2_location_emissions),
           marketBased: parseFloat(row.scope2_market_emissions),
+          qualityCheck: row.scope2_quality_check || null,
         },
         scope3: {
           upstream: parseFloat(row.scope3_upstream_emissions),
           downstream: parseFloat(row.scope3_downstream_emissions),
           categoryBreakdown: row.scope3_category_breakdown,
         },
+        byGas: gwpService.summarizeGasBreakdown(gwpService.parseGasBreakdown(row.gas_breakdown)),
       },
+      landSector: row.land_sector || null,
+      gwpSet: row.gwp_set,
       cfoTotal: parseFloat(row.cfo_total),
+      credits: row.credits || null,
+      uncertainty: row.uncertainty || null,
       createdAt: row.created_at,
     })),
   });
@@ -660,14 +1078,17 @@ export async function calculateBoth(req: Request, res: Response): Promise<void>
     organizationName,
     consolidationMethod,
     operationalBoundary,
-    reportingYear 
+    reportingYear,
+    includeUncertainty
   } = req.body;
 
   // Get all calculated activities
   const activitiesResult = await db.query(
-    `SELECT * FROM activities 
-     WHERE project_id = $1 AND calculation_status = 'calculated'
-     ORDER BY scope`,
+    `SELECT a.*, f.country AS facility_country, f.grid_region AS facility_grid_region, f.entity_id AS facility_entity_id
+     FROM activities a
+     LEFT JOIN facilities f ON f.id = a.facility_id
+     WHERE a.project_id = $1 AND a.calculation_status = 'calculated'
+     ORDER BY a.scope`,
     [projectId]
   );
 
@@ -675,15 +1096,17 @@ export async function calculateBoth(req: Request, res: Response): Promise<void>
     throw new BadRequestError('No calculated activities found. Please calculate activities first.');
   }
 
+  // The organization footprint is consolidated; the product footprint covers every activity
+  const method: ConsolidationMethod = consolidationService.isConsolidationMethod(consolidationMethod)
+    ? consolidationMethod
+    : consolidationService.DEFAULT_CONSOLIDATION_METHOD;
+  const entities = await consolidationService.getProjectEntities(projectId);
+  const consolidation = consolidationService.consolidateActivities(activitiesResult.rows, entities, method);
+  const consolidatedIds = new Map(consolidation.activities.map((a) => [a.id, a]));
+
   // Calculate CFP
   const cfpId = generateId();
-  const lifecycleStages = {
-    rawMaterials: 0,
-    production: 0,
-    distribution: 0,
-    use: 0,
-    endOfLife: 0,
-  };
+  const lifecycleStages = productService.emptyStages();
 
   // Calculate CFO
   const cfoId = generateId();
@@ -700,116 +1123,144 @@ export async function calculateBoth(req: Request, res: Response): Promise<void>
     const emissions = parseFloat(activity.total_emissions_kg_co2e) || 0;
 
     // CFP mapping
-    if (activity.scope === 'scope1' || activity.scope === 'scope2') {
-      lifecycleStages.production += emissions;
-    } else if (activity.scope === 'scope3') {
-      switch (activity.scope3_category) {
-        case 'purchased_goods':
-        case 'capital_goods':
-        case 'fuel_energy':
-          lifecycleStages.rawMaterials += emissions;
-          break;
-        case 'upstream_transport':
-        case 'downstream_transport':
-          lifecycleStages.distribution += emissions;
-          break;
-        case 'waste':
-        case 'end_of_life':
-          lifecycleStages.endOfLife += emissions;
-          break;
-        case 'use_of_products':
-        case 'processing':
-          lifecycleStages.use += emissions;
-          break;
-        default:
-          lifecycleStages.production += emissions;
-      }
-    }
+    lifecycleStages[productService.lifecycleStageOf(activity)] += emissions;
 
-    // CFO mapping
+    // CFO mapping, with the share taken in under the consolidation approach
+    const consolidated = consolidatedIds.get(activity.id);
+    const cfoEmissions = consolidated ? parseFloat(consolidated.total_emissions_kg_co2e) || 0 : 0;
     switch (activity.scope) {
       case 'scope1':
-        scopeEmissions.scope1 += emissions;
+        scopeEmissions.scope1 += cfoEmissions;
         break;
       case 'scope2':
-        scopeEmissions.scope2Location += emissions;
         break;
       case 'scope3':
         const category = activity.scope3_category || 'other';
-        scope3CategoryBreakdown[category] = (scope3CategoryBreakdown[category] || 0) + emissions;
+        scope3CategoryBreakdown[category] = (scope3CategoryBreakdown[category] || 0) + cfoEmissions;
         const upstreamCategories = ['purchased_goods', 'capital_goods', 'fuel_energy', 'upstream_transport', 'waste', 'business_travel', 'employee_commuting', 'upstream_leased'];
         if (upstreamCategories.includes(category)) {
-          scopeEmissions.scope3Upstream += emissions;
+          scopeEmissions.scope3Upstream += cfoEmissions;
         } else {
-          scopeEmissions.scope3Downstream += emissions;
+          scopeEmissions.scope3Downstream += cfoEmissions;
         }
         break;
     }
   }
 
+  const cfoYear = reportingYear || new Date().getFullYear();
+  const projectResult = await db.query(`SELECT country FROM projects WHERE id = $1`, [projectId]);
+  const scope2 = await scope2Service.calculateProjectScope2(projectId, consolidation.activities, {
+    country: projectResult.rows[0]?.country,
+    reportingYear: cfoYear,
+  });
+  scopeEmissions.scope2Location = scope2.locationBased;
+  scopeEmissions.scope2Market = scope2.marketBased;
+
   const cfpTotal = Object.values(lifecycleStages).reduce((sum, val) => sum + val, 0);
   const cfpPerUnit = productionVolume > 0 ? cfpTotal / productionVolume : cfpTotal;
   const cfoTotal = scopeEmissions.scope1 + scopeEmissions.scope2Location + scopeEmissions.scope3Upstream + scopeEmissions.scope3Downstream;
 
-  // Save CFP result
-  await db.query(
-    `INSERT INTO cfp_results (
-      id, project_id, product_name, functional_unit, production_volume,
-      allocation_method, raw_materials_emissions, production_emissions,
-      distribution_emissions, use_emissions, end_of_life_emissions,
-      cfp_total, cfp_per_unit, biogenic_carbon
-    )
-    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)`,
-    [
-      cfpId, projectId, productName || 'Product', functionalUnit || 'unit', productionVolume || 1,
-      allocationMethod || 'mass', roundTo(lifecycleStages.rawMaterials, 4),
-      roundTo(lifecycleStages.production, 4), roundTo(lifecycleStages.distribution, 4),
-      roundTo(lifecycleStages.use, 4), roundTo(lifecycleStages.endOfLife, 4),
-      roundTo(cfpTotal, 4), roundTo(cfpPerUnit, 6), 0
-    ]
+  // A project with products gets one footprint per product instead of the whole-project one
+  const products = await productService.getProjectProducts(projectId);
+  const productCFPs = products.length > 0
+    ? await calculateProductCFPs(projectId, userId, activitiesResult.rows, products, { includeBiogenic, allocationMethod })
+    : null;
+
+  // Land-sector and biogenic flows, reported apart from the fossil totals
+  const cfpLandSector = landSectorService.summarizeLandSector(activitiesResult.rows);
+  const cfoLandSector = landSectorService.summarizeLandSector(consolidation.activities);
+  const cfoCredits = creditService.netEmissions(cfoTotal, await creditService.getRetiredCredits(projectId, cfoYear));
+
+  // Per-gas breakdown across the consolidated activities
+  const gwpSet = await ghgService.getProjectGWPSet(projectId);
+  const gasBreakdown = gwpService.mergeGasBreakdowns(
+    consolidation.activities.map((activity) => ({
+      breakdown: activity.gas_breakdown,
+      co2e: parseFloat(activity.total_emissions_kg_co2e) || 0,
+    })),
+    gwpSet
   );
 
+  // Optional Monte Carlo confidence intervals on the consolidated inventory
+  const uncertainty = includeUncertainty
+    ? await uncertaintyService.analyzeActivities(consolidation.activities)
+    : null;
+
+  // Save CFP result
+  if (!productCFPs) {
+    await db.query(
+      `INSERT INTO cfp_results (
+        id, project_id, product_name, functional_unit, production_volume,
+        allocation_method, raw_materials_emissions, production_emissions,
+        distribution_emissions, use_emissions, end_of_life_emissions,
+        cfp_total, cfp_per_unit, biogenic_carbon, land_sector
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)`,
+      [
+        cfpId, projectId, productName || 'Product', functionalUnit || 'unit', productionVolume || 1,
+        allocationMethod || 'mass', roundTo(lifecycleStages.rawMaterials, 4),
+        roundTo(lifecycleStages.production, 4), roundTo(lifecycleStages.distribution, 4),
+        roundTo(lifecycleStages.use, 4), roundTo(lifecycleStages.endOfLife, 4),
+        roundTo(cfpTotal, 4), roundTo(cfpPerUnit, 6),
+        includeBiogenic ? cfpLandSector.biogenicCo2Emissions : 0, JSON.stringify(cfpLandSector)
+      ]
+    );
+    await logAudit(userId, 'CALCULATE_CFP', 'cfp', cfpId, { cfpTotal }, projectId);
+  }
+
   // Save CFO result
   await db.query(
     `INSERT INTO cfo_results (
       id, project_id, organization_name, reporting_year, consolidation_method,
       operational_boundary, scope1_emissions, scope2_location_emissions,
       scope2_market_emissions, scope3_upstream_emissions, scope3_downstream_emissions,
-      scope3_category_breakdown, cfo_total
+      scope3_category_breakdown, cfo_total, gwp_set, gas_breakdown, scope2_quality_check,
+      entity_breakdown, approach_totals, uncertainty, land_sector, credits
     )
-    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21)`,
     [
-      cfoId, projectId, organizationName || 'Organization', reportingYear || new Date().getFullYear(),
-      consolidationMethod || 'operational_control', operationalBoundary || 'all',
+      cfoId, projectId, organizationName || 'Organization', cfoYear,
+      method, operationalBoundary || 'all',
       roundTo(scopeEmissions.scope1, 4), roundTo(scopeEmissions.scope2Location, 4),
       roundTo(scopeEmissions.scope2Market, 4), roundTo(scopeEmissions.scope3Upstream, 4),
       roundTo(scopeEmissions.scope3Downstream, 4), JSON.stringify(scope3CategoryBreakdown),
-      roundTo(cfoTotal, 4)
+      roundTo(cfoTotal, 4), gwpSet, JSON.stringify(gasBreakdown), JSON.stringify(scope2.qualityCheck),
+      JSON.stringify(consolidation.byEntity), JSON.stringify(consolidation.approachTotals),
+      uncertainty ? JSON.stringify(uncertainty) : null,
+      JSON.stringify(cfoLandSector), JSON.stringify(cfoCredits)
     ]
   );
 
-  await logAudit(userId, 'CALCULATE_CFP', 'cfp', cfpId, { cfpTotal }, projectId);
-  await logAudit(userId, 'CALCULATE_CFO', 'cfo', cfoId, { cfoTotal }, projectId);
+  await logAudit(userId, 'CALCULATE_CFO', 'cfo', cfoId, { cfoTotal, gwpSet }, projectId);
 
   res.json({
     success: true,
     data: {
-      cfp: {
+      cfp: productCFPs || {
         id: cfpId,
         cfpTotal: roundTo(cfpTotal, 4),
         cfpPerUnit: roundTo(cfpPerUnit, 6),
         lifecycleStages: Object.fromEntries(
           Object.entries(lifecycleStages).map(([k, v]) => [k, roundTo(v, 4)])
         ),
+        landSector: cfpLandSector,
       },
       cfo: {
         id: cfoId,
         cfoTotal: roundTo(cfoTotal, 4),
+        consolidationMethod: method,
+        approachTotals: consolidation.approachTotals,
         emissions: {
           scope1: roundTo(scopeEmissions.scope1, 4),
           scope2: roundTo(scopeEmissions.scope2Location, 4),
+          scope2MarketBased: roundTo(scopeEmissions.scope2Market, 4),
           scope3: roundTo(scopeEmissions.scope3Upstream + scopeEmissions.scope3Downstream, 4),
+          byGas: gwpService.summarizeGasBreakdown(gasBreakdown),
         },
+        gwpSet,
+        landSector: cfoLandSector,
+        credits: cfoCredits,
+        ...(uncertainty && { uncertainty }),
       },
     },
   });
@@ -819,35 +1270,38 @@ export async function calculateBoth(req: Request, res: Response): Promise<void>
  * Calculate precursor emissions for CBAM
  */
 export async function calculatePrecursors(req: Request, res: Response): Promise<void> {
-  const userId = req.user!.id;
-  const { materials, productionRoutes, quantities } = req.body;
+  const { projectId, goods } = req.body as CalculatePrecursorsRequest;
 
-  if (!Array.isArray(materials) || materials.length === 0) {
-    throw new BadRequestError('Materials array is required');
+  if (!Array.isArray(goods) || goods.length === 0) {
+    throw new BadRequestError('Goods array is required');
   }
 
   const results: any[] = [];
   let totalPrecursorEmissions = 0;
 
-  for (let i = 0; i < materials.length; i++) {
-    const material = materials[i];
-    const route = productionRoutes?.[i] || 'default';
-    const quantity = quantities?.[i] || 1;
+  for (const good of goods) {
+    // A CN code fixes the material and, unless given, the production route
+    const derived = good.cnCode ? cnCodeService.deriveFromCnCode(good.cnCode, good.productionRoute) : null;
+    const material = derived ? derived.entry.material : good.material!;
+    const quantity = good.quantity || 1;
 
     // Look up precursor factor
-    const factorResult = await db.query(
-      `SELECT * FROM precursor_factors 
-       WHERE material_type ILIKE $1 AND production_route ILIKE $2
-       LIMIT 1`,
-      [`%${material}%`, `%${route}%`]
+    const precursor = await ghgService.findPrecursorFactor(
+      material,
+      derived ? derived.productionRoute : good.productionRoute,
+      projectId
     );
 
     let factor = 0;
     let source = 'default';
-
-    if (factorResult.rows.length > 0) {
-      factor = parseFloat(factorResult.rows[0].factor_kg_co2_per_kg);
-      source = factorResult.rows[0].source;
+    let route = derived ? derived.productionRoute : good.productionRoute || 'default';
+    let matchReason: string | undefined;
+
+    if (precursor) {
+      factor = precursor.factor;
+      source = precursor.source;
+      route = precursor.productionRoute;
+      matchReason = precursor.matchReason;
     } else {
       // Use default factor if not found
       factor = 2.0; // Default kg CO2 per kg
@@ -858,11 +1312,15 @@ export async function calculatePrecursors(req: Request, res: Response): Promise<
     totalPrecursorEmissions += emissions;
 
     results.push({
+      cnCode: derived?.cnCode,
+      goodsCategory: derived?.entry.goodsCategory,
       material,
       productionRoute: route,
+      relevantPrecursors: derived?.entry.precursors,
       quantity,
       factor,
       source,
+      matchReason,
       emissions: roundTo(emissions, 4),
     });
   }
@@ -926,6 +1384,10 @@ export async function getHotSpots(req: Request, res: Response): Promise<void> {
     [projectId]
   );
 
+  // Initiatives already planned against each hot spot
+  const initiatives = (await initiativeService.getProjectInitiatives(projectId))
+    .filter((initiative) => initiative.status !== 'cancelled');
+
   const hotSpots = result.rows.map((row) => ({
     id: row.id,
     name: row.name,
@@ -936,6 +1398,7 @@ export async function getHotSpots(req: Request, res: Response): Promise<void> {
     percentage: totalEmissions > 0 ? roundTo((parseFloat(row.total_emissions_kg_co2e) / totalEmissions) * 100, 2) : 0,
     quantity: parseFloat(row.quantity),
     unit: row.unit,
+    initiativeIds: initiatives.filter((initiative) => initiativeService.coversActivity(initiative, row)).map((i) => i.id),
   }));
 
   res.json({
@@ -970,22 +1433,15 @@ export async function getDataQuality(req: Request, res: Response): Promise<void>
        data_quality_score,
        data_source,
        tier_level,
+       calculation_method,
        COUNT(*) as count,
        SUM(total_emissions_kg_co2e) as total_emissions
      FROM activities
      WHERE project_id = $1 AND calculation_status = 'calculated'
-     GROUP BY scope, data_quality_score, data_source, tier_level`,
+     GROUP BY scope, data_quality_score, data_source, tier_level, calculation_method`,
     [projectId]
   );
 
-  // Calculate overall quality score
-  const qualityScores: Record<string, number> = {
-    high: 1.0,
-    medium: 0.7,
-    low: 0.4,
-    unknown: 0.3,
-  };
-
   let totalWeightedScore = 0;
   let totalEmissions = 0;
 
@@ -993,15 +1449,20 @@ export async function getDataQuality(req: Request, res: Response): Promise<void>
     byQuality: {} as Record<string, { count: number; emissions: number }>,
     byDataSource: {} as Record<string, { count: number; emissions: number }>,
     byTierLevel: {} as Record<string, { count: number; emissions: number }>,
+    byCalculationMethod: {} as Record<string, { count: number; emissions: number }>,
     byScope: {} as Record<string, { count: number; emissions: number; avgQuality: number }>,
   };
 
   for (const row of result.rows) {
-    const quality = row.data_quality_score || 'unknown';
+    const quality = row.data_quality_score ? String(row.data_quality_score) : 'unknown';
     const emissions = parseFloat(row.total_emissions) || 0;
     const count = parseInt(row.count);
 
-    totalWeightedScore += (qualityScores[quality] || 0.3) * emissions;
+    // 1-5 indicator on a 0-1 scale, capped by the Scope 3 calculation method
+    const method = row.calculation_method as CalculationMethod | null;
+    const score = spendService.activityQuality(row.data_quality_score ?? null, method);
+
+    totalWeightedScore += score * emissions;
     totalEmissions += emissions;
 
     // By quality
@@ -1027,6 +1488,15 @@ export async function getDataQuality(req: Request, res: Response): Promise<void>
     breakdown.byTierLevel[tier].count += count;
     breakdown.byTierLevel[tier].emissions += emissions;
 
+    // By calculation method
+    if (method) {
+      if (!breakdown.byCalculationMethod[method]) {
+        breakdown.byCalculationMethod[method] = { count: 0, emissions: 0 };
+      }
+      breakdown.byCalculationMethod[method].count += count;
+      breakdown.byCalculationMethod[method].emissions += emissions;
+    }
+
     // By scope
     if (!breakdown.byScope[row.scope]) {
       breakdown.byScope[row.scope] = { count: 0, emissions: 0, avgQuality: 0 };
@@ -1037,6 +1507,31 @@ export async function getDataQuality(req: Request, res: Response): Promise<void>
 
   const overallScore = totalEmissions > 0 ? roundTo(totalWeightedScore / totalEmissions, 2) : 0;
 
+  // Share of emissions with recorded activity and factor uncertainty
+  const coverageResult = await db.query(
+    `SELECT
+       SUM(a.total_emissions_kg_co2e) AS total,
+       SUM(CASE WHEN a.uncertainty_percentage IS NOT NULL THEN a.total_emissions_kg_co2e ELSE 0 END) AS activity_covered,
+       SUM(CASE WHEN ef.uncertainty_min IS NOT NULL OR ef.uncertainty_max IS NOT NULL
+                THEN a.total_emissions_kg_co2e ELSE 0 END) AS factor_covered
+     FROM activities a
+     LEFT JOIN emission_factors ef
+       ON a.emission_factor_used->'reference'->>'type' = 'emission_factor'
+      AND ef.id::text = a.emission_factor_used->'reference'->>'id'
+     WHERE a.project_id = $1 AND a.calculation_status = 'calculated'`,
+    [projectId]
+  );
+  const coverage = coverageResult.rows[0] || {};
+  const coverageTotal = parseFloat(coverage.total) || 0;
+  const uncertainty = {
+    activityDataCoveragePercent: coverageTotal > 0
+      ? roundTo(((parseFloat(coverage.activity_covered) || 0) / coverageTotal) * 100, 2)
+      : 0,
+    emissionFactorCoveragePercent: coverageTotal > 0
+      ? roundTo(((parseFloat(coverage.factor_covered) || 0) / coverageTotal) * 100, 2)
+      : 0,
+  };
+
   // Determine quality rating
   let qualityRating: string;
   if (overallScore >= 0.9) qualityRating = 'excellent';
@@ -1050,13 +1545,17 @@ export async function getDataQuality(req: Request, res: Response): Promise<void>
       overallScore,
       qualityRating,
       breakdown,
-      recommendations: getQualityRecommendations(breakdown),
+      uncertainty,
+      recommendations: getQualityRecommendations(breakdown, uncertainty),
     },
   });
 }
 
 // Helper function for quality recommendations
-function getQualityRecommendations(breakdown: any): string[] {
+function getQualityRecommendations(
+  breakdown: any,
+  uncertainty: { activityDataCoveragePercent: number; emissionFactorCoveragePercent: number }
+): string[] {
   const recommendations: string[] = [];
 
   if (breakdown.byQuality['low']?.emissions > 0) {
@@ -1068,10 +1567,58 @@ function getQualityRecommendations(breakdown: any): string[] {
   if (breakdown.byTierLevel['tier1']?.count > (breakdown.byTierLevel['tier2']?.count || 0)) {
     recommendations.push('Consider using Tier 2+ calculations for more accurate results');
   }
+  const methodEmissions = Object.values(breakdown.byCalculationMethod as Record<string, { emissions: number }>)
+    .reduce((sum, m) => sum + m.emissions, 0);
+  if (methodEmissions > 0 && (breakdown.byCalculationMethod['spend_based']?.emissions || 0) / methodEmissions > 0.5) {
+    recommendations.push('Most Scope 3 emissions are spend-based; collect activity data or supplier-specific data for the largest categories');
+  }
+  if (uncertainty.activityDataCoveragePercent < 50 || uncertainty.emissionFactorCoveragePercent < 50) {
+    recommendations.push('Record activity data and emission factor uncertainty; the uncertainty analysis assumes defaults where it is missing');
+  }
 
   return recommendations;
 }
 
+/**
+ * Monte Carlo uncertainty analysis of the consolidated inventory: 95%
+ * confidence intervals per scope, Scope 3 category and in total, with the
+ * inputs contributing most to the variance
+ */
+export async function analyzeUncertainty(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+  const { consolidationMethod, iterations, seed, topContributors } = req.body;
+
+  const activitiesResult = await db.query(
+    `SELECT a.*, f.country AS facility_country, f.grid_region AS facility_grid_region, f.entity_id AS facility_entity_id
+     FROM activities a
+     LEFT JOIN facilities f ON f.id = a.facility_id
+     WHERE a.project_id = $1 AND a.calculation_status = 'calculated'`,
+    [projectId]
+  );
+
+  if (activitiesResult.rows.length === 0) {
+    throw new BadRequestError('No calculated activities found. Please calculate activities first.');
+  }
+
+  const method: ConsolidationMethod = consolidationMethod || consolidationService.DEFAULT_CONSOLIDATION_METHOD;
+  const entities = await consolidationService.getProjectEntities(projectId);
+  const consolidation = consolidationService.consolidateActivities(activitiesResult.rows, entities, method);
+
+  const analysis = await uncertaintyService.analyzeActivities(consolidation.activities, {
+    iterations,
+    seed,
+    topContributors,
+  });
+
+  res.json({
+    success: true,
+    data: {
+      consolidationMethod: method,
+      ...analysis,
+    },
+  });
+}
+
 /**
  * Compare emissions between baseline and reporting years
  */
@@ -1108,7 +1655,9 @@ export async function compareYears(req: Request, res: Response): Promise<void> {
     throw new BadRequestError('CFO results not found for both baseline and reporting years');
   }
 
-  const baselineTotal = parseFloat(baselineCFO.cfo_total);
+  // A restated base year replaces the original in comparisons
+  const baselineFigures = await baseYearService.comparableBaseline(baselineCFO);
+  const baselineTotal = baselineFigures.inventory.total;
   const reportingTotal = parseFloat(reportingCFO.cfo_total);
   const absoluteChange = reportingTotal - baselineTotal;
   const percentageChange = baselineTotal > 0 ? (absoluteChange / baselineTotal) * 100 : 0;
@@ -1120,10 +1669,11 @@ export async function compareYears(req: Request, res: Response): Promise<void> {
       reportingYear: reporting,
       baseline: {
         total: baselineTotal,
-        scope1: parseFloat(baselineCFO.scope1_emissions),
-        scope2: parseFloat(baselineCFO.scope2_location_emissions),
-        scope3: parseFloat(baselineCFO.scope3_upstream_emissions) + parseFloat(baselineCFO.scope3_downstream_emissions),
+        scope1: baselineFigures.inventory.scope1,
+        scope2: baselineFigures.inventory.scope2Location,
+        scope3: baselineFigures.inventory.scope3,
       },
+      baselineRestatement: baselineFigures.restatement,
       reporting: {
         total: reportingTotal,
         scope1: parseFloat(reportingCFO.scope1_emissions),
@@ -1138,3 +1688,122 @@ export async function compareYears(req: Request, res: Response): Promise<void> {
     },
   });
 }
+
+// Helper function to format a calculation run row
+function formatCalculationRun(row: any) {
+  return {
+    id: row.id,
+    calculationType: row.calculation_type,
+    status: row.status,
+    gwpSet: row.gwp_set,
+    tier2PlusMultiplier: parseFloat(row.tier2plus_multiplier),
+    activityCount: row.activity_count,
+    totalEmissionsKgCo2e: parseFloat(row.total_emissions_kg_co2e),
+    triggeredBy: row.triggered_by,
+    completedAt: row.completed_at,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * List calculation runs of a project, newest first
+ */
+export async function getCalculationRuns(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+  const { page = 1, limit = 20 } = req.query;
+  const offset = (Number(page) - 1) * Number(limit);
+
+  const countResult = await db.query(
+    `SELECT COUNT(*) FROM calculation_runs WHERE project_id = $1`,
+    [projectId]
+  );
+  const total = parseInt(countResult.rows[0].count);
+
+  const result = await db.query(
+    `SELECT * FROM calculation_runs WHERE project_id = $1
+     ORDER BY created_at DESC
+     LIMIT $2 OFFSET $3`,
+    [projectId, Number(limit), offset]
+  );
+
+  res.json({
+    success: true,
+    data: result.rows.map(formatCalculationRun),
+    pagination: {
+      page: Number(page),
+      limit: Number(limit),
+      total,
+      totalPages: Math.ceil(total / Number(limit)),
+    },
+  });
+}
+
+/**
+ * Get a calculation run with the inputs and pinned factor of every activity
+ */
+export async function getCalculationRun(req: Request, res: Response): Promise<void> {
+  const { projectId, runId } = req.params;
+
+  const run = await db.queryOne(
+    `SELECT * FROM calculation_runs WHERE id = $1 AND project_id = $2`,
+    [runId, projectId]
+  );
+
+  if (!run) {
+    throw new NotFoundError('Calculation run not found');
+  }
+
+  const items = await db.query(
+    `SELECT i.*, a.name AS activity_name
+     FROM calculation_run_items i
+     LEFT JOIN activities a ON a.id = i.activity_id
+     WHERE i.run_id = $1
+     ORDER BY i.created_at, i.id`,
+    [runId]
+  );
+
+  res.json({
+    success: true,
+    data: {
+      ...formatCalculationRun(run),
+      items: items.rows.map((row) => ({
+        activityId: row.activity_id,
+        activityName: row.activity_name,
+        inputs: row.inputs,
+        factor: row.factor,
+        tierMultiplier: parseFloat(row.tier_multiplier),
+        precursorEmissions: parseFloat(row.precursor_emissions),
+        gasBreakdown: gwpService.summarizeGasBreakdown(row.gas_breakdown),
+        totalEmissionsKgCo2e: parseFloat(row.total_emissions_kg_co2e),
+      })),
+    },
+  });
+}
+
+/**
+ * Replay a calculation run from its stored inputs and pinned factors
+ */
+export async function replayCalculationRun(req: Request, res: Response): Promise<void> {
+  const { projectId, runId } = req.params;
+
+  const replay = await calculationRunService.replayRun(runId, projectId);
+
+  res.json({
+    success: true,
+    data: replay,
+  });
+}
+
+/**
+ * Compare a calculation run with the factors that would apply today
+ */
+export async function diffCalculationRun(req: Request, res: Response): Promise<void> {
+  const { projectId, runId } = req.params;
+
+  const diff = await calculationRunService.diffRun(runId, projectId);
+
+  res.json({
+    success: true,
+    data: diff,
+  });
+}
@@ -0,0 +1,685 @@
+import { Request, Response } from 'express';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as XLSX from 'xlsx';
+import { db } from '../config/database';
+import { config } from '../config/env';
+import { generateId } from '../utils/helpers';
+import { BadRequestError, NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import * as cbamService from '../services/cbamService';
+import * as cbamTemplateService from '../services/cbamTemplateService';
+import * as cnCodeService from '../services/cnCodeService';
+import * as gwpService from '../services/gwpService';
+import type { AuditAction, CBAMGoodsCategory, CBAMProductionProcess, GasAmounts, GWPSet } from '../types';
+
+// Audit log helper
+async function logAudit(
+  userId: string,
+  action: AuditAction,
+  entityType: string,
+  entityId: string | null,
+  details: object,
+  projectId?: string
+): Promise<void> {
+  try {
+    await db.query(
+      `INSERT INTO audit_logs (id, user_id, project_id, action, entity_type, entity_id, details)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [generateId(), userId, projectId || null, action, entityType, entityId, JSON.stringify(details)]
+    );
+  } catch (error) {
+    logger.error('Failed to create audit log:', error);
+  }
+}
+
+// ============================================================================
+// INSTALLATIONS
+// ============================================================================
+
+/**
+ * List CBAM installations for a project
+ */
+export async function getInstallations(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+
+  const result = await db.query(
+    `SELECT i.*, COUNT(p.id) AS process_count
+     FROM cbam_installations i
+     LEFT JOIN cbam_production_processes p ON p.installation_id = i.id
+     WHERE i.project_id = $1
+     GROUP BY i.id
+     ORDER BY i.created_at`,
+    [projectId]
+  );
+
+  res.json({
+    success: true,
+    data: result.rows.map((row) => ({
+      ...formatInstallation(row),
+      processCount: parseInt(row.process_count),
+    })),
+  });
+}
+
+/**
+ * Register a production installation
+ */
+export async function createInstallation(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+  const userId = req.user!.id;
+  const body = req.body;
+
+  const id = generateId();
+  const result = await db.query(
+    `INSERT INTO cbam_installations (
+      id, project_id, name, registry_id, operator_id, operator_name,
+      country, city, street, post_code, supplier_name, metadata, created_by
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+    RETURNING *`,
+    [
+      id,
+      projectId,
+      body.name,
+      body.registryId || null,
+      body.operatorId || null,
+      body.operatorName || null,
+      body.country,
+      body.city || null,
+      body.street || null,
+      body.postCode || null,
+      body.supplierName || null,
+      JSON.stringify(body.metadata || {}),
+      userId,
+    ]
+  );
+
+  await logAudit(userId, 'CREATE', 'cbam_installation', id, { name: body.name, country: body.country }, projectId);
+
+  res.status(201).json({
+    success: true,
+    data: formatInstallation(result.rows[0]),
+  });
+}
+
+/**
+ * Update an installation
+ */
+export async function updateInstallation(req: Request, res: Response): Promise<void> {
+  const { projectId, installationId } = req.params;
+  const userId = req.user!.id;
+  const body = req.body;
+
+  const result = await db.query(
+    `UPDATE cbam_installations SET
+       name = COALESCE($1, name),
+       registry_id = COALESCE($2, registry_id),
+       operator_id = COALESCE($3, operator_id),
+       operator_name = COALESCE($4, operator_name),
+       country = COALESCE($5, country),
+       city = COALESCE($6, city),
+       street = COALESCE($7, street),
+       post_code = COALESCE($8, post_code),
+       supplier_name = COALESCE($9, supplier_name),
+       metadata = COALESCE($10, metadata),
+       updated_at = NOW()
+     WHERE id = $11 AND project_id = $12
+     RETURNING *`,
+    [
+      body.name,
+      body.registryId,
+      body.operatorId,
+      body.operatorName,
+      body.country,
+      body.city,
+      body.street,
+      body.postCode,
+      body.supplierName,
+      body.metadata ? JSON.stringify(body.metadata) : null,
+      installationId,
+      projectId,
+    ]
+  );
+
+  if (result.rows.length === 0) {
+    throw new NotFoundError('Installation not found');
+  }
+
+  await logAudit(userId, 'UPDATE', 'cbam_installation', installationId, {
+    changes: Object.keys(body),
+  }, projectId);
+
+  res.json({
+    success: true,
+    data: formatInstallation(result.rows[0]),
+  });
+}
+
+/**
+ * Delete an installation and its production processes
+ */
+export async function deleteInstallation(req: Request, res: Response): Promise<void> {
+  const { projectId, installationId } = req.params;
+  const userId = req.user!.id;
+
+  const result = await db.query(
+    `DELETE FROM cbam_installations WHERE id = $1 AND project_id = $2 RETURNING id, name`,
+    [installationId, projectId]
+  );
+
+  if (result.rows.length === 0) {
+    throw new NotFoundError('Installation not found');
+  }
+
+  await logAudit(userId, 'DELETE', 'cbam_installation', installationId, {
+    name: result.rows[0].name,
+  }, projectId);
+
+  res.json({
+    success: true,
+    message: 'Installation deleted',
+  });
+}
+
+// ============================================================================
+// PRODUCTION PROCESSES
+// ============================================================================
+
+/**
+ * List production processes of an installation
+ */
+export async function getProcesses(req: Request, res: Response): Promise<void> {
+  const { projectId, installationId } = req.params;
+  const { year } = req.query;
+
+  await findInstallation(projectId, installationId);
+
+  let query = `SELECT * FROM cbam_production_processes WHERE installation_id = $1`;
+  const params: any[] = [installationId];
+
+  if (year) {
+    params.push(parseInt(year as string));
+    query += ` AND reporting_year = $${params.length}`;
+  }
+
+  const result = await db.query(`${query} ORDER BY reporting_year DESC, created_at`, params);
+
+  res.json({
+    success: true,
+    data: result.rows.map(formatProcess),
+  });
+}
+
+/**
+ * Add a production process (one aggregated goods category)
+ */
+export async function createProcess(req: Request, res: Response): Promise<void> {
+  const { projectId, installationId } = req.params;
+  const userId = req.user!.id;
+  const body = req.body;
+
+  await findInstallation(projectId, installationId);
+
+  const productionRoute = resolveRoute(body.goodsCategory, body.productionRoute);
+  const directEmissions = resolveGases(body.directEmissions);
+
+  const id = generateId();
+  const row = await insertProcess(db, id, installationId, body.reportingYear, {
+    ...body,
+    productionRoute,
+    directEmissions,
+  }, body.metadata);
+
+  await logAudit(userId, 'CREATE', 'cbam_process', id, {
+    installationId,
+    goodsCategory: body.goodsCategory,
+    reportingYear: body.reportingYear,
+  }, projectId);
+
+  res.status(201).json({
+    success: true,
+    data: formatProcess(row),
+  });
+}
+
+/**
+ * Update a production process
+ */
+export async function updateProcess(req: Request, res: Response): Promise<void> {
+  const { projectId, installationId, processId } = req.params;
+  const userId = req.user!.id;
+  const body = req.body;
+
+  await findInstallation(projectId, installationId);
+
+  const existing = await db.query(
+    `SELECT goods_category, production_route FROM cbam_production_processes WHERE id = $1 AND installation_id = $2`,
+    [processId, installationId]
+  );
+
+  if (existing.rows.length === 0) {
+    throw new NotFoundError('Production process not found');
+  }
+
+  // Re-check the route whenever the goods category or the route changes
+  const goodsCategory = body.goodsCategory ?? existing.rows[0].goods_category;
+  const productionRoute = body.goodsCategory !== undefined || body.productionRoute !== undefined
+    ? resolveRoute(goodsCategory, body.productionRoute ?? existing.rows[0].production_route)
+    : null;
+
+  const result = await db.query(
+    `UPDATE cbam_production_processes SET
+       name = COALESCE($1, name),
+       goods_category = COALESCE($2, goods_category),
+       cn_codes = COALESCE($3, cn_codes),
+       production_route = COALESCE($4, production_route),
+       reporting_year = COALESCE($5, reporting_year),
+       activity_level = COALESCE($6, activity_level),
+       direct_emissions = COALESCE($7, direct_emissions),
+       heat_imported_tj = COALESCE($8, heat_imported_tj),
+       heat_exported_tj = COALESCE($9, heat_exported_tj),
+       heat_emission_factor = COALESCE($10, heat_emission_factor),
+       electricity_consumed_mwh = COALESCE($11, electricity_consumed_mwh),
+       electricity_exported_mwh = COALESCE($12, electricity_exported_mwh),
+       electricity_emission_factor = COALESCE($13, electricity_emission_factor),
+       precursors = COALESCE($14, precursors),
+       metadata = COALESCE($15, metadata),
+       updated_at = NOW()
+     WHERE id = $16
+     RETURNING *`,
+    [
+      body.name,
+      body.goodsCategory,
+      body.cnCodes,
+      productionRoute,
+      body.reportingYear,
+      body.activityLevel,
+      body.directEmissions ? JSON.stringify(resolveGases(body.directEmissions)) : null,
+      body.heatImportedTj,
+      body.heatExportedTj,
+      body.heatEmissionFactor,
+      body.electricityConsumedMwh,
+      body.electricityExportedMwh,
+      body.electricityEmissionFactor,
+      body.precursors ? JSON.stringify(body.precursors) : null,
+      body.metadata ? JSON.stringify(body.metadata) : null,
+      processId,
+    ]
+  );
+
+  await logAudit(userId, 'UPDATE', 'cbam_process', processId, {
+    changes: Object.keys(body),
+  }, projectId);
+
+  res.json({
+    success: true,
+    data: formatProcess(result.rows[0]),
+  });
+}
+
+/**
+ * Delete a production process
+ */
+export async function deleteProcess(req: Request, res: Response): Promise<void> {
+  const { projectId, installationId, processId } = req.params;
+  const userId = req.user!.id;
+
+  await findInstallation(projectId, installationId);
+
+  const result = await db.query(
+    `DELETE FROM cbam_production_processes WHERE id = $1 AND installation_id = $2 RETURNING id, name`,
+    [processId, installationId]
+  );
+
+  if (result.rows.length === 0) {
+    throw new NotFoundError('Production process not found');
+  }
+
+  await logAudit(userId, 'DELETE', 'cbam_process', processId, {
+    installationId,
+    name: result.rows[0].name,
+  }, projectId);
+
+  res.json({
+    success: true,
+    message: 'Production process deleted',
+  });
+}
+
+// ============================================================================
+// EMBEDDED EMISSIONS
+// ============================================================================
+
+/**
+ * Specific embedded emissions per goods category and CN code
+ */
+export async function getEmbeddedEmissions(req: Request, res: Response): Promise<void> {
+  const { projectId, installationId } = req.params;
+
+  const installation = await findInstallation(projectId, installationId);
+  const { reportingYear, gwpSet } = await calculationSettings(projectId, req.query.year as string | undefined);
+
+  const result = await cbamService.calculateInstallation(installationId, reportingYear, gwpSet);
+
+  res.json({
+    success: true,
+    data: {
+      installation: formatInstallation(installation),
+      reportingYear,
+      ...result,
+    },
+  });
+}
+
+// ============================================================================
+// OPERATOR COMMUNICATION TEMPLATE
+// ============================================================================
+
+/**
+ * Parse an uploaded operator communication template for preview (nothing is saved)
+ */
+export async function parseOperatorTemplate(req: Request, res: Response): Promise<void> {
+  const { projectId, fileId } = req.params;
+
+  const workbook = await readUploadedWorkbook(projectId, fileId);
+  const { template, errors } = cbamTemplateService.parseOperatorTemplate(workbook);
+
+  res.json({
+    success: true,
+    data: {
+      template,
+      errors,
+      summary: {
+        processes: template.processes.length,
+        products: template.reportedSEE.length,
+        errors: errors.filter((e) => e.severity === 'error').length,
+        warnings: errors.filter((e) => e.severity === 'warning').length,
+      },
+    },
+  });
+}
+
+/**
+ * Import an uploaded operator communication template as a supplier installation
+ */
+export async function importOperatorTemplate(req: Request, res: Response): Promise<void> {
+  const { projectId, fileId } = req.params;
+  const userId = req.user!.id;
+  const { supplierName } = req.body;
+
+  const workbook = await readUploadedWorkbook(projectId, fileId);
+  const { template, errors } = cbamTemplateService.parseOperatorTemplate(workbook);
+
+  const blocking = errors.filter((e) => e.severity === 'error');
+  if (blocking.length > 0) {
+    throw new ValidationError(
+      'Operator template contains errors',
+      blocking.map((e) => ({
+        sheet: e.sheet || '',
+        row: String(e.row),
+        column: e.column,
+        message: e.error,
+      }))
+    );
+  }
+
+  const { installation, reportingPeriod } = template;
+  const reportingYear = parseInt(reportingPeriod.end.slice(0, 4));
+  const installationId = generateId();
+  // Template process IDs (P1, P2, ...) are replaced by database IDs
+  const processIds = new Map(template.processes.map((p) => [p.id, generateId()]));
+
+  const row = await db.transaction(async (client) => {
+    const result = await client.query(
+      `INSERT INTO cbam_installations (
+        id, project_id, name, registry_id, operator_id, operator_name,
+        country, city, street, post_code, supplier_name, data_source, metadata, created_by
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, 'operator_template', $12, $13)
+      RETURNING *`,
+      [
+        installationId,
+        projectId,
+        installation.name,
+        installation.registryId || null,
+        installation.operatorId || null,
+        installation.operatorName || null,
+        installation.country,
+        installation.city || null,
+        installation.street || null,
+        installation.postCode || null,
+        supplierName,
+        JSON.stringify({ templateFileId: fileId, reportingPeriod, reportedSEE: template.reportedSEE }),
+        userId,
+      ]
+    );
+
+    for (const process of template.processes) {
+      await insertProcess(client, processIds.get(process.id)!, installationId, reportingYear, {
+        ...process,
+        precursors: process.precursors.map((p) => (
+          p.fromProcessId ? { ...p, fromProcessId: processIds.get(p.fromProcessId) } : p
+        )),
+      }, { templateProcessId: process.id });
+    }
+
+    return result.rows[0];
+  });
+
+  await logAudit(userId, 'IMPORT', 'cbam_installation', installationId, {
+    fileId,
+    supplierName,
+    source: 'operator_template',
+    processes: template.processes.length,
+  }, projectId);
+
+  res.status(201).json({
+    success: true,
+    data: {
+      installation: formatInstallation(row),
+      reportingYear,
+      processes: template.processes.length,
+      products: template.reportedSEE.length,
+      warnings: errors,
+    },
+  });
+}
+
+/**
+ * Export an installation as an operator communication template
+ */
+export async function exportOperatorTemplate(req: Request, res: Response): Promise<void> {
+  const { projectId, installationId } = req.params;
+  const userId = req.user!.id;
+
+  const installation = await findInstallation(projectId, installationId);
+  const { reportingYear, gwpSet } = await calculationSettings(projectId, req.query.year as string | undefined);
+
+  const { processes } = await cbamService.loadInstallationProcesses(installationId, reportingYear);
+  if (processes.length === 0) {
+    throw new NotFoundError(`Installation has no production processes for ${reportingYear}`);
+  }
+
+  const calculation = cbamService.calculateEmbeddedEmissions(processes, gwpSet);
+  const workbook = cbamTemplateService.buildOperatorTemplate({
+    reportingPeriod: { start: `${reportingYear}-01-01`, end: `${reportingYear}-12-31` },
+    installation: formatInstallation(installation),
+    processes,
+    reportedSEE: calculation.byCnCode,
+  }, gwpSet);
+
+  const buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+
+  await logAudit(userId, 'EXPORT', 'cbam_installation', installationId, {
+    format: 'operator_template',
+    reportingYear,
+  }, projectId);
+
+  const safeName = installation.name.replace(/[^a-zA-Z0-9]/g, '_');
+
+  res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+  res.setHeader('Content-Disposition', `attachment; filename="${safeName}_CBAM_communication_${reportingYear}.xlsx"`);
+  res.send(buffer);
+}
+
+// Helper function to load an installation of the project
+async function findInstallation(projectId: string, installationId: string): Promise<any> {
+  const result = await db.query(
+    `SELECT * FROM cbam_installations WHERE id = $1 AND project_id = $2`,
+    [installationId, projectId]
+  );
+
+  if (result.rows.length === 0) {
+    throw new NotFoundError('Installation not found');
+  }
+
+  return result.rows[0];
+}
+
+// Helper function to resolve the reporting year and GWP set of a project
+async function calculationSettings(
+  projectId: string,
+  year?: string
+): Promise<{ reportingYear: number; gwpSet: GWPSet }> {
+  const result = await db.query(
+    `SELECT reporting_year, gwp_set FROM projects WHERE id = $1`,
+    [projectId]
+  );
+  const project = result.rows[0];
+
+  return {
+    reportingYear: year ? parseInt(year) : project.reporting_year,
+    gwpSet: gwpService.isGWPSet(project.gwp_set) ? project.gwp_set : gwpService.DEFAULT_GWP_SET,
+  };
+}
+
+// Helper function to insert a production process (db or transaction client)
+async function insertProcess(
+  client: { query: (text: string, params?: any[]) => Promise<{ rows: any[] }> },
+  id: string,
+  installationId: string,
+  reportingYear: number,
+  process: Omit<CBAMProductionProcess, 'id'>,
+  metadata?: object
+): Promise<any> {
+  const result = await client.query(
+    `INSERT INTO cbam_production_processes (
+      id, installation_id, name, goods_category, cn_codes, production_route, reporting_year,
+      activity_level, direct_emissions, heat_imported_tj, heat_exported_tj, heat_emission_factor,
+      electricity_consumed_mwh, electricity_exported_mwh, electricity_emission_factor, precursors, metadata
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
+    RETURNING *`,
+    [
+      id,
+      installationId,
+      process.name,
+      process.goodsCategory,
+      process.cnCodes,
+      process.productionRoute || null,
+      reportingYear,
+      process.activityLevel,
+      JSON.stringify(process.directEmissions),
+      process.heatImportedTj || 0,
+      process.heatExportedTj || 0,
+      process.heatEmissionFactor ?? null,
+      process.electricityConsumedMwh || 0,
+      process.electricityExportedMwh || 0,
+      process.electricityEmissionFactor ?? null,
+      JSON.stringify(process.precursors),
+      JSON.stringify(metadata || {}),
+    ]
+  );
+
+  return result.rows[0];
+}
+
+// Helper function to read an uploaded Excel file of the project
+async function readUploadedWorkbook(projectId: string, fileId: string): Promise<XLSX.WorkBook> {
+  const result = await db.query(
+    `SELECT * FROM files WHERE id = $1 AND project_id = $2`,
+    [fileId, projectId]
+  );
+
+  if (result.rows.length === 0) {
+    throw new NotFoundError('File not found');
+  }
+
+  const filePath = path.join(config.upload.uploadDir, projectId, result.rows[0].stored_name);
+  if (!fs.existsSync(filePath)) {
+    throw new NotFoundError('File not found on disk');
+  }
+
+  try {
+    return XLSX.readFile(filePath);
+  } catch (error) {
+    throw new BadRequestError('File is not a readable Excel workbook');
+  }
+}
+
+// Helper function to check a production route against the goods category
+function resolveRoute(goodsCategory: CBAMGoodsCategory, productionRoute?: string | null): string | null {
+  if (!productionRoute) {
+    return null;
+  }
+
+  const { routes } = cnCodeService.getGoodsCategory(goodsCategory);
+  const route = routes.find((r) => r.toLowerCase() === productionRoute.toLowerCase());
+
+  if (!route) {
+    throw new BadRequestError(
+      `Production route "${productionRoute}" does not apply to ${goodsCategory} (${routes.join(', ')})`
+    );
+  }
+
+  return route;
+}
+
+// Helper function to normalise gas names (e.g. "co2", "CF4") in direct emissions
+function resolveGases(directEmissions: Record<string, number>): GasAmounts {
+  const gases: GasAmounts = {};
+
+  for (const [name, amount] of Object.entries(directEmissions)) {
+    const gas = gwpService.resolveGas(name);
+    if (!gas) {
+      throw new BadRequestError(`Unknown greenhouse gas "${name}" in direct emissions`);
+    }
+    gases[gas] = (gases[gas] || 0) + amount;
+  }
+
+  return gases;
+}
+
+// Helper function to format installation response
+function formatInstallation(row: any): any {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    name: row.name,
+    registryId: row.registry_id,
+    operatorId: row.operator_id,
+    operatorName: row.operator_name,
+    country: row.country,
+    city: row.city,
+    street: row.street,
+    postCode: row.post_code,
+    supplierName: row.supplier_name,
+    dataSource: row.data_source,
+    metadata: row.metadata,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Helper function to format production process response
+function formatProcess(row: any): any {
+  return {
+    ...cbamService.mapProcessRow(row),
+    installationId: row.installation_id,
+    reportingYear: row.reporting_year,
+    metadata: row.metadata,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
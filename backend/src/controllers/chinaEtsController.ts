@@ -0,0 +1,315 @@
+import { Request, Response } from 'express';
+import { db } from '../config/database';
+import { generateId } from '../utils/helpers';
+import { BadRequestError, ConflictError, NotFoundError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import * as chinaEtsService from '../services/chinaEtsService';
+import type { AuditAction, ChinaEtsUnit } from '../types';
+
+// Audit log helper
+async function logAudit(
+  userId: string,
+  action: AuditAction,
+  entityType: string,
+  entityId: string | null,
+  details: object,
+  projectId: string
+): Promise<void> {
+  try {
+    await db.query(
+      `INSERT INTO audit_logs (id, user_id, project_id, action, entity_type, entity_id, details)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [generateId(), userId, projectId, action, entityType, entityId, JSON.stringify(details)]
+    );
+  } catch (error) {
+    logger.error('Failed to create audit log:', error);
+  }
+}
+
+// ============================================================================
+// UNITS
+// ============================================================================
+
+/**
+ * List the project's ETS units
+ */
+export async function getUnits(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+  const year = req.query.year ? parseInt(req.query.year as string) : undefined;
+
+  const units = await chinaEtsService.getProjectUnits(projectId, year);
+
+  res.json({
+    success: true,
+    data: units.map(formatUnit),
+  });
+}
+
+/**
+ * Add a unit and its output and emissions for a year
+ */
+export async function createUnit(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+  const userId = req.user!.id;
+  const body = req.body;
+
+  await assertProjectFacility(projectId, body.facilityId);
+  await assertUnitCodeFree(projectId, body.unitCode, body.reportingYear);
+
+  const id = generateId();
+  const result = await db.query(
+    `INSERT INTO china_ets_units (
+      id, project_id, facility_id, name, unit_code, unit_type, capacity_mw, cooling_type, reporting_year,
+      power_supplied_mwh, heat_supplied_gj, heat_supply_ratio, load_factor, production_output, benchmark,
+      verified_emissions_t_co2, purchased_electricity_mwh, fuels, verifier, metadata, created_by
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21)
+    RETURNING *`,
+    [
+      id,
+      projectId,
+      body.facilityId || null,
+      body.name,
+      body.unitCode,
+      body.unitType,
+      body.capacityMw ?? null,
+      body.coolingType,
+      body.reportingYear,
+      body.powerSuppliedMwh,
+      body.heatSuppliedGj,
+      body.heatSupplyRatio,
+      body.loadFactor ?? null,
+      body.productionOutput,
+      body.benchmark ?? null,
+      body.verifiedEmissionsTCo2 ?? null,
+      body.purchasedElectricityMwh,
+      JSON.stringify(body.fuels),
+      body.verifier || null,
+      JSON.stringify(body.metadata || {}),
+      userId,
+    ]
+  );
+
+  await logAudit(userId, 'CREATE', 'china_ets_unit', id, {
+    unitCode: body.unitCode,
+    unitType: body.unitType,
+    reportingYear: body.reportingYear,
+  }, projectId);
+
+  res.status(201).json({
+    success: true,
+    data: formatUnit(chinaEtsService.toUnit(result.rows[0])),
+  });
+}
+
+/**
+ * Update a unit, e.g. to record its verified emissions
+ */
+export async function updateUnit(req: Request, res: Response): Promise<void> {
+  const { projectId, unitId } = req.params;
+  const userId = req.user!.id;
+  const body = req.body;
+
+  const current = chinaEtsService.toUnit(await findUnit(projectId, unitId));
+  const merged = { ...current, ...body };
+
+  if (body.facilityId) {
+    await assertProjectFacility(projectId, body.facilityId);
+  }
+  if (merged.unitCode !== current.unitCode || merged.reportingYear !== current.reportingYear) {
+    await assertUnitCodeFree(projectId, merged.unitCode, merged.reportingYear);
+  }
+
+  const result = await db.query(
+    `UPDATE china_ets_units SET
+       facility_id = $1,
+       name = $2,
+       unit_code = $3,
+       unit_type = $4,
+       capacity_mw = $5,
+       cooling_type = $6,
+       reporting_year = $7,
+       power_supplied_mwh = $8,
+       heat_supplied_gj = $9,
+       heat_supply_ratio = $10,
+       load_factor = $11,
+       production_output = $12,
+       benchmark = $13,
+       verified_emissions_t_co2 = $14,
+       purchased_electricity_mwh = $15,
+       fuels = $16,
+       verifier = $17,
+       metadata = COALESCE($18, metadata),
+       updated_at = NOW()
+     WHERE id = $19 AND project_id = $20
+     RETURNING *`,
+    [
+      merged.facilityId,
+      merged.name,
+      merged.unitCode,
+      merged.unitType,
+      merged.capacityMw,
+      merged.coolingType,
+      merged.reportingYear,
+      merged.powerSuppliedMwh,
+      merged.heatSuppliedGj,
+      merged.heatSupplyRatio,
+      merged.loadFactor,
+      merged.productionOutput,
+      merged.benchmark,
+      merged.verifiedEmissionsTCo2,
+      merged.purchasedElectricityMwh,
+      JSON.stringify(merged.fuels),
+      merged.verifier,
+      body.metadata ? JSON.stringify(body.metadata) : null,
+      unitId,
+      projectId,
+    ]
+  );
+
+  await logAudit(userId, 'UPDATE', 'china_ets_unit', unitId, { changes: Object.keys(body) }, projectId);
+
+  res.json({
+    success: true,
+    data: formatUnit(chinaEtsService.toUnit(result.rows[0])),
+  });
+}
+
+/**
+ * Delete a unit's record for a year
+ */
+export async function deleteUnit(req: Request, res: Response): Promise<void> {
+  const { projectId, unitId } = req.params;
+  const userId = req.user!.id;
+
+  const unit = await findUnit(projectId, unitId);
+
+  await db.query(`DELETE FROM china_ets_units WHERE id = $1`, [unitId]);
+
+  await logAudit(userId, 'DELETE', 'china_ets_unit', unitId, {
+    unitCode: unit.unit_code,
+    reportingYear: unit.reporting_year,
+  }, projectId);
+
+  res.json({
+    success: true,
+    message: 'Unit deleted',
+  });
+}
+
+// ============================================================================
+// ALLOCATION AND COMPLIANCE
+// ============================================================================
+
+/**
+ * Free allocation per unit against verified emissions, the surplus or
+ * deficit, and the CCER that can be used
+ */
+export async function getCompliance(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+  const year = await resolveYear(projectId, req.query.year);
+
+  res.json({
+    success: true,
+    data: await chinaEtsService.calculateCompliance(projectId, year),
+  });
+}
+
+/**
+ * MEE monitoring plan tables for the year's units
+ */
+export async function getMonitoringPlan(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+  const year = await resolveYear(projectId, req.query.year);
+
+  const units = await chinaEtsService.getProjectUnits(projectId, year);
+  if (units.length === 0) {
+    throw new BadRequestError(`No ETS units recorded for ${year}`);
+  }
+
+  res.json({
+    success: true,
+    data: { year, ...chinaEtsService.buildMonitoringPlan(units) },
+  });
+}
+
+/**
+ * MEE emissions report tables for the year, with the allocation
+ */
+export async function getEmissionsReport(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+  const year = await resolveYear(projectId, req.query.year);
+
+  const compliance = await chinaEtsService.calculateCompliance(projectId, year);
+  const units = await chinaEtsService.getProjectUnits(projectId, year);
+
+  res.json({
+    success: true,
+    data: {
+      year,
+      ...chinaEtsService.buildEmissionsReport(units, compliance),
+      allocation: compliance,
+    },
+  });
+}
+
+// Helper function to load a unit of the project
+async function findUnit(projectId: string, unitId: string): Promise<any> {
+  const unit = await db.queryOne(
+    `SELECT * FROM china_ets_units WHERE id = $1 AND project_id = $2`,
+    [unitId, projectId]
+  );
+
+  if (!unit) {
+    throw new NotFoundError('Unit not found');
+  }
+  return unit;
+}
+
+// Helper function to check a linked facility belongs to the project
+async function assertProjectFacility(projectId: string, facilityId?: string | null): Promise<void> {
+  if (!facilityId) return;
+
+  const facility = await db.queryOne(
+    `SELECT id FROM facilities WHERE id = $1 AND project_id = $2`,
+    [facilityId, projectId]
+  );
+  if (!facility) {
+    throw new BadRequestError('Facility must belong to this project');
+  }
+}
+
+// Helper function to refuse a second record of a unit for the same year
+async function assertUnitCodeFree(projectId: string, unitCode: string, reportingYear: number): Promise<void> {
+  const existing = await db.queryOne(
+    `SELECT id FROM china_ets_units WHERE project_id = $1 AND unit_code = $2 AND reporting_year = $3`,
+    [projectId, unitCode, reportingYear]
+  );
+  if (existing) {
+    throw new ConflictError(`Unit ${unitCode} is already recorded for ${reportingYear}`);
+  }
+}
+
+// Helper function to take the year from the query, or the project's reporting year
+async function resolveYear(projectId: string, value: unknown): Promise<number> {
+  if (value !== undefined) {
+    const year = parseInt(value as string, 10);
+    if (!Number.isInteger(year)) {
+      throw new BadRequestError('year must be a whole number');
+    }
+    return year;
+  }
+  const project = await db.queryOne(`SELECT reporting_year FROM projects WHERE id = $1`, [projectId]);
+  return project.reporting_year;
+}
+
+// Helper function to format unit response
+function formatUnit(unit: ChinaEtsUnit): any {
+  const type = chinaEtsService.UNIT_TYPES[unit.unitType];
+  return {
+    ...unit,
+    unitTypeName: type.name,
+    sector: type.sector,
+    fuelEmissionsTCo2: chinaEtsService.fuelEmissions(unit),
+  };
+}
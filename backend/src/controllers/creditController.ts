@@ -0,0 +1,382 @@
+import { Request, Response } from 'express';
+import { db } from '../config/database';
+import { generateId } from '../utils/helpers';
+import { BadRequestError, ConflictError, NotFoundError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import * as creditService from '../services/creditService';
+import type { AuditAction, CarbonCredit } from '../types';
+
+// Audit log helper
+async function logAudit(
+  userId: string,
+  action: AuditAction,
+  entityType: string,
+  entityId: string | null,
+  details: object,
+  projectId: string
+): Promise<void> {
+  try {
+    await db.query(
+      `INSERT INTO audit_logs (id, user_id, project_id, action, entity_type, entity_id, details)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [generateId(), userId, projectId, action, entityType, entityId, JSON.stringify(details)]
+    );
+  } catch (error) {
+    logger.error('Failed to create audit log:', error);
+  }
+}
+
+/**
+ * List the project's credit ledger
+ */
+export async function getCredits(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+  const { status, registry, year } = req.query;
+
+  let query = `SELECT * FROM carbon_credits WHERE project_id = $1`;
+  const params: any[] = [projectId];
+
+  if (status) {
+    params.push(status);
+    query += ` AND status = $${params.length}`;
+  }
+  if (registry) {
+    params.push(registry);
+    query += ` AND registry = $${params.length}`;
+  }
+  if (year) {
+    params.push(parseInt(year as string));
+    query += ` AND retired_for_year = $${params.length}`;
+  }
+
+  const result = await db.query(`${query} ORDER BY registry, serial_prefix, serial_start`, params);
+
+  res.json({
+    success: true,
+    data: result.rows.map((row) => formatCredit(creditService.toCredit(row))),
+  });
+}
+
+/**
+ * Credits held and retired, by registry and vintage
+ */
+export async function getCreditSummary(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+
+  const result = await db.query(`SELECT * FROM carbon_credits WHERE project_id = $1`, [projectId]);
+  const credits = result.rows.map(creditService.toCredit);
+
+  const balances = new Map<string, { registry: string; vintage: number; held: number; retired: number }>();
+  const retiredByYear: Record<number, number> = {};
+  for (const credit of credits) {
+    const key = `${credit.registry}:${credit.vintage}`;
+    const balance = balances.get(key) || { registry: credit.registry, vintage: credit.vintage, held: 0, retired: 0 };
+    balance[credit.status] += credit.quantity;
+    balances.set(key, balance);
+
+    if (credit.status === 'retired') {
+      retiredByYear[credit.retiredForYear!] = (retiredByYear[credit.retiredForYear!] || 0) + credit.quantity;
+    }
+  }
+
+  res.json({
+    success: true,
+    data: {
+      heldTCo2e: credits.filter((credit) => credit.status === 'held').reduce((sum, credit) => sum + credit.quantity, 0),
+      retiredTCo2e: credits.filter((credit) => credit.status === 'retired').reduce((sum, credit) => sum + credit.quantity, 0),
+      retiredByYear,
+      byRegistryAndVintage: Array.from(balances.values())
+        .sort((a, b) => a.registry.localeCompare(b.registry) || a.vintage - b.vintage),
+    },
+  });
+}
+
+/**
+ * Record a block of credits bought or issued to the project
+ */
+export async function createCredit(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+  const userId = req.user!.id;
+  const body = req.body;
+
+  await creditService.assertSerialsFree({ projectId, ...body });
+
+  const id = generateId();
+  let result;
+  try {
+    result = await db.query(
+      `INSERT INTO carbon_credits (
+        id, project_id, registry, registry_project_id, project_name, project_type, credit_type, vintage,
+        serial_prefix, serial_start, serial_end, purchase_date, price_per_credit, currency, notes, metadata, created_by
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
+      RETURNING *`,
+      [
+        id,
+        projectId,
+        body.registry,
+        body.registryProjectId || null,
+        body.projectName || null,
+        body.projectType,
+        body.creditType,
+        body.vintage,
+        body.serialPrefix,
+        body.serialStart,
+        body.serialEnd,
+        body.purchaseDate || null,
+        body.pricePerCredit ?? null,
+        body.currency || null,
+        body.notes || null,
+        JSON.stringify(body.metadata || {}),
+        userId,
+      ]
+    );
+  } catch (error) {
+    throw await serialConflict(error, { projectId, ...body });
+  }
+
+  const credit = creditService.toCredit(result.rows[0]);
+
+  await logAudit(userId, 'CREATE', 'carbon_credit', id, {
+    description: creditService.describeCredit(credit),
+  }, projectId);
+
+  res.status(201).json({
+    success: true,
+    data: formatCredit(credit),
+  });
+}
+
+/**
+ * Update a held block of credits
+ */
+export async function updateCredit(req: Request, res: Response): Promise<void> {
+  const { projectId, creditId } = req.params;
+  const userId = req.user!.id;
+  const body = req.body;
+
+  const current = creditService.toCredit(await findCredit(projectId, creditId));
+  if (current.status === 'retired') {
+    throw new ConflictError('Retired credits cannot be changed');
+  }
+
+  const merged = { ...current, ...body };
+  if (merged.serialEnd < merged.serialStart) {
+    throw new BadRequestError('serialEnd must not be before serialStart');
+  }
+  if (body.quantity !== undefined && body.quantity !== creditService.serialCount(merged.serialStart, merged.serialEnd)) {
+    throw new BadRequestError('Quantity must equal the number of serials in the range');
+  }
+  if (['registry', 'serialPrefix', 'serialStart', 'serialEnd'].some((key) => key in body)) {
+    await creditService.assertSerialsFree(merged, creditId);
+  }
+
+  let result;
+  try {
+    result = await db.query(
+      `UPDATE carbon_credits SET
+         registry = $1,
+         registry_project_id = $2,
+         project_name = $3,
+         project_type = $4,
+         credit_type = $5,
+         vintage = $6,
+         serial_prefix = $7,
+         serial_start = $8,
+         serial_end = $9,
+         purchase_date = $10,
+         price_per_credit = $11,
+         currency = $12,
+         notes = COALESCE($13, notes),
+         metadata = COALESCE($14, metadata),
+         updated_at = NOW()
+       WHERE id = $15 AND project_id = $16
+       RETURNING *`,
+      [
+        merged.registry,
+        merged.registryProjectId,
+        merged.projectName,
+        merged.projectType,
+        merged.creditType,
+        merged.vintage,
+        merged.serialPrefix,
+        merged.serialStart,
+        merged.serialEnd,
+        merged.purchaseDate,
+        merged.pricePerCredit,
+        merged.currency,
+        body.notes,
+        body.metadata ? JSON.stringify(body.metadata) : null,
+        creditId,
+        projectId,
+      ]
+    );
+  } catch (error) {
+    throw await serialConflict(error, merged, creditId);
+  }
+
+  await logAudit(userId, 'UPDATE', 'carbon_credit', creditId, { changes: body }, projectId);
+
+  res.json({
+    success: true,
+    data: formatCredit(creditService.toCredit(result.rows[0])),
+  });
+}
+
+/**
+ * Delete a held block of credits, e.g. one entered in error
+ */
+export async function deleteCredit(req: Request, res: Response): Promise<void> {
+  const { projectId, creditId } = req.params;
+  const userId = req.user!.id;
+
+  const credit = creditService.toCredit(await findCredit(projectId, creditId));
+  if (credit.status === 'retired') {
+    throw new ConflictError('Retired credits stay in the ledger and cannot be deleted');
+  }
+
+  await db.query(`DELETE FROM carbon_credits WHERE id = $1`, [creditId]);
+
+  await logAudit(userId, 'DELETE', 'carbon_credit', creditId, {
+    description: creditService.describeCredit(credit),
+  }, projectId);
+
+  res.json({
+    success: true,
+    message: 'Credits deleted',
+  });
+}
+
+/**
+ * Retire credits against a reporting year, for the organization or a product.
+ * Retiring part of a block retires its first serials and keeps the rest held.
+ */
+export async function retireCredit(req: Request, res: Response): Promise<void> {
+  const { projectId, creditId } = req.params;
+  const userId = req.user!.id;
+  const body = req.body;
+
+  const credit = creditService.toCredit(await findCredit(projectId, creditId));
+  if (credit.status === 'retired') {
+    throw new ConflictError('Credits are already retired');
+  }
+  const quantity = body.quantity ?? credit.quantity;
+  if (quantity > credit.quantity) {
+    throw new BadRequestError(`Only ${credit.quantity} credits are held in this block`);
+  }
+  if (body.productId) {
+    const product = await db.queryOne(
+      `SELECT id FROM products WHERE id = $1 AND project_id = $2`,
+      [body.productId, projectId]
+    );
+    if (!product) {
+      throw new BadRequestError('Product must belong to this project');
+    }
+  }
+
+  let retiredForYear: number = body.retiredForYear;
+  if (retiredForYear === undefined) {
+    const project = await db.queryOne(`SELECT reporting_year FROM projects WHERE id = $1`, [projectId]);
+    retiredForYear = project.reporting_year;
+  }
+
+  const { retired, remaining } = creditService.splitForRetirement(credit, quantity);
+  const rows = await db.transaction(async (client) => {
+    const updated = await client.query(
+      `UPDATE carbon_credits SET
+         serial_end = $1,
+         status = 'retired',
+         retirement_date = $2,
+         retired_for_year = $3,
+         product_id = $4,
+         beneficiary = $5,
+         updated_at = NOW()
+       WHERE id = $6 AND status = 'held'
+       RETURNING *`,
+      [
+        retired.serialEnd,
+        body.retirementDate || new Date().toISOString().slice(0, 10),
+        retiredForYear,
+        body.productId || null,
+        body.beneficiary || null,
+        creditId,
+      ]
+    );
+    if (updated.rows.length === 0) {
+      throw new ConflictError('Credits are already retired');
+    }
+    if (!remaining) {
+      return { retired: updated.rows[0], remaining: null };
+    }
+
+    const inserted = await client.query(
+      `INSERT INTO carbon_credits (
+        id, project_id, registry, registry_project_id, project_name, project_type, credit_type, vintage,
+        serial_prefix, serial_start, serial_end, purchase_date, price_per_credit, currency, notes, metadata, created_by
+      )
+      SELECT $1, project_id, registry, registry_project_id, project_name, project_type, credit_type, vintage,
+        serial_prefix, $2, $3, purchase_date, price_per_credit, currency, notes, metadata, $4
+      FROM carbon_credits WHERE id = $5
+      RETURNING *`,
+      [generateId(), remaining.serialStart, remaining.serialEnd, userId, creditId]
+    );
+    return { retired: updated.rows[0], remaining: inserted.rows[0] };
+  });
+
+  const retiredCredit = creditService.toCredit(rows.retired);
+
+  await logAudit(userId, 'UPDATE', 'carbon_credit', creditId, {
+    retired: creditService.describeCredit(retiredCredit),
+    retiredForYear,
+    productId: retiredCredit.productId,
+  }, projectId);
+
+  res.json({
+    success: true,
+    data: {
+      retired: formatCredit(retiredCredit),
+      remaining: rows.remaining ? formatCredit(creditService.toCredit(rows.remaining)) : null,
+    },
+  });
+}
+
+// Helper function to load a credit of the project
+async function findCredit(projectId: string, creditId: string): Promise<any> {
+  const credit = await db.queryOne(
+    `SELECT * FROM carbon_credits WHERE id = $1 AND project_id = $2`,
+    [creditId, projectId]
+  );
+
+  if (!credit) {
+    throw new NotFoundError('Credit not found');
+  }
+  return credit;
+}
+
+// Helper function to turn the exclusion constraint's overlap error, raised when a
+// concurrent request took the serials after assertSerialsFree passed, into a conflict
+async function serialConflict(
+  error: any,
+  credit: Parameters<typeof creditService.assertSerialsFree>[0],
+  excludeId: string | null = null
+): Promise<unknown> {
+  if (error?.code !== '23P01') {
+    return error;
+  }
+  try {
+    await creditService.assertSerialsFree(credit, excludeId);
+  } catch (conflict) {
+    return conflict;
+  }
+  return new ConflictError('Serials overlap credits recorded at the same time; a credit can be claimed once only');
+}
+
+// Helper function to format credit response
+function formatCredit(credit: CarbonCredit): any {
+  return {
+    ...credit,
+    registryName: creditService.REGISTRIES[credit.registry],
+    serials: creditService.formatSerials(credit),
+    summary: creditService.describeCredit(credit),
+  };
+}
@@ -1,11 +1,16 @@
 import { Request, Response } from 'express';
+import * as XLSX from 'xlsx';
 import { db } from '../config/database';
-import { redisClient as redis } from '../config/redis';
+import { redisClient as redis, cache } from '../config/redis';
 import { generateId, roundTo } from '../utils/helpers';
-import { BadRequestError, NotFoundError } from '../middleware/errorHandler';
+import { BadRequestError, ConflictError, NotFoundError, ValidationError } from '../middleware/errorHandler';
 import { logger } from '../utils/logger';
 import * as serpAPIService from '../services/serpAPIService';
-import type { AuditAction } from '../types';
+import * as cnCodeService from '../services/cnCodeService';
+import * as spendService from '../services/spendService';
+import * as factorImportService from '../services/factorImportService';
+import * as gwpService from '../services/gwpService';
+import type { AuditAction, CBAMGoodsCategory, CBAMMaterial, FactorImportResult } from '../types';
 
 // Audit log helper
 async function logAudit(
@@ -27,6 +32,96 @@ async function logAudit(
   }
 }
 
+// Helper function to check that factors can still be loaded into a dataset
+async function assertDraftDataset(datasetId: string): Promise<void> {
+  const dataset = await db.queryOne(
+    `SELECT name, version, status FROM factor_datasets WHERE id = $1`,
+    [datasetId]
+  );
+
+  if (!dataset) {
+    throw new NotFoundError('Factor dataset not found');
+  }
+  if (dataset.status !== 'draft') {
+    throw new ConflictError(
+      `${dataset.name} ${dataset.version} is ${dataset.status} and can no longer change; create a new version`
+    );
+  }
+}
+
+// Helper function to drop cached factor lookups after factors change
+async function clearFactorCaches(type: string, activityTypes: Array<string | undefined> = []): Promise<void> {
+  if (type === 'grid') {
+    await cache.delPattern('grid_ef:*');
+    return;
+  }
+
+  for (const activityType of Array.from(new Set(activityTypes.filter(Boolean)))) {
+    await cache.delPattern(`ef:${activityType}:*`);
+  }
+}
+
+// Helper function to format a factor dataset row
+function formatFactorDataset(row: any) {
+  return {
+    id: row.id,
+    name: row.name,
+    version: row.version,
+    publisher: row.publisher,
+    sourceUrl: row.source_url,
+    description: row.description,
+    status: row.status,
+    publishedAt: row.published_at,
+    createdAt: row.created_at,
+  };
+}
+
+// Helper function to parse an uploaded factor file in the format named by the route
+function parseUploadedFactorFile(req: Request): FactorImportResult {
+  const { format } = req.params;
+  const { sourceYear, gwpSet } = req.body;
+
+  if (!factorImportService.isFactorFileFormat(format)) {
+    throw new BadRequestError(
+      `Unknown factor file format "${format}"; use one of ${Object.keys(factorImportService.FACTOR_FILE_FORMATS).join(', ')}`
+    );
+  }
+  if (!req.file) {
+    throw new BadRequestError('A factor file is required');
+  }
+  if (sourceYear && !/^\d{4}$/.test(String(sourceYear))) {
+    throw new BadRequestError('sourceYear must be a four-digit year');
+  }
+  if (gwpSet && !gwpService.isGWPSet(gwpSet)) {
+    throw new BadRequestError(`gwpSet must be one of ${gwpService.GWP_SETS.join(', ')}`);
+  }
+
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook = XLSX.read(req.file.buffer, { type: 'buffer' });
+  } catch (error) {
+    throw new BadRequestError('File is not a readable Excel workbook or CSV');
+  }
+
+  return factorImportService.parseFactorFile(format, workbook, {
+    sourceYear: sourceYear ? parseInt(sourceYear) : undefined,
+    gwpSet: gwpSet || undefined,
+  });
+}
+
+// Helper function to count the rows of a factor file mapping report
+function summarizeFactorImport(result: FactorImportResult) {
+  return {
+    rows: result.report.length,
+    mapped: result.report.filter((r) => r.status === 'mapped').length,
+    skipped: result.report.filter((r) => r.status === 'skipped').length,
+    failed: result.report.filter((r) => r.status === 'error').length,
+    factors: result.factors.length,
+    errors: result.errors.filter((e) => e.severity === 'error').length,
+    warnings: result.errors.filter((e) => e.severity === 'warning').length,
+  };
+}
+
 /**
  * Search emission factors using SERPAPI
  */
@@ -75,7 +170,7 @@ export async function getGridEmissionFactors(req: Request, res: Response): Promi
   const { region, year, page = 1, limit = 50 } = req.query;
   const offset = (Number(page) - 1) * Number(limit);
 
-  let whereClause = 'WHERE 1=1';
+  let whereClause = 'WHERE superseded_at IS NULL';
   const params: any[] = [];
   let paramIndex = 1;
 
@@ -117,6 +212,7 @@ export async function getGridEmissionFactors(req: Request, res: Response): Promi
       source: row.source,
       validFrom: row.valid_from,
       validTo: row.valid_to,
+      datasetId: row.dataset_id,
       createdAt: row.created_at,
     })),
     pagination: {
@@ -136,10 +232,10 @@ export async function getGridEmissionFactor(req: Request, res: Response): Promis
 
   const result = await db.query(
     `SELECT * FROM grid_emission_factors 
-     WHERE region ILIKE $1 AND year = $2
+     WHERE LOWER(region) = LOWER($1) AND year = $2 AND superseded_at IS NULL
      ORDER BY created_at DESC
      LIMIT 1`,
-    [`%${region}%`, parseInt(year)]
+    [region, parseInt(year)]
   );
 
   if (result.rows.length === 0) {
@@ -165,90 +261,115 @@ export async function getGridEmissionFactor(req: Request, res: Response): Promis
 }
 
 /**
- * Create or update grid emission factor (admin only)
+ * Create or revise a grid emission factor (admin only). A revision is stored as
+ * a new row version; the previous version is kept and marked superseded.
  */
 export async function upsertGridEmissionFactor(req: Request, res: Response): Promise<void> {
   const userId = req.user!.id;
   const { region, country, gridName, year, factorKgCo2PerKwh, source, validFrom, validTo } = req.body;
 
-  // Check if exists
-  const existing = await db.query(
-    `SELECT id FROM grid_emission_factors WHERE region = $1 AND year = $2`,
-    [region, year]
-  );
-
-  let id: string;
+  const id = generateId();
 
-  if (existing.rows.length > 0) {
-    id = existing.rows[0].id;
-    await db.query(
-      `UPDATE grid_emission_factors SET
-         country = COALESCE($1, country),
-         grid_name = COALESCE($2, grid_name),
-         factor_kg_co2_per_kwh = $3,
-         source = COALESCE($4, source),
-         valid_from = COALESCE($5, valid_from),
-         valid_to = COALESCE($6, valid_to),
-         updated_at = NOW()
-       WHERE id = $7`,
-      [country, gridName, factorKgCo2PerKwh, source, validFrom, validTo, id]
+  const previous = await db.transaction(async (client) => {
+    const existing = await client.query(
+      `SELECT * FROM grid_emission_factors
+       WHERE region = $1 AND year = $2 AND dataset_id IS NULL AND superseded_at IS NULL
+       FOR UPDATE`,
+      [region, year]
     );
-  } else {
-    id = generateId();
-    await db.query(
+    const current = existing.rows[0];
+
+    if (current) {
+      await client.query(
+        `UPDATE grid_emission_factors SET superseded_at = NOW() WHERE id = $1`,
+        [current.id]
+      );
+    }
+
+    await client.query(
       `INSERT INTO grid_emission_factors (
-        id, region, country, grid_name, year, factor_kg_co2_per_kwh, source, valid_from, valid_to
+        id, region, country, grid_name, year, factor_kg_co2_per_kwh, source, valid_from, valid_to,
+        lineage_id, created_by
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
-      [id, region, country, gridName, year, factorKgCo2PerKwh, source, validFrom, validTo]
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+      [
+        id,
+        region,
+        country ?? current?.country,
+        gridName ?? current?.grid_name,
+        year,
+        factorKgCo2PerKwh,
+        source ?? current?.source,
+        validFrom ?? current?.valid_from,
+        validTo ?? current?.valid_to,
+        current?.lineage_id || id,
+        userId,
+      ]
     );
-  }
 
-  await logAudit(userId, existing.rows.length > 0 ? 'UPDATE' : 'CREATE', 'grid_emission_factor', id, {
+    return current || null;
+  });
+
+  await logAudit(userId, previous ? 'UPDATE' : 'CREATE', 'grid_emission_factor', id, {
     region,
     year,
     factorKgCo2PerKwh,
+    supersedes: previous?.id,
   });
 
-  // Clear grid EF cache
-  await redis.del(`grid_ef:${region}:${year}`);
+  await clearFactorCaches('grid');
 
-  res.status(existing.rows.length > 0 ? 200 : 201).json({
+  res.status(previous ? 200 : 201).json({
     success: true,
     data: {
       id,
       region,
       year,
       factorKgCo2PerKwh,
+      supersedes: previous?.id || null,
     },
-    message: existing.rows.length > 0 ? 'Grid emission factor updated' : 'Grid emission factor created',
+    message: previous ? 'Grid emission factor revised' : 'Grid emission factor created',
   });
 }
 
 /**
- * Delete grid emission factor (admin only)
+ * Retire a grid emission factor (admin only). The row is kept, marked
+ * superseded, so calculations that used it can still be replayed.
  */
 export async function deleteGridEmissionFactor(req: Request, res: Response): Promise<void> {
   const { id } = req.params;
   const userId = req.user!.id;
 
-  const result = await db.query(
-    `DELETE FROM grid_emission_factors WHERE id = $1 RETURNING region, year`,
+  const row = await db.queryOne(
+    `SELECT ef.region, ef.year, ef.superseded_at, d.status AS dataset_status
+     FROM grid_emission_factors ef
+     LEFT JOIN factor_datasets d ON d.id = ef.dataset_id
+     WHERE ef.id = $1`,
     [id]
   );
 
-  if (result.rows.length === 0) {
+  if (!row || row.superseded_at) {
     throw new NotFoundError('Grid emission factor not found');
   }
+  if (row.dataset_status && row.dataset_status !== 'draft') {
+    throw new ConflictError('Factors of a published dataset cannot change; publish a new dataset version');
+  }
+
+  await db.query(
+    `UPDATE grid_emission_factors SET superseded_at = NOW() WHERE id = $1`,
+    [id]
+  );
 
   await logAudit(userId, 'DELETE', 'grid_emission_factor', id, {
-    region: result.rows[0].region,
-    year: result.rows[0].year,
+    region: row.region,
+    year: row.year,
   });
 
+  await clearFactorCaches('grid');
+
   res.json({
     success: true,
-    message: 'Grid emission factor deleted successfully',
+    message: 'Grid emission factor retired',
   });
 }
 
@@ -318,9 +439,10 @@ export async function getPrecursorFactor(req: Request, res: Response): Promise<v
 
   const result = await db.query(
     `SELECT * FROM precursor_factors 
-     WHERE material_type ILIKE $1 AND production_route ILIKE $2
+     WHERE LOWER(material_type) = LOWER($1) AND LOWER(production_route) = LOWER($2)
+     ORDER BY created_at DESC
      LIMIT 1`,
-    [`%${material}%`, `%${route}%`]
+    [material, route]
   );
 
   if (result.rows.length === 0) {
@@ -449,7 +571,7 @@ export async function getStandardEmissionFactors(req: Request, res: Response): P
   }
 
   const result = await db.query(
-    `SELECT * FROM emission_factors ${whereClause}
+    `SELECT * FROM emission_factors ${whereClause} AND superseded_at IS NULL
      ORDER BY category, activity_type`,
     params
   );
@@ -473,16 +595,25 @@ export async function getStandardEmissionFactors(req: Request, res: Response): P
 }
 
 /**
- * Bulk import emission factors (admin only)
+ * Bulk import emission factors (admin only). Standard and grid factors can be
+ * loaded into a draft dataset; an import never overwrites a row, a changed
+ * factor is stored as a new version that supersedes the previous one.
  */
 export async function bulkImportEmissionFactors(req: Request, res: Response): Promise<void> {
   const userId = req.user!.id;
-  const { factors, type } = req.body;
+  const { factors, type, datasetId } = req.body;
 
   if (!Array.isArray(factors) || factors.length === 0) {
     throw new BadRequestError('Factors array is required');
   }
 
+  if (datasetId) {
+    if (type === 'precursor') {
+      throw new BadRequestError('Precursor factors are not versioned in datasets');
+    }
+    await assertDraftDataset(datasetId);
+  }
+
   const results = {
     imported: 0,
     updated: 0,
@@ -494,26 +625,36 @@ export async function bulkImportEmissionFactors(req: Request, res: Response): Pr
       const factor = factors[i];
       try {
         if (type === 'grid') {
-          // Grid emission factor
+          // Grid emission factor, superseding the current version in the same dataset
           const existing = await client.query(
-            `SELECT id FROM grid_emission_factors WHERE region = $1 AND year = $2`,
-            [factor.region, factor.year]
+            `UPDATE grid_emission_factors SET superseded_at = NOW()
+             WHERE region = $1 AND year = $2 AND dataset_id IS NOT DISTINCT FROM $3::uuid
+               AND superseded_at IS NULL
+             RETURNING lineage_id`,
+            [factor.region, factor.year, datasetId || null]
           );
 
+          const id = generateId();
+          await client.query(
+            `INSERT INTO grid_emission_factors (
+              id, region, country, year, factor_kg_co2_per_kwh, source, dataset_id, lineage_id, created_by
+            )
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+            [
+              id,
+              factor.region,
+              factor.country,
+              factor.year,
+              factor.factorKgCo2PerKwh,
+              factor.source,
+              datasetId || null,
+              existing.rows[0]?.lineage_id || id,
+              userId,
+            ]
+          );
           if (existing.rows.length > 0) {
-            await client.query(
-              `UPDATE grid_emission_factors SET
-                 factor_kg_co2_per_kwh = $1, source = $2, updated_at = NOW()
-               WHERE id = $3`,
-              [factor.factorKgCo2PerKwh, factor.source, existing.rows[0].id]
-            );
             results.updated++;
           } else {
-            await client.query(
-              `INSERT INTO grid_emission_factors (id, region, country, year, factor_kg_co2_per_kwh, source)
-               VALUES ($1, $2, $3, $4, $5, $6)`,
-              [generateId(), factor.region, factor.country, factor.year, factor.factorKgCo2PerKwh, factor.source]
-            );
             results.imported++;
           }
         } else if (type === 'precursor') {
@@ -540,14 +681,22 @@ export async function bulkImportEmissionFactors(req: Request, res: Response): Pr
             results.imported++;
           }
         } else {
-          // Standard emission factor
+          // Standard emission factor, superseding the current version in the same dataset
+          const existing = await client.query(
+            `UPDATE emission_factors SET superseded_at = NOW()
+             WHERE activity_type = $1 AND unit = $2 AND region IS NOT DISTINCT FROM $3::varchar
+               AND year = $4 AND dataset_id IS NOT DISTINCT FROM $5::uuid AND superseded_at IS NULL
+             RETURNING lineage_id`,
+            [factor.activityType, factor.unit, factor.region || null, factor.year, datasetId || null]
+          );
+
           const id = generateId();
           await client.query(
             `INSERT INTO emission_factors (
-              id, category, activity_type, scope, unit, factor_value, factor_unit, source, region, year
+              id, category, activity_type, scope, unit, factor_value, factor_unit, source, region, year,
+              dataset_id, lineage_id, created_by
             )
-            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
-            ON CONFLICT DO NOTHING`,
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
             [
               id,
               factor.category,
@@ -557,11 +706,18 @@ export async function bulkImportEmissionFactors(req: Request, res: Response): Pr
               factor.factorValue,
               factor.factorUnit,
               factor.source,
-              factor.region,
+              factor.region || null,
               factor.year,
+              datasetId || null,
+              existing.rows[0]?.lineage_id || id,
+              userId,
             ]
           );
-          results.imported++;
+          if (existing.rows.length > 0) {
+            results.updated++;
+          } else {
+            results.imported++;
+          }
         }
       } catch (error: any) {
         results.errors.push({ index: i, error: error.message });
@@ -569,8 +725,11 @@ export async function bulkImportEmissionFactors(req: Request, res: Response): Pr
     }
   });
 
+  await clearFactorCaches(type, factors.map((f: any) => f.activityType));
+
   await logAudit(userId, 'BULK_IMPORT', 'emission_factor', null, {
     type,
+    datasetId,
     imported: results.imported,
     updated: results.updated,
     errors: results.errors.length,
@@ -633,10 +792,10 @@ export async function getGridEF(req: Request, res: Response): Promise<void> {
 
   const result = await db.query(
     `SELECT * FROM grid_emission_factors 
-     WHERE (country ILIKE $1 OR region ILIKE $1) AND year = $2
-     ORDER BY created_at DESC
+     WHERE (LOWER(country) = LOWER($1) OR LOWER(region) = LOWER($1)) AND year = $2 AND superseded_at IS NULL
+     ORDER BY (LOWER(country) = LOWER($1) AND region IS NULL) DESC, created_at DESC
      LIMIT 1`,
-    [`%${country}%`, parseInt(year)]
+    [country, parseInt(year)]
   );
 
   if (result.rows.length === 0) {
@@ -662,16 +821,16 @@ export async function getGridEF(req: Request, res: Response): Promise<void> {
 }
 
 /**
- * Get grid emission factor history for a country
+ * Get grid emission factor history for a country, including superseded versions
  */
 export async function getGridEFHistory(req: Request, res: Response): Promise<void> {
   const { country } = req.params;
 
   const result = await db.query(
     `SELECT * FROM grid_emission_factors 
-     WHERE country ILIKE $1 OR region ILIKE $1
-     ORDER BY year DESC`,
-    [`%${country}%`]
+     WHERE LOWER(country) = LOWER($1) OR LOWER(region) = LOWER($1)
+     ORDER BY year DESC, created_at DESC`,
+    [country]
   );
 
   res.json({
@@ -686,6 +845,9 @@ export async function getGridEFHistory(req: Request, res: Response): Promise<voi
       source: row.source,
       validFrom: row.valid_from,
       validTo: row.valid_to,
+      datasetId: row.dataset_id,
+      lineageId: row.lineage_id,
+      supersededAt: row.superseded_at,
     })),
   });
 }
@@ -794,6 +956,46 @@ export async function getPrecursorDefaults(req: Request, res: Response): Promise
   });
 }
 
+/**
+ * Search the CBAM CN code catalogue
+ */
+export async function searchCnCodes(req: Request, res: Response): Promise<void> {
+  const { search, material, goodsCategory, limit } = req.query;
+
+  const entries = cnCodeService.searchCnCodes({
+    search: search as string | undefined,
+    material: material as CBAMMaterial | undefined,
+    goodsCategory: goodsCategory as CBAMGoodsCategory | undefined,
+    limit: limit ? parseInt(limit as string) : undefined,
+  });
+
+  res.json({
+    success: true,
+    data: entries,
+  });
+}
+
+/**
+ * Get the CBAM mapping for a CN code
+ */
+export async function getCnCode(req: Request, res: Response): Promise<void> {
+  const { code } = req.params;
+
+  const entry = cnCodeService.findCnCode(code);
+
+  if (!entry) {
+    throw new NotFoundError(`CN code ${code} is not covered by CBAM`);
+  }
+
+  res.json({
+    success: true,
+    data: {
+      cnCode: cnCodeService.normalizeCnCode(code),
+      ...entry,
+    },
+  });
+}
+
 /**
  * Get precursor factors for a project (including overrides)
  */
@@ -934,7 +1136,7 @@ export async function getStandardEFs(req: Request, res: Response): Promise<void>
 
   const result = await db.query(
     `SELECT * FROM emission_factors 
-     WHERE source ILIKE $1 OR category ILIKE $1
+     WHERE (source ILIKE $1 OR category ILIKE $1) AND superseded_at IS NULL
      ORDER BY category, activity_type`,
     [`%${standard}%`]
   );
@@ -956,3 +1158,496 @@ export async function getStandardEFs(req: Request, res: Response): Promise<void>
     })),
   });
 }
+
+/**
+ * List EEIO factor sets for spend-based Scope 3
+ */
+export async function getEEIOFactorSets(req: Request, res: Response): Promise<void> {
+  const result = await db.query(
+    `SELECT s.*, COUNT(f.id) AS factor_count
+     FROM eeio_factor_sets s
+     LEFT JOIN eeio_factors f ON f.set_id = s.id
+     GROUP BY s.id
+     ORDER BY s.is_default DESC, s.name, s.version DESC`
+  );
+
+  res.json({
+    success: true,
+    data: result.rows.map((row) => ({
+      ...spendService.mapFactorSetRow(row),
+      description: row.description,
+      factorCount: parseInt(row.factor_count),
+      createdAt: row.created_at,
+    })),
+  });
+}
+
+/**
+ * Load an EEIO factor set. A loaded set is never changed, so calculations pinned
+ * to it stay reproducible; load revised factors under a new version.
+ */
+export async function importEEIOFactorSet(req: Request, res: Response): Promise<void> {
+  const userId = req.user!.id;
+  const { name, version, source, region, currency, baseYear, priceBasis, description, isDefault, factors } = req.body;
+
+  const duplicates = factors
+    .map((f: any) => f.sectorCode)
+    .filter((code: string, i: number, codes: string[]) => codes.indexOf(code) !== i);
+  if (duplicates.length > 0) {
+    throw new BadRequestError(`Duplicate sector codes: ${Array.from(new Set(duplicates)).join(', ')}`);
+  }
+
+  const existing = await db.queryOne(
+    `SELECT id FROM eeio_factor_sets WHERE name = $1 AND version = $2`,
+    [name, version]
+  );
+  if (existing) {
+    throw new ConflictError(`${name} ${version} is already loaded; load revised factors under a new version`);
+  }
+
+  const id = await db.transaction(async (client) => {
+    if (isDefault) {
+      await client.query(`UPDATE eeio_factor_sets SET is_default = false WHERE is_default`);
+    }
+
+    const setId = generateId();
+    await client.query(
+      `INSERT INTO eeio_factor_sets (
+        id, name, version, source, region, currency, base_year, price_basis, description, is_default, created_by
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+      [setId, name, version, source || null, region || null, currency, baseYear, priceBasis, description || null, isDefault, userId]
+    );
+
+    for (const factor of factors) {
+      await client.query(
+        `INSERT INTO eeio_factors (id, set_id, sector_code, sector_name, factor_kg_co2e_per_unit)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [generateId(), setId, factor.sectorCode, factor.sectorName || null, factor.factor]
+      );
+    }
+
+    return setId;
+  });
+
+  await logAudit(userId, 'BULK_IMPORT', 'eeio_factor_set', id, {
+    name,
+    version,
+    currency,
+    baseYear,
+    factors: factors.length,
+  });
+
+  res.status(201).json({
+    success: true,
+    data: { id, name, version, currency, baseYear, factorCount: factors.length },
+    message: 'EEIO factor set loaded',
+  });
+}
+
+/**
+ * List the sector factors of an EEIO factor set
+ */
+export async function getEEIOFactors(req: Request, res: Response): Promise<void> {
+  const { setId } = req.params;
+  const { search } = req.query;
+
+  const factorSet = await spendService.getFactorSet(setId);
+
+  const params: any[] = [setId];
+  let query = `SELECT sector_code, sector_name, factor_kg_co2e_per_unit FROM eeio_factors WHERE set_id = $1`;
+  if (search) {
+    params.push(`%${search}%`);
+    query += ` AND (sector_code ILIKE $2 OR sector_name ILIKE $2)`;
+  }
+
+  const result = await db.query(`${query} ORDER BY sector_code`, params);
+
+  res.json({
+    success: true,
+    data: {
+      factorSet,
+      factors: result.rows.map((row) => ({
+        sectorCode: row.sector_code,
+        sectorName: row.sector_name,
+        factor: parseFloat(row.factor_kg_co2e_per_unit),
+      })),
+    },
+  });
+}
+
+/**
+ * Delete an EEIO factor set
+ */
+export async function deleteEEIOFactorSet(req: Request, res: Response): Promise<void> {
+  const { setId } = req.params;
+  const userId = req.user!.id;
+
+  const result = await db.query(
+    `DELETE FROM eeio_factor_sets WHERE id = $1 RETURNING name, version`,
+    [setId]
+  );
+
+  if (result.rows.length === 0) {
+    throw new NotFoundError('EEIO factor set not found');
+  }
+
+  await logAudit(userId, 'DELETE', 'eeio_factor_set', setId, result.rows[0]);
+
+  res.json({
+    success: true,
+    message: 'EEIO factor set deleted',
+  });
+}
+
+/**
+ * List exchange rates (currency units per USD)
+ */
+export async function getFxRates(req: Request, res: Response): Promise<void> {
+  const { currency, year } = req.query;
+
+  const params: any[] = [];
+  const conditions: string[] = [];
+  if (currency) {
+    params.push((currency as string).toUpperCase());
+    conditions.push(`currency = $${params.length}`);
+  }
+  if (year) {
+    params.push(parseInt(year as string));
+    conditions.push(`year = $${params.length}`);
+  }
+
+  const result = await db.query(
+    `SELECT * FROM fx_rates ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+     ORDER BY currency, year`,
+    params
+  );
+
+  res.json({
+    success: true,
+    data: result.rows.map((row) => ({
+      currency: row.currency,
+      year: row.year,
+      unitsPerUsd: parseFloat(row.units_per_usd),
+      source: row.source,
+    })),
+  });
+}
+
+/**
+ * Create or update annual exchange rates
+ */
+export async function upsertFxRates(req: Request, res: Response): Promise<void> {
+  const userId = req.user!.id;
+  const { rates } = req.body;
+
+  await db.transaction(async (client) => {
+    for (const rate of rates) {
+      await client.query(
+        `INSERT INTO fx_rates (id, currency, year, units_per_usd, source)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (currency, year) DO UPDATE SET
+           units_per_usd = EXCLUDED.units_per_usd,
+           source = COALESCE(EXCLUDED.source, fx_rates.source)`,
+        [generateId(), rate.currency, rate.year, rate.unitsPerUsd, rate.source || null]
+      );
+    }
+  });
+
+  await logAudit(userId, 'BULK_IMPORT', 'fx_rate', null, { count: rates.length });
+
+  res.json({
+    success: true,
+    data: { upserted: rates.length },
+  });
+}
+
+/**
+ * List price indices used to deflate spend
+ */
+export async function getPriceIndices(req: Request, res: Response): Promise<void> {
+  const { currency } = req.query;
+
+  const result = await db.query(
+    `SELECT * FROM price_indices ${currency ? 'WHERE currency = $1' : ''} ORDER BY currency, year`,
+    currency ? [(currency as string).toUpperCase()] : []
+  );
+
+  res.json({
+    success: true,
+    data: result.rows.map((row) => ({
+      currency: row.currency,
+      year: row.year,
+      value: parseFloat(row.index_value),
+      source: row.source,
+    })),
+  });
+}
+
+/**
+ * Create or update price indices
+ */
+export async function upsertPriceIndices(req: Request, res: Response): Promise<void> {
+  const userId = req.user!.id;
+  const { indices } = req.body;
+
+  await db.transaction(async (client) => {
+    for (const index of indices) {
+      await client.query(
+        `INSERT INTO price_indices (id, currency, year, index_value, source)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (currency, year) DO UPDATE SET
+           index_value = EXCLUDED.index_value,
+           source = COALESCE(EXCLUDED.source, price_indices.source)`,
+        [generateId(), index.currency, index.year, index.value, index.source || null]
+      );
+    }
+  });
+
+  await logAudit(userId, 'BULK_IMPORT', 'price_index', null, { count: indices.length });
+
+  res.json({
+    success: true,
+    data: { upserted: indices.length },
+  });
+}
+
+/**
+ * List versioned factor datasets
+ */
+export async function getFactorDatasets(req: Request, res: Response): Promise<void> {
+  const { name, status } = req.query;
+
+  const params: any[] = [];
+  const conditions: string[] = [];
+  if (name) {
+    params.push(`%${name}%`);
+    conditions.push(`d.name ILIKE $${params.length}`);
+  }
+  if (status) {
+    params.push(status);
+    conditions.push(`d.status = $${params.length}`);
+  }
+
+  const result = await db.query(
+    `SELECT d.*,
+       (SELECT COUNT(*) FROM emission_factors ef WHERE ef.dataset_id = d.id AND ef.superseded_at IS NULL) AS factor_count,
+       (SELECT COUNT(*) FROM grid_emission_factors gef WHERE gef.dataset_id = d.id AND gef.superseded_at IS NULL) AS grid_factor_count
+     FROM factor_datasets d
+     ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+     ORDER BY d.name, d.created_at DESC`,
+    params
+  );
+
+  res.json({
+    success: true,
+    data: result.rows.map((row) => ({
+      ...formatFactorDataset(row),
+      factorCount: parseInt(row.factor_count),
+      gridFactorCount: parseInt(row.grid_factor_count),
+    })),
+  });
+}
+
+/**
+ * Create a draft factor dataset; load factors with the bulk import, then publish it
+ */
+export async function createFactorDataset(req: Request, res: Response): Promise<void> {
+  const userId = req.user!.id;
+  const { name, version, publisher, sourceUrl, description } = req.body;
+
+  const existing = await db.queryOne(
+    `SELECT id FROM factor_datasets WHERE name = $1 AND version = $2`,
+    [name, version]
+  );
+  if (existing) {
+    throw new ConflictError(`${name} ${version} already exists`);
+  }
+
+  const id = generateId();
+  const row = await db.queryOne(
+    `INSERT INTO factor_datasets (id, name, version, publisher, source_url, description, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING *`,
+    [id, name, version, publisher || null, sourceUrl || null, description || null, userId]
+  );
+
+  await logAudit(userId, 'CREATE', 'factor_dataset', id, { name, version });
+
+  res.status(201).json({
+    success: true,
+    data: formatFactorDataset(row),
+  });
+}
+
+/**
+ * Publish a draft dataset. Its factors become available to calculations and can
+ * no longer change; earlier published versions with the same name are superseded.
+ */
+export async function publishFactorDataset(req: Request, res: Response): Promise<void> {
+  const userId = req.user!.id;
+  const { datasetId } = req.params;
+
+  await assertDraftDataset(datasetId);
+
+  const { dataset, superseded } = await db.transaction(async (client) => {
+    const published = await client.query(
+      `UPDATE factor_datasets SET status = 'published', published_at = NOW(), published_by = $2
+       WHERE id = $1 AND status = 'draft'
+       RETURNING *`,
+      [datasetId, userId]
+    );
+    const row = published.rows[0];
+
+    const previous = await client.query(
+      `UPDATE factor_datasets SET status = 'superseded'
+       WHERE name = $1 AND id <> $2 AND status = 'published'
+       RETURNING id, version`,
+      [row.name, datasetId]
+    );
+
+    return { dataset: row, superseded: previous.rows };
+  });
+
+  const activityTypes = await db.query(
+    `SELECT DISTINCT activity_type FROM emission_factors
+     WHERE dataset_id = ANY($1)`,
+    [[datasetId, ...superseded.map((d: any) => d.id)]]
+  );
+  await clearFactorCaches('standard', activityTypes.rows.map((r) => r.activity_type));
+  await clearFactorCaches('grid');
+
+  await logAudit(userId, 'PUBLISH', 'factor_dataset', datasetId, {
+    name: dataset.name,
+    version: dataset.version,
+    superseded: superseded.map((d: any) => d.version),
+  });
+
+  res.json({
+    success: true,
+    data: {
+      ...formatFactorDataset(dataset),
+      superseded: superseded.map((d: any) => ({ id: d.id, version: d.version })),
+    },
+    message: `${dataset.name} ${dataset.version} published`,
+  });
+}
+
+/**
+ * Dry run of a published factor file upload: the factors it would load and how
+ * every row was mapped (nothing is saved)
+ */
+export async function previewFactorFile(req: Request, res: Response): Promise<void> {
+  const result = parseUploadedFactorFile(req);
+
+  res.json({
+    success: true,
+    data: {
+      ...result,
+      summary: summarizeFactorImport(result),
+    },
+  });
+}
+
+/**
+ * Load a published factor file into a draft dataset. Factors previously loaded
+ * into the dataset from the same format are replaced.
+ */
+export async function importFactorFile(req: Request, res: Response): Promise<void> {
+  const userId = req.user!.id;
+  const { datasetId } = req.params;
+
+  await assertDraftDataset(datasetId);
+  const result = parseUploadedFactorFile(req);
+
+  const blocking = result.errors.filter((e) => e.severity === 'error');
+  if (blocking.length > 0) {
+    throw new ValidationError(
+      'Factor file contains errors',
+      blocking.map((e) => ({
+        sheet: e.sheet || '',
+        row: String(e.row),
+        column: e.column,
+        message: e.error,
+      }))
+    );
+  }
+  if (result.factors.length === 0) {
+    throw new BadRequestError('No factors could be mapped from the file; check the preview report');
+  }
+
+  const fileName = req.file!.originalname;
+  const replaced = await db.transaction(async (client) => {
+    const removed = await client.query(
+      `DELETE FROM emission_factors
+       WHERE dataset_id = $1 AND metadata->>'importFormat' = $2`,
+      [datasetId, result.format]
+    );
+
+    for (const factor of result.factors) {
+      const id = generateId();
+      await client.query(
+        `INSERT INTO emission_factors (
+          id, name, category, subcategory, activity_type, scope, unit, factor_value, factor_unit,
+          gwp_values, source, region, country, year, uncertainty_min, uncertainty_max, metadata,
+          dataset_id, lineage_id, created_by
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)`,
+        [
+          id,
+          factor.name,
+          factor.category,
+          factor.subcategory,
+          factor.activityType,
+          factor.scope,
+          factor.unit,
+          factor.factorValue,
+          factor.factorUnit,
+          factor.gases ? JSON.stringify(factor.gases) : null,
+          factor.source,
+          factor.region,
+          factor.country,
+          factor.sourceYear,
+          factor.uncertaintyMin,
+          factor.uncertaintyMax,
+          JSON.stringify({
+            ...factor.metadata,
+            importFormat: result.format,
+            importKey: factor.key,
+            fileName,
+            rows: factor.rows,
+          }),
+          datasetId,
+          id,
+          userId,
+        ]
+      );
+    }
+
+    return removed.rowCount || 0;
+  });
+
+  const summary = summarizeFactorImport(result);
+  await logAudit(userId, 'IMPORT', 'factor_dataset', datasetId, {
+    format: result.format,
+    fileName,
+    source: result.source,
+    ...summary,
+    replaced,
+  });
+
+  res.status(201).json({
+    success: true,
+    data: {
+      datasetId,
+      format: result.format,
+      source: result.source,
+      sourceYear: result.sourceYear,
+      imported: result.factors.length,
+      replaced,
+      summary,
+      report: result.report,
+      errors: result.errors,
+    },
+  });
+}
@@ -0,0 +1,249 @@
+import { Request, Response } from 'express';
+import { db } from '../config/database';
+import { generateId } from '../utils/helpers';
+import { BadRequestError, ConflictError, NotFoundError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import * as consolidationService from '../services/consolidationService';
+import type { AuditAction, ConsolidationMethod } from '../types';
+
+// Audit log helper
+async function logAudit(
+  userId: string,
+  action: AuditAction,
+  entityType: string,
+  entityId: string | null,
+  details: object,
+  projectId: string
+): Promise<void> {
+  try {
+    await db.query(
+      `INSERT INTO audit_logs (id, user_id, project_id, action, entity_type, entity_id, details)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [generateId(), userId, projectId, action, entityType, entityId, JSON.stringify(details)]
+    );
+  } catch (error) {
+    logger.error('Failed to create audit log:', error);
+  }
+}
+
+/**
+ * List the organizational entities of a project with the share of each taken
+ * in under every consolidation approach
+ */
+export async function getEntities(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+
+  const result = await db.query(
+    `SELECT e.*, COUNT(a.id) AS activity_count
+     FROM organizational_entities e
+     LEFT JOIN activities a ON a.entity_id = e.id
+     WHERE e.project_id = $1
+     GROUP BY e.id
+     ORDER BY e.name`,
+    [projectId]
+  );
+
+  const shares = consolidationService.consolidationShares(result.rows.map(consolidationService.toEntity));
+
+  res.json({
+    success: true,
+    data: result.rows.map((row) => ({
+      ...formatEntity(row),
+      path: shares.get(row.id)?.path || [row.name],
+      shares: shares.get(row.id)?.shares,
+      activityCount: parseInt(row.activity_count),
+    })),
+  });
+}
+
+/**
+ * Add an entity (subsidiary, joint venture, facility, ...) to a project
+ */
+export async function createEntity(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+  const userId = req.user!.id;
+  const body = req.body;
+
+  if (body.parentId) {
+    await findEntity(projectId, body.parentId, 'Parent entity not found');
+  }
+
+  const existing = await db.query(
+    `SELECT id FROM organizational_entities WHERE project_id = $1 AND name = $2`,
+    [projectId, body.name]
+  );
+  if (existing.rows.length > 0) {
+    throw new ConflictError(`Entity "${body.name}" already exists in this project`);
+  }
+
+  const id = generateId();
+  const result = await db.query(
+    `INSERT INTO organizational_entities (
+      id, project_id, parent_id, name, entity_type, country, ownership_percent,
+      financial_control, operational_control, metadata, created_by
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+    RETURNING *`,
+    [
+      id,
+      projectId,
+      body.parentId || null,
+      body.name,
+      body.entityType,
+      body.country || null,
+      body.ownershipPercent,
+      body.financialControl,
+      body.operationalControl,
+      JSON.stringify(body.metadata || {}),
+      userId,
+    ]
+  );
+
+  await logAudit(userId, 'CREATE', 'organizational_entity', id, {
+    name: body.name,
+    entityType: body.entityType,
+    ownershipPercent: body.ownershipPercent,
+  }, projectId);
+
+  res.status(201).json({
+    success: true,
+    data: formatEntity(result.rows[0]),
+  });
+}
+
+/**
+ * Update an entity. Ownership or control changes apply to the next CFO calculation.
+ */
+export async function updateEntity(req: Request, res: Response): Promise<void> {
+  const { projectId, entityId } = req.params;
+  const userId = req.user!.id;
+  const body = req.body;
+
+  const current = await findEntity(projectId, entityId);
+
+  if (body.parentId) {
+    await findEntity(projectId, body.parentId, 'Parent entity not found');
+    const entities = await consolidationService.getProjectEntities(projectId);
+    if (consolidationService.createsCycle(entities, entityId, body.parentId)) {
+      throw new BadRequestError('An entity cannot be placed under itself or one of its own entities');
+    }
+  }
+
+  const result = await db.query(
+    `UPDATE organizational_entities SET
+       name = COALESCE($1, name),
+       parent_id = $2,
+       entity_type = COALESCE($3, entity_type),
+       country = COALESCE($4, country),
+       ownership_percent = COALESCE($5, ownership_percent),
+       financial_control = COALESCE($6, financial_control),
+       operational_control = COALESCE($7, operational_control),
+       metadata = COALESCE($8, metadata),
+       updated_at = NOW()
+     WHERE id = $9 AND project_id = $10
+     RETURNING *`,
+    [
+      body.name,
+      body.parentId !== undefined ? body.parentId : current.parent_id,
+      body.entityType,
+      body.country,
+      body.ownershipPercent,
+      body.financialControl,
+      body.operationalControl,
+      body.metadata ? JSON.stringify(body.metadata) : null,
+      entityId,
+      projectId,
+    ]
+  );
+
+  await logAudit(userId, 'UPDATE', 'organizational_entity', entityId, { changes: body }, projectId);
+
+  res.json({
+    success: true,
+    data: formatEntity(result.rows[0]),
+  });
+}
+
+/**
+ * Delete an entity that has no child entities, activities or facilities
+ */
+export async function deleteEntity(req: Request, res: Response): Promise<void> {
+  const { projectId, entityId } = req.params;
+  const userId = req.user!.id;
+
+  const entity = await findEntity(projectId, entityId);
+
+  const usage = await db.queryOne(
+    `SELECT
+       (SELECT COUNT(*) FROM organizational_entities WHERE parent_id = $1) AS children,
+       (SELECT COUNT(*) FROM activities WHERE entity_id = $1) AS activities,
+       (SELECT COUNT(*) FROM facilities WHERE entity_id = $1) AS facilities`,
+    [entityId]
+  );
+  if (parseInt(usage.children) > 0 || parseInt(usage.activities) > 0 || parseInt(usage.facilities) > 0) {
+    throw new ConflictError(
+      `Entity "${entity.name}" has ${usage.children} child entities, ${usage.activities} activities and ${usage.facilities} facilities; move or delete them first`
+    );
+  }
+
+  await db.query(`DELETE FROM organizational_entities WHERE id = $1`, [entityId]);
+
+  await logAudit(userId, 'DELETE', 'organizational_entity', entityId, { name: entity.name }, projectId);
+
+  res.json({
+    success: true,
+    message: 'Entity deleted',
+  });
+}
+
+/**
+ * Preview the consolidated inventory of calculated activities: the share of each
+ * entity under the chosen approach and the totals under every approach
+ */
+export async function getConsolidation(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+  const method = (req.query.method as ConsolidationMethod) || consolidationService.DEFAULT_CONSOLIDATION_METHOD;
+
+  const activities = await db.query(
+    `SELECT a.id, a.entity_id, f.entity_id AS facility_entity_id, a.scope, a.quantity, a.unit,
+            a.total_emissions_kg_co2e, a.gas_breakdown
+     FROM activities a
+     LEFT JOIN facilities f ON f.id = a.facility_id
+     WHERE a.project_id = $1 AND a.calculation_status = 'calculated'`,
+    [projectId]
+  );
+  const entities = await consolidationService.getProjectEntities(projectId);
+  const consolidation = consolidationService.consolidateActivities(activities.rows, entities, method);
+
+  res.json({
+    success: true,
+    data: {
+      consolidationMethod: method,
+      byEntity: consolidation.byEntity,
+      approachTotals: consolidation.approachTotals,
+    },
+  });
+}
+
+// Helper function to load an entity of the project
+async function findEntity(projectId: string, entityId: string, message: string = 'Entity not found'): Promise<any> {
+  const entity = await db.queryOne(
+    `SELECT * FROM organizational_entities WHERE id = $1 AND project_id = $2`,
+    [entityId, projectId]
+  );
+
+  if (!entity) {
+    throw new NotFoundError(message);
+  }
+  return entity;
+}
+
+// Helper function to format entity response
+function formatEntity(row: any): any {
+  return {
+    ...consolidationService.toEntity(row),
+    metadata: row.metadata,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
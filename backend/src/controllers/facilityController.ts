@@ -0,0 +1,296 @@
+import { Request, Response } from 'express';
+import { db } from '../config/database';
+import { generateId } from '../utils/helpers';
+import { BadRequestError, ConflictError, NotFoundError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import * as facilityService from '../services/facilityService';
+import * as ghgService from '../services/ghgService';
+import type { AuditAction } from '../types';
+
+// Audit log helper
+async function logAudit(
+  userId: string,
+  action: AuditAction,
+  entityType: string,
+  entityId: string | null,
+  details: object,
+  projectId: string
+): Promise<void> {
+  try {
+    await db.query(
+      `INSERT INTO audit_logs (id, user_id, project_id, action, entity_type, entity_id, details)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [generateId(), userId, projectId, action, entityType, entityId, JSON.stringify(details)]
+    );
+  } catch (error) {
+    logger.error('Failed to create audit log:', error);
+  }
+}
+
+/**
+ * List the facilities of a project with their activity counts and whether
+ * each operated in the reporting year
+ */
+export async function getFacilities(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+
+  const project = await db.queryOne(`SELECT reporting_year FROM projects WHERE id = $1`, [projectId]);
+  if (!project) {
+    throw new NotFoundError('Project not found');
+  }
+
+  const result = await db.query(
+    `SELECT f.*, COUNT(a.id) AS activity_count
+     FROM facilities f
+     LEFT JOIN activities a ON a.facility_id = f.id
+     WHERE f.project_id = $1
+     GROUP BY f.id
+     ORDER BY f.name`,
+    [projectId]
+  );
+
+  res.json({
+    success: true,
+    data: result.rows.map((row) => {
+      const facility = formatFacility(row);
+      return {
+        ...facility,
+        operatesInReportingYear: facilityService.operatesInYear(facility, project.reporting_year),
+        activityCount: parseInt(row.activity_count),
+      };
+    }),
+  });
+}
+
+/**
+ * Add a facility to a project
+ */
+export async function createFacility(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+  const userId = req.user!.id;
+  const body = req.body;
+
+  if (body.entityId) {
+    await assertProjectEntity(projectId, body.entityId);
+  }
+
+  const existing = await db.query(
+    `SELECT id FROM facilities WHERE project_id = $1 AND name = $2`,
+    [projectId, body.name]
+  );
+  if (existing.rows.length > 0) {
+    throw new ConflictError(`Facility "${body.name}" already exists in this project`);
+  }
+
+  const id = generateId();
+  const result = await db.query(
+    `INSERT INTO facilities (
+      id, project_id, entity_id, name, code, address, city, country, grid_region,
+      latitude, longitude, operational_from, operational_to, metadata, created_by
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+    RETURNING *`,
+    [
+      id,
+      projectId,
+      body.entityId || null,
+      body.name,
+      body.code || null,
+      body.address || null,
+      body.city || null,
+      body.country,
+      body.gridRegion || null,
+      body.latitude ?? null,
+      body.longitude ?? null,
+      body.operationalFrom || null,
+      body.operationalTo || null,
+      JSON.stringify(body.metadata || {}),
+      userId,
+    ]
+  );
+
+  await logAudit(userId, 'CREATE', 'facility', id, {
+    name: body.name,
+    country: body.country,
+    gridRegion: body.gridRegion,
+  }, projectId);
+
+  res.status(201).json({
+    success: true,
+    data: formatFacility(result.rows[0]),
+  });
+}
+
+/**
+ * Update a facility. A new country or grid region marks its activities for
+ * recalculation, since their grid factors may change.
+ */
+export async function updateFacility(req: Request, res: Response): Promise<void> {
+  const { projectId, facilityId } = req.params;
+  const userId = req.user!.id;
+  const body = req.body;
+
+  const current = await findFacility(projectId, facilityId);
+
+  if (body.entityId) {
+    await assertProjectEntity(projectId, body.entityId);
+  }
+
+  const operationalFrom = body.operationalFrom !== undefined ? body.operationalFrom : current.operational_from;
+  const operationalTo = body.operationalTo !== undefined ? body.operationalTo : current.operational_to;
+  if (operationalFrom && operationalTo && new Date(operationalFrom) > new Date(operationalTo)) {
+    throw new BadRequestError('operationalFrom must be on or before operationalTo');
+  }
+
+  const result = await db.transaction(async (client) => {
+    const updated = await client.query(
+      `UPDATE facilities SET
+         name = COALESCE($1, name),
+         entity_id = $2,
+         code = COALESCE($3, code),
+         address = COALESCE($4, address),
+         city = COALESCE($5, city),
+         country = COALESCE($6, country),
+         grid_region = $7,
+         latitude = COALESCE($8, latitude),
+         longitude = COALESCE($9, longitude),
+         operational_from = $10,
+         operational_to = $11,
+         metadata = COALESCE($12, metadata),
+         updated_at = NOW()
+       WHERE id = $13 AND project_id = $14
+       RETURNING *`,
+      [
+        body.name,
+        body.entityId !== undefined ? body.entityId : current.entity_id,
+        body.code,
+        body.address,
+        body.city,
+        body.country,
+        body.gridRegion !== undefined ? body.gridRegion : current.grid_region,
+        body.latitude,
+        body.longitude,
+        operationalFrom,
+        operationalTo,
+        body.metadata ? JSON.stringify(body.metadata) : null,
+        facilityId,
+        projectId,
+      ]
+    );
+
+    const row = updated.rows[0];
+    const relocated = row.country !== current.country || (row.grid_region || null) !== (current.grid_region || null);
+    if (relocated) {
+      await client.query(
+        `UPDATE activities SET
+           calculation_status = 'pending',
+           total_emissions_kg_co2e = NULL,
+           emission_factor_used = NULL,
+           updated_at = NOW()
+         WHERE facility_id = $1`,
+        [facilityId]
+      );
+    }
+    return row;
+  });
+
+  await logAudit(userId, 'UPDATE', 'facility', facilityId, { changes: body }, projectId);
+
+  res.json({
+    success: true,
+    data: formatFacility(result),
+  });
+}
+
+/**
+ * Delete a facility that no activity refers to
+ */
+export async function deleteFacility(req: Request, res: Response): Promise<void> {
+  const { projectId, facilityId } = req.params;
+  const userId = req.user!.id;
+
+  const facility = await findFacility(projectId, facilityId);
+
+  const usage = await db.queryOne(
+    `SELECT COUNT(*) AS activities FROM activities WHERE facility_id = $1`,
+    [facilityId]
+  );
+  if (parseInt(usage.activities) > 0) {
+    throw new ConflictError(
+      `Facility "${facility.name}" has ${usage.activities} activities; move or delete them first`
+    );
+  }
+
+  await db.query(`DELETE FROM facilities WHERE id = $1`, [facilityId]);
+
+  await logAudit(userId, 'DELETE', 'facility', facilityId, { name: facility.name }, projectId);
+
+  res.json({
+    success: true,
+    message: 'Facility deleted',
+  });
+}
+
+/**
+ * Grid emission factor at the facility's country and grid region, with the
+ * reason it was chosen
+ */
+export async function getFacilityGridFactor(req: Request, res: Response): Promise<void> {
+  const { projectId, facilityId } = req.params;
+
+  const facility = await findFacility(projectId, facilityId);
+  const project = await db.queryOne(`SELECT reporting_year FROM projects WHERE id = $1`, [projectId]);
+  const year = req.query.year ? parseInt(req.query.year as string) : project?.reporting_year || new Date().getFullYear();
+
+  const gridFactor = await ghgService.getGridEmissionFactor(facility.country, year, {
+    region: facility.grid_region,
+    projectId,
+  });
+
+  res.json({
+    success: true,
+    data: {
+      facilityId,
+      country: facility.country,
+      gridRegion: facility.grid_region || null,
+      year,
+      factorKgCo2PerKwh: gridFactor.factor,
+      source: gridFactor.source,
+      matchReason: gridFactor.matchReason,
+    },
+  });
+}
+
+// Helper function to load a facility of the project
+async function findFacility(projectId: string, facilityId: string): Promise<any> {
+  const facility = await db.queryOne(
+    `SELECT * FROM facilities WHERE id = $1 AND project_id = $2`,
+    [facilityId, projectId]
+  );
+
+  if (!facility) {
+    throw new NotFoundError('Facility not found');
+  }
+  return facility;
+}
+
+// Helper function to check that an organizational entity belongs to the project
+async function assertProjectEntity(projectId: string, entityId: string): Promise<void> {
+  const entity = await db.queryOne(
+    `SELECT id FROM organizational_entities WHERE id = $1 AND project_id = $2`,
+    [entityId, projectId]
+  );
+  if (!entity) {
+    throw new BadRequestError('Entity not found in this project');
+  }
+}
+
+// Helper function to format facility response
+function formatFacility(row: any): any {
+  return {
+    ...facilityService.toFacility(row),
+    metadata: row.metadata,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
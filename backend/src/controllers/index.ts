@@ -9,3 +9,5 @@ export * as emissionFactorController from './emissionFactorController';
 export * as auditController from './auditController';
 export * as signatureController from './signatureController';
 export * as standardController from './standardController';
+export * as scope2Controller from './scope2Controller';
+export * as cbamController from './cbamController';
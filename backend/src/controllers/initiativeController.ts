@@ -0,0 +1,314 @@
+import { Request, Response } from 'express';
+import { db } from '../config/database';
+import { generateId, roundTo } from '../utils/helpers';
+import { BadRequestError, NotFoundError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import * as initiativeService from '../services/initiativeService';
+import * as targetService from '../services/targetService';
+import type { AuditAction, ReductionInitiative } from '../types';
+
+// Audit log helper
+async function logAudit(
+  userId: string,
+  action: AuditAction,
+  entityType: string,
+  entityId: string | null,
+  details: object,
+  projectId: string
+): Promise<void> {
+  try {
+    await db.query(
+      `INSERT INTO audit_logs (id, user_id, project_id, action, entity_type, entity_id, details)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [generateId(), userId, projectId, action, entityType, entityId, JSON.stringify(details)]
+    );
+  } catch (error) {
+    logger.error('Failed to create audit log:', error);
+  }
+}
+
+/**
+ * List initiatives with their cost per tonne and the current emissions of the
+ * activities they cover
+ */
+export async function getInitiatives(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+  const discountRate = parseDiscountRate(req.query.discountRate);
+
+  const initiatives = await initiativeService.getProjectInitiatives(projectId);
+  const activities = await getCalculatedActivities(projectId);
+
+  res.json({
+    success: true,
+    data: initiatives.map((initiative) => formatInitiative(initiative, activities, discountRate)),
+  });
+}
+
+/**
+ * Add an initiative
+ */
+export async function createInitiative(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+  const userId = req.user!.id;
+  const body = req.body;
+
+  await assertProjectActivities(projectId, body.activityIds || []);
+
+  const id = generateId();
+  const result = await db.query(
+    `INSERT INTO reduction_initiatives (
+      id, project_id, name, description, status, activity_ids, categories,
+      annual_abatement_t_co2e, capex, annual_opex, currency, lifetime_years, start_year, metadata, created_by
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+    RETURNING *`,
+    [
+      id,
+      projectId,
+      body.name,
+      body.description || null,
+      body.status,
+      body.activityIds || [],
+      body.categories || [],
+      body.annualAbatementTCo2e,
+      body.capex,
+      body.annualOpex,
+      body.currency,
+      body.lifetimeYears,
+      body.startYear,
+      JSON.stringify(body.metadata || {}),
+      userId,
+    ]
+  );
+
+  const initiative = initiativeService.toInitiative(result.rows[0]);
+
+  await logAudit(userId, 'CREATE', 'reduction_initiative', id, {
+    description: initiativeService.describeInitiative(initiative),
+  }, projectId);
+
+  res.status(201).json({
+    success: true,
+    data: formatInitiative(initiative, await getCalculatedActivities(projectId), initiativeService.DEFAULT_DISCOUNT_RATE_PERCENT),
+  });
+}
+
+/**
+ * Update an initiative, e.g. to mark it implemented
+ */
+export async function updateInitiative(req: Request, res: Response): Promise<void> {
+  const { projectId, initiativeId } = req.params;
+  const userId = req.user!.id;
+  const body = req.body;
+
+  const current = initiativeService.toInitiative(await findInitiative(projectId, initiativeId));
+  const merged = { ...current, ...body };
+
+  if (body.activityIds) {
+    await assertProjectActivities(projectId, body.activityIds);
+  }
+
+  const result = await db.query(
+    `UPDATE reduction_initiatives SET
+       name = $1,
+       description = $2,
+       status = $3,
+       activity_ids = $4,
+       categories = $5,
+       annual_abatement_t_co2e = $6,
+       capex = $7,
+       annual_opex = $8,
+       currency = $9,
+       lifetime_years = $10,
+       start_year = $11,
+       metadata = COALESCE($12, metadata),
+       updated_at = NOW()
+     WHERE id = $13 AND project_id = $14
+     RETURNING *`,
+    [
+      merged.name,
+      merged.description,
+      merged.status,
+      merged.activityIds,
+      merged.categories,
+      merged.annualAbatementTCo2e,
+      merged.capex,
+      merged.annualOpex,
+      merged.currency,
+      merged.lifetimeYears,
+      merged.startYear,
+      body.metadata ? JSON.stringify(body.metadata) : null,
+      initiativeId,
+      projectId,
+    ]
+  );
+
+  const initiative = initiativeService.toInitiative(result.rows[0]);
+
+  await logAudit(userId, 'UPDATE', 'reduction_initiative', initiativeId, { changes: body }, projectId);
+
+  res.json({
+    success: true,
+    data: formatInitiative(initiative, await getCalculatedActivities(projectId), initiativeService.DEFAULT_DISCOUNT_RATE_PERCENT),
+  });
+}
+
+/**
+ * Delete an initiative
+ */
+export async function deleteInitiative(req: Request, res: Response): Promise<void> {
+  const { projectId, initiativeId } = req.params;
+  const userId = req.user!.id;
+
+  const initiative = await findInitiative(projectId, initiativeId);
+
+  await db.query(`DELETE FROM reduction_initiatives WHERE id = $1`, [initiativeId]);
+
+  await logAudit(userId, 'DELETE', 'reduction_initiative', initiativeId, { name: initiative.name }, projectId);
+
+  res.json({
+    success: true,
+    message: 'Initiative deleted',
+  });
+}
+
+/**
+ * Marginal abatement cost curve of the initiatives not cancelled
+ */
+export async function getMacCurve(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+  const discountRate = parseDiscountRate(req.query.discountRate);
+
+  const initiatives = await initiativeService.getProjectInitiatives(projectId);
+  const bars = initiativeService.buildMacCurve(initiatives, discountRate);
+  const currencies = Array.from(new Set(initiatives.filter((i) => i.status !== 'cancelled').map((i) => i.currency)));
+
+  res.json({
+    success: true,
+    data: {
+      discountRatePercent: discountRate,
+      currency: currencies.length === 1 ? currencies[0] : null,
+      bars,
+      totalAbatementTCo2e: bars.length > 0 ? bars[bars.length - 1].cumulativeEnd : 0,
+      negativeCostAbatementTCo2e: roundTo(
+        bars.filter((bar) => bar.costPerTonne < 0).reduce((sum, bar) => sum + bar.annualAbatementTCo2e, 0),
+        4
+      ),
+      ...(currencies.length > 1 ? { warning: `Initiatives are costed in ${currencies.join(', ')}; costs are not converted` } : {}),
+    },
+  });
+}
+
+/**
+ * Projected emissions wedges against the latest CFO result, up to toYear
+ * (default: ten years on, or the latest target year if later)
+ */
+export async function getWedges(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+
+  const cfo = await db.queryOne(
+    `SELECT reporting_year, cfo_total FROM cfo_results
+     WHERE project_id = $1
+     ORDER BY reporting_year DESC, created_at DESC
+     LIMIT 1`,
+    [projectId]
+  );
+  if (!cfo) {
+    throw new BadRequestError('No CFO result to project from; calculate the CFO first');
+  }
+
+  const baselineYear: number = cfo.reporting_year;
+  const baselineTCo2e = (parseFloat(cfo.cfo_total) || 0) / 1000;
+
+  let toYear: number;
+  if (req.query.toYear !== undefined) {
+    toYear = parseInt(req.query.toYear as string, 10);
+  } else {
+    const targets = await targetService.getProjectTargets(projectId);
+    toYear = Math.max(baselineYear + 10, ...targets.map((target) => target.targetYear));
+  }
+  if (!Number.isInteger(toYear) || toYear <= baselineYear || toYear > baselineYear + 50) {
+    throw new BadRequestError(`toYear must be between ${baselineYear + 1} and ${baselineYear + 50}`);
+  }
+
+  const initiatives = await initiativeService.getProjectInitiatives(projectId);
+  const years = initiativeService.buildWedges(initiatives, baselineYear, baselineTCo2e, toYear);
+
+  res.json({
+    success: true,
+    data: {
+      baselineYear,
+      baselineTCo2e: roundTo(baselineTCo2e, 4),
+      initiatives: initiatives
+        .filter((initiative) => years.some((year) => initiative.id in year.wedges))
+        .map((initiative) => ({ id: initiative.id, name: initiative.name, status: initiative.status })),
+      years,
+    },
+  });
+}
+
+// Helper function to load an initiative of the project
+async function findInitiative(projectId: string, initiativeId: string): Promise<any> {
+  const initiative = await db.queryOne(
+    `SELECT * FROM reduction_initiatives WHERE id = $1 AND project_id = $2`,
+    [initiativeId, projectId]
+  );
+
+  if (!initiative) {
+    throw new NotFoundError('Initiative not found');
+  }
+  return initiative;
+}
+
+// Helper function to check linked activities belong to the project
+async function assertProjectActivities(projectId: string, activityIds: string[]): Promise<void> {
+  if (activityIds.length === 0) return;
+
+  const result = await db.query(
+    `SELECT id FROM activities WHERE project_id = $1 AND id = ANY($2)`,
+    [projectId, activityIds]
+  );
+  if (result.rows.length !== new Set(activityIds).size) {
+    throw new BadRequestError('Linked activities must belong to this project');
+  }
+}
+
+// Helper function to load the calculated activities initiatives can cover
+async function getCalculatedActivities(projectId: string): Promise<any[]> {
+  const result = await db.query(
+    `SELECT id, activity_type, scope3_category, total_emissions_kg_co2e
+     FROM activities
+     WHERE project_id = $1 AND calculation_status = 'calculated'`,
+    [projectId]
+  );
+  return result.rows;
+}
+
+// Helper function to parse the discount rate query parameter
+function parseDiscountRate(value: unknown): number {
+  if (value === undefined) {
+    return initiativeService.DEFAULT_DISCOUNT_RATE_PERCENT;
+  }
+  const rate = parseFloat(value as string);
+  if (!Number.isFinite(rate) || rate < 0 || rate > 100) {
+    throw new BadRequestError('discountRate must be a percentage between 0 and 100');
+  }
+  return rate;
+}
+
+// Helper function to format initiative response
+function formatInitiative(initiative: ReductionInitiative, activities: any[], discountRate: number): any {
+  const linked = initiativeService.linkedEmissionsTCo2e(initiative, activities);
+  const covers = initiative.activityIds.length > 0 || initiative.categories.length > 0;
+
+  return {
+    ...initiative,
+    summary: initiativeService.describeInitiative(initiative),
+    annualizedCost: roundTo(initiativeService.annualizedCost(initiative, discountRate), 2),
+    costPerTonne: roundTo(initiativeService.costPerTonne(initiative, discountRate), 2),
+    linkedEmissionsTCo2e: covers ? linked : null,
+    ...(covers && initiative.annualAbatementTCo2e > linked
+      ? { warning: `Expected abatement exceeds the ${linked} tCO2e currently calculated for the linked activities` }
+      : {}),
+  };
+}
@@ -0,0 +1,488 @@
+import { Request, Response } from 'express';
+import { db } from '../config/database';
+import { generateId, roundTo } from '../utils/helpers';
+import { BadRequestError, ConflictError, NotFoundError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import * as productService from '../services/productService';
+import type { AuditAction, BillOfMaterialsLine, ProcessOutput, Product, ProductProcess } from '../types';
+
+// Audit log helper
+async function logAudit(
+  userId: string,
+  action: AuditAction,
+  entityType: string,
+  entityId: string | null,
+  details: object,
+  projectId: string
+): Promise<void> {
+  try {
+    await db.query(
+      `INSERT INTO audit_logs (id, user_id, project_id, action, entity_type, entity_id, details)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [generateId(), userId, projectId, action, entityType, entityId, JSON.stringify(details)]
+    );
+  } catch (error) {
+    logger.error('Failed to create audit log:', error);
+  }
+}
+
+// ============================================================================
+// PRODUCTS
+// ============================================================================
+
+/**
+ * List products with the activities and processes feeding them
+ */
+export async function getProducts(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+
+  const products = await productService.getProjectProducts(projectId);
+  const processes = await productService.getProjectProcesses(projectId);
+  const counts = await db.query(
+    `SELECT product_id, COUNT(*) AS activity_count
+     FROM activities
+     WHERE project_id = $1 AND product_id IS NOT NULL
+     GROUP BY product_id`,
+    [projectId]
+  );
+  const activityCounts = new Map(counts.rows.map((row) => [row.product_id, parseInt(row.activity_count)]));
+
+  res.json({
+    success: true,
+    data: products.map((product) => formatProduct(product, processes, activityCounts.get(product.id) || 0)),
+  });
+}
+
+/**
+ * Add a product
+ */
+export async function createProduct(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+  const userId = req.user!.id;
+  const body = req.body;
+
+  const id = generateId();
+  await assertBillOfMaterials(projectId, id, body.billOfMaterials);
+
+  const existing = await db.queryOne(
+    `SELECT id FROM products WHERE project_id = $1 AND name = $2`,
+    [projectId, body.name]
+  );
+  if (existing) {
+    throw new ConflictError(`Product "${body.name}" already exists in this project`);
+  }
+
+  const result = await db.query(
+    `INSERT INTO products (
+      id, project_id, name, code, declared_unit, functional_unit, annual_output,
+      mass_per_unit_kg, energy_mj_per_unit, price_per_unit, price_currency,
+      substitution_kg_co2e_per_unit, bill_of_materials, metadata, created_by
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+    RETURNING *`,
+    [
+      id,
+      projectId,
+      body.name,
+      body.code || null,
+      body.declaredUnit,
+      body.functionalUnit || null,
+      body.annualOutput,
+      body.massPerUnitKg ?? null,
+      body.energyMjPerUnit ?? null,
+      body.pricePerUnit ?? null,
+      body.priceCurrency || null,
+      body.substitutionKgCo2ePerUnit ?? null,
+      JSON.stringify(body.billOfMaterials),
+      JSON.stringify(body.metadata || {}),
+      userId,
+    ]
+  );
+
+  await logAudit(userId, 'CREATE', 'product', id, { name: body.name, declaredUnit: body.declaredUnit }, projectId);
+
+  res.status(201).json({
+    success: true,
+    data: formatProduct(productService.toProduct(result.rows[0]), [], 0),
+  });
+}
+
+/**
+ * Update a product
+ */
+export async function updateProduct(req: Request, res: Response): Promise<void> {
+  const { projectId, productId } = req.params;
+  const userId = req.user!.id;
+  const body = req.body;
+
+  const current = productService.toProduct(await findProduct(projectId, productId));
+  const merged: Product = { ...current, ...body };
+
+  if (body.billOfMaterials) {
+    await assertBillOfMaterials(projectId, productId, body.billOfMaterials);
+    // A component may not, through its own bill of materials, contain this product
+    const products = (await productService.getProjectProducts(projectId))
+      .map((product) => (product.id === productId ? merged : product));
+    productService.orderByComponents(products);
+  }
+
+  const result = await db.query(
+    `UPDATE products SET
+       name = $1,
+       code = $2,
+       declared_unit = $3,
+       functional_unit = $4,
+       annual_output = $5,
+       mass_per_unit_kg = $6,
+       energy_mj_per_unit = $7,
+       price_per_unit = $8,
+       price_currency = $9,
+       substitution_kg_co2e_per_unit = $10,
+       bill_of_materials = $11,
+       metadata = COALESCE($12, metadata),
+       updated_at = NOW()
+     WHERE id = $13 AND project_id = $14
+     RETURNING *`,
+    [
+      merged.name,
+      merged.code,
+      merged.declaredUnit,
+      merged.functionalUnit,
+      merged.annualOutput,
+      merged.massPerUnitKg,
+      merged.energyMjPerUnit,
+      merged.pricePerUnit,
+      merged.priceCurrency,
+      merged.substitutionKgCo2ePerUnit,
+      JSON.stringify(merged.billOfMaterials),
+      body.metadata ? JSON.stringify(body.metadata) : null,
+      productId,
+      projectId,
+    ]
+  );
+
+  await logAudit(userId, 'UPDATE', 'product', productId, { changes: body }, projectId);
+
+  res.json({
+    success: true,
+    data: formatProduct(
+      productService.toProduct(result.rows[0]),
+      await productService.getProjectProcesses(projectId),
+      await countProductActivities(productId)
+    ),
+  });
+}
+
+/**
+ * Delete a product. Its activities become unassigned; a product still used
+ * as a process output or a component has to be removed there first.
+ */
+export async function deleteProduct(req: Request, res: Response): Promise<void> {
+  const { projectId, productId } = req.params;
+  const userId = req.user!.id;
+
+  const product = await findProduct(projectId, productId);
+
+  const process = (await productService.getProjectProcesses(projectId))
+    .find((p) => p.outputs.some((output) => output.productId === productId));
+  if (process) {
+    throw new ConflictError(`Product is an output of process "${process.name}"; remove it there first`);
+  }
+  const parent = (await productService.getProjectProducts(projectId))
+    .find((p) => p.billOfMaterials.some((line) => line.componentProductId === productId));
+  if (parent) {
+    throw new ConflictError(`Product is a component of "${parent.name}"; remove it there first`);
+  }
+  const credits = await db.queryOne(`SELECT id FROM carbon_credits WHERE product_id = $1 LIMIT 1`, [productId]);
+  if (credits) {
+    throw new ConflictError('Carbon credits have been retired against this product');
+  }
+
+  await db.query(`DELETE FROM products WHERE id = $1`, [productId]);
+
+  await logAudit(userId, 'DELETE', 'product', productId, { name: product.name }, projectId);
+
+  res.json({
+    success: true,
+    message: 'Product deleted',
+  });
+}
+
+// ============================================================================
+// SHARED PROCESSES
+// ============================================================================
+
+/**
+ * List shared processes with each output's share under the process's method
+ */
+export async function getProcesses(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+
+  const processes = await productService.getProjectProcesses(projectId);
+  const products = await productService.getProjectProducts(projectId);
+
+  res.json({
+    success: true,
+    data: processes.map((process) => formatProcess(process, products)),
+  });
+}
+
+/**
+ * Add a shared process
+ */
+export async function createProcess(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+  const userId = req.user!.id;
+  const body = req.body;
+
+  await assertProcessOutputs(projectId, body.outputs);
+
+  const existing = await db.queryOne(
+    `SELECT id FROM product_processes WHERE project_id = $1 AND name = $2`,
+    [projectId, body.name]
+  );
+  if (existing) {
+    throw new ConflictError(`Process "${body.name}" already exists in this project`);
+  }
+
+  const id = generateId();
+  const result = await db.query(
+    `INSERT INTO product_processes (
+      id, project_id, name, description, lifecycle_stage, sequence, outputs,
+      allocation_method, allocation_justification, metadata, created_by
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+    RETURNING *`,
+    [
+      id,
+      projectId,
+      body.name,
+      body.description || null,
+      body.lifecycleStage || null,
+      body.sequence,
+      JSON.stringify(body.outputs),
+      body.allocationMethod || null,
+      body.allocationJustification || null,
+      JSON.stringify(body.metadata || {}),
+      userId,
+    ]
+  );
+
+  await logAudit(userId, 'CREATE', 'product_process', id, {
+    name: body.name,
+    outputs: body.outputs.length,
+  }, projectId);
+
+  res.status(201).json({
+    success: true,
+    data: formatProcess(productService.toProcess(result.rows[0]), await productService.getProjectProducts(projectId)),
+  });
+}
+
+/**
+ * Update a shared process
+ */
+export async function updateProcess(req: Request, res: Response): Promise<void> {
+  const { projectId, processId } = req.params;
+  const userId = req.user!.id;
+  const body = req.body;
+
+  const current = productService.toProcess(await findProcess(projectId, processId));
+  const merged: ProductProcess = { ...current, ...body };
+
+  if (body.outputs) {
+    await assertProcessOutputs(projectId, body.outputs);
+  }
+
+  const result = await db.query(
+    `UPDATE product_processes SET
+       name = $1,
+       description = $2,
+       lifecycle_stage = $3,
+       sequence = $4,
+       outputs = $5,
+       allocation_method = $6,
+       allocation_justification = $7,
+       metadata = COALESCE($8, metadata),
+       updated_at = NOW()
+     WHERE id = $9 AND project_id = $10
+     RETURNING *`,
+    [
+      merged.name,
+      merged.description,
+      merged.lifecycleStage,
+      merged.sequence,
+      JSON.stringify(merged.outputs),
+      merged.allocationMethod,
+      merged.allocationJustification,
+      body.metadata ? JSON.stringify(body.metadata) : null,
+      processId,
+      projectId,
+    ]
+  );
+
+  await logAudit(userId, 'UPDATE', 'product_process', processId, { changes: body }, projectId);
+
+  res.json({
+    success: true,
+    data: formatProcess(productService.toProcess(result.rows[0]), await productService.getProjectProducts(projectId)),
+  });
+}
+
+/**
+ * Delete a shared process; its activities become unassigned
+ */
+export async function deleteProcess(req: Request, res: Response): Promise<void> {
+  const { projectId, processId } = req.params;
+  const userId = req.user!.id;
+
+  const process = await findProcess(projectId, processId);
+
+  await db.query(`DELETE FROM product_processes WHERE id = $1`, [processId]);
+
+  await logAudit(userId, 'DELETE', 'product_process', processId, { name: process.name }, projectId);
+
+  res.json({
+    success: true,
+    message: 'Process deleted',
+  });
+}
+
+// ============================================================================
+// ALLOCATION
+// ============================================================================
+
+/**
+ * Compare each product's footprint per unit with every shared process
+ * allocated by mass, energy, economic value and substitution
+ */
+export async function getAllocationSensitivity(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+  const allocationMethod = productService.ALLOCATION_METHODS.find((method) => method === req.query.allocationMethod);
+
+  const products = await productService.getProjectProducts(projectId);
+  if (products.length === 0) {
+    throw new BadRequestError('Project has no products');
+  }
+
+  const activities = await db.query(
+    `SELECT * FROM activities WHERE project_id = $1 AND calculation_status = 'calculated'`,
+    [projectId]
+  );
+  const processes = await productService.getProjectProcesses(projectId);
+  const comparison = productService.compareAllocationMethods(products, processes, activities.rows, { allocationMethod });
+
+  res.json({
+    success: true,
+    data: {
+      defaultMethod: allocationMethod || productService.DEFAULT_ALLOCATION_METHOD,
+      processes: processes
+        .filter((process) => process.outputs.length > 1)
+        .map((process) => ({
+          id: process.id,
+          name: process.name,
+          allocationMethod: process.allocationMethod,
+          allocationJustification: process.allocationJustification,
+        })),
+      ...comparison,
+    },
+  });
+}
+
+// Helper function to load a product of the project
+async function findProduct(projectId: string, productId: string): Promise<any> {
+  const product = await db.queryOne(
+    `SELECT * FROM products WHERE id = $1 AND project_id = $2`,
+    [productId, projectId]
+  );
+
+  if (!product) {
+    throw new NotFoundError('Product not found');
+  }
+  return product;
+}
+
+// Helper function to load a shared process of the project
+async function findProcess(projectId: string, processId: string): Promise<any> {
+  const process = await db.queryOne(
+    `SELECT * FROM product_processes WHERE id = $1 AND project_id = $2`,
+    [processId, projectId]
+  );
+
+  if (!process) {
+    throw new NotFoundError('Process not found');
+  }
+  return process;
+}
+
+// Helper function to check bill of materials components are other products of the project
+async function assertBillOfMaterials(projectId: string, productId: string, lines: BillOfMaterialsLine[]): Promise<void> {
+  const componentIds = lines.map((line) => line.componentProductId).filter((id): id is string => !!id);
+  if (componentIds.includes(productId)) {
+    throw new BadRequestError('A product cannot be a component of itself');
+  }
+  await assertProjectProducts(projectId, componentIds, 'Bill of materials components must be products of this project');
+}
+
+// Helper function to check process outputs are distinct products of the project
+async function assertProcessOutputs(projectId: string, outputs: ProcessOutput[]): Promise<void> {
+  const productIds = outputs.map((output) => output.productId);
+  if (new Set(productIds).size !== productIds.length) {
+    throw new BadRequestError('Each product can be output once per process');
+  }
+  await assertProjectProducts(projectId, productIds, 'Process outputs must be products of this project');
+}
+
+// Helper function to check products belong to the project
+async function assertProjectProducts(projectId: string, productIds: string[], message: string): Promise<void> {
+  if (productIds.length === 0) return;
+
+  const result = await db.query(
+    `SELECT id FROM products WHERE project_id = $1 AND id = ANY($2)`,
+    [projectId, productIds]
+  );
+  if (result.rows.length !== new Set(productIds).size) {
+    throw new BadRequestError(message);
+  }
+}
+
+// Helper function to count the activities assigned to a product
+async function countProductActivities(productId: string): Promise<number> {
+  const result = await db.queryOne(
+    `SELECT COUNT(*) AS count FROM activities WHERE product_id = $1`,
+    [productId]
+  );
+  return parseInt(result?.count) || 0;
+}
+
+// Helper function to format product response
+function formatProduct(product: Product, processes: ProductProcess[], activityCount: number): any {
+  return {
+    ...product,
+    massPerUnitKg: productService.massPerUnitKg(product),
+    activityCount,
+    processIds: processes
+      .filter((process) => process.outputs.some((output) => output.productId === product.id))
+      .map((process) => process.id),
+  };
+}
+
+// Helper function to format process response
+function formatProcess(process: ProductProcess, products: Product[]): any {
+  const productsById = new Map(products.map((product) => [product.id, product]));
+  const method = process.allocationMethod || productService.DEFAULT_ALLOCATION_METHOD;
+  // Substitution shares depend on the process's emissions, known only at calculation
+  const { shares, warnings } = method === 'substitution'
+    ? { shares: null, warnings: [] }
+    : productService.allocateProcess(process, productsById, method, 0);
+
+  return {
+    ...process,
+    outputs: process.outputs.map((output) => ({
+      ...output,
+      productName: productsById.get(output.productId)?.name || null,
+      sharePercent: shares ? roundTo((shares.get(output.productId) || 0) * 100, 2) : null,
+    })),
+    ...(warnings.length > 0 ? { warning: warnings.join('; ') } : {}),
+  };
+}
@@ -4,6 +4,8 @@ import { redisClient as redis } from '../config/redis';
 import { generateId } from '../utils/helpers';
 import { BadRequestError, NotFoundError, ForbiddenError } from '../middleware/errorHandler';
 import { logger } from '../utils/logger';
+import * as facilityService from '../services/facilityService';
+import * as baseYearService from '../services/baseYearService';
 import type { Project, ProjectStatus, ReportStandard, AuditAction } from '../types';
 
 // Audit log helper
@@ -41,6 +43,7 @@ export async function createProject(req: Request, res: Response): Promise<void>
     reportingStandards,
     baselineYear,
     reportingYear,
+    gwpSet,
     settings,
   } = req.body;
 
@@ -49,9 +52,9 @@ export async function createProject(req: Request, res: Response): Promise<void>
   const result = await db.query(
     `INSERT INTO projects (
       id, name, description, organization, industry, country, region,
-      baseline_year, reporting_year, standards, settings, created_by, status
+      baseline_year, reporting_year, standards, gwp_set, settings, created_by, status
     )
-    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10::report_standard[], $11, $12, 'active')
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10::report_standard[], $11, $12, $13, 'active')
     RETURNING *`,
     [
       projectId,
@@ -64,6 +67,7 @@ export async function createProject(req: Request, res: Response): Promise<void>
       baselineYear,
       reportingYear,
       reportingStandards || [],
+      gwpSet || 'AR5',
       settings ? JSON.stringify(settings) : '{}',
       userId,
     ]
@@ -97,6 +101,7 @@ export async function createProject(req: Request, res: Response): Promise<void>
       standards: project.standards,
       baselineYear: project.baseline_year,
       reportingYear: project.reporting_year,
+      gwpSet: project.gwp_set,
       status: project.status,
       settings: project.settings,
       createdAt: project.created_at,
@@ -227,6 +232,7 @@ export async function getProject(req: Request, res: Response): Promise<void> {
       defaultStandard: project.default_standard,
       baselineYear: project.baseline_year,
       reportingYear: project.reporting_year,
+      gwpSet: project.gwp_set,
       status: project.status,
       createdAt: project.created_at,
       updatedAt: project.updated_at,
@@ -259,9 +265,20 @@ export async function updateProject(req: Request, res: Response): Promise<void>
     defaultStandard,
     baselineYear,
     reportingYear,
+    gwpSet,
     status,
   } = req.body;
 
+  // Changing the GWP set re-derives stored CO2e via recalculate-gwp
+  if (gwpSet) {
+    const current = await db.query(`SELECT gwp_set FROM projects WHERE id = $1`, [id]);
+    if (current.rows[0] && current.rows[0].gwp_set !== gwpSet) {
+      throw new BadRequestError(
+        'Use POST /calculate/project/:projectId/recalculate-gwp to change the GWP set'
+      );
+    }
+  }
+
   const result = await db.query(
     `UPDATE projects SET
        name = COALESCE($1, name),
@@ -320,6 +337,7 @@ export async function updateProject(req: Request, res: Response): Promise<void>
       defaultStandard: project.default_standard,
       baselineYear: project.baseline_year,
       reportingYear: project.reporting_year,
+      gwpSet: project.gwp_set,
       status: project.status,
       createdAt: project.created_at,
       updatedAt: project.updated_at,
@@ -511,6 +529,23 @@ export async function getProjectSummary(req: Request, res: Response): Promise<vo
     [id]
   );
 
+  // Get emissions by facility and scope
+  const emissionsByFacility = await db.query(
+    `SELECT 
+       a.facility_id,
+       f.name as facility_name,
+       f.country,
+       f.grid_region,
+       a.scope,
+       SUM(a.total_emissions_kg_co2e) as total_emissions,
+       COUNT(*) as activity_count
+     FROM activities a
+     LEFT JOIN facilities f ON f.id = a.facility_id
+     WHERE a.project_id = $1 AND a.calculation_status = 'calculated'
+     GROUP BY a.facility_id, f.name, f.country, f.grid_region, a.scope`,
+    [id]
+  );
+
   // Get CFP/CFO totals
   const cfpCfoTotals = await db.query(
     `SELECT 
@@ -555,6 +590,7 @@ export async function getProjectSummary(req: Request, res: Response): Promise<vo
         totalEmissions: parseFloat(row.total_emissions) || 0,
         activityCount: parseInt(row.activity_count),
       })),
+      emissionsByFacility: facilityService.summarizeByFacility(emissionsByFacility.rows),
       cfpCfoTotals: cfpCfoTotals.rows.reduce(
         (acc, row) => ({
           ...acc,
@@ -583,11 +619,11 @@ export async function cloneProject(req: Request, res: Response): Promise<void> {
     `INSERT INTO projects (
       id, name, description, company, facility_name, facility_location,
       industry, reporting_standards, default_standard, baseline_year, 
-      reporting_year, owner_id
+      reporting_year, gwp_set, owner_id
     )
     SELECT $1, $2, description, company, facility_name, facility_location,
            industry, reporting_standards, default_standard, baseline_year,
-           $3, $4
+           $3, gwp_set, $4
     FROM projects WHERE id = $5`,
     [newProjectId, name || `${project.name} (Copy)`, reportingYear || project.reporting_year + 1, userId, id]
   );
@@ -659,7 +695,9 @@ export async function getProjectComparison(req: Request, res: Response): Promise
   // Calculate comparison metrics
   let comparison = null;
   if (baselineCFO && reportingCFO) {
-    const baselineTotal = parseFloat(baselineCFO.cfo_total);
+    // A restated base year replaces the original in comparisons
+    const baselineFigures = await baseYearService.comparableBaseline(baselineCFO);
+    const baselineTotal = baselineFigures.inventory.total;
     const reportingTotal = parseFloat(reportingCFO.cfo_total);
     const absoluteChange = reportingTotal - baselineTotal;
     const percentageChange = baselineTotal > 0 ? (absoluteChange / baselineTotal) * 100 : 0;
@@ -669,10 +707,11 @@ export async function getProjectComparison(req: Request, res: Response): Promise
       reportingYear: project.reporting_year,
       baseline: {
         total: baselineTotal,
-        scope1: parseFloat(baselineCFO.scope1_emissions),
-        scope2: parseFloat(baselineCFO.scope2_location_emissions),
-        scope3: parseFloat(baselineCFO.scope3_upstream_emissions) + parseFloat(baselineCFO.scope3_downstream_emissions),
+        scope1: baselineFigures.inventory.scope1,
+        scope2: baselineFigures.inventory.scope2Location,
+        scope3: baselineFigures.inventory.scope3,
       },
+      baselineRestatement: baselineFigures.restatement,
       reporting: {
         total: reportingTotal,
         scope1: parseFloat(reportingCFO.scope1_emissions),
@@ -75,7 +75,7 @@ export async function generateReport(req: Request, res: Response): Promise<void>
   }
 
   // Generate file(s)
-  const files = await reportService.generateReportFiles(reportData, format || 'pdf', standard);
+  const files = await reportService.generateReportFiles(reportData, format || 'pdf', standard, validation);
 
   // Save report record
   await db.query(
@@ -173,7 +173,7 @@ export async function generateBatchReports(req: Request, res: Response): Promise
       const reportId = generateId();
       const reportData = await reportService.generateReportData(projectId, standard, options);
       const validation = await reportService.validateReportData(reportData, standard);
-      const files = await reportService.generateReportFiles(reportData, format || 'pdf', standard);
+      const files = await reportService.generateReportFiles(reportData, format || 'pdf', standard, validation);
 
       await db.query(
         `INSERT INTO reports (
@@ -435,7 +435,7 @@ export async function regenerateReport(req: Request, res: Response): Promise<voi
   // Generate new report data
   const reportData = await reportService.generateReportData(projectId, report.standard, options);
   const validation = await reportService.validateReportData(reportData, report.standard);
-  const files = await reportService.generateReportFiles(reportData, report.format, report.standard);
+  const files = await reportService.generateReportFiles(reportData, report.format, report.standard, validation);
 
   // Update report
   await db.query(
@@ -619,7 +619,7 @@ export async function batchGenerateReports(req: Request, res: Response): Promise
       const reportId = generateId();
       const reportData = await reportService.generateReportData(projectId, standard, options);
       const validation = await reportService.validateReportData(reportData, standard);
-      const files = await reportService.generateReportFiles(reportData, format || 'pdf', standard);
+      const files = await reportService.generateReportFiles(reportData, format || 'pdf', standard, validation);
 
       await db.query(
         `INSERT INTO reports (
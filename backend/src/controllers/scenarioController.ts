@@ -0,0 +1,437 @@
+import { Request, Response } from 'express';
+import { db } from '../config/database';
+import { generateId } from '../utils/helpers';
+import { BadRequestError, ConflictError, NotFoundError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import * as consolidationService from '../services/consolidationService';
+import * as scenarioService from '../services/scenarioService';
+import type { AuditAction } from '../types';
+
+// Audit log helper
+async function logAudit(
+  userId: string,
+  action: AuditAction,
+  entityType: string,
+  entityId: string | null,
+  details: object,
+  projectId: string
+): Promise<void> {
+  try {
+    await db.query(
+      `INSERT INTO audit_logs (id, user_id, project_id, action, entity_type, entity_id, details)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [generateId(), userId, projectId, action, entityType, entityId, JSON.stringify(details)]
+    );
+  } catch (error) {
+    logger.error('Failed to create audit log:', error);
+  }
+}
+
+/**
+ * List scenarios with the totals of their latest calculation
+ */
+export async function getScenarios(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+
+  const result = await db.query(
+    `SELECT s.*, r.comparison,
+            (SELECT COUNT(*) FROM scenario_activities sa WHERE sa.scenario_id = s.id) AS activity_count
+     FROM scenarios s
+     LEFT JOIN LATERAL (
+       SELECT comparison FROM scenario_results
+       WHERE scenario_id = s.id
+       ORDER BY created_at DESC LIMIT 1
+     ) r ON true
+     WHERE s.project_id = $1
+     ORDER BY s.created_at DESC`,
+    [projectId]
+  );
+
+  res.json({
+    success: true,
+    data: result.rows.map((row) => ({
+      ...scenarioService.toScenario(row),
+      activityCount: parseInt(row.activity_count) || 0,
+      cfoTotal: row.comparison?.cfoTotal || null,
+    })),
+  });
+}
+
+/**
+ * Create a scenario and snapshot the project's calculated activities
+ */
+export async function createScenario(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+  const userId = req.user!.id;
+  const body = req.body;
+
+  const existing = await db.queryOne(
+    `SELECT id FROM scenarios WHERE project_id = $1 AND name = $2`,
+    [projectId, body.name]
+  );
+  if (existing) {
+    throw new ConflictError(`A scenario named "${body.name}" already exists`);
+  }
+
+  const project = await db.queryOne(`SELECT reporting_year FROM projects WHERE id = $1`, [projectId]);
+  if (!project) {
+    throw new NotFoundError('Project not found');
+  }
+
+  const snapshot = await scenarioService.snapshotActivities(projectId);
+  if (snapshot.length === 0) {
+    throw new BadRequestError('No calculated activities found. Please calculate activities first.');
+  }
+
+  const id = generateId();
+  const scenario = await db.transaction(async (client) => {
+    const inserted = await client.query(
+      `INSERT INTO scenarios (
+        id, project_id, name, description, reporting_year, consolidation_method, adjustments, snapshot_at, created_by
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), $8)
+      RETURNING *`,
+      [
+        id,
+        projectId,
+        body.name,
+        body.description || null,
+        body.reportingYear || project.reporting_year,
+        body.consolidationMethod || consolidationService.DEFAULT_CONSOLIDATION_METHOD,
+        JSON.stringify(body.adjustments),
+        userId,
+      ]
+    );
+    await insertSnapshot(client, id, snapshot);
+    return inserted.rows[0];
+  });
+
+  await logAudit(userId, 'CREATE', 'scenario', id, {
+    name: body.name,
+    adjustments: body.adjustments.length,
+    activities: snapshot.length,
+  }, projectId);
+
+  res.status(201).json({
+    success: true,
+    data: {
+      ...scenarioService.toScenario(scenario),
+      activityCount: snapshot.length,
+    },
+  });
+}
+
+/**
+ * Get a scenario with its latest result
+ */
+export async function getScenario(req: Request, res: Response): Promise<void> {
+  const { projectId, scenarioId } = req.params;
+
+  const scenario = await findScenario(projectId, scenarioId);
+  const latest = await db.queryOne(
+    `SELECT * FROM scenario_results WHERE scenario_id = $1 ORDER BY created_at DESC LIMIT 1`,
+    [scenarioId]
+  );
+
+  res.json({
+    success: true,
+    data: {
+      ...scenarioService.toScenario(scenario),
+      latestResult: latest ? formatResult(latest) : null,
+    },
+  });
+}
+
+/**
+ * Update a scenario's name, description or adjustments. A calculated
+ * scenario becomes stale until it is calculated again.
+ */
+export async function updateScenario(req: Request, res: Response): Promise<void> {
+  const { projectId, scenarioId } = req.params;
+  const userId = req.user!.id;
+  const body = req.body;
+
+  const current = scenarioService.toScenario(await findScenario(projectId, scenarioId));
+
+  if (body.name && body.name !== current.name) {
+    const existing = await db.queryOne(
+      `SELECT id FROM scenarios WHERE project_id = $1 AND name = $2 AND id != $3`,
+      [projectId, body.name, scenarioId]
+    );
+    if (existing) {
+      throw new ConflictError(`A scenario named "${body.name}" already exists`);
+    }
+  }
+
+  const affectsResult = body.adjustments !== undefined || body.reportingYear !== undefined || body.consolidationMethod !== undefined;
+  const result = await db.query(
+    `UPDATE scenarios SET
+       name = $1,
+       description = $2,
+       reporting_year = $3,
+       consolidation_method = $4,
+       adjustments = $5,
+       status = $6,
+       updated_at = NOW()
+     WHERE id = $7 AND project_id = $8
+     RETURNING *`,
+    [
+      body.name ?? current.name,
+      body.description !== undefined ? body.description : current.description,
+      body.reportingYear ?? current.reportingYear,
+      body.consolidationMethod ?? current.consolidationMethod,
+      JSON.stringify(body.adjustments ?? current.adjustments),
+      affectsResult && current.status === 'calculated' ? 'stale' : current.status,
+      scenarioId,
+      projectId,
+    ]
+  );
+
+  await logAudit(userId, 'UPDATE', 'scenario', scenarioId, { changes: body }, projectId);
+
+  res.json({
+    success: true,
+    data: scenarioService.toScenario(result.rows[0]),
+  });
+}
+
+/**
+ * Delete a scenario with its snapshot and results
+ */
+export async function deleteScenario(req: Request, res: Response): Promise<void> {
+  const { projectId, scenarioId } = req.params;
+  const userId = req.user!.id;
+
+  const scenario = await findScenario(projectId, scenarioId);
+
+  await db.query(`DELETE FROM scenarios WHERE id = $1`, [scenarioId]);
+
+  await logAudit(userId, 'DELETE', 'scenario', scenarioId, { name: scenario.name }, projectId);
+
+  res.json({
+    success: true,
+    message: 'Scenario deleted',
+  });
+}
+
+/**
+ * Retake the snapshot from the project's calculated activities as they stand now
+ */
+export async function refreshSnapshot(req: Request, res: Response): Promise<void> {
+  const { projectId, scenarioId } = req.params;
+  const userId = req.user!.id;
+
+  const current = scenarioService.toScenario(await findScenario(projectId, scenarioId));
+  const snapshot = await scenarioService.snapshotActivities(projectId);
+  if (snapshot.length === 0) {
+    throw new BadRequestError('No calculated activities found. Please calculate activities first.');
+  }
+
+  const scenario = await db.transaction(async (client) => {
+    await client.query(`DELETE FROM scenario_activities WHERE scenario_id = $1`, [scenarioId]);
+    await insertSnapshot(client, scenarioId, snapshot);
+    const updated = await client.query(
+      `UPDATE scenarios SET snapshot_at = NOW(), status = $1, updated_at = NOW() WHERE id = $2 RETURNING *`,
+      [current.status === 'calculated' ? 'stale' : current.status, scenarioId]
+    );
+    return updated.rows[0];
+  });
+
+  await logAudit(userId, 'UPDATE', 'scenario', scenarioId, { snapshot: snapshot.length }, projectId);
+
+  res.json({
+    success: true,
+    data: {
+      ...scenarioService.toScenario(scenario),
+      activityCount: snapshot.length,
+    },
+  });
+}
+
+/**
+ * Calculate the scenario into the scenario tables and compare it with the
+ * actual inventory of the snapshot
+ */
+export async function calculateScenario(req: Request, res: Response): Promise<void> {
+  const { projectId, scenarioId } = req.params;
+  const userId = req.user!.id;
+
+  const scenario = scenarioService.toScenario(await findScenario(projectId, scenarioId));
+  const rows = await db.query(
+    `SELECT id, activity_id, snapshot FROM scenario_activities WHERE scenario_id = $1 ORDER BY created_at, id`,
+    [scenarioId]
+  );
+  if (rows.rows.length === 0) {
+    throw new BadRequestError('The scenario has no snapshot; refresh it first');
+  }
+
+  const calculation = await scenarioService.calculateScenario(scenario, rows.rows);
+  const resultId = generateId();
+
+  const stored = await db.transaction(async (client) => {
+    for (const activity of calculation.activities) {
+      await client.query(
+        `UPDATE scenario_activities SET
+           activity_type = $1,
+           quantity = $2,
+           unit = $3,
+           total_emissions_kg_co2e = $4,
+           gas_breakdown = $5,
+           emission_factor_used = $6,
+           applied_adjustments = $7,
+           calculation_status = $8,
+           error_message = $9
+         WHERE id = $10`,
+        [
+          activity.activityType,
+          activity.quantity,
+          activity.unit,
+          activity.scenarioKgCo2e,
+          JSON.stringify(activity.gasBreakdown),
+          JSON.stringify(activity.factor),
+          JSON.stringify(activity.appliedAdjustments),
+          activity.status,
+          activity.error || null,
+          activity.scenarioActivityId,
+        ]
+      );
+    }
+
+    const inventory = calculation.scenario;
+    const inserted = await client.query(
+      `INSERT INTO scenario_results (
+        id, scenario_id, project_id, scope1_emissions, scope2_location_emissions, scope2_market_emissions,
+        scope3_upstream_emissions, scope3_downstream_emissions, scope3_category_breakdown, cfo_total,
+        lifecycle_stages, cfp_total, actual_inventory, comparison, created_by
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+      RETURNING *`,
+      [
+        resultId,
+        scenarioId,
+        projectId,
+        inventory.scope1,
+        inventory.scope2Location,
+        inventory.scope2Market,
+        inventory.scope3Upstream,
+        inventory.scope3Downstream,
+        JSON.stringify(inventory.scope3CategoryBreakdown),
+        inventory.cfoTotal,
+        JSON.stringify(inventory.lifecycleStages),
+        inventory.cfpTotal,
+        JSON.stringify(calculation.actual),
+        JSON.stringify(calculation.comparison),
+        userId,
+      ]
+    );
+
+    await client.query(
+      `UPDATE scenarios SET status = 'calculated', calculated_at = NOW(), updated_at = NOW() WHERE id = $1`,
+      [scenarioId]
+    );
+    return inserted.rows[0];
+  });
+
+  const errors = calculation.activities.filter((a) => a.status === 'error');
+
+  await logAudit(userId, 'CALCULATE_SCENARIO', 'scenario', scenarioId, {
+    resultId,
+    actualCfoTotal: calculation.actual.cfoTotal,
+    scenarioCfoTotal: calculation.scenario.cfoTotal,
+    errors: errors.length,
+  }, projectId);
+
+  res.json({
+    success: true,
+    data: {
+      ...formatResult(stored),
+      adjustedActivities: calculation.activities.filter((a) => a.appliedAdjustments.length > 0).length,
+      renewableInstruments: calculation.renewableInstruments,
+      errors: errors.map((a) => ({ activityId: a.activityId, name: a.name, error: a.error })),
+    },
+  });
+}
+
+/**
+ * Per-activity actual and scenario emissions of the latest calculation
+ */
+export async function getScenarioActivities(req: Request, res: Response): Promise<void> {
+  const { projectId, scenarioId } = req.params;
+
+  await findScenario(projectId, scenarioId);
+  const result = await db.query(
+    `SELECT * FROM scenario_activities WHERE scenario_id = $1 ORDER BY created_at, id`,
+    [scenarioId]
+  );
+
+  res.json({
+    success: true,
+    data: result.rows.map((row) => ({
+      id: row.id,
+      activityId: row.activity_id,
+      name: row.snapshot.name,
+      scope: row.snapshot.scope,
+      actual: {
+        activityType: row.snapshot.activity_type,
+        quantity: parseFloat(row.snapshot.quantity),
+        unit: row.snapshot.unit,
+        totalEmissionsKgCo2e: parseFloat(row.snapshot.total_emissions_kg_co2e) || 0,
+      },
+      scenario: row.calculation_status === 'pending' ? null : {
+        activityType: row.activity_type,
+        quantity: parseFloat(row.quantity),
+        unit: row.unit,
+        totalEmissionsKgCo2e: parseFloat(row.total_emissions_kg_co2e) || 0,
+        factor: row.emission_factor_used,
+      },
+      appliedAdjustments: row.applied_adjustments || [],
+      status: row.calculation_status,
+      error: row.error_message || null,
+    })),
+  });
+}
+
+// Helper function to load a scenario of the project
+async function findScenario(projectId: string, scenarioId: string): Promise<any> {
+  const scenario = await db.queryOne(
+    `SELECT * FROM scenarios WHERE id = $1 AND project_id = $2`,
+    [scenarioId, projectId]
+  );
+
+  if (!scenario) {
+    throw new NotFoundError('Scenario not found');
+  }
+  return scenario;
+}
+
+// Helper function to store snapshot rows for a scenario
+async function insertSnapshot(client: any, scenarioId: string, activities: any[]): Promise<void> {
+  for (const activity of activities) {
+    await client.query(
+      `INSERT INTO scenario_activities (id, scenario_id, activity_id, snapshot) VALUES ($1, $2, $3, $4)`,
+      [generateId(), scenarioId, activity.id, JSON.stringify(activity)]
+    );
+  }
+}
+
+// Helper function to format scenario result response
+function formatResult(row: any): any {
+  return {
+    id: row.id,
+    scenarioId: row.scenario_id,
+    scenario: {
+      scope1: parseFloat(row.scope1_emissions),
+      scope2Location: parseFloat(row.scope2_location_emissions),
+      scope2Market: parseFloat(row.scope2_market_emissions),
+      scope3Upstream: parseFloat(row.scope3_upstream_emissions),
+      scope3Downstream: parseFloat(row.scope3_downstream_emissions),
+      scope3CategoryBreakdown: row.scope3_category_breakdown,
+      cfoTotal: parseFloat(row.cfo_total),
+      lifecycleStages: row.lifecycle_stages,
+      cfpTotal: parseFloat(row.cfp_total),
+    },
+    actual: row.actual_inventory,
+    comparison: row.comparison,
+    createdAt: row.created_at,
+  };
+}
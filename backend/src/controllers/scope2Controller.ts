@@ -0,0 +1,361 @@
+import { Request, Response } from 'express';
+import { db } from '../config/database';
+import { cacheDelPattern } from '../config/redis';
+import { generateId, roundTo } from '../utils/helpers';
+import { NotFoundError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import * as scope2Service from '../services/scope2Service';
+import * as unitService from '../services/unitService';
+import type { AuditAction } from '../types';
+
+// Audit log helper
+async function logAudit(
+  userId: string,
+  action: AuditAction,
+  entityType: string,
+  entityId: string | null,
+  details: object,
+  projectId?: string
+): Promise<void> {
+  try {
+    await db.query(
+      `INSERT INTO audit_logs (id, user_id, project_id, action, entity_type, entity_id, details)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [generateId(), userId, projectId || null, action, entityType, entityId, JSON.stringify(details)]
+    );
+  } catch (error) {
+    logger.error('Failed to create audit log:', error);
+  }
+}
+
+// ============================================================================
+// CONTRACTUAL INSTRUMENTS
+// ============================================================================
+
+/**
+ * List contractual instruments for a project
+ */
+export async function getInstruments(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+  const { year, type } = req.query;
+
+  let query = `SELECT * FROM contractual_instruments WHERE project_id = $1`;
+  const params: any[] = [projectId];
+
+  if (year) {
+    params.push(parseInt(year as string));
+    query += ` AND reporting_year = $${params.length}`;
+  }
+  if (type) {
+    params.push(type);
+    query += ` AND instrument_type = $${params.length}`;
+  }
+
+  const result = await db.query(`${query} ORDER BY reporting_year DESC, created_at`, params);
+
+  res.json({
+    success: true,
+    data: result.rows.map(formatInstrument),
+  });
+}
+
+/**
+ * Register a contractual instrument (PPA, REC, I-REC or GO)
+ */
+export async function createInstrument(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+  const userId = req.user!.id;
+  const body = req.body;
+
+  // Volumes are stored as entered and normalised to kWh for allocation
+  const volumeKwh = unitService.convertQuantity(body.volume, body.volumeUnit, 'kwh');
+
+  const id = generateId();
+  const result = await db.query(
+    `INSERT INTO contractual_instruments (
+      id, project_id, instrument_type, name, supplier, volume, volume_unit, volume_kwh,
+      emission_factor, energy_source, reporting_year, country, vintage_year,
+      certificate_ids, tracking_system, retired, retirement_date, notes, metadata, created_by
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)
+    RETURNING *`,
+    [
+      id,
+      projectId,
+      body.type,
+      body.name || null,
+      body.supplier || null,
+      body.volume,
+      body.volumeUnit,
+      volumeKwh,
+      body.emissionFactor,
+      body.energySource || null,
+      body.reportingYear,
+      body.country,
+      body.vintageYear || null,
+      body.certificateIds,
+      body.trackingSystem || null,
+      body.retired,
+      body.retirementDate || null,
+      body.notes || null,
+      JSON.stringify(body.metadata || {}),
+      userId,
+    ]
+  );
+
+  await logAudit(userId, 'CREATE', 'contractual_instrument', id, {
+    type: body.type,
+    volumeKwh,
+    reportingYear: body.reportingYear,
+  }, projectId);
+
+  res.status(201).json({
+    success: true,
+    data: formatInstrument(result.rows[0]),
+  });
+}
+
+/**
+ * Update a contractual instrument
+ */
+export async function updateInstrument(req: Request, res: Response): Promise<void> {
+  const { projectId, instrumentId } = req.params;
+  const userId = req.user!.id;
+  const body = req.body;
+
+  const existing = await db.query(
+    `SELECT * FROM contractual_instruments WHERE id = $1 AND project_id = $2`,
+    [instrumentId, projectId]
+  );
+
+  if (existing.rows.length === 0) {
+    throw new NotFoundError('Contractual instrument not found');
+  }
+
+  const current = existing.rows[0];
+  const volume = body.volume ?? parseFloat(current.volume);
+  const volumeUnit = body.volumeUnit ?? current.volume_unit;
+  const volumeKwh = unitService.convertQuantity(volume, volumeUnit, 'kwh');
+
+  const result = await db.query(
+    `UPDATE contractual_instruments SET
+       instrument_type = COALESCE($1, instrument_type),
+       name = COALESCE($2, name),
+       supplier = COALESCE($3, supplier),
+       volume = $4,
+       volume_unit = $5,
+       volume_kwh = $6,
+       emission_factor = COALESCE($7, emission_factor),
+       energy_source = COALESCE($8, energy_source),
+       reporting_year = COALESCE($9, reporting_year),
+       country = COALESCE($10, country),
+       vintage_year = COALESCE($11, vintage_year),
+       certificate_ids = COALESCE($12, certificate_ids),
+       tracking_system = COALESCE($13, tracking_system),
+       retired = COALESCE($14, retired),
+       retirement_date = COALESCE($15, retirement_date),
+       notes = COALESCE($16, notes),
+       metadata = COALESCE($17, metadata),
+       updated_at = NOW()
+     WHERE id = $18
+     RETURNING *`,
+    [
+      body.type,
+      body.name,
+      body.supplier,
+      volume,
+      volumeUnit,
+      volumeKwh,
+      body.emissionFactor,
+      body.energySource,
+      body.reportingYear,
+      body.country,
+      body.vintageYear,
+      body.certificateIds,
+      body.trackingSystem,
+      body.retired,
+      body.retirementDate,
+      body.notes,
+      body.metadata ? JSON.stringify(body.metadata) : null,
+      instrumentId,
+    ]
+  );
+
+  await logAudit(userId, 'UPDATE', 'contractual_instrument', instrumentId, {
+    changes: Object.keys(body),
+  }, projectId);
+
+  res.json({
+    success: true,
+    data: formatInstrument(result.rows[0]),
+  });
+}
+
+/**
+ * Delete a contractual instrument
+ */
+export async function deleteInstrument(req: Request, res: Response): Promise<void> {
+  const { projectId, instrumentId } = req.params;
+  const userId = req.user!.id;
+
+  const result = await db.query(
+    `DELETE FROM contractual_instruments WHERE id = $1 AND project_id = $2 RETURNING id, instrument_type`,
+    [instrumentId, projectId]
+  );
+
+  if (result.rows.length === 0) {
+    throw new NotFoundError('Contractual instrument not found');
+  }
+
+  await logAudit(userId, 'DELETE', 'contractual_instrument', instrumentId, {
+    type: result.rows[0].instrument_type,
+  }, projectId);
+
+  res.json({
+    success: true,
+    message: 'Contractual instrument deleted',
+  });
+}
+
+// ============================================================================
+// DUAL REPORTING
+// ============================================================================
+
+/**
+ * Location- and market-based Scope 2 with the quality-criteria check
+ */
+export async function getScope2Summary(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+
+  const projectResult = await db.query(
+    `SELECT country, reporting_year FROM projects WHERE id = $1`,
+    [projectId]
+  );
+
+  if (projectResult.rows.length === 0) {
+    throw new NotFoundError('Project not found');
+  }
+
+  const project = projectResult.rows[0];
+  const reportingYear = req.query.year ? parseInt(req.query.year as string) : project.reporting_year;
+
+  const activitiesResult = await db.query(
+    `SELECT a.*, f.country AS facility_country, f.grid_region AS facility_grid_region, f.entity_id AS facility_entity_id
+     FROM activities a
+     LEFT JOIN facilities f ON f.id = a.facility_id
+     WHERE a.project_id = $1 AND a.scope = 'scope2' AND a.calculation_status = 'calculated'`,
+    [projectId]
+  );
+
+  const scope2 = await scope2Service.calculateProjectScope2(projectId, activitiesResult.rows, {
+    country: project.country,
+    reportingYear,
+  });
+
+  res.json({
+    success: true,
+    data: {
+      reportingYear,
+      ...scope2,
+      locationBasedTonnes: roundTo(scope2.locationBased / 1000, 4),
+      marketBasedTonnes: roundTo(scope2.marketBased / 1000, 4),
+    },
+  });
+}
+
+// ============================================================================
+// RESIDUAL MIX FACTORS
+// ============================================================================
+
+/**
+ * List residual mix factors
+ */
+export async function getResidualMixFactors(req: Request, res: Response): Promise<void> {
+  const { country } = req.query;
+
+  const result = country
+    ? await db.query(
+        `SELECT * FROM residual_mix_factors WHERE LOWER(country) = LOWER($1) ORDER BY year DESC`,
+        [country]
+      )
+    : await db.query(`SELECT * FROM residual_mix_factors ORDER BY country, year DESC`);
+
+  res.json({
+    success: true,
+    data: result.rows.map((row) => ({
+      id: row.id,
+      country: row.country,
+      year: row.year,
+      factorKgCo2ePerKwh: parseFloat(row.factor_kg_co2e_per_kwh),
+      source: row.source,
+      sourceUrl: row.source_url,
+      notes: row.notes,
+      updatedAt: row.updated_at,
+    })),
+  });
+}
+
+/**
+ * Create or update the residual mix factor for a country and year (owner only)
+ */
+export async function upsertResidualMixFactor(req: Request, res: Response): Promise<void> {
+  const userId = req.user!.id;
+  const { country, year, factorKgCo2ePerKwh, source, sourceUrl, notes } = req.body;
+
+  const result = await db.query(
+    `INSERT INTO residual_mix_factors (id, country, year, factor_kg_co2e_per_kwh, source, source_url, notes, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     ON CONFLICT (country, year) DO UPDATE SET
+       factor_kg_co2e_per_kwh = EXCLUDED.factor_kg_co2e_per_kwh,
+       source = EXCLUDED.source,
+       source_url = EXCLUDED.source_url,
+       notes = EXCLUDED.notes,
+       updated_at = NOW()
+     RETURNING id, (xmax = 0) AS inserted`,
+    [generateId(), country, year, factorKgCo2ePerKwh, source, sourceUrl || null, notes || null, userId]
+  );
+
+  const { id, inserted } = result.rows[0];
+
+  await logAudit(userId, inserted ? 'CREATE' : 'UPDATE', 'residual_mix_factor', id, {
+    country,
+    year,
+    factorKgCo2ePerKwh,
+  });
+
+  // Later years fall back to this factor, so clear every cached year for the country
+  await cacheDelPattern(`residual_mix:${country.toLowerCase()}:*`);
+
+  res.status(inserted ? 201 : 200).json({
+    success: true,
+    data: { id, country, year, factorKgCo2ePerKwh },
+    message: inserted ? 'Residual mix factor created' : 'Residual mix factor updated',
+  });
+}
+
+// Helper function to format instrument response
+function formatInstrument(row: any): any {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    type: row.instrument_type,
+    name: row.name,
+    supplier: row.supplier,
+    volume: parseFloat(row.volume),
+    volumeUnit: row.volume_unit,
+    volumeKwh: parseFloat(row.volume_kwh),
+    emissionFactor: parseFloat(row.emission_factor),
+    energySource: row.energy_source,
+    reportingYear: row.reporting_year,
+    country: row.country,
+    vintageYear: row.vintage_year,
+    certificateIds: row.certificate_ids || [],
+    trackingSystem: row.tracking_system,
+    retired: row.retired,
+    retirementDate: row.retirement_date,
+    notes: row.notes,
+    metadata: row.metadata,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
@@ -0,0 +1,595 @@
+import { Request, Response } from 'express';
+import { db } from '../config/database';
+import { redisClient as redis } from '../config/redis';
+import { generateId } from '../utils/helpers';
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import * as supplierService from '../services/supplierService';
+import * as unitService from '../services/unitService';
+import type { AuditAction } from '../types';
+
+// Audit log helper (portal submissions have no user)
+async function logAudit(
+  userId: string | null,
+  action: AuditAction,
+  entityType: string,
+  entityId: string | null,
+  details: object,
+  projectId?: string
+): Promise<void> {
+  try {
+    await db.query(
+      `INSERT INTO audit_logs (id, user_id, project_id, action, entity_type, entity_id, details)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [generateId(), userId, projectId || null, action, entityType, entityId, JSON.stringify(details)]
+    );
+  } catch (error) {
+    logger.error('Failed to create audit log:', error);
+  }
+}
+
+// ============================================================================
+// SUPPLIERS
+// ============================================================================
+
+/**
+ * List suppliers of a project with their submission status counts
+ */
+export async function getSuppliers(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+
+  const result = await db.query(
+    `SELECT s.*,
+            (SELECT status FROM supplier_invites WHERE supplier_id = s.id ORDER BY created_at DESC LIMIT 1) AS invite_status,
+            COUNT(sub.id) FILTER (WHERE sub.status = 'submitted') AS submitted_count,
+            COUNT(sub.id) FILTER (WHERE sub.status = 'accepted') AS accepted_count,
+            COUNT(sub.id) FILTER (WHERE sub.status = 'rejected') AS rejected_count
+     FROM suppliers s
+     LEFT JOIN supplier_submissions sub ON sub.supplier_id = s.id
+     WHERE s.project_id = $1
+     GROUP BY s.id
+     ORDER BY s.name`,
+    [projectId]
+  );
+
+  res.json({
+    success: true,
+    data: result.rows.map((row) => ({
+      ...formatSupplier(row),
+      inviteStatus: row.invite_status,
+      submissions: {
+        submitted: parseInt(row.submitted_count),
+        accepted: parseInt(row.accepted_count),
+        rejected: parseInt(row.rejected_count),
+      },
+    })),
+  });
+}
+
+/**
+ * Add a supplier to a project
+ */
+export async function createSupplier(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+  const userId = req.user!.id;
+  const body = req.body;
+
+  const existing = await db.query(
+    `SELECT id FROM suppliers WHERE project_id = $1 AND name = $2`,
+    [projectId, body.name]
+  );
+  if (existing.rows.length > 0) {
+    throw new ConflictError(`Supplier "${body.name}" already exists in this project`);
+  }
+
+  const id = generateId();
+  const result = await db.query(
+    `INSERT INTO suppliers (
+      id, project_id, name, contact_name, contact_email, country, supplier_tier, metadata, created_by
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    RETURNING *`,
+    [
+      id,
+      projectId,
+      body.name,
+      body.contactName || null,
+      body.contactEmail || null,
+      body.country || null,
+      body.supplierTier,
+      JSON.stringify(body.metadata || {}),
+      userId,
+    ]
+  );
+
+  await logAudit(userId, 'CREATE', 'supplier', id, { name: body.name }, projectId);
+
+  res.status(201).json({
+    success: true,
+    data: formatSupplier(result.rows[0]),
+  });
+}
+
+/**
+ * Update a supplier
+ */
+export async function updateSupplier(req: Request, res: Response): Promise<void> {
+  const { projectId, supplierId } = req.params;
+  const userId = req.user!.id;
+  const body = req.body;
+
+  const result = await db.query(
+    `UPDATE suppliers SET
+       name = COALESCE($1, name),
+       contact_name = COALESCE($2, contact_name),
+       contact_email = COALESCE($3, contact_email),
+       country = COALESCE($4, country),
+       supplier_tier = COALESCE($5, supplier_tier),
+       metadata = COALESCE($6, metadata),
+       updated_at = NOW()
+     WHERE id = $7 AND project_id = $8
+     RETURNING *`,
+    [
+      body.name,
+      body.contactName,
+      body.contactEmail,
+      body.country,
+      body.supplierTier,
+      body.metadata ? JSON.stringify(body.metadata) : null,
+      supplierId,
+      projectId,
+    ]
+  );
+
+  if (result.rows.length === 0) {
+    throw new NotFoundError('Supplier not found');
+  }
+
+  await logAudit(userId, 'UPDATE', 'supplier', supplierId, { changes: Object.keys(body) }, projectId);
+
+  res.json({
+    success: true,
+    data: formatSupplier(result.rows[0]),
+  });
+}
+
+/**
+ * Delete a supplier with its invites and submissions.
+ * Activities created from accepted submissions are kept.
+ */
+export async function deleteSupplier(req: Request, res: Response): Promise<void> {
+  const { projectId, supplierId } = req.params;
+  const userId = req.user!.id;
+
+  const result = await db.query(
+    `DELETE FROM suppliers WHERE id = $1 AND project_id = $2 RETURNING id, name`,
+    [supplierId, projectId]
+  );
+
+  if (result.rows.length === 0) {
+    throw new NotFoundError('Supplier not found');
+  }
+
+  await logAudit(userId, 'DELETE', 'supplier', supplierId, { name: result.rows[0].name }, projectId);
+
+  res.json({
+    success: true,
+    message: 'Supplier deleted',
+  });
+}
+
+// ============================================================================
+// INVITES
+// ============================================================================
+
+/**
+ * List invites sent to a supplier (tokens are never returned again)
+ */
+export async function getInvites(req: Request, res: Response): Promise<void> {
+  const { projectId, supplierId } = req.params;
+
+  await findSupplier(projectId, supplierId);
+
+  const result = await db.query(
+    `SELECT * FROM supplier_invites WHERE supplier_id = $1 ORDER BY created_at DESC`,
+    [supplierId]
+  );
+
+  res.json({
+    success: true,
+    data: result.rows.map(formatInvite),
+  });
+}
+
+/**
+ * Create an invite link for a supplier.
+ * The link is only shown in this response; store or send it right away.
+ */
+export async function createInvite(req: Request, res: Response): Promise<void> {
+  const { projectId, supplierId } = req.params;
+  const userId = req.user!.id;
+  const { submissionTypes, message, expiresInDays } = req.body;
+
+  const supplier = await findSupplier(projectId, supplierId);
+
+  let reportingYear = req.body.reportingYear;
+  if (!reportingYear) {
+    const project = await db.query(`SELECT reporting_year FROM projects WHERE id = $1`, [projectId]);
+    reportingYear = project.rows[0].reporting_year;
+  }
+
+  const { token, tokenHash } = supplierService.generateInviteToken();
+  const id = generateId();
+
+  const result = await db.query(
+    `INSERT INTO supplier_invites (
+      id, supplier_id, project_id, token_hash, submission_types, reporting_year, message, expires_at, created_by
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    RETURNING *`,
+    [
+      id,
+      supplierId,
+      projectId,
+      tokenHash,
+      submissionTypes,
+      reportingYear,
+      message || null,
+      supplierService.inviteExpiry(new Date(), expiresInDays),
+      userId,
+    ]
+  );
+
+  await logAudit(userId, 'CREATE', 'supplier_invite', id, {
+    supplierId,
+    supplierName: supplier.name,
+    submissionTypes,
+    reportingYear,
+  }, projectId);
+
+  res.status(201).json({
+    success: true,
+    data: {
+      ...formatInvite(result.rows[0]),
+      token,
+      url: supplierService.inviteUrl(token),
+    },
+  });
+}
+
+/**
+ * Revoke an invite link
+ */
+export async function revokeInvite(req: Request, res: Response): Promise<void> {
+  const { projectId, supplierId, inviteId } = req.params;
+  const userId = req.user!.id;
+
+  const result = await db.query(
+    `UPDATE supplier_invites SET status = 'revoked', updated_at = NOW()
+     WHERE id = $1 AND supplier_id = $2 AND project_id = $3
+     RETURNING *`,
+    [inviteId, supplierId, projectId]
+  );
+
+  if (result.rows.length === 0) {
+    throw new NotFoundError('Invite not found');
+  }
+
+  await logAudit(userId, 'UPDATE', 'supplier_invite', inviteId, { status: 'revoked' }, projectId);
+
+  res.json({
+    success: true,
+    data: formatInvite(result.rows[0]),
+  });
+}
+
+// ============================================================================
+// SUBMISSIONS
+// ============================================================================
+
+/**
+ * List supplier submissions of a project
+ */
+export async function getSubmissions(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+  const { status, supplierId } = req.query;
+
+  let query = `
+    SELECT sub.*, s.name AS supplier_name
+    FROM supplier_submissions sub
+    JOIN suppliers s ON s.id = sub.supplier_id
+    WHERE sub.project_id = $1`;
+  const params: any[] = [projectId];
+
+  if (status) {
+    params.push(status);
+    query += ` AND sub.status = $${params.length}`;
+  }
+  if (supplierId) {
+    params.push(supplierId);
+    query += ` AND sub.supplier_id = $${params.length}`;
+  }
+
+  const result = await db.query(`${query} ORDER BY sub.submitted_at DESC`, params);
+
+  res.json({
+    success: true,
+    data: result.rows.map((row) => ({
+      ...formatSubmission(row),
+      supplierName: row.supplier_name,
+    })),
+  });
+}
+
+/**
+ * Accept or reject a submission. Accepted submissions become Scope 3 activities.
+ */
+export async function reviewSubmission(req: Request, res: Response): Promise<void> {
+  const { projectId, submissionId } = req.params;
+  const userId = req.user!.id;
+  const { status, reviewNote, tierLevel, scope3Category } = req.body;
+
+  const existing = await db.query(
+    `SELECT sub.*, s.name AS supplier_name, s.supplier_tier
+     FROM supplier_submissions sub
+     JOIN suppliers s ON s.id = sub.supplier_id
+     WHERE sub.id = $1 AND sub.project_id = $2`,
+    [submissionId, projectId]
+  );
+
+  if (existing.rows.length === 0) {
+    throw new NotFoundError('Submission not found');
+  }
+
+  const submission = existing.rows[0];
+  if (submission.status !== 'submitted') {
+    throw new BadRequestError(`Submission has already been ${submission.status}`);
+  }
+
+  const reviewedAt = new Date();
+
+  const row = await db.transaction(async (client) => {
+    // Lock the submission so two reviewers cannot both accept it
+    const locked = await client.query(
+      `SELECT status FROM supplier_submissions WHERE id = $1 FOR UPDATE`,
+      [submissionId]
+    );
+    if (locked.rows[0]?.status !== 'submitted') {
+      throw new ConflictError(`Submission has already been ${locked.rows[0]?.status || 'removed'}`);
+    }
+
+    let activityId: string | null = null;
+
+    if (status === 'accepted') {
+      const activity = supplierService.submissionToActivity(
+        {
+          id: submission.id,
+          inviteId: submission.invite_id,
+          submissionType: submission.submission_type,
+          payload: submission.payload,
+          submittedAt: submission.submitted_at,
+        },
+        { id: submission.supplier_id, name: submission.supplier_name, supplierTier: submission.supplier_tier },
+        { reviewedBy: userId, reviewedAt, tierLevel, scope3Category }
+      );
+
+      activityId = generateId();
+      await client.query(
+        `INSERT INTO activities (
+          id, project_id, name, description, scope, scope3_category,
+          activity_type, quantity, unit, source, tier_level, tier_direction,
+          calculation_method, data_source, supplier_name, supplier_tier, metadata
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)`,
+        [
+          activityId,
+          projectId,
+          activity.name,
+          activity.description,
+          activity.scope,
+          activity.scope3Category,
+          activity.activityType,
+          activity.quantity,
+          activity.unit,
+          activity.source,
+          activity.tierLevel,
+          activity.tierDirection,
+          activity.calculationMethod,
+          activity.dataSource,
+          activity.supplierName,
+          activity.supplierTier,
+          JSON.stringify(activity.metadata),
+        ]
+      );
+    }
+
+    const result = await client.query(
+      `UPDATE supplier_submissions SET
+         status = $1,
+         review_note = $2,
+         reviewed_by = $3,
+         reviewed_at = $4,
+         activity_id = $5,
+         updated_at = NOW()
+       WHERE id = $6 AND status = 'submitted'
+       RETURNING *`,
+      [status, reviewNote || null, userId, reviewedAt, activityId, submissionId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new ConflictError('Submission was reviewed by someone else');
+    }
+    return result.rows[0];
+  });
+
+  if (row.activity_id) {
+    await redis.del(redis.keys.projectActivities(projectId));
+  }
+
+  await logAudit(userId, 'UPDATE', 'supplier_submission', submissionId, {
+    status,
+    supplierId: submission.supplier_id,
+    activityId: row.activity_id,
+  }, projectId);
+
+  res.json({
+    success: true,
+    data: formatSubmission(row),
+  });
+}
+
+// ============================================================================
+// SUPPLIER PORTAL (invite token, no user account)
+// ============================================================================
+
+/**
+ * Form definition and earlier submissions for the invited supplier
+ */
+export async function getPortalForm(req: Request, res: Response): Promise<void> {
+  const invite = req.supplierInvite!;
+
+  const project = await db.query(
+    `SELECT p.name, u.company
+     FROM projects p
+     LEFT JOIN users u ON u.id = p.created_by
+     WHERE p.id = $1`,
+    [invite.projectId]
+  );
+  const message = await db.query(`SELECT message, expires_at FROM supplier_invites WHERE id = $1`, [invite.inviteId]);
+
+  const submissions = await db.query(
+    `SELECT * FROM supplier_submissions WHERE invite_id = $1 ORDER BY submitted_at DESC`,
+    [invite.inviteId]
+  );
+
+  res.json({
+    success: true,
+    data: {
+      supplierName: invite.supplierName,
+      requestedBy: project.rows[0]?.company || project.rows[0]?.name,
+      reportingYear: invite.reportingYear,
+      submissionTypes: invite.submissionTypes,
+      message: message.rows[0]?.message,
+      expiresAt: message.rows[0]?.expires_at,
+      // Suppliers see the outcome of their submissions but not the resulting activities
+      submissions: submissions.rows.map((row) => ({
+        id: row.id,
+        submissionType: row.submission_type,
+        payload: row.payload,
+        status: row.status,
+        reviewNote: row.review_note,
+        submittedAt: row.submitted_at,
+        reviewedAt: row.reviewed_at,
+      })),
+    },
+  });
+}
+
+/**
+ * Submit a product footprint or activity data through an invite link
+ */
+export async function submitPortalData(req: Request, res: Response): Promise<void> {
+  const invite = req.supplierInvite!;
+  const { submissionType, ...payload } = req.body;
+
+  if (!invite.submissionTypes.includes(submissionType)) {
+    throw new ForbiddenError(`This invite does not accept ${submissionType.replace('_', ' ')} submissions`);
+  }
+
+  const unit = submissionType === 'product_footprint' ? payload.declaredUnit : payload.unit;
+  if (!unitService.getUnit(unit)) {
+    throw new BadRequestError(`Unknown unit "${unit}"`);
+  }
+
+  const id = generateId();
+  const result = await db.query(
+    `INSERT INTO supplier_submissions (id, invite_id, supplier_id, project_id, submission_type, payload)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING *`,
+    [id, invite.inviteId, invite.supplierId, invite.projectId, submissionType, JSON.stringify(payload)]
+  );
+
+  await db.query(
+    `UPDATE supplier_invites SET status = 'submitted', updated_at = NOW() WHERE id = $1 AND status = 'invited'`,
+    [invite.inviteId]
+  );
+
+  await logAudit(null, 'CREATE', 'supplier_submission', id, {
+    supplierId: invite.supplierId,
+    inviteId: invite.inviteId,
+    submissionType,
+  }, invite.projectId);
+
+  res.status(201).json({
+    success: true,
+    data: {
+      id,
+      submissionType,
+      status: result.rows[0].status,
+      submittedAt: result.rows[0].submitted_at,
+    },
+  });
+}
+
+// Helper function to load a supplier of the project
+async function findSupplier(projectId: string, supplierId: string): Promise<any> {
+  const result = await db.query(
+    `SELECT * FROM suppliers WHERE id = $1 AND project_id = $2`,
+    [supplierId, projectId]
+  );
+
+  if (result.rows.length === 0) {
+    throw new NotFoundError('Supplier not found');
+  }
+
+  return result.rows[0];
+}
+
+// Helper function to format supplier response
+function formatSupplier(row: any): any {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    name: row.name,
+    contactName: row.contact_name,
+    contactEmail: row.contact_email,
+    country: row.country,
+    supplierTier: row.supplier_tier,
+    metadata: row.metadata,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Helper function to format invite response
+function formatInvite(row: any): any {
+  return {
+    id: row.id,
+    supplierId: row.supplier_id,
+    submissionTypes: row.submission_types,
+    reportingYear: row.reporting_year,
+    message: row.message,
+    status: row.status,
+    expired: new Date(row.expires_at) < new Date(),
+    expiresAt: row.expires_at,
+    lastUsedAt: row.last_used_at,
+    createdAt: row.created_at,
+  };
+}
+
+// Helper function to format submission response
+function formatSubmission(row: any): any {
+  return {
+    id: row.id,
+    inviteId: row.invite_id,
+    supplierId: row.supplier_id,
+    submissionType: row.submission_type,
+    payload: row.payload,
+    status: row.status,
+    reviewNote: row.review_note,
+    reviewedBy: row.reviewed_by,
+    reviewedAt: row.reviewed_at,
+    activityId: row.activity_id,
+    submittedAt: row.submitted_at,
+  };
+}
@@ -0,0 +1,242 @@
+import { Request, Response } from 'express';
+import { db } from '../config/database';
+import { generateId } from '../utils/helpers';
+import { BadRequestError, NotFoundError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import * as targetService from '../services/targetService';
+import type { AuditAction, TargetPathway } from '../types';
+
+// Audit log helper
+async function logAudit(
+  userId: string,
+  action: AuditAction,
+  entityType: string,
+  entityId: string | null,
+  details: object,
+  projectId: string
+): Promise<void> {
+  try {
+    await db.query(
+      `INSERT INTO audit_logs (id, user_id, project_id, action, entity_type, entity_id, details)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [generateId(), userId, projectId, action, entityType, entityId, JSON.stringify(details)]
+    );
+  } catch (error) {
+    logger.error('Failed to create audit log:', error);
+  }
+}
+
+/**
+ * List the targets of a project with their milestones and progress against
+ * the CFO results of each year
+ */
+export async function getTargets(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+
+  const targets = await targetService.getProjectTargets(projectId);
+  const inventories = await targetService.getAnnualInventories(projectId);
+
+  res.json({
+    success: true,
+    data: targets.map((target) => ({
+      ...target,
+      description: targetService.describeTarget(target),
+      progress: targetService.trackTarget(target, inventories),
+    })),
+  });
+}
+
+/**
+ * Get a target with its milestones and progress
+ */
+export async function getTarget(req: Request, res: Response): Promise<void> {
+  const { projectId, targetId } = req.params;
+
+  const target = targetService.toTarget(await findTarget(projectId, targetId));
+  const inventories = await targetService.getAnnualInventories(projectId);
+
+  res.json({
+    success: true,
+    data: {
+      ...target,
+      description: targetService.describeTarget(target),
+      progress: targetService.trackTarget(target, inventories),
+    },
+  });
+}
+
+/**
+ * Set a target. SBTi pathways default the reduction to the pathway minimum
+ * and refuse a lower one.
+ */
+export async function createTarget(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+  const userId = req.user!.id;
+  const body = req.body;
+
+  const reductionPercent = resolveReduction(body.pathway, body.baseYear, body.targetYear, body.reductionPercent);
+  if (body.targetType === 'intensity' && !body.intensityUnit) {
+    throw new BadRequestError('intensityUnit is required for intensity targets');
+  }
+
+  const id = generateId();
+  const result = await db.query(
+    `INSERT INTO emission_targets (
+      id, project_id, name, target_type, scopes, scope2_method, base_year, target_year,
+      pathway, reduction_percent, intensity_unit, intensity_denominators, metadata, created_by
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+    RETURNING *`,
+    [
+      id,
+      projectId,
+      body.name,
+      body.targetType,
+      body.scopes,
+      body.scope2Method,
+      body.baseYear,
+      body.targetYear,
+      body.pathway,
+      reductionPercent,
+      body.intensityUnit || null,
+      JSON.stringify(body.intensityDenominators || {}),
+      JSON.stringify(body.metadata || {}),
+      userId,
+    ]
+  );
+
+  const target = targetService.toTarget(result.rows[0]);
+
+  await logAudit(userId, 'CREATE', 'emission_target', id, {
+    description: targetService.describeTarget(target),
+  }, projectId);
+
+  res.status(201).json({
+    success: true,
+    data: {
+      ...target,
+      description: targetService.describeTarget(target),
+    },
+  });
+}
+
+/**
+ * Update a target, e.g. to add the intensity denominator of a new year
+ */
+export async function updateTarget(req: Request, res: Response): Promise<void> {
+  const { projectId, targetId } = req.params;
+  const userId = req.user!.id;
+  const body = req.body;
+
+  const current = targetService.toTarget(await findTarget(projectId, targetId));
+  const merged = { ...current, ...body };
+  if (merged.targetYear <= merged.baseYear) {
+    throw new BadRequestError('Target year must be after the base year');
+  }
+
+  // A new pathway or period without an explicit reduction moves to the new minimum
+  const periodChanged = body.pathway !== undefined || body.baseYear !== undefined || body.targetYear !== undefined;
+  const reductionPercent = resolveReduction(
+    merged.pathway,
+    merged.baseYear,
+    merged.targetYear,
+    body.reductionPercent ?? (periodChanged && merged.pathway !== 'custom' ? undefined : current.reductionPercent)
+  );
+
+  const result = await db.query(
+    `UPDATE emission_targets SET
+       name = $1,
+       target_type = $2,
+       scopes = $3,
+       scope2_method = $4,
+       base_year = $5,
+       target_year = $6,
+       pathway = $7,
+       reduction_percent = $8,
+       intensity_unit = $9,
+       intensity_denominators = $10,
+       metadata = COALESCE($11, metadata),
+       updated_at = NOW()
+     WHERE id = $12 AND project_id = $13
+     RETURNING *`,
+    [
+      merged.name,
+      merged.targetType,
+      merged.scopes,
+      merged.scope2Method,
+      merged.baseYear,
+      merged.targetYear,
+      merged.pathway,
+      reductionPercent,
+      merged.intensityUnit || null,
+      JSON.stringify({ ...current.intensityDenominators, ...(body.intensityDenominators || {}) }),
+      body.metadata ? JSON.stringify(body.metadata) : null,
+      targetId,
+      projectId,
+    ]
+  );
+
+  const target = targetService.toTarget(result.rows[0]);
+
+  await logAudit(userId, 'UPDATE', 'emission_target', targetId, { changes: body }, projectId);
+
+  res.json({
+    success: true,
+    data: {
+      ...target,
+      description: targetService.describeTarget(target),
+    },
+  });
+}
+
+/**
+ * Delete a target
+ */
+export async function deleteTarget(req: Request, res: Response): Promise<void> {
+  const { projectId, targetId } = req.params;
+  const userId = req.user!.id;
+
+  const target = await findTarget(projectId, targetId);
+
+  await db.query(`DELETE FROM emission_targets WHERE id = $1`, [targetId]);
+
+  await logAudit(userId, 'DELETE', 'emission_target', targetId, { name: target.name }, projectId);
+
+  res.json({
+    success: true,
+    message: 'Target deleted',
+  });
+}
+
+// Helper function to load a target of the project
+async function findTarget(projectId: string, targetId: string): Promise<any> {
+  const target = await db.queryOne(
+    `SELECT * FROM emission_targets WHERE id = $1 AND project_id = $2`,
+    [targetId, projectId]
+  );
+
+  if (!target) {
+    throw new NotFoundError('Target not found');
+  }
+  return target;
+}
+
+// Helper function to check the reduction against the pathway minimum
+function resolveReduction(pathway: TargetPathway, baseYear: number, targetYear: number, requested?: number): number {
+  const minimum = targetService.minimumReductionPercent(pathway, baseYear, targetYear);
+  if (minimum === null) {
+    if (requested === undefined) {
+      throw new BadRequestError('reductionPercent is required for custom targets');
+    }
+    return requested;
+  }
+  if (requested === undefined) {
+    return minimum;
+  }
+  if (requested < minimum) {
+    throw new BadRequestError(
+      `A ${targetYear - baseYear}-year target on the ${pathway} pathway needs at least a ${minimum}% reduction, ${requested}% requested`
+    );
+  }
+  return requested;
+}
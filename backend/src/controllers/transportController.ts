@@ -0,0 +1,124 @@
+import { Request, Response } from 'express';
+import { db } from '../config/database';
+import { redisClient as redis } from '../config/redis';
+import { generateId } from '../utils/helpers';
+import { logger } from '../utils/logger';
+import * as transportService from '../services/transportService';
+import type { AuditAction, TransportMode } from '../types';
+
+// Audit log helper
+async function logAudit(
+  userId: string,
+  action: AuditAction,
+  entityType: string,
+  entityId: string | null,
+  details: object,
+  projectId?: string
+): Promise<void> {
+  try {
+    await db.query(
+      `INSERT INTO audit_logs (id, user_id, project_id, action, entity_type, entity_id, details)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [generateId(), userId, projectId || null, action, entityType, entityId, JSON.stringify(details)]
+    );
+  } catch (error) {
+    logger.error('Failed to create audit log:', error);
+  }
+}
+
+/**
+ * Search the bundled port, city and airport table
+ */
+export async function getLocations(req: Request, res: Response): Promise<void> {
+  const { search, country, type } = req.query;
+
+  res.json({
+    success: true,
+    data: transportService.searchLocations({
+      search: search as string | undefined,
+      country: country as string | undefined,
+      type: type as string | undefined,
+    }),
+  });
+}
+
+/**
+ * List vehicle types with their default intensities
+ */
+export async function getVehicleTypes(req: Request, res: Response): Promise<void> {
+  const { mode } = req.query;
+
+  const vehicleTypes = Object.entries(transportService.VEHICLE_TYPES)
+    .filter(([, vehicle]) => !mode || vehicle.mode === (mode as TransportMode))
+    .map(([key, vehicle]) => ({ key, ...vehicle }));
+
+  res.json({
+    success: true,
+    data: {
+      source: transportService.INTENSITY_SOURCE,
+      vehicleTypes,
+    },
+  });
+}
+
+/**
+ * Calculate distances, tonne-km and emissions of a shipment without saving it
+ */
+export async function calculateShipment(req: Request, res: Response): Promise<void> {
+  res.json({
+    success: true,
+    data: transportService.calculateShipment(req.body),
+  });
+}
+
+/**
+ * Record a shipment as a Scope 3 transport activity (quantity in tonne-km)
+ */
+export async function createShipment(req: Request, res: Response): Promise<void> {
+  const { projectId } = req.params;
+  const userId = req.user!.id;
+  const { name, description, direction, source, shipment, metadata } = req.body;
+
+  const result = transportService.calculateShipment(shipment);
+  const category = direction === 'upstream' ? 'upstream_transport' : 'downstream_transport';
+  const activityId = generateId();
+
+  await db.query(
+    `INSERT INTO activities (
+      id, project_id, name, description, scope, scope3_category,
+      activity_type, quantity, unit, source, tier_level, tier_direction,
+      calculation_method, metadata
+    )
+    VALUES ($1, $2, $3, $4, 'scope3', $5, $6, $7, 'tonne_km', $8, 'tier1', $9, 'average_data', $10)`,
+    [
+      activityId,
+      projectId,
+      name,
+      description || null,
+      category,
+      category,
+      result.tonneKm,
+      source || null,
+      direction,
+      JSON.stringify({ ...metadata, shipment }),
+    ]
+  );
+
+  await logAudit(userId, 'CREATE', 'activity', activityId, {
+    name,
+    shipment: { legs: shipment.legs.length, tonneKm: result.tonneKm },
+  }, projectId);
+
+  await redis.del(redis.keys.projectActivities(projectId));
+
+  res.status(201).json({
+    success: true,
+    data: {
+      activityId,
+      scope3Category: category,
+      quantity: result.tonneKm,
+      unit: 'tonne_km',
+      transport: result,
+    },
+  });
+}
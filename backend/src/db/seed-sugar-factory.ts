@@ -1,5 +1,7 @@
 import { db } from '../config/database';
 import { generateId } from '../utils/helpers';
+import { calculateShipment } from '../services/transportService';
+import type { Shipment } from '../types';
 import bcrypt from 'bcryptjs';
 
 // =============================================================================
@@ -116,6 +118,17 @@ const sugarFactoryProject = {
   },
 };
 
+// Export shipment: truck from the mill to Laem Chabang, then container ship to Shanghai
+const exportShipment: Shipment = {
+  origin: { name: factoryInfo.facilityName, lat: 12.6814, lon: 101.2816 },
+  destination: 'CNSHA',
+  weightTonnes: 50,
+  legs: [
+    { mode: 'road', vehicleType: 'articulated_truck', to: 'THLCH', emptyReturn: true },
+    { mode: 'sea', vehicleType: 'container_ship' },
+  ],
+};
+
 // Comprehensive Activities for Sugar Factory
 const sugarFactoryActivities = [
   // ============================================
@@ -223,10 +236,10 @@ const sugarFactoryActivities = [
     },
   },
   
-  // Bagasse Boiler (biogenic - reported separately)
+  // Bagasse Boiler (biogenic CO2 reported separately; CH4 and N2O count)
   {
     name: 'Bagasse Combustion - Steam Generation',
-    description: 'Sugarcane bagasse burned in boiler for steam (biogenic CO2 - reported for transparency)',
+    description: 'Sugarcane bagasse burned in boiler for steam (biogenic CO2 reported outside the scopes)',
     scope: 'scope1',
     activityType: 'stationary_combustion',
     quantity: 22500,
@@ -238,7 +251,7 @@ const sugarFactoryActivities = [
       type: 'biogenic',
       boilerCapacity: '25 tonnes steam/hour',
       steamUsage: 'Process heat and turbine',
-      note: 'Carbon neutral per GHG Protocol (biogenic)',
+      landSector: { model: 'biomass_combustion', fuel: 'bagasse' },
     },
   },
   
@@ -274,8 +287,9 @@ const sugarFactoryActivities = [
     metadata: {
       fertilizerType: 'Urea (46-0-0) and NPK',
       applicationRate: '290 kg N/hectare',
-      methodology: 'IPCC Tier 1',
-      emissionFactor: '0.01 kg N2O-N/kg N applied',
+      methodology: 'IPCC 2019 Refinement Tier 1, direct and indirect N2O',
+      // 60% of the nitrogen is applied as urea
+      landSector: { model: 'managed_soils', nitrogenSource: 'synthetic', climate: 'wet', ureaShare: 0.6 },
     },
   },
   {
@@ -292,7 +306,23 @@ const sugarFactoryActivities = [
       percentage: '30%',
       reason: 'Snake removal and leaf clearing',
       note: 'Transitioning to green cane harvesting',
-      emissionsPerHa: '2.5 tonnes CO2e',
+      landSector: { model: 'residue_burning', crop: 'sugarcane' },
+    },
+  },
+  {
+    name: 'Biogenic Carbon in Product - White Sugar',
+    description: 'CO2 taken up by the sugarcane and stored in the sucrose of the sugar sold',
+    scope: 'scope1',
+    activityType: 'biogenic_removal',
+    quantity: 50,
+    unit: 'tonnes',
+    source: 'Production records',
+    facility: 'Sugar Mill - Processing',
+    dataQualityScore: 4,
+    metadata: {
+      note: 'Reported as a removal, not netted against emissions',
+      // Sucrose, C12H22O11: 144 g C per 342 g
+      landSector: { model: 'biogenic_uptake', dryMatterFraction: 0.9995, carbonFraction: 0.421 },
     },
   },
   
@@ -693,42 +723,20 @@ const sugarFactoryActivities = [
   
   // Category 9: Downstream Transportation
   {
-    name: 'Export Shipping - Thailand to China',
-    description: 'Sea freight Laem Chabang to Shanghai (50 tonnes in 2 containers)',
+    name: 'Export Shipment - Rayong to Shanghai',
+    description: 'Truck to Laem Chabang and sea freight to Shanghai (50 tonnes in 2 containers)',
     scope: 'scope3',
     scope3Category: 'downstream_transport',
     activityType: 'downstream_transport',
-    quantity: 135000,
+    quantity: calculateShipment(exportShipment).tonneKm,
     unit: 'tonne_km',
-    source: 'Shipping bill of lading',
+    source: 'Shipping bill of lading, logistics provider invoice',
     facility: 'Export',
     dataQualityScore: 4,
     metadata: {
-      route: 'Laem Chabang Port → Shanghai Port',
-      distance: '2700 km',
-      weight: '50 tonnes',
+      shipment: exportShipment,
       containers: '2 × 20ft FCL',
       shippingLine: 'COSCO',
-      vesselType: 'Container ship',
-      emissionFactor: '0.01 kg CO2e/tonne-km sea',
-    },
-  },
-  {
-    name: 'Port Transport - Factory to Laem Chabang',
-    description: 'Truck transport from factory to export port',
-    scope: 'scope3',
-    scope3Category: 'downstream_transport',
-    activityType: 'downstream_transport',
-    quantity: 5000,
-    unit: 'tonne_km',
-    source: 'Logistics provider invoice',
-    facility: 'Export',
-    dataQualityScore: 4,
-    metadata: {
-      distance: '100 km',
-      weight: '50 tonnes',
-      mode: 'Truck',
-      emissionFactor: '0.1 kg CO2e/tonne-km road',
     },
   },
   {
@@ -882,7 +890,7 @@ async function seedSugarFactory() {
       await db.query(
         `INSERT INTO grid_emission_factors (id, country, region, grid_name, year, location_based_ef, source, effective_date, is_active)
          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, true)
-         ON CONFLICT (country, region, year) DO UPDATE SET location_based_ef = $6, source = $7`,
+         ON CONFLICT (country, region, year) WHERE superseded_at IS NULL AND dataset_id IS NULL DO UPDATE SET location_based_ef = $6, source = $7`,
         [generateId(), gef.country, gef.region, gef.region, gef.year, gef.factor, gef.source, `${gef.year}-01-01`]
       );
     }
@@ -195,7 +195,7 @@ async function seed() {
       await db.query(
         `INSERT INTO grid_emission_factors (id, country, region, grid_name, year, location_based_ef, source, effective_date)
          VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-         ON CONFLICT (country, region, year) DO UPDATE SET location_based_ef = $6`,
+         ON CONFLICT (country, region, year) WHERE superseded_at IS NULL AND dataset_id IS NULL DO UPDATE SET location_based_ef = $6`,
         [generateId(), gef.country, gef.region, gef.region, gef.year, gef.factor, gef.source, `${gef.year}-01-01`]
       );
     }
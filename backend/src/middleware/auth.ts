@@ -3,7 +3,7 @@ import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
 import { config } from '../config';
 import { UnauthorizedError, ForbiddenError } from './errorHandler';
-import { AuthPayload, UserRole } from '../types';
+import { AuthPayload, UserRole, SupplierInviteContext } from '../types';
 import { logger } from '../utils/logger';
 
 // Simplified User type for token generation
@@ -22,6 +22,7 @@ declare global {
   namespace Express {
     interface Request {
       user?: AuthPayload;
+      supplierInvite?: SupplierInviteContext;
     }
   }
 }
@@ -167,6 +168,25 @@ export const authorizeProjectOwner = (projectIdParam: string = 'projectId') => {
   };
 };
 
+/**
+ * Supplier portal authentication - resolves the invite token in the URL.
+ * The invite only opens one supplier's submission form, never user routes.
+ */
+export const authenticateSupplierInvite = (tokenParam: string = 'token') => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      // Import here to avoid circular dependency
+      const { resolveInvite } = await import('../services/supplierService');
+
+      req.supplierInvite = await resolveInvite(req.params[tokenParam]);
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
 /**
  * Generate JWT tokens
  */
@@ -57,6 +57,12 @@ export class ValidationError extends AppError {
   }
 }
 
+export class UnitConversionError extends AppError {
+  constructor(message: string = 'Incompatible units') {
+    super(message, 422, 'UNIT_CONVERSION_ERROR');
+  }
+}
+
 export class InternalServerError extends AppError {
   constructor(message: string = 'Internal Server Error') {
     super(message, 500, 'INTERNAL_ERROR');
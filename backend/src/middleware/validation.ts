@@ -66,6 +66,12 @@ export const countryCodeSchema = z
   .toUpperCase()
   .regex(/^[A-Z]{2}$/, 'Invalid country code');
 
+// CN code validation (8 digits, spaces and dots allowed as in "7208 10 00")
+export const cnCodeSchema = z
+  .string()
+  .transform((code) => code.replace(/[\s.]/g, ''))
+  .refine((code) => /^\d{8}$/.test(code), 'CN code must have 8 digits');
+
 // Email validation
 export const emailSchema = z.string().email('Invalid email format');
 
@@ -77,6 +83,8 @@ const reportingStandardEnum = z.enum([
   'eu_cbam', 'uk_cbam', 'china_carbon_market', 'k_esg', 'maff_esg', 'thai_esg'
 ]);
 
+const gwpSetEnum = z.enum(['AR4', 'AR5', 'AR6']);
+
 const projectBaseSchema = z.object({
   name: z.string().min(1).max(255),
   description: z.string().max(1000).optional().nullable(),
@@ -87,6 +95,7 @@ const projectBaseSchema = z.object({
   reportingStandards: z.array(reportingStandardEnum).default([]),
   baselineYear: yearSchema,
   reportingYear: yearSchema,
+  gwpSet: gwpSetEnum.optional(),
   settings: z.record(z.any()).optional(),
 });
 
@@ -115,7 +124,15 @@ export const createActivitySchema = z.object({
   tierDirection: z.enum(['upstream', 'downstream', 'both']).default('both'),
   dataSource: z.string().max(255).optional().nullable(),
   dataQualityScore: z.coerce.number().min(1).max(5).optional().nullable(),
+  calculationMethod: z.enum(['spend_based', 'average_data', 'supplier_specific']).optional().nullable(),
   metadata: z.record(z.any()).optional().nullable(),
+  entityId: uuidSchema.optional().nullable(), // organizational entity (consolidation)
+  facilityId: uuidSchema.optional().nullable(), // site; locates grid factors
+  productId: uuidSchema.optional().nullable(), // product the emissions belong to (CFP)
+  processId: uuidSchema.optional().nullable(), // or a shared process, split across its outputs
+  // CBAM goods: material and route are derived from the CN code
+  cnCode: cnCodeSchema.optional(),
+  productionRoute: z.string().max(100).optional(),
 });
 
 export const updateActivitySchema = createActivitySchema.partial().omit({ projectId: true });
@@ -134,23 +151,53 @@ export const activityFilterSchema = z.object({
 // ============================================================================
 
 export const calculateCFPSchema = z.object({
-  projectId: uuidSchema,
+  projectId: uuidSchema.optional(), // Optional when in URL params
   productId: z.string().optional(),
   productionQuantity: z.coerce.number().positive().optional(),
   productionUnit: z.string().optional(),
+  // Whole-project footprint, used while the project has no products
+  productName: z.string().max(255).optional(),
+  functionalUnit: z.string().max(255).optional(),
+  productionVolume: z.coerce.number().positive().optional(),
+  // Default for shared processes without a method of their own
+  allocationMethod: z.enum(['mass', 'energy', 'economic', 'substitution']).optional(),
+  includeBiogenic: z.boolean().optional(),
+  // Products to footprint; all of the project's products by default
+  productIds: z.array(uuidSchema).min(1).optional(),
 });
 
+const consolidationMethodEnum = z.enum(['equity_share', 'financial_control', 'operational_control']);
+
 export const calculateCFOSchema = z.object({
   projectId: uuidSchema,
   organizationId: z.string().optional(),
+  organizationName: z.string().max(255).optional(),
+  consolidationMethod: consolidationMethodEnum.optional(),
+  operationalBoundary: z.string().max(255).optional(),
+  reportingYear: yearSchema.optional(),
+  includeUncertainty: z.boolean().optional(),
+});
+
+export const uncertaintyAnalysisSchema = z.object({
+  consolidationMethod: consolidationMethodEnum.optional(),
+  iterations: z.coerce.number().int().min(100).max(100000).default(10000),
+  seed: z.coerce.number().int().nonnegative().optional(),
+  topContributors: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+export const recalculateGWPSchema = z.object({
+  gwpSet: gwpSetEnum.optional(),
 });
 
 export const calculatePrecursorsSchema = z.object({
   projectId: uuidSchema,
   goods: z.array(z.object({
-    material: z.enum(['cement', 'iron_steel', 'aluminium', 'fertilizers', 'hydrogen', 'electricity']),
-    productionRoute: z.string(),
+    material: z.enum(['cement', 'iron_steel', 'aluminium', 'fertilizers', 'hydrogen', 'electricity']).optional(),
+    cnCode: cnCodeSchema.optional(),
+    productionRoute: z.string().optional(),
     quantity: z.coerce.number().positive(),
+  }).refine((good) => good.material || good.cnCode, {
+    message: 'Either material or cnCode is required',
   })).min(1),
 });
 
@@ -163,7 +210,7 @@ export const batchReportSchema = z.object({
   standards: z.array(z.enum([
     'EU_CBAM', 'UK_CBAM', 'CHINA_CARBON', 'JAPAN_MAFF', 'KOREA_KESG', 'THAILAND_ESG'
   ])).min(1),
-  formats: z.array(z.enum(['pdf', 'xlsx'])).min(1),
+  formats: z.array(z.enum(['pdf', 'xlsx', 'xml'])).min(1),
   includeAuditTrail: z.boolean().default(false),
   signatureRequired: z.boolean().default(false),
 });
@@ -207,6 +254,581 @@ export const precursorFactorOverrideSchema = z.object({
   year: yearSchema,
 });
 
+const currencySchema = z.string().length(3).transform((code) => code.toUpperCase());
+
+export const importEEIOFactorSetSchema = z.object({
+  name: z.string().min(1).max(255),
+  version: z.string().min(1).max(50),
+  source: z.string().max(255).optional(),
+  region: z.string().max(100).optional(),
+  currency: currencySchema,
+  baseYear: yearSchema,
+  priceBasis: z.enum(['purchaser', 'basic']).default('purchaser'),
+  description: z.string().max(2000).optional(),
+  isDefault: z.boolean().default(false),
+  factors: z.array(z.object({
+    sectorCode: z.string().min(1).max(50),
+    sectorName: z.string().max(500).optional(),
+    factor: z.coerce.number().min(0),
+  })).min(1),
+});
+
+export const upsertFxRatesSchema = z.object({
+  rates: z.array(z.object({
+    currency: currencySchema,
+    year: yearSchema,
+    unitsPerUsd: z.coerce.number().positive(),
+    source: z.string().max(255).optional(),
+  })).min(1),
+});
+
+export const upsertPriceIndicesSchema = z.object({
+  indices: z.array(z.object({
+    currency: currencySchema,
+    year: yearSchema,
+    value: z.coerce.number().positive(),
+    source: z.string().max(255).optional(),
+  })).min(1),
+});
+
+export const createFactorDatasetSchema = z.object({
+  name: z.string().min(1).max(255),
+  version: z.string().min(1).max(50),
+  publisher: z.string().max(255).optional(),
+  sourceUrl: z.string().url().max(500).optional(),
+  description: z.string().max(2000).optional(),
+});
+
+export const bulkImportEmissionFactorsSchema = z.object({
+  type: z.enum(['standard', 'grid', 'precursor']).default('standard'),
+  datasetId: uuidSchema.optional(),
+  factors: z.array(z.record(z.any())).min(1),
+});
+
+// ============================================================================
+// SCOPE 2 VALIDATION SCHEMAS
+// ============================================================================
+
+const contractualInstrumentBaseSchema = z.object({
+  type: z.enum(['ppa', 'rec', 'i_rec', 'goo']),
+  name: z.string().max(255).optional().nullable(),
+  supplier: z.string().max(255).optional().nullable(),
+  volume: z.coerce.number().positive(),
+  volumeUnit: z.string().min(1).max(20).default('MWh'),
+  emissionFactor: z.coerce.number().min(0).max(10).default(0),
+  energySource: z.string().max(50).optional().nullable(),
+  reportingYear: yearSchema,
+  country: z.string().min(1).max(100),
+  vintageYear: yearSchema.optional().nullable(),
+  certificateIds: z.array(z.string().min(1).max(255)).default([]),
+  trackingSystem: z.string().max(100).optional().nullable(),
+  retired: z.boolean().default(false),
+  retirementDate: dateSchema.optional().nullable(),
+  notes: z.string().max(1000).optional().nullable(),
+  metadata: z.record(z.any()).optional(),
+});
+
+export const createContractualInstrumentSchema = contractualInstrumentBaseSchema;
+
+export const updateContractualInstrumentSchema = contractualInstrumentBaseSchema.partial();
+
+export const residualMixFactorSchema = z.object({
+  country: z.string().min(1).max(100),
+  year: yearSchema,
+  factorKgCo2ePerKwh: z.coerce.number().min(0).max(10),
+  source: z.string().min(1).max(255),
+  sourceUrl: z.string().url().max(500).optional().nullable(),
+  notes: z.string().max(1000).optional().nullable(),
+});
+
+// ============================================================================
+// CBAM INSTALLATION VALIDATION SCHEMAS
+// ============================================================================
+
+const cbamGoodsCategoryEnum = z.enum([
+  'calcined_clay', 'cement_clinker', 'cement', 'aluminous_cement', 'hydrogen',
+  'ammonia', 'nitric_acid', 'urea', 'mixed_fertilisers', 'sintered_ore',
+  'pig_iron', 'ferro_manganese', 'ferro_chromium', 'ferro_nickel', 'dri',
+  'crude_steel', 'iron_steel_products', 'unwrought_aluminium', 'aluminium_products', 'electricity',
+]);
+
+const cbamInstallationBaseSchema = z.object({
+  name: z.string().min(1).max(255),
+  registryId: z.string().max(70).optional().nullable(),
+  operatorId: z.string().max(70).optional().nullable(),
+  operatorName: z.string().max(255).optional().nullable(),
+  country: countryCodeSchema,
+  city: z.string().max(100).optional().nullable(),
+  street: z.string().max(255).optional().nullable(),
+  postCode: z.string().max(20).optional().nullable(),
+  supplierName: z.string().max(255).optional().nullable(),
+  metadata: z.record(z.any()).optional(),
+});
+
+export const createCBAMInstallationSchema = cbamInstallationBaseSchema;
+
+export const updateCBAMInstallationSchema = cbamInstallationBaseSchema.partial();
+
+const cbamProcessBaseSchema = z.object({
+  name: z.string().min(1).max(255),
+  goodsCategory: cbamGoodsCategoryEnum,
+  cnCodes: z.array(cnCodeSchema).default([]),
+  productionRoute: z.string().max(100).optional().nullable(),
+  reportingYear: yearSchema,
+  activityLevel: z.coerce.number().positive(),
+  directEmissions: z.record(z.coerce.number().min(0)).default({}),
+  heatImportedTj: z.coerce.number().min(0).optional(),
+  heatExportedTj: z.coerce.number().min(0).optional(),
+  heatEmissionFactor: z.coerce.number().min(0).optional().nullable(),
+  electricityConsumedMwh: z.coerce.number().min(0).optional(),
+  electricityExportedMwh: z.coerce.number().min(0).optional(),
+  electricityEmissionFactor: z.coerce.number().min(0).max(5).optional().nullable(),
+  precursors: z.array(z.object({
+    goodsCategory: cbamGoodsCategoryEnum,
+    consumedTonnes: z.coerce.number().positive(),
+    fromProcessId: uuidSchema.optional(),
+    seeDirect: z.coerce.number().min(0).optional(),
+    seeIndirect: z.coerce.number().min(0).optional(),
+    source: z.string().max(255).optional(),
+  })).default([]),
+  metadata: z.record(z.any()).optional(),
+});
+
+export const createCBAMProcessSchema = cbamProcessBaseSchema;
+
+export const updateCBAMProcessSchema = cbamProcessBaseSchema.partial();
+
+export const importOperatorTemplateSchema = z.object({
+  supplierName: z.string().min(1).max(255),
+});
+
+// ============================================================================
+// SUPPLIER PORTAL VALIDATION SCHEMAS
+// ============================================================================
+
+const supplierSubmissionTypeEnum = z.enum(['product_footprint', 'activity_data']);
+
+const supplierBaseSchema = z.object({
+  name: z.string().min(1).max(255),
+  contactName: z.string().max(255).optional().nullable(),
+  contactEmail: emailSchema.optional().nullable(),
+  country: countryCodeSchema.optional().nullable(),
+  supplierTier: z.coerce.number().int().min(1).max(10).default(1),
+  metadata: z.record(z.any()).optional(),
+});
+
+export const createSupplierSchema = supplierBaseSchema;
+
+export const updateSupplierSchema = supplierBaseSchema.partial();
+
+export const createSupplierInviteSchema = z.object({
+  submissionTypes: z.array(supplierSubmissionTypeEnum).min(1).default(['product_footprint', 'activity_data']),
+  reportingYear: yearSchema.optional(), // defaults to the project's reporting year
+  message: z.string().max(2000).optional(),
+  expiresInDays: z.coerce.number().int().min(1).max(365).optional(),
+});
+
+// Submitted by suppliers through an invite link
+export const supplierSubmissionSchema = z.discriminatedUnion('submissionType', [
+  z.object({
+    submissionType: z.literal('product_footprint'),
+    productName: z.string().min(1).max(255),
+    productCode: z.string().max(100).optional(),
+    declaredUnit: z.string().min(1).max(50),
+    pcfKgCo2ePerUnit: z.coerce.number().min(0),
+    quantity: z.coerce.number().positive(),
+    methodology: z.string().max(100).optional(),
+    primaryDataShare: z.coerce.number().min(0).max(100).optional(),
+    verified: z.boolean().optional(),
+    notes: z.string().max(2000).optional(),
+  }),
+  z.object({
+    submissionType: z.literal('activity_data'),
+    activityType: z.string().min(1).max(100),
+    description: z.string().max(1000).optional(),
+    quantity: z.coerce.number().positive(),
+    unit: z.string().min(1).max(50),
+    scope3Category: z.string().max(100).optional(),
+    notes: z.string().max(2000).optional(),
+  }),
+]);
+
+export const reviewSupplierSubmissionSchema = z.object({
+  status: z.enum(['accepted', 'rejected']),
+  reviewNote: z.string().max(2000).optional(),
+  tierLevel: z.enum(['tier2', 'tier3']).optional(),
+  scope3Category: z.string().max(100).optional(),
+}).refine((data) => data.status === 'accepted' || !!data.reviewNote, {
+  message: 'A review note is required when rejecting a submission',
+  path: ['reviewNote'],
+});
+
+// ============================================================================
+// TRANSPORT VALIDATION SCHEMAS
+// ============================================================================
+
+const transportLocationSchema = z.union([
+  z.string().min(3).max(10),
+  z.object({
+    name: z.string().min(1).max(255),
+    lat: z.coerce.number().min(-90).max(90),
+    lon: z.coerce.number().min(-180).max(180),
+  }),
+]);
+
+export const shipmentSchema = z.object({
+  origin: transportLocationSchema,
+  destination: transportLocationSchema,
+  weightTonnes: z.coerce.number().positive(),
+  legs: z.array(z.object({
+    mode: z.enum(['road', 'rail', 'sea', 'inland_waterway', 'air']),
+    vehicleType: z.string().max(50).optional(),
+    from: transportLocationSchema.optional(),
+    to: transportLocationSchema.optional(),
+    distanceKm: z.coerce.number().positive().optional(),
+    loadFactor: z.coerce.number().gt(0).max(1).optional(),
+    emptyReturn: z.boolean().optional(),
+    emissionIntensity: z.coerce.number().min(0).optional(),
+  })).min(1).max(10),
+});
+
+export const createShipmentSchema = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().max(1000).optional().nullable(),
+  direction: z.enum(['upstream', 'downstream']),
+  source: z.string().max(255).optional().nullable(),
+  shipment: shipmentSchema,
+  metadata: z.record(z.any()).optional(),
+});
+
+// ============================================================================
+// ORGANIZATIONAL ENTITY VALIDATION SCHEMAS
+// ============================================================================
+
+const entityBaseSchema = z.object({
+  name: z.string().min(1).max(255),
+  parentId: uuidSchema.optional().nullable(),
+  entityType: z.enum(['subsidiary', 'joint_venture', 'associate', 'division', 'facility']),
+  country: z.string().max(100).optional().nullable(),
+  ownershipPercent: z.coerce.number().min(0).max(100).default(100),
+  financialControl: z.boolean().default(true),
+  operationalControl: z.boolean().default(true),
+  metadata: z.record(z.any()).optional(),
+});
+
+export const createEntitySchema = entityBaseSchema;
+
+export const updateEntitySchema = entityBaseSchema.partial();
+
+export const consolidationQuerySchema = z.object({
+  method: consolidationMethodEnum.optional(),
+});
+
+// ============================================================================
+// FACILITY VALIDATION SCHEMAS
+// ============================================================================
+
+const facilityBaseSchema = z.object({
+  name: z.string().min(1).max(255),
+  entityId: uuidSchema.optional().nullable(),
+  code: z.string().max(50).optional().nullable(),
+  address: z.string().max(1000).optional().nullable(),
+  city: z.string().max(100).optional().nullable(),
+  country: z.string().min(1).max(100),
+  gridRegion: z.string().max(100).optional().nullable(),
+  latitude: z.coerce.number().min(-90).max(90).optional().nullable(),
+  longitude: z.coerce.number().min(-180).max(180).optional().nullable(),
+  operationalFrom: dateSchema.optional().nullable(),
+  operationalTo: dateSchema.optional().nullable(),
+  metadata: z.record(z.any()).optional(),
+});
+
+export const createFacilitySchema = facilityBaseSchema.refine(
+  (data) => !data.operationalFrom || !data.operationalTo || data.operationalFrom <= data.operationalTo,
+  { message: 'operationalFrom must be on or before operationalTo', path: ['operationalTo'] }
+);
+
+export const updateFacilitySchema = facilityBaseSchema.partial();
+
+// ============================================================================
+// PRODUCT VALIDATION SCHEMAS
+// ============================================================================
+
+const lifecycleStageEnum = z.enum(['rawMaterials', 'production', 'distribution', 'use', 'endOfLife']);
+
+const allocationMethodEnum = z.enum(['mass', 'energy', 'economic', 'substitution']);
+
+const billOfMaterialsLineSchema = z.object({
+  name: z.string().min(1).max(255),
+  quantity: z.coerce.number().positive(), // per declared unit of the product
+  unit: z.string().max(50).optional().nullable(),
+  componentProductId: uuidSchema.optional().nullable(), // another product of the project
+});
+
+const productBaseSchema = z.object({
+  name: z.string().min(1).max(255),
+  code: z.string().max(100).optional().nullable(),
+  declaredUnit: z.string().min(1).max(50),
+  functionalUnit: z.string().max(255).optional().nullable(),
+  annualOutput: z.coerce.number().positive(),
+  massPerUnitKg: z.coerce.number().positive().optional().nullable(),
+  // Allocation keys per declared unit
+  energyMjPerUnit: z.coerce.number().positive().optional().nullable(),
+  pricePerUnit: z.coerce.number().positive().optional().nullable(),
+  priceCurrency: currencySchema.optional().nullable(),
+  // Footprint of what the product displaces, for system expansion
+  substitutionKgCo2ePerUnit: z.coerce.number().min(0).optional().nullable(),
+  billOfMaterials: z.array(billOfMaterialsLineSchema).default([]),
+  metadata: z.record(z.any()).optional(),
+});
+
+export const createProductSchema = productBaseSchema;
+
+export const updateProductSchema = productBaseSchema.partial();
+
+const processBaseSchema = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().max(2000).optional().nullable(),
+  lifecycleStage: lifecycleStageEnum.optional().nullable(),
+  sequence: z.coerce.number().int().min(0).default(0),
+  outputs: z.array(z.object({
+    productId: uuidSchema,
+    quantity: z.coerce.number().positive(), // in the product's declared unit
+  })).default([]),
+  allocationMethod: allocationMethodEnum.optional().nullable(),
+  allocationJustification: z.string().max(2000).optional().nullable(),
+  metadata: z.record(z.any()).optional(),
+});
+
+export const createProcessSchema = processBaseSchema;
+
+export const updateProcessSchema = processBaseSchema.partial();
+
+// ============================================================================
+// BASE YEAR VALIDATION SCHEMAS
+// ============================================================================
+
+export const baseYearPolicySchema = z.object({
+  significanceThresholdPercent: z.coerce.number().min(0).max(100).optional(),
+  cumulative: z.boolean().optional(),
+});
+
+// Impacts in kgCO2e on the base-year inventory: positive adds, negative removes
+export const createBaseYearChangeSchema = z.object({
+  changeType: z.enum(['acquisition', 'divestment', 'outsourcing', 'insourcing', 'methodology_change', 'error_correction']),
+  description: z.string().min(1).max(1000),
+  effectiveDate: dateSchema.optional().nullable(),
+  entityId: uuidSchema.optional().nullable(),
+  existedInBaseYear: z.boolean().default(true),
+  impact: z.object({
+    scope1: z.coerce.number().default(0),
+    scope2Location: z.coerce.number().default(0),
+    scope2Market: z.coerce.number().optional(), // defaults to the location-based impact
+    scope3: z.coerce.number().default(0),
+  }),
+});
+
+export const restateBaseYearSchema = z.object({
+  reason: z.string().max(1000).optional(),
+  force: z.boolean().default(false),
+});
+
+// ============================================================================
+// EMISSION TARGET VALIDATION SCHEMAS
+// ============================================================================
+
+const targetBaseSchema = z.object({
+  name: z.string().min(1).max(255),
+  targetType: z.enum(['absolute', 'intensity']).default('absolute'),
+  scopes: z.array(z.enum(['scope1', 'scope2', 'scope3'])).min(1).default(['scope1', 'scope2']),
+  scope2Method: z.enum(['location', 'market']).default('market'),
+  baseYear: z.coerce.number().int().min(1990).max(2100),
+  targetYear: z.coerce.number().int().min(1990).max(2100),
+  pathway: z.enum(['sbti_1_5c', 'sbti_wb2c', 'custom']).default('sbti_1_5c'),
+  reductionPercent: z.coerce.number().min(0).max(100).optional(), // defaults to the SBTi pathway minimum
+  intensityUnit: z.string().max(100).optional().nullable(),
+  intensityDenominators: z.record(z.string().regex(/^\d{4}$/), z.coerce.number().positive()).optional(),
+  metadata: z.record(z.any()).optional(),
+});
+
+export const createTargetSchema = targetBaseSchema.refine((data) => data.targetYear > data.baseYear, {
+  message: 'Target year must be after the base year',
+  path: ['targetYear'],
+});
+
+export const updateTargetSchema = targetBaseSchema.partial();
+
+// ============================================================================
+// REDUCTION INITIATIVE VALIDATION SCHEMAS
+// ============================================================================
+
+const initiativeBaseSchema = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().max(2000).optional().nullable(),
+  status: z.enum(['planned', 'approved', 'implemented', 'cancelled']).default('planned'),
+  activityIds: z.array(uuidSchema).default([]),
+  categories: z.array(z.string().min(1).max(100)).default([]), // activity types or Scope 3 categories
+  annualAbatementTCo2e: z.coerce.number().positive(),
+  capex: z.coerce.number().min(0).default(0),
+  annualOpex: z.coerce.number().default(0), // negative for savings
+  currency: currencySchema.default('USD'),
+  lifetimeYears: z.coerce.number().int().min(1).max(100),
+  startYear: z.coerce.number().int().min(1990).max(2100),
+  metadata: z.record(z.any()).optional(),
+});
+
+export const createInitiativeSchema = initiativeBaseSchema;
+
+export const updateInitiativeSchema = initiativeBaseSchema.partial();
+
+// ============================================================================
+// SCENARIO VALIDATION SCHEMAS
+// ============================================================================
+
+const scenarioMatchSchema = z.object({
+  activityIds: z.array(uuidSchema).optional(),
+  activityTypes: z.array(z.string().min(1).max(100)).optional(),
+  scopes: z.array(z.enum(['scope1', 'scope2', 'scope3'])).optional(),
+  scope3Categories: z.array(z.string().min(1).max(100)).optional(),
+  facilityIds: z.array(uuidSchema).optional(),
+});
+
+const scenarioAdjustmentSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('grid_factor'),
+    label: z.string().max(255).optional(),
+    country: z.string().max(100).optional(),
+    factorKgCo2ePerKwh: z.coerce.number().min(0),
+    match: scenarioMatchSchema.optional(),
+  }),
+  z.object({
+    type: z.literal('fuel_switch'),
+    label: z.string().max(255).optional(),
+    fromActivityType: z.string().min(1).max(100),
+    toActivityType: z.string().min(1).max(100),
+    toUnit: z.string().max(50).optional(),
+    conversionRatio: z.coerce.number().positive().optional(), // new-fuel units per old-fuel unit
+    match: scenarioMatchSchema.optional(),
+  }),
+  z.object({
+    type: z.literal('renewable_share'),
+    label: z.string().max(255).optional(),
+    country: z.string().max(100).optional(),
+    targetPercent: z.coerce.number().min(0).max(100),
+  }),
+  z.object({
+    type: z.literal('supplier_change'),
+    label: z.string().max(255).optional(),
+    supplierName: z.string().min(1).max(255),
+    factorKgCo2ePerUnit: z.coerce.number().min(0),
+    unit: z.string().max(50).optional(), // unit the factor is per; defaults to the activity unit
+    match: scenarioMatchSchema.refine((match) => Object.values(match).some((values) => values && values.length > 0), {
+      message: 'A supplier change must name the activities it applies to',
+    }),
+  }),
+  z.object({
+    type: z.literal('quantity_reduction'),
+    label: z.string().max(255).optional(),
+    percent: z.coerce.number().min(0).max(100),
+    match: scenarioMatchSchema.optional(),
+  }),
+]);
+
+const scenarioBaseSchema = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().max(2000).optional().nullable(),
+  reportingYear: z.coerce.number().int().min(1990).max(2100).optional(),
+  consolidationMethod: z.enum(['equity_share', 'financial_control', 'operational_control']).optional(),
+  adjustments: z.array(scenarioAdjustmentSchema).max(50).default([]),
+});
+
+export const createScenarioSchema = scenarioBaseSchema;
+
+export const updateScenarioSchema = scenarioBaseSchema.partial();
+
+// ============================================================================
+// CARBON CREDIT VALIDATION SCHEMAS
+// ============================================================================
+
+const creditBaseSchema = z.object({
+  registry: z.enum(['verra', 'gold_standard', 'ccer', 't_ver', 'j_credit', 'k_oc']),
+  registryProjectId: z.string().max(100).optional().nullable(),
+  projectName: z.string().max(255).optional().nullable(),
+  projectType: z.string().min(1).max(100),
+  creditType: z.enum(['avoidance', 'removal']).default('avoidance'),
+  vintage: yearSchema,
+  serialPrefix: z.string().max(255).default(''), // registry block the serial numbers run within
+  serialStart: z.coerce.number().int().min(0),
+  serialEnd: z.coerce.number().int().min(0),
+  quantity: z.coerce.number().int().positive().optional(), // checked against the serial range
+  purchaseDate: dateSchema.optional().nullable(),
+  pricePerCredit: z.coerce.number().min(0).optional().nullable(),
+  currency: currencySchema.optional().nullable(),
+  notes: z.string().max(1000).optional().nullable(),
+  metadata: z.record(z.any()).optional(),
+});
+
+export const createCreditSchema = creditBaseSchema
+  .refine((data) => data.serialEnd >= data.serialStart, {
+    message: 'serialEnd must not be before serialStart',
+    path: ['serialEnd'],
+  })
+  .refine((data) => data.quantity === undefined || data.quantity === data.serialEnd - data.serialStart + 1, {
+    message: 'Quantity must equal the number of serials in the range',
+    path: ['quantity'],
+  });
+
+export const updateCreditSchema = creditBaseSchema.partial();
+
+export const retireCreditSchema = z.object({
+  quantity: z.coerce.number().int().positive().optional(), // default: the whole block
+  retirementDate: dateSchema.optional(),
+  retiredForYear: yearSchema.optional(), // default: the project's reporting year
+  productId: uuidSchema.optional().nullable(),
+  beneficiary: z.string().max(255).optional().nullable(),
+});
+
+// ============================================================================
+// CHINA ETS VALIDATION SCHEMAS
+// ============================================================================
+
+const chinaEtsFuelSchema = z.object({
+  fuel: z.string().min(1).max(100),
+  consumption: z.coerce.number().min(0),
+  unit: z.string().min(1).max(20).default('t'),
+  ncvGjPerUnit: z.coerce.number().positive(),
+  carbonContentTCPerGj: z.coerce.number().positive().max(0.1),
+  oxidationRate: z.coerce.number().min(0).max(1).default(0.99),
+});
+
+const chinaEtsUnitBaseSchema = z.object({
+  facilityId: uuidSchema.optional().nullable(),
+  name: z.string().min(1).max(255),
+  unitCode: z.string().min(1).max(50),
+  unitType: z.enum([
+    'coal_above_300mw', 'coal_300mw_and_below', 'coal_unconventional', 'gas',
+    'cement_clinker', 'aluminium_electrolysis',
+  ]),
+  capacityMw: z.coerce.number().positive().optional().nullable(),
+  coolingType: z.enum(['water', 'air']).default('water'),
+  reportingYear: yearSchema,
+  powerSuppliedMwh: z.coerce.number().min(0).default(0),
+  heatSuppliedGj: z.coerce.number().min(0).default(0),
+  heatSupplyRatio: z.coerce.number().min(0).max(1).default(0),
+  loadFactor: z.coerce.number().min(0).max(1).optional().nullable(),
+  productionOutput: z.coerce.number().min(0).default(0),
+  benchmark: z.coerce.number().positive().optional().nullable(), // t CO2 per unit output
+  verifiedEmissionsTCo2: z.coerce.number().min(0).optional().nullable(),
+  purchasedElectricityMwh: z.coerce.number().min(0).default(0),
+  fuels: z.array(chinaEtsFuelSchema).max(20).default([]),
+  verifier: z.string().max(255).optional().nullable(),
+  metadata: z.record(z.any()).optional(),
+});
+
+export const createChinaEtsUnitSchema = chinaEtsUnitBaseSchema;
+
+export const updateChinaEtsUnitSchema = chinaEtsUnitBaseSchema.partial();
+
 // ============================================================================
 // SIGNATURE VALIDATION SCHEMAS
 // ============================================================================
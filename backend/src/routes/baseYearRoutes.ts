@@ -0,0 +1,73 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate, authorizeProjectOwner } from '../middleware/auth';
+import {
+  validate,
+  baseYearPolicySchema,
+  createBaseYearChangeSchema,
+  restateBaseYearSchema,
+} from '../middleware/validation';
+import * as baseYearController from '../controllers/baseYearController';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// ============================================================================
+// BASE YEAR RECALCULATION
+// ============================================================================
+
+// Base-year inventory, pending changes and recalculation assessment
+router.get(
+  '/project/:projectId',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(baseYearController.getBaseYear)
+);
+
+// Set the significance threshold
+router.put(
+  '/project/:projectId/policy',
+  authorizeProjectOwner('projectId'),
+  validate(baseYearPolicySchema),
+  asyncHandler(baseYearController.updatePolicy)
+);
+
+// List structural changes
+router.get(
+  '/project/:projectId/changes',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(baseYearController.getChanges)
+);
+
+// Record a structural change
+router.post(
+  '/project/:projectId/changes',
+  authorizeProjectOwner('projectId'),
+  validate(createBaseYearChangeSchema),
+  asyncHandler(baseYearController.createChange)
+);
+
+// Delete a pending change
+router.delete(
+  '/project/:projectId/changes/:changeId',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(baseYearController.deleteChange)
+);
+
+// List restatements
+router.get(
+  '/project/:projectId/restatements',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(baseYearController.getRestatements)
+);
+
+// Restate the base year with the pending changes
+router.post(
+  '/project/:projectId/restatements',
+  authorizeProjectOwner('projectId'),
+  validate(restateBaseYearSchema),
+  asyncHandler(baseYearController.restateBaseYear)
+);
+
+export default router;
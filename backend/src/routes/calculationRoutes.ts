@@ -5,7 +5,9 @@ import {
   validate, 
   calculateCFPSchema, 
   calculateCFOSchema,
-  calculatePrecursorsSchema 
+  calculatePrecursorsSchema,
+  recalculateGWPSchema,
+  uncertaintyAnalysisSchema
 } from '../middleware/validation';
 import * as calculationController from '../controllers/calculationController';
 
@@ -21,6 +23,13 @@ router.post(
   asyncHandler(calculationController.calculateActivity)
 );
 
+// Explain which emission factor an activity matches, with the ranked candidates
+router.get(
+  '/activity/:projectId/:activityId/factor-match',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(calculationController.explainActivityFactorMatch)
+);
+
 // Calculate all pending activities for a project
 router.post(
   '/project/:projectId/all',
@@ -35,6 +44,42 @@ router.get(
   asyncHandler(calculationController.getProjectTotals)
 );
 
+// Recalculate CO2e after switching GWP set (AR4/AR5/AR6)
+router.post(
+  '/project/:projectId/recalculate-gwp',
+  authorizeProjectOwner('projectId'),
+  validate(recalculateGWPSchema),
+  asyncHandler(calculationController.recalculateGWP)
+);
+
+// List calculation runs for a project
+router.get(
+  '/project/:projectId/runs',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(calculationController.getCalculationRuns)
+);
+
+// Get a calculation run with its pinned factors
+router.get(
+  '/project/:projectId/runs/:runId',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(calculationController.getCalculationRun)
+);
+
+// Replay a calculation run from its pinned factors
+router.post(
+  '/project/:projectId/runs/:runId/replay',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(calculationController.replayCalculationRun)
+);
+
+// Compare a calculation run with current factors
+router.get(
+  '/project/:projectId/runs/:runId/diff',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(calculationController.diffCalculationRun)
+);
+
 // Calculate CFP (Carbon Footprint Product)
 router.post(
   '/project/:projectId/cfp',
@@ -51,6 +96,14 @@ router.post(
   asyncHandler(calculationController.calculateCFO)
 );
 
+// Monte Carlo confidence intervals and sensitivity ranking
+router.post(
+  '/project/:projectId/uncertainty',
+  authorizeProjectOwner('projectId'),
+  validate(uncertaintyAnalysisSchema),
+  asyncHandler(calculationController.analyzeUncertainty)
+);
+
 // Calculate both CFP and CFO
 router.post(
   '/project/:projectId/both',
@@ -0,0 +1,124 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate, authorizeProjectOwner } from '../middleware/auth';
+import {
+  validate,
+  createCBAMInstallationSchema,
+  updateCBAMInstallationSchema,
+  createCBAMProcessSchema,
+  updateCBAMProcessSchema,
+  importOperatorTemplateSchema,
+} from '../middleware/validation';
+import * as cbamController from '../controllers/cbamController';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// ============================================================================
+// INSTALLATIONS
+// ============================================================================
+
+// List installations for a project
+router.get(
+  '/project/:projectId/installations',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(cbamController.getInstallations)
+);
+
+// Register an installation
+router.post(
+  '/project/:projectId/installations',
+  authorizeProjectOwner('projectId'),
+  validate(createCBAMInstallationSchema),
+  asyncHandler(cbamController.createInstallation)
+);
+
+// Update an installation
+router.put(
+  '/project/:projectId/installations/:installationId',
+  authorizeProjectOwner('projectId'),
+  validate(updateCBAMInstallationSchema),
+  asyncHandler(cbamController.updateInstallation)
+);
+
+// Delete an installation
+router.delete(
+  '/project/:projectId/installations/:installationId',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(cbamController.deleteInstallation)
+);
+
+// ============================================================================
+// PRODUCTION PROCESSES
+// ============================================================================
+
+// List production processes
+router.get(
+  '/project/:projectId/installations/:installationId/processes',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(cbamController.getProcesses)
+);
+
+// Add a production process
+router.post(
+  '/project/:projectId/installations/:installationId/processes',
+  authorizeProjectOwner('projectId'),
+  validate(createCBAMProcessSchema),
+  asyncHandler(cbamController.createProcess)
+);
+
+// Update a production process
+router.put(
+  '/project/:projectId/installations/:installationId/processes/:processId',
+  authorizeProjectOwner('projectId'),
+  validate(updateCBAMProcessSchema),
+  asyncHandler(cbamController.updateProcess)
+);
+
+// Delete a production process
+router.delete(
+  '/project/:projectId/installations/:installationId/processes/:processId',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(cbamController.deleteProcess)
+);
+
+// ============================================================================
+// EMBEDDED EMISSIONS
+// ============================================================================
+
+// Specific embedded emissions per goods category and CN code
+router.get(
+  '/project/:projectId/installations/:installationId/embedded-emissions',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(cbamController.getEmbeddedEmissions)
+);
+
+// ============================================================================
+// OPERATOR COMMUNICATION TEMPLATE
+// ============================================================================
+
+// Preview an uploaded supplier template with row-level errors
+router.post(
+  '/project/:projectId/operator-template/:fileId/parse',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(cbamController.parseOperatorTemplate)
+);
+
+// Import an uploaded supplier template as an installation
+router.post(
+  '/project/:projectId/operator-template/:fileId/import',
+  authorizeProjectOwner('projectId'),
+  validate(importOperatorTemplateSchema),
+  asyncHandler(cbamController.importOperatorTemplate)
+);
+
+// Export an installation as an operator template
+router.get(
+  '/project/:projectId/installations/:installationId/operator-template',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(cbamController.exportOperatorTemplate)
+);
+
+export default router;
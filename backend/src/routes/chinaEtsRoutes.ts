@@ -0,0 +1,75 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate, authorizeProjectOwner } from '../middleware/auth';
+import {
+  validate,
+  createChinaEtsUnitSchema,
+  updateChinaEtsUnitSchema,
+} from '../middleware/validation';
+import * as chinaEtsController from '../controllers/chinaEtsController';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// ============================================================================
+// ALLOCATION AND COMPLIANCE
+// ============================================================================
+
+// Benchmark allocation against verified emissions, with the CCER limit
+router.get(
+  '/project/:projectId/compliance',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(chinaEtsController.getCompliance)
+);
+
+// MEE monitoring plan tables
+router.get(
+  '/project/:projectId/monitoring-plan',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(chinaEtsController.getMonitoringPlan)
+);
+
+// MEE emissions report tables
+router.get(
+  '/project/:projectId/emissions-report',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(chinaEtsController.getEmissionsReport)
+);
+
+// ============================================================================
+// UNITS
+// ============================================================================
+
+// List units
+router.get(
+  '/project/:projectId/units',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(chinaEtsController.getUnits)
+);
+
+// Add a unit for a year
+router.post(
+  '/project/:projectId/units',
+  authorizeProjectOwner('projectId'),
+  validate(createChinaEtsUnitSchema),
+  asyncHandler(chinaEtsController.createUnit)
+);
+
+// Update a unit
+router.put(
+  '/project/:projectId/units/:unitId',
+  authorizeProjectOwner('projectId'),
+  validate(updateChinaEtsUnitSchema),
+  asyncHandler(chinaEtsController.updateUnit)
+);
+
+// Delete a unit
+router.delete(
+  '/project/:projectId/units/:unitId',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(chinaEtsController.deleteUnit)
+);
+
+export default router;
@@ -0,0 +1,70 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate, authorizeProjectOwner } from '../middleware/auth';
+import {
+  validate,
+  createCreditSchema,
+  updateCreditSchema,
+  retireCreditSchema,
+} from '../middleware/validation';
+import * as creditController from '../controllers/creditController';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// ============================================================================
+// LEDGER BALANCES
+// ============================================================================
+
+// Credits held and retired by registry and vintage
+router.get(
+  '/project/:projectId/summary',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(creditController.getCreditSummary)
+);
+
+// ============================================================================
+// CARBON CREDITS
+// ============================================================================
+
+// List the credit ledger
+router.get(
+  '/project/:projectId',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(creditController.getCredits)
+);
+
+// Record a block of credits
+router.post(
+  '/project/:projectId',
+  authorizeProjectOwner('projectId'),
+  validate(createCreditSchema),
+  asyncHandler(creditController.createCredit)
+);
+
+// Retire all or part of a block
+router.post(
+  '/project/:projectId/:creditId/retire',
+  authorizeProjectOwner('projectId'),
+  validate(retireCreditSchema),
+  asyncHandler(creditController.retireCredit)
+);
+
+// Update a held block
+router.put(
+  '/project/:projectId/:creditId',
+  authorizeProjectOwner('projectId'),
+  validate(updateCreditSchema),
+  asyncHandler(creditController.updateCredit)
+);
+
+// Delete a held block
+router.delete(
+  '/project/:projectId/:creditId',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(creditController.deleteCredit)
+);
+
+export default router;
@@ -1,4 +1,6 @@
 import { Router } from 'express';
+import multer from 'multer';
+import path from 'path';
 import { asyncHandler } from '../middleware/errorHandler';
 import { authenticate, authorizeProjectOwner } from '../middleware/auth';
 import { 
@@ -6,13 +8,35 @@ import {
   serpAPILookupSchema, 
   gridEFOverrideSchema,
   precursorFactorOverrideSchema,
+  importEEIOFactorSetSchema,
+  upsertFxRatesSchema,
+  upsertPriceIndicesSchema,
+  createFactorDatasetSchema,
+  bulkImportEmissionFactorsSchema,
   yearSchema,
   countryCodeSchema 
 } from '../middleware/validation';
+import { config } from '../config';
 import * as emissionFactorController from '../controllers/emissionFactorController';
 
 const router = Router();
 
+// Factor files are parsed in memory and never stored
+const factorFileUpload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (req, file, cb) => {
+    const ext = path.extname(file.originalname).toLowerCase();
+    if ((config.upload.allowedTypes as readonly string[]).includes(ext)) {
+      cb(null, true);
+    } else {
+      cb(new Error(`Invalid file type. Allowed types: ${config.upload.allowedTypes.join(', ')}`));
+    }
+  },
+  limits: {
+    fileSize: config.upload.maxFileSizeBytes,
+  },
+});
+
 // All routes require authentication
 router.use(authenticate);
 
@@ -86,6 +110,119 @@ router.delete(
   asyncHandler(emissionFactorController.deletePrecursorOverride)
 );
 
+// ============================================================================
+// CBAM CN CODES
+// ============================================================================
+
+// Search the CN code catalogue
+router.get(
+  '/cn-codes',
+  asyncHandler(emissionFactorController.searchCnCodes)
+);
+
+// Get material, routes and precursors for a CN code
+router.get(
+  '/cn-codes/:code',
+  asyncHandler(emissionFactorController.getCnCode)
+);
+
+// ============================================================================
+// SPEND-BASED (EEIO) FACTORS
+// ============================================================================
+
+// List EEIO factor sets
+router.get(
+  '/spend/eeio-sets',
+  asyncHandler(emissionFactorController.getEEIOFactorSets)
+);
+
+// Load an EEIO factor set (a name and version can only be loaded once)
+router.post(
+  '/spend/eeio-sets',
+  validate(importEEIOFactorSetSchema),
+  asyncHandler(emissionFactorController.importEEIOFactorSet)
+);
+
+// List sector factors of a set
+router.get(
+  '/spend/eeio-sets/:setId/factors',
+  asyncHandler(emissionFactorController.getEEIOFactors)
+);
+
+// Delete an EEIO factor set
+router.delete(
+  '/spend/eeio-sets/:setId',
+  asyncHandler(emissionFactorController.deleteEEIOFactorSet)
+);
+
+// Exchange rates
+router.get(
+  '/spend/fx-rates',
+  asyncHandler(emissionFactorController.getFxRates)
+);
+
+router.put(
+  '/spend/fx-rates',
+  validate(upsertFxRatesSchema),
+  asyncHandler(emissionFactorController.upsertFxRates)
+);
+
+// Price indices
+router.get(
+  '/spend/price-indices',
+  asyncHandler(emissionFactorController.getPriceIndices)
+);
+
+router.put(
+  '/spend/price-indices',
+  validate(upsertPriceIndicesSchema),
+  asyncHandler(emissionFactorController.upsertPriceIndices)
+);
+
+// ============================================================================
+// FACTOR DATASETS (versioning)
+// ============================================================================
+
+// List factor datasets
+router.get(
+  '/datasets',
+  asyncHandler(emissionFactorController.getFactorDatasets)
+);
+
+// Create a draft dataset
+router.post(
+  '/datasets',
+  validate(createFactorDatasetSchema),
+  asyncHandler(emissionFactorController.createFactorDataset)
+);
+
+// Publish a draft dataset, freezing its factors
+router.post(
+  '/datasets/:datasetId/publish',
+  asyncHandler(emissionFactorController.publishFactorDataset)
+);
+
+// Preview a published factor file (desnz, epa_hub, ipcc_efdb, tgo) without saving
+router.post(
+  '/import/:format/preview',
+  factorFileUpload.single('file'),
+  asyncHandler(emissionFactorController.previewFactorFile)
+);
+
+// Load a published factor file into a draft dataset
+router.post(
+  '/datasets/:datasetId/import/:format',
+  factorFileUpload.single('file'),
+  asyncHandler(emissionFactorController.importFactorFile)
+);
+
+// Bulk import factors, optionally into a draft dataset
+router.post(
+  '/import',
+  validate(bulkImportEmissionFactorsSchema),
+  asyncHandler(emissionFactorController.bulkImportEmissionFactors)
+);
+
 // ============================================================================
 // STANDARD EMISSION FACTORS
 // ============================================================================
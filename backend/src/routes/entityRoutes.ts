@@ -0,0 +1,59 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate, authorizeProjectOwner } from '../middleware/auth';
+import {
+  validate,
+  createEntitySchema,
+  updateEntitySchema,
+  consolidationQuerySchema,
+} from '../middleware/validation';
+import * as entityController from '../controllers/entityController';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// ============================================================================
+// ORGANIZATIONAL ENTITIES
+// ============================================================================
+
+// List entities of a project with their consolidation shares
+router.get(
+  '/project/:projectId',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(entityController.getEntities)
+);
+
+// Add an entity
+router.post(
+  '/project/:projectId',
+  authorizeProjectOwner('projectId'),
+  validate(createEntitySchema),
+  asyncHandler(entityController.createEntity)
+);
+
+// Preview the consolidated inventory under an approach
+router.get(
+  '/project/:projectId/consolidation',
+  authorizeProjectOwner('projectId'),
+  validate(consolidationQuerySchema, 'query'),
+  asyncHandler(entityController.getConsolidation)
+);
+
+// Update an entity
+router.put(
+  '/project/:projectId/:entityId',
+  authorizeProjectOwner('projectId'),
+  validate(updateEntitySchema),
+  asyncHandler(entityController.updateEntity)
+);
+
+// Delete an entity
+router.delete(
+  '/project/:projectId/:entityId',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(entityController.deleteEntity)
+);
+
+export default router;
@@ -0,0 +1,57 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate, authorizeProjectOwner } from '../middleware/auth';
+import {
+  validate,
+  createFacilitySchema,
+  updateFacilitySchema,
+} from '../middleware/validation';
+import * as facilityController from '../controllers/facilityController';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// ============================================================================
+// FACILITIES
+// ============================================================================
+
+// List facilities of a project
+router.get(
+  '/project/:projectId',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(facilityController.getFacilities)
+);
+
+// Add a facility
+router.post(
+  '/project/:projectId',
+  authorizeProjectOwner('projectId'),
+  validate(createFacilitySchema),
+  asyncHandler(facilityController.createFacility)
+);
+
+// Grid emission factor at the facility's grid region
+router.get(
+  '/project/:projectId/:facilityId/grid-factor',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(facilityController.getFacilityGridFactor)
+);
+
+// Update a facility
+router.put(
+  '/project/:projectId/:facilityId',
+  authorizeProjectOwner('projectId'),
+  validate(updateFacilitySchema),
+  asyncHandler(facilityController.updateFacility)
+);
+
+// Delete a facility
+router.delete(
+  '/project/:projectId/:facilityId',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(facilityController.deleteFacility)
+);
+
+export default router;
@@ -59,12 +59,13 @@ const apiDocumentation = {
       { method: 'GET', path: '/projects/:id', description: 'Get project details', auth: true },
       { method: 'PUT', path: '/projects/:id', description: 'Update project', auth: true },
       { method: 'DELETE', path: '/projects/:id', description: 'Archive project', auth: true },
-      { method: 'GET', path: '/projects/:id/summary', description: 'Get project dashboard summary', auth: true },
+      { method: 'GET', path: '/projects/:id/summary', description: 'Get project dashboard summary, with totals per facility', auth: true },
       { method: 'POST', path: '/projects/:id/clone', description: 'Clone project for new period', auth: true },
     ],
     activities: [
       { method: 'GET', path: '/projects/:projectId/activities', description: 'List project activities', auth: true, query: { scope: 'scope1', page: 1, limit: 50 } },
       { method: 'POST', path: '/projects/:projectId/activities', description: 'Create activity', auth: true, body: { name: 'Electricity Usage', scope: 'scope2', activityType: 'purchased_electricity', quantity: 10000, unit: 'kWh' } },
+      { method: 'POST', path: '/projects/:projectId/activities', description: 'Create an agricultural activity calculated by an IPCC Tier 1 land-sector model', auth: true, body: { name: 'Fertilizer application', scope: 'scope1', activityType: 'process_emissions', quantity: 145, unit: 'tonnes_N', metadata: { landSector: { model: 'managed_soils', nitrogenSource: 'synthetic', climate: 'wet', ureaShare: 0.6 } } } },
       { method: 'POST', path: '/projects/:projectId/activities/bulk', description: 'Bulk create activities', auth: true },
       { method: 'GET', path: '/projects/:projectId/activities/:id', description: 'Get activity details', auth: true },
       { method: 'PUT', path: '/projects/:projectId/activities/:id', description: 'Update activity', auth: true },
@@ -73,10 +74,137 @@ const apiDocumentation = {
     ],
     calculations: [
       { method: 'POST', path: '/calculate/activity/:id', description: 'Calculate single activity emissions', auth: true },
+      { method: 'GET', path: '/calculate/activity/:projectId/:activityId/factor-match', description: 'Explain the emission factor chosen for an activity, with ranked and excluded candidates', auth: true },
       { method: 'POST', path: '/calculate/project/:id', description: 'Calculate all pending activities', auth: true, demo: 'Calculates emissions for all activities in project' },
-      { method: 'POST', path: '/calculate/cfp/:projectId', description: 'Calculate Carbon Footprint of Product', auth: true },
-      { method: 'POST', path: '/calculate/cfo/:projectId', description: 'Calculate Carbon Footprint of Organization', auth: true },
+      { method: 'POST', path: '/calculate/cfp/:projectId', description: 'Calculate Carbon Footprint of Product, one per product when the project has products', auth: true },
+      { method: 'POST', path: '/calculate/cfo/:projectId', description: 'Calculate Carbon Footprint of Organization', auth: true, body: { includeUncertainty: true } },
+      { method: 'POST', path: '/calculate/project/:projectId/uncertainty', description: 'Monte Carlo 95% confidence intervals per scope and category, with a sensitivity ranking', auth: true, body: { iterations: 10000, seed: 14064, topContributors: 10 } },
       { method: 'GET', path: '/calculate/factors', description: 'Get available emission factors', auth: true },
+      { method: 'GET', path: '/calculate/project/:projectId/runs', description: 'List calculation runs with their pinned factor versions', auth: true },
+      { method: 'GET', path: '/calculate/project/:projectId/runs/:runId', description: 'Get the inputs and pinned factor of every activity in a run', auth: true },
+      { method: 'POST', path: '/calculate/project/:projectId/runs/:runId/replay', description: 'Replay a run from its pinned factors and check it reproduces exactly', auth: true },
+      { method: 'GET', path: '/calculate/project/:projectId/runs/:runId/diff', description: 'Compare a run with the factors current today', auth: true },
+      { method: 'POST', path: '/calculate/precursors', description: 'Calculate CBAM precursor emissions (material and route derived from CN code)', auth: true, body: { projectId: 'uuid', goods: [{ cnCode: '7208 10 00', quantity: 1000 }] } },
+    ],
+    scope2: [
+      { method: 'GET', path: '/scope2/project/:projectId/instruments', description: 'List PPAs, RECs, I-RECs and GOs', auth: true, query: { year: 2025 } },
+      { method: 'POST', path: '/scope2/project/:projectId/instruments', description: 'Register contractual instrument', auth: true, body: { type: 'i_rec', volume: 500, volumeUnit: 'MWh', reportingYear: 2025, vintageYear: 2025, country: 'Thailand', certificateIds: ['IREC-TH-0001'], retired: true } },
+      { method: 'PUT', path: '/scope2/project/:projectId/instruments/:instrumentId', description: 'Update contractual instrument', auth: true },
+      { method: 'DELETE', path: '/scope2/project/:projectId/instruments/:instrumentId', description: 'Delete contractual instrument', auth: true },
+      { method: 'GET', path: '/scope2/project/:projectId/summary', description: 'Location- and market-based Scope 2 with quality-criteria check', auth: true },
+      { method: 'GET', path: '/scope2/residual-mix', description: 'List residual mix factors', auth: true, query: { country: 'Germany' } },
+      { method: 'PUT', path: '/scope2/residual-mix', description: 'Set residual mix factor (owner only)', auth: true },
+    ],
+    cbam: [
+      { method: 'GET', path: '/cbam/project/:projectId/installations', description: 'List CBAM production installations', auth: true },
+      { method: 'POST', path: '/cbam/project/:projectId/installations', description: 'Register installation', auth: true, body: { name: 'Rayong Steel Works', operatorName: 'Siam Steel', country: 'TH' } },
+      { method: 'PUT', path: '/cbam/project/:projectId/installations/:installationId', description: 'Update installation', auth: true },
+      { method: 'DELETE', path: '/cbam/project/:projectId/installations/:installationId', description: 'Delete installation', auth: true },
+      { method: 'GET', path: '/cbam/project/:projectId/installations/:installationId/processes', description: 'List production processes', auth: true, query: { year: 2025 } },
+      { method: 'POST', path: '/cbam/project/:projectId/installations/:installationId/processes', description: 'Add production process for an aggregated goods category', auth: true, body: { name: 'Hot rolling', goodsCategory: 'iron_steel_products', cnCodes: ['72081000'], reportingYear: 2025, activityLevel: 50000, directEmissions: { CO2: 4200 }, electricityConsumedMwh: 6000, electricityEmissionFactor: 0.4999, precursors: [{ goodsCategory: 'crude_steel', consumedTonnes: 52000, seeDirect: 1.9, seeIndirect: 0.1 }] } },
+      { method: 'PUT', path: '/cbam/project/:projectId/installations/:installationId/processes/:processId', description: 'Update production process', auth: true },
+      { method: 'DELETE', path: '/cbam/project/:projectId/installations/:installationId/processes/:processId', description: 'Delete production process', auth: true },
+      { method: 'GET', path: '/cbam/project/:projectId/installations/:installationId/embedded-emissions', description: 'Specific embedded emissions (tCO2e/t) per goods category and CN code', auth: true, query: { year: 2025 } },
+      { method: 'POST', path: '/cbam/project/:projectId/operator-template/:fileId/parse', description: 'Preview an uploaded operator communication template with row-level errors', auth: true },
+      { method: 'POST', path: '/cbam/project/:projectId/operator-template/:fileId/import', description: 'Import operator communication template as a supplier installation', auth: true, body: { supplierName: 'Siam Steel' } },
+      { method: 'GET', path: '/cbam/project/:projectId/installations/:installationId/operator-template', description: 'Export installation as operator communication template (xlsx)', auth: true, query: { year: 2025 } },
+    ],
+    suppliers: [
+      { method: 'GET', path: '/suppliers/project/:projectId/suppliers', description: 'List suppliers with submission counts', auth: true },
+      { method: 'POST', path: '/suppliers/project/:projectId/suppliers', description: 'Add supplier', auth: true, body: { name: 'Siam Packaging', contactEmail: 'esg@siampack.co.th', country: 'TH', supplierTier: 1 } },
+      { method: 'PUT', path: '/suppliers/project/:projectId/suppliers/:supplierId', description: 'Update supplier', auth: true },
+      { method: 'DELETE', path: '/suppliers/project/:projectId/suppliers/:supplierId', description: 'Delete supplier', auth: true },
+      { method: 'GET', path: '/suppliers/project/:projectId/suppliers/:supplierId/invites', description: 'List invite links of a supplier', auth: true },
+      { method: 'POST', path: '/suppliers/project/:projectId/suppliers/:supplierId/invites', description: 'Create invite link (token is shown once)', auth: true, body: { submissionTypes: ['product_footprint'], reportingYear: 2025, expiresInDays: 30 } },
+      { method: 'POST', path: '/suppliers/project/:projectId/suppliers/:supplierId/invites/:inviteId/revoke', description: 'Revoke invite link', auth: true },
+      { method: 'GET', path: '/suppliers/project/:projectId/submissions', description: 'List supplier submissions', auth: true, query: { status: 'submitted' } },
+      { method: 'POST', path: '/suppliers/project/:projectId/submissions/:submissionId/review', description: 'Accept (creates Scope 3 activity) or reject a submission', auth: true, body: { status: 'accepted', tierLevel: 'tier3' } },
+    ],
+    transport: [
+      { method: 'GET', path: '/transport/locations', description: 'Search bundled ports, cities and airports', auth: true, query: { search: 'shanghai' } },
+      { method: 'GET', path: '/transport/vehicle-types', description: 'Vehicle types with default GLEC intensities', auth: true, query: { mode: 'sea' } },
+      { method: 'POST', path: '/transport/calculate', description: 'Preview distances, tonne-km and emissions per leg', auth: true, body: { origin: { name: 'Rayong Sugar Mill', lat: 12.68, lon: 101.28 }, destination: 'CNSHA', weightTonnes: 50, legs: [{ mode: 'road', vehicleType: 'articulated_truck', to: 'THLCH', emptyReturn: true }, { mode: 'sea', vehicleType: 'container_ship' }] } },
+      { method: 'POST', path: '/transport/project/:projectId/shipments', description: 'Record a shipment as a Scope 3 transport activity', auth: true, body: { name: 'Export to Shanghai', direction: 'downstream', shipment: { origin: 'THLCH', destination: 'CNSHA', weightTonnes: 50, legs: [{ mode: 'sea' }] } } },
+    ],
+    entities: [
+      { method: 'GET', path: '/entities/project/:projectId', description: 'List subsidiaries, joint ventures and facilities with their consolidation shares', auth: true },
+      { method: 'POST', path: '/entities/project/:projectId', description: 'Add an organizational entity', auth: true, body: { name: 'Mitr Phol JV', entityType: 'joint_venture', parentId: null, country: 'Thailand', ownershipPercent: 40, financialControl: false, operationalControl: false } },
+      { method: 'PUT', path: '/entities/project/:projectId/:entityId', description: 'Update ownership, control or parent of an entity', auth: true },
+      { method: 'DELETE', path: '/entities/project/:projectId/:entityId', description: 'Delete an entity without child entities, activities or facilities', auth: true },
+      { method: 'GET', path: '/entities/project/:projectId/consolidation', description: 'Consolidated totals per entity and under every approach', auth: true, query: { method: 'equity_share' } },
+    ],
+    facilities: [
+      { method: 'GET', path: '/facilities/project/:projectId', description: 'List facilities with activity counts', auth: true },
+      { method: 'POST', path: '/facilities/project/:projectId', description: 'Add a facility; its country and grid region locate the factors of its activities', auth: true, body: { name: 'Rayong Mill', country: 'Thailand', gridRegion: 'PEA', address: '88 Sukhumvit Rd, Rayong', latitude: 12.68, longitude: 101.28, operationalFrom: '2015-01-01', entityId: null } },
+      { method: 'PUT', path: '/facilities/project/:projectId/:facilityId', description: 'Update a facility; a new country or grid region marks its activities for recalculation', auth: true },
+      { method: 'DELETE', path: '/facilities/project/:projectId/:facilityId', description: 'Delete a facility without activities', auth: true },
+      { method: 'GET', path: '/facilities/project/:projectId/:facilityId/grid-factor', description: 'Grid emission factor at the grid region of the facility', auth: true, query: { year: 2024 } },
+    ],
+    baseYear: [
+      { method: 'GET', path: '/base-year/project/:projectId', description: 'Base-year inventory, pending changes and whether they trigger a recalculation', auth: true },
+      { method: 'PUT', path: '/base-year/project/:projectId/policy', description: 'Set the significance threshold', auth: true, body: { significanceThresholdPercent: 5, cumulative: true } },
+      { method: 'GET', path: '/base-year/project/:projectId/changes', description: 'List structural changes, methodology changes and error corrections', auth: true },
+      { method: 'POST', path: '/base-year/project/:projectId/changes', description: 'Record a change with its effect on the base year (kgCO2e)', auth: true, body: { changeType: 'acquisition', description: 'Acquired Chonburi packaging plant', effectiveDate: '2024-07-01', existedInBaseYear: true, impact: { scope1: 120000, scope2Location: 80000, scope3: 0 } } },
+      { method: 'DELETE', path: '/base-year/project/:projectId/changes/:changeId', description: 'Delete a change not yet restated', auth: true },
+      { method: 'GET', path: '/base-year/project/:projectId/restatements', description: 'List base-year restatements', auth: true },
+      { method: 'POST', path: '/base-year/project/:projectId/restatements', description: 'Restate the base year with the pending changes', auth: true, body: { reason: 'Acquisition above the 5% threshold', force: false } },
+    ],
+    targets: [
+      { method: 'GET', path: '/targets/project/:projectId', description: 'List targets with annual milestones and on-track status', auth: true },
+      { method: 'POST', path: '/targets/project/:projectId', description: 'Set an absolute or intensity target; SBTi pathways default to the minimum reduction', auth: true, body: { name: 'Near-term Scope 1+2', targetType: 'absolute', scopes: ['scope1', 'scope2'], baseYear: 2020, targetYear: 2030, pathway: 'sbti_1_5c' } },
+      { method: 'GET', path: '/targets/project/:projectId/:targetId', description: 'Get a target with milestones and progress', auth: true },
+      { method: 'PUT', path: '/targets/project/:projectId/:targetId', description: 'Update a target or add intensity denominators', auth: true, body: { intensityDenominators: { '2024': 14100 } } },
+      { method: 'DELETE', path: '/targets/project/:projectId/:targetId', description: 'Delete a target', auth: true },
+    ],
+    initiatives: [
+      { method: 'GET', path: '/initiatives/project/:projectId', description: 'List reduction initiatives with cost per tonne and linked emissions', auth: true },
+      { method: 'POST', path: '/initiatives/project/:projectId', description: 'Add an initiative linked to activities or categories', auth: true, body: { name: 'LED retrofit', categories: ['electricity'], annualAbatementTCo2e: 120, capex: 50000, annualOpex: -8000, currency: 'USD', lifetimeYears: 10, startYear: 2026 } },
+      { method: 'PUT', path: '/initiatives/project/:projectId/:initiativeId', description: 'Update an initiative, e.g. mark it implemented', auth: true, body: { status: 'implemented' } },
+      { method: 'DELETE', path: '/initiatives/project/:projectId/:initiativeId', description: 'Delete an initiative', auth: true },
+      { method: 'GET', path: '/initiatives/project/:projectId/mac-curve', description: 'Marginal abatement cost curve (query: discountRate, percent)', auth: true },
+      { method: 'GET', path: '/initiatives/project/:projectId/wedges', description: 'Projected emissions wedges against the latest CFO result (query: toYear)', auth: true },
+    ],
+    scenarios: [
+      { method: 'GET', path: '/scenarios/project/:projectId', description: 'List what-if scenarios', auth: true },
+      { method: 'POST', path: '/scenarios/project/:projectId', description: 'Create a scenario from a snapshot of the calculated activities', auth: true, body: { name: 'Solar PPA and EV fleet', adjustments: [{ type: 'renewable_share', targetPercent: 60 }, { type: 'fuel_switch', fromActivityType: 'diesel', toActivityType: 'electricity', toUnit: 'kWh', conversionRatio: 3.2 }] } },
+      { method: 'GET', path: '/scenarios/project/:projectId/:scenarioId', description: 'Get a scenario with its latest result', auth: true },
+      { method: 'PUT', path: '/scenarios/project/:projectId/:scenarioId', description: 'Update a scenario; a calculated scenario becomes stale', auth: true, body: { adjustments: [{ type: 'quantity_reduction', percent: 10, match: { scopes: ['scope1'] } }] } },
+      { method: 'DELETE', path: '/scenarios/project/:projectId/:scenarioId', description: 'Delete a scenario', auth: true },
+      { method: 'POST', path: '/scenarios/project/:projectId/:scenarioId/snapshot', description: 'Retake the activity snapshot', auth: true },
+      { method: 'POST', path: '/scenarios/project/:projectId/:scenarioId/calculate', description: 'Calculate CFO and CFP for the scenario and compare with the actual inventory', auth: true },
+      { method: 'GET', path: '/scenarios/project/:projectId/:scenarioId/activities', description: 'Per-activity actual and scenario emissions', auth: true },
+    ],
+    products: [
+      { method: 'GET', path: '/products/project/:projectId', description: 'List products with their bill of materials and shared processes', auth: true },
+      { method: 'POST', path: '/products/project/:projectId', description: 'Add a product', auth: true, body: { name: 'White sugar', declaredUnit: 'kg', functionalUnit: '1 kg white sugar in 500 g retail bags', annualOutput: 50000, pricePerUnit: 0.62, priceCurrency: 'USD', billOfMaterials: [{ name: 'Raw sugar', quantity: 1.04, unit: 'kg', componentProductId: 'uuid' }] } },
+      { method: 'PUT', path: '/products/project/:projectId/:productId', description: 'Update a product', auth: true },
+      { method: 'DELETE', path: '/products/project/:projectId/:productId', description: 'Delete a product that is no process output or component', auth: true },
+      { method: 'GET', path: '/products/project/:projectId/processes', description: 'List shared processes with each co-product\'s share under the process\'s allocation method', auth: true },
+      { method: 'POST', path: '/products/project/:projectId/processes', description: 'Add a shared process, its co-product outputs and allocation method', auth: true, body: { name: 'Cane milling', lifecycleStage: 'production', outputs: [{ productId: 'uuid', quantity: 52000 }, { productId: 'uuid', quantity: 18000 }], allocationMethod: 'economic', allocationJustification: 'Molasses is sold for a fraction of the price of sugar per tonne' } },
+      { method: 'PUT', path: '/products/project/:projectId/processes/:processId', description: 'Update a shared process', auth: true },
+      { method: 'DELETE', path: '/products/project/:projectId/processes/:processId', description: 'Delete a shared process', auth: true },
+      { method: 'GET', path: '/products/project/:projectId/allocation', description: 'Compare each product\'s footprint per unit under mass, energy, economic and substitution allocation', auth: true, query: { allocationMethod: 'mass' } },
+    ],
+    credits: [
+      { method: 'GET', path: '/credits/project/:projectId', description: 'List the carbon credit ledger', auth: true, query: { status: 'retired', registry: 't_ver', year: 2025 } },
+      { method: 'GET', path: '/credits/project/:projectId/summary', description: 'Credits held and retired by registry and vintage', auth: true },
+      { method: 'POST', path: '/credits/project/:projectId', description: 'Record a block of credits by serial range; serials recorded by any project are refused', auth: true, body: { registry: 't_ver', registryProjectId: 'T-VER-P-0123', projectName: 'Biogas from cassava wastewater', projectType: 'methane_recovery', creditType: 'avoidance', vintage: 2024, serialPrefix: 'TVER-2024-0123', serialStart: 1, serialEnd: 500, purchaseDate: '2025-02-10', pricePerCredit: 120, currency: 'THB' } },
+      { method: 'POST', path: '/credits/project/:projectId/:creditId/retire', description: 'Retire all or part of a block against a reporting year, for the organization or a product', auth: true, body: { quantity: 200, retirementDate: '2025-03-31', retiredForYear: 2024, productId: null, beneficiary: 'Rayong Sugar Co., Ltd.' } },
+      { method: 'PUT', path: '/credits/project/:projectId/:creditId', description: 'Update a held block', auth: true },
+      { method: 'DELETE', path: '/credits/project/:projectId/:creditId', description: 'Delete a held block entered in error', auth: true },
+    ],
+    chinaEts: [
+      { method: 'GET', path: '/china-ets/project/:projectId/units', description: 'List ETS units', auth: true, query: { year: 2022 } },
+      { method: 'POST', path: '/china-ets/project/:projectId/units', description: 'Record a unit and its output and emissions for a year', auth: true, body: { name: 'Unit 1', unitCode: '#1', unitType: 'coal_above_300mw', capacityMw: 660, coolingType: 'air', reportingYear: 2022, powerSuppliedMwh: 3200000, heatSuppliedGj: 0, heatSupplyRatio: 0, loadFactor: 0.78, verifiedEmissionsTCo2: 2790000, fuels: [{ fuel: 'Bituminous coal', consumption: 1420000, unit: 't', ncvGjPerUnit: 21.5, carbonContentTCPerGj: 0.0255, oxidationRate: 0.99 }] } },
+      { method: 'PUT', path: '/china-ets/project/:projectId/units/:unitId', description: 'Update a unit', auth: true },
+      { method: 'DELETE', path: '/china-ets/project/:projectId/units/:unitId', description: 'Delete a unit', auth: true },
+      { method: 'GET', path: '/china-ets/project/:projectId/compliance', description: 'Benchmark allocation against verified emissions, gap cap and CCER limit', auth: true, query: { year: 2022 } },
+      { method: 'GET', path: '/china-ets/project/:projectId/monitoring-plan', description: 'MEE monitoring plan tables', auth: true, query: { year: 2022 } },
+      { method: 'GET', path: '/china-ets/project/:projectId/emissions-report', description: 'MEE emissions report tables with the allocation', auth: true, query: { year: 2022 } },
+    ],
+    supplierPortal: [
+      { method: 'GET', path: '/supplier-portal/:token', description: 'Submission form and earlier submissions for an invite', auth: false },
+      { method: 'POST', path: '/supplier-portal/:token/submissions', description: 'Submit product carbon footprint or activity data', auth: false, body: { submissionType: 'product_footprint', productName: 'Corrugated box', declaredUnit: 'kg', pcfKgCo2ePerUnit: 0.82, quantity: 12000, methodology: 'ISO 14067' } },
     ],
     reports: [
       { method: 'GET', path: '/reports', description: 'List generated reports', auth: true },
@@ -90,6 +218,22 @@ const apiDocumentation = {
       { method: 'GET', path: '/emission-factors/grid', description: 'Get grid emission factors', auth: true },
       { method: 'GET', path: '/emission-factors/search', description: 'Search emission factors', auth: true, query: { activityType: 'electricity', region: 'thailand' } },
       { method: 'POST', path: '/emission-factors', description: 'Create custom emission factor', auth: true },
+      { method: 'GET', path: '/emission-factors/cn-codes', description: 'Search CBAM CN code catalogue', auth: true, query: { search: '7208', material: 'iron_steel' } },
+      { method: 'GET', path: '/emission-factors/cn-codes/:code', description: 'Get CBAM material, routes and precursors for a CN code', auth: true },
+      { method: 'GET', path: '/emission-factors/spend/eeio-sets', description: 'List EEIO factor sets for spend-based Scope 3', auth: true },
+      { method: 'POST', path: '/emission-factors/spend/eeio-sets', description: 'Load an EEIO factor set (each name and version once)', auth: true, body: { name: 'USEEIO', version: 'v2.0.1-411', currency: 'USD', baseYear: 2021, isDefault: true, factors: [{ sectorCode: '322210', sectorName: 'Paperboard containers', factor: 0.512 }] } },
+      { method: 'GET', path: '/emission-factors/spend/eeio-sets/:setId/factors', description: 'List sector factors of a set', auth: true, query: { search: 'paper' } },
+      { method: 'DELETE', path: '/emission-factors/spend/eeio-sets/:setId', description: 'Delete an EEIO factor set', auth: true },
+      { method: 'GET', path: '/emission-factors/spend/fx-rates', description: 'List annual exchange rates (units per USD)', auth: true, query: { currency: 'THB' } },
+      { method: 'PUT', path: '/emission-factors/spend/fx-rates', description: 'Create or update exchange rates', auth: true, body: { rates: [{ currency: 'THB', year: 2024, unitsPerUsd: 35.29 }] } },
+      { method: 'GET', path: '/emission-factors/spend/price-indices', description: 'List price indices for deflating spend', auth: true, query: { currency: 'USD' } },
+      { method: 'PUT', path: '/emission-factors/spend/price-indices', description: 'Create or update price indices', auth: true, body: { indices: [{ currency: 'USD', year: 2024, value: 124.3 }] } },
+      { method: 'GET', path: '/emission-factors/datasets', description: 'List versioned factor datasets', auth: true, query: { name: 'DEFRA', status: 'published' } },
+      { method: 'POST', path: '/emission-factors/datasets', description: 'Create a draft factor dataset', auth: true, body: { name: 'DEFRA 2024', version: 'v1.1', publisher: 'UK DESNZ' } },
+      { method: 'POST', path: '/emission-factors/datasets/:datasetId/publish', description: 'Publish a draft dataset; its factors are frozen and earlier versions superseded', auth: true },
+      { method: 'POST', path: '/emission-factors/import/:format/preview', description: 'Dry run of a published factor file (desnz, epa_hub, ipcc_efdb, tgo): factors and per-row mapping report', auth: true, body: { file: '(multipart) flat file, hub workbook, EFDB export or TGO list', sourceYear: 2024, gwpSet: 'AR5' } },
+      { method: 'POST', path: '/emission-factors/datasets/:datasetId/import/:format', description: 'Load a published factor file into a draft dataset, replacing factors loaded earlier from the same format', auth: true, body: { file: '(multipart)', sourceYear: 2024, gwpSet: 'AR5' } },
+      { method: 'POST', path: '/emission-factors/import', description: 'Bulk import factors; changed factors become new versions', auth: true, body: { type: 'standard', datasetId: 'uuid', factors: [{ category: 'fuel', activityType: 'stationary_combustion', scope: 'scope1', unit: 'diesel_l', factorValue: 2.66, factorUnit: 'kg_co2e', source: 'DEFRA 2024', year: 2024 }] } },
     ],
     signatures: [
       { method: 'POST', path: '/signatures', description: 'Sign a report', auth: true, body: { reportId: 'uuid', type: 'approval', signature: 'base64' } },
@@ -11,6 +11,20 @@ import signatureRoutes from './signatureRoutes';
 import standardRoutes from './standardRoutes';
 import embeddingRoutes from './embeddingRoutes';
 import helpRoutes from './helpRoutes';
+import scope2Routes from './scope2Routes';
+import cbamRoutes from './cbamRoutes';
+import supplierRoutes from './supplierRoutes';
+import supplierPortalRoutes from './supplierPortalRoutes';
+import transportRoutes from './transportRoutes';
+import entityRoutes from './entityRoutes';
+import facilityRoutes from './facilityRoutes';
+import baseYearRoutes from './baseYearRoutes';
+import targetRoutes from './targetRoutes';
+import initiativeRoutes from './initiativeRoutes';
+import scenarioRoutes from './scenarioRoutes';
+import productRoutes from './productRoutes';
+import creditRoutes from './creditRoutes';
+import chinaEtsRoutes from './chinaEtsRoutes';
 
 const router = Router();
 const API_VERSION = '/v1';
@@ -30,6 +44,20 @@ router.use(`${API_VERSION}/audit-logs`, auditRoutes);
 router.use(`${API_VERSION}/signatures`, signatureRoutes);
 router.use(`${API_VERSION}/standards`, standardRoutes);
 router.use(`${API_VERSION}/embeddings`, embeddingRoutes);
+router.use(`${API_VERSION}/scope2`, scope2Routes);
+router.use(`${API_VERSION}/cbam`, cbamRoutes);
+router.use(`${API_VERSION}/suppliers`, supplierRoutes);
+router.use(`${API_VERSION}/supplier-portal`, supplierPortalRoutes);
+router.use(`${API_VERSION}/transport`, transportRoutes);
+router.use(`${API_VERSION}/entities`, entityRoutes);
+router.use(`${API_VERSION}/facilities`, facilityRoutes);
+router.use(`${API_VERSION}/base-year`, baseYearRoutes);
+router.use(`${API_VERSION}/targets`, targetRoutes);
+router.use(`${API_VERSION}/initiatives`, initiativeRoutes);
+router.use(`${API_VERSION}/scenarios`, scenarioRoutes);
+router.use(`${API_VERSION}/products`, productRoutes);
+router.use(`${API_VERSION}/credits`, creditRoutes);
+router.use(`${API_VERSION}/china-ets`, chinaEtsRoutes);
 
 // API Info (versioned)
 router.get(`${API_VERSION}`, (req, res) => {
@@ -50,6 +78,20 @@ router.get(`${API_VERSION}`, (req, res) => {
       signatures: `${API_VERSION}/signatures`,
       standards: `${API_VERSION}/standards`,
       embeddings: `${API_VERSION}/embeddings`,
+      scope2: `${API_VERSION}/scope2`,
+      cbam: `${API_VERSION}/cbam`,
+      suppliers: `${API_VERSION}/suppliers`,
+      supplierPortal: `${API_VERSION}/supplier-portal`,
+      transport: `${API_VERSION}/transport`,
+      entities: `${API_VERSION}/entities`,
+      facilities: `${API_VERSION}/facilities`,
+      baseYear: `${API_VERSION}/base-year`,
+      targets: `${API_VERSION}/targets`,
+      initiatives: `${API_VERSION}/initiatives`,
+      scenarios: `${API_VERSION}/scenarios`,
+      products: `${API_VERSION}/products`,
+      credits: `${API_VERSION}/credits`,
+      chinaEts: `${API_VERSION}/china-ets`,
     },
     standards: ['EU CBAM', 'UK CBAM', 'China Carbon Market', 'Japan MAFF ESG', 'Korea K-ESG', 'Thailand Thai-ESG'],
   });
@@ -0,0 +1,68 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate, authorizeProjectOwner } from '../middleware/auth';
+import {
+  validate,
+  createInitiativeSchema,
+  updateInitiativeSchema,
+} from '../middleware/validation';
+import * as initiativeController from '../controllers/initiativeController';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// ============================================================================
+// MAC CURVE AND WEDGES
+// ============================================================================
+
+// Marginal abatement cost curve
+router.get(
+  '/project/:projectId/mac-curve',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(initiativeController.getMacCurve)
+);
+
+// Projected emissions wedges against the baseline
+router.get(
+  '/project/:projectId/wedges',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(initiativeController.getWedges)
+);
+
+// ============================================================================
+// REDUCTION INITIATIVES
+// ============================================================================
+
+// List initiatives with cost per tonne and linked emissions
+router.get(
+  '/project/:projectId',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(initiativeController.getInitiatives)
+);
+
+// Add an initiative
+router.post(
+  '/project/:projectId',
+  authorizeProjectOwner('projectId'),
+  validate(createInitiativeSchema),
+  asyncHandler(initiativeController.createInitiative)
+);
+
+// Update an initiative
+router.put(
+  '/project/:projectId/:initiativeId',
+  authorizeProjectOwner('projectId'),
+  validate(updateInitiativeSchema),
+  asyncHandler(initiativeController.updateInitiative)
+);
+
+// Delete an initiative
+router.delete(
+  '/project/:projectId/:initiativeId',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(initiativeController.deleteInitiative)
+);
+
+export default router;
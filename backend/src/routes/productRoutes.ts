@@ -0,0 +1,97 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate, authorizeProjectOwner } from '../middleware/auth';
+import {
+  validate,
+  createProductSchema,
+  updateProductSchema,
+  createProcessSchema,
+  updateProcessSchema,
+} from '../middleware/validation';
+import * as productController from '../controllers/productController';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// ============================================================================
+// SHARED PROCESSES
+// ============================================================================
+
+// List shared processes with their co-product shares
+router.get(
+  '/project/:projectId/processes',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(productController.getProcesses)
+);
+
+// Add a shared process
+router.post(
+  '/project/:projectId/processes',
+  authorizeProjectOwner('projectId'),
+  validate(createProcessSchema),
+  asyncHandler(productController.createProcess)
+);
+
+// Update a shared process
+router.put(
+  '/project/:projectId/processes/:processId',
+  authorizeProjectOwner('projectId'),
+  validate(updateProcessSchema),
+  asyncHandler(productController.updateProcess)
+);
+
+// Delete a shared process
+router.delete(
+  '/project/:projectId/processes/:processId',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(productController.deleteProcess)
+);
+
+// ============================================================================
+// ALLOCATION
+// ============================================================================
+
+// Compare product footprints across allocation methods
+router.get(
+  '/project/:projectId/allocation',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(productController.getAllocationSensitivity)
+);
+
+// ============================================================================
+// PRODUCTS
+// ============================================================================
+
+// List products of a project
+router.get(
+  '/project/:projectId',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(productController.getProducts)
+);
+
+// Add a product
+router.post(
+  '/project/:projectId',
+  authorizeProjectOwner('projectId'),
+  validate(createProductSchema),
+  asyncHandler(productController.createProduct)
+);
+
+// Update a product
+router.put(
+  '/project/:projectId/:productId',
+  authorizeProjectOwner('projectId'),
+  validate(updateProductSchema),
+  asyncHandler(productController.updateProduct)
+);
+
+// Delete a product
+router.delete(
+  '/project/:projectId/:productId',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(productController.deleteProduct)
+);
+
+export default router;
@@ -0,0 +1,82 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate, authorizeProjectOwner } from '../middleware/auth';
+import {
+  validate,
+  createScenarioSchema,
+  updateScenarioSchema,
+} from '../middleware/validation';
+import * as scenarioController from '../controllers/scenarioController';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// ============================================================================
+// SCENARIOS
+// ============================================================================
+
+// List scenarios
+router.get(
+  '/project/:projectId',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(scenarioController.getScenarios)
+);
+
+// Create a scenario from a snapshot of the calculated activities
+router.post(
+  '/project/:projectId',
+  authorizeProjectOwner('projectId'),
+  validate(createScenarioSchema),
+  asyncHandler(scenarioController.createScenario)
+);
+
+// Get a scenario with its latest result
+router.get(
+  '/project/:projectId/:scenarioId',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(scenarioController.getScenario)
+);
+
+// Update a scenario
+router.put(
+  '/project/:projectId/:scenarioId',
+  authorizeProjectOwner('projectId'),
+  validate(updateScenarioSchema),
+  asyncHandler(scenarioController.updateScenario)
+);
+
+// Delete a scenario
+router.delete(
+  '/project/:projectId/:scenarioId',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(scenarioController.deleteScenario)
+);
+
+// ============================================================================
+// SCENARIO CALCULATION
+// ============================================================================
+
+// Retake the activity snapshot
+router.post(
+  '/project/:projectId/:scenarioId/snapshot',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(scenarioController.refreshSnapshot)
+);
+
+// Calculate the scenario and compare it with the actual inventory
+router.post(
+  '/project/:projectId/:scenarioId/calculate',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(scenarioController.calculateScenario)
+);
+
+// Per-activity actual and scenario emissions
+router.get(
+  '/project/:projectId/:scenarioId/activities',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(scenarioController.getScenarioActivities)
+);
+
+export default router;
@@ -0,0 +1,80 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate, authorize, authorizeProjectOwner } from '../middleware/auth';
+import {
+  validate,
+  createContractualInstrumentSchema,
+  updateContractualInstrumentSchema,
+  residualMixFactorSchema,
+} from '../middleware/validation';
+import * as scope2Controller from '../controllers/scope2Controller';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// ============================================================================
+// CONTRACTUAL INSTRUMENTS
+// ============================================================================
+
+// List instruments for a project
+router.get(
+  '/project/:projectId/instruments',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(scope2Controller.getInstruments)
+);
+
+// Register an instrument
+router.post(
+  '/project/:projectId/instruments',
+  authorizeProjectOwner('projectId'),
+  validate(createContractualInstrumentSchema),
+  asyncHandler(scope2Controller.createInstrument)
+);
+
+// Update an instrument
+router.put(
+  '/project/:projectId/instruments/:instrumentId',
+  authorizeProjectOwner('projectId'),
+  validate(updateContractualInstrumentSchema),
+  asyncHandler(scope2Controller.updateInstrument)
+);
+
+// Delete an instrument
+router.delete(
+  '/project/:projectId/instruments/:instrumentId',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(scope2Controller.deleteInstrument)
+);
+
+// ============================================================================
+// DUAL REPORTING
+// ============================================================================
+
+// Location- and market-based Scope 2 with quality-criteria check
+router.get(
+  '/project/:projectId/summary',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(scope2Controller.getScope2Summary)
+);
+
+// ============================================================================
+// RESIDUAL MIX FACTORS
+// ============================================================================
+
+// List residual mix factors
+router.get(
+  '/residual-mix',
+  asyncHandler(scope2Controller.getResidualMixFactors)
+);
+
+// Create or update a residual mix factor (owner only)
+router.put(
+  '/residual-mix',
+  authorize('owner'),
+  validate(residualMixFactorSchema),
+  asyncHandler(scope2Controller.upsertResidualMixFactor)
+);
+
+export default router;
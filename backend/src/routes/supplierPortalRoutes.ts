@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authenticateSupplierInvite } from '../middleware/auth';
+import { validate, supplierSubmissionSchema } from '../middleware/validation';
+import * as supplierController from '../controllers/supplierController';
+
+// Public routes for invited suppliers; the invite token is the only credential
+const router = Router();
+
+// Submission form for the invite
+router.get(
+  '/:token',
+  authenticateSupplierInvite(),
+  asyncHandler(supplierController.getPortalForm)
+);
+
+// Submit a product footprint or activity data
+router.post(
+  '/:token/submissions',
+  authenticateSupplierInvite(),
+  validate(supplierSubmissionSchema),
+  asyncHandler(supplierController.submitPortalData)
+);
+
+export default router;
@@ -0,0 +1,97 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate, authorizeProjectOwner } from '../middleware/auth';
+import {
+  validate,
+  createSupplierSchema,
+  updateSupplierSchema,
+  createSupplierInviteSchema,
+  reviewSupplierSubmissionSchema,
+} from '../middleware/validation';
+import * as supplierController from '../controllers/supplierController';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// ============================================================================
+// SUPPLIERS
+// ============================================================================
+
+// List suppliers for a project
+router.get(
+  '/project/:projectId/suppliers',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(supplierController.getSuppliers)
+);
+
+// Add a supplier
+router.post(
+  '/project/:projectId/suppliers',
+  authorizeProjectOwner('projectId'),
+  validate(createSupplierSchema),
+  asyncHandler(supplierController.createSupplier)
+);
+
+// Update a supplier
+router.put(
+  '/project/:projectId/suppliers/:supplierId',
+  authorizeProjectOwner('projectId'),
+  validate(updateSupplierSchema),
+  asyncHandler(supplierController.updateSupplier)
+);
+
+// Delete a supplier
+router.delete(
+  '/project/:projectId/suppliers/:supplierId',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(supplierController.deleteSupplier)
+);
+
+// ============================================================================
+// INVITES
+// ============================================================================
+
+// List invites of a supplier
+router.get(
+  '/project/:projectId/suppliers/:supplierId/invites',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(supplierController.getInvites)
+);
+
+// Create an invite link (the token is returned once)
+router.post(
+  '/project/:projectId/suppliers/:supplierId/invites',
+  authorizeProjectOwner('projectId'),
+  validate(createSupplierInviteSchema),
+  asyncHandler(supplierController.createInvite)
+);
+
+// Revoke an invite link
+router.post(
+  '/project/:projectId/suppliers/:supplierId/invites/:inviteId/revoke',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(supplierController.revokeInvite)
+);
+
+// ============================================================================
+// SUBMISSIONS
+// ============================================================================
+
+// List submissions (?status=submitted&supplierId=...)
+router.get(
+  '/project/:projectId/submissions',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(supplierController.getSubmissions)
+);
+
+// Accept or reject a submission
+router.post(
+  '/project/:projectId/submissions/:submissionId/review',
+  authorizeProjectOwner('projectId'),
+  validate(reviewSupplierSubmissionSchema),
+  asyncHandler(supplierController.reviewSubmission)
+);
+
+export default router;
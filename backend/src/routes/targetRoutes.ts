@@ -0,0 +1,57 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate, authorizeProjectOwner } from '../middleware/auth';
+import {
+  validate,
+  createTargetSchema,
+  updateTargetSchema,
+} from '../middleware/validation';
+import * as targetController from '../controllers/targetController';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// ============================================================================
+// EMISSION TARGETS
+// ============================================================================
+
+// List targets with milestones and on-track status
+router.get(
+  '/project/:projectId',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(targetController.getTargets)
+);
+
+// Set a target
+router.post(
+  '/project/:projectId',
+  authorizeProjectOwner('projectId'),
+  validate(createTargetSchema),
+  asyncHandler(targetController.createTarget)
+);
+
+// Get a target with milestones and on-track status
+router.get(
+  '/project/:projectId/:targetId',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(targetController.getTarget)
+);
+
+// Update a target
+router.put(
+  '/project/:projectId/:targetId',
+  authorizeProjectOwner('projectId'),
+  validate(updateTargetSchema),
+  asyncHandler(targetController.updateTarget)
+);
+
+// Delete a target
+router.delete(
+  '/project/:projectId/:targetId',
+  authorizeProjectOwner('projectId'),
+  asyncHandler(targetController.deleteTarget)
+);
+
+export default router;
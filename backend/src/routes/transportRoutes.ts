@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate, authorizeProjectOwner } from '../middleware/auth';
+import { validate, shipmentSchema, createShipmentSchema } from '../middleware/validation';
+import * as transportController from '../controllers/transportController';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// ============================================================================
+// REFERENCE DATA
+// ============================================================================
+
+// Search ports, cities and airports
+router.get(
+  '/locations',
+  asyncHandler(transportController.getLocations)
+);
+
+// List vehicle types and default intensities
+router.get(
+  '/vehicle-types',
+  asyncHandler(transportController.getVehicleTypes)
+);
+
+// ============================================================================
+// SHIPMENTS
+// ============================================================================
+
+// Preview a shipment calculation
+router.post(
+  '/calculate',
+  validate(shipmentSchema),
+  asyncHandler(transportController.calculateShipment)
+);
+
+// Record a shipment as a transport activity
+router.post(
+  '/project/:projectId/shipments',
+  authorizeProjectOwner('projectId'),
+  validate(createShipmentSchema),
+  asyncHandler(transportController.createShipment)
+);
+
+export default router;
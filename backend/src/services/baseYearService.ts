@@ -0,0 +1,265 @@
+/**
+ * Base Year Service
+ *
+ * Base-year recalculation under the GHG Protocol Corporate Standard, Chapter 5.
+ * Structural changes (acquisitions, divestments, outsourcing and insourcing),
+ * methodology changes and error corrections are recorded with their effect on
+ * the base-year inventory. Once their effect reaches the project's
+ * significance threshold, alone or cumulatively, the base year is restated.
+ *
+ * A restatement never overwrites the original cfo_results row: it is stored
+ * alongside it, and later restatements build on the previous one. A new CFO
+ * calculation for the base year starts a fresh chain.
+ */
+
+import { db } from '../config/database';
+import { formatDate, roundTo } from '../utils/helpers';
+import type {
+  BaseYearImpact,
+  BaseYearInventory,
+  BaseYearPolicy,
+  RecalculationAssessment,
+  StructuralChange,
+  StructuralChangeType,
+} from '../types';
+
+export const STRUCTURAL_CHANGE_TYPES: StructuralChangeType[] = [
+  'acquisition',
+  'divestment',
+  'outsourcing',
+  'insourcing',
+  'methodology_change',
+  'error_correction',
+];
+
+// 5% is the threshold most programmes (SBTi, CDP guidance) refer to
+export const DEFAULT_BASE_YEAR_POLICY: BaseYearPolicy = {
+  significanceThresholdPercent: 5,
+  cumulative: true,
+};
+
+export function projectPolicy(settings: any): BaseYearPolicy {
+  const policy = settings?.baseYearPolicy || {};
+  const threshold = parseFloat(policy.significanceThresholdPercent);
+  return {
+    significanceThresholdPercent: Number.isFinite(threshold) && threshold >= 0
+      ? threshold
+      : DEFAULT_BASE_YEAR_POLICY.significanceThresholdPercent,
+    cumulative: typeof policy.cumulative === 'boolean' ? policy.cumulative : DEFAULT_BASE_YEAR_POLICY.cumulative,
+  };
+}
+
+export function toStructuralChange(row: any): StructuralChange {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    changeType: row.change_type,
+    description: row.description,
+    effectiveDate: row.effective_date ? formatDate(row.effective_date) : null,
+    entityId: row.entity_id || null,
+    existedInBaseYear: row.existed_in_base_year !== false,
+    impact: {
+      scope1: parseFloat(row.scope1_impact) || 0,
+      scope2Location: parseFloat(row.scope2_location_impact) || 0,
+      scope2Market: parseFloat(row.scope2_market_impact) || 0,
+      scope3: parseFloat(row.scope3_impact) || 0,
+    },
+    restatementId: row.restatement_id || null,
+  };
+}
+
+/**
+ * Base-year inventory of a cfo_results row
+ */
+export function cfoInventory(row: any): BaseYearInventory {
+  const scope1 = parseFloat(row.scope1_emissions) || 0;
+  const scope2Location = parseFloat(row.scope2_location_emissions) || 0;
+  const scope3 = (parseFloat(row.scope3_upstream_emissions) || 0) + (parseFloat(row.scope3_downstream_emissions) || 0);
+  return {
+    scope1,
+    scope2Location,
+    scope2Market: parseFloat(row.scope2_market_emissions) || 0,
+    scope3,
+    total: parseFloat(row.cfo_total) || scope1 + scope2Location + scope3,
+  };
+}
+
+// Net effect on the base-year total, which counts Scope 2 location-based
+export function impactTotal(impact: BaseYearImpact): number {
+  return impact.scope1 + impact.scope2Location + impact.scope3;
+}
+
+// Why a change does not count towards a recalculation, if it does not
+function exclusionReason(change: StructuralChange): string | undefined {
+  if (!change.existedInBaseYear) {
+    return 'the operation did not exist in the base year, so the base year is not recalculated for it';
+  }
+  return undefined;
+}
+
+/**
+ * Whether pending changes trigger a base-year recalculation. Each change is
+ * compared to the threshold on its own; with a cumulative policy the sum of
+ * their absolute effects is compared as well, so an acquisition and a
+ * divestment of similar size do not cancel out.
+ */
+export function assessRecalculation(
+  baseYear: number,
+  inventory: BaseYearInventory,
+  changes: StructuralChange[],
+  policy: BaseYearPolicy
+): RecalculationAssessment {
+  const threshold = policy.significanceThresholdPercent;
+  const percentOf = (kg: number) => (inventory.total > 0 ? (Math.abs(kg) / inventory.total) * 100 : 0);
+
+  let cumulative = 0;
+  const assessed = changes.map((change) => {
+    const net = impactTotal(change.impact);
+    const excluded = exclusionReason(change);
+    const impactPercent = percentOf(net);
+    if (!excluded) {
+      cumulative += Math.abs(net);
+    }
+    return {
+      id: change.id,
+      changeType: change.changeType,
+      description: change.description,
+      impactKgCo2e: roundTo(net, 4),
+      impactPercent: roundTo(impactPercent, 2),
+      significant: !excluded && impactPercent >= threshold,
+      ...(excluded ? { excluded } : {}),
+    };
+  });
+
+  const cumulativePercent = percentOf(cumulative);
+  const significant = assessed.filter((c) => c.significant);
+  const cumulativeTriggered = policy.cumulative && cumulativePercent >= threshold && cumulative > 0;
+
+  let reason: string;
+  if (changes.length === 0) {
+    reason = 'No pending structural changes';
+  } else if (significant.length > 0) {
+    const first = significant[0];
+    reason = `${formatChangeType(first.changeType)} "${first.description}" changes the base year by ${first.impactPercent}%, at or above the ${threshold}% threshold`;
+    if (significant.length > 1) {
+      reason += ` (${significant.length - 1} more significant change${significant.length > 2 ? 's' : ''})`;
+    }
+  } else if (cumulativeTriggered) {
+    reason = `Pending changes together change the base year by ${roundTo(cumulativePercent, 2)}%, at or above the ${threshold}% threshold`;
+  } else if (policy.cumulative) {
+    reason = `Pending changes together change the base year by ${roundTo(cumulativePercent, 2)}%, below the ${threshold}% threshold`;
+  } else {
+    const largest = Math.max(0, ...assessed.filter((c) => !c.excluded).map((c) => c.impactPercent));
+    reason = `No pending change alone reaches the ${threshold}% threshold (largest ${largest}%)`;
+  }
+
+  return {
+    baseYear,
+    policy,
+    baseTotal: roundTo(inventory.total, 4),
+    changes: assessed,
+    cumulativeImpactKgCo2e: roundTo(cumulative, 4),
+    cumulativeImpactPercent: roundTo(cumulativePercent, 2),
+    triggered: significant.length > 0 || cumulativeTriggered,
+    reason,
+  };
+}
+
+/**
+ * Inventory with the effect of every change applied, except excluded ones
+ */
+export function restateInventory(inventory: BaseYearInventory, changes: StructuralChange[]): BaseYearInventory {
+  const restated = { ...inventory };
+  for (const change of changes) {
+    if (exclusionReason(change)) continue;
+    restated.scope1 += change.impact.scope1;
+    restated.scope2Location += change.impact.scope2Location;
+    restated.scope2Market += change.impact.scope2Market;
+    restated.scope3 += change.impact.scope3;
+  }
+
+  return {
+    scope1: roundTo(restated.scope1, 4),
+    scope2Location: roundTo(restated.scope2Location, 4),
+    scope2Market: roundTo(restated.scope2Market, 4),
+    scope3: roundTo(restated.scope3, 4),
+    total: roundTo(restated.scope1 + restated.scope2Location + restated.scope3, 4),
+  };
+}
+
+/**
+ * Latest restatement of a base-year CFO result, or null if it was never restated
+ */
+export async function getLatestRestatement(cfoId: string): Promise<any | null> {
+  const restatement = await db.queryOne(
+    `SELECT * FROM base_year_restatements WHERE original_cfo_id = $1 ORDER BY created_at DESC LIMIT 1`,
+    [cfoId]
+  );
+  return restatement || null;
+}
+
+/**
+ * Base-year figures for year-on-year comparisons: the latest restatement of
+ * the CFO result if there is one, else the result as calculated
+ */
+export async function comparableBaseline(cfo: any): Promise<{
+  inventory: BaseYearInventory;
+  restatement: { id: string; restatedAt: string; reason: string; originalTotal: number } | null;
+}> {
+  const original = cfoInventory(cfo);
+  const restatement = await getLatestRestatement(cfo.id);
+  if (!restatement) {
+    return { inventory: original, restatement: null };
+  }
+  return {
+    inventory: restatement.restated_inventory,
+    restatement: {
+      id: restatement.id,
+      restatedAt: restatement.created_at,
+      reason: restatement.reason,
+      originalTotal: original.total,
+    },
+  };
+}
+
+/**
+ * The project's base year as it stands: the latest CFO result for the base
+ * year, its latest restatement, the current (restated or original)
+ * inventory, the pending changes and the policy
+ */
+export async function getBaseYearStatus(projectId: string): Promise<{
+  baseYear: number;
+  policy: BaseYearPolicy;
+  cfo: any | null;
+  restatement: any | null;
+  inventory: BaseYearInventory | null;
+  pendingChanges: StructuralChange[];
+}> {
+  const project = await db.queryOne(`SELECT baseline_year, settings FROM projects WHERE id = $1`, [projectId]);
+  const baseYear = project?.baseline_year;
+
+  const cfo = await db.queryOne(
+    `SELECT * FROM cfo_results WHERE project_id = $1 AND reporting_year = $2 ORDER BY created_at DESC LIMIT 1`,
+    [projectId, baseYear]
+  );
+  const restatement = cfo ? await getLatestRestatement(cfo.id) : null;
+
+  const pending = await db.query(
+    `SELECT * FROM base_year_changes WHERE project_id = $1 AND restatement_id IS NULL ORDER BY effective_date, created_at`,
+    [projectId]
+  );
+
+  return {
+    baseYear,
+    policy: projectPolicy(project?.settings),
+    cfo: cfo || null,
+    restatement,
+    inventory: restatement ? restatement.restated_inventory : cfo ? cfoInventory(cfo) : null,
+    pendingChanges: pending.rows.map(toStructuralChange),
+  };
+}
+
+function formatChangeType(type: StructuralChangeType): string {
+  const label = type.replace(/_/g, ' ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
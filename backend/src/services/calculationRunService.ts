@@ -0,0 +1,489 @@
+/**
+ * Calculation Run Service
+ *
+ * A calculation run stores, for every activity it calculated, the inputs and the
+ * factor that was applied together with a reference to the exact factor version.
+ * Factor rows are never updated in place, so a run can be replayed from what it
+ * stored, or compared with the factors that would apply today.
+ */
+
+import { db } from '../config/database';
+import { config } from '../config/env';
+import { generateId, roundTo } from '../utils/helpers';
+import { NotFoundError } from '../middleware/errorHandler';
+import * as ghgService from './ghgService';
+import * as gwpService from './gwpService';
+import * as unitService from './unitService';
+import * as supplierService from './supplierService';
+import * as spendService from './spendService';
+import * as transportService from './transportService';
+import * as landSectorService from './landSectorService';
+import type {
+  AppliedFactor,
+  CalculationInputs,
+  FactorMatchContext,
+  FactorReference,
+  GasBreakdown,
+  GWPSet,
+  LandSectorCalculation,
+  ShipmentResult,
+} from '../types';
+
+export type FactorSource = 'supplier' | 'spend' | 'transport' | 'land_sector' | 'default';
+
+export interface ActivityFactor {
+  applied: AppliedFactor;
+  factorSource: FactorSource;
+  spend?: spendService.SpendFactorLookup['spend'];
+  transport?: ShipmentResult;
+  landSector?: LandSectorCalculation;
+}
+
+export interface RunItemInput {
+  activityId: string;
+  inputs: CalculationInputs;
+  factor: AppliedFactor;
+  tierMultiplier: number;
+  precursorEmissions: number;
+  gasBreakdown: GasBreakdown;
+  totalEmissions: number;
+}
+
+export interface ReplayedItem {
+  activityId: string | null;
+  storedKgCo2e: number;
+  replayedKgCo2e: number;
+  reproduced: boolean;
+  reference: FactorReference;
+}
+
+export interface DiffedItem {
+  activityId: string | null;
+  previousKgCo2e: number;
+  currentKgCo2e: number | null;
+  differenceKgCo2e: number | null;
+  factorChanged: boolean;
+  previousFactor: Pick<AppliedFactor, 'factor' | 'source' | 'reference'>;
+  currentFactor: Pick<AppliedFactor, 'factor' | 'source' | 'reference'> | null;
+  error?: string;
+}
+
+export function tierMultiplierFor(tierLevel: string | null | undefined, tier2PlusMultiplier = config.tier2PlusMultiplier): number {
+  return tierLevel === 'tier2plus' ? tier2PlusMultiplier : 1;
+}
+
+/**
+ * Emissions of one activity from an applied factor. Shared by calculation and
+ * replay so both take exactly the same arithmetic path.
+ */
+export function computeEmissions(
+  quantity: number,
+  factor: Pick<AppliedFactor, 'factor' | 'gases'>,
+  gwpSet: GWPSet,
+  tierMultiplier: number,
+  precursorEmissions = 0
+): { gasBreakdown: GasBreakdown; totalEmissions: number } {
+  const gasBreakdown = gwpService.calculateGasBreakdown(quantity, factor, gwpSet, tierMultiplier);
+  gasBreakdown.unspecifiedCo2e += precursorEmissions;
+
+  return { gasBreakdown, totalEmissions: roundTo(gwpService.breakdownToCO2e(gasBreakdown), 4) };
+}
+
+/**
+ * True when two breakdowns are identical, gas by gas (JSONB does not keep key order)
+ */
+export function sameBreakdown(a: GasBreakdown, b: GasBreakdown): boolean {
+  const gasesA = Object.keys(a.gases) as Array<keyof GasBreakdown['gases']>;
+  const gasesB = Object.keys(b.gases);
+
+  return a.gwpSet === b.gwpSet &&
+    a.unspecifiedCo2e === b.unspecifiedCo2e &&
+    gasesA.length === gasesB.length &&
+    gasesA.every((gas) => a.gases[gas] === b.gases[gas]);
+}
+
+export function sameReference(a: FactorReference, b: FactorReference): boolean {
+  return a.type === b.type &&
+    (a.id || null) === (b.id || null) &&
+    (a.key || null) === (b.key || null) &&
+    (a.version || null) === (b.version || null) &&
+    (a.datasetId || null) === (b.datasetId || null);
+}
+
+/**
+ * Activity fields the calculation depends on
+ */
+export function snapshotInputs(
+  activity: any,
+  options: {
+    tierLevel?: string | null;
+    emissionFactorId?: string;
+    customEmissionFactor?: number;
+    matchContext?: FactorMatchContext;
+  } = {}
+): CalculationInputs {
+  return {
+    activityType: activity.activity_type,
+    scope: activity.scope,
+    quantity: parseFloat(activity.quantity),
+    unit: activity.unit,
+    tierLevel: options.tierLevel || activity.tier_level || null,
+    calculationMethod: activity.calculation_method || null,
+    metadata: activity.metadata || {},
+    ...(options.emissionFactorId && { emissionFactorId: options.emissionFactorId }),
+    ...(options.customEmissionFactor !== undefined && { customEmissionFactor: options.customEmissionFactor }),
+    ...(options.matchContext && { matchContext: options.matchContext }),
+  };
+}
+
+/**
+ * Project location, reporting year and factor source preferences used to
+ * match factors for its activities
+ */
+export async function loadMatchProject(projectId: string): Promise<any> {
+  return db.queryOne(
+    `SELECT id, country, region, reporting_year, settings FROM projects WHERE id = $1`,
+    [projectId]
+  );
+}
+
+export function customFactor(value: number, unit: string): AppliedFactor {
+  return {
+    factor: value,
+    gases: null,
+    unit,
+    conversionFactor: 1,
+    source: 'custom',
+    reference: { type: 'custom' },
+  };
+}
+
+/**
+ * An explicitly chosen emission_factors row version, expressed per activity unit
+ */
+export async function resolveFactorRow(factorId: string, activityUnit: string, gwpSet: GWPSet): Promise<AppliedFactor> {
+  const row = await db.queryOne(
+    `SELECT ef.*, d.name AS dataset_name, d.version AS dataset_version
+     FROM emission_factors ef
+     LEFT JOIN factor_datasets d ON d.id = ef.dataset_id
+     WHERE ef.id = $1`,
+    [factorId]
+  );
+
+  if (!row) {
+    throw new NotFoundError('Emission factor not found');
+  }
+
+  // Reconcile the activity unit with the factor's activity unit
+  const conversionFactor = row.unit ? unitService.convertQuantity(1, activityUnit, row.unit) : 1;
+  const rowGases = gwpService.parseGasAmounts(row.gwp_values);
+  const gases = rowGases ? gwpService.scaleGasAmounts(rowGases, conversionFactor) : null;
+
+  return {
+    factor: gases ? gwpService.gasesToCO2e(gases, gwpSet) : parseFloat(row.factor_value) * conversionFactor,
+    gases,
+    unit: row.unit || activityUnit,
+    conversionFactor,
+    source: row.source,
+    reference: ghgService.emissionFactorReference(row),
+  };
+}
+
+/**
+ * Pick the factor for an activity: supplier-specific (accepted product
+ * footprint), GLEC for shipments, the IPCC Tier 1 model for land-sector
+ * activities, EEIO for spend with a sector code, else the best matching
+ * emission factor for the context
+ */
+export async function resolveActivityFactor(
+  activity: any,
+  gwpSet: GWPSet,
+  context: FactorMatchContext = {}
+): Promise<ActivityFactor> {
+  const supplierFactor = supplierService.getSupplierFactor(activity);
+  if (supplierFactor) {
+    return {
+      applied: {
+        ...supplierFactor,
+        gases: supplierFactor.gases || null,
+        reference: {
+          type: 'supplier',
+          id: activity.metadata?.provenance?.submissionId,
+          key: activity.metadata?.supplierId,
+        },
+      },
+      factorSource: 'supplier',
+    };
+  }
+
+  const shipmentFactor = transportService.getShipmentFactor(activity);
+  if (shipmentFactor) {
+    const { transport, ...factor } = shipmentFactor;
+    return {
+      applied: { ...factor, gases: null, reference: { type: 'transport', version: transportService.INTENSITY_SOURCE } },
+      factorSource: 'transport',
+      transport,
+    };
+  }
+
+  const landSectorFactor = landSectorService.getLandSectorFactor(activity, gwpSet, context.year);
+  if (landSectorFactor) {
+    const { landSector, ...factor } = landSectorFactor;
+    return {
+      applied: { ...factor, reference: { type: 'land_sector', key: landSector.model, version: landSectorService.METHOD_SOURCE } },
+      factorSource: 'land_sector',
+      landSector,
+    };
+  }
+
+  const spendFactor = await spendService.lookupSpendFactor(activity);
+  if (spendFactor) {
+    const { spend, ...factor } = spendFactor;
+    return {
+      applied: { ...factor, gases: null, reference: { type: 'eeio', id: spend.factorSetId, key: spend.sectorCode } },
+      factorSource: 'spend',
+      spend,
+    };
+  }
+
+  const lookupResult = await ghgService.lookupEmissionFactor(
+    activity.activity_type,
+    activity.unit,
+    activity.scope,
+    gwpSet,
+    context
+  );
+  return {
+    applied: {
+      factor: lookupResult.factor,
+      gases: lookupResult.gases || null,
+      unit: lookupResult.unit || activity.unit,
+      conversionFactor: lookupResult.conversionFactor,
+      source: lookupResult.source,
+      reference: lookupResult.reference,
+      ...(lookupResult.matchReason && { matchReason: lookupResult.matchReason }),
+    },
+    factorSource: 'default',
+  };
+}
+
+/**
+ * Store a run and its items; returns the run id
+ */
+export async function recordRun(run: {
+  id?: string;
+  projectId: string;
+  triggeredBy: string;
+  calculationType: 'activity' | 'project';
+  gwpSet: GWPSet;
+  items: RunItemInput[];
+}): Promise<string> {
+  const runId = run.id || generateId();
+  const total = roundTo(run.items.reduce((sum, item) => sum + item.totalEmissions, 0), 4);
+
+  await db.transaction(async (client) => {
+    await client.query(
+      `INSERT INTO calculation_runs (
+        id, project_id, triggered_by, calculation_type, status, gwp_set, tier2plus_multiplier,
+        activity_count, total_emissions_kg_co2e, completed_at
+      )
+      VALUES ($1, $2, $3, $4, 'completed', $5, $6, $7, $8, NOW())`,
+      [runId, run.projectId, run.triggeredBy, run.calculationType, run.gwpSet, config.tier2PlusMultiplier, run.items.length, total]
+    );
+
+    for (const item of run.items) {
+      await client.query(
+        `INSERT INTO calculation_run_items (
+          id, run_id, activity_id, inputs, factor, tier_multiplier, precursor_emissions,
+          gas_breakdown, total_emissions_kg_co2e
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+        [
+          generateId(),
+          runId,
+          item.activityId,
+          JSON.stringify(item.inputs),
+          JSON.stringify(item.factor),
+          item.tierMultiplier,
+          item.precursorEmissions,
+          JSON.stringify(item.gasBreakdown),
+          item.totalEmissions,
+        ]
+      );
+    }
+  });
+
+  return runId;
+}
+
+async function loadRun(runId: string, projectId: string): Promise<{ run: any; items: any[] }> {
+  const run = await db.queryOne(
+    `SELECT * FROM calculation_runs WHERE id = $1 AND project_id = $2`,
+    [runId, projectId]
+  );
+
+  if (!run) {
+    throw new NotFoundError('Calculation run not found');
+  }
+
+  const items = await db.query(
+    `SELECT * FROM calculation_run_items WHERE run_id = $1 ORDER BY created_at, id`,
+    [runId]
+  );
+
+  return { run, items: items.rows };
+}
+
+/**
+ * Recompute a run from its stored inputs and pinned factors, without any lookup
+ */
+export async function replayRun(runId: string, projectId: string): Promise<{
+  runId: string;
+  gwpSet: GWPSet;
+  reproduced: boolean;
+  storedTotalKgCo2e: number;
+  replayedTotalKgCo2e: number;
+  items: ReplayedItem[];
+}> {
+  const { run, items } = await loadRun(runId, projectId);
+
+  const replayed = items.map((item): ReplayedItem => {
+    const inputs: CalculationInputs = item.inputs;
+    const factor: AppliedFactor = item.factor;
+    const storedKgCo2e = parseFloat(item.total_emissions_kg_co2e);
+
+    const result = computeEmissions(
+      inputs.quantity,
+      factor,
+      run.gwp_set,
+      parseFloat(item.tier_multiplier),
+      parseFloat(item.precursor_emissions)
+    );
+
+    return {
+      activityId: item.activity_id,
+      storedKgCo2e,
+      replayedKgCo2e: result.totalEmissions,
+      reproduced: result.totalEmissions === storedKgCo2e && sameBreakdown(result.gasBreakdown, item.gas_breakdown),
+      reference: factor.reference,
+    };
+  });
+
+  return {
+    runId,
+    gwpSet: run.gwp_set,
+    reproduced: replayed.every((item) => item.reproduced),
+    storedTotalKgCo2e: parseFloat(run.total_emissions_kg_co2e),
+    replayedTotalKgCo2e: roundTo(replayed.reduce((sum, item) => sum + item.replayedKgCo2e, 0), 4),
+    items: replayed,
+  };
+}
+
+/**
+ * Factor that would apply to stored inputs today. An explicitly chosen row
+ * follows its lineage to the current version; custom factors do not change.
+ */
+async function resolveCurrentFactor(
+  inputs: CalculationInputs,
+  pinned: AppliedFactor,
+  projectId: string,
+  gwpSet: GWPSet
+): Promise<AppliedFactor> {
+  if (inputs.customEmissionFactor !== undefined) {
+    return pinned;
+  }
+
+  if (inputs.emissionFactorId) {
+    const current = await db.queryOne(
+      `SELECT id FROM emission_factors
+       WHERE lineage_id = (SELECT lineage_id FROM emission_factors WHERE id = $1)
+         AND superseded_at IS NULL
+       ORDER BY created_at DESC LIMIT 1`,
+      [inputs.emissionFactorId]
+    );
+    if (!current) {
+      throw new NotFoundError('The pinned emission factor has been retired');
+    }
+    return resolveFactorRow(current.id, inputs.unit, gwpSet);
+  }
+
+  const { applied } = await resolveActivityFactor({
+    project_id: projectId,
+    activity_type: inputs.activityType,
+    scope: inputs.scope,
+    unit: inputs.unit,
+    calculation_method: inputs.calculationMethod,
+    metadata: inputs.metadata,
+  }, gwpSet, inputs.matchContext);
+  return applied;
+}
+
+/**
+ * Recompute a run's stored inputs with the factors current today. The run's GWP
+ * set, tier multipliers and precursor emissions are kept, so only factor
+ * changes show up.
+ */
+export async function diffRun(runId: string, projectId: string): Promise<{
+  runId: string;
+  gwpSet: GWPSet;
+  previousTotalKgCo2e: number;
+  currentTotalKgCo2e: number;
+  differenceKgCo2e: number;
+  changed: number;
+  items: DiffedItem[];
+}> {
+  const { run, items } = await loadRun(runId, projectId);
+  const diffed: DiffedItem[] = [];
+
+  for (const item of items) {
+    const inputs: CalculationInputs = item.inputs;
+    const pinned: AppliedFactor = item.factor;
+    const previousKgCo2e = parseFloat(item.total_emissions_kg_co2e);
+    const previousFactor = { factor: pinned.factor, source: pinned.source, reference: pinned.reference };
+
+    try {
+      const current = await resolveCurrentFactor(inputs, pinned, projectId, run.gwp_set);
+      const { totalEmissions } = computeEmissions(
+        inputs.quantity,
+        current,
+        run.gwp_set,
+        parseFloat(item.tier_multiplier),
+        parseFloat(item.precursor_emissions)
+      );
+
+      diffed.push({
+        activityId: item.activity_id,
+        previousKgCo2e,
+        currentKgCo2e: totalEmissions,
+        differenceKgCo2e: roundTo(totalEmissions - previousKgCo2e, 4),
+        factorChanged: !sameReference(pinned.reference, current.reference) || current.factor !== pinned.factor,
+        previousFactor,
+        currentFactor: { factor: current.factor, source: current.source, reference: current.reference },
+      });
+    } catch (error: any) {
+      diffed.push({
+        activityId: item.activity_id,
+        previousKgCo2e,
+        currentKgCo2e: null,
+        differenceKgCo2e: null,
+        factorChanged: true,
+        previousFactor,
+        currentFactor: null,
+        error: error.message,
+      });
+    }
+  }
+
+  const previousTotal = parseFloat(run.total_emissions_kg_co2e);
+  const currentTotal = roundTo(diffed.reduce((sum, item) => sum + (item.currentKgCo2e ?? item.previousKgCo2e), 0), 4);
+
+  return {
+    runId,
+    gwpSet: run.gwp_set,
+    previousTotalKgCo2e: previousTotal,
+    currentTotalKgCo2e: currentTotal,
+    differenceKgCo2e: roundTo(currentTotal - previousTotal, 4),
+    changed: diffed.filter((item) => item.factorChanged).length,
+    items: diffed,
+  };
+}
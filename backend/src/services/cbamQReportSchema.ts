@@ -0,0 +1,245 @@
+/**
+ * Partial structure schema for the EU CBAM quarterly report (transitional
+ * period).
+ *
+ * This is NOT the official registry QReport XSD: it has no target namespace
+ * and models only the elements this application fills, with names and code
+ * lists taken from the registry structure. Passing it catches missing fields,
+ * malformed codes and bad numbers; it does not show the document will be
+ * accepted by the registry. Bundled as a module so it ships with the compiled
+ * server.
+ */
+export const CBAM_QREPORT_XSD = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema" elementFormDefault="qualified">
+
+  <!-- Simple types -->
+  <xs:simpleType name="CountryCode">
+    <xs:restriction base="xs:string">
+      <xs:pattern value="[A-Z]{2}"/>
+    </xs:restriction>
+  </xs:simpleType>
+
+  <xs:simpleType name="EORINumber">
+    <xs:restriction base="xs:string">
+      <xs:pattern value="[A-Z]{2}[A-Za-z0-9]{1,15}"/>
+    </xs:restriction>
+  </xs:simpleType>
+
+  <xs:simpleType name="CnCode">
+    <xs:restriction base="xs:string">
+      <xs:pattern value="[0-9]{8}"/>
+    </xs:restriction>
+  </xs:simpleType>
+
+  <xs:simpleType name="HsCode">
+    <xs:restriction base="xs:string">
+      <xs:pattern value="[0-9]{6}"/>
+    </xs:restriction>
+  </xs:simpleType>
+
+  <xs:simpleType name="ReportingPeriod">
+    <xs:restriction base="xs:string">
+      <xs:enumeration value="Q1"/>
+      <xs:enumeration value="Q2"/>
+      <xs:enumeration value="Q3"/>
+      <xs:enumeration value="Q4"/>
+    </xs:restriction>
+  </xs:simpleType>
+
+  <!-- 01 = actual data, 02 = default values, 03 = other methods -->
+  <xs:simpleType name="DeterminationType">
+    <xs:restriction base="xs:string">
+      <xs:enumeration value="01"/>
+      <xs:enumeration value="02"/>
+      <xs:enumeration value="03"/>
+    </xs:restriction>
+  </xs:simpleType>
+
+  <!-- 01 = tonnes -->
+  <xs:simpleType name="MeasurementUnit">
+    <xs:restriction base="xs:string">
+      <xs:enumeration value="01"/>
+    </xs:restriction>
+  </xs:simpleType>
+
+  <!-- 01 = carbon tax or levy, 02 = emissions trading system -->
+  <xs:simpleType name="CarbonPriceType">
+    <xs:restriction base="xs:string">
+      <xs:enumeration value="01"/>
+      <xs:enumeration value="02"/>
+    </xs:restriction>
+  </xs:simpleType>
+
+  <xs:simpleType name="NonNegativeDecimal">
+    <xs:restriction base="xs:decimal">
+      <xs:minInclusive value="0"/>
+      <xs:fractionDigits value="7"/>
+    </xs:restriction>
+  </xs:simpleType>
+
+  <xs:simpleType name="Text70">
+    <xs:restriction base="xs:string">
+      <xs:minLength value="1"/>
+      <xs:maxLength value="70"/>
+    </xs:restriction>
+  </xs:simpleType>
+
+  <xs:simpleType name="Text512">
+    <xs:restriction base="xs:string">
+      <xs:maxLength value="512"/>
+    </xs:restriction>
+  </xs:simpleType>
+
+  <!-- Complex types -->
+  <xs:complexType name="Address">
+    <xs:sequence>
+      <xs:element name="Country" type="CountryCode"/>
+      <xs:element name="City" type="Text70" minOccurs="0"/>
+      <xs:element name="Street" type="Text70" minOccurs="0"/>
+      <xs:element name="PostCode" type="Text70" minOccurs="0"/>
+    </xs:sequence>
+  </xs:complexType>
+
+  <xs:complexType name="Declarant">
+    <xs:sequence>
+      <xs:element name="IdentificationNumber" type="EORINumber"/>
+      <xs:element name="Name" type="Text70"/>
+      <xs:element name="ActorAddress" type="Address"/>
+    </xs:sequence>
+  </xs:complexType>
+
+  <xs:complexType name="CommodityCode">
+    <xs:sequence>
+      <xs:element name="HsCode" type="HsCode"/>
+      <xs:element name="CnCode" type="CnCode"/>
+      <xs:element name="CommodityDescription" type="Text512" minOccurs="0"/>
+    </xs:sequence>
+  </xs:complexType>
+
+  <xs:complexType name="Measure">
+    <xs:sequence>
+      <xs:element name="NetMass" type="NonNegativeDecimal"/>
+      <xs:element name="MeasurementUnit" type="MeasurementUnit"/>
+    </xs:sequence>
+  </xs:complexType>
+
+  <xs:complexType name="InstallationOperator">
+    <xs:sequence>
+      <xs:element name="OperatorId" type="Text70"/>
+      <xs:element name="OperatorName" type="Text70"/>
+    </xs:sequence>
+  </xs:complexType>
+
+  <xs:complexType name="Installation">
+    <xs:sequence>
+      <xs:element name="InstallationId" type="Text70"/>
+      <xs:element name="InstallationName" type="Text70"/>
+      <xs:element name="Address" type="Address"/>
+    </xs:sequence>
+  </xs:complexType>
+
+  <xs:complexType name="DirectEmissions">
+    <xs:sequence>
+      <xs:element name="DeterminationType" type="DeterminationType"/>
+      <xs:element name="SpecificEmbeddedEmissions" type="NonNegativeDecimal"/>
+    </xs:sequence>
+  </xs:complexType>
+
+  <xs:complexType name="IndirectEmissions">
+    <xs:sequence>
+      <xs:element name="DeterminationType" type="DeterminationType"/>
+      <xs:element name="EmissionFactorSource" type="Text512" minOccurs="0"/>
+      <xs:element name="SpecificEmbeddedEmissions" type="NonNegativeDecimal"/>
+    </xs:sequence>
+  </xs:complexType>
+
+  <xs:complexType name="Precursor">
+    <xs:sequence>
+      <xs:element name="Material" type="Text70"/>
+      <xs:element name="ProductionRoute" type="Text70" minOccurs="0"/>
+      <xs:element name="ConsumedQuantity" type="NonNegativeDecimal"/>
+      <xs:element name="SpecificEmbeddedEmissions" type="NonNegativeDecimal"/>
+      <xs:element name="DeterminationType" type="DeterminationType"/>
+    </xs:sequence>
+  </xs:complexType>
+
+  <xs:complexType name="CarbonPriceDue">
+    <xs:sequence>
+      <xs:element name="TypeOfInstrument" type="CarbonPriceType"/>
+      <xs:element name="Country" type="CountryCode"/>
+      <xs:element name="Amount" type="NonNegativeDecimal"/>
+      <xs:element name="Currency">
+        <xs:simpleType>
+          <xs:restriction base="xs:string">
+            <xs:pattern value="[A-Z]{3}"/>
+          </xs:restriction>
+        </xs:simpleType>
+      </xs:element>
+    </xs:sequence>
+  </xs:complexType>
+
+  <xs:complexType name="GoodsEmissions">
+    <xs:sequence>
+      <xs:element name="SequenceNumber" type="xs:positiveInteger"/>
+      <xs:element name="ProductionCountry" type="CountryCode"/>
+      <xs:element name="InstallationOperator" type="InstallationOperator"/>
+      <xs:element name="Installation" type="Installation"/>
+      <xs:element name="ProducedMeasure" type="Measure"/>
+      <xs:element name="DirectEmissions" type="DirectEmissions"/>
+      <xs:element name="IndirectEmissions" type="IndirectEmissions"/>
+      <xs:element name="Precursors" minOccurs="0">
+        <xs:complexType>
+          <xs:sequence>
+            <xs:element name="Precursor" type="Precursor" maxOccurs="unbounded"/>
+          </xs:sequence>
+        </xs:complexType>
+      </xs:element>
+      <xs:element name="CarbonPriceDue" type="CarbonPriceDue" minOccurs="0" maxOccurs="unbounded"/>
+      <xs:element name="RemarksEmissions" type="Text512" minOccurs="0"/>
+    </xs:sequence>
+  </xs:complexType>
+
+  <xs:complexType name="GoodsImported">
+    <xs:sequence>
+      <xs:element name="ItemNumber" type="xs:positiveInteger"/>
+      <xs:element name="CommodityCode" type="CommodityCode"/>
+      <xs:element name="OriginCountry">
+        <xs:complexType>
+          <xs:sequence>
+            <xs:element name="CountryCodeToReport" type="CountryCode"/>
+          </xs:sequence>
+        </xs:complexType>
+      </xs:element>
+      <xs:element name="MeasureImported" type="Measure"/>
+      <xs:element name="TotalEmissions" type="NonNegativeDecimal"/>
+      <xs:element name="GoodsEmissions" type="GoodsEmissions" maxOccurs="unbounded"/>
+    </xs:sequence>
+  </xs:complexType>
+
+  <!-- Root -->
+  <xs:element name="QReport">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element name="ReportId" type="Text70"/>
+        <xs:element name="ReportingPeriod" type="ReportingPeriod"/>
+        <xs:element name="Year">
+          <xs:simpleType>
+            <xs:restriction base="xs:gYear">
+              <xs:minInclusive value="2023"/>
+            </xs:restriction>
+          </xs:simpleType>
+        </xs:element>
+        <xs:element name="TotalImported" type="xs:positiveInteger"/>
+        <xs:element name="TotalEmissions" type="NonNegativeDecimal"/>
+        <xs:element name="Declarant" type="Declarant"/>
+        <xs:element name="GoodsImported" type="GoodsImported" maxOccurs="unbounded"/>
+      </xs:sequence>
+    </xs:complexType>
+    <xs:unique name="UniqueItemNumber">
+      <xs:selector xpath="GoodsImported"/>
+      <xs:field xpath="ItemNumber"/>
+    </xs:unique>
+  </xs:element>
+
+</xs:schema>
+`;
@@ -0,0 +1,289 @@
+/**
+ * CBAM Embedded Emissions Service
+ *
+ * Specific embedded emissions (SEE) of goods produced by an installation,
+ * following Implementing Regulation (EU) 2023/1773, Annex III:
+ *
+ *   SEE_direct   = (AttrEm_direct   + Σ M_precursor × SEE_direct,precursor)   / AL
+ *   SEE_indirect = (AttrEm_indirect + Σ M_precursor × SEE_indirect,precursor) / AL
+ *
+ * Attributed direct emissions only count the greenhouse gases inside the
+ * goods category's system boundary, corrected for measurable heat imported or
+ * exported and for electricity exported. Precursors produced by another
+ * process of the same installation carry that process's SEE.
+ */
+
+import { db } from '../config/database';
+import { roundTo } from '../utils/helpers';
+import { BadRequestError } from '../middleware/errorHandler';
+import * as gwpService from './gwpService';
+import * as ghgService from './ghgService';
+import * as cnCodeService from './cnCodeService';
+import type {
+  CBAMGoodsCategory,
+  CBAMProductionProcess,
+  CBAMPrecursorInput,
+  CBAMProcessResult,
+  CBAMCnCodeResult,
+  CBAMEmbeddedEmissionsResult,
+  GreenhouseGas,
+  GWPSet,
+} from '../types';
+
+// Reference emission factor for measurable heat (natural gas boiler, 90% efficiency)
+export const DEFAULT_HEAT_EMISSION_FACTOR = 62.3; // tCO2/TJ
+
+// Greenhouse gases inside the system boundary of each goods category (Annex II, section 2)
+const RELEVANT_GASES: Partial<Record<CBAMGoodsCategory, GreenhouseGas[]>> = {
+  nitric_acid: ['CO2', 'N2O'],
+  mixed_fertilisers: ['CO2', 'N2O'],
+  unwrought_aluminium: ['CO2', 'PFC-14', 'PFC-116'],
+  aluminium_products: ['CO2', 'PFC-14', 'PFC-116'],
+};
+
+export function getRelevantGases(goodsCategory: CBAMGoodsCategory): GreenhouseGas[] {
+  return RELEVANT_GASES[goodsCategory] || ['CO2'];
+}
+
+/**
+ * Order processes so that internal precursors are calculated before the
+ * processes consuming them
+ */
+function orderProcesses(processes: CBAMProductionProcess[]): CBAMProductionProcess[] {
+  const byId = new Map(processes.map((p) => [p.id, p]));
+  const ordered: CBAMProductionProcess[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  const visit = (process: CBAMProductionProcess): void => {
+    if (state.get(process.id) === 'done') return;
+    if (state.get(process.id) === 'visiting') {
+      throw new BadRequestError(`Precursor loop detected at process "${process.name}"`);
+    }
+    state.set(process.id, 'visiting');
+    for (const precursor of process.precursors) {
+      if (!precursor.fromProcessId) continue;
+      const source = byId.get(precursor.fromProcessId);
+      if (!source) {
+        throw new BadRequestError(`Process "${process.name}" uses a precursor from an unknown process`);
+      }
+      visit(source);
+    }
+    state.set(process.id, 'done');
+    ordered.push(process);
+  };
+
+  processes.forEach(visit);
+  return ordered;
+}
+
+/**
+ * Direct emissions (tCO2e) of the gases inside a process's system boundary,
+ * before heat and electricity corrections
+ */
+export function boundaryEmissions(
+  process: CBAMProductionProcess,
+  gwpSet: GWPSet,
+  warnings: string[] = []
+): number {
+  const relevant = getRelevantGases(process.goodsCategory);
+  let emissions = 0;
+
+  for (const [gas, amount] of Object.entries(process.directEmissions) as [GreenhouseGas, number][]) {
+    if (!relevant.includes(gas)) {
+      warnings.push(`${process.name}: ${gas} is outside the ${process.goodsCategory} system boundary and was not counted`);
+      continue;
+    }
+    emissions += amount * gwpService.getGWP(gas, gwpSet);
+  }
+
+  return emissions;
+}
+
+/**
+ * Attributed direct emissions (tCO2e) of a process
+ */
+function attributedDirectEmissions(
+  process: CBAMProductionProcess,
+  gwpSet: GWPSet,
+  warnings: string[]
+): number {
+  let emissions = boundaryEmissions(process, gwpSet, warnings);
+
+  const heatFactor = process.heatEmissionFactor ?? DEFAULT_HEAT_EMISSION_FACTOR;
+  emissions += ((process.heatImportedTj || 0) - (process.heatExportedTj || 0)) * heatFactor;
+  emissions -= (process.electricityExportedMwh || 0) * (process.electricityEmissionFactor || 0);
+
+  return Math.max(emissions, 0);
+}
+
+/**
+ * Calculate SEE for every process of an installation and each CN code it produces
+ */
+export function calculateEmbeddedEmissions(
+  processes: CBAMProductionProcess[],
+  gwpSet: GWPSet = gwpService.DEFAULT_GWP_SET
+): CBAMEmbeddedEmissionsResult {
+  const warnings: string[] = [];
+  const results = new Map<string, CBAMProcessResult>();
+
+  for (const process of orderProcesses(processes)) {
+    if (process.activityLevel <= 0) {
+      throw new BadRequestError(`Process "${process.name}" has no production (activity level must be positive)`);
+    }
+
+    const attributedDirect = attributedDirectEmissions(process, gwpSet, warnings);
+    // Electricity as a good has no indirect emissions of its own
+    const attributedIndirect = process.goodsCategory === 'electricity'
+      ? 0
+      : (process.electricityConsumedMwh || 0) * (process.electricityEmissionFactor || 0);
+
+    const relevantPrecursors = cnCodeService.getGoodsCategory(process.goodsCategory).precursors;
+    let precursorDirect = 0;
+    let precursorIndirect = 0;
+
+    for (const precursor of process.precursors) {
+      if (!relevantPrecursors.includes(precursor.goodsCategory)) {
+        warnings.push(`${process.name}: ${precursor.goodsCategory} is not a relevant precursor of ${process.goodsCategory} and was not counted`);
+        continue;
+      }
+
+      const see = precursorSEE(precursor, results);
+      precursorDirect += precursor.consumedTonnes * see.direct;
+      precursorIndirect += precursor.consumedTonnes * see.indirect;
+    }
+
+    const seeDirect = (attributedDirect + precursorDirect) / process.activityLevel;
+    const seeIndirect = (attributedIndirect + precursorIndirect) / process.activityLevel;
+
+    results.set(process.id, {
+      processId: process.id,
+      name: process.name,
+      goodsCategory: process.goodsCategory,
+      productionRoute: process.productionRoute,
+      activityLevel: process.activityLevel,
+      attributedDirect: roundTo(attributedDirect, 4),
+      attributedIndirect: roundTo(attributedIndirect, 4),
+      precursorDirect: roundTo(precursorDirect, 4),
+      precursorIndirect: roundTo(precursorIndirect, 4),
+      seeDirect: roundTo(seeDirect, 6),
+      seeIndirect: roundTo(seeIndirect, 6),
+      seeTotal: roundTo(seeDirect + seeIndirect, 6),
+    });
+  }
+
+  // Processes keep the caller's order in the output
+  const processResults = processes.map((p) => results.get(p.id)!);
+
+  const byCnCode: CBAMCnCodeResult[] = [];
+  for (const process of processes) {
+    const result = results.get(process.id)!;
+    for (const code of process.cnCodes) {
+      const cnCode = cnCodeService.normalizeCnCode(code);
+      const entry = cnCodeService.findCnCode(cnCode);
+      if (entry && entry.goodsCategory !== process.goodsCategory) {
+        warnings.push(`${process.name}: CN code ${cnCode} belongs to ${entry.goodsCategory}, not ${process.goodsCategory}`);
+      }
+      byCnCode.push({
+        cnCode,
+        description: entry?.description,
+        goodsCategory: process.goodsCategory,
+        processId: process.id,
+        seeDirect: result.seeDirect,
+        seeIndirect: result.seeIndirect,
+        seeTotal: result.seeTotal,
+      });
+    }
+  }
+
+  return { gwpSet, processes: processResults, byCnCode, warnings };
+}
+
+function precursorSEE(
+  precursor: CBAMPrecursorInput,
+  results: Map<string, CBAMProcessResult>
+): { direct: number; indirect: number } {
+  if (precursor.fromProcessId) {
+    const source = results.get(precursor.fromProcessId)!;
+    return { direct: source.seeDirect, indirect: source.seeIndirect };
+  }
+  return { direct: precursor.seeDirect || 0, indirect: precursor.seeIndirect || 0 };
+}
+
+/**
+ * Map a cbam_production_processes row
+ */
+export function mapProcessRow(row: any): CBAMProductionProcess {
+  const toNumber = (value: any): number | undefined => (value === null || value === undefined ? undefined : parseFloat(value));
+  return {
+    id: row.id,
+    name: row.name,
+    goodsCategory: row.goods_category,
+    cnCodes: row.cn_codes || [],
+    productionRoute: row.production_route || undefined,
+    activityLevel: parseFloat(row.activity_level),
+    directEmissions: gwpService.parseGasAmounts(row.direct_emissions) || {},
+    heatImportedTj: toNumber(row.heat_imported_tj),
+    heatExportedTj: toNumber(row.heat_exported_tj),
+    heatEmissionFactor: toNumber(row.heat_emission_factor),
+    electricityConsumedMwh: toNumber(row.electricity_consumed_mwh),
+    electricityExportedMwh: toNumber(row.electricity_exported_mwh),
+    electricityEmissionFactor: toNumber(row.electricity_emission_factor),
+    precursors: row.precursors || [],
+  };
+}
+
+/**
+ * Load an installation's processes for a reporting year. Purchased precursors
+ * without supplier data fall back to CBAM default values for the country of
+ * the installation.
+ */
+export async function loadInstallationProcesses(
+  installationId: string,
+  reportingYear: number
+): Promise<{ processes: CBAMProductionProcess[]; warnings: string[] }> {
+  const installation = await db.query(
+    `SELECT country FROM cbam_installations WHERE id = $1`,
+    [installationId]
+  );
+  const country = installation.rows[0]?.country || '';
+
+  const result = await db.query(
+    `SELECT * FROM cbam_production_processes
+     WHERE installation_id = $1 AND reporting_year = $2
+     ORDER BY created_at`,
+    [installationId, reportingYear]
+  );
+
+  const processes = result.rows.map(mapProcessRow);
+  const defaultsUsed: string[] = [];
+
+  for (const process of processes) {
+    for (const precursor of process.precursors) {
+      if (precursor.fromProcessId || precursor.seeDirect !== undefined) continue;
+
+      const material = cnCodeService.getGoodsCategory(precursor.goodsCategory).material;
+      const defaults = await ghgService.getCBAMEmissionFactors(material, country);
+      precursor.seeDirect = defaults.directEmissions;
+      precursor.seeIndirect = defaults.indirectEmissions;
+      precursor.source = defaults.source;
+      defaultsUsed.push(`${process.name}: default values used for precursor ${precursor.goodsCategory}`);
+    }
+  }
+
+  return { processes, warnings: defaultsUsed };
+}
+
+/**
+ * Calculate SEE for an installation's processes in a reporting year
+ */
+export async function calculateInstallation(
+  installationId: string,
+  reportingYear: number,
+  gwpSet: GWPSet
+): Promise<CBAMEmbeddedEmissionsResult> {
+  const { processes, warnings } = await loadInstallationProcesses(installationId, reportingYear);
+
+  const calculation = calculateEmbeddedEmissions(processes, gwpSet);
+  calculation.warnings.push(...warnings);
+  return calculation;
+}
@@ -0,0 +1,663 @@
+/**
+ * CBAM Operator Communication Template Service
+ *
+ * Reads and writes the communication template installation operators use to
+ * pass embedded emissions to their customers. The workbook keeps the sheet
+ * names of the Commission's template, laid out as plain tables:
+ *
+ *   A_InstData        installation and reporting period (Field / Value)
+ *   D_Processes       one production process per aggregated goods category
+ *   D_Precursors      precursor mass consumed by each process
+ *   E_PurchPrec       purchased precursors and their SEE
+ *   Summary_Products  SEE per CN code
+ *
+ * Parsing never throws on bad content: every problem is returned as a
+ * ParsingError with its sheet, row and column. Row 0 marks a sheet-level error.
+ */
+
+import * as XLSX from 'xlsx';
+import { roundTo } from '../utils/helpers';
+import * as cbamService from './cbamService';
+import * as cnCodeService from './cnCodeService';
+import * as gwpService from './gwpService';
+import type {
+  CBAMGoodsCategory,
+  CBAMOperatorTemplate,
+  CBAMOperatorTemplateParseResult,
+  CBAMProductionProcess,
+  CBAMCnCodeResult,
+  CBAMInstallation,
+  GWPSet,
+  ParsingError,
+} from '../types';
+
+export const TEMPLATE_SHEETS = {
+  installation: 'A_InstData',
+  processes: 'D_Processes',
+  precursors: 'D_Precursors',
+  purchased: 'E_PurchPrec',
+  products: 'Summary_Products',
+} as const;
+
+// Installation fields held as text on the template
+type InstallationTextField = keyof Pick<
+  CBAMInstallation,
+  'name' | 'registryId' | 'operatorName' | 'operatorId' | 'country' | 'city' | 'street' | 'postCode'
+>;
+
+const INSTALLATION_FIELDS: { label: string; key: InstallationTextField | 'start' | 'end'; required?: boolean }[] = [
+  { label: 'Reporting period start', key: 'start', required: true },
+  { label: 'Reporting period end', key: 'end', required: true },
+  { label: 'Installation name', key: 'name', required: true },
+  { label: 'Installation ID', key: 'registryId' },
+  { label: 'Operator name', key: 'operatorName' },
+  { label: 'Operator ID', key: 'operatorId' },
+  { label: 'Country', key: 'country', required: true },
+  { label: 'City', key: 'city' },
+  { label: 'Street', key: 'street' },
+  { label: 'Post code', key: 'postCode' },
+];
+
+const PROCESS_COLUMNS = [
+  'Process ID',
+  'Process name',
+  'Aggregated goods category',
+  'Production route',
+  'Activity level (t)',
+  'Directly attributable emissions (tCO2e)',
+  'Heat imported (TJ)',
+  'Heat exported (TJ)',
+  'Heat emission factor (tCO2/TJ)',
+  'Electricity consumed (MWh)',
+  'Electricity exported (MWh)',
+  'Electricity emission factor (tCO2/MWh)',
+];
+
+const PRECURSOR_COLUMNS = ['Process ID', 'Precursor', 'Consumed (t)'];
+
+const PURCHASED_COLUMNS = ['Precursor ID', 'Aggregated goods category', 'SEE direct (tCO2e/t)', 'SEE indirect (tCO2e/t)', 'Source'];
+
+const PRODUCT_COLUMNS = ['CN code', 'Goods description', 'Process ID', 'SEE direct (tCO2e/t)', 'SEE indirect (tCO2e/t)', 'SEE total (tCO2e/t)'];
+
+// Labels used in the Commission's template for categories whose names differ from ours
+const GOODS_CATEGORY_ALIASES: Record<string, CBAMGoodsCategory> = {
+  iron_or_steel_products: 'iron_steel_products',
+  direct_reduced_iron: 'dri',
+};
+
+// Reported SEE may differ from the recalculated value by this much (rounding in the template)
+const SEE_TOLERANCE = 0.01;
+
+interface SheetRow {
+  row: number;
+  values: Record<string, any>;
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/**
+ * Parse an operator communication template workbook
+ */
+export function parseOperatorTemplate(workbook: XLSX.WorkBook): CBAMOperatorTemplateParseResult {
+  const errors: ParsingError[] = [];
+
+  const { installation, reportingPeriod } = parseInstallation(workbook, errors);
+  const purchased = parsePurchasedPrecursors(workbook, errors);
+  const processes = parseProcesses(workbook, purchased, errors);
+  parseConsumedPrecursors(workbook, processes, purchased, errors);
+  const reported = parseProducts(workbook, processes, errors);
+
+  const template: CBAMOperatorTemplate = {
+    reportingPeriod,
+    installation,
+    processes: Array.from(processes.values()),
+    reportedSEE: reported.map((r) => r.result),
+  };
+
+  if (!errors.some((e) => e.severity === 'error')) {
+    checkReportedSEE(template, reported, errors);
+  }
+
+  return { template, errors };
+}
+
+function parseInstallation(
+  workbook: XLSX.WorkBook,
+  errors: ParsingError[]
+): Pick<CBAMOperatorTemplate, 'installation' | 'reportingPeriod'> {
+  const sheet = TEMPLATE_SHEETS.installation;
+  const installation: CBAMOperatorTemplate['installation'] = { name: '', country: '' };
+  const reportingPeriod = { start: '', end: '' };
+
+  const before = errors.length;
+  const rows = readSheet(workbook, sheet, ['Field', 'Value'], errors);
+  const readable = errors.length === before;
+  const byLabel = new Map(rows.map((r) => [String(r.values['Field'] ?? '').trim().toLowerCase(), r]));
+
+  for (const field of INSTALLATION_FIELDS) {
+    const entry = byLabel.get(field.label.toLowerCase());
+    const value = entry ? entry.values['Value'] : null;
+
+    if (isBlank(value)) {
+      if (field.required && readable) {
+        errors.push({
+          sheet,
+          row: entry?.row ?? 0,
+          column: field.label,
+          value: null,
+          error: `${field.label} is required`,
+          severity: 'error',
+        });
+      }
+      continue;
+    }
+
+    const cell = cellReader(sheet, entry!, errors);
+    if (field.key === 'start' || field.key === 'end') {
+      reportingPeriod[field.key] = cell.date('Value') || '';
+    } else if (field.key === 'country') {
+      const country = String(value).trim().toUpperCase();
+      if (!/^[A-Z]{2}$/.test(country)) {
+        cell.fail('Value', 'Country must be an ISO 3166-1 alpha-2 code');
+      } else {
+        installation.country = country;
+      }
+    } else {
+      installation[field.key] = String(value).trim();
+    }
+  }
+
+  if (reportingPeriod.start && reportingPeriod.end && reportingPeriod.start > reportingPeriod.end) {
+    errors.push({
+      sheet,
+      row: byLabel.get('reporting period end')!.row,
+      column: 'Value',
+      value: reportingPeriod.end,
+      error: 'Reporting period end is before its start',
+      severity: 'error',
+    });
+  }
+
+  return { installation, reportingPeriod };
+}
+
+interface PurchasedPrecursor {
+  goodsCategory: CBAMGoodsCategory;
+  seeDirect: number;
+  seeIndirect: number;
+  source?: string;
+}
+
+function parsePurchasedPrecursors(
+  workbook: XLSX.WorkBook,
+  errors: ParsingError[]
+): Map<string, PurchasedPrecursor> {
+  const sheet = TEMPLATE_SHEETS.purchased;
+  const purchased = new Map<string, PurchasedPrecursor>();
+
+  // Installations without purchased precursors may leave the sheet out
+  if (!workbook.Sheets[sheet]) {
+    return purchased;
+  }
+
+  for (const row of readSheet(workbook, sheet, PURCHASED_COLUMNS.slice(0, 4), errors)) {
+    const cell = cellReader(sheet, row, errors);
+    const id = cell.text('Precursor ID', true);
+    const goodsCategory = cell.goodsCategory('Aggregated goods category');
+    const seeDirect = cell.number('SEE direct (tCO2e/t)', true);
+    const seeIndirect = cell.number('SEE indirect (tCO2e/t)', true);
+
+    if (cell.failed()) continue;
+    if (purchased.has(id!)) {
+      cell.fail('Precursor ID', `Duplicate precursor ID "${id}"`);
+      continue;
+    }
+
+    purchased.set(id!, {
+      goodsCategory: goodsCategory!,
+      seeDirect: seeDirect!,
+      seeIndirect: seeIndirect!,
+      source: cell.text('Source'),
+    });
+  }
+
+  return purchased;
+}
+
+function parseProcesses(
+  workbook: XLSX.WorkBook,
+  purchased: Map<string, PurchasedPrecursor>,
+  errors: ParsingError[]
+): Map<string, CBAMProductionProcess> {
+  const sheet = TEMPLATE_SHEETS.processes;
+  const processes = new Map<string, CBAMProductionProcess>();
+
+  for (const row of readSheet(workbook, sheet, PROCESS_COLUMNS.slice(0, 6), errors)) {
+    const cell = cellReader(sheet, row, errors);
+    const id = cell.text('Process ID', true);
+    const name = cell.text('Process name', true);
+    const goodsCategory = cell.goodsCategory('Aggregated goods category');
+    const activityLevel = cell.number('Activity level (t)', true);
+    const direct = cell.number('Directly attributable emissions (tCO2e)', true);
+
+    let productionRoute = cell.text('Production route');
+    if (productionRoute && goodsCategory) {
+      const { routes } = cnCodeService.getGoodsCategory(goodsCategory);
+      const route = routes.find((r) => r.toLowerCase() === productionRoute!.toLowerCase());
+      if (!route) {
+        cell.fail('Production route', `Route does not apply to ${goodsCategory} (${routes.join(', ')})`);
+      }
+      productionRoute = route;
+    }
+
+    const process: Partial<CBAMProductionProcess> = {
+      heatImportedTj: cell.number('Heat imported (TJ)'),
+      heatExportedTj: cell.number('Heat exported (TJ)'),
+      heatEmissionFactor: cell.number('Heat emission factor (tCO2/TJ)'),
+      electricityConsumedMwh: cell.number('Electricity consumed (MWh)'),
+      electricityExportedMwh: cell.number('Electricity exported (MWh)'),
+      electricityEmissionFactor: cell.number('Electricity emission factor (tCO2/MWh)'),
+    };
+
+    if (activityLevel === 0) {
+      cell.fail('Activity level (t)', 'Activity level must be positive');
+    }
+    if (cell.failed()) continue;
+    if (processes.has(id!) || purchased.has(id!)) {
+      cell.fail('Process ID', `Duplicate process ID "${id}"`);
+      continue;
+    }
+
+    processes.set(id!, {
+      ...process,
+      id: id!,
+      name: name!,
+      goodsCategory: goodsCategory!,
+      cnCodes: [],
+      productionRoute,
+      activityLevel: activityLevel!,
+      // The template reports attributable emissions in CO2e only
+      directEmissions: { CO2: direct! },
+      precursors: [],
+    });
+  }
+
+  return processes;
+}
+
+function parseConsumedPrecursors(
+  workbook: XLSX.WorkBook,
+  processes: Map<string, CBAMProductionProcess>,
+  purchased: Map<string, PurchasedPrecursor>,
+  errors: ParsingError[]
+): void {
+  const sheet = TEMPLATE_SHEETS.precursors;
+
+  // Processes without precursors (e.g. clinker, hydrogen) need no precursor sheet
+  if (!workbook.Sheets[sheet]) {
+    return;
+  }
+
+  for (const row of readSheet(workbook, sheet, PRECURSOR_COLUMNS, errors)) {
+    const cell = cellReader(sheet, row, errors);
+    const processId = cell.text('Process ID', true);
+    const precursorId = cell.text('Precursor', true);
+    const consumedTonnes = cell.number('Consumed (t)', true);
+
+    if (cell.failed()) continue;
+
+    const process = processes.get(processId!);
+    if (!process) {
+      cell.fail('Process ID', `Unknown process "${processId}"`);
+      continue;
+    }
+
+    const internal = processes.get(precursorId!);
+    const external = purchased.get(precursorId!);
+    if (!internal && !external) {
+      cell.fail('Precursor', `"${precursorId}" is neither a process nor a purchased precursor`);
+      continue;
+    }
+
+    const goodsCategory = internal ? internal.goodsCategory : external!.goodsCategory;
+    if (!cnCodeService.getGoodsCategory(process.goodsCategory).precursors.includes(goodsCategory)) {
+      errors.push({
+        sheet,
+        row: row.row,
+        column: 'Precursor',
+        value: precursorId,
+        error: `${goodsCategory} is not a relevant precursor of ${process.goodsCategory} and will not be counted`,
+        severity: 'warning',
+      });
+    }
+
+    process.precursors.push(internal
+      ? { goodsCategory, consumedTonnes: consumedTonnes!, fromProcessId: internal.id }
+      : {
+          goodsCategory,
+          consumedTonnes: consumedTonnes!,
+          seeDirect: external!.seeDirect,
+          seeIndirect: external!.seeIndirect,
+          source: external!.source,
+        });
+  }
+}
+
+function parseProducts(
+  workbook: XLSX.WorkBook,
+  processes: Map<string, CBAMProductionProcess>,
+  errors: ParsingError[]
+): { row: number; result: CBAMCnCodeResult }[] {
+  const sheet = TEMPLATE_SHEETS.products;
+  const reported: { row: number; result: CBAMCnCodeResult }[] = [];
+
+  for (const row of readSheet(workbook, sheet, ['CN code', 'Process ID', 'SEE direct (tCO2e/t)', 'SEE indirect (tCO2e/t)'], errors)) {
+    const cell = cellReader(sheet, row, errors);
+    const rawCode = cell.text('CN code', true);
+    const processId = cell.text('Process ID', true);
+    const seeDirect = cell.number('SEE direct (tCO2e/t)', true);
+    const seeIndirect = cell.number('SEE indirect (tCO2e/t)', true);
+    const seeTotal = cell.number('SEE total (tCO2e/t)');
+
+    if (cell.failed()) continue;
+
+    const cnCode = cnCodeService.normalizeCnCode(rawCode!);
+    const entry = cnCodeService.isValidCnCode(cnCode) ? cnCodeService.findCnCode(cnCode) : null;
+    if (!entry) {
+      cell.fail('CN code', `"${rawCode}" is not an 8-digit CN code covered by CBAM`);
+      continue;
+    }
+
+    const process = processes.get(processId!);
+    if (!process) {
+      cell.fail('Process ID', `Unknown process "${processId}"`);
+      continue;
+    }
+
+    if (entry.goodsCategory !== process.goodsCategory) {
+      errors.push({
+        sheet,
+        row: row.row,
+        column: 'CN code',
+        value: rawCode,
+        error: `CN code belongs to ${entry.goodsCategory}, not ${process.goodsCategory}`,
+        severity: 'warning',
+      });
+    }
+
+    if (seeTotal !== undefined && Math.abs(seeTotal - (seeDirect! + seeIndirect!)) > 0.001) {
+      errors.push({
+        sheet,
+        row: row.row,
+        column: 'SEE total (tCO2e/t)',
+        value: seeTotal,
+        error: 'SEE total is not the sum of direct and indirect SEE',
+        severity: 'warning',
+      });
+    }
+
+    if (!process.cnCodes.includes(cnCode)) {
+      process.cnCodes.push(cnCode);
+    }
+
+    reported.push({
+      row: row.row,
+      result: {
+        cnCode,
+        description: cell.text('Goods description') || entry.description,
+        goodsCategory: process.goodsCategory,
+        processId: process.id,
+        seeDirect: seeDirect!,
+        seeIndirect: seeIndirect!,
+        seeTotal: roundTo(seeDirect! + seeIndirect!, 6),
+      },
+    });
+  }
+
+  return reported;
+}
+
+/**
+ * Recalculate SEE from the process data and flag reported values that disagree
+ */
+function checkReportedSEE(
+  template: CBAMOperatorTemplate,
+  reported: { row: number; result: CBAMCnCodeResult }[],
+  errors: ParsingError[]
+): void {
+  let calculation;
+  try {
+    calculation = cbamService.calculateEmbeddedEmissions(template.processes);
+  } catch (error: any) {
+    errors.push({
+      sheet: TEMPLATE_SHEETS.precursors,
+      row: 0,
+      column: 'Precursor',
+      value: null,
+      error: error.message,
+      severity: 'error',
+    });
+    return;
+  }
+
+  for (const { row, result } of reported) {
+    const calculated = calculation.processes.find((p) => p.processId === result.processId)!;
+    const difference = Math.abs(calculated.seeTotal - result.seeTotal);
+    if (difference > SEE_TOLERANCE * Math.max(calculated.seeTotal, result.seeTotal)) {
+      errors.push({
+        sheet: TEMPLATE_SHEETS.products,
+        row,
+        column: 'SEE total (tCO2e/t)',
+        value: result.seeTotal,
+        error: `Reported SEE differs from ${calculated.seeTotal} tCO2e/t calculated from the process data`,
+        severity: 'warning',
+      });
+    }
+  }
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Build an operator communication template workbook.
+ * Processes get template IDs P1, P2, ... and purchased precursors PP1, PP2, ...
+ */
+export function buildOperatorTemplate(
+  template: CBAMOperatorTemplate,
+  gwpSet: GWPSet = gwpService.DEFAULT_GWP_SET
+): XLSX.WorkBook {
+  const { installation, reportingPeriod } = template;
+  const processIds = new Map(template.processes.map((p, i) => [p.id, `P${i + 1}`]));
+
+  const installationRows = INSTALLATION_FIELDS.map((field) => ({
+    Field: field.label,
+    Value: field.key === 'start' || field.key === 'end'
+      ? reportingPeriod[field.key]
+      : installation[field.key] ?? '',
+  }));
+
+  const processRows = template.processes.map((p) => ({
+    'Process ID': processIds.get(p.id),
+    'Process name': p.name,
+    'Aggregated goods category': p.goodsCategory,
+    'Production route': p.productionRoute || '',
+    'Activity level (t)': p.activityLevel,
+    'Directly attributable emissions (tCO2e)': roundTo(cbamService.boundaryEmissions(p, gwpSet), 4),
+    'Heat imported (TJ)': p.heatImportedTj || 0,
+    'Heat exported (TJ)': p.heatExportedTj || 0,
+    'Heat emission factor (tCO2/TJ)': p.heatEmissionFactor ?? '',
+    'Electricity consumed (MWh)': p.electricityConsumedMwh || 0,
+    'Electricity exported (MWh)': p.electricityExportedMwh || 0,
+    'Electricity emission factor (tCO2/MWh)': p.electricityEmissionFactor ?? '',
+  }));
+
+  const precursorRows: Record<string, any>[] = [];
+  const purchasedRows: Record<string, any>[] = [];
+
+  for (const process of template.processes) {
+    for (const precursor of process.precursors) {
+      let precursorId = precursor.fromProcessId ? processIds.get(precursor.fromProcessId) : undefined;
+
+      if (!precursorId) {
+        precursorId = `PP${purchasedRows.length + 1}`;
+        purchasedRows.push({
+          'Precursor ID': precursorId,
+          'Aggregated goods category': precursor.goodsCategory,
+          'SEE direct (tCO2e/t)': precursor.seeDirect ?? 0,
+          'SEE indirect (tCO2e/t)': precursor.seeIndirect ?? 0,
+          Source: precursor.source || '',
+        });
+      }
+
+      precursorRows.push({
+        'Process ID': processIds.get(process.id),
+        Precursor: precursorId,
+        'Consumed (t)': precursor.consumedTonnes,
+      });
+    }
+  }
+
+  const productRows = template.reportedSEE.map((r) => ({
+    'CN code': r.cnCode,
+    'Goods description': r.description || '',
+    'Process ID': processIds.get(r.processId),
+    'SEE direct (tCO2e/t)': r.seeDirect,
+    'SEE indirect (tCO2e/t)': r.seeIndirect,
+    'SEE total (tCO2e/t)': r.seeTotal,
+  }));
+
+  const workbook = XLSX.utils.book_new();
+  appendSheet(workbook, TEMPLATE_SHEETS.installation, installationRows, ['Field', 'Value'], [30, 40]);
+  appendSheet(workbook, TEMPLATE_SHEETS.processes, processRows, PROCESS_COLUMNS, [12, 30, 25]);
+  appendSheet(workbook, TEMPLATE_SHEETS.precursors, precursorRows, PRECURSOR_COLUMNS, [12, 12]);
+  appendSheet(workbook, TEMPLATE_SHEETS.purchased, purchasedRows, PURCHASED_COLUMNS, [12, 25]);
+  appendSheet(workbook, TEMPLATE_SHEETS.products, productRows, PRODUCT_COLUMNS, [12, 50]);
+
+  return workbook;
+}
+
+// Header row is written even when there are no rows so the sheet can be filled in
+function appendSheet(
+  workbook: XLSX.WorkBook,
+  name: string,
+  rows: Record<string, any>[],
+  columns: string[],
+  widths: number[]
+): void {
+  const worksheet = XLSX.utils.json_to_sheet(rows, { header: columns });
+  worksheet['!cols'] = columns.map((_, i) => ({ wch: widths[i] || 20 }));
+  XLSX.utils.book_append_sheet(workbook, worksheet, name);
+}
+
+// ============================================================================
+// CELL HELPERS
+// ============================================================================
+
+function isBlank(value: any): boolean {
+  return value === null || value === undefined || String(value).trim() === '';
+}
+
+/**
+ * Read a sheet as header-keyed rows, skipping blank rows.
+ * Row numbers are the spreadsheet's 1-based row numbers.
+ */
+function readSheet(
+  workbook: XLSX.WorkBook,
+  sheet: string,
+  requiredColumns: string[],
+  errors: ParsingError[]
+): SheetRow[] {
+  const worksheet = workbook.Sheets[sheet];
+  if (!worksheet) {
+    errors.push({ sheet, row: 0, column: '', value: null, error: `Sheet ${sheet} is missing`, severity: 'error' });
+    return [];
+  }
+
+  const cells = XLSX.utils.sheet_to_json<any[]>(worksheet, { header: 1, blankrows: true, defval: null });
+  const firstRow = worksheet['!ref'] ? XLSX.utils.decode_range(worksheet['!ref']).s.r + 1 : 1;
+  const header = (cells[0] || []).map((h) => String(h ?? '').trim());
+
+  const missing = requiredColumns.filter((c) => !header.includes(c));
+  for (const column of missing) {
+    errors.push({ sheet, row: firstRow, column, value: null, error: `Column "${column}" is missing`, severity: 'error' });
+  }
+  if (missing.length > 0) {
+    return [];
+  }
+
+  return cells
+    .slice(1)
+    .map((values, i) => ({
+      row: firstRow + i + 1,
+      values: Object.fromEntries(header.map((h, j) => [h, values[j] ?? null])),
+    }))
+    .filter((r) => Object.values(r.values).some((v) => !isBlank(v)));
+}
+
+/**
+ * Typed cell accessors for one row; failures are collected as errors
+ */
+function cellReader(sheet: string, row: SheetRow, errors: ParsingError[]) {
+  let failures = 0;
+
+  const fail = (column: string, error: string): void => {
+    failures++;
+    errors.push({ sheet, row: row.row, column, value: row.values[column] ?? null, error, severity: 'error' });
+  };
+
+  const text = (column: string, required = false): string | undefined => {
+    const value = row.values[column];
+    if (isBlank(value)) {
+      if (required) fail(column, `${column} is required`);
+      return undefined;
+    }
+    return String(value).trim();
+  };
+
+  const number = (column: string, required = false): number | undefined => {
+    const value = row.values[column];
+    if (isBlank(value)) {
+      if (required) fail(column, `${column} is required`);
+      return undefined;
+    }
+    const parsed = typeof value === 'number' ? value : parseFloat(String(value).replace(/,/g, ''));
+    if (!Number.isFinite(parsed) || parsed < 0) {
+      fail(column, `${column} must be a non-negative number`);
+      return undefined;
+    }
+    return parsed;
+  };
+
+  const date = (column: string): string | undefined => {
+    const value = row.values[column];
+    if (typeof value === 'number') {
+      const parsed = XLSX.SSF.parse_date_code(value);
+      if (parsed) {
+        return `${parsed.y}-${String(parsed.m).padStart(2, '0')}-${String(parsed.d).padStart(2, '0')}`;
+      }
+    } else if (/^\d{4}-\d{2}-\d{2}$/.test(String(value).trim()) && !isNaN(Date.parse(String(value).trim()))) {
+      return String(value).trim();
+    }
+    fail(column, `${column} must be a date (YYYY-MM-DD)`);
+    return undefined;
+  };
+
+  const goodsCategory = (column: string): CBAMGoodsCategory | undefined => {
+    const value = text(column, true);
+    if (value === undefined) return undefined;
+
+    const key = value.toLowerCase().replace(/[\s-]+/g, '_');
+    const category = (GOODS_CATEGORY_ALIASES[key] || key) as CBAMGoodsCategory;
+    if (!cnCodeService.getGoodsCategory(category)) {
+      fail(column, `Unknown aggregated goods category "${value}"`);
+      return undefined;
+    }
+    return category;
+  };
+
+  return { text, number, date, goodsCategory, fail, failed: () => failures > 0 };
+}
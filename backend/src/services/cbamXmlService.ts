@@ -0,0 +1,251 @@
+import { validateXML } from 'xmllint-wasm';
+import { CBAM_QREPORT_XSD } from './cbamQReportSchema';
+
+const SCHEMA_FILE = 'QReport.xsd';
+const REPORT_FILE = 'QReport.xml';
+
+// Code lists used by the registry
+const DETERMINATION_TYPE = { actual: '01', default: '02', other: '03' } as const;
+const MEASUREMENT_UNIT_TONNES = '01';
+const CARBON_PRICE_TYPE = { tax: '01', ets: '02' } as const;
+
+export type DeterminationType = keyof typeof DETERMINATION_TYPE;
+
+export interface CBAMAddress {
+  country: string;        // ISO 3166-1 alpha-2
+  city?: string;
+  street?: string;
+  postCode?: string;
+}
+
+export interface CBAMPrecursor {
+  material: string;
+  productionRoute?: string;
+  consumedTonnes: number;
+  specificEmbeddedEmissions: number;   // tCO2e/t precursor
+  determinationType: DeterminationType;
+}
+
+export interface CBAMCarbonPrice {
+  type: keyof typeof CARBON_PRICE_TYPE;
+  country: string;
+  amount: number;
+  currency: string;
+}
+
+export interface CBAMGoodsEmissions {
+  productionCountry: string;
+  operator: { id: string; name: string };
+  installation: { id: string; name: string; address: CBAMAddress };
+  producedTonnes: number;
+  direct: { determinationType: DeterminationType; specificEmbeddedEmissions: number };
+  indirect: { determinationType: DeterminationType; specificEmbeddedEmissions: number; emissionFactorSource?: string };
+  precursors: CBAMPrecursor[];
+  carbonPrices: CBAMCarbonPrice[];
+  remarks?: string;
+}
+
+export interface CBAMGood {
+  cnCode: string;
+  description?: string;
+  originCountry: string;
+  importedTonnes: number;
+  emissions: CBAMGoodsEmissions[];
+}
+
+export interface CBAMQuarterlyReport {
+  reportId: string;
+  year: number;
+  quarter: 1 | 2 | 3 | 4;
+  declarant: { eori: string; name: string; address: CBAMAddress };
+  goods: CBAMGood[];
+}
+
+export interface XmlValidationResult {
+  valid: boolean;
+  errors: Array<{ line: number | null; message: string }>;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * xs:decimal text to 7 places. String() would give exponent notation
+ * (e.g. 1e-7) for small values, which xs:decimal does not allow.
+ */
+export function formatDecimal(value: number): string {
+  const text = value.toFixed(7).replace(/\.?0+$/, '');
+  return text === '-0' ? '0' : text;
+}
+
+function element(name: string, value: string | number | undefined | null, indent: string): string {
+  if (value === undefined || value === null || value === '') {
+    return '';
+  }
+  const text = typeof value === 'number' ? formatDecimal(value) : escapeXml(value);
+  return `${indent}<${name}>${text}</${name}>\n`;
+}
+
+function address(name: string, addr: CBAMAddress, indent: string): string {
+  const inner = indent + '  ';
+  return `${indent}<${name}>\n` +
+    element('Country', addr.country, inner) +
+    element('City', addr.city, inner) +
+    element('Street', addr.street, inner) +
+    element('PostCode', addr.postCode, inner) +
+    `${indent}</${name}>\n`;
+}
+
+function measure(name: string, tonnes: number, indent: string): string {
+  const inner = indent + '  ';
+  return `${indent}<${name}>\n` +
+    element('NetMass', tonnes, inner) +
+    element('MeasurementUnit', MEASUREMENT_UNIT_TONNES, inner) +
+    `${indent}</${name}>\n`;
+}
+
+/**
+ * Specific embedded emissions (tCO2e/t) of one production source: direct plus
+ * indirect. Precursor emissions are already part of the direct figure; the
+ * listed precursors are informational and not added again.
+ */
+export function totalSpecificEmissions(emissions: CBAMGoodsEmissions): number {
+  return emissions.direct.specificEmbeddedEmissions + emissions.indirect.specificEmbeddedEmissions;
+}
+
+/**
+ * Total embedded emissions (tCO2e) of an imported good. Imported mass is
+ * split evenly over the installations it was sourced from.
+ */
+export function goodTotalEmissions(good: CBAMGood): number {
+  if (good.emissions.length === 0) {
+    return 0;
+  }
+  const share = good.importedTonnes / good.emissions.length;
+  return good.emissions.reduce((sum, e) => sum + share * totalSpecificEmissions(e), 0);
+}
+
+function goodsEmissionsXml(emissions: CBAMGoodsEmissions, sequence: number, indent: string): string {
+  const i1 = indent + '  ';
+  const i2 = i1 + '  ';
+  const i3 = i2 + '  ';
+
+  let xml = `${indent}<GoodsEmissions>\n` +
+    element('SequenceNumber', sequence, i1) +
+    element('ProductionCountry', emissions.productionCountry, i1) +
+    `${i1}<InstallationOperator>\n` +
+    element('OperatorId', emissions.operator.id, i2) +
+    element('OperatorName', emissions.operator.name, i2) +
+    `${i1}</InstallationOperator>\n` +
+    `${i1}<Installation>\n` +
+    element('InstallationId', emissions.installation.id, i2) +
+    element('InstallationName', emissions.installation.name, i2) +
+    address('Address', emissions.installation.address, i2) +
+    `${i1}</Installation>\n` +
+    measure('ProducedMeasure', emissions.producedTonnes, i1) +
+    `${i1}<DirectEmissions>\n` +
+    element('DeterminationType', DETERMINATION_TYPE[emissions.direct.determinationType], i2) +
+    element('SpecificEmbeddedEmissions', emissions.direct.specificEmbeddedEmissions, i2) +
+    `${i1}</DirectEmissions>\n` +
+    `${i1}<IndirectEmissions>\n` +
+    element('DeterminationType', DETERMINATION_TYPE[emissions.indirect.determinationType], i2) +
+    element('EmissionFactorSource', emissions.indirect.emissionFactorSource, i2) +
+    element('SpecificEmbeddedEmissions', emissions.indirect.specificEmbeddedEmissions, i2) +
+    `${i1}</IndirectEmissions>\n`;
+
+  if (emissions.precursors.length > 0) {
+    xml += `${i1}<Precursors>\n`;
+    for (const precursor of emissions.precursors) {
+      xml += `${i2}<Precursor>\n` +
+        element('Material', precursor.material, i3) +
+        element('ProductionRoute', precursor.productionRoute, i3) +
+        element('ConsumedQuantity', precursor.consumedTonnes, i3) +
+        element('SpecificEmbeddedEmissions', precursor.specificEmbeddedEmissions, i3) +
+        element('DeterminationType', DETERMINATION_TYPE[precursor.determinationType], i3) +
+        `${i2}</Precursor>\n`;
+    }
+    xml += `${i1}</Precursors>\n`;
+  }
+
+  for (const price of emissions.carbonPrices) {
+    xml += `${i1}<CarbonPriceDue>\n` +
+      element('TypeOfInstrument', CARBON_PRICE_TYPE[price.type], i2) +
+      element('Country', price.country, i2) +
+      element('Amount', price.amount, i2) +
+      element('Currency', price.currency, i2) +
+      `${i1}</CarbonPriceDue>\n`;
+  }
+
+  xml += element('RemarksEmissions', emissions.remarks, i1);
+  return xml + `${indent}</GoodsEmissions>\n`;
+}
+
+/**
+ * Build the quarterly report document submitted to the CBAM Transitional Registry
+ */
+export function buildQuarterlyReportXml(report: CBAMQuarterlyReport): string {
+  const i1 = '  ';
+  const i2 = '    ';
+  const i3 = '      ';
+
+  const totalEmissions = report.goods.reduce((sum, good) => sum + goodTotalEmissions(good), 0);
+
+  let xml = '<?xml version="1.0" encoding="UTF-8"?>\n<QReport>\n' +
+    element('ReportId', report.reportId, i1) +
+    element('ReportingPeriod', `Q${report.quarter}`, i1) +
+    element('Year', report.year, i1) +
+    element('TotalImported', report.goods.length, i1) +
+    element('TotalEmissions', totalEmissions, i1) +
+    `${i1}<Declarant>\n` +
+    element('IdentificationNumber', report.declarant.eori, i2) +
+    element('Name', report.declarant.name, i2) +
+    address('ActorAddress', report.declarant.address, i2) +
+    `${i1}</Declarant>\n`;
+
+  report.goods.forEach((good, index) => {
+    xml += `${i1}<GoodsImported>\n` +
+      element('ItemNumber', index + 1, i2) +
+      `${i2}<CommodityCode>\n` +
+      element('HsCode', good.cnCode.slice(0, 6), i3) +
+      element('CnCode', good.cnCode, i3) +
+      element('CommodityDescription', good.description, i3) +
+      `${i2}</CommodityCode>\n` +
+      `${i2}<OriginCountry>\n` +
+      element('CountryCodeToReport', good.originCountry, i3) +
+      `${i2}</OriginCountry>\n` +
+      measure('MeasureImported', good.importedTonnes, i2) +
+      element('TotalEmissions', goodTotalEmissions(good), i2);
+    good.emissions.forEach((emissions, seq) => {
+      xml += goodsEmissionsXml(emissions, seq + 1, i2);
+    });
+    xml += `${i1}</GoodsImported>\n`;
+  });
+
+  return xml + '</QReport>\n';
+}
+
+/**
+ * Check a quarterly report against the bundled partial structure schema. A
+ * pass is not conformance with the official registry XSD (see
+ * cbamQReportSchema).
+ */
+export async function validateQuarterlyReportXml(xml: string): Promise<XmlValidationResult> {
+  const result = await validateXML({
+    xml: [{ fileName: REPORT_FILE, contents: xml }],
+    schema: [{ fileName: SCHEMA_FILE, contents: CBAM_QREPORT_XSD }],
+  });
+
+  return {
+    valid: result.valid,
+    errors: result.errors.map((error) => ({
+      line: error.loc?.lineNumber ?? null,
+      message: error.message,
+    })),
+  };
+}
@@ -0,0 +1,478 @@
+/**
+ * China ETS Service
+ *
+ * Free allocation under China's national ETS is intensity-based. Each unit
+ * gets its output times the benchmark for its category, times correction
+ * factors. Power units get power supplied × benchmark × cooling, heat-supply
+ * and load corrections, plus heat supplied × heat benchmark (MEE allocation
+ * plans for the power sector, 2019-2020 and 2021-2022). Cement and aluminium
+ * use output × benchmark; until their benchmarks are loaded each unit gives
+ * its own.
+ *
+ * The compliance position compares the allocation with verified emissions.
+ * The allowances to surrender are capped by the plan's gap cap, and gas units
+ * never owe more than they were given. CCER can cover up to 5% of verified
+ * emissions (Measures for the Administration of Carbon Emissions Trading, Art. 29).
+ *
+ * Allowances and emissions are in t CO2; the ETS covers CO2 only.
+ */
+
+import { db } from '../config/database';
+import { BadRequestError } from '../middleware/errorHandler';
+import { roundTo } from '../utils/helpers';
+import * as gwpService from './gwpService';
+import * as creditService from './creditService';
+import type {
+  ChinaEtsAllocation,
+  ChinaEtsCompliance,
+  ChinaEtsSector,
+  ChinaEtsUnit,
+  ChinaEtsUnitType,
+} from '../types';
+
+export const UNIT_TYPES: Record<ChinaEtsUnitType, { name: string; sector: ChinaEtsSector; outputUnit: string }> = {
+  coal_above_300mw: { name: 'Conventional coal, above 300 MW class', sector: 'power', outputUnit: 'MWh' },
+  coal_300mw_and_below: { name: 'Conventional coal, 300 MW class and below', sector: 'power', outputUnit: 'MWh' },
+  coal_unconventional: { name: 'Unconventional coal (gangue, slurry, CFB)', sector: 'power', outputUnit: 'MWh' },
+  gas: { name: 'Gas-fired', sector: 'power', outputUnit: 'MWh' },
+  cement_clinker: { name: 'Cement clinker production', sector: 'cement', outputUnit: 't clinker' },
+  aluminium_electrolysis: { name: 'Aluminium electrolysis', sector: 'aluminium', outputUnit: 't aluminium liquid' },
+};
+
+interface AllocationPlan {
+  name: string;
+  gapCapPercent: number;
+  // t CO2/MWh supplied and t CO2/GJ heat supplied, by year
+  benchmarks: Record<number, Partial<Record<ChinaEtsUnitType, { power: number; heat: number }>>>;
+}
+
+const PLANS: AllocationPlan[] = [
+  {
+    name: 'MEE 2019-2020 allocation plan (power sector)',
+    gapCapPercent: 20,
+    benchmarks: Object.fromEntries([2019, 2020].map((year) => [year, {
+      coal_above_300mw: { power: 0.877, heat: 0.126 },
+      coal_300mw_and_below: { power: 0.979, heat: 0.126 },
+      coal_unconventional: { power: 1.146, heat: 0.126 },
+      gas: { power: 0.392, heat: 0.059 },
+    }])),
+  },
+  {
+    name: 'MEE 2021-2022 allocation plan (power sector)',
+    gapCapPercent: 10,
+    benchmarks: {
+      2021: {
+        coal_above_300mw: { power: 0.8218, heat: 0.1111 },
+        coal_300mw_and_below: { power: 0.8773, heat: 0.1111 },
+        coal_unconventional: { power: 0.9350, heat: 0.1111 },
+        gas: { power: 0.3920, heat: 0.0560 },
+      },
+      2022: {
+        coal_above_300mw: { power: 0.8177, heat: 0.1105 },
+        coal_300mw_and_below: { power: 0.8729, heat: 0.1105 },
+        coal_unconventional: { power: 0.9303, heat: 0.1105 },
+        gas: { power: 0.3901, heat: 0.0557 },
+      },
+    },
+  },
+];
+
+// Share of verified emissions CCER may cover
+export const CCER_LIMIT_PERCENT = 5;
+
+// National grid average for purchased electricity (MEE, 2023), t CO2/MWh
+export const GRID_EMISSION_FACTOR = 0.5703;
+
+const CO2_PER_C = 44 / 12;
+
+export function toUnit(row: any): ChinaEtsUnit {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    facilityId: row.facility_id || null,
+    name: row.name,
+    unitCode: row.unit_code,
+    unitType: row.unit_type,
+    capacityMw: row.capacity_mw === null || row.capacity_mw === undefined ? null : parseFloat(row.capacity_mw),
+    coolingType: row.cooling_type,
+    reportingYear: row.reporting_year,
+    powerSuppliedMwh: parseFloat(row.power_supplied_mwh) || 0,
+    heatSuppliedGj: parseFloat(row.heat_supplied_gj) || 0,
+    heatSupplyRatio: parseFloat(row.heat_supply_ratio) || 0,
+    loadFactor: row.load_factor === null || row.load_factor === undefined ? null : parseFloat(row.load_factor),
+    productionOutput: parseFloat(row.production_output) || 0,
+    benchmark: row.benchmark === null || row.benchmark === undefined ? null : parseFloat(row.benchmark),
+    verifiedEmissionsTCo2: row.verified_emissions_t_co2 === null || row.verified_emissions_t_co2 === undefined
+      ? null
+      : parseFloat(row.verified_emissions_t_co2),
+    purchasedElectricityMwh: parseFloat(row.purchased_electricity_mwh) || 0,
+    fuels: row.fuels || [],
+    verifier: row.verifier || null,
+  };
+}
+
+/**
+ * Loaded power benchmarks for a year, and the plan they belong to. Years
+ * after the last loaded one use its benchmarks.
+ */
+export function powerBenchmarks(year: number): { plan: AllocationPlan; year: number } | null {
+  const loaded = PLANS.flatMap((plan) => Object.keys(plan.benchmarks).map((key) => ({ plan, year: Number(key) })))
+    .sort((a, b) => a.year - b.year);
+  if (loaded.length === 0 || year < loaded[0].year) {
+    return null;
+  }
+  return loaded.find((entry) => entry.year === year) || loaded[loaded.length - 1];
+}
+
+/**
+ * Load correction for conventional coal pure-condensing units. Units loaded
+ * below 85% get a higher allocation per MWh.
+ */
+export function loadCorrection(loadFactor: number | null): number {
+  if (loadFactor === null || loadFactor >= 0.85) {
+    return 1;
+  }
+  const percent = loadFactor * 100;
+  if (loadFactor >= 0.8) {
+    return 1 + 0.0014 * (85 - percent);
+  }
+  if (loadFactor >= 0.75) {
+    return 1.007 + 0.0016 * (80 - percent);
+  }
+  return Math.pow(1.015, 16 - 20 * loadFactor);
+}
+
+/**
+ * Fuel combustion CO2 of a unit: consumption × low heating value × carbon
+ * content × oxidation rate × 44/12
+ */
+export function fuelEmissions(unit: Pick<ChinaEtsUnit, 'fuels'>): number {
+  return unit.fuels.reduce(
+    (sum, fuel) => sum + fuel.consumption * fuel.ncvGjPerUnit * fuel.carbonContentTCPerGj * fuel.oxidationRate * CO2_PER_C,
+    0
+  );
+}
+
+export function electricityEmissions(unit: Pick<ChinaEtsUnit, 'purchasedElectricityMwh'>): number {
+  return unit.purchasedElectricityMwh * GRID_EMISSION_FACTOR;
+}
+
+/**
+ * Free allocation of one unit. `emissions` are the unit's verified (or best
+ * available) emissions.
+ */
+export function allocateUnit(
+  unit: ChinaEtsUnit,
+  emissions: number,
+  emissionsSource: ChinaEtsAllocation['emissionsSource']
+): ChinaEtsAllocation {
+  const { sector } = UNIT_TYPES[unit.unitType];
+  const corrections = { cooling: 1, heatSupply: 1, load: 1 };
+  const benchmarks: ChinaEtsAllocation['benchmarks'] = {};
+  let benchmarkYear: number | null = null;
+  let powerAllowance = 0;
+  let heatAllowance = 0;
+  let productAllowance = 0;
+
+  if (sector === 'power') {
+    const loaded = powerBenchmarks(unit.reportingYear);
+    const values = loaded?.plan.benchmarks[loaded.year][unit.unitType];
+    if (!values && unit.benchmark === null) {
+      throw new BadRequestError(`No power benchmarks loaded for ${unit.reportingYear}; give the unit a benchmark`);
+    }
+    benchmarkYear = values ? loaded!.year : null;
+    benchmarks.power = unit.benchmark ?? values!.power;
+    benchmarks.heat = values?.heat ?? 0;
+
+    const isGas = unit.unitType === 'gas';
+    corrections.cooling = !isGas && unit.coolingType === 'air' ? 1.05 : 1;
+    corrections.heatSupply = 1 - (isGas ? 0.6 : 0.22) * unit.heatSupplyRatio;
+    corrections.load = !isGas && unit.unitType !== 'coal_unconventional' && unit.heatSupplyRatio === 0
+      ? loadCorrection(unit.loadFactor)
+      : 1;
+
+    powerAllowance = unit.powerSuppliedMwh * benchmarks.power * corrections.cooling * corrections.heatSupply * corrections.load;
+    heatAllowance = unit.heatSuppliedGj * benchmarks.heat;
+  } else {
+    if (unit.benchmark === null) {
+      throw new BadRequestError(`No ${sector} benchmark loaded; give unit ${unit.unitCode} a benchmark`);
+    }
+    benchmarks.product = unit.benchmark;
+    productAllowance = unit.productionOutput * unit.benchmark;
+  }
+
+  const allowance = powerAllowance + heatAllowance + productAllowance;
+  return {
+    unitId: unit.id,
+    unitCode: unit.unitCode,
+    name: unit.name,
+    unitType: unit.unitType,
+    sector,
+    benchmarkYear,
+    benchmarks,
+    corrections: {
+      cooling: roundTo(corrections.cooling, 6),
+      heatSupply: roundTo(corrections.heatSupply, 6),
+      load: roundTo(corrections.load, 6),
+    },
+    powerAllowance: roundTo(powerAllowance, 4),
+    heatAllowance: roundTo(heatAllowance, 4),
+    productAllowance: roundTo(productAllowance, 4),
+    allowance: roundTo(allowance, 4),
+    emissions: roundTo(emissions, 4),
+    emissionsSource,
+    surplus: roundTo(allowance - emissions, 4),
+  };
+}
+
+/**
+ * Allowances a unit must surrender: its emissions, capped at its allocation
+ * plus the gap cap share of its emissions. A gas unit short of allowances
+ * surrenders its allocation only.
+ */
+export function unitObligation(allocation: ChinaEtsAllocation, gapCapPercent: number | null): number {
+  if (allocation.surplus >= 0) {
+    return allocation.emissions;
+  }
+  if (allocation.unitType === 'gas') {
+    return allocation.allowance;
+  }
+  if (allocation.sector === 'power' && gapCapPercent !== null) {
+    return Math.min(allocation.emissions, allocation.allowance + (allocation.emissions * gapCapPercent) / 100);
+  }
+  return allocation.emissions;
+}
+
+/**
+ * Compliance position of a set of unit allocations with the CCER retired
+ * for the year
+ */
+export function compliancePosition(
+  year: number,
+  allocations: ChinaEtsAllocation[],
+  ccerRetired: number,
+  warnings: string[] = []
+): ChinaEtsCompliance {
+  const loaded = powerBenchmarks(year);
+  const gapCapPercent = allocations.some((allocation) => allocation.sector === 'power') && loaded
+    ? loaded.plan.gapCapPercent
+    : null;
+
+  const allowance = allocations.reduce((sum, allocation) => sum + allocation.allowance, 0);
+  const emissions = allocations.reduce((sum, allocation) => sum + allocation.emissions, 0);
+  const obligation = allocations.reduce((sum, allocation) => sum + unitObligation(allocation, gapCapPercent), 0);
+
+  const limit = (emissions * CCER_LIMIT_PERCENT) / 100;
+  const shortfall = Math.max(0, obligation - allowance);
+  const usable = Math.min(ccerRetired, limit, shortfall);
+  if (ccerRetired > limit) {
+    warnings.push(`${roundTo(ccerRetired - limit, 4)} t of CCER retired exceeds the ${CCER_LIMIT_PERCENT}% limit and cannot be used`);
+  }
+  const position = allowance + usable - obligation;
+
+  return {
+    year,
+    allocationPlan: loaded && gapCapPercent !== null ? loaded.plan.name : 'Unit benchmarks',
+    units: allocations,
+    allowance: roundTo(allowance, 4),
+    verifiedEmissions: roundTo(emissions, 4),
+    surplus: roundTo(allowance - emissions, 4),
+    obligation: roundTo(obligation, 4),
+    gapCapPercent,
+    ccer: {
+      limitPercent: CCER_LIMIT_PERCENT,
+      limit: roundTo(limit, 4),
+      retired: ccerRetired,
+      usable: roundTo(usable, 4),
+    },
+    position: roundTo(position, 4),
+    status: roundTo(position, 4) > 0 ? 'surplus' : roundTo(position, 4) < 0 ? 'deficit' : 'balanced',
+    warnings,
+  };
+}
+
+export async function getProjectUnits(projectId: string, year?: number): Promise<ChinaEtsUnit[]> {
+  const params: any[] = [projectId];
+  let query = `SELECT * FROM china_ets_units WHERE project_id = $1`;
+  if (year !== undefined) {
+    params.push(year);
+    query += ` AND reporting_year = $2`;
+  }
+  const result = await db.query(`${query} ORDER BY reporting_year DESC, unit_code`, params);
+  return result.rows.map(toUnit);
+}
+
+/**
+ * Allocation and compliance position of a project's units for a year.
+ * Emissions are taken as verified, else from the unit's fuel data, else from
+ * the calculated Scope 1 and 2 activities of its facility.
+ */
+export async function calculateCompliance(projectId: string, year: number): Promise<ChinaEtsCompliance> {
+  const units = await getProjectUnits(projectId, year);
+  if (units.length === 0) {
+    throw new BadRequestError(`No ETS units recorded for ${year}`);
+  }
+
+  const warnings: string[] = [];
+  if (units.some((unit) => UNIT_TYPES[unit.unitType].sector === 'power')) {
+    const loaded = powerBenchmarks(year);
+    if (loaded && loaded.year !== year) {
+      warnings.push(`No power benchmarks loaded for ${year}; the ${loaded.year} benchmarks are used`);
+    }
+  }
+
+  const facilityEmissions = await getFacilityCo2(projectId, units);
+  const allocations = units.map((unit) => {
+    if (unit.verifiedEmissionsTCo2 !== null) {
+      return allocateUnit(unit, unit.verifiedEmissionsTCo2, 'verified');
+    }
+    if (unit.fuels.length > 0) {
+      warnings.push(`Unit ${unit.unitCode}: emissions are calculated from fuel data and not yet verified`);
+      return allocateUnit(unit, fuelEmissions(unit) + electricityEmissions(unit), 'fuel_data');
+    }
+    const sharing = units.filter((other) => other.facilityId && other.facilityId === unit.facilityId).length;
+    if (unit.facilityId && sharing === 1 && facilityEmissions.has(unit.facilityId)) {
+      warnings.push(`Unit ${unit.unitCode}: emissions are the calculated CO2 of its facility's Scope 1 and 2 activities, not verified`);
+      return allocateUnit(unit, facilityEmissions.get(unit.facilityId)!, 'activities');
+    }
+    warnings.push(`Unit ${unit.unitCode}: no verified emissions, fuel data or facility activities`);
+    return allocateUnit(unit, 0, 'none');
+  });
+
+  const ccerRetired = (await creditService.getRetiredCredits(projectId, year))
+    .filter((credit) => credit.registry === 'ccer')
+    .reduce((sum, credit) => sum + credit.quantity, 0);
+
+  return compliancePosition(year, allocations, ccerRetired, warnings);
+}
+
+/**
+ * Monitoring plan tables (MEE guideline for power generation facilities):
+ * the units and, for each parameter, how it is obtained and how often
+ */
+export function buildMonitoringPlan(units: ChinaEtsUnit[]): { units: any[]; parameters: any[] } {
+  const fuels = Array.from(new Set(units.flatMap((unit) => unit.fuels.map((fuel) => fuel.fuel))));
+  const hasElectricity = units.some((unit) => unit.purchasedElectricityMwh > 0);
+  const hasHeat = units.some((unit) => unit.heatSuppliedGj > 0);
+  const power = units.some((unit) => UNIT_TYPES[unit.unitType].sector === 'power');
+
+  const parameters = [
+    ...fuels.flatMap((fuel) => [
+      { parameter: `${fuel} consumption`, unit: 't or 10^4 Nm3', source: 'Measured at the boiler inlet (belt weigher or flow meter)', method: 'Daily metering, summed monthly; checked against purchase and inventory records', frequency: 'Daily' },
+      { parameter: `${fuel} low heating value`, unit: 'GJ/t or GJ/10^4 Nm3', source: 'Laboratory analysis of as-fired samples', method: 'GB/T 213 (coal) or GB/T 11062 (gas); monthly consumption-weighted average', frequency: 'Per batch, daily or monthly' },
+      { parameter: `${fuel} element carbon content`, unit: 't C/GJ', source: 'Laboratory analysis of monthly composite samples; guideline default if not measured', method: 'GB/T 476 or GB/T 31391 (coal); GB/T 13610 (gas)', frequency: 'Monthly' },
+      { parameter: `${fuel} oxidation rate`, unit: '%', source: 'Guideline default', method: 'MEE guideline for power generation facilities', frequency: 'Annual' },
+    ]),
+    ...(hasElectricity
+      ? [{ parameter: 'Purchased electricity', unit: 'MWh', source: 'Grid settlement meters and invoices', method: `Times the national grid average factor (${GRID_EMISSION_FACTOR} t CO2/MWh)`, frequency: 'Monthly' }]
+      : []),
+    ...(power
+      ? [
+        { parameter: 'Power supplied', unit: 'MWh', source: 'Gateway settlement meters', method: 'Generation less station use, checked against grid settlement', frequency: 'Monthly' },
+        { parameter: 'Load factor', unit: '%', source: 'Generation and operating hours records', method: 'Generation / (capacity × operating hours)', frequency: 'Annual' },
+      ]
+      : []),
+    ...(hasHeat
+      ? [
+        { parameter: 'Heat supplied', unit: 'GJ', source: 'Heat meters at the supply outlet', method: 'Supplied less returned heat', frequency: 'Monthly' },
+        { parameter: 'Heat supply ratio', unit: '%', source: 'Heat and fuel balance', method: 'Heat supplied / total heat produced', frequency: 'Annual' },
+      ]
+      : []),
+    ...units
+      .filter((unit) => UNIT_TYPES[unit.unitType].sector !== 'power')
+      .map((unit) => ({ parameter: `${unit.unitCode} output`, unit: UNIT_TYPES[unit.unitType].outputUnit, source: 'Production records', method: 'Metered output, checked against sales and inventory', frequency: 'Monthly' })),
+  ];
+
+  return {
+    units: units.map((unit) => ({
+      unitCode: unit.unitCode,
+      name: unit.name,
+      unitType: UNIT_TYPES[unit.unitType].name,
+      capacityMw: unit.capacityMw,
+      coolingType: unit.coolingType,
+      fuels: unit.fuels.map((fuel) => fuel.fuel),
+    })),
+    parameters,
+  };
+}
+
+/**
+ * Emissions report tables (MEE guideline for power generation facilities):
+ * emissions by unit, fuel data and production data
+ */
+export function buildEmissionsReport(
+  units: ChinaEtsUnit[],
+  compliance: ChinaEtsCompliance
+): { emissions: any[]; fuels: any[]; production: any[] } {
+  const byUnit = new Map(compliance.units.map((allocation) => [allocation.unitId, allocation]));
+
+  return {
+    emissions: units.map((unit) => ({
+      unitCode: unit.unitCode,
+      fuelCombustionTCo2: roundTo(fuelEmissions(unit), 4),
+      purchasedElectricityTCo2: roundTo(electricityEmissions(unit), 4),
+      verifiedTCo2: unit.verifiedEmissionsTCo2,
+      reportedTCo2: byUnit.get(unit.id)?.emissions ?? 0,
+      emissionsSource: byUnit.get(unit.id)?.emissionsSource ?? 'none',
+    })),
+    fuels: units.flatMap((unit) => unit.fuels.map((fuel) => ({
+      unitCode: unit.unitCode,
+      fuel: fuel.fuel,
+      consumption: fuel.consumption,
+      unit: fuel.unit,
+      ncvGjPerUnit: fuel.ncvGjPerUnit,
+      carbonContentTCPerGj: fuel.carbonContentTCPerGj,
+      oxidationRate: fuel.oxidationRate,
+      emissionsTCo2: roundTo(fuel.consumption * fuel.ncvGjPerUnit * fuel.carbonContentTCPerGj * fuel.oxidationRate * CO2_PER_C, 4),
+    }))),
+    production: units.map((unit) => {
+      const emissions = byUnit.get(unit.id)?.emissions ?? 0;
+      const isPower = UNIT_TYPES[unit.unitType].sector === 'power';
+      return {
+        unitCode: unit.unitCode,
+        powerSuppliedMwh: unit.powerSuppliedMwh,
+        heatSuppliedGj: unit.heatSuppliedGj,
+        heatSupplyRatio: unit.heatSupplyRatio,
+        loadFactor: unit.loadFactor,
+        productionOutput: isPower ? null : unit.productionOutput,
+        outputUnit: UNIT_TYPES[unit.unitType].outputUnit,
+        // Intensity on the power supplied; heat and power emissions are split by the heat supply ratio
+        powerIntensityTCo2PerMwh: isPower && unit.powerSuppliedMwh > 0
+          ? roundTo((emissions * (1 - unit.heatSupplyRatio)) / unit.powerSuppliedMwh, 6)
+          : null,
+        heatIntensityTCo2PerGj: isPower && unit.heatSuppliedGj > 0
+          ? roundTo((emissions * unit.heatSupplyRatio) / unit.heatSuppliedGj, 6)
+          : null,
+        productIntensity: !isPower && unit.productionOutput > 0 ? roundTo(emissions / unit.productionOutput, 6) : null,
+      };
+    }),
+  };
+}
+
+/**
+ * Calculated CO2 of the Scope 1 and 2 activities of the units' facilities, t
+ */
+async function getFacilityCo2(projectId: string, units: ChinaEtsUnit[]): Promise<Map<string, number>> {
+  const facilityIds = Array.from(new Set(units.map((unit) => unit.facilityId).filter((id): id is string => !!id)));
+  const totals = new Map<string, number>();
+  if (facilityIds.length === 0) {
+    return totals;
+  }
+
+  const result = await db.query(
+    `SELECT facility_id, total_emissions_kg_co2e, gas_breakdown
+     FROM activities
+     WHERE project_id = $1 AND facility_id = ANY($2) AND scope IN ('scope1', 'scope2')
+       AND calculation_status = 'calculated'`,
+    [projectId, facilityIds]
+  );
+  for (const row of result.rows) {
+    // CO2 where the factor gave a per-gas split, otherwise the CO2e
+    const breakdown = gwpService.parseGasBreakdown(row.gas_breakdown);
+    const kg = breakdown
+      ? (breakdown.gases.CO2 || 0) + breakdown.unspecifiedCo2e
+      : parseFloat(row.total_emissions_kg_co2e) || 0;
+    totals.set(row.facility_id, (totals.get(row.facility_id) || 0) + kg / 1000);
+  }
+  return totals;
+}
@@ -0,0 +1,282 @@
+/**
+ * CBAM CN Code Catalogue
+ *
+ * CN codes covered by CBAM (Regulation (EU) 2023/956, Annex I) mapped to the
+ * CBAM material, the aggregated goods category, production routes and the
+ * relevant precursors (Implementing Regulation (EU) 2023/1773, Annex II).
+ *
+ * Routes use the same names as precursor_factors.production_route so a
+ * derived route can be used directly in factor lookups.
+ */
+
+import { BadRequestError } from '../middleware/errorHandler';
+import type { CBAMMaterial, CBAMGoodsCategory, CNCodeEntry } from '../types';
+
+export interface GoodsCategoryDefinition {
+  material: CBAMMaterial;
+  routes: string[];
+  precursors: CBAMGoodsCategory[];
+}
+
+const CEMENT_ROUTES = ['Portland', 'Blended'];
+const STEEL_ROUTES = ['BF-BOF', 'DRI-EAF', 'EAF-Scrap'];
+const ALUMINIUM_ROUTES = ['Primary-Prebake', 'Primary-Soderberg', 'Secondary'];
+const FERRO_ALLOYS: CBAMGoodsCategory[] = ['ferro_manganese', 'ferro_chromium', 'ferro_nickel'];
+
+// The first route is the default
+const GOODS_CATEGORIES: Record<CBAMGoodsCategory, GoodsCategoryDefinition> = {
+  calcined_clay: { material: 'cement', routes: CEMENT_ROUTES, precursors: [] },
+  cement_clinker: { material: 'cement', routes: CEMENT_ROUTES, precursors: [] },
+  cement: { material: 'cement', routes: CEMENT_ROUTES, precursors: ['cement_clinker', 'calcined_clay'] },
+  aluminous_cement: { material: 'cement', routes: CEMENT_ROUTES, precursors: [] },
+  hydrogen: { material: 'hydrogen', routes: ['SMR', 'Electrolysis'], precursors: [] },
+  ammonia: { material: 'fertilizers', routes: ['Ammonia-SMR'], precursors: ['hydrogen'] },
+  nitric_acid: { material: 'fertilizers', routes: ['Ammonia-SMR'], precursors: ['ammonia'] },
+  urea: { material: 'fertilizers', routes: ['Urea'], precursors: ['ammonia'] },
+  mixed_fertilisers: {
+    material: 'fertilizers',
+    routes: ['Ammonia-SMR', 'Urea'],
+    precursors: ['ammonia', 'nitric_acid', 'urea', 'mixed_fertilisers'],
+  },
+  sintered_ore: { material: 'iron_steel', routes: STEEL_ROUTES, precursors: [] },
+  pig_iron: {
+    material: 'iron_steel',
+    routes: STEEL_ROUTES,
+    precursors: ['sintered_ore', 'pig_iron', ...FERRO_ALLOYS, 'dri', 'hydrogen'],
+  },
+  ferro_manganese: { material: 'iron_steel', routes: STEEL_ROUTES, precursors: ['sintered_ore'] },
+  ferro_chromium: { material: 'iron_steel', routes: STEEL_ROUTES, precursors: ['sintered_ore'] },
+  ferro_nickel: { material: 'iron_steel', routes: STEEL_ROUTES, precursors: ['sintered_ore'] },
+  dri: { material: 'iron_steel', routes: ['DRI-EAF'], precursors: ['sintered_ore', 'hydrogen'] },
+  crude_steel: {
+    material: 'iron_steel',
+    routes: STEEL_ROUTES,
+    precursors: ['pig_iron', 'dri', ...FERRO_ALLOYS, 'crude_steel', 'hydrogen'],
+  },
+  iron_steel_products: {
+    material: 'iron_steel',
+    routes: STEEL_ROUTES,
+    precursors: ['pig_iron', 'dri', ...FERRO_ALLOYS, 'crude_steel', 'iron_steel_products'],
+  },
+  unwrought_aluminium: { material: 'aluminium', routes: ALUMINIUM_ROUTES, precursors: ['unwrought_aluminium'] },
+  aluminium_products: {
+    material: 'aluminium',
+    routes: ALUMINIUM_ROUTES,
+    precursors: ['unwrought_aluminium', 'aluminium_products'],
+  },
+  electricity: { material: 'electricity', routes: ['Grid-Average'], precursors: [] },
+};
+
+// Annex I lists headings (4 digits) as well as subheadings; a heading covers
+// every CN code beneath it
+const CN_CODES: Array<{ code: string; description: string; goodsCategory: CBAMGoodsCategory }> = [
+  // Cement
+  { code: '25070080', description: 'Other kaolinic clays (calcined)', goodsCategory: 'calcined_clay' },
+  { code: '25231000', description: 'Cement clinkers', goodsCategory: 'cement_clinker' },
+  { code: '25232100', description: 'White Portland cement', goodsCategory: 'cement' },
+  { code: '25232900', description: 'Other Portland cement', goodsCategory: 'cement' },
+  { code: '25233000', description: 'Aluminous cement', goodsCategory: 'aluminous_cement' },
+  { code: '25239000', description: 'Other hydraulic cements', goodsCategory: 'cement' },
+
+  // Electricity
+  { code: '27160000', description: 'Electrical energy', goodsCategory: 'electricity' },
+
+  // Fertilisers
+  { code: '28080000', description: 'Nitric acid; sulphonitric acids', goodsCategory: 'nitric_acid' },
+  { code: '2814', description: 'Ammonia, anhydrous or in aqueous solution', goodsCategory: 'ammonia' },
+  { code: '28342100', description: 'Nitrates of potassium', goodsCategory: 'mixed_fertilisers' },
+  { code: '310210', description: 'Urea, whether or not in aqueous solution', goodsCategory: 'urea' },
+  { code: '31022100', description: 'Ammonium sulphate', goodsCategory: 'mixed_fertilisers' },
+  { code: '31022900', description: 'Double salts and mixtures of ammonium sulphate and ammonium nitrate', goodsCategory: 'mixed_fertilisers' },
+  { code: '310230', description: 'Ammonium nitrate, whether or not in aqueous solution', goodsCategory: 'mixed_fertilisers' },
+  { code: '310240', description: 'Mixtures of ammonium nitrate with calcium carbonate', goodsCategory: 'mixed_fertilisers' },
+  { code: '31025000', description: 'Sodium nitrate', goodsCategory: 'mixed_fertilisers' },
+  { code: '31026000', description: 'Double salts and mixtures of calcium nitrate and ammonium nitrate', goodsCategory: 'mixed_fertilisers' },
+  { code: '31028000', description: 'Mixtures of urea and ammonium nitrate in solution', goodsCategory: 'mixed_fertilisers' },
+  { code: '31029000', description: 'Other nitrogenous fertilisers', goodsCategory: 'mixed_fertilisers' },
+  { code: '3105', description: 'Mineral or chemical fertilisers containing nitrogen (excluding 3105 60 00)', goodsCategory: 'mixed_fertilisers' },
+
+  // Iron and steel
+  { code: '26011200', description: 'Agglomerated iron ores and concentrates', goodsCategory: 'sintered_ore' },
+  { code: '7201', description: 'Pig iron and spiegeleisen', goodsCategory: 'pig_iron' },
+  { code: '720211', description: 'Ferro-manganese, containing by weight more than 2% of carbon', goodsCategory: 'ferro_manganese' },
+  { code: '720219', description: 'Other ferro-manganese', goodsCategory: 'ferro_manganese' },
+  { code: '720241', description: 'Ferro-chromium, containing by weight more than 4% of carbon', goodsCategory: 'ferro_chromium' },
+  { code: '720249', description: 'Other ferro-chromium', goodsCategory: 'ferro_chromium' },
+  { code: '72026000', description: 'Ferro-nickel', goodsCategory: 'ferro_nickel' },
+  { code: '7203', description: 'Ferrous products obtained by direct reduction of iron ore', goodsCategory: 'dri' },
+  { code: '7205', description: 'Granules and powders of pig iron, spiegeleisen, iron or steel', goodsCategory: 'iron_steel_products' },
+  { code: '7206', description: 'Iron and non-alloy steel in ingots or other primary forms', goodsCategory: 'crude_steel' },
+  { code: '7207', description: 'Semi-finished products of iron or non-alloy steel', goodsCategory: 'iron_steel_products' },
+  { code: '7208', description: 'Flat-rolled products of iron or non-alloy steel, hot-rolled, 600 mm or more wide', goodsCategory: 'iron_steel_products' },
+  { code: '7209', description: 'Flat-rolled products of iron or non-alloy steel, cold-rolled, 600 mm or more wide', goodsCategory: 'iron_steel_products' },
+  { code: '7210', description: 'Flat-rolled products of iron or non-alloy steel, clad, plated or coated', goodsCategory: 'iron_steel_products' },
+  { code: '7211', description: 'Flat-rolled products of iron or non-alloy steel, less than 600 mm wide', goodsCategory: 'iron_steel_products' },
+  { code: '7212', description: 'Flat-rolled products less than 600 mm wide, clad, plated or coated', goodsCategory: 'iron_steel_products' },
+  { code: '7213', description: 'Bars and rods, hot-rolled, in irregularly wound coils', goodsCategory: 'iron_steel_products' },
+  { code: '7214', description: 'Other bars and rods of iron or non-alloy steel', goodsCategory: 'iron_steel_products' },
+  { code: '7215', description: 'Other bars and rods of iron or non-alloy steel (cold-formed)', goodsCategory: 'iron_steel_products' },
+  { code: '7216', description: 'Angles, shapes and sections of iron or non-alloy steel', goodsCategory: 'iron_steel_products' },
+  { code: '7217', description: 'Wire of iron or non-alloy steel', goodsCategory: 'iron_steel_products' },
+  { code: '7218', description: 'Stainless steel in ingots or other primary forms; semi-finished products', goodsCategory: 'crude_steel' },
+  { code: '7219', description: 'Flat-rolled products of stainless steel, 600 mm or more wide', goodsCategory: 'iron_steel_products' },
+  { code: '7220', description: 'Flat-rolled products of stainless steel, less than 600 mm wide', goodsCategory: 'iron_steel_products' },
+  { code: '7221', description: 'Bars and rods of stainless steel, hot-rolled, in coils', goodsCategory: 'iron_steel_products' },
+  { code: '7222', description: 'Other bars and rods of stainless steel; angles, shapes and sections', goodsCategory: 'iron_steel_products' },
+  { code: '7223', description: 'Wire of stainless steel', goodsCategory: 'iron_steel_products' },
+  { code: '7224', description: 'Other alloy steel in ingots or other primary forms; semi-finished products', goodsCategory: 'crude_steel' },
+  { code: '7225', description: 'Flat-rolled products of other alloy steel, 600 mm or more wide', goodsCategory: 'iron_steel_products' },
+  { code: '7226', description: 'Flat-rolled products of other alloy steel, less than 600 mm wide', goodsCategory: 'iron_steel_products' },
+  { code: '7227', description: 'Bars and rods of other alloy steel, hot-rolled, in coils', goodsCategory: 'iron_steel_products' },
+  { code: '7228', description: 'Other bars and rods of other alloy steel; hollow drill bars', goodsCategory: 'iron_steel_products' },
+  { code: '7229', description: 'Wire of other alloy steel', goodsCategory: 'iron_steel_products' },
+  { code: '7301', description: 'Sheet piling of iron or steel; welded angles, shapes and sections', goodsCategory: 'iron_steel_products' },
+  { code: '7302', description: 'Railway or tramway track construction material of iron or steel', goodsCategory: 'iron_steel_products' },
+  { code: '730300', description: 'Tubes, pipes and hollow profiles of cast iron', goodsCategory: 'iron_steel_products' },
+  { code: '7304', description: 'Tubes, pipes and hollow profiles, seamless, of iron or steel', goodsCategory: 'iron_steel_products' },
+  { code: '7305', description: 'Other tubes and pipes, external diameter exceeding 406.4 mm', goodsCategory: 'iron_steel_products' },
+  { code: '7306', description: 'Other tubes, pipes and hollow profiles of iron or steel', goodsCategory: 'iron_steel_products' },
+  { code: '7307', description: 'Tube or pipe fittings of iron or steel', goodsCategory: 'iron_steel_products' },
+  { code: '7308', description: 'Structures and parts of structures of iron or steel', goodsCategory: 'iron_steel_products' },
+  { code: '730900', description: 'Reservoirs, tanks and vats of iron or steel, over 300 l', goodsCategory: 'iron_steel_products' },
+  { code: '7310', description: 'Tanks, casks, drums and cans of iron or steel, 300 l or less', goodsCategory: 'iron_steel_products' },
+  { code: '731100', description: 'Containers for compressed or liquefied gas, of iron or steel', goodsCategory: 'iron_steel_products' },
+  { code: '7318', description: 'Screws, bolts, nuts, rivets, washers and similar articles of iron or steel', goodsCategory: 'iron_steel_products' },
+  { code: '7326', description: 'Other articles of iron or steel', goodsCategory: 'iron_steel_products' },
+
+  // Aluminium
+  { code: '7601', description: 'Unwrought aluminium', goodsCategory: 'unwrought_aluminium' },
+  { code: '7603', description: 'Aluminium powders and flakes', goodsCategory: 'aluminium_products' },
+  { code: '7604', description: 'Aluminium bars, rods and profiles', goodsCategory: 'aluminium_products' },
+  { code: '7605', description: 'Aluminium wire', goodsCategory: 'aluminium_products' },
+  { code: '7606', description: 'Aluminium plates, sheets and strip, thicker than 0.2 mm', goodsCategory: 'aluminium_products' },
+  { code: '7607', description: 'Aluminium foil, not thicker than 0.2 mm', goodsCategory: 'aluminium_products' },
+  { code: '7608', description: 'Aluminium tubes and pipes', goodsCategory: 'aluminium_products' },
+  { code: '76090000', description: 'Aluminium tube or pipe fittings', goodsCategory: 'aluminium_products' },
+  { code: '7610', description: 'Aluminium structures and parts of structures', goodsCategory: 'aluminium_products' },
+  { code: '76110000', description: 'Aluminium reservoirs, tanks and vats, over 300 l', goodsCategory: 'aluminium_products' },
+  { code: '7612', description: 'Aluminium casks, drums, cans and boxes, 300 l or less', goodsCategory: 'aluminium_products' },
+  { code: '76130000', description: 'Aluminium containers for compressed or liquefied gas', goodsCategory: 'aluminium_products' },
+  { code: '7614', description: 'Stranded wire, cables and plaited bands of aluminium, not insulated', goodsCategory: 'aluminium_products' },
+  { code: '7616', description: 'Other articles of aluminium', goodsCategory: 'aluminium_products' },
+
+  // Hydrogen
+  { code: '28041000', description: 'Hydrogen', goodsCategory: 'hydrogen' },
+];
+
+// Codes inside a covered heading that Annex I leaves out
+const EXCLUDED_CN_CODES = ['31056000'];
+
+/**
+ * Strip the spaces and dots used when CN codes are written as "7208 10 00"
+ */
+export function normalizeCnCode(code: string): string {
+  return String(code).replace(/[\s.]/g, '');
+}
+
+/**
+ * Whether a code is a complete 8-digit CN code
+ */
+export function isValidCnCode(code: string): boolean {
+  return /^\d{8}$/.test(normalizeCnCode(code));
+}
+
+function toEntry(item: { code: string; description: string; goodsCategory: CBAMGoodsCategory }): CNCodeEntry {
+  const category = GOODS_CATEGORIES[item.goodsCategory];
+  return {
+    code: item.code,
+    description: item.description,
+    material: category.material,
+    goodsCategory: item.goodsCategory,
+    defaultRoute: category.routes[0],
+    routes: category.routes,
+    precursors: category.precursors,
+  };
+}
+
+/**
+ * Material, production routes and relevant precursors of an aggregated goods category
+ */
+export function getGoodsCategory(goodsCategory: CBAMGoodsCategory): GoodsCategoryDefinition {
+  return GOODS_CATEGORIES[goodsCategory];
+}
+
+/**
+ * Find the catalogue entry covering a CN code (longest matching heading).
+ * Returns null for codes outside the scope of CBAM. An exclusion applies only
+ * to codes at least as specific as the excluded code.
+ */
+export function findCnCode(code: string): CNCodeEntry | null {
+  const cnCode = normalizeCnCode(code);
+  if (!/^\d{4,8}$/.test(cnCode) || EXCLUDED_CN_CODES.some((excluded) => cnCode.startsWith(excluded))) {
+    return null;
+  }
+
+  let match: (typeof CN_CODES)[number] | null = null;
+  for (const item of CN_CODES) {
+    if (cnCode.startsWith(item.code) && (!match || item.code.length > match.code.length)) {
+      match = item;
+    }
+  }
+
+  return match ? toEntry(match) : null;
+}
+
+/**
+ * Search the catalogue by code prefix or description
+ */
+export function searchCnCodes(options: {
+  search?: string;
+  material?: CBAMMaterial;
+  goodsCategory?: CBAMGoodsCategory;
+  limit?: number;
+} = {}): CNCodeEntry[] {
+  const search = options.search?.trim().toLowerCase() || '';
+  const codeSearch = normalizeCnCode(search);
+  const isCodeSearch = /^\d+$/.test(codeSearch);
+
+  return CN_CODES
+    .filter((item) => {
+      if (options.goodsCategory && item.goodsCategory !== options.goodsCategory) return false;
+      if (options.material && GOODS_CATEGORIES[item.goodsCategory].material !== options.material) return false;
+      if (!search) return true;
+      if (isCodeSearch) {
+        return item.code.startsWith(codeSearch) || codeSearch.startsWith(item.code);
+      }
+      return item.description.toLowerCase().includes(search) || item.goodsCategory.includes(search.replace(/\s+/g, '_'));
+    })
+    .slice(0, options.limit ?? CN_CODES.length)
+    .map(toEntry);
+}
+
+/**
+ * Material, production route and precursors for a CN code. The route must be
+ * one the goods category can be produced by; it defaults to the usual route.
+ */
+export function deriveFromCnCode(
+  code: string,
+  productionRoute?: string
+): { cnCode: string; entry: CNCodeEntry; productionRoute: string } {
+  const cnCode = normalizeCnCode(code);
+  if (!isValidCnCode(cnCode)) {
+    throw new BadRequestError(`Invalid CN code "${code}": expected 8 digits`);
+  }
+
+  const entry = findCnCode(cnCode);
+  if (!entry) {
+    throw new BadRequestError(`CN code ${cnCode} is not covered by CBAM`);
+  }
+
+  if (!productionRoute) {
+    return { cnCode, entry, productionRoute: entry.defaultRoute };
+  }
+
+  const route = entry.routes.find((r) => r.toLowerCase() === productionRoute.toLowerCase());
+  if (!route) {
+    throw new BadRequestError(
+      `Production route "${productionRoute}" does not apply to CN code ${cnCode} (${entry.routes.join(', ')})`
+    );
+  }
+
+  return { cnCode, entry, productionRoute: route };
+}
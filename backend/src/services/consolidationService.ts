@@ -0,0 +1,224 @@
+/**
+ * Consolidation Service
+ *
+ * Organizational boundary under the GHG Protocol Corporate Standard, Chapter 3.
+ * Entities form a tree under a project; each entity's ownership and control are
+ * held by its parent, or by the reporting company at the top level. Activities
+ * without an entity of their own belong to their facility's entity, if any;
+ * otherwise to the reporting company, and are taken in full.
+ *
+ *   equity_share         product of the ownership percentages down the tree
+ *   financial_control    100% of entities under financial control, joint ventures
+ *                        without it by equity share, anything else 0%
+ *   operational_control  100% of entities under operational control, else 0%
+ *
+ * Control only passes down a chain of controlled entities: a subsidiary of an
+ * associate the company does not control is not consolidated.
+ */
+
+import { db } from '../config/database';
+import { roundTo } from '../utils/helpers';
+import * as gwpService from './gwpService';
+import type {
+  ApproachTotals,
+  ConsolidationMethod,
+  ConsolidationShares,
+  EntityConsolidation,
+  OrganizationalEntity,
+  OrganizationalEntityType,
+} from '../types';
+
+export const CONSOLIDATION_METHODS: ConsolidationMethod[] = ['equity_share', 'financial_control', 'operational_control'];
+
+export const DEFAULT_CONSOLIDATION_METHOD: ConsolidationMethod = 'operational_control';
+
+export const ENTITY_TYPES: OrganizationalEntityType[] = ['subsidiary', 'joint_venture', 'associate', 'division', 'facility'];
+
+const FULL_SHARE: ConsolidationShares = { equity_share: 1, financial_control: 1, operational_control: 1 };
+
+export function isConsolidationMethod(value: unknown): value is ConsolidationMethod {
+  return typeof value === 'string' && (CONSOLIDATION_METHODS as string[]).includes(value);
+}
+
+export function toEntity(row: any): OrganizationalEntity {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    parentId: row.parent_id || null,
+    name: row.name,
+    entityType: row.entity_type,
+    country: row.country || null,
+    ownershipPercent: parseFloat(row.ownership_percent),
+    financialControl: row.financial_control,
+    operationalControl: row.operational_control,
+  };
+}
+
+export async function getProjectEntities(projectId: string): Promise<OrganizationalEntity[]> {
+  const result = await db.query(
+    `SELECT * FROM organizational_entities WHERE project_id = $1 ORDER BY name`,
+    [projectId]
+  );
+  return result.rows.map(toEntity);
+}
+
+/**
+ * Whether making `parentId` the parent of `entityId` would make the entity its own ancestor
+ */
+export function createsCycle(entities: OrganizationalEntity[], entityId: string, parentId: string | null): boolean {
+  const byId = new Map(entities.map((e) => [e.id, e]));
+  const seen = new Set<string>();
+  let current = parentId;
+
+  while (current && !seen.has(current)) {
+    if (current === entityId) return true;
+    seen.add(current);
+    current = byId.get(current)?.parentId || null;
+  }
+  return false;
+}
+
+/**
+ * Share of every entity's emissions taken in under each approach, with the
+ * entity's path from the top level
+ */
+export function consolidationShares(
+  entities: OrganizationalEntity[]
+): Map<string, { shares: ConsolidationShares; path: string[] }> {
+  const byId = new Map(entities.map((e) => [e.id, e]));
+  const resolved = new Map<string, { shares: ConsolidationShares; path: string[] }>();
+
+  const resolve = (entity: OrganizationalEntity, visiting: Set<string>): { shares: ConsolidationShares; path: string[] } => {
+    const known = resolved.get(entity.id);
+    if (known) return known;
+
+    // A parent outside the project, or a cycle, is treated as the reporting company
+    const parentEntity = entity.parentId ? byId.get(entity.parentId) : undefined;
+    visiting.add(entity.id);
+    const parent = parentEntity && !visiting.has(parentEntity.id)
+      ? resolve(parentEntity, visiting)
+      : { shares: FULL_SHARE, path: [] };
+
+    const ownership = entity.ownershipPercent / 100;
+    const shares: ConsolidationShares = {
+      equity_share: parent.shares.equity_share * ownership,
+      financial_control: entity.financialControl
+        ? parent.shares.financial_control
+        : entity.entityType === 'joint_venture' ? parent.shares.financial_control * ownership : 0,
+      operational_control: entity.operationalControl ? parent.shares.operational_control : 0,
+    };
+
+    const result = { shares, path: [...parent.path, entity.name] };
+    resolved.set(entity.id, result);
+    return result;
+  };
+
+  for (const entity of entities) {
+    resolve(entity, new Set());
+  }
+  return resolved;
+}
+
+/**
+ * Activities scaled to the share taken in under the approach (quantity,
+ * emissions and gas breakdown), excluding those with no share; the per-entity
+ * breakdown; and totals under every approach for disclosure alongside
+ */
+export function consolidateActivities<T extends Record<string, any>>(
+  activities: T[],
+  entities: OrganizationalEntity[],
+  method: ConsolidationMethod
+): {
+  activities: T[];
+  byEntity: EntityConsolidation[];
+  approachTotals: Record<ConsolidationMethod, ApproachTotals>;
+} {
+  const sharesById = consolidationShares(entities);
+  const byEntity = new Map<string | null, EntityConsolidation>();
+  const approachTotals = Object.fromEntries(
+    CONSOLIDATION_METHODS.map((m) => [m, { scope1: 0, scope2: 0, scope3: 0, total: 0 }])
+  ) as Record<ConsolidationMethod, ApproachTotals>;
+  const consolidated: T[] = [];
+
+  for (const activity of activities) {
+    const ownerId = activity.entity_id || activity.facility_entity_id;
+    const entity = ownerId ? sharesById.get(ownerId) : undefined;
+    const entityId = entity ? ownerId as string : null;
+    const shares = entity?.shares || FULL_SHARE;
+    const emissions = parseFloat(activity.total_emissions_kg_co2e) || 0;
+
+    if (!byEntity.has(entityId)) {
+      byEntity.set(entityId, {
+        entityId,
+        name: entity ? entity.path[entity.path.length - 1] : 'Reporting company',
+        path: entity?.path || [],
+        shares,
+        grossKgCo2e: 0,
+        consolidatedKgCo2e: 0,
+      });
+    }
+    const row = byEntity.get(entityId)!;
+    row.grossKgCo2e += emissions;
+    row.consolidatedKgCo2e += emissions * shares[method];
+
+    // Scope 2 uses the location-based emissions stored on the activity
+    for (const m of CONSOLIDATION_METHODS) {
+      const totals = approachTotals[m];
+      const scope = activity.scope as 'scope1' | 'scope2' | 'scope3';
+      if (scope in totals) {
+        totals[scope] += emissions * shares[m];
+        totals.total += emissions * shares[m];
+      }
+    }
+
+    if (shares[method] > 0) {
+      consolidated.push(scaleActivity(activity, shares[method]));
+    }
+  }
+
+  return {
+    activities: consolidated,
+    byEntity: Array.from(byEntity.values()).map((row) => ({
+      ...row,
+      shares: roundShares(row.shares),
+      grossKgCo2e: roundTo(row.grossKgCo2e, 4),
+      consolidatedKgCo2e: roundTo(row.consolidatedKgCo2e, 4),
+    })),
+    approachTotals: Object.fromEntries(
+      Object.entries(approachTotals).map(([m, totals]) => [m, {
+        scope1: roundTo(totals.scope1, 4),
+        scope2: roundTo(totals.scope2, 4),
+        scope3: roundTo(totals.scope3, 4),
+        total: roundTo(totals.total, 4),
+      }])
+    ) as Record<ConsolidationMethod, ApproachTotals>,
+  };
+}
+
+function scaleActivity<T extends Record<string, any>>(activity: T, share: number): T {
+  if (share === 1) {
+    return activity;
+  }
+
+  const breakdown = gwpService.parseGasBreakdown(activity.gas_breakdown);
+  return {
+    ...activity,
+    quantity: parseFloat(activity.quantity) * share,
+    total_emissions_kg_co2e: (parseFloat(activity.total_emissions_kg_co2e) || 0) * share,
+    gas_breakdown: breakdown
+      ? {
+          gwpSet: breakdown.gwpSet,
+          gases: gwpService.scaleGasAmounts(breakdown.gases, share),
+          unspecifiedCo2e: breakdown.unspecifiedCo2e * share,
+        }
+      : activity.gas_breakdown,
+  };
+}
+
+function roundShares(shares: ConsolidationShares): ConsolidationShares {
+  return {
+    equity_share: roundTo(shares.equity_share, 6),
+    financial_control: roundTo(shares.financial_control, 6),
+    operational_control: roundTo(shares.operational_control, 6),
+  };
+}
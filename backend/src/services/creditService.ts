@@ -0,0 +1,186 @@
+/**
+ * Credit Service
+ *
+ * Ledger of carbon credits bought and retired by a project. Each entry is a
+ * block of consecutive serial numbers within a registry block identifier, one
+ * credit per tCO2e. Retiring part of a block splits it: the retired credits
+ * keep the first serials and the rest stay held.
+ *
+ * A serial can be in one ledger entry only, across all projects, so the same
+ * credit cannot be claimed twice. Credits retired for a reporting year are
+ * shown against the CFO, or against a product's CFP when retired for that
+ * product, next to the gross emissions and never folded into them (GHG
+ * Protocol Corporate Standard ch. 8, ISO 14068-1).
+ */
+
+import { db } from '../config/database';
+import { ConflictError } from '../middleware/errorHandler';
+import { roundTo } from '../utils/helpers';
+import type { CarbonCredit, CreditNetView, CreditRegistry } from '../types';
+
+export const REGISTRIES: Record<CreditRegistry, string> = {
+  verra: 'Verra (Verified Carbon Standard)',
+  gold_standard: 'Gold Standard',
+  ccer: 'China Certified Emission Reduction (CCER)',
+  t_ver: 'Thailand Voluntary Emission Reduction (T-VER)',
+  j_credit: 'J-Credit',
+  k_oc: 'Korean Offset Credit (K-OC)',
+};
+
+export function toCredit(row: any): CarbonCredit {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    registry: row.registry,
+    registryProjectId: row.registry_project_id || null,
+    projectName: row.project_name || null,
+    projectType: row.project_type,
+    creditType: row.credit_type,
+    vintage: row.vintage,
+    serialPrefix: row.serial_prefix,
+    serialStart: Number(row.serial_start),
+    serialEnd: Number(row.serial_end),
+    quantity: serialCount(Number(row.serial_start), Number(row.serial_end)),
+    status: row.status,
+    purchaseDate: row.purchase_date || null,
+    pricePerCredit: row.price_per_credit === null || row.price_per_credit === undefined
+      ? null
+      : parseFloat(row.price_per_credit),
+    currency: row.currency || null,
+    retirementDate: row.retirement_date || null,
+    retiredForYear: row.retired_for_year ?? null,
+    productId: row.product_id || null,
+    beneficiary: row.beneficiary || null,
+  };
+}
+
+export function serialCount(serialStart: number, serialEnd: number): number {
+  return serialEnd - serialStart + 1;
+}
+
+export function formatSerials(credit: Pick<CarbonCredit, 'serialPrefix' | 'serialStart' | 'serialEnd'>): string {
+  const range = credit.serialStart === credit.serialEnd
+    ? `${credit.serialStart}`
+    : `${credit.serialStart}-${credit.serialEnd}`;
+  return credit.serialPrefix ? `${credit.serialPrefix}-${range}` : range;
+}
+
+export function describeCredit(credit: CarbonCredit): string {
+  const name = credit.projectName || credit.registryProjectId || credit.projectType;
+  return `${credit.quantity} ${REGISTRIES[credit.registry]} credits, ${name}, vintage ${credit.vintage} (${formatSerials(credit)})`;
+}
+
+/**
+ * Refuse serials that overlap an entry already in any project's ledger
+ */
+export async function assertSerialsFree(
+  credit: Pick<CarbonCredit, 'projectId' | 'registry' | 'serialPrefix' | 'serialStart' | 'serialEnd'>,
+  excludeId: string | null = null
+): Promise<void> {
+  const clash = await db.queryOne(
+    `SELECT id, project_id, serial_prefix, serial_start, serial_end
+     FROM carbon_credits
+     WHERE registry = $1 AND serial_prefix = $2
+       AND serial_start <= $4 AND serial_end >= $3
+       AND ($5::uuid IS NULL OR id <> $5)
+     LIMIT 1`,
+    [credit.registry, credit.serialPrefix, credit.serialStart, credit.serialEnd, excludeId]
+  );
+  if (!clash) {
+    return;
+  }
+
+  const serials = formatSerials({
+    serialPrefix: clash.serial_prefix,
+    serialStart: Number(clash.serial_start),
+    serialEnd: Number(clash.serial_end),
+  });
+  throw new ConflictError(
+    clash.project_id === credit.projectId
+      ? `Serials overlap credits already in this ledger (${serials})`
+      : `Serials overlap credits recorded by another project (${serials}); a credit can be claimed once only`
+  );
+}
+
+/**
+ * Serial ranges of the credits retired and of those left held when `quantity`
+ * credits of a held block are retired
+ */
+export function splitForRetirement(
+  credit: Pick<CarbonCredit, 'serialStart' | 'serialEnd' | 'quantity'>,
+  quantity: number
+): { retired: { serialStart: number; serialEnd: number }; remaining: { serialStart: number; serialEnd: number } | null } {
+  const retiredEnd = credit.serialStart + quantity - 1;
+  return {
+    retired: { serialStart: credit.serialStart, serialEnd: retiredEnd },
+    remaining: quantity < credit.quantity ? { serialStart: retiredEnd + 1, serialEnd: credit.serialEnd } : null,
+  };
+}
+
+/**
+ * Credits retired for a reporting year, against a product or (productId null)
+ * against the organization
+ */
+export async function getRetiredCredits(
+  projectId: string,
+  year: number,
+  productId: string | null = null
+): Promise<CarbonCredit[]> {
+  const result = await db.query(
+    `SELECT * FROM carbon_credits
+     WHERE project_id = $1 AND status = 'retired' AND retired_for_year = $2
+       AND product_id IS NOT DISTINCT FROM $3
+     ORDER BY retirement_date, serial_start`,
+    [projectId, year, productId]
+  );
+  return result.rows.map(toCredit);
+}
+
+/**
+ * Retired credits of one project for a year, by the product they were
+ * claimed against ('' for the organization)
+ */
+export async function getRetiredCreditsByProduct(projectId: string, year: number): Promise<Map<string, CarbonCredit[]>> {
+  const result = await db.query(
+    `SELECT * FROM carbon_credits
+     WHERE project_id = $1 AND status = 'retired' AND retired_for_year = $2
+     ORDER BY retirement_date, serial_start`,
+    [projectId, year]
+  );
+
+  const byProduct = new Map<string, CarbonCredit[]>();
+  for (const credit of result.rows.map(toCredit)) {
+    const key = credit.productId || '';
+    byProduct.set(key, [...(byProduct.get(key) || []), credit]);
+  }
+  return byProduct;
+}
+
+/**
+ * Gross emissions, credits retired and the net. The gross is unchanged; the
+ * net is what remains after the credits and can go below zero.
+ */
+export function netEmissions(grossKgCo2e: number, credits: CarbonCredit[], outputQuantity?: number): CreditNetView {
+  const retired = credits.filter((credit) => credit.status === 'retired');
+  const sum = (type: CarbonCredit['creditType']) =>
+    retired.filter((credit) => credit.creditType === type).reduce((total, credit) => total + credit.quantity, 0);
+  const creditsRetired = sum('avoidance') + sum('removal');
+  const net = grossKgCo2e - creditsRetired * 1000;
+
+  return {
+    grossKgCo2e: roundTo(grossKgCo2e, 4),
+    creditsRetiredTCo2e: creditsRetired,
+    avoidanceTCo2e: sum('avoidance'),
+    removalTCo2e: sum('removal'),
+    netKgCo2e: roundTo(net, 4),
+    ...(outputQuantity !== undefined && { netPerUnit: outputQuantity > 0 ? roundTo(net / outputQuantity, 6) : 0 }),
+    credits: retired.map((credit) => ({
+      id: credit.id,
+      registry: credit.registry,
+      serials: formatSerials(credit),
+      vintage: credit.vintage,
+      creditType: credit.creditType,
+      quantity: credit.quantity,
+    })),
+  };
+}
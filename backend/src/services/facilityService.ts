@@ -0,0 +1,112 @@
+/**
+ * Facility Service
+ *
+ * Sites of a project. A facility's country and grid sub-region locate the
+ * emission factors of its activities (most visibly the grid factor for
+ * purchased electricity), so a multi-site inventory no longer depends on
+ * per-activity metadata. A facility can belong to an organizational entity,
+ * whose share then applies to the facility's activities on consolidation.
+ */
+
+import { formatDate, roundTo } from '../utils/helpers';
+import type { Facility } from '../types';
+
+export interface FacilityEmissions {
+  facilityId: string | null;
+  name: string;
+  country: string | null;
+  gridRegion: string | null;
+  totalEmissions: number;
+  activityCount: number;
+  byScope: Record<string, { totalEmissions: number; activityCount: number }>;
+}
+
+export function toFacility(row: any): Facility {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    entityId: row.entity_id || null,
+    name: row.name,
+    code: row.code || null,
+    address: row.address || null,
+    city: row.city || null,
+    country: row.country,
+    gridRegion: row.grid_region || null,
+    latitude: row.latitude !== null && row.latitude !== undefined ? parseFloat(row.latitude) : null,
+    longitude: row.longitude !== null && row.longitude !== undefined ? parseFloat(row.longitude) : null,
+    operationalFrom: row.operational_from ? formatDate(row.operational_from) : null,
+    operationalTo: row.operational_to ? formatDate(row.operational_to) : null,
+  };
+}
+
+/**
+ * Whether the facility operated at any time during the calendar year
+ */
+export function operatesInYear(facility: Pick<Facility, 'operationalFrom' | 'operationalTo'>, year: number): boolean {
+  if (facility.operationalFrom && parseInt(facility.operationalFrom.slice(0, 4)) > year) {
+    return false;
+  }
+  if (facility.operationalTo && parseInt(facility.operationalTo.slice(0, 4)) < year) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Per-facility totals from rows grouped by facility and scope. Activities
+ * without a facility are reported together as "Unassigned", listed last.
+ */
+export function summarizeByFacility(
+  rows: Array<{
+    facility_id: string | null;
+    facility_name?: string | null;
+    country?: string | null;
+    grid_region?: string | null;
+    scope: string;
+    total_emissions: string | number | null;
+    activity_count: string | number;
+  }>
+): FacilityEmissions[] {
+  const byFacility = new Map<string | null, FacilityEmissions>();
+
+  for (const row of rows) {
+    const facilityId = row.facility_id || null;
+    if (!byFacility.has(facilityId)) {
+      byFacility.set(facilityId, {
+        facilityId,
+        name: facilityId ? row.facility_name || facilityId : 'Unassigned',
+        country: facilityId ? row.country || null : null,
+        gridRegion: facilityId ? row.grid_region || null : null,
+        totalEmissions: 0,
+        activityCount: 0,
+        byScope: {},
+      });
+    }
+
+    const entry = byFacility.get(facilityId)!;
+    const emissions = parseFloat(String(row.total_emissions)) || 0;
+    const count = parseInt(String(row.activity_count)) || 0;
+    const scope = entry.byScope[row.scope] || { totalEmissions: 0, activityCount: 0 };
+    scope.totalEmissions += emissions;
+    scope.activityCount += count;
+    entry.byScope[row.scope] = scope;
+    entry.totalEmissions += emissions;
+    entry.activityCount += count;
+  }
+
+  return Array.from(byFacility.values())
+    .map((entry) => ({
+      ...entry,
+      totalEmissions: roundTo(entry.totalEmissions, 4),
+      byScope: Object.fromEntries(
+        Object.entries(entry.byScope).map(([scope, totals]) => [
+          scope,
+          { totalEmissions: roundTo(totals.totalEmissions, 4), activityCount: totals.activityCount },
+        ])
+      ),
+    }))
+    .sort((a, b) => {
+      if (!a.facilityId !== !b.facilityId) return a.facilityId ? -1 : 1;
+      return b.totalEmissions - a.totalEmissions || a.name.localeCompare(b.name);
+    });
+}
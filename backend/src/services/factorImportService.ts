@@ -0,0 +1,899 @@
+/**
+ * Factor File Import Service
+ *
+ * Parses the factor files publishers distribute, offline, into emission_factors rows:
+ *
+ *   desnz      UK Government GHG Conversion Factors, "flat file" sheet (one row per gas)
+ *   epa_hub    US EPA GHG Emission Factors Hub (numbered tables, one column per gas)
+ *   ipcc_efdb  IPCC Emission Factor Database export (one row per factor and gas)
+ *   tgo        Thailand Greenhouse Gas Management Organization (TGO) CFO factor list
+ *
+ * Headers are located by name, so title rows, notes and column order may vary
+ * between editions. Parsing never throws: every source row gets a mapping report
+ * entry, and problems are returned as ParsingErrors. Missing columns or source year
+ * are errors; a single unreadable row is a warning so the rest can still be used.
+ */
+
+import * as XLSX from 'xlsx';
+import { roundTo } from '../utils/helpers';
+import * as gwpService from './gwpService';
+import * as unitService from './unitService';
+import type {
+  EmissionScope,
+  FactorFileFormat,
+  FactorImportResult,
+  FactorMappingRow,
+  GasAmounts,
+  GreenhouseGas,
+  GWPSet,
+  ImportedEmissionFactor,
+  ParsingError,
+} from '../types';
+
+export const FACTOR_FILE_FORMATS: Record<FactorFileFormat, { name: string; publisher: string; country: string | null }> = {
+  desnz: { name: 'UK Government GHG Conversion Factors', publisher: 'DESNZ', country: 'GB' },
+  epa_hub: { name: 'EPA GHG Emission Factors Hub', publisher: 'US EPA', country: 'US' },
+  ipcc_efdb: { name: 'IPCC Emission Factor Database', publisher: 'IPCC', country: null },
+  tgo: { name: 'TGO Emission Factors', publisher: 'TGO', country: 'TH' },
+};
+
+export interface FactorImportOptions {
+  sourceYear?: number;   // overrides the year read from the file
+  gwpSet?: GWPSet;       // GWPs the publisher used to express gases as CO2e
+}
+
+interface ActivityRule {
+  pattern: RegExp;
+  activityType: string;
+  scope: EmissionScope;
+}
+
+// Header rows are searched for within the first rows of each sheet
+const HEADER_SCAN_ROWS = 40;
+
+// Uncertainty columns are DECIMAL(5, 2)
+const MAX_UNCERTAINTY_PERCENT = 999.99;
+
+// Units publishers write that the unit registry does not know by name
+const UNIT_ALIASES: Record<string, string> = {
+  'ลิตร': 'l',
+  'กิโลกรัม': 'kg',
+  'กก': 'kg',
+  'ตัน': 't',
+  'ลูกบาศก์เมตร': 'm3',
+  'ลบ_ม': 'm3',
+  'กิโลวัตต์ชั่วโมง': 'kwh',
+  'เมกะจูล': 'mj',
+  'ชิ้น': 'unit',
+  'กิโลเมตร': 'km',
+};
+
+interface ColumnSpec {
+  [key: string]: RegExp;
+}
+
+interface Table {
+  sheet: string;
+  firstRow: number;
+  headerIndex: number;
+  header: string[];
+  columns: Record<string, number>;
+  cells: any[][];
+}
+
+// ============================================================================
+// ENTRY POINT
+// ============================================================================
+
+export function isFactorFileFormat(value: unknown): value is FactorFileFormat {
+  return typeof value === 'string' && value in FACTOR_FILE_FORMATS;
+}
+
+/**
+ * Parse a published factor file. Nothing is saved; the result is both the
+ * dry-run preview and the input of the dataset import.
+ */
+export function parseFactorFile(
+  format: FactorFileFormat,
+  workbook: XLSX.WorkBook,
+  options: FactorImportOptions = {}
+): FactorImportResult {
+  const context: ParseContext = {
+    format,
+    gwpSet: options.gwpSet || gwpService.DEFAULT_GWP_SET,
+    factors: new Map(),
+    report: [],
+    errors: [],
+  };
+
+  let sourceYear: number | null = null;
+  switch (format) {
+    case 'desnz':
+      sourceYear = parseDesnz(workbook, options, context);
+      break;
+    case 'epa_hub':
+      sourceYear = parseEpaHub(workbook, options, context);
+      break;
+    case 'ipcc_efdb':
+      sourceYear = parseEfdb(workbook, options, context);
+      break;
+    case 'tgo':
+      sourceYear = parseTgo(workbook, options, context);
+      break;
+  }
+
+  return {
+    format,
+    source: sourceName(format, sourceYear),
+    sourceYear,
+    factors: Array.from(context.factors.values()),
+    report: context.report,
+    errors: context.errors,
+  };
+}
+
+function sourceName(format: FactorFileFormat, sourceYear: number | null): string {
+  return sourceYear ? `${FACTOR_FILE_FORMATS[format].name} ${sourceYear}` : FACTOR_FILE_FORMATS[format].name;
+}
+
+interface ParseContext {
+  format: FactorFileFormat;
+  gwpSet: GWPSet;
+  factors: Map<string, ImportedEmissionFactor>;
+  report: FactorMappingRow[];
+  errors: ParsingError[];
+}
+
+// ============================================================================
+// DESNZ / DEFRA CONVERSION FACTORS (flat file)
+// ============================================================================
+
+const DESNZ_COLUMNS: ColumnSpec = {
+  id: /^id$/,
+  scope: /^scope$/,
+  level1: /^level 1$/,
+  level2: /^level 2$/,
+  level3: /^level 3$/,
+  level4: /^level 4$/,
+  columnText: /^column text$/,
+  uom: /^uom$|^unit of measure/,
+  ghgUnit: /^ghg\/unit$|^ghg unit/,
+  factor: /^ghg conversion factor/,
+};
+
+const DESNZ_ACTIVITY_RULES: ActivityRule[] = [
+  { pattern: /^wtt|^transmission and distribution/, activityType: 'fuel_energy', scope: 'scope3' },
+  { pattern: /^(fuels|bioenergy)$/, activityType: 'stationary_combustion', scope: 'scope1' },
+  { pattern: /^refrigerant/, activityType: 'fugitive_emissions', scope: 'scope1' },
+  { pattern: /^(passenger|delivery) vehicles$/, activityType: 'mobile_combustion', scope: 'scope1' },
+  { pattern: /electricity/, activityType: 'purchased_electricity', scope: 'scope2' },
+  { pattern: /^heat and steam$/, activityType: 'purchased_heat_steam', scope: 'scope2' },
+  { pattern: /^(water supply|material use)$/, activityType: 'purchased_goods', scope: 'scope3' },
+  { pattern: /^(water treatment|waste disposal)$/, activityType: 'waste', scope: 'scope3' },
+  { pattern: /^business travel.*air/, activityType: 'air_travel', scope: 'scope3' },
+  { pattern: /^business travel|^hotel stay/, activityType: 'business_travel', scope: 'scope3' },
+  { pattern: /^freighting goods/, activityType: 'upstream_transport', scope: 'scope3' },
+  { pattern: /^homeworking/, activityType: 'employee_commuting', scope: 'scope3' },
+];
+
+interface DesnzGroup {
+  rule: ActivityRule;
+  scope: EmissionScope;
+  levels: string[];
+  columnText: string | null;
+  uom: string;
+  ids: string[];
+  rows: number[];
+  total: number | null;
+  gases: GasAmounts;
+  reports: FactorMappingRow[];
+}
+
+function parseDesnz(workbook: XLSX.WorkBook, options: FactorImportOptions, context: ParseContext): number | null {
+  const table = locateTable(
+    workbook,
+    DESNZ_COLUMNS,
+    ['scope', 'level1', 'uom', 'ghgUnit', 'factor'],
+    'DESNZ flat file',
+    context.errors
+  );
+  if (!table) {
+    return null;
+  }
+
+  const sourceYear = options.sourceYear || yearIn(table.header[table.columns.factor]);
+  if (!sourceYear) {
+    context.errors.push(sheetError(table, 'factor', 'Source year not found in the factor column header; pass sourceYear'));
+  }
+
+  const groups = new Map<string, DesnzGroup>();
+
+  forEachDataRow(table, (row, values) => {
+    const text = (key: string) => cellText(values[table.columns[key]]);
+    const levels = ['level1', 'level2', 'level3', 'level4'].map(text).filter((l): l is string => !!l);
+    const columnText = text('columnText');
+    const uom = text('uom');
+    const ghgUnit = text('ghgUnit') || '';
+    const entry = reportRow(context, table.sheet, row, [...levels, columnText].filter(Boolean).join(' > '));
+
+    const rule = DESNZ_ACTIVITY_RULES.find((r) => r.pattern.test((levels[0] || '').toLowerCase()));
+    if (!rule) {
+      skip(entry, `Level 1 "${levels[0] || ''}" has no matching activity type`);
+      return;
+    }
+
+    const scopeMatch = (text('scope') || '').match(/scope\s*([123])/i);
+    if (!scopeMatch) {
+      skip(entry, `"${text('scope') || ''}" is outside of scopes 1-3`);
+      return;
+    }
+
+    if (!uom) {
+      rowWarning(context, table, row, 'uom', null, 'UOM is required', entry);
+      return;
+    }
+
+    const value = cellNumber(values[table.columns.factor]);
+    if (value === null) {
+      if (cellText(values[table.columns.factor])) {
+        rowWarning(context, table, row, 'factor', values[table.columns.factor], 'Factor is not a number', entry);
+      } else {
+        skip(entry, 'No factor value published');
+      }
+      return;
+    }
+
+    const key = [text('scope'), ...levels, columnText, uom].join('|');
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        rule,
+        scope: `scope${scopeMatch[1]}` as EmissionScope,
+        levels,
+        columnText,
+        uom,
+        ids: [],
+        rows: [],
+        total: null,
+        gases: {},
+        reports: [],
+      };
+      groups.set(key, group);
+    }
+    group.rows.push(row);
+    group.reports.push(entry);
+    const id = text('id');
+    if (id) group.ids.push(id);
+
+    // "kg CO2e", "kg CO2e of CH4 per unit" or "kg CH4"
+    const share = ghgUnit.match(/co2e\s+of\s+(\S+)\s+per/i);
+    const mass = ghgUnit.match(/^kg\s+(\S+)$/i);
+    if (/^kg\s*co2e$/i.test(ghgUnit)) {
+      group.total = value;
+      entry.notes.push('Total kg CO2e per unit');
+    } else if (share && gwpService.resolveGas(share[1])) {
+      const gas = gwpService.resolveGas(share[1]) as GreenhouseGas;
+      group.gases[gas] = value / gwpService.getGWP(gas, context.gwpSet);
+      entry.notes.push(`${gas} share, kg CO2e to kg ${gas} at ${context.gwpSet}`);
+    } else if (mass && gwpService.resolveGas(mass[1])) {
+      const gas = gwpService.resolveGas(mass[1]) as GreenhouseGas;
+      group.gases[gas] = value;
+    } else {
+      group.rows.pop();
+      group.reports.pop();
+      skip(entry, `GHG/Unit "${ghgUnit}" is not read`);
+    }
+  });
+
+  for (const group of Array.from(groups.values())) {
+    if (group.rows.length === 0) continue;
+
+    const { unit, basis, notes } = resolveActivityUnit(group.uom);
+    const [category, ...rest] = group.levels;
+    const name = [...rest, group.columnText].filter(Boolean).join(' - ') || category;
+    const qualifier = slug([...rest, group.columnText, basis].filter(Boolean).join(' '));
+    const hasGases = Object.keys(group.gases).length > 0;
+
+    addFactor(context, group.reports, notes, {
+      key: `${slug(category)}:${qualifier}:${group.scope}:${unit}`,
+      name,
+      category,
+      subcategory: rest[0] || null,
+      activityType: group.rule.activityType,
+      scope: group.scope,
+      unit,
+      factorValue: group.total ?? roundTo(gwpService.gasesToCO2e(group.gases, context.gwpSet), 10),
+      factorUnit: 'kg_co2e',
+      gases: hasGases ? group.gases : null,
+      source: sourceName('desnz', sourceYear),
+      sourceYear: sourceYear || 0,
+      region: null,
+      country: FACTOR_FILE_FORMATS.desnz.country,
+      uncertaintyMin: null,
+      uncertaintyMax: null,
+      metadata: { qualifier, sourceIds: group.ids, uom: group.uom, basis, gwpSet: hasGases ? context.gwpSet : undefined },
+      rows: group.rows,
+    });
+  }
+
+  return sourceYear;
+}
+
+// ============================================================================
+// EPA GHG EMISSION FACTORS HUB
+// ============================================================================
+
+const EPA_ACTIVITY_RULES: ActivityRule[] = [
+  { pattern: /stationary combustion/, activityType: 'stationary_combustion', scope: 'scope1' },
+  { pattern: /mobile combustion|on-road|non-road/, activityType: 'mobile_combustion', scope: 'scope1' },
+  { pattern: /electricity/, activityType: 'purchased_electricity', scope: 'scope2' },
+  { pattern: /steam and heat/, activityType: 'purchased_heat_steam', scope: 'scope2' },
+  { pattern: /business travel/, activityType: 'business_travel', scope: 'scope3' },
+  { pattern: /upstream transportation|product transport/, activityType: 'upstream_transport', scope: 'scope3' },
+  { pattern: /waste/, activityType: 'waste', scope: 'scope3' },
+];
+
+interface GasColumn {
+  index: number;
+  gas: GreenhouseGas | 'total';
+  toKg: number;
+  per: string;
+}
+
+/**
+ * Read a factor column header such as "CH4 Factor (g CH4 per mmBtu)" or "CO2 Factor (lb / MWh)"
+ */
+export function parseGasHeader(header: string): Omit<GasColumn, 'index'> | null {
+  const gasMatch = header.match(/\b(co2e|co2|ch4|n2o)\b/i);
+  const massMatch = header.match(/\b(kg|g|lbs?|metric tons?|short tons?)\b[^/]*?(?:\/|\bper\b)\s*([^)]+)/i);
+  if (!gasMatch || !massMatch) {
+    return null;
+  }
+
+  const mass = unitService.getUnit(massMatch[1]);
+  if (!mass || mass.dimension !== 'mass') {
+    return null;
+  }
+
+  return {
+    gas: gasMatch[1].toLowerCase() === 'co2e' ? 'total' : (gwpService.resolveGas(gasMatch[1]) as GreenhouseGas),
+    toKg: mass.toBase,
+    per: massMatch[2].trim(),
+  };
+}
+
+function parseEpaHub(workbook: XLSX.WorkBook, options: FactorImportOptions, context: ParseContext): number | null {
+  let sourceYear: number | null = options.sourceYear || null;
+  let foundTable = false;
+
+  for (const sheet of workbook.SheetNames) {
+    const { cells, firstRow } = readCells(workbook.Sheets[sheet]);
+    let title = '';
+    let rule: ActivityRule | undefined;
+    let heading: string | null = null;
+    let gasColumns: GasColumn[] = [];
+    let unitColumn = -1;
+
+    cells.forEach((values, i) => {
+      const row = firstRow + i;
+      const texts = values.map(cellText);
+      const joined = texts.filter(Boolean).join(' ');
+
+      if (!sourceYear && i < HEADER_SCAN_ROWS && /emission factors hub|last modified/i.test(joined)) {
+        sourceYear = yearIn(joined);
+      }
+
+      if (/^table\s+\d+/i.test(texts.find(Boolean) || '')) {
+        title = joined;
+        rule = EPA_ACTIVITY_RULES.find((r) => r.pattern.test(title.toLowerCase()));
+        heading = null;
+        gasColumns = [];
+        return;
+      }
+
+      const headers = texts
+        .map((t, index) => (t && cellNumber(values[index]) === null ? { index, parsed: parseGasHeader(t) } : null))
+        .filter((h): h is { index: number; parsed: Omit<GasColumn, 'index'> } => !!h?.parsed);
+      if (headers.length > 0) {
+        gasColumns = headers.map((h) => ({ index: h.index, ...h.parsed }));
+        unitColumn = texts.findIndex((t) => /^units?$/i.test(t || ''));
+        foundTable = true;
+        return;
+      }
+
+      if (gasColumns.length === 0 || !joined) {
+        return;
+      }
+
+      if (!gasColumns.some((c) => cellNumber(values[c.index]) !== null)) {
+        // Text-only rows inside a table are groupings such as "Coal and Coke"
+        heading = joined;
+        return;
+      }
+
+      const labels = texts.filter((t, index) => t && cellNumber(values[index]) === null && index !== unitColumn) as string[];
+      const entry = reportRow(context, sheet, row, [heading, labels.join(' ')].filter(Boolean).join(' > '));
+
+      if (!rule) {
+        skip(entry, `${title || 'Table'} has no matching activity type`);
+        return;
+      }
+
+      const isGrid = rule.activityType === 'purchased_electricity';
+      const description = isGrid ? labels[1] || labels[0] : labels[0];
+      const region = isGrid ? labels[0] || null : null;
+
+      const byUnit = new Map<string, GasColumn[]>();
+      for (const column of gasColumns) {
+        if (cellNumber(values[column.index]) === null) continue;
+        const per = /^unit$/i.test(column.per) && unitColumn >= 0 ? cellText(values[unitColumn]) || column.per : column.per;
+        byUnit.set(per, [...(byUnit.get(per) || []), column]);
+      }
+
+      for (const [per, columns] of Array.from(byUnit.entries())) {
+        const gases: GasAmounts = {};
+        let total: number | null = null;
+        for (const column of columns) {
+          const kg = roundTo((cellNumber(values[column.index]) as number) * column.toKg, 10);
+          if (column.gas === 'total') total = kg;
+          else gases[column.gas] = kg;
+        }
+
+        const { unit, basis, notes } = resolveActivityUnit(per);
+        const qualifier = slug([heading, description, basis].filter(Boolean).join(' '));
+        const hasGases = Object.keys(gases).length > 0;
+
+        addFactor(context, [entry], notes, {
+          key: `${slug(title)}:${qualifier}:${region || ''}:${unit}`,
+          name: description || heading || title,
+          category: title.replace(/^table\s+\d+\s*/i, '') || title,
+          subcategory: heading,
+          activityType: rule.activityType,
+          scope: rule.scope,
+          unit,
+          factorValue: total ?? roundTo(gwpService.gasesToCO2e(gases, context.gwpSet), 10),
+          factorUnit: 'kg_co2e',
+          gases: hasGases ? gases : null,
+          source: sourceName('epa_hub', sourceYear),
+          sourceYear: sourceYear || 0,
+          region,
+          country: FACTOR_FILE_FORMATS.epa_hub.country,
+          uncertaintyMin: null,
+          uncertaintyMax: null,
+          metadata: { qualifier, table: title, per, basis, gwpSet: total === null ? context.gwpSet : undefined },
+          rows: [row],
+        });
+      }
+    });
+  }
+
+  if (!foundTable) {
+    context.errors.push({
+      sheet: '', row: 0, column: '', value: null,
+      error: 'No EPA Hub factor table found (columns such as "CO2 Factor (kg CO2 per mmBtu)")',
+      severity: 'error',
+    });
+  } else if (!sourceYear) {
+    context.errors.push({
+      sheet: '', row: 0, column: '', value: null,
+      error: 'Source year not found in the hub title rows; pass sourceYear',
+      severity: 'error',
+    });
+  }
+
+  // Factors were built while the year was still unknown on early sheets
+  for (const factor of Array.from(context.factors.values())) {
+    factor.sourceYear = sourceYear || 0;
+    factor.source = sourceName('epa_hub', sourceYear);
+  }
+
+  return sourceYear;
+}
+
+// ============================================================================
+// IPCC EMISSION FACTOR DATABASE
+// ============================================================================
+
+const EFDB_COLUMNS: ColumnSpec = {
+  id: /^ef id$/,
+  category: /2006 source\/sink category/,
+  gas: /^gas$/,
+  fuel: /^fuel 2006$|^fuel$/,
+  parameter: /^type of parameter$/,
+  description: /^description$/,
+  value: /^value$/,
+  unit: /^unit$/,
+  lower: /^lower/,
+  upper: /^upper/,
+  region: /^region/,
+  reference: /^technical reference$|^source of data$/,
+};
+
+// IPCC 2006 source categories, most specific first
+const EFDB_ACTIVITY_RULES: ActivityRule[] = [
+  { pattern: /^1\.a\.3/, activityType: 'mobile_combustion', scope: 'scope1' },
+  { pattern: /^1\.a/, activityType: 'stationary_combustion', scope: 'scope1' },
+  { pattern: /^1\.b/, activityType: 'fugitive_emissions', scope: 'scope1' },
+  { pattern: /^2\./, activityType: 'process_emissions', scope: 'scope1' },
+  { pattern: /^4\./, activityType: 'waste', scope: 'scope3' },
+];
+
+// Factors in the 2006 Guidelines categories; the EFDB export carries no edition year
+const EFDB_DEFAULT_YEAR = 2006;
+
+function parseEfdb(workbook: XLSX.WorkBook, options: FactorImportOptions, context: ParseContext): number | null {
+  const table = locateTable(workbook, EFDB_COLUMNS, ['id', 'category', 'gas', 'value', 'unit'], 'IPCC EFDB', context.errors);
+  if (!table) {
+    return null;
+  }
+
+  const sourceYear = options.sourceYear || EFDB_DEFAULT_YEAR;
+
+  forEachDataRow(table, (row, values) => {
+    const text = (key: string) => (key in table.columns ? cellText(values[table.columns[key]]) : null);
+    const id = text('id');
+    const category = text('category') || '';
+    const fuel = text('fuel');
+    const description = text('description');
+    const entry = reportRow(context, table.sheet, row, [`EF ${id}`, category, fuel].filter(Boolean).join(' > '));
+
+    const parameter = text('parameter');
+    if (parameter && !/emission factor/i.test(parameter)) {
+      skip(entry, `${parameter} is not an emission factor`);
+      return;
+    }
+
+    const rule = EFDB_ACTIVITY_RULES.find((r) => r.pattern.test(category.toLowerCase()));
+    if (!rule) {
+      skip(entry, `Category "${category}" has no matching activity type`);
+      return;
+    }
+
+    const gas = gwpService.resolveGas(text('gas') || '');
+    if (!gas) {
+      skip(entry, `Gas "${text('gas') || ''}" is not a tracked greenhouse gas`);
+      return;
+    }
+
+    const value = cellNumber(values[table.columns.value]);
+    if (value === null || value < 0) {
+      rowWarning(context, table, row, 'value', values[table.columns.value], 'Value must be a non-negative number', entry);
+      return;
+    }
+
+    // "kg/TJ", "t CO2/TJ on a net calorific basis"
+    const [massText, perText] = (text('unit') || '').split('/');
+    const mass = unitService.getUnit((massText || '').trim().split(/\s+/)[0]);
+    if (!mass || mass.dimension !== 'mass' || !perText) {
+      rowWarning(context, table, row, 'unit', text('unit'), 'Unit must be a mass per activity unit, e.g. kg/TJ', entry);
+      return;
+    }
+    const { unit, basis, notes } = resolveActivityUnit(perText.trim().split(/\s+/)[0]);
+
+    const kg = roundTo(value * mass.toBase, 10);
+    const gases: GasAmounts = { [gas]: kg };
+    const lower = 'lower' in table.columns ? cellNumber(values[table.columns.lower]) : null;
+    const upper = 'upper' in table.columns ? cellNumber(values[table.columns.upper]) : null;
+    const qualifier = slug([fuel, description && description.length <= 60 ? description : null].filter(Boolean).join(' '));
+
+    addFactor(context, [entry], notes, {
+      key: `efdb_${id || row}:${gas}`,
+      name: [fuel, gas].filter(Boolean).join(' - '),
+      category,
+      subcategory: fuel,
+      activityType: rule.activityType,
+      scope: rule.scope,
+      unit,
+      factorValue: roundTo(kg * gwpService.getGWP(gas, context.gwpSet), 10),
+      factorUnit: 'kg_co2e',
+      gases,
+      source: sourceName('ipcc_efdb', sourceYear),
+      sourceYear,
+      region: text('region'),
+      country: null,
+      uncertaintyMin: lower !== null && value > 0 ? uncertaintyPercent(value - lower, value) : null,
+      uncertaintyMax: upper !== null && value > 0 ? uncertaintyPercent(upper - value, value) : null,
+      metadata: { qualifier, efId: id, description, basis, reference: text('reference'), gwpSet: context.gwpSet },
+      rows: [row],
+    });
+  });
+
+  return sourceYear;
+}
+
+// ============================================================================
+// THAILAND TGO EMISSION FACTORS
+// ============================================================================
+
+// Bilingual headers; the factor column is matched first as its header also says "หน่วย" (unit)
+const TGO_COLUMNS: ColumnSpec = {
+  factor: /emission factor|ค่าการปล่อย|kgco2e/,
+  co2: /(^|[^a-z])co2($|[^e])/,
+  ch4: /(^|[^a-z])ch4/,
+  n2o: /(^|[^a-z])n2o/,
+  unit: /unit|หน่วย/,
+  name: /name|item|ชื่อ|รายการ/,
+  description: /description|รายละเอียด/,
+  category: /category|หมวด|ประเภท/,
+  reference: /reference|source|อ้างอิง/,
+};
+
+const TGO_ACTIVITY_RULES: ActivityRule[] = [
+  { pattern: /electric|ไฟฟ้า/, activityType: 'purchased_electricity', scope: 'scope2' },
+  { pattern: /refrigerant|สารทำความเย็น/, activityType: 'fugitive_emissions', scope: 'scope1' },
+  { pattern: /fuel|เชื้อเพลิง/, activityType: 'stationary_combustion', scope: 'scope1' },
+  { pattern: /transport|ขนส่ง|vehicle|ยานพาหนะ/, activityType: 'upstream_transport', scope: 'scope3' },
+  { pattern: /waste|ของเสีย|ขยะ/, activityType: 'waste', scope: 'scope3' },
+];
+
+// The list is mostly materials and products
+const TGO_DEFAULT_RULE: ActivityRule = { pattern: /.*/, activityType: 'purchased_goods', scope: 'scope3' };
+
+function parseTgo(workbook: XLSX.WorkBook, options: FactorImportOptions, context: ParseContext): number | null {
+  const table = locateTable(workbook, TGO_COLUMNS, ['factor', 'unit', 'name'], 'TGO', context.errors);
+  if (!table) {
+    return null;
+  }
+
+  // Title rows carry the edition date, often in the Buddhist era (B.E. 2567 = 2024)
+  const title = table.cells.slice(0, table.headerIndex).flat().map(cellText).filter(Boolean).join(' ');
+  const sourceYear = options.sourceYear || yearIn(title) || yearIn(table.sheet);
+  if (!sourceYear) {
+    context.errors.push(sheetError(table, 'factor', 'Source year not found in the title rows; pass sourceYear'));
+  }
+
+  let section: string | null = null;
+
+  forEachDataRow(table, (row, values) => {
+    const text = (key: string) => (key in table.columns ? cellText(values[table.columns[key]]) : null);
+    const name = text('name');
+    const unitText = text('unit');
+    const value = cellNumber(values[table.columns.factor]);
+
+    if (value === null && !unitText) {
+      // Section headings such as "1. เชื้อเพลิง Fuel"
+      section = values.map(cellText).filter(Boolean).join(' ') || section;
+      return;
+    }
+
+    const category = text('category') || section;
+    const entry = reportRow(context, table.sheet, row, [category, name].filter(Boolean).join(' > '));
+
+    if (!name || !unitText) {
+      rowWarning(context, table, row, name ? 'unit' : 'name', null, `${name ? 'Unit' : 'Name'} is required`, entry);
+      return;
+    }
+    if (value === null || value < 0) {
+      rowWarning(context, table, row, 'factor', values[table.columns.factor], 'Emission factor must be a non-negative number', entry);
+      return;
+    }
+
+    const matchText = [category, name].filter(Boolean).join(' ').toLowerCase();
+    const rule = TGO_ACTIVITY_RULES.find((r) => r.pattern.test(matchText)) || TGO_DEFAULT_RULE;
+    if (rule === TGO_DEFAULT_RULE) {
+      entry.notes.push('No category match; mapped as purchased goods');
+    }
+
+    const gases: GasAmounts = {};
+    for (const gas of ['CO2', 'CH4', 'N2O'] as GreenhouseGas[]) {
+      const column = gas.toLowerCase();
+      const amount = column in table.columns ? cellNumber(values[table.columns[column]]) : null;
+      if (amount !== null) gases[gas] = amount;
+    }
+
+    const { unit, basis, notes } = resolveActivityUnit(unitText);
+    const description = text('description');
+    const qualifier = slug([name, basis].filter(Boolean).join(' '));
+    const hasGases = Object.keys(gases).length > 0;
+
+    addFactor(context, [entry], notes, {
+      key: `${slug(category || '')}:${qualifier}:${unit}`,
+      name,
+      category: category || rule.activityType,
+      subcategory: description,
+      activityType: rule.activityType,
+      scope: rule.scope,
+      unit,
+      factorValue: value,
+      factorUnit: 'kg_co2e',
+      gases: hasGases ? gases : null,
+      source: sourceName('tgo', sourceYear),
+      sourceYear: sourceYear || 0,
+      region: null,
+      country: FACTOR_FILE_FORMATS.tgo.country,
+      uncertaintyMin: null,
+      uncertaintyMax: null,
+      metadata: { qualifier, unitText, basis, reference: text('reference') },
+      rows: [row],
+    });
+  });
+
+  return sourceYear;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Map a publisher's unit text ("kWh (Net CV)", "litres", "ลิตร") to a unit code.
+ * The parenthesised part is kept as the basis. Unknown units are kept as a slug,
+ * which only matches activities recorded in exactly that unit.
+ */
+export function resolveActivityUnit(text: string): { unit: string; basis: string | null; notes: string[] } {
+  const basisMatch = text.match(/\(([^)]*)\)/);
+  const basis = basisMatch ? slug(basisMatch[1]) : null;
+  const bare = text.replace(/\([^)]*\)/g, '').trim();
+
+  for (const candidate of [unitService.normalizeUnitKey(text), unitService.normalizeUnitKey(bare)]) {
+    const alias = UNIT_ALIASES[candidate.replace(/_+$/, '')];
+    const known = unitService.getUnit(alias || candidate);
+    if (known) {
+      return { unit: known.code, basis, notes: [] };
+    }
+  }
+
+  const unit = slug(bare) || slug(text);
+  return { unit, basis, notes: [`Unit "${text}" is not a recognised unit; kept as "${unit}"`] };
+}
+
+function addFactor(
+  context: ParseContext,
+  entries: FactorMappingRow[],
+  notes: string[],
+  factor: ImportedEmissionFactor
+): void {
+  let key = factor.key;
+  for (let n = 2; context.factors.has(key); n++) {
+    key = `${factor.key}_${n}`;
+  }
+  context.factors.set(key, { ...factor, key });
+
+  for (const entry of entries) {
+    if (entry.status === 'error') continue;
+    entry.status = 'mapped';
+    entry.factorKeys.push(key);
+    entry.activityType = factor.activityType;
+    entry.unit = factor.unit;
+    entry.notes.push(...notes);
+  }
+}
+
+function reportRow(context: ParseContext, sheet: string, row: number, description: string): FactorMappingRow {
+  const entry: FactorMappingRow = {
+    sheet,
+    row,
+    description,
+    status: 'skipped',
+    factorKeys: [],
+    activityType: null,
+    unit: null,
+    notes: [],
+  };
+  context.report.push(entry);
+  return entry;
+}
+
+function skip(entry: FactorMappingRow, note: string): void {
+  entry.status = 'skipped';
+  entry.notes.push(note);
+}
+
+function rowWarning(
+  context: ParseContext,
+  table: Table,
+  row: number,
+  key: string,
+  value: any,
+  error: string,
+  entry: FactorMappingRow
+): void {
+  const column = key in table.columns ? table.header[table.columns[key]] : key;
+  context.errors.push({ sheet: table.sheet, row, column, value: value ?? null, error, severity: 'warning' });
+  entry.status = 'error';
+  entry.notes.push(error);
+}
+
+function sheetError(table: Table, key: string, error: string): ParsingError {
+  return {
+    sheet: table.sheet,
+    row: table.firstRow + table.headerIndex,
+    column: table.header[table.columns[key]] || key,
+    value: null,
+    error,
+    severity: 'error',
+  };
+}
+
+function readCells(worksheet: XLSX.WorkSheet): { cells: any[][]; firstRow: number } {
+  const cells = XLSX.utils.sheet_to_json<any[]>(worksheet, { header: 1, blankrows: true, defval: null });
+  const firstRow = worksheet['!ref'] ? XLSX.utils.decode_range(worksheet['!ref']).s.r + 1 : 1;
+  return { cells, firstRow };
+}
+
+/**
+ * Find the first sheet and row whose cells contain the required columns
+ */
+function locateTable(
+  workbook: XLSX.WorkBook,
+  spec: ColumnSpec,
+  required: string[],
+  label: string,
+  errors: ParsingError[]
+): Table | null {
+  for (const sheet of workbook.SheetNames) {
+    const { cells, firstRow } = readCells(workbook.Sheets[sheet]);
+
+    for (let i = 0; i < Math.min(cells.length, HEADER_SCAN_ROWS); i++) {
+      const header = (cells[i] || []).map((h) => String(h ?? '').replace(/\s+/g, ' ').trim());
+      const normalized = header.map((h) => h.toLowerCase());
+      const used = new Set<number>();
+      const columns: Record<string, number> = {};
+
+      for (const [key, pattern] of Object.entries(spec)) {
+        const index = normalized.findIndex((h, j) => h !== '' && !used.has(j) && pattern.test(h));
+        if (index >= 0) {
+          columns[key] = index;
+          used.add(index);
+        }
+      }
+
+      if (required.every((key) => key in columns)) {
+        return { sheet, firstRow, headerIndex: i, header, columns, cells };
+      }
+    }
+  }
+
+  errors.push({
+    sheet: '',
+    row: 0,
+    column: '',
+    value: null,
+    error: `No sheet has the ${label} columns (${required.map((k) => spec[k].source).join(', ')})`,
+    severity: 'error',
+  });
+  return null;
+}
+
+function forEachDataRow(table: Table, callback: (row: number, values: any[]) => void): void {
+  table.cells.slice(table.headerIndex + 1).forEach((values, i) => {
+    if ((values || []).some((v) => cellText(v) !== null)) {
+      callback(table.firstRow + table.headerIndex + i + 1, values);
+    }
+  });
+}
+
+function cellText(value: any): string | null {
+  if (value === null || value === undefined) return null;
+  const text = String(value).replace(/\s+/g, ' ').trim();
+  return text === '' ? null : text;
+}
+
+function cellNumber(value: any): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  const text = cellText(value)?.replace(/,/g, '');
+  return text && /^-?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(text) ? parseFloat(text) : null;
+}
+
+/**
+ * Year in a title or header; Buddhist-era years (25xx) are converted
+ */
+function yearIn(text: string | null | undefined): number | null {
+  const match = (text || '').match(/\b(19\d{2}|20\d{2}|25\d{2})\b/);
+  if (!match) return null;
+  const year = parseInt(match[1]);
+  return year >= 2500 ? year - 543 : year;
+}
+
+function uncertaintyPercent(difference: number, value: number): number {
+  return Math.min(roundTo((Math.abs(difference) / value) * 100, 2), MAX_UNCERTAINTY_PERCENT);
+}
+
+function slug(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\u0E00-\u0E7F]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
@@ -0,0 +1,351 @@
+/**
+ * Emission Factor Matching Service
+ *
+ * Deterministic, explainable choice between candidate factors. Candidates that
+ * cannot apply are excluded with a reason (unit dimension, other country or
+ * region, scope, fuel/route qualifier, validity window). The rest are ranked on
+ * these criteria in order, the first difference deciding:
+ *
+ *   1. project override
+ *   2. location: region, then country-wide, then other regions of the country, then global
+ *      (without a requested country, location does not rank)
+ *   3. loaded or published factor over a bundled default
+ *   4. scope
+ *   5. qualifier (exact, then partial, then none)
+ *   6. category
+ *   7. unit (exact, then convertible)
+ *   8. year proximity, earlier years first on a tie
+ *   9. validity window covering the activity date
+ *  10. source priority
+ *  11. newest row, then key
+ *
+ * Location values are compared exactly (case-insensitive), never by substring.
+ */
+
+import * as unitService from './unitService';
+import type { FactorCandidate, FactorMatch, FactorMatchContext, RankedFactorCandidate } from '../types';
+
+export interface FactorMatchCriteria extends FactorMatchContext {
+  unit?: string | null;    // activity unit key such as "diesel_l"; omit to skip unit checks
+  scope?: string | null;
+  qualifier?: string | null; // overrides the qualifier read from the unit key
+}
+
+// Labels of the ranking criteria, in order; used to explain a choice
+const RANKING_CRITERIA = [
+  'project override',
+  'location',
+  'origin',
+  'scope',
+  'qualifier',
+  'category',
+  'unit',
+  'year',
+  'validity window',
+  'source priority',
+] as const;
+
+interface Scored {
+  candidate: FactorCandidate;
+  excluded: string | null;
+  keys: number[];
+  details: string[];
+  createdAt: number;
+}
+
+/**
+ * Rank candidate factors against the criteria
+ */
+export function rankFactorCandidates(criteria: FactorMatchCriteria, candidates: FactorCandidate[]): FactorMatch {
+  const scored = candidates.map((candidate) => scoreCandidate(criteria, candidate));
+  const eligible = scored.filter((s) => !s.excluded).sort(compareScored);
+  const excluded = scored.filter((s) => s.excluded);
+
+  const ranked: RankedFactorCandidate[] = [
+    ...eligible.map((s, i) => ({ candidate: s.candidate, rank: i + 1, matched: matchedDetails(s), excluded: null })),
+    ...excluded.map((s) => ({ candidate: s.candidate, rank: null, matched: [], excluded: s.excluded })),
+  ];
+
+  if (eligible.length === 0) {
+    return {
+      chosen: null,
+      ambiguous: false,
+      tied: [],
+      reason: candidates.length === 0
+        ? 'No candidate factors'
+        : `No candidate applies: ${excluded.map((s) => `${s.candidate.label} (${s.excluded})`).join('; ')}`,
+      candidates: ranked,
+    };
+  }
+
+  const [best, runnerUp] = eligible;
+  const tied = eligible.filter((s) => compareKeys(s.keys, best.keys) === 0);
+  const qualifiers = new Set(tied.map((s) => s.candidate.qualifier || ''));
+
+  if (qualifiers.size > 1) {
+    return {
+      chosen: null,
+      ambiguous: true,
+      tied: tied.map((s) => s.candidate),
+      reason: `Ambiguous: ${tied.map((s) => s.candidate.label).join(', ')} match equally; ` +
+        `specify one of: ${Array.from(qualifiers).filter(Boolean).join(', ')}`,
+      candidates: ranked,
+    };
+  }
+
+  return {
+    chosen: best.candidate,
+    ambiguous: false,
+    tied: tied.map((s) => s.candidate),
+    reason: explain(best, runnerUp),
+    candidates: ranked,
+  };
+}
+
+/**
+ * Criteria for an activity: its own location, period and category, falling
+ * back to the project's country, region and reporting year. An activity at a
+ * facility is located at the facility's country and grid region unless its
+ * metadata names a country of its own.
+ */
+export function activityMatchContext(
+  activity: {
+    scope3_category?: string | null;
+    reporting_period_end?: string | Date | null;
+    metadata?: any;
+    facility_country?: string | null;
+    facility_grid_region?: string | null;
+  },
+  project?: { id?: string; country?: string | null; region?: string | null; reporting_year?: number | null; settings?: any } | null
+): FactorMatchContext {
+  const metadata = activity.metadata || {};
+  const periodEnd = activity.reporting_period_end ? toDate(activity.reporting_period_end) : null;
+  const sourcePriority = metadata.factorSources || project?.settings?.factorSources;
+  const atFacility = !metadata.country && !!activity.facility_country;
+
+  return {
+    country: atFacility ? activity.facility_country! : metadata.country || project?.country || null,
+    region: atFacility
+      ? activity.facility_grid_region || metadata.region || null
+      : metadata.region || project?.region || null,
+    year: parseInt(metadata.factorYear) || (periodEnd ? parseInt(periodEnd.slice(0, 4)) : null) || project?.reporting_year || null,
+    date: periodEnd,
+    category: activity.scope3_category || metadata.category || null,
+    sourcePriority: Array.isArray(sourcePriority) ? sourcePriority.map(String) : [],
+    projectId: project?.id || null,
+  };
+}
+
+/**
+ * Candidate summary for API responses
+ */
+export function formatRankedCandidate(ranked: RankedFactorCandidate) {
+  const { candidate } = ranked;
+  return {
+    rank: ranked.rank,
+    key: candidate.key,
+    kind: candidate.kind,
+    label: candidate.label,
+    value: candidate.value,
+    unit: candidate.unit,
+    source: candidate.source,
+    year: candidate.year,
+    country: candidate.country,
+    region: candidate.region,
+    matched: ranked.matched,
+    excluded: ranked.excluded,
+  };
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+function same(a?: string | null, b?: string | null): boolean {
+  return !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function tokens(qualifier: string): string[] {
+  return unitService.normalizeUnitKey(qualifier).split('_').filter(Boolean);
+}
+
+function toDate(value: string | Date): string {
+  return value instanceof Date ? value.toISOString().slice(0, 10) : String(value).slice(0, 10);
+}
+
+function scoreCandidate(criteria: FactorMatchCriteria, candidate: FactorCandidate): Scored {
+  const keys: number[] = [];
+  const details: string[] = [];
+  const result = (excluded: string | null): Scored => ({
+    candidate,
+    excluded,
+    keys,
+    details,
+    createdAt: candidate.createdAt ? Date.parse(candidate.createdAt) || 0 : 0,
+  });
+
+  // 1. Project override
+  keys.push(candidate.kind === 'override' ? 1 : 0);
+  details.push(candidate.kind === 'override' ? 'project override' : '');
+
+  // 2. Location hierarchy: region > country > other region of the country > global
+  const countryMatches = same(candidate.country, criteria.country) || same(candidate.region, criteria.country);
+  const regionMatches = same(candidate.region, criteria.region);
+  if (criteria.country && !countryMatches && (candidate.country || (candidate.region && !regionMatches))) {
+    return result(`for ${candidate.region || candidate.country}, not ${criteria.country}`);
+  }
+  if (criteria.region && candidate.region && !regionMatches && !same(candidate.region, criteria.country)) {
+    return result(`for region ${candidate.region}, not ${criteria.region}`);
+  }
+  if (regionMatches) {
+    keys.push(4);
+    details.push(`region ${candidate.region}`);
+  } else if (countryMatches && (!candidate.region || same(candidate.region, criteria.country) || !candidate.country)) {
+    keys.push(3);
+    details.push(`country ${criteria.country}`);
+  } else if (countryMatches) {
+    keys.push(2);
+    details.push(`${candidate.region}, ${candidate.country}`);
+  } else {
+    // Global, or no location requested
+    keys.push(1);
+    details.push(!candidate.country && !candidate.region ? 'global' : '');
+  }
+
+  // 3. Loaded or published factor over a bundled default
+  keys.push(candidate.kind === 'default' ? 0 : 1);
+  details.push(candidate.kind === 'default' ? 'bundled default' : 'loaded factor');
+
+  // 4. Scope
+  if (criteria.scope && candidate.scope && candidate.scope !== criteria.scope) {
+    return result(`${candidate.scope} factor, activity is ${criteria.scope}`);
+  }
+  keys.push(criteria.scope && candidate.scope ? 1 : 0);
+  details.push(criteria.scope && candidate.scope ? candidate.scope : '');
+
+  // 5. Qualifier (fuel, mode, route) and 7. unit, both read from the activity unit key
+  const activityUnit = criteria.unit ? unitService.splitUnitKey(criteria.unit) : null;
+  const qualifier = criteria.qualifier ?? activityUnit?.qualifier ?? '';
+
+  let unitKey = 0;
+  let unitDetail = '';
+  if (criteria.unit && activityUnit) {
+    if (!activityUnit.unit) {
+      // Units outside the registry ("hotel_night") only match the same key
+      if (candidate.unit || !same(candidate.qualifier, qualifier)) {
+        return result(`unit ${candidate.unit || candidate.qualifier || 'unknown'} does not match ${criteria.unit}`);
+      }
+      unitKey = 1;
+      unitDetail = `unit ${criteria.unit}`;
+    } else if (!candidate.unit) {
+      return result(`unit ${candidate.qualifier || 'unknown'} does not match ${criteria.unit}`);
+    } else if (!unitService.areUnitsCompatible(activityUnit.unit.code, candidate.unit)) {
+      return result(`unit ${candidate.unit} cannot be converted from ${activityUnit.unit.code}`);
+    } else {
+      const exact = unitService.getUnit(candidate.unit)?.code === activityUnit.unit.code;
+      unitKey = exact ? 1 : 0;
+      unitDetail = exact ? `unit ${activityUnit.unit.code}` : `unit ${candidate.unit} (converted)`;
+    }
+  }
+
+  // Unknown activity units were matched on the whole key above
+  const checkQualifier = !activityUnit || !!activityUnit.unit;
+  let qualifierKey: number;
+  let qualifierDetail = '';
+  if (qualifier && checkQualifier) {
+    if (!candidate.qualifier) {
+      qualifierKey = 1;
+    } else if (same(candidate.qualifier, qualifier)) {
+      qualifierKey = 3;
+      qualifierDetail = candidate.qualifier;
+    } else if (tokens(qualifier).every((t) => tokens(candidate.qualifier!).includes(t))) {
+      qualifierKey = 2;
+      qualifierDetail = `${candidate.qualifier} (partial)`;
+    } else {
+      return result(`for ${candidate.qualifier}, not ${qualifier}`);
+    }
+  } else {
+    qualifierKey = candidate.qualifier && checkQualifier ? 0 : 1;
+  }
+  keys.push(qualifierKey);
+  details.push(qualifierDetail);
+
+  // 6. Category
+  if (criteria.category && candidate.category) {
+    const match = same(candidate.category, criteria.category);
+    keys.push(match ? 2 : 0);
+    details.push(match ? `category ${candidate.category}` : '');
+  } else {
+    keys.push(1);
+    details.push('');
+  }
+
+  // 7. Unit
+  keys.push(unitKey);
+  details.push(unitDetail);
+
+  // 8. Year proximity; an earlier year wins a tie with a later one
+  if (criteria.year && candidate.year) {
+    const distance = Math.abs(candidate.year - criteria.year);
+    keys.push(-(distance * 2 + (candidate.year > criteria.year ? 1 : 0)));
+    details.push(distance === 0
+      ? `year ${candidate.year}`
+      : `year ${candidate.year} (${distance} ${distance === 1 ? 'year' : 'years'} ${candidate.year < criteria.year ? 'earlier' : 'later'})`);
+  } else {
+    keys.push(criteria.year ? -Infinity : candidate.year || 0);
+    details.push(candidate.year ? `year ${candidate.year}` : '');
+  }
+
+  // 9. Validity window
+  if (criteria.date && (candidate.validFrom || candidate.validTo)) {
+    if ((candidate.validFrom && candidate.validFrom > criteria.date) || (candidate.validTo && candidate.validTo < criteria.date)) {
+      return result(`valid ${candidate.validFrom || '…'} to ${candidate.validTo || '…'}, activity dated ${criteria.date}`);
+    }
+    keys.push(1);
+    details.push(`valid on ${criteria.date}`);
+  } else {
+    keys.push(0);
+    details.push('');
+  }
+
+  // 10. Source priority
+  const priority = (criteria.sourcePriority || []).findIndex((s) => candidate.source.toLowerCase().includes(s.toLowerCase()));
+  keys.push(priority >= 0 ? criteria.sourcePriority!.length - priority : 0);
+  details.push(priority >= 0 ? `preferred source ${criteria.sourcePriority![priority]}` : '');
+
+  return result(null);
+}
+
+function compareKeys(a: number[], b: number[]): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] > b[i] ? -1 : 1;
+  }
+  return 0;
+}
+
+function compareScored(a: Scored, b: Scored): number {
+  return compareKeys(a.keys, b.keys) ||
+    b.createdAt - a.createdAt ||
+    (a.candidate.key < b.candidate.key ? -1 : a.candidate.key > b.candidate.key ? 1 : 0);
+}
+
+function matchedDetails(scored: Scored): string[] {
+  return scored.details.filter(Boolean);
+}
+
+function explain(best: Scored, runnerUp?: Scored): string {
+  const matched = matchedDetails(best);
+  const summary = `${best.candidate.label}${matched.length > 0 ? ` (${matched.join(', ')})` : ''}`;
+  if (!runnerUp) {
+    return `Only applicable factor: ${summary}`;
+  }
+
+  const index = best.keys.findIndex((key, i) => key !== runnerUp.keys[i]);
+  if (index < 0) {
+    return `${summary}; chosen over ${runnerUp.candidate.label} as the newest matching row`;
+  }
+
+  const criterion = RANKING_CRITERIA[index];
+  const theirs = runnerUp.details[index] || 'no match';
+  return `${summary}; chosen over ${runnerUp.candidate.label} on ${criterion} (${best.details[index] || 'match'} vs ${theirs})`;
+}
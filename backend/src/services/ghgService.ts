@@ -2,24 +2,46 @@ import { db } from '../config/database';
 import { redis } from '../config/redis';
 import { logger } from '../utils/logger';
 import { generateId, roundTo } from '../utils/helpers';
-
-// Default emission factors by activity type (kg CO2e per unit)
-const DEFAULT_EMISSION_FACTORS: Record<string, Record<string, number>> = {
+import * as gwpService from './gwpService';
+import * as unitService from './unitService';
+import * as factorMatchingService from './factorMatchingService';
+import { UnitConversionError } from '../middleware/errorHandler';
+import type {
+  GWPSet,
+  GasAmounts,
+  ContractualInstrument,
+  FactorCandidate,
+  FactorMatch,
+  FactorMatchContext,
+  FactorReference,
+} from '../types';
+
+// Version of the bundled default factors below, pinned by calculation runs.
+// Bump it whenever a default value changes.
+export const DEFAULT_FACTORS_VERSION = '2024.1';
+
+// Only the current version of a factor row, from no dataset or a published one
+const CURRENT_FACTOR_FILTER = `ef.superseded_at IS NULL AND (ef.dataset_id IS NULL OR d.status = 'published')`;
+
+// Default emission factors by activity type.
+// A number is kg CO2e per unit; an object is kg of each gas per unit
+// (IPCC 2006 defaults) and is converted with the project's GWP set.
+const DEFAULT_EMISSION_FACTORS: Record<string, Record<string, number | GasAmounts>> = {
   // Scope 1 - Stationary Combustion
   stationary_combustion: {
-    'natural_gas_m3': 2.02,
-    'natural_gas_kwh': 0.184,
-    'diesel_l': 2.68,
-    'lpg_kg': 2.98,
-    'coal_kg': 2.42,
-    'fuel_oil_l': 2.96,
+    'natural_gas_m3': { CO2: 2.02, CH4: 0.000036, N2O: 0.0000036 },
+    'natural_gas_kwh': { CO2: 0.1839, CH4: 0.0000036, N2O: 0.00000036 },
+    'diesel_l': { CO2: 2.676, CH4: 0.000108, N2O: 0.0000216 },
+    'lpg_kg': { CO2: 2.985, CH4: 0.0000473, N2O: 0.0000047 },
+    'coal_kg': { CO2: 2.42, CH4: 0.0000258, N2O: 0.0000387 },
+    'fuel_oil_l': { CO2: 2.96, CH4: 0.000121, N2O: 0.0000242 },
   },
   // Scope 1 - Mobile Combustion
   mobile_combustion: {
-    'petrol_l': 2.31,
-    'diesel_l': 2.68,
-    'cng_m3': 2.02,
-    'lpg_l': 1.51,
+    'petrol_l': { CO2: 2.31, CH4: 0.00106, N2O: 0.000103 },
+    'diesel_l': { CO2: 2.676, CH4: 0.00014, N2O: 0.00014 },
+    'cng_m3': { CO2: 2.02, CH4: 0.0033, N2O: 0.000108 },
+    'lpg_l': { CO2: 1.51, CH4: 0.00158, N2O: 0.0000051 },
     'km_car_petrol': 0.17,
     'km_car_diesel': 0.16,
     'km_truck': 0.89,
@@ -35,11 +57,17 @@ const DEFAULT_EMISSION_FACTORS: Record<string, Record<string, number>> = {
   },
   // Scope 1 - Fugitive Emissions
   fugitive_emissions: {
-    'refrigerant_r410a_kg': 2088,
-    'refrigerant_r134a_kg': 1430,
-    'refrigerant_r22_kg': 1810,
-    'sf6_kg': 22800,
-    'methane_kg': 25,
+    'refrigerant_r410a_kg': { 'HFC-32': 0.5, 'HFC-125': 0.5 },
+    'refrigerant_r404a_kg': { 'HFC-125': 0.44, 'HFC-143a': 0.52, 'HFC-134a': 0.04 },
+    'refrigerant_r407c_kg': { 'HFC-32': 0.23, 'HFC-125': 0.25, 'HFC-134a': 0.52 },
+    'refrigerant_r134a_kg': { 'HFC-134a': 1 },
+    'refrigerant_r22_kg': 1810, // HCFC-22 is outside the Kyoto basket
+    'sf6_kg': { SF6: 1 },
+    'nf3_kg': { NF3: 1 },
+    'cf4_kg': { 'PFC-14': 1 },
+    'c2f6_kg': { 'PFC-116': 1 },
+    'methane_kg': { CH4: 1 },
+    'n2o_kg': { N2O: 1 },
   },
   // Scope 2 - Purchased Electricity (global average)
   purchased_electricity: {
@@ -109,165 +137,490 @@ const DEFAULT_EMISSION_FACTORS: Record<string, Record<string, number>> = {
 };
 
 /**
- * Look up emission factor for activity
+ * Look up emission factor for activity.
+ * The returned `factor` (and `gases`) are expressed per activity unit: a factor
+ * published per kWh is scaled when the activity is recorded in MWh or GJ.
+ * When the factor has a per-gas split, `factor` is the CO2e value for the given GWP set.
+ * The context (country, region, year, date, category) selects between candidate
+ * factors; see factorMatchingService for the ranking.
  */
 export async function lookupEmissionFactor(
   activityType: string,
   unit: string,
-  scope: string
-): Promise<{ factor: number; source: string }> {
+  scope: string,
+  gwpSet: GWPSet = gwpService.DEFAULT_GWP_SET,
+  context: FactorMatchContext = {}
+): Promise<EmissionFactorLookup> {
+  const result = await findEmissionFactor(activityType, unit, scope, context);
+
+  // Reconcile the activity unit with the factor's activity unit
+  const activityUnit = unitService.splitUnitKey(unit).unit?.code || unit;
+  const conversionFactor = result.unit ? unitService.convertQuantity(1, activityUnit, result.unit) : 1;
+
+  const gases = result.gases && conversionFactor !== 1
+    ? gwpService.scaleGasAmounts(result.gases, conversionFactor)
+    : result.gases;
+
+  return {
+    ...result,
+    factor: gases ? gwpService.gasesToCO2e(gases, gwpSet) : result.factor * conversionFactor,
+    ...(gases && { gases }),
+    conversionFactor,
+  };
+}
+
+/**
+ * Rank the current emission factors and bundled defaults for an activity.
+ * `rows` holds the database rows of the emission_factor candidates by id.
+ */
+export async function matchEmissionFactor(
+  activityType: string,
+  unit: string,
+  scope?: string | null,
+  context: FactorMatchContext = {}
+): Promise<{ match: FactorMatch; rows: Map<string, any> }> {
+  const dbResult = await db.query(
+    `SELECT ef.id, ef.lineage_id, ef.dataset_id, ef.name, ef.factor_value, ef.gwp_values, ef.source, ef.unit,
+            ef.scope, ef.category, ef.country, ef.region, ef.year, ef.valid_from, ef.valid_to, ef.metadata,
+            ef.created_at, d.name AS dataset_name, d.version AS dataset_version
+     FROM emission_factors ef
+     LEFT JOIN factor_datasets d ON d.id = ef.dataset_id
+     WHERE ef.activity_type = $1 AND ${CURRENT_FACTOR_FILTER}`,
+    [activityType]
+  );
+
+  const candidates: FactorCandidate[] = dbResult.rows.map(emissionFactorCandidate);
+
+  for (const [key, value] of Object.entries(DEFAULT_EMISSION_FACTORS[activityType] || {})) {
+    const parsed = unitService.splitUnitKey(key);
+    candidates.push({
+      key: `${activityType}:${key}`,
+      kind: 'default',
+      label: `default ${activityType}:${key}`,
+      value: typeof value === 'number' ? value : gwpService.gasesToCO2e(value),
+      unit: parsed.unit?.code || null,
+      qualifier: parsed.qualifier || null,
+      scope: null,
+      category: null,
+      country: null,
+      region: null,
+      year: null,
+      validFrom: null,
+      validTo: null,
+      source: 'default',
+      createdAt: null,
+    });
+  }
+
+  const match = factorMatchingService.rankFactorCandidates({ ...context, unit, scope }, candidates);
+  return { match, rows: new Map(dbResult.rows.map((row) => [row.id, row])) };
+}
+
+async function findEmissionFactor(
+  activityType: string,
+  unit: string,
+  scope: string,
+  context: FactorMatchContext
+): Promise<{
+  factor: number;
+  source: string;
+  gases?: GasAmounts;
+  unit?: string;
+  reference: FactorReference;
+  matchReason?: string;
+}> {
   // Try cache first
-  const cacheKey = `ef:${activityType}:${unit}`;
+  const cacheKey = `ef:${activityType}:${unit}:${scope}:${context.country || ''}:${context.region || ''}:` +
+    `${context.year || ''}:${context.date || ''}:${context.category || ''}:${(context.sourcePriority || []).join(',')}`;
   const cached = await redis.get(cacheKey);
   
   if (cached) {
     return JSON.parse(cached);
   }
 
-  // Try database custom factors
-  const dbResult = await db.query(
-    `SELECT factor_value, source FROM emission_factors 
-     WHERE activity_type = $1 AND unit = $2
-     ORDER BY year DESC LIMIT 1`,
-    [activityType, unit]
-  );
+  const { match, rows } = await matchEmissionFactor(activityType, unit, scope, context);
+  const chosen = match.chosen;
 
-  if (dbResult.rows.length > 0) {
+  if (chosen && chosen.kind === 'emission_factor') {
+    const dbRow = rows.get(chosen.key);
+    const gases = gwpService.parseGasAmounts(dbRow.gwp_values);
     const result = {
-      factor: parseFloat(dbResult.rows[0].factor_value),
-      source: dbResult.rows[0].source,
+      factor: parseFloat(dbRow.factor_value),
+      source: dbRow.source,
+      unit: chosen.unit || dbRow.unit,
+      ...(gases && { gases }),
+      reference: emissionFactorReference(dbRow),
+      matchReason: match.reason,
     };
     await redis.setex(cacheKey, 3600, JSON.stringify(result));
     return result;
   }
 
-  // Fall back to default factors
-  const activityFactors = DEFAULT_EMISSION_FACTORS[activityType];
-  if (activityFactors) {
-    const unitKey = unit.toLowerCase().replace(/\s+/g, '_');
-    const factor = activityFactors[unitKey];
-    
-    if (factor !== undefined) {
-      const result = { factor, source: 'default' };
-      await redis.setex(cacheKey, 3600, JSON.stringify(result));
-      return result;
-    }
+  if (chosen) {
+    const factor = DEFAULT_EMISSION_FACTORS[activityType][chosen.key.slice(activityType.length + 1)];
+    const reference: FactorReference = { type: 'default', key: chosen.key, version: DEFAULT_FACTORS_VERSION };
+    const result = typeof factor === 'number'
+      ? { factor, source: 'default', unit: chosen.unit || undefined, reference, matchReason: match.reason }
+      : {
+          factor: gwpService.gasesToCO2e(factor),
+          source: 'default',
+          gases: factor,
+          unit: chosen.unit || undefined,
+          reference,
+          matchReason: match.reason,
+        };
+    await redis.setex(cacheKey, 3600, JSON.stringify(result));
+    return result;
+  }
+
+  if (match.ambiguous) {
+    logger.warn(`Ambiguous emission factor for ${activityType}/${unit}: ${match.reason}`);
+  }
+
+  // Factors exist for this activity type, but none in a compatible dimension
+  const activityUnit = unitService.splitUnitKey(unit).unit;
+  const availableUnits = match.candidates.map((ranked) => ranked.candidate.unit).filter((u): u is string => !!u);
+  if (activityUnit && availableUnits.length > 0 &&
+      !availableUnits.some((u) => unitService.areUnitsCompatible(activityUnit.code, u))) {
+    const available = Array.from(new Set(availableUnits)).join(', ');
+    throw new UnitConversionError(
+      `No ${activityType} emission factor accepts "${unit}" (${activityUnit.dimension}); available units: ${available}`
+    );
   }
 
   // Log warning and return conservative estimate
   logger.warn(`No emission factor found for ${activityType}/${unit}, using estimate`);
-  return { factor: 1.0, source: 'estimate' };
+  return {
+    factor: 1.0,
+    source: 'estimate',
+    reference: { type: 'estimate', version: DEFAULT_FACTORS_VERSION },
+    matchReason: match.reason,
+  };
+}
+
+/**
+ * Matching candidate for an emission_factors row. Units outside the unit
+ * registry keep their whole key as the qualifier, so they match only that key.
+ */
+function emissionFactorCandidate(row: any): FactorCandidate {
+  const parsed = unitService.splitUnitKey(row.unit || '');
+  const qualifier = parsed.unit ? row.metadata?.qualifier || parsed.qualifier : parsed.qualifier;
+
+  return {
+    key: row.id,
+    kind: 'emission_factor',
+    label: row.name || `${row.source} ${row.unit}${row.year ? ` (${row.year})` : ''}`,
+    value: parseFloat(row.factor_value),
+    unit: parsed.unit?.code || null,
+    qualifier: qualifier || null,
+    scope: row.scope || null,
+    category: row.category || null,
+    country: row.country || null,
+    region: row.region || null,
+    year: row.year ? parseInt(row.year) : null,
+    validFrom: isoDate(row.valid_from),
+    validTo: isoDate(row.valid_to),
+    source: row.source || 'unknown',
+    createdAt: row.created_at ? new Date(row.created_at).toISOString() : null,
+  };
+}
+
+function isoDate(value: string | Date | null | undefined): string | null {
+  if (!value) return null;
+  return value instanceof Date ? value.toISOString().slice(0, 10) : String(value).slice(0, 10);
+}
+
+/**
+ * Reference to the exact emission_factors row version that was applied
+ */
+export function emissionFactorReference(row: {
+  id: string;
+  lineage_id?: string;
+  dataset_id?: string | null;
+  dataset_name?: string | null;
+  dataset_version?: string | null;
+}): FactorReference {
+  return {
+    type: 'emission_factor',
+    id: row.id,
+    lineageId: row.lineage_id || row.id,
+    datasetId: row.dataset_id || null,
+    dataset: row.dataset_name ? `${row.dataset_name} ${row.dataset_version}` : null,
+  };
+}
+
+/**
+ * Get the GWP set (IPCC assessment report) configured for a project
+ */
+export async function getProjectGWPSet(projectId: string): Promise<GWPSet> {
+  const result = await db.query(
+    `SELECT gwp_set FROM projects WHERE id = $1`,
+    [projectId]
+  );
+
+  const gwpSet = result.rows[0]?.gwp_set;
+  return gwpService.isGWPSet(gwpSet) ? gwpSet : gwpService.DEFAULT_GWP_SET;
 }
 
 /**
- * Get grid emission factor for a region and year
+ * Get grid emission factor for a country (or grid region) and year.
+ * Locations are matched exactly; the closest earlier year applies when the
+ * year is not published, and a project override takes precedence.
  */
 export async function getGridEmissionFactor(
-  region: string,
-  year: number
-): Promise<{ factor: number; source: string }> {
-  // Check cache
-  const cacheKey = `grid_ef:${region}:${year}`;
-  const cached = await redis.get(cacheKey);
-  
-  if (cached) {
-    return JSON.parse(cached);
+  location: string,
+  year: number,
+  options: { region?: string | null; projectId?: string | null } = {}
+): Promise<{ factor: number; source: string; id?: string; matchReason?: string }> {
+  // Check cache (project overrides are read fresh)
+  const cacheKey = `grid_ef:${location.toLowerCase()}:${options.region?.toLowerCase() || ''}:${year}`;
+  if (!options.projectId) {
+    const cached = await redis.get(cacheKey);
+    if (cached) {
+      return JSON.parse(cached);
+    }
   }
 
   // Query database
   const result = await db.query(
-    `SELECT factor_kg_co2_per_kwh, source FROM grid_emission_factors
-     WHERE region ILIKE $1 AND year = $2
-     ORDER BY created_at DESC LIMIT 1`,
-    [`%${region}%`, year]
+    `SELECT ef.id, ef.country, ef.region, ef.grid_name, ef.year, ef.factor_kg_co2_per_kwh, ef.source,
+            ef.valid_from, ef.valid_to, ef.created_at
+     FROM grid_emission_factors ef
+     LEFT JOIN factor_datasets d ON d.id = ef.dataset_id
+     WHERE (LOWER(ef.country) = LOWER($1) OR LOWER(ef.region) = LOWER($1) OR LOWER(ef.region) = LOWER($3))
+       AND ef.year <= $2 AND ${CURRENT_FACTOR_FILTER}`,
+    [location, year, options.region || location]
   );
 
-  if (result.rows.length > 0) {
+  const candidates: FactorCandidate[] = result.rows.map((row) => gridFactorCandidate(row, 'grid'));
+
+  if (options.projectId) {
+    const overrides = await db.query(
+      `SELECT id, country, NULL AS region, NULL AS grid_name, year, factor_kg_co2_per_kwh, source, created_at
+       FROM grid_ef_overrides
+       WHERE project_id = $1 AND LOWER(country) = LOWER($2) AND year <= $3`,
+      [options.projectId, location, year]
+    );
+    candidates.push(...overrides.rows.map((row) => gridFactorCandidate(row, 'override')));
+  }
+
+  const match = factorMatchingService.rankFactorCandidates(
+    { country: location, region: options.region, year },
+    candidates
+  );
+
+  if (match.chosen) {
+    const chosen = match.chosen;
+    if (chosen.year !== year) {
+      logger.info(`Using ${chosen.year} grid EF for ${location} (${year} not found)`);
+    }
     const data = {
-      factor: parseFloat(result.rows[0].factor_kg_co2_per_kwh),
-      source: result.rows[0].source,
+      factor: chosen.value,
+      source: chosen.year === year ? chosen.source : `${chosen.source} (${chosen.year})`,
+      id: chosen.key,
+      matchReason: match.reason,
     };
-    await redis.setex(cacheKey, 86400, JSON.stringify(data));
+    if (!options.projectId && chosen.year === year) {
+      await redis.setex(cacheKey, 86400, JSON.stringify(data));
+    }
     return data;
   }
 
-  // Try previous year
-  const prevResult = await db.query(
-    `SELECT factor_kg_co2_per_kwh, source, year FROM grid_emission_factors
-     WHERE region ILIKE $1 AND year < $2
-     ORDER BY year DESC LIMIT 1`,
-    [`%${region}%`, year]
+  // Global average fallback
+  logger.warn(`No grid emission factor found for ${location}, using global average`);
+  return { factor: 0.42, source: 'global_average', matchReason: match.reason };
+}
+
+function gridFactorCandidate(row: any, kind: 'grid' | 'override'): FactorCandidate {
+  return {
+    key: row.id,
+    kind,
+    label: kind === 'override'
+      ? `project override ${row.country} ${row.year}`
+      : `${row.grid_name || row.region || row.country} ${row.year}`,
+    value: parseFloat(row.factor_kg_co2_per_kwh),
+    unit: 'kwh',
+    qualifier: null,
+    scope: null,
+    category: null,
+    country: row.country || null,
+    region: row.region || null,
+    year: row.year ? parseInt(row.year) : null,
+    validFrom: isoDate(row.valid_from),
+    validTo: isoDate(row.valid_to),
+    source: row.source || 'unknown',
+    createdAt: row.created_at ? new Date(row.created_at).toISOString() : null,
+  };
+}
+
+/**
+ * Precursor factor for a material. When the production route is known (e.g.
+ * derived from a CN code) only that route applies; when it is unknown and
+ * several routes rank equally, the route flagged as default is used, else the
+ * highest factor (conservative). A project override takes precedence.
+ */
+export async function findPrecursorFactor(
+  material: string,
+  productionRoute?: string | null,
+  projectId?: string | null
+): Promise<{
+  id: string;
+  factor: number;
+  source: string;
+  materialType: string;
+  productionRoute: string;
+  matchReason: string;
+  match: FactorMatch;
+} | null> {
+  const result = await db.query(
+    `SELECT id, material_type, production_route, factor_kg_co2_per_kg, source, is_default, created_at
+     FROM precursor_factors
+     WHERE LOWER(material_type) = LOWER($1) OR LOWER(activity_type) = LOWER($1)`,
+    [material]
   );
+  const rows = result.rows.map((row) => ({ ...row, kind: 'precursor' as const }));
+
+  if (projectId) {
+    const overrides = await db.query(
+      `SELECT id, material_type, production_route, factor_kg_co2_per_kg, source, false AS is_default, created_at
+       FROM precursor_factor_overrides
+       WHERE project_id = $1 AND LOWER(material_type) = LOWER($2)`,
+      [projectId, material]
+    );
+    rows.push(...overrides.rows.map((row) => ({ ...row, kind: 'override' as const })));
+  }
 
-  if (prevResult.rows.length > 0) {
-    logger.info(`Using ${prevResult.rows[0].year} grid EF for ${region} (${year} not found)`);
-    return {
-      factor: parseFloat(prevResult.rows[0].factor_kg_co2_per_kwh),
-      source: `${prevResult.rows[0].source} (${prevResult.rows[0].year})`,
-    };
+  const candidates: FactorCandidate[] = rows.map((row) => ({
+    key: row.id,
+    kind: row.kind,
+    label: `${row.kind === 'override' ? 'project override ' : ''}${row.material_type} ${row.production_route}`,
+    value: parseFloat(row.factor_kg_co2_per_kg),
+    unit: 'kg',
+    qualifier: row.production_route ? unitService.normalizeUnitKey(row.production_route) : null,
+    scope: null,
+    category: null,
+    country: null,
+    region: null,
+    year: null,
+    validFrom: null,
+    validTo: null,
+    source: row.source || 'unknown',
+    createdAt: row.created_at ? new Date(row.created_at).toISOString() : null,
+  }));
+
+  const match = factorMatchingService.rankFactorCandidates(
+    { qualifier: productionRoute ? unitService.normalizeUnitKey(productionRoute) : null },
+    candidates
+  );
+
+  let chosen = match.chosen;
+  let matchReason = match.reason;
+  if (!chosen && match.ambiguous) {
+    const defaults = match.tied.filter((c) => rows.find((row) => row.id === c.key)?.is_default);
+    chosen = defaults.length === 1
+      ? defaults[0]
+      : match.tied.reduce((max, c) => (c.value > max.value ? c : max));
+    matchReason = `${match.reason}; production route unknown, applied ${chosen.label}` +
+      (defaults.length === 1 ? ' (default route)' : ' (highest factor)');
   }
 
-  // Global average fallback
-  logger.warn(`No grid emission factor found for ${region}, using global average`);
-  return { factor: 0.42, source: 'global_average' };
+  if (!chosen) {
+    return null;
+  }
+
+  const row = rows.find((r) => r.id === chosen!.key)!;
+  return {
+    id: row.id,
+    factor: chosen.value,
+    source: chosen.source,
+    materialType: row.material_type,
+    productionRoute: row.production_route,
+    matchReason,
+    match,
+  };
 }
 
 /**
- * Calculate precursor emissions
+ * Calculate precursor emissions with the matching precursor factor
  */
 export async function calculatePrecursors(
   activityId: string,
   activityType: string,
   quantity: number,
-  unit: string
+  unit: string,
+  productionRoute?: string,
+  projectId?: string
 ): Promise<number> {
-  // Get precursor factors for this activity type
-  const result = await db.query(
-    `SELECT * FROM precursor_factors 
-     WHERE material_type ILIKE $1 OR activity_type ILIKE $1`,
-    [`%${activityType}%`]
-  );
+  const precursor = await findPrecursorFactor(activityType, productionRoute, projectId);
 
-  if (result.rows.length === 0) {
+  if (!precursor) {
     return 0;
   }
 
-  let totalPrecursorEmissions = 0;
+  // Precursor factors are per kg; non-mass quantities are rejected
+  const quantityKg = unitService.convertQuantity(Number(quantity), unit, 'kg');
+  const precursorEmissions = quantityKg * precursor.factor;
+
+  // Save precursor calculation
+  await db.query(
+    `INSERT INTO precursor_calculations (
+      id, activity_id, precursor_type, quantity_kg, emission_factor,
+      emissions_kg_co2e, production_route
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [
+      generateId(),
+      activityId,
+      precursor.materialType,
+      quantityKg,
+      precursor.factor,
+      roundTo(precursorEmissions, 4),
+      precursor.productionRoute,
+    ]
+  );
 
-  for (const precursor of result.rows) {
-    const precursorFactor = parseFloat(precursor.factor_kg_co2_per_kg);
-    
-    // Convert quantity to kg if needed
-    let quantityKg = quantity;
-    if (unit === 'tonnes' || unit === 'tonne') {
-      quantityKg = quantity * 1000;
-    } else if (unit === 'g') {
-      quantityKg = quantity / 1000;
-    }
+  return roundTo(precursorEmissions, 4);
+}
 
-    const precursorEmissions = quantityKg * precursorFactor;
-    totalPrecursorEmissions += precursorEmissions;
-
-    // Save precursor calculation
-    await db.query(
-      `INSERT INTO precursor_calculations (
-        id, activity_id, precursor_type, quantity_kg, emission_factor,
-        emissions_kg_co2e, production_route
-      )
-      VALUES ($1, $2, $3, $4, $5, $6, $7)`,
-      [
-        generateId(),
-        activityId,
-        precursor.material_type,
-        quantityKg,
-        precursorFactor,
-        roundTo(precursorEmissions, 4),
-        precursor.production_route,
-      ]
-    );
+/**
+ * Get the residual mix factor for a country and year.
+ * Falls back to the location-based grid factor when no residual mix is
+ * published, which must be disclosed (see Scope 2 quality criteria).
+ */
+export async function getResidualMixFactor(
+  country: string,
+  year: number
+): Promise<{ factor: number; source: string; isResidualMix: boolean }> {
+  const cacheKey = `residual_mix:${country.toLowerCase()}:${year}`;
+  const cached = await redis.get(cacheKey);
+
+  if (cached) {
+    return JSON.parse(cached);
+  }
+
+  const result = await db.query(
+    `SELECT factor_kg_co2e_per_kwh, source, year FROM residual_mix_factors
+     WHERE LOWER(country) = LOWER($1) AND year <= $2
+     ORDER BY year DESC LIMIT 1`,
+    [country, year]
+  );
+
+  let data: { factor: number; source: string; isResidualMix: boolean };
+  if (result.rows.length > 0) {
+    const row = result.rows[0];
+    data = {
+      factor: parseFloat(row.factor_kg_co2e_per_kwh),
+      source: row.year === year ? row.source : `${row.source} (${row.year})`,
+      isResidualMix: true,
+    };
+  } else {
+    logger.warn(`No residual mix factor found for ${country}, using location-based grid factor`);
+    const grid = await getGridEmissionFactor(country, year);
+    data = { factor: grid.factor, source: `${grid.source} (grid average)`, isResidualMix: false };
   }
 
-  return roundTo(totalPrecursorEmissions, 4);
+  await redis.setex(cacheKey, 86400, JSON.stringify(data));
+  return data;
 }
 
 /**
@@ -275,10 +628,20 @@ export async function calculatePrecursors(
  */
 export async function calculateScope2MarketBased(
   electricityKwh: number,
-  contractualInstruments: ContractualInstrument[]
-): Promise<{ emissions: number; source: string }> {
+  contractualInstruments: ContractualInstrument[],
+  residualMix: { factor: number; source: string } = { factor: 0.42, source: 'global_average' }
+): Promise<{
+  emissions: number;
+  source: string;
+  coveredKwh: number;
+  residualKwh: number;
+  residualMixFactor: number;
+  residualMixSource: string;
+  allocations: Array<{ instrumentId?: string; type: ContractualInstrument['type']; kwh: number; emissions: number }>;
+}> {
   let totalEmissions = 0;
   let remainingKwh = electricityKwh;
+  const allocations = [];
 
   // Apply contractual instruments in order
   for (const instrument of contractualInstruments) {
@@ -288,24 +651,38 @@ export async function calculateScope2MarketBased(
     const emissions = coveredKwh * instrument.emissionFactor;
     totalEmissions += emissions;
     remainingKwh -= coveredKwh;
+    allocations.push({
+      instrumentId: instrument.id,
+      type: instrument.type,
+      kwh: roundTo(coveredKwh, 4),
+      emissions: roundTo(emissions, 4),
+    });
   }
 
   // Any remaining uses residual mix
   if (remainingKwh > 0) {
-    totalEmissions += remainingKwh * 0.42; // Global average as residual
+    totalEmissions += remainingKwh * residualMix.factor;
   }
 
   return {
     emissions: roundTo(totalEmissions, 4),
     source: 'market_based',
+    coveredKwh: roundTo(electricityKwh - remainingKwh, 4),
+    residualKwh: roundTo(remainingKwh, 4),
+    residualMixFactor: residualMix.factor,
+    residualMixSource: residualMix.source,
+    allocations,
   };
 }
 
-interface ContractualInstrument {
-  type: 'ppa' | 'rec' | 'goo';
-  quantityKwh: number;
-  emissionFactor: number;
-  supplier?: string;
+interface EmissionFactorLookup {
+  factor: number;            // kg CO2e per activity unit
+  source: string;
+  gases?: GasAmounts;        // kg of each gas per activity unit
+  unit?: string;             // unit the factor is published in
+  conversionFactor: number;  // factor units per activity unit
+  reference: FactorReference;
+  matchReason?: string;      // why this factor was chosen over the other candidates
 }
 
 /**
@@ -324,6 +701,7 @@ export async function getCBAMEmissionFactors(
   const cbamDefaults: Record<string, { direct: number; indirect: number; precursor: number }> = {
     cement: { direct: 0.525, indirect: 0.05, precursor: 0 },
     iron_steel: { direct: 1.85, indirect: 0.2, precursor: 0.3 },
+    aluminium: { direct: 1.5, indirect: 8.5, precursor: 1.0 },
     aluminum: { direct: 1.5, indirect: 8.5, precursor: 1.0 },
     fertilizers: { direct: 1.6, indirect: 0.1, precursor: 0 },
     electricity: { direct: 0, indirect: 0.42, precursor: 0 },
@@ -0,0 +1,285 @@
+import { logger } from '../utils/logger';
+import { roundTo, safeJsonParse } from '../utils/helpers';
+import type { GWPSet, GreenhouseGas, GasAmounts, GasBreakdown } from '../types';
+
+export const DEFAULT_GWP_SET: GWPSet = 'AR5';
+
+export interface GasBreakdownRow {
+  gas: GreenhouseGas | 'unspecified';
+  massKg: number | null;
+  gwp: number | null;
+  co2eKg: number;
+}
+
+export const GWP_SETS: GWPSet[] = ['AR4', 'AR5', 'AR6'];
+
+/**
+ * 100-year global warming potentials by IPCC assessment report
+ * AR4: WG1 Table 2.14 | AR5: WG1 Table 8.A.1 (without climate-carbon feedback) | AR6: WG1 Table 7.SM.7
+ */
+export const GWP_VALUES: Record<GWPSet, Record<GreenhouseGas, number>> = {
+  AR4: {
+    'CO2': 1,
+    'CH4': 25,
+    'CH4_fossil': 25,
+    'CH4_non_fossil': 25,
+    'N2O': 298,
+    'HFC-23': 14800,
+    'HFC-32': 675,
+    'HFC-125': 3500,
+    'HFC-134a': 1430,
+    'HFC-143a': 4470,
+    'HFC-152a': 124,
+    'HFC-227ea': 3220,
+    'HFC-236fa': 9810,
+    'HFC-245fa': 1030,
+    'HFC-365mfc': 794,
+    'PFC-14': 7390,
+    'PFC-116': 12200,
+    'PFC-218': 8830,
+    'PFC-318': 10300,
+    'SF6': 22800,
+    'NF3': 17200,
+  },
+  AR5: {
+    'CO2': 1,
+    'CH4': 28,
+    'CH4_fossil': 30,
+    'CH4_non_fossil': 28,
+    'N2O': 265,
+    'HFC-23': 12400,
+    'HFC-32': 677,
+    'HFC-125': 3170,
+    'HFC-134a': 1300,
+    'HFC-143a': 4800,
+    'HFC-152a': 138,
+    'HFC-227ea': 3350,
+    'HFC-236fa': 8060,
+    'HFC-245fa': 858,
+    'HFC-365mfc': 804,
+    'PFC-14': 6630,
+    'PFC-116': 11100,
+    'PFC-218': 8900,
+    'PFC-318': 9540,
+    'SF6': 23500,
+    'NF3': 16100,
+  },
+  AR6: {
+    'CO2': 1,
+    'CH4': 27.9,
+    'CH4_fossil': 29.8,
+    'CH4_non_fossil': 27.2,
+    'N2O': 273,
+    'HFC-23': 14600,
+    'HFC-32': 771,
+    'HFC-125': 3740,
+    'HFC-134a': 1530,
+    'HFC-143a': 5810,
+    'HFC-152a': 164,
+    'HFC-227ea': 3600,
+    'HFC-236fa': 8690,
+    'HFC-245fa': 962,
+    'HFC-365mfc': 914,
+    'PFC-14': 7380,
+    'PFC-116': 12400,
+    'PFC-218': 9290,
+    'PFC-318': 10200,
+    'SF6': 25200,
+    'NF3': 17400,
+  },
+};
+
+// Common names and chemical formulas accepted in factor data (keys are normalised)
+const GAS_ALIASES: Record<string, GreenhouseGas> = {
+  CARBONDIOXIDE: 'CO2',
+  METHANE: 'CH4',
+  FOSSILCH4: 'CH4_fossil',
+  BIOGENICCH4: 'CH4_non_fossil',
+  CH4BIOGENIC: 'CH4_non_fossil',
+  NITROUSOXIDE: 'N2O',
+  R23: 'HFC-23',
+  R32: 'HFC-32',
+  R125: 'HFC-125',
+  R134A: 'HFC-134a',
+  R143A: 'HFC-143a',
+  R152A: 'HFC-152a',
+  R227EA: 'HFC-227ea',
+  R236FA: 'HFC-236fa',
+  R245FA: 'HFC-245fa',
+  CF4: 'PFC-14',
+  C2F6: 'PFC-116',
+  C3F8: 'PFC-218',
+  CC4F8: 'PFC-318',
+  SULFURHEXAFLUORIDE: 'SF6',
+  SULPHURHEXAFLUORIDE: 'SF6',
+  NITROGENTRIFLUORIDE: 'NF3',
+};
+
+function normalizeGasKey(name: string): string {
+  return name.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+const GAS_LOOKUP: Record<string, GreenhouseGas> = {
+  ...Object.fromEntries(
+    (Object.keys(GWP_VALUES.AR5) as GreenhouseGas[]).map((gas) => [normalizeGasKey(gas), gas])
+  ),
+  ...GAS_ALIASES,
+};
+
+export function isGWPSet(value: unknown): value is GWPSet {
+  return typeof value === 'string' && (GWP_SETS as string[]).includes(value);
+}
+
+/**
+ * Resolve a gas name from factor data (e.g. "hfc134a", "R-134a", "methane")
+ */
+export function resolveGas(name: string): GreenhouseGas | null {
+  return GAS_LOOKUP[normalizeGasKey(name)] || null;
+}
+
+export function getGWP(gas: GreenhouseGas, gwpSet: GWPSet = DEFAULT_GWP_SET): number {
+  return GWP_VALUES[gwpSet][gas];
+}
+
+/**
+ * Parse per-gas amounts from JSONB (emission_factors.gwp_values), ignoring unknown gases
+ */
+export function parseGasAmounts(raw: unknown): GasAmounts | null {
+  const data = typeof raw === 'string' ? safeJsonParse<Record<string, unknown> | null>(raw, null) : raw;
+  if (!data || typeof data !== 'object') {
+    return null;
+  }
+
+  const gases: GasAmounts = {};
+  for (const [name, value] of Object.entries(data as Record<string, unknown>)) {
+    const gas = resolveGas(name);
+    const amount = typeof value === 'number' ? value : parseFloat(String(value));
+    if (!gas) {
+      logger.warn(`Ignoring unknown greenhouse gas "${name}" in factor data`);
+      continue;
+    }
+    if (!isNaN(amount)) {
+      gases[gas] = (gases[gas] || 0) + amount;
+    }
+  }
+
+  return Object.keys(gases).length > 0 ? gases : null;
+}
+
+/**
+ * Convert gas masses to CO2e with the given GWP set
+ */
+export function gasesToCO2e(gases: GasAmounts, gwpSet: GWPSet = DEFAULT_GWP_SET): number {
+  let total = 0;
+  for (const [gas, amount] of Object.entries(gases) as [GreenhouseGas, number][]) {
+    total += amount * getGWP(gas, gwpSet);
+  }
+  return total;
+}
+
+export function scaleGasAmounts(gases: GasAmounts, multiplier: number): GasAmounts {
+  return Object.fromEntries(
+    Object.entries(gases).map(([gas, amount]) => [gas, (amount as number) * multiplier])
+  ) as GasAmounts;
+}
+
+/**
+ * Build the stored breakdown for an activity calculation.
+ * Factors without a per-gas split are carried as unspecified CO2e.
+ */
+export function calculateGasBreakdown(
+  quantity: number,
+  factor: { factor: number; gases?: GasAmounts | null },
+  gwpSet: GWPSet,
+  multiplier: number = 1
+): GasBreakdown {
+  if (factor.gases) {
+    return {
+      gwpSet,
+      gases: scaleGasAmounts(factor.gases, quantity * multiplier),
+      unspecifiedCo2e: 0,
+    };
+  }
+
+  return {
+    gwpSet,
+    gases: {},
+    unspecifiedCo2e: quantity * factor.factor * multiplier,
+  };
+}
+
+/**
+ * Total CO2e of a breakdown, optionally re-derived with another GWP set
+ */
+export function breakdownToCO2e(breakdown: GasBreakdown, gwpSet: GWPSet = breakdown.gwpSet): number {
+  return gasesToCO2e(breakdown.gases, gwpSet) + breakdown.unspecifiedCo2e;
+}
+
+export function parseGasBreakdown(raw: unknown): GasBreakdown | null {
+  const data = typeof raw === 'string' ? safeJsonParse<any>(raw, null) : raw;
+  if (!data || typeof data !== 'object' || !isGWPSet(data.gwpSet)) {
+    return null;
+  }
+
+  return {
+    gwpSet: data.gwpSet,
+    gases: parseGasAmounts(data.gases) || {},
+    unspecifiedCo2e: parseFloat(data.unspecifiedCo2e) || 0,
+  };
+}
+
+/**
+ * Merge stored activity breakdowns. Activities calculated before per-gas
+ * tracking have no breakdown, so their CO2e is counted as unspecified.
+ */
+export function mergeGasBreakdowns(
+  items: Array<{ breakdown: unknown; co2e: number }>,
+  gwpSet: GWPSet
+): GasBreakdown {
+  const merged: GasBreakdown = { gwpSet, gases: {}, unspecifiedCo2e: 0 };
+
+  for (const item of items) {
+    const breakdown = parseGasBreakdown(item.breakdown);
+    if (!breakdown) {
+      merged.unspecifiedCo2e += item.co2e || 0;
+      continue;
+    }
+    for (const [gas, amount] of Object.entries(breakdown.gases) as [GreenhouseGas, number][]) {
+      merged.gases[gas] = (merged.gases[gas] || 0) + amount;
+    }
+    merged.unspecifiedCo2e += breakdown.unspecifiedCo2e;
+  }
+
+  return merged;
+}
+
+/**
+ * Tabular per-gas view for API responses and reports (kg)
+ */
+export function summarizeGasBreakdown(breakdown: GasBreakdown | null): GasBreakdownRow[] {
+  if (!breakdown) {
+    return [];
+  }
+
+  const rows: GasBreakdownRow[] =
+    (Object.entries(breakdown.gases) as [GreenhouseGas, number][]).map(([gas, amount]) => {
+      const gwp = getGWP(gas, breakdown.gwpSet);
+      return {
+        gas,
+        massKg: roundTo(amount, 6),
+        gwp,
+        co2eKg: roundTo(amount * gwp, 4),
+      };
+    });
+
+  if (breakdown.unspecifiedCo2e > 0) {
+    rows.push({
+      gas: 'unspecified',
+      massKg: null,
+      gwp: null,
+      co2eKg: roundTo(breakdown.unspecifiedCo2e, 4),
+    });
+  }
+
+  return rows.sort((a, b) => b.co2eKg - a.co2eKg);
+}
@@ -1,5 +1,29 @@
 // Services barrel export
 export * as ghgService from './ghgService';
+export * as gwpService from './gwpService';
+export * as unitService from './unitService';
+export * as scope2Service from './scope2Service';
+export * as cbamXmlService from './cbamXmlService';
+export * as cnCodeService from './cnCodeService';
+export * as cbamService from './cbamService';
+export * as cbamTemplateService from './cbamTemplateService';
+export * as supplierService from './supplierService';
+export * as spendService from './spendService';
+export * as transportService from './transportService';
+export * as calculationRunService from './calculationRunService';
+export * as factorImportService from './factorImportService';
+export * as factorMatchingService from './factorMatchingService';
+export * as consolidationService from './consolidationService';
+export * as facilityService from './facilityService';
+export * as baseYearService from './baseYearService';
+export * as targetService from './targetService';
+export * as initiativeService from './initiativeService';
+export * as scenarioService from './scenarioService';
+export * as uncertaintyService from './uncertaintyService';
+export * as productService from './productService';
+export * as landSectorService from './landSectorService';
+export * as creditService from './creditService';
+export * as chinaEtsService from './chinaEtsService';
 export * as serpAPIService from './serpAPIService';
 export * as reportService from './reportService';
 export * as signatureService from './signatureService';
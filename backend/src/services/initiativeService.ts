@@ -0,0 +1,160 @@
+/**
+ * Initiative Service
+ *
+ * Reduction initiatives and the two views built from them: the marginal
+ * abatement cost (MAC) curve and the projected emissions wedges.
+ *
+ * An initiative's annual cost is its capex spread over its lifetime with the
+ * capital recovery factor, plus its change in opex. Dividing by the annual
+ * abatement gives the cost per tonne the MAC curve is sorted by.
+ *
+ * Wedges start from the latest CFO result, held flat as the business-as-usual
+ * baseline. Each initiative abates its annual amount from its start year for
+ * its lifetime. Initiatives that started by the baseline year are already in
+ * the actuals, so they form no wedge.
+ */
+
+import { db } from '../config/database';
+import { roundTo } from '../utils/helpers';
+import type { MacCurveBar, ReductionInitiative, WedgeYear } from '../types';
+
+export const DEFAULT_DISCOUNT_RATE_PERCENT = 5;
+
+export function toInitiative(row: any): ReductionInitiative {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    name: row.name,
+    description: row.description || null,
+    status: row.status,
+    activityIds: row.activity_ids || [],
+    categories: row.categories || [],
+    annualAbatementTCo2e: parseFloat(row.annual_abatement_t_co2e),
+    capex: parseFloat(row.capex) || 0,
+    annualOpex: parseFloat(row.annual_opex) || 0,
+    currency: row.currency,
+    lifetimeYears: row.lifetime_years,
+    startYear: row.start_year,
+  };
+}
+
+/**
+ * Share of capex charged per year of the lifetime at a discount rate
+ */
+export function capitalRecoveryFactor(discountRatePercent: number, lifetimeYears: number): number {
+  const r = discountRatePercent / 100;
+  if (r === 0) {
+    return 1 / lifetimeYears;
+  }
+  const growth = Math.pow(1 + r, lifetimeYears);
+  return (r * growth) / (growth - 1);
+}
+
+export function annualizedCost(initiative: ReductionInitiative, discountRatePercent: number): number {
+  return initiative.capex * capitalRecoveryFactor(discountRatePercent, initiative.lifetimeYears) + initiative.annualOpex;
+}
+
+export function costPerTonne(initiative: ReductionInitiative, discountRatePercent: number): number {
+  return annualizedCost(initiative, discountRatePercent) / initiative.annualAbatementTCo2e;
+}
+
+/**
+ * Whether an initiative covers an activity, by id, activity type or Scope 3 category
+ */
+export function coversActivity(
+  initiative: ReductionInitiative,
+  activity: { id: string; activity_type?: string | null; scope3_category?: string | null }
+): boolean {
+  return initiative.activityIds.includes(activity.id) ||
+    (!!activity.activity_type && initiative.categories.includes(activity.activity_type)) ||
+    (!!activity.scope3_category && initiative.categories.includes(activity.scope3_category));
+}
+
+/**
+ * Current emissions of the activities an initiative covers, in tCO2e
+ */
+export function linkedEmissionsTCo2e(
+  initiative: ReductionInitiative,
+  activities: Array<{ id: string; activity_type?: string | null; scope3_category?: string | null; total_emissions_kg_co2e: any }>
+): number {
+  const kg = activities
+    .filter((activity) => coversActivity(initiative, activity))
+    .reduce((sum, activity) => sum + (parseFloat(activity.total_emissions_kg_co2e) || 0), 0);
+  return roundTo(kg / 1000, 4);
+}
+
+/**
+ * MAC curve of the initiatives not cancelled, cheapest abatement first
+ */
+export function buildMacCurve(initiatives: ReductionInitiative[], discountRatePercent: number): MacCurveBar[] {
+  const ranked = initiatives
+    .filter((initiative) => initiative.status !== 'cancelled')
+    .map((initiative) => ({ initiative, cost: costPerTonne(initiative, discountRatePercent) }))
+    .sort((a, b) => a.cost - b.cost || b.initiative.annualAbatementTCo2e - a.initiative.annualAbatementTCo2e);
+
+  let cumulative = 0;
+  return ranked.map(({ initiative, cost }) => {
+    const start = cumulative;
+    cumulative += initiative.annualAbatementTCo2e;
+    return {
+      initiativeId: initiative.id,
+      name: initiative.name,
+      status: initiative.status,
+      annualAbatementTCo2e: roundTo(initiative.annualAbatementTCo2e, 4),
+      annualizedCost: roundTo(annualizedCost(initiative, discountRatePercent), 2),
+      costPerTonne: roundTo(cost, 2),
+      cumulativeStart: roundTo(start, 4),
+      cumulativeEnd: roundTo(cumulative, 4),
+    };
+  });
+}
+
+/**
+ * Projected emissions from the year after the baseline to toYear, with the
+ * abatement of each initiative as a wedge under the flat baseline
+ */
+export function buildWedges(
+  initiatives: ReductionInitiative[],
+  baselineYear: number,
+  baselineTCo2e: number,
+  toYear: number
+): WedgeYear[] {
+  const active = initiatives.filter(
+    (initiative) => initiative.status !== 'cancelled' && initiative.startYear > baselineYear
+  );
+
+  const years: WedgeYear[] = [];
+  for (let year = baselineYear + 1; year <= toYear; year++) {
+    const wedges: Record<string, number> = {};
+    let abated = 0;
+    for (const initiative of active) {
+      if (year >= initiative.startYear && year < initiative.startYear + initiative.lifetimeYears) {
+        wedges[initiative.id] = roundTo(initiative.annualAbatementTCo2e, 4);
+        abated += initiative.annualAbatementTCo2e;
+      }
+    }
+    years.push({
+      year,
+      baselineTCo2e: roundTo(baselineTCo2e, 4),
+      wedges,
+      projectedTCo2e: roundTo(Math.max(0, baselineTCo2e - abated), 4),
+    });
+  }
+  return years;
+}
+
+/**
+ * One-line description, e.g. for the K-ESG reduction activities disclosure
+ */
+export function describeInitiative(initiative: ReductionInitiative): string {
+  return `${initiative.name}: ${roundTo(initiative.annualAbatementTCo2e, 2)} tCO2e/yr from ${initiative.startYear} ` +
+    `for ${initiative.lifetimeYears} years (${initiative.status})`;
+}
+
+export async function getProjectInitiatives(projectId: string): Promise<ReductionInitiative[]> {
+  const result = await db.query(
+    `SELECT * FROM reduction_initiatives WHERE project_id = $1 ORDER BY start_year, name`,
+    [projectId]
+  );
+  return result.rows.map(toInitiative);
+}
@@ -0,0 +1,407 @@
+/**
+ * Land Sector Service (IPCC Tier 1, GHG Protocol Land Sector and Removals Guidance)
+ *
+ * Agricultural activities can carry a land-sector model in metadata.landSector:
+ * N2O from nitrogen applied to managed soils, burning of crop residues, direct
+ * land-use change, biomass burnt as fuel and CO2 taken up in biomass. Each model
+ * gives the activity a factor per unit for the gases that count towards the
+ * inventory, and amounts per unit that are reported outside it: biogenic CO2
+ * emissions, biogenic removals and indirect land-use change. Removals are never
+ * netted against emissions (ISO 14067 and the GHG Protocol report them apart).
+ */
+
+import { BadRequestError } from '../middleware/errorHandler';
+import { roundTo } from '../utils/helpers';
+import * as gwpService from './gwpService';
+import * as unitService from './unitService';
+import type {
+  GasAmounts,
+  GWPSet,
+  LandSectorCalculation,
+  LandSectorCategory,
+  LandSectorFlows,
+  LandSectorModel,
+} from '../types';
+
+export const METHOD_SOURCE = 'IPCC 2006 Guidelines, 2019 Refinement (Tier 1)';
+
+export const LAND_SECTOR_MODELS: LandSectorModel[] = [
+  'managed_soils',
+  'residue_burning',
+  'land_use_change',
+  'biomass_combustion',
+  'biogenic_uptake',
+];
+
+// Land-use change emissions are spread over the 20 years after conversion
+// (ISO 14067 6.4.9.5, GHG Protocol Product Standard)
+export const AMORTISATION_YEARS = 20;
+
+const CO2_PER_C = 44 / 12;
+const N2O_PER_N2O_N = 44 / 28;
+
+// 2019 Refinement Vol. 4 Table 11.1 (N2O-N per N applied); wet and dry
+// climates use the disaggregated factors, otherwise the aggregated ones apply
+const MANAGED_SOILS = {
+  ef1: { aggregated: 0.010, wetSynthetic: 0.016, wetOther: 0.006, dry: 0.005, floodedRice: 0.004 },
+  ef4: { aggregated: 0.010, wet: 0.014, dry: 0.005 },
+  ef5: 0.011,
+  fracGas: { synthetic: 0.11, organic: 0.21, crop_residue: 0 },
+  fracLeach: 0.24, // none where leaching does not occur (dry climates)
+  ureaCarbonFraction: 0.20, // t C per t urea (Eq. 11.13)
+  ureaNitrogenFraction: 28 / 60,
+};
+
+type NitrogenSource = keyof typeof MANAGED_SOILS.fracGas;
+
+// Fuel consumed when burning crop residues, M_B x C_f in t dry matter per ha
+// (2006 Vol. 4 Table 2.4)
+export const CROP_RESIDUES: Record<string, { name: string; fuelConsumedTDmPerHa: number }> = {
+  sugarcane: { name: 'Sugarcane', fuelConsumedTDmPerHa: 6.5 },
+  rice: { name: 'Rice straw', fuelConsumedTDmPerHa: 5.5 },
+  maize: { name: 'Maize stover', fuelConsumedTDmPerHa: 10.0 },
+  wheat: { name: 'Wheat straw', fuelConsumedTDmPerHa: 4.0 },
+};
+
+// g of each gas per kg dry matter burnt, agricultural residues (2006 Vol. 4 Table 2.5)
+const RESIDUE_BURNING_EMISSIONS = { CO2: 1515, CH4: 2.7, N2O: 0.07 };
+
+// Net calorific value (GJ/t) and emission factors (kg/TJ) of solid biomass
+// fuels in manufacturing industries (2006 Vol. 2 Tables 1.2 and 2.3)
+export const BIOMASS_FUELS: Record<string, { name: string; ncvGjPerTonne: number; co2: number; ch4: number; n2o: number }> = {
+  wood: { name: 'Wood / wood waste', ncvGjPerTonne: 15.6, co2: 112000, ch4: 30, n2o: 4 },
+  other_primary_solid_biomass: { name: 'Other primary solid biomass', ncvGjPerTonne: 11.6, co2: 100000, ch4: 30, n2o: 4 },
+  bagasse: { name: 'Bagasse', ncvGjPerTonne: 11.6, co2: 100000, ch4: 30, n2o: 4 },
+  rice_husk: { name: 'Rice husk', ncvGjPerTonne: 11.6, co2: 100000, ch4: 30, n2o: 4 },
+};
+
+// Carbon fraction of dry matter (2006 Vol. 4 Table 4.3)
+const DEFAULT_CARBON_FRACTION = 0.47;
+
+// What each model adds to the inventory, per its base unit
+interface ModelResult {
+  baseUnit: string;
+  category: LandSectorCategory | null;
+  gases: GasAmounts;
+  parameters: LandSectorCalculation['parameters'];
+  reported: LandSectorCalculation['reported'];
+}
+
+export function emptyFlows(): LandSectorFlows {
+  return {
+    fossil: 0,
+    managedSoils: 0,
+    residueBurning: 0,
+    landUseChange: 0,
+    biomassCombustion: 0,
+    indirectLandUseChange: 0,
+    biogenicCo2Emissions: 0,
+    biogenicRemovals: 0,
+  };
+}
+
+export function isLandSectorModel(value: unknown): value is LandSectorModel {
+  return LAND_SECTOR_MODELS.includes(value as LandSectorModel);
+}
+
+/**
+ * N2O from nitrogen applied to managed soils: direct, and indirect through
+ * volatilisation and leaching (Eqs. 11.1, 11.9 and 11.10), plus CO2 from urea
+ * (Eq. 11.13). Per kg N applied.
+ */
+export function managedSoils(params: Record<string, any>): ModelResult {
+  const source: NitrogenSource = params.nitrogenSource || 'synthetic';
+  if (!(source in MANAGED_SOILS.fracGas)) {
+    throw new BadRequestError(`Unknown nitrogen source "${source}"`);
+  }
+  const climate = params.climate || null;
+  if (climate !== null && climate !== 'wet' && climate !== 'dry') {
+    throw new BadRequestError('Climate must be "wet" or "dry"');
+  }
+
+  const { ef1: EF1, ef4: EF4 } = MANAGED_SOILS;
+  const defaultEf1 = params.floodedRice
+    ? EF1.floodedRice
+    : climate === 'wet'
+      ? (source === 'synthetic' ? EF1.wetSynthetic : EF1.wetOther)
+      : climate === 'dry' ? EF1.dry : EF1.aggregated;
+  const ef1 = parameter(params, 'ef1', defaultEf1);
+  const ef4 = climate ? EF4[climate as 'wet' | 'dry'] : EF4.aggregated;
+  const fracGas = parameter(params, 'fracGas', MANAGED_SOILS.fracGas[source]);
+  const fracLeach = parameter(params, 'fracLeach', climate === 'dry' ? 0 : MANAGED_SOILS.fracLeach);
+  const ureaShare = parameter(params, 'ureaShare', 0);
+  if (ureaShare > 1 || (ureaShare > 0 && source !== 'synthetic')) {
+    throw new BadRequestError('Urea share must be between 0 and 1, for synthetic nitrogen only');
+  }
+
+  const n2oN = ef1 + fracGas * ef4 + fracLeach * MANAGED_SOILS.ef5;
+  const ureaCo2 = (ureaShare / MANAGED_SOILS.ureaNitrogenFraction) * MANAGED_SOILS.ureaCarbonFraction * CO2_PER_C;
+
+  return {
+    baseUnit: 'kg',
+    category: 'managedSoils',
+    gases: { N2O: n2oN * N2O_PER_N2O_N, ...(ureaCo2 > 0 && { CO2: ureaCo2 }) },
+    parameters: {
+      nitrogenSource: source,
+      climate: climate || 'aggregated',
+      floodedRice: !!params.floodedRice,
+      ef1,
+      ef4,
+      ef5: MANAGED_SOILS.ef5,
+      fracGas,
+      fracLeach,
+      ureaShare,
+    },
+    reported: { biogenicCo2Emissions: 0, biogenicRemovals: 0, indirectLandUseChange: 0 },
+  };
+}
+
+/**
+ * Burning crop residues in the field (Eq. 2.27). The CO2 is biogenic; CH4 and
+ * N2O count. Per ha burnt.
+ */
+export function residueBurning(params: Record<string, any>): ModelResult {
+  const crop = params.crop ? CROP_RESIDUES[params.crop] : undefined;
+  if (params.crop && !crop) {
+    throw new BadRequestError(`No residue burning defaults for crop "${params.crop}"; give fuelConsumedTDmPerHa`);
+  }
+  if (!crop && params.fuelConsumedTDmPerHa === undefined) {
+    throw new BadRequestError('Residue burning needs a crop or fuelConsumedTDmPerHa');
+  }
+  const fuelConsumed = parameter(params, 'fuelConsumedTDmPerHa', crop?.fuelConsumedTDmPerHa ?? 0);
+
+  // t dry matter x g/kg = kg
+  return {
+    baseUnit: 'ha',
+    category: 'residueBurning',
+    gases: {
+      CH4_non_fossil: fuelConsumed * RESIDUE_BURNING_EMISSIONS.CH4,
+      N2O: fuelConsumed * RESIDUE_BURNING_EMISSIONS.N2O,
+    },
+    parameters: { crop: params.crop || 'custom', fuelConsumedTDmPerHa: fuelConsumed },
+    reported: {
+      biogenicCo2Emissions: fuelConsumed * RESIDUE_BURNING_EMISSIONS.CO2,
+      biogenicRemovals: 0,
+      indirectLandUseChange: 0,
+    },
+  };
+}
+
+/**
+ * Direct land-use change: the carbon stock lost on conversion, spread evenly
+ * over the 20 years after it. A stock gain is reported as a removal. Indirect
+ * land-use change, when given, is reported only. Per ha converted and year.
+ */
+export function landUseChange(params: Record<string, any>, reportingYear: number): ModelResult {
+  for (const key of ['carbonStockBeforeTCPerHa', 'carbonStockAfterTCPerHa', 'conversionYear']) {
+    if (params[key] === undefined || params[key] === null) {
+      throw new BadRequestError(`Land-use change needs ${key}`);
+    }
+  }
+  const before = parameter(params, 'carbonStockBeforeTCPerHa', 0);
+  const after = parameter(params, 'carbonStockAfterTCPerHa', 0);
+  const conversionYear = Math.trunc(parameter(params, 'conversionYear', 0));
+  const yearsSinceConversion = reportingYear - conversionYear;
+  if (yearsSinceConversion < 0) {
+    throw new BadRequestError(`Land was converted in ${conversionYear}, after the reporting year ${reportingYear}`);
+  }
+
+  const annual = yearsSinceConversion < AMORTISATION_YEARS
+    ? ((before - after) * CO2_PER_C * 1000) / AMORTISATION_YEARS
+    : 0;
+
+  return {
+    baseUnit: 'ha',
+    category: 'landUseChange',
+    gases: annual > 0 ? { CO2: annual } : {},
+    parameters: {
+      carbonStockBeforeTCPerHa: before,
+      carbonStockAfterTCPerHa: after,
+      conversionYear,
+      yearsSinceConversion,
+      amortisationYears: AMORTISATION_YEARS,
+    },
+    reported: {
+      biogenicCo2Emissions: 0,
+      biogenicRemovals: annual < 0 ? -annual : 0,
+      indirectLandUseChange: parameter(params, 'ilucKgCo2ePerHa', 0),
+    },
+  };
+}
+
+/**
+ * Solid biomass burnt as fuel. The CO2 is biogenic; CH4 and N2O count. Per t
+ * of fuel.
+ */
+export function biomassCombustion(params: Record<string, any>): ModelResult {
+  const key = params.fuel || 'other_primary_solid_biomass';
+  const fuel = BIOMASS_FUELS[key];
+  if (!fuel) {
+    throw new BadRequestError(`Unknown biomass fuel "${key}"`);
+  }
+  const ncv = parameter(params, 'ncvGjPerTonne', fuel.ncvGjPerTonne);
+  const tj = ncv / 1000;
+
+  return {
+    baseUnit: 't',
+    category: 'biomassCombustion',
+    gases: { CH4_non_fossil: tj * fuel.ch4, N2O: tj * fuel.n2o },
+    parameters: { fuel: key, ncvGjPerTonne: ncv, co2KgPerTj: fuel.co2, ch4KgPerTj: fuel.ch4, n2oKgPerTj: fuel.n2o },
+    reported: { biogenicCo2Emissions: tj * fuel.co2, biogenicRemovals: 0, indirectLandUseChange: 0 },
+  };
+}
+
+/**
+ * CO2 taken up from the atmosphere in biomass that leaves in the product,
+ * from its carbon content. Per kg of biomass.
+ */
+export function biogenicUptake(params: Record<string, any>): ModelResult {
+  const dryMatterFraction = parameter(params, 'dryMatterFraction', 1);
+  const carbonFraction = parameter(params, 'carbonFraction', DEFAULT_CARBON_FRACTION);
+  if (dryMatterFraction > 1 || carbonFraction > 1) {
+    throw new BadRequestError('Dry matter and carbon fractions must be between 0 and 1');
+  }
+
+  return {
+    baseUnit: 'kg',
+    category: null,
+    gases: {},
+    parameters: { dryMatterFraction, carbonFraction },
+    reported: {
+      biogenicCo2Emissions: 0,
+      biogenicRemovals: dryMatterFraction * carbonFraction * CO2_PER_C,
+      indirectLandUseChange: 0,
+    },
+  };
+}
+
+/**
+ * Factor for an activity carrying a land-sector model in metadata.landSector,
+ * or null. Gases and reported amounts are per activity unit.
+ */
+export function getLandSectorFactor(
+  activity: { unit: string; metadata?: any },
+  gwpSet: GWPSet,
+  reportingYear?: number | null
+): {
+  factor: number;
+  gases: GasAmounts;
+  source: string;
+  unit: string;
+  conversionFactor: number;
+  landSector: LandSectorCalculation;
+} | null {
+  const params = activity.metadata?.landSector;
+  if (!params) {
+    return null;
+  }
+  if (!isLandSectorModel(params.model)) {
+    throw new BadRequestError(`Unknown land-sector model "${params.model}"`);
+  }
+
+  const result = runModel(params.model, params, reportingYear || new Date().getFullYear());
+  const conversionFactor = params.model === 'managed_soils'
+    ? nitrogenConversion(activity.unit)
+    : unitService.convertQuantity(1, activity.unit, result.baseUnit);
+  const gases = gwpService.scaleGasAmounts(result.gases, conversionFactor);
+
+  return {
+    factor: gwpService.gasesToCO2e(gases, gwpSet),
+    gases,
+    source: METHOD_SOURCE,
+    unit: result.baseUnit,
+    conversionFactor,
+    landSector: {
+      model: params.model,
+      category: result.category,
+      parameters: result.parameters,
+      reported: {
+        biogenicCo2Emissions: result.reported.biogenicCo2Emissions * conversionFactor,
+        biogenicRemovals: result.reported.biogenicRemovals * conversionFactor,
+        indirectLandUseChange: result.reported.indirectLandUseChange * conversionFactor,
+      },
+    },
+  };
+}
+
+/**
+ * Land-sector flows of one calculated activity. Emissions it adds to the
+ * inventory go to the model's category, or to fossil without a model.
+ */
+export function activityFlows(activity: any): LandSectorFlows {
+  const flows = emptyFlows();
+  const emissions = parseFloat(activity.total_emissions_kg_co2e) || 0;
+  const landSector: LandSectorCalculation | undefined = activity.emission_factor_used?.landSector;
+
+  if (landSector?.category) {
+    flows[landSector.category] += emissions;
+  } else if (!landSector) {
+    flows.fossil += emissions;
+  }
+
+  if (landSector) {
+    const quantity = parseFloat(activity.quantity) || 0;
+    flows.biogenicCo2Emissions += landSector.reported.biogenicCo2Emissions * quantity;
+    flows.biogenicRemovals += landSector.reported.biogenicRemovals * quantity;
+    flows.indirectLandUseChange += landSector.reported.indirectLandUseChange * quantity;
+  }
+
+  // Entered directly, before activities had land-sector models
+  flows.biogenicCo2Emissions += Number(activity.metadata?.biogenic_emissions) || 0;
+  return flows;
+}
+
+export function addFlows(target: LandSectorFlows, flows: LandSectorFlows, share = 1): LandSectorFlows {
+  for (const key of Object.keys(target) as Array<keyof LandSectorFlows>) {
+    target[key] += flows[key] * share;
+  }
+  return target;
+}
+
+export function roundFlows(flows: LandSectorFlows): LandSectorFlows {
+  return Object.fromEntries(
+    Object.entries(flows).map(([key, value]) => [key, roundTo(value, 4)])
+  ) as unknown as LandSectorFlows;
+}
+
+/**
+ * Land-sector flows of a set of calculated activities
+ */
+export function summarizeLandSector(activities: any[]): LandSectorFlows {
+  const total = emptyFlows();
+  for (const activity of activities) {
+    addFlows(total, activityFlows(activity));
+  }
+  return roundFlows(total);
+}
+
+function runModel(model: LandSectorModel, params: Record<string, any>, reportingYear: number): ModelResult {
+  switch (model) {
+    case 'managed_soils':
+      return managedSoils(params);
+    case 'residue_burning':
+      return residueBurning(params);
+    case 'land_use_change':
+      return landUseChange(params, reportingYear);
+    case 'biomass_combustion':
+      return biomassCombustion(params);
+    case 'biogenic_uptake':
+      return biogenicUptake(params);
+  }
+}
+
+// kg N per activity unit; nitrogen is often entered as 'kg_N' or 'tonnes_N'
+function nitrogenConversion(unit: string): number {
+  return unitService.convertQuantity(1, unit.replace(/[_\s-]n$/i, ''), 'kg');
+}
+
+function parameter(params: Record<string, any>, key: string, fallback: number): number {
+  if (params[key] === undefined || params[key] === null) {
+    return fallback;
+  }
+  const value = Number(params[key]);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new BadRequestError(`Land-sector parameter ${key} must be a non-negative number`);
+  }
+  return value;
+}
@@ -0,0 +1,502 @@
+/**
+ * Product Service
+ *
+ * Product systems for product carbon footprints (ISO 14067). A project can
+ * make several products. Each activity is assigned to one product, or to a
+ * shared process step whose emissions are split across the co-products it
+ * outputs.
+ *
+ * Shared processes are allocated (ISO 14044 4.3.4) by mass, energy content or
+ * economic value: each output's quantity times the product's key per declared
+ * unit. System expansion by substitution gives each co-product with a
+ * substitution factor the footprint of what it displaces, and leaves the rest
+ * to the determining products, split between them by mass. Every method can
+ * be compared on the same activities, since verifiers ask for the choice to be
+ * justified.
+ *
+ * A product's bill of materials lists what goes into one declared unit. A
+ * line naming another product of the project (raw sugar in white sugar)
+ * carries that product's footprint per unit, so component products are
+ * footprinted first. Footprints of products made from one another are not
+ * additive.
+ */
+
+import { db } from '../config/database';
+import { roundTo } from '../utils/helpers';
+import { BadRequestError } from '../middleware/errorHandler';
+import * as unitService from './unitService';
+import * as landSectorService from './landSectorService';
+import type {
+  AllocationMethod,
+  AllocationSensitivity,
+  BillOfMaterialsLine,
+  LandSectorFlows,
+  LifecycleStage,
+  Product,
+  ProductFootprint,
+  ProductProcess,
+} from '../types';
+
+export const LIFECYCLE_STAGES: LifecycleStage[] = ['rawMaterials', 'production', 'distribution', 'use', 'endOfLife'];
+
+export const ALLOCATION_METHODS: AllocationMethod[] = ['mass', 'energy', 'economic', 'substitution'];
+export const DEFAULT_ALLOCATION_METHOD: AllocationMethod = 'mass';
+
+export interface ProductFootprintResult {
+  footprints: ProductFootprint[];
+  unassigned: { activityCount: number; emissions: number };
+  warnings: string[];
+}
+
+export function toProduct(row: any): Product {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    name: row.name,
+    code: row.code || null,
+    declaredUnit: row.declared_unit,
+    functionalUnit: row.functional_unit || null,
+    annualOutput: parseFloat(row.annual_output),
+    massPerUnitKg: optionalNumber(row.mass_per_unit_kg),
+    energyMjPerUnit: optionalNumber(row.energy_mj_per_unit),
+    pricePerUnit: optionalNumber(row.price_per_unit),
+    priceCurrency: row.price_currency || null,
+    substitutionKgCo2ePerUnit: optionalNumber(row.substitution_kg_co2e_per_unit),
+    billOfMaterials: (row.bill_of_materials || []).map((line: any): BillOfMaterialsLine => ({
+      name: line.name,
+      quantity: Number(line.quantity),
+      unit: line.unit || null,
+      componentProductId: line.componentProductId || null,
+    })),
+  };
+}
+
+export function toProcess(row: any): ProductProcess {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    name: row.name,
+    description: row.description || null,
+    lifecycleStage: row.lifecycle_stage || null,
+    sequence: row.sequence || 0,
+    outputs: (row.outputs || []).map((output: any) => ({
+      productId: output.productId,
+      quantity: Number(output.quantity),
+    })),
+    allocationMethod: row.allocation_method || null,
+    allocationJustification: row.allocation_justification || null,
+  };
+}
+
+function optionalNumber(value: unknown): number | null {
+  return value !== null && value !== undefined ? parseFloat(value as string) : null;
+}
+
+export function emptyStages(): Record<LifecycleStage, number> {
+  return { rawMaterials: 0, production: 0, distribution: 0, use: 0, endOfLife: 0 };
+}
+
+/**
+ * Lifecycle stage of an activity from its scope and Scope 3 category
+ */
+export function lifecycleStageOf(activity: { scope: string; scope3_category?: string | null }): LifecycleStage {
+  if (activity.scope !== 'scope3') {
+    return 'production';
+  }
+  switch (activity.scope3_category) {
+    case 'purchased_goods':
+    case 'capital_goods':
+    case 'fuel_energy':
+      return 'rawMaterials';
+    case 'upstream_transport':
+    case 'downstream_transport':
+      return 'distribution';
+    case 'waste':
+    case 'end_of_life':
+      return 'endOfLife';
+    case 'use_of_products':
+    case 'processing':
+      return 'use';
+    default:
+      return 'production';
+  }
+}
+
+/**
+ * Mass of one declared unit in kg: the product's own key, or the declared unit
+ * itself when it is a mass
+ */
+export function massPerUnitKg(product: Product): number | null {
+  if (product.massPerUnitKg !== null) {
+    return product.massPerUnitKg;
+  }
+  return unitService.getUnitDimension(product.declaredUnit) === 'mass'
+    ? unitService.convertQuantity(1, product.declaredUnit, 'kg')
+    : null;
+}
+
+/**
+ * Energy content of one declared unit in MJ: the product's own key, or the
+ * declared unit itself when it is an energy
+ */
+export function energyPerUnitMj(product: Product): number | null {
+  if (product.energyMjPerUnit !== null) {
+    return product.energyMjPerUnit;
+  }
+  return unitService.getUnitDimension(product.declaredUnit) === 'energy'
+    ? unitService.convertQuantity(1, product.declaredUnit, 'MJ')
+    : null;
+}
+
+export function allocationKey(product: Product, method: Exclude<AllocationMethod, 'substitution'>): number | null {
+  switch (method) {
+    case 'mass':
+      return massPerUnitKg(product);
+    case 'energy':
+      return energyPerUnitMj(product);
+    case 'economic':
+      return product.pricePerUnit;
+  }
+}
+
+/**
+ * Share (0-1) of each output of a shared process in proportion to its
+ * quantity times the product's key. Outputs without a key take no share.
+ */
+export function allocationShares(
+  process: ProductProcess,
+  productsById: Map<string, Product>,
+  method: Exclude<AllocationMethod, 'substitution'> = DEFAULT_ALLOCATION_METHOD as 'mass'
+): { shares: Map<string, number>; withoutKey: string[]; error?: string } {
+  const amounts = new Map<string, number>();
+  const withoutKey: string[] = [];
+  const currencies = new Set<string>();
+
+  for (const output of process.outputs) {
+    const product = productsById.get(output.productId);
+    if (!product) continue;
+    const key = allocationKey(product, method);
+    if (key === null) {
+      withoutKey.push(product.name);
+      continue;
+    }
+    if (method === 'economic') currencies.add(product.priceCurrency || 'USD');
+    amounts.set(product.id, (amounts.get(product.id) || 0) + output.quantity * key);
+  }
+
+  const shares = new Map<string, number>();
+  if (currencies.size > 1) {
+    return { shares, withoutKey, error: `prices are in ${Array.from(currencies).join(', ')}; economic allocation needs one currency` };
+  }
+
+  const total = Array.from(amounts.values()).reduce((sum, amount) => sum + amount, 0);
+  if (total > 0) {
+    for (const [productId, amount] of amounts) {
+      shares.set(productId, amount / total);
+    }
+  }
+  return { shares, withoutKey };
+}
+
+/**
+ * Share of a shared process's emissions taken by each output under a method.
+ * Under substitution a co-product's share is what it displaces, so shares
+ * depend on the process total and the determining products' may be negative.
+ */
+export function allocateProcess(
+  process: ProductProcess,
+  productsById: Map<string, Product>,
+  method: AllocationMethod,
+  processTotal: number
+): { shares: Map<string, number>; warnings: string[] } {
+  const KEY_NAMES = { mass: 'mass', energy: 'energy content', economic: 'price' };
+  const warnings: string[] = [];
+
+  if (method !== 'substitution') {
+    const { shares, withoutKey, error } = allocationShares(process, productsById, method);
+    if (error) {
+      warnings.push(`Process "${process.name}": ${error}`);
+    } else if (withoutKey.length > 0) {
+      warnings.push(`Process "${process.name}": ${withoutKey.join(', ')} has no ${KEY_NAMES[method]} per unit and takes no share`);
+    }
+    return { shares, warnings };
+  }
+
+  const outputs = process.outputs.filter((output) => productsById.has(output.productId));
+  const credited = outputs.filter((output) => productsById.get(output.productId)!.substitutionKgCo2ePerUnit !== null);
+  const determining = outputs.filter((output) => !credited.includes(output));
+
+  if (determining.length === 0) {
+    warnings.push(`Process "${process.name}": every output has a substitution factor, so none is left to carry the process; allocated by mass`);
+    return { shares: allocateProcess(process, productsById, 'mass', processTotal).shares, warnings };
+  }
+
+  const shares = new Map<string, number>();
+  if (processTotal === 0) {
+    return { shares, warnings };
+  }
+
+  let displaced = 0;
+  for (const output of credited) {
+    const amount = output.quantity * productsById.get(output.productId)!.substitutionKgCo2ePerUnit!;
+    shares.set(output.productId, amount / processTotal);
+    displaced += amount;
+  }
+
+  const net = processTotal - displaced;
+  if (net < 0) {
+    warnings.push(`Process "${process.name}": displaced emissions exceed the process; its determining products carry a negative share`);
+  }
+
+  const split = determining.length === 1
+    ? new Map([[determining[0].productId, 1]])
+    : allocationShares({ ...process, outputs: determining }, productsById, 'mass').shares;
+  if (split.size === 0) {
+    warnings.push(`Process "${process.name}": the determining products have no mass per unit to split the remainder by`);
+  }
+  for (const [productId, share] of split) {
+    shares.set(productId, (net * share) / processTotal);
+  }
+  return { shares, warnings };
+}
+
+/**
+ * Products ordered so that every component comes before the products made
+ * from it
+ */
+export function orderByComponents(products: Product[]): Product[] {
+  const byId = new Map(products.map((product) => [product.id, product]));
+  const ordered: Product[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  const visit = (product: Product, path: string[]) => {
+    if (state.get(product.id) === 'done') return;
+    if (state.get(product.id) === 'visiting') {
+      throw new BadRequestError(`Bill of materials is circular: ${[...path, product.name].join(' -> ')}`);
+    }
+    state.set(product.id, 'visiting');
+    for (const line of product.billOfMaterials) {
+      const component = line.componentProductId ? byId.get(line.componentProductId) : undefined;
+      if (component) visit(component, [...path, product.name]);
+    }
+    state.set(product.id, 'done');
+    ordered.push(product);
+  };
+
+  for (const product of products) visit(product, []);
+  return ordered;
+}
+
+/**
+ * Footprint of each product from the calculated activities: its own
+ * activities, its share of shared processes and its component products
+ */
+export function calculateProductFootprints(
+  products: Product[],
+  processes: ProductProcess[],
+  activities: any[],
+  options: { includeBiogenic?: boolean; allocationMethod?: AllocationMethod; forceMethod?: boolean } = {}
+): ProductFootprintResult {
+  const defaultMethod = options.allocationMethod || DEFAULT_ALLOCATION_METHOD;
+  const productsById = new Map(products.map((product) => [product.id, product]));
+  const processesById = new Map(processes.map((process) => [process.id, process]));
+  const warnings: string[] = [];
+
+  const stages = new Map(products.map((product) => [product.id, emptyStages()]));
+  const sources = new Map(products.map((product) => [product.id, { direct: 0, allocated: 0, components: 0 }]));
+  const landSector = new Map(products.map((product) => [product.id, landSectorService.emptyFlows()]));
+  const processEmissions = new Map<string, { stages: Record<LifecycleStage, number>; landSector: LandSectorFlows }>();
+  const unassigned = { activityCount: 0, emissions: 0 };
+
+  for (const activity of activities) {
+    const emissions = parseFloat(activity.total_emissions_kg_co2e) || 0;
+    const flows = landSectorService.activityFlows(activity);
+
+    if (activity.product_id && productsById.has(activity.product_id)) {
+      stages.get(activity.product_id)![lifecycleStageOf(activity)] += emissions;
+      sources.get(activity.product_id)!.direct += emissions;
+      landSectorService.addFlows(landSector.get(activity.product_id)!, flows);
+    } else if (activity.process_id && processesById.has(activity.process_id)) {
+      const process = processesById.get(activity.process_id)!;
+      if (!processEmissions.has(process.id)) {
+        processEmissions.set(process.id, { stages: emptyStages(), landSector: landSectorService.emptyFlows() });
+      }
+      const shared = processEmissions.get(process.id)!;
+      shared.stages[process.lifecycleStage || lifecycleStageOf(activity)] += emissions;
+      landSectorService.addFlows(shared.landSector, flows);
+    } else {
+      unassigned.activityCount++;
+      unassigned.emissions += emissions;
+    }
+  }
+
+  // Shared processes, split across their outputs
+  const allocations = new Map<string, ProductFootprint['allocations']>(products.map((product) => [product.id, []]));
+  for (const process of processes) {
+    const shared = processEmissions.get(process.id);
+    if (!shared) continue;
+    const processTotal = LIFECYCLE_STAGES.reduce((sum, stage) => sum + shared.stages[stage], 0);
+
+    const method = options.forceMethod ? defaultMethod : process.allocationMethod || defaultMethod;
+    const { shares, warnings: processWarnings } = allocateProcess(process, productsById, method, processTotal);
+    warnings.push(...processWarnings);
+    if (shares.size === 0) {
+      warnings.push(`Process "${process.name}" has no output to allocate to by ${method}; its ${roundTo(processTotal, 4)} kg CO2e is not allocated`);
+      unassigned.emissions += processTotal;
+      continue;
+    }
+    if (process.outputs.length > 1 && !process.allocationJustification && !options.forceMethod) {
+      warnings.push(`Process "${process.name}": no justification recorded for ${method} allocation`);
+    }
+    const allocated = Array.from(shares.values()).reduce((sum, share) => sum + share, 0);
+    if (Math.abs(allocated - 1) > 1e-9) {
+      unassigned.emissions += processTotal * (1 - allocated);
+    }
+
+    for (const [productId, share] of shares) {
+      for (const stage of LIFECYCLE_STAGES) {
+        stages.get(productId)![stage] += shared.stages[stage] * share;
+      }
+      sources.get(productId)!.allocated += processTotal * share;
+      landSectorService.addFlows(landSector.get(productId)!, shared.landSector, share);
+      allocations.get(productId)!.push({
+        processId: process.id,
+        processName: process.name,
+        method,
+        justification: process.allocationJustification,
+        sharePercent: roundTo(share * 100, 4),
+        emissions: roundTo(processTotal * share, 4),
+      });
+    }
+  }
+
+  // Component products, footprinted before the products made from them
+  const footprints = new Map<string, ProductFootprint>();
+  for (const product of orderByComponents(products)) {
+    const productStages = stages.get(product.id)!;
+    const components: ProductFootprint['components'] = [];
+
+    for (const line of product.billOfMaterials) {
+      const component = line.componentProductId ? footprints.get(line.componentProductId) : undefined;
+      if (!component) continue;
+
+      const perUnitQuantity = line.unit
+        ? unitService.convertQuantity(line.quantity, line.unit, component.declaredUnit)
+        : line.quantity;
+      const quantity = perUnitQuantity * product.annualOutput;
+      const scale = component.outputQuantity > 0 ? quantity / component.outputQuantity : 0;
+
+      let lineEmissions = 0;
+      for (const stage of LIFECYCLE_STAGES) {
+        const contribution = component.lifecycleStages[stage] * scale;
+        productStages[stage] += contribution;
+        lineEmissions += contribution;
+      }
+      sources.get(product.id)!.components += lineEmissions;
+      landSectorService.addFlows(landSector.get(product.id)!, component.landSector, scale);
+      components.push({
+        productId: component.productId,
+        productName: component.productName,
+        quantity: roundTo(quantity, 6),
+        emissions: roundTo(lineEmissions, 4),
+      });
+    }
+
+    const total = LIFECYCLE_STAGES.reduce((sum, stage) => sum + productStages[stage], 0);
+    const productSources = sources.get(product.id)!;
+
+    footprints.set(product.id, {
+      productId: product.id,
+      productName: product.name,
+      declaredUnit: product.declaredUnit,
+      functionalUnit: product.functionalUnit,
+      outputQuantity: product.annualOutput,
+      lifecycleStages: productStages,
+      sources: {
+        direct: roundTo(productSources.direct, 4),
+        allocated: roundTo(productSources.allocated, 4),
+        components: roundTo(productSources.components, 4),
+      },
+      allocations: allocations.get(product.id)!,
+      components,
+      biogenicCarbon: options.includeBiogenic ? landSector.get(product.id)!.biogenicCo2Emissions : 0,
+      landSector: landSector.get(product.id)!,
+      cfpTotal: total,
+      cfpPerUnit: product.annualOutput > 0 ? total / product.annualOutput : total,
+    });
+  }
+
+  // Rounded only once every product made from them is done
+  return {
+    footprints: products.map((product) => {
+      const footprint = footprints.get(product.id)!;
+      return {
+        ...footprint,
+        lifecycleStages: Object.fromEntries(
+          LIFECYCLE_STAGES.map((stage) => [stage, roundTo(footprint.lifecycleStages[stage], 4)])
+        ) as Record<LifecycleStage, number>,
+        biogenicCarbon: roundTo(footprint.biogenicCarbon, 4),
+        landSector: landSectorService.roundFlows(footprint.landSector),
+        cfpTotal: roundTo(footprint.cfpTotal, 4),
+        cfpPerUnit: roundTo(footprint.cfpPerUnit, 6),
+      };
+    }),
+    unassigned: { activityCount: unassigned.activityCount, emissions: roundTo(unassigned.emissions, 4) },
+    warnings,
+  };
+}
+
+/**
+ * Each product's footprint per unit with every shared process allocated by
+ * each method, against the footprint with the methods as configured
+ */
+export function compareAllocationMethods(
+  products: Product[],
+  processes: ProductProcess[],
+  activities: any[],
+  options: { allocationMethod?: AllocationMethod } = {}
+): { products: AllocationSensitivity[]; warnings: Record<AllocationMethod, string[]> } {
+  const applied = calculateProductFootprints(products, processes, activities, options);
+  const runs = Object.fromEntries(ALLOCATION_METHODS.map((method) => [
+    method,
+    calculateProductFootprints(products, processes, activities, { allocationMethod: method, forceMethod: true }),
+  ])) as Record<AllocationMethod, ProductFootprintResult>;
+
+  return {
+    products: applied.footprints.map((footprint, index) => {
+      const byMethod = Object.fromEntries(
+        ALLOCATION_METHODS.map((method) => [method, runs[method].footprints[index].cfpPerUnit])
+      ) as Record<AllocationMethod, number>;
+      const values = Object.values(byMethod);
+      const spread = Math.max(...values) - Math.min(...values);
+
+      return {
+        productId: footprint.productId,
+        productName: footprint.productName,
+        declaredUnit: footprint.declaredUnit,
+        applied: footprint.cfpPerUnit,
+        byMethod,
+        spreadPercent: footprint.cfpPerUnit !== 0 ? roundTo((spread / Math.abs(footprint.cfpPerUnit)) * 100, 2) : 0,
+      };
+    }),
+    warnings: Object.fromEntries(
+      ALLOCATION_METHODS.map((method) => [method, runs[method].warnings])
+    ) as Record<AllocationMethod, string[]>,
+  };
+}
+
+export async function getProjectProducts(projectId: string): Promise<Product[]> {
+  const result = await db.query(
+    `SELECT * FROM products WHERE project_id = $1 ORDER BY name`,
+    [projectId]
+  );
+  return result.rows.map(toProduct);
+}
+
+export async function getProjectProcesses(projectId: string): Promise<ProductProcess[]> {
+  const result = await db.query(
+    `SELECT * FROM product_processes WHERE project_id = $1 ORDER BY sequence, name`,
+    [projectId]
+  );
+  return result.rows.map(toProcess);
+}
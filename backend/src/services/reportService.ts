@@ -1,12 +1,33 @@
 import { db } from '../config/database';
 import { logger } from '../utils/logger';
 import { roundTo, generateId } from '../utils/helpers';
+import { BadRequestError } from '../middleware/errorHandler';
 import * as ghgService from './ghgService';
+import * as gwpService from './gwpService';
+import * as scope2Service from './scope2Service';
+import * as unitService from './unitService';
+import * as cbamXmlService from './cbamXmlService';
+import * as cnCodeService from './cnCodeService';
+import * as cbamService from './cbamService';
+import * as baseYearService from './baseYearService';
+import * as targetService from './targetService';
+import * as initiativeService from './initiativeService';
+import * as landSectorService from './landSectorService';
+import * as creditService from './creditService';
+import * as chinaEtsService from './chinaEtsService';
 import * as fs from 'fs';
 import * as path from 'path';
 import PDFDocument from 'pdfkit';
 import * as XLSX from 'xlsx';
-import type { ReportStandard } from '../types';
+import type {
+  ApproachTotals,
+  CBAMCnCodeResult,
+  ConsolidationMethod,
+  GWPSet,
+  LandSectorFlows,
+  ReportStandard,
+  Scope2QualityCheck,
+} from '../types';
 
 const REPORTS_DIR = process.env.REPORTS_DIR || './reports';
 
@@ -35,8 +56,11 @@ export async function generateReportData(
 
   // Get activities
   const activitiesResult = await db.query(
-    `SELECT * FROM activities WHERE project_id = $1 AND calculation_status = 'calculated'
-     ORDER BY scope, scope3_category, name`,
+    `SELECT a.*, f.country AS facility_country, f.grid_region AS facility_grid_region, f.entity_id AS facility_entity_id
+     FROM activities a
+     LEFT JOIN facilities f ON f.id = a.facility_id
+     WHERE a.project_id = $1 AND a.calculation_status = 'calculated'
+     ORDER BY a.scope, a.scope3_category, a.name`,
     [projectId]
   );
 
@@ -49,6 +73,37 @@ export async function generateReportData(
     `SELECT * FROM cfo_results WHERE project_id = $1 ORDER BY created_at DESC LIMIT 1`,
     [projectId]
   );
+  // Every product footprinted in the latest CFP run
+  const productCfpResult = cfpResult.rows[0]?.run_id
+    ? await db.query(`SELECT * FROM cfp_results WHERE run_id = $1 ORDER BY product_name`, [cfpResult.rows[0].run_id])
+    : { rows: [] };
+
+  // Per-gas breakdown (auditors for K-ESG and China ETS ask for it)
+  const gwpSet = gwpService.isGWPSet(project.gwp_set) ? project.gwp_set : gwpService.DEFAULT_GWP_SET;
+  const gasBreakdown = gwpService.mergeGasBreakdowns(
+    activitiesResult.rows.map((a) => ({
+      breakdown: a.gas_breakdown,
+      co2e: parseFloat(a.total_emissions_kg_co2e) || 0,
+    })),
+    gwpSet
+  );
+
+  // Scope 2 dual reporting (GHG Protocol Scope 2 Guidance requires both methods)
+  const scope2 = await scope2Service.calculateProjectScope2(projectId, activitiesResult.rows, {
+    country: project.country,
+    reportingYear: project.reporting_year,
+  });
+
+  // Base-year restatement disclosure (GHG Protocol Chapter 5)
+  const baseYearStatus = await baseYearService.getBaseYearStatus(projectId);
+  const baseYearAssessment = baseYearStatus.inventory
+    ? baseYearService.assessRecalculation(
+        baseYearStatus.baseYear,
+        baseYearStatus.inventory,
+        baseYearStatus.pendingChanges,
+        baseYearStatus.policy
+      )
+    : null;
 
   // Build base report data
   const baseData: ReportData = {
@@ -72,6 +127,18 @@ export async function generateReportData(
       scope3: emissions.scope3,
       scope3Categories: emissions.scope3Categories,
       total: emissions.total,
+      gwpSet,
+      byGas: gwpService.summarizeGasBreakdown(gasBreakdown),
+    },
+    // Biogenic CO2, removals and land-use change (ISO 14067, GHG Protocol Land Sector Guidance)
+    landSector: landSectorService.summarizeLandSector(activitiesResult.rows),
+    scope2: {
+      locationBased: scope2.locationBased,
+      marketBased: scope2.marketBased,
+      electricityKwh: scope2.electricityKwh,
+      coveredKwh: scope2.coveredKwh,
+      byCountry: scope2.byCountry,
+      qualityCheck: scope2.qualityCheck,
     },
     activities: activitiesResult.rows.map((a) => ({
       name: a.name,
@@ -87,10 +154,36 @@ export async function generateReportData(
       functionalUnit: cfpResult.rows[0].functional_unit,
       cfpTotal: parseFloat(cfpResult.rows[0].cfp_total),
       cfpPerUnit: parseFloat(cfpResult.rows[0].cfp_per_unit),
+      products: productCfpResult.rows.map((row) => ({
+        productName: row.product_name,
+        functionalUnit: row.functional_unit,
+        cfpTotal: parseFloat(row.cfp_total),
+        cfpPerUnit: parseFloat(row.cfp_per_unit),
+      })),
     } : null,
     cfo: cfoResult.rows[0] ? {
       organizationName: cfoResult.rows[0].organization_name,
       cfoTotal: parseFloat(cfoResult.rows[0].cfo_total),
+      consolidationMethod: cfoResult.rows[0].consolidation_method,
+      approachTotals: cfoResult.rows[0].approach_totals || {},
+    } : null,
+    baseYear: baseYearStatus.cfo ? {
+      year: baseYearStatus.baseYear,
+      originalTotal: baseYearService.cfoInventory(baseYearStatus.cfo).total,
+      restatement: baseYearStatus.restatement ? {
+        restatedTotal: baseYearStatus.restatement.restated_inventory.total,
+        restatedAt: baseYearStatus.restatement.created_at,
+        reason: baseYearStatus.restatement.reason,
+        changes: (baseYearStatus.restatement.applied_changes || []).map((c: any) => ({
+          changeType: c.changeType,
+          description: c.description,
+          impactKgCo2e: c.impactKgCo2e,
+          excluded: !!c.excluded,
+        })),
+      } : null,
+      significanceThresholdPercent: baseYearStatus.policy.significanceThresholdPercent,
+      recalculationPending: baseYearAssessment?.triggered || false,
+      pendingReason: baseYearAssessment?.triggered ? baseYearAssessment.reason : null,
     } : null,
     generatedAt: new Date().toISOString(),
     standard,
@@ -158,6 +251,10 @@ export async function validateReportData(
       break;
   }
 
+  // Scope 2 quality criteria apply to every standard
+  validateScope2Quality(data, result);
+  validateBaseYear(data, result);
+
   // Calculate completeness
   const totalFields = requirements.requiredFields.length + requirements.optionalFields.length;
   const filledFields = totalFields - result.missingRequired.length;
@@ -167,13 +264,18 @@ export async function validateReportData(
 }
 
 /**
- * Generate report files (PDF and/or XLSX)
+ * Generate report files (PDF, XLSX and/or registry XML)
  */
 export async function generateReportFiles(
   data: ReportData,
   format: string,
-  standard: ReportStandard
+  standard: ReportStandard,
+  validation?: ValidationResult
 ): Promise<{ filePath: string; files: string[] }> {
+  if (format === 'xml' && standard !== 'eu_cbam') {
+    throw new BadRequestError('XML output is only available for the EU CBAM quarterly report');
+  }
+
   const timestamp = Date.now();
   const baseName = `${data.project.name.replace(/[^a-zA-Z0-9]/g, '_')}_${standard}_${timestamp}`;
   const projectDir = path.join(REPORTS_DIR, data.project.id);
@@ -200,6 +302,13 @@ export async function generateReportFiles(
     if (!primaryPath) primaryPath = xlsxPath;
   }
 
+  if (format === 'xml') {
+    const xmlPath = path.join(projectDir, `${baseName}.xml`);
+    await generateCBAMXmlReport(data, xmlPath, validation);
+    files.push(xmlPath);
+    primaryPath = xmlPath;
+  }
+
   return { filePath: primaryPath, files };
 }
 
@@ -349,22 +458,55 @@ async function getStandardSpecificData(
 }
 
 async function getEUCBAMData(projectId: string, baseData: ReportData, options?: ReportOptions): Promise<Record<string, any>> {
-  // Get precursor data
+  // Get precursor data with the factor it was calculated from
   const precursors = await db.query(
-    `SELECT * FROM precursor_calculations pc
+    `SELECT pc.*, a.id AS activity_id, pf.is_default AS factor_is_default
+     FROM precursor_calculations pc
      JOIN activities a ON pc.activity_id = a.id
+     LEFT JOIN precursor_factors pf
+       ON pf.material_type = pc.precursor_type AND pf.production_route = pc.production_route
      WHERE a.project_id = $1`,
     [projectId]
   );
 
+  // Imported goods are activities tagged with a CN code
+  const goodsResult = await db.query(
+    `SELECT id, name, quantity, unit, metadata FROM activities
+     WHERE project_id = $1 AND calculation_status = 'calculated' AND metadata->>'cnCode' IS NOT NULL`,
+    [projectId]
+  );
+
+  // Installation-level SEE takes precedence over the project-wide average
+  const installationsResult = await db.query(
+    `SELECT * FROM cbam_installations WHERE project_id = $1 ORDER BY created_at`,
+    [projectId]
+  );
+  const installationSEE: InstallationSEE[] = [];
+  for (const installation of installationsResult.rows) {
+    const result = await cbamService.calculateInstallation(
+      installation.id,
+      baseData.project.reportingYear,
+      baseData.emissions.gwpSet
+    );
+    for (const cnResult of result.byCnCode) {
+      const process = result.processes.find((p) => p.processId === cnResult.processId)!;
+      installationSEE.push({ installation, cnResult, producedTonnes: process.activityLevel });
+    }
+  }
+
+  const precursorEmissions = precursors.rows.reduce((sum, p) => sum + parseFloat(p.emissions_kg_co2e), 0);
+  const quarterlyReport = buildCBAMQuarterlyReport(baseData, goodsResult.rows, precursors.rows, installationSEE, options);
+
+  const cnCode = options?.cnCode || quarterlyReport.goods[0]?.cnCode || '';
+
   return {
-    goodsCategory: options?.goodsCategory || 'iron_steel',
-    cnCode: options?.cnCode || '',
+    goodsCategory: options?.goodsCategory || (cnCode && cnCodeService.findCnCode(cnCode)?.material) || 'iron_steel',
+    cnCode,
     countryOfOrigin: options?.countryOfOrigin || '',
     installationOperator: baseData.project.company,
     directEmissions: baseData.emissions.scope1,
     indirectEmissions: baseData.emissions.scope2,
-    precursorEmissions: precursors.rows.reduce((sum, p) => sum + parseFloat(p.emissions_kg_co2e), 0),
+    precursorEmissions,
     carbonPricePaid: options?.carbonPricePaid || 0,
     precursorDetails: precursors.rows.map((p) => ({
       material: p.precursor_type,
@@ -372,6 +514,168 @@ async function getEUCBAMData(projectId: string, baseData: ReportData, options?:
       emissionFactor: parseFloat(p.emission_factor),
       emissions: parseFloat(p.emissions_kg_co2e),
     })),
+    quarterlyReport,
+  };
+}
+
+interface InstallationSEE {
+  installation: any;
+  cnResult: CBAMCnCodeResult;
+  producedTonnes: number;
+}
+
+/**
+ * Build the registry quarterly report. Goods produced by a registered CBAM
+ * installation use its specific embedded emissions. Otherwise the project is
+ * treated as a single installation: its Scope 1 and precursor emissions
+ * (direct) and Scope 2 emissions (indirect) are spread over the goods by mass.
+ */
+function buildCBAMQuarterlyReport(
+  baseData: ReportData,
+  goodsRows: any[],
+  precursorRows: any[],
+  installationSEE: InstallationSEE[],
+  options?: ReportOptions
+): cbamXmlService.CBAMQuarterlyReport {
+  const productionCountry = (options?.countryOfOrigin || '').toUpperCase();
+
+  // Group goods by CN code and origin; quantities are reported in tonnes
+  const goodsByKey = new Map<string, {
+    cnCode: string;
+    description?: string;
+    originCountry: string;
+    tonnes: number;
+    activityIds: Set<string>;
+  }>();
+  for (const row of goodsRows) {
+    const metadata = row.metadata || {};
+    const cnCode = String(metadata.cnCode).replace(/\s/g, '');
+    const originCountry = String(metadata.originCountry || productionCountry).toUpperCase();
+    const tonnes = unitService.convertQuantity(parseFloat(row.quantity), row.unit, 't');
+    const key = `${cnCode}:${originCountry}`;
+    const existing = goodsByKey.get(key);
+    if (existing) {
+      existing.tonnes += tonnes;
+      existing.activityIds.add(row.id);
+    } else {
+      goodsByKey.set(key, {
+        cnCode,
+        description: metadata.cnDescription || row.name,
+        originCountry,
+        tonnes,
+        activityIds: new Set([row.id]),
+      });
+    }
+  }
+
+  if (goodsByKey.size === 0 && options?.cnCode && options?.importedQuantity) {
+    goodsByKey.set(options.cnCode, {
+      cnCode: options.cnCode,
+      originCountry: productionCountry,
+      tonnes: options.importedQuantity,
+      activityIds: new Set(),
+    });
+  }
+
+  const goods = Array.from(goodsByKey.values());
+  const totalTonnes = goods.reduce((sum, g) => sum + g.tonnes, 0);
+
+  // kgCO2e -> tCO2e per tonne of product
+  const precursorEmissions = precursorRows.reduce((sum, p) => sum + parseFloat(p.emissions_kg_co2e), 0);
+  const specificDirect = totalTonnes > 0 ? (baseData.emissions.scope1 + precursorEmissions) / 1000 / totalTonnes : 0;
+  const specificIndirect = totalTonnes > 0 ? baseData.emissions.scope2 / 1000 / totalTonnes : 0;
+
+  const toPrecursor = (p: any): cbamXmlService.CBAMPrecursor => ({
+    material: p.precursor_type,
+    productionRoute: p.production_route || undefined,
+    consumedTonnes: parseFloat(p.quantity_kg) / 1000,
+    // Precursor factors are kgCO2e/kg, which equals tCO2e/t
+    specificEmbeddedEmissions: parseFloat(p.emission_factor),
+    determinationType: p.factor_is_default === false ? 'actual' : 'default',
+  });
+
+  // Each good lists the precursors calculated for its own activities; a good
+  // entered through the report options stands for the whole project
+  const precursorsFor = (activityIds: Set<string>): cbamXmlService.CBAMPrecursor[] =>
+    precursorRows
+      .filter((p) => activityIds.size === 0 || activityIds.has(p.activity_id))
+      .map(toPrecursor);
+
+  const carbonPrices: cbamXmlService.CBAMCarbonPrice[] = options?.carbonPricePaid
+    ? [{
+        type: options.carbonPriceType || 'ets',
+        country: productionCountry,
+        amount: options.carbonPricePaid,
+        currency: options.carbonPriceCurrency || 'EUR',
+      }]
+    : [];
+
+  const installationAddress = { country: productionCountry, city: baseData.project.facilityLocation || undefined };
+  const year = baseData.project.reportingYear;
+
+  const projectEmissions = (tonnes: number, precursors: cbamXmlService.CBAMPrecursor[]): cbamXmlService.CBAMGoodsEmissions => ({
+    productionCountry,
+    operator: { id: options?.operatorId || baseData.project.id, name: baseData.project.company },
+    installation: {
+      id: options?.installationId || baseData.project.id,
+      name: baseData.project.facilityName || baseData.project.name,
+      address: installationAddress,
+    },
+    producedTonnes: tonnes,
+    direct: { determinationType: 'actual', specificEmbeddedEmissions: specificDirect },
+    indirect: { determinationType: 'actual', specificEmbeddedEmissions: specificIndirect },
+    precursors,
+    carbonPrices,
+  });
+
+  // Precursors are already inside the installation SEE
+  const installationEmissions = (cnCode: string): cbamXmlService.CBAMGoodsEmissions[] =>
+    installationSEE
+      .filter((i) => i.cnResult.cnCode === cnCode)
+      .map(({ installation, cnResult, producedTonnes }) => ({
+        productionCountry: installation.country,
+        operator: {
+          id: installation.operator_id || installation.id,
+          name: installation.operator_name || baseData.project.company,
+        },
+        installation: {
+          id: installation.registry_id || installation.id,
+          name: installation.name,
+          address: {
+            country: installation.country,
+            city: installation.city || undefined,
+            street: installation.street || undefined,
+            postCode: installation.post_code || undefined,
+          },
+        },
+        producedTonnes,
+        direct: { determinationType: 'actual', specificEmbeddedEmissions: cnResult.seeDirect },
+        indirect: { determinationType: 'actual', specificEmbeddedEmissions: cnResult.seeIndirect },
+        precursors: [],
+        carbonPrices,
+      }));
+
+  return {
+    reportId: `${baseData.project.id.slice(0, 8)}-${year}-Q${options?.reportingQuarter || 4}`,
+    year,
+    quarter: options?.reportingQuarter || 4,
+    declarant: {
+      eori: options?.eoriNumber || '',
+      name: options?.declarantName || baseData.project.company,
+      address: { country: (options?.declarantCountry || '').toUpperCase() },
+    },
+    goods: goods.map((g) => {
+      const fromInstallations = installationEmissions(g.cnCode);
+      return {
+        cnCode: g.cnCode,
+        description: g.description,
+        originCountry: g.originCountry,
+        importedTonnes: g.tonnes,
+        emissions: fromInstallations.length > 0
+          ? fromInstallations
+          : [projectEmissions(g.tonnes, precursorsFor(g.activityIds))],
+      };
+    }),
   };
 }
 
@@ -386,6 +690,16 @@ async function getUKCBAMData(projectId: string, baseData: ReportData, options?:
 }
 
 async function getChinaCarbonData(projectId: string, baseData: ReportData, options?: ReportOptions): Promise<Record<string, any>> {
+  // CCER retired against the organization for the reporting year, in tCO2e
+  const ccerOffset = options?.ccerOffset ?? (await creditService.getRetiredCredits(projectId, baseData.project.reportingYear))
+    .filter((credit) => credit.registry === 'ccer')
+    .reduce((sum, credit) => sum + credit.quantity, 0);
+
+  // With ETS units recorded, the allowance and status come from the benchmark allocation
+  const year = baseData.project.reportingYear;
+  const units = await chinaEtsService.getProjectUnits(projectId, year);
+  const compliance = units.length > 0 ? await chinaEtsService.calculateCompliance(projectId, year) : null;
+
   return {
     enterpriseName: baseData.project.company,
     unifiedSocialCreditCode: options?.unifiedSocialCreditCode || '',
@@ -393,17 +707,30 @@ async function getChinaCarbonData(projectId: string, baseData: ReportData, optio
     fuelConsumption: baseData.activities.filter((a) => a.scope === 'scope1').reduce((sum, a) => sum + a.quantity, 0),
     electricityConsumption: baseData.activities.filter((a) => a.scope === 'scope2').reduce((sum, a) => sum + a.quantity, 0),
     totalEmissions: baseData.emissions.total,
-    emissionAllowance: options?.emissionAllowance || 0,
-    complianceStatus: options?.complianceStatus || 'pending',
+    emissionAllowance: options?.emissionAllowance || compliance?.allowance || 0,
+    ccerOffset,
+    complianceStatus: options?.complianceStatus || compliance?.status || 'pending',
+    verifiedEmissions: compliance?.verifiedEmissions ?? null,
+    allocation: compliance,
+    ccerOffsetLimit: compliance?.ccer.limit ?? null,
+    ccerOffsetUsable: compliance?.ccer.usable ?? null,
+    monitoringPlan: compliance ? chinaEtsService.buildMonitoringPlan(units) : null,
+    emissionsReport: compliance ? chinaEtsService.buildEmissionsReport(units, compliance) : null,
   };
 }
 
 async function getKESGData(projectId: string, baseData: ReportData, options?: ReportOptions): Promise<Record<string, any>> {
+  // The reduction target and activities default to the project's targets and initiatives
+  const targets = options?.reductionTarget ? [] : await targetService.getProjectTargets(projectId);
+  const initiatives = options?.reductionActivities ? [] : await initiativeService.getProjectInitiatives(projectId);
+
   return {
     businessRegistrationNumber: options?.businessRegistrationNumber || '',
     governanceStructure: options?.governanceStructure || '',
-    reductionTarget: options?.reductionTarget || '',
-    reductionActivities: options?.reductionActivities || [],
+    reductionTarget: options?.reductionTarget || targets.map(targetService.describeTarget).join('; '),
+    reductionActivities: options?.reductionActivities || initiatives
+      .filter((initiative) => initiative.status !== 'cancelled')
+      .map(initiativeService.describeInitiative),
     emissionIntensity: baseData.emissions.total / (options?.revenue || 1),
     kEsgScore: options?.kEsgScore || null,
     kEsgGrade: options?.kEsgGrade || null,
@@ -414,7 +741,8 @@ async function getKESGData(projectId: string, baseData: ReportData, options?: Re
 async function getMAFFESGData(projectId: string, baseData: ReportData, options?: ReportOptions): Promise<Record<string, any>> {
   return {
     corporateNumber: options?.corporateNumber || '',
-    agriculturalEmissions: options?.agriculturalEmissions || 0,
+    agriculturalEmissions: options?.agriculturalEmissions
+      || baseData.landSector.managedSoils + baseData.landSector.residueBurning + baseData.landSector.landUseChange,
     foodLossReduction: options?.foodLossReduction || '',
     sustainableSourcing: options?.sustainableSourcing || '',
     biodiversityImpact: options?.biodiversityImpact || '',
@@ -488,6 +816,34 @@ function validateThaiESG(data: ReportData, result: ValidationResult): void {
   }
 }
 
+function validateScope2Quality(data: ReportData, result: ValidationResult): void {
+  for (const item of data.scope2?.qualityCheck.criteria || []) {
+    if (item.status === 'fail') {
+      result.warnings.push({
+        field: `scope2.qualityCheck.${item.criterion}`,
+        message: `Scope 2 quality criterion not met, instrument excluded from market-based total: ${item.message}`,
+        severity: 'warning',
+      });
+    } else if (item.status === 'warning') {
+      result.warnings.push({
+        field: `scope2.qualityCheck.${item.criterion}`,
+        message: item.message,
+        severity: 'warning',
+      });
+    }
+  }
+}
+
+function validateBaseYear(data: ReportData, result: ValidationResult): void {
+  if (data.baseYear?.recalculationPending) {
+    result.warnings.push({
+      field: 'baseYear.recalculation',
+      message: `Base-year recalculation triggered but not yet restated: ${data.baseYear.pendingReason}`,
+      severity: 'warning',
+    });
+  }
+}
+
 function hasField(data: any, fieldPath: string): boolean {
   const parts = fieldPath.split('.');
   let current = data;
@@ -522,7 +878,8 @@ async function generatePDFReport(data: ReportData, standard: ReportStandard, fil
     doc.moveDown(0.5);
     doc.fontSize(12)
       .text(`Scope 1: ${roundTo(data.emissions.scope1 / 1000, 2)} tonnes CO2e`)
-      .text(`Scope 2: ${roundTo(data.emissions.scope2 / 1000, 2)} tonnes CO2e`)
+      .text(`Scope 2 (location-based): ${roundTo(data.emissions.scope2 / 1000, 2)} tonnes CO2e`)
+      .text(`Scope 2 (market-based): ${data.scope2 ? `${roundTo(data.scope2.marketBased / 1000, 2)} tonnes CO2e` : 'n/a'}`)
       .text(`Scope 3: ${roundTo(data.emissions.scope3 / 1000, 2)} tonnes CO2e`)
       .text(`Total: ${roundTo(data.emissions.total / 1000, 2)} tonnes CO2e`);
     doc.moveDown();
@@ -536,13 +893,56 @@ async function generatePDFReport(data: ReportData, standard: ReportStandard, fil
       doc.moveDown();
     }
 
+    // Scope 2 quality criteria
+    if (data.scope2) {
+      doc.fontSize(14).text(`Scope 2 Quality Criteria: ${formatQualityStatus(data.scope2.qualityCheck.status)}`);
+      doc.fontSize(10).text(
+        `  Electricity: ${roundTo(data.scope2.electricityKwh / 1000, 2)} MWh, ` +
+        `covered by contractual instruments: ${roundTo(data.scope2.coveredKwh / 1000, 2)} MWh`
+      );
+      for (const item of data.scope2.qualityCheck.criteria) {
+        doc.fontSize(10).text(`  ${formatFieldName(item.criterion)}: ${formatQualityStatus(item.status)} - ${item.message}`);
+      }
+      doc.moveDown();
+    }
+
+    // Emissions by gas
+    if (data.emissions.byGas.length > 0) {
+      doc.fontSize(14).text(`Emissions by Greenhouse Gas (GWP: IPCC ${data.emissions.gwpSet}):`);
+      for (const row of data.emissions.byGas) {
+        const mass = row.massKg !== null ? `${roundTo(row.massKg / 1000, 4)} t x GWP ${row.gwp} = ` : '';
+        doc.fontSize(10).text(`  ${row.gas}: ${mass}${roundTo(row.co2eKg / 1000, 2)} tonnes CO2e`);
+      }
+      doc.moveDown();
+    }
+
+    // Land-sector and biogenic flows; the last three are outside the totals above
+    const landSector = data.landSector;
+    if (landSector && Object.entries(landSector).some(([key, value]) => key !== 'fossil' && value !== 0)) {
+      doc.fontSize(14).text('Land Sector and Biogenic Carbon:');
+      doc.fontSize(10)
+        .text(`  Fossil: ${roundTo(landSector.fossil / 1000, 2)} tonnes CO2e`)
+        .text(`  Managed soils (N2O, urea CO2): ${roundTo(landSector.managedSoils / 1000, 2)} tonnes CO2e`)
+        .text(`  Residue burning (CH4, N2O): ${roundTo(landSector.residueBurning / 1000, 2)} tonnes CO2e`)
+        .text(`  Direct land-use change: ${roundTo(landSector.landUseChange / 1000, 2)} tonnes CO2e`)
+        .text(`  Biomass combustion (CH4, N2O): ${roundTo(landSector.biomassCombustion / 1000, 2)} tonnes CO2e`)
+        .text('  Reported separately, not included in the totals:')
+        .text(`    Biogenic CO2 emissions: ${roundTo(landSector.biogenicCo2Emissions / 1000, 2)} tonnes CO2`)
+        .text(`    Biogenic removals: ${roundTo(landSector.biogenicRemovals / 1000, 2)} tonnes CO2`)
+        .text(`    Indirect land-use change: ${roundTo(landSector.indirectLandUseChange / 1000, 2)} tonnes CO2e`);
+      doc.moveDown();
+    }
+
     // CFP/CFO if available
     if (data.cfp) {
       doc.fontSize(14).text('Carbon Footprint of Product (CFP):');
-      doc.fontSize(10)
-        .text(`  Product: ${data.cfp.productName}`)
-        .text(`  CFP Total: ${roundTo(data.cfp.cfpTotal / 1000, 2)} tonnes CO2e`)
-        .text(`  CFP per Unit: ${roundTo(data.cfp.cfpPerUnit, 4)} kg CO2e/${data.cfp.functionalUnit}`);
+      const products = data.cfp.products?.length ? data.cfp.products : [data.cfp];
+      for (const product of products) {
+        doc.fontSize(10)
+          .text(`  Product: ${product.productName}`)
+          .text(`  CFP Total: ${roundTo(product.cfpTotal / 1000, 2)} tonnes CO2e`)
+          .text(`  CFP per Unit: ${roundTo(product.cfpPerUnit, 4)} kg CO2e/${product.functionalUnit}`);
+      }
       doc.moveDown();
     }
 
@@ -551,6 +951,29 @@ async function generatePDFReport(data: ReportData, standard: ReportStandard, fil
       doc.fontSize(10)
         .text(`  Organization: ${data.cfo.organizationName}`)
         .text(`  CFO Total: ${roundTo(data.cfo.cfoTotal / 1000, 2)} tonnes CO2e`);
+      if (data.cfo.consolidationMethod) {
+        doc.text(`  Consolidation Approach: ${formatFieldName(data.cfo.consolidationMethod)}`);
+      }
+      // Totals under the other approaches are disclosed alongside (Scope 2 location-based)
+      for (const [method, totals] of Object.entries(data.cfo.approachTotals || {})) {
+        if (totals && method !== data.cfo.consolidationMethod) {
+          doc.text(`  Under ${formatFieldName(method)}: ${roundTo(totals.total / 1000, 2)} tonnes CO2e`);
+        }
+      }
+      doc.moveDown();
+    }
+
+    if (data.baseYear?.restatement) {
+      const restatement = data.baseYear.restatement;
+      doc.fontSize(14).text(`Base Year ${data.baseYear.year} Restatement:`);
+      doc.fontSize(10)
+        .text(`  Originally reported: ${roundTo(data.baseYear.originalTotal / 1000, 2)} tonnes CO2e`)
+        .text(`  Restated: ${roundTo(restatement.restatedTotal / 1000, 2)} tonnes CO2e`)
+        .text(`  Reason: ${restatement.reason}`)
+        .text(`  Significance threshold: ${data.baseYear.significanceThresholdPercent}%`);
+      for (const change of restatement.changes.filter((c) => !c.excluded)) {
+        doc.text(`  - ${formatFieldName(change.changeType)}: ${change.description} (${roundTo(change.impactKgCo2e / 1000, 2)} tonnes CO2e)`);
+      }
       doc.moveDown();
     }
 
@@ -580,6 +1003,44 @@ async function generatePDFReport(data: ReportData, standard: ReportStandard, fil
   });
 }
 
+async function generateCBAMXmlReport(
+  data: ReportData,
+  filePath: string,
+  validation?: ValidationResult
+): Promise<void> {
+  const report = data.standardSpecific?.quarterlyReport as cbamXmlService.CBAMQuarterlyReport | undefined;
+  if (!report) {
+    throw new BadRequestError('No CBAM quarterly report data available');
+  }
+
+  const xml = cbamXmlService.buildQuarterlyReportXml(report);
+  const schemaCheck = await cbamXmlService.validateQuarterlyReportXml(xml);
+
+  // The bundled schema covers only the elements we fill, so a pass is no registry sign-off
+  validation?.warnings.push({
+    field: 'xml',
+    message: 'Checked against a partial structure schema only, not the official CBAM registry QReport XSD',
+    severity: 'warning',
+  });
+
+  // The file is kept as a draft so the user can see what the registry would reject
+  if (!schemaCheck.valid) {
+    logger.warn(`CBAM XML for project ${data.project.id} failed the partial schema check`, { errors: schemaCheck.errors.length });
+    if (validation) {
+      validation.valid = false;
+      for (const error of schemaCheck.errors) {
+        validation.errors.push({
+          field: error.line ? `xml:${error.line}` : 'xml',
+          message: error.message,
+          severity: 'error',
+        });
+      }
+    }
+  }
+
+  await fs.promises.writeFile(filePath, xml, 'utf8');
+}
+
 async function generateExcelReport(data: ReportData, standard: ReportStandard, filePath: string): Promise<void> {
   const workbook = XLSX.utils.book_new();
 
@@ -592,15 +1053,27 @@ async function generateExcelReport(data: ReportData, standard: ReportStandard, f
     ['Reporting Year', data.project.reportingYear],
     ['Baseline Year', data.project.baselineYear],
     ['Standard', getStandardName(standard)],
+    ['GWP Set', `IPCC ${data.emissions.gwpSet}`],
     ['Generated', new Date().toISOString()],
     [''],
     ['Emissions Summary (tonnes CO2e)'],
     ['Scope 1', roundTo(data.emissions.scope1 / 1000, 2)],
-    ['Scope 2', roundTo(data.emissions.scope2 / 1000, 2)],
+    ['Scope 2 (location-based)', roundTo(data.emissions.scope2 / 1000, 2)],
+    ['Scope 2 (market-based)', data.scope2 ? roundTo(data.scope2.marketBased / 1000, 2) : ''],
     ['Scope 3', roundTo(data.emissions.scope3 / 1000, 2)],
     ['Total', roundTo(data.emissions.total / 1000, 2)],
   ];
 
+  if (data.baseYear?.restatement) {
+    summaryData.push(
+      [''],
+      [`Base Year ${data.baseYear.year} Restatement (tonnes CO2e)`],
+      ['Originally Reported', roundTo(data.baseYear.originalTotal / 1000, 2)],
+      ['Restated', roundTo(data.baseYear.restatement.restatedTotal / 1000, 2)],
+      ['Reason', data.baseYear.restatement.reason],
+    );
+  }
+
   const summarySheet = XLSX.utils.aoa_to_sheet(summaryData);
   XLSX.utils.book_append_sheet(workbook, summarySheet, 'Summary');
 
@@ -635,6 +1108,53 @@ async function generateExcelReport(data: ReportData, standard: ReportStandard, f
     XLSX.utils.book_append_sheet(workbook, scope3Sheet, 'Scope 3 Categories');
   }
 
+  // Scope 2 dual reporting sheet
+  if (data.scope2) {
+    const scope2Data = [
+      ['Scope 2 Dual Reporting'],
+      [''],
+      ['Country', 'Electricity (MWh)', 'Covered (MWh)', 'Location-based (tonnes CO2e)', 'Market-based (tonnes CO2e)', 'Residual Mix (kg CO2e/kWh)', 'Residual Mix Source'],
+      ...data.scope2.byCountry.map((c) => [
+        c.country,
+        roundTo(c.electricityKwh / 1000, 3),
+        roundTo(c.coveredKwh / 1000, 3),
+        roundTo(c.locationBased / 1000, 4),
+        roundTo(c.marketBased / 1000, 4),
+        c.residualMixFactor,
+        c.residualMixSource,
+      ]),
+      [''],
+      [`Quality Criteria: ${formatQualityStatus(data.scope2.qualityCheck.status)}`],
+      ['Criterion', 'Status', 'Details'],
+      ...data.scope2.qualityCheck.criteria.map((item) => [
+        formatFieldName(item.criterion),
+        formatQualityStatus(item.status),
+        item.message,
+      ]),
+    ];
+
+    const scope2Sheet = XLSX.utils.aoa_to_sheet(scope2Data);
+    XLSX.utils.book_append_sheet(workbook, scope2Sheet, 'Scope 2');
+  }
+
+  // Greenhouse gas breakdown sheet
+  if (data.emissions.byGas.length > 0) {
+    const gasData = [
+      [`GWP Set: IPCC ${data.emissions.gwpSet} (100-year)`],
+      [''],
+      ['Gas', 'Mass (tonnes)', 'GWP', 'Emissions (tonnes CO2e)'],
+      ...data.emissions.byGas.map((row) => [
+        row.gas,
+        row.massKg !== null ? roundTo(row.massKg / 1000, 6) : '',
+        row.gwp ?? '',
+        roundTo(row.co2eKg / 1000, 4),
+      ]),
+    ];
+
+    const gasSheet = XLSX.utils.aoa_to_sheet(gasData);
+    XLSX.utils.book_append_sheet(workbook, gasSheet, 'GHG Breakdown');
+  }
+
   // Standard-specific sheet
   if (data.standardSpecific) {
     const specificData = [
@@ -672,6 +1192,10 @@ function formatFieldName(name: string): string {
     .replace(/_/g, ' ');
 }
 
+function formatQualityStatus(status: string): string {
+  return status === 'not_applicable' ? 'N/A' : status.toUpperCase();
+}
+
 function formatValue(value: any): string {
   if (Array.isArray(value)) {
     return value.join(', ');
@@ -704,6 +1228,17 @@ interface ReportData {
     scope3: number;
     scope3Categories: Record<string, number>;
     total: number;
+    gwpSet: GWPSet;
+    byGas: gwpService.GasBreakdownRow[];
+  };
+  landSector: LandSectorFlows;
+  scope2?: {
+    locationBased: number;
+    marketBased: number;
+    electricityKwh: number;
+    coveredKwh: number;
+    byCountry: scope2Service.Scope2CountryResult[];
+    qualityCheck: Scope2QualityCheck;
   };
   activities: Array<{
     name: string;
@@ -719,10 +1254,32 @@ interface ReportData {
     functionalUnit: string;
     cfpTotal: number;
     cfpPerUnit: number;
+    // Each product of the latest run, when the project models products
+    products?: Array<{
+      productName: string;
+      functionalUnit: string;
+      cfpTotal: number;
+      cfpPerUnit: number;
+    }>;
   } | null;
   cfo?: {
     organizationName: string;
     cfoTotal: number;
+    consolidationMethod?: ConsolidationMethod;
+    approachTotals?: Partial<Record<ConsolidationMethod, ApproachTotals>>; // K-ESG and Thai ESG group reporting
+  } | null;
+  baseYear?: {
+    year: number;
+    originalTotal: number;       // kgCO2e as first calculated
+    restatement: {
+      restatedTotal: number;
+      restatedAt: string;
+      reason: string;
+      changes: Array<{ changeType: string; description: string; impactKgCo2e: number; excluded: boolean }>;
+    } | null;
+    significanceThresholdPercent: number;
+    recalculationPending: boolean; // changes above the threshold not yet restated
+    pendingReason: string | null;
   } | null;
   generatedAt: string;
   standard: ReportStandard;
@@ -749,12 +1306,22 @@ interface ReportOptions {
   cnCode?: string;
   countryOfOrigin?: string;
   carbonPricePaid?: number;
+  carbonPriceType?: 'tax' | 'ets';
+  carbonPriceCurrency?: string;
+  importedQuantity?: number;
+  reportingQuarter?: 1 | 2 | 3 | 4;
+  eoriNumber?: string;
+  declarantName?: string;
+  declarantCountry?: string;
+  operatorId?: string;
+  installationId?: string;
   ukCommodityCode?: string;
   ukCarbonPriceEquivalent?: number;
   overseasCarbonPrice?: number;
   unifiedSocialCreditCode?: string;
   facilityType?: string;
   emissionAllowance?: number;
+  ccerOffset?: number;
   complianceStatus?: string;
   businessRegistrationNumber?: string;
   governanceStructure?: string;
@@ -0,0 +1,437 @@
+/**
+ * Scenario Service
+ *
+ * What-if scenarios. A scenario takes a snapshot of the project's calculated
+ * activities and overlays adjustments on it, in order: a different grid
+ * factor, a fuel switch, a higher renewable share, a new supplier or a lower
+ * quantity. The snapshot and the results live in scenario tables, so the live
+ * activities and cfo_results are never touched.
+ *
+ * Activities no adjustment touches keep their calculated emissions. A quantity
+ * change alone scales them. Any change of factor recalculates the activity
+ * with the same arithmetic as a live calculation. The actual inventory is
+ * summarised from the snapshot with the same consolidation and Scope 2 steps,
+ * so the comparison only shows the effect of the adjustments.
+ */
+
+import { db } from '../config/database';
+import { roundTo } from '../utils/helpers';
+import * as calculationRunService from './calculationRunService';
+import * as consolidationService from './consolidationService';
+import * as factorMatchingService from './factorMatchingService';
+import * as ghgService from './ghgService';
+import * as gwpService from './gwpService';
+import * as productService from './productService';
+import * as scope2Service from './scope2Service';
+import * as unitService from './unitService';
+import type {
+  AppliedFactor,
+  ContractualInstrument,
+  GasBreakdown,
+  Scenario,
+  ScenarioActivityMatch,
+  ScenarioAdjustment,
+  ScenarioAdjustmentType,
+  ScenarioComparisonLine,
+  ScenarioInventory,
+} from '../types';
+
+export const SCENARIO_ADJUSTMENT_TYPES: ScenarioAdjustmentType[] = [
+  'grid_factor',
+  'fuel_switch',
+  'renewable_share',
+  'supplier_change',
+  'quantity_reduction',
+];
+
+// Same split as the live CFO calculation
+const UPSTREAM_CATEGORIES = [
+  'purchased_goods', 'capital_goods', 'fuel_energy', 'upstream_transport',
+  'waste', 'business_travel', 'employee_commuting', 'upstream_leased',
+];
+
+export interface ActivityOverlay {
+  activity: any;                 // the snapshot with the adjustments applied
+  quantityScale: number;         // scenario quantity over snapshot quantity
+  factor: AppliedFactor | null;  // factor set by an adjustment
+  recalculate: boolean;          // the factor changed, so emissions are recalculated
+  applied: string[];             // labels of the adjustments that changed the activity
+}
+
+export interface ScenarioActivityResult {
+  scenarioActivityId: string;
+  activityId: string | null;
+  name: string;
+  scope: string;
+  activityType: string;
+  quantity: number;
+  unit: string;
+  actualKgCo2e: number;
+  scenarioKgCo2e: number;
+  gasBreakdown: GasBreakdown | null;
+  factor: any;
+  appliedAdjustments: string[];
+  status: 'calculated' | 'error';
+  error?: string;
+}
+
+export function toScenario(row: any): Scenario {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    name: row.name,
+    description: row.description || null,
+    reportingYear: row.reporting_year,
+    consolidationMethod: consolidationService.isConsolidationMethod(row.consolidation_method)
+      ? row.consolidation_method
+      : consolidationService.DEFAULT_CONSOLIDATION_METHOD,
+    adjustments: row.adjustments || [],
+    status: row.status,
+    snapshotAt: row.snapshot_at ? new Date(row.snapshot_at).toISOString() : null,
+    calculatedAt: row.calculated_at ? new Date(row.calculated_at).toISOString() : null,
+  };
+}
+
+/**
+ * Whether an activity meets every criterion given; an empty match covers all
+ */
+export function matchesActivity(match: ScenarioActivityMatch | undefined, activity: any): boolean {
+  if (!match) return true;
+  if (match.activityIds?.length && !match.activityIds.includes(activity.id)) return false;
+  if (match.activityTypes?.length && !match.activityTypes.includes(activity.activity_type)) return false;
+  if (match.scopes?.length && !match.scopes.includes(activity.scope)) return false;
+  if (match.scope3Categories?.length && !match.scope3Categories.includes(activity.scope3_category)) return false;
+  if (match.facilityIds?.length && !match.facilityIds.includes(activity.facility_id)) return false;
+  return true;
+}
+
+// Country of consumption, as Scope 2 determines it
+function activityCountry(activity: any, defaultCountry: string | null): string | null {
+  return activity.metadata?.country || activity.facility_country || defaultCountry;
+}
+
+function sameCountry(a?: string | null, b?: string | null): boolean {
+  return !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+export function adjustmentLabel(adjustment: ScenarioAdjustment): string {
+  if (adjustment.label) return adjustment.label;
+  switch (adjustment.type) {
+    case 'grid_factor':
+      return `Grid factor ${adjustment.factorKgCo2ePerKwh} kgCO2e/kWh${adjustment.country ? ` in ${adjustment.country}` : ''}`;
+    case 'fuel_switch':
+      return `Switch ${adjustment.fromActivityType} to ${adjustment.toActivityType}`;
+    case 'renewable_share':
+      return `Renewable share ${adjustment.targetPercent}%${adjustment.country ? ` in ${adjustment.country}` : ''}`;
+    case 'supplier_change':
+      return `Supplier ${adjustment.supplierName}`;
+    case 'quantity_reduction':
+      return `Reduce quantity by ${adjustment.percent}%`;
+  }
+}
+
+/**
+ * Apply the adjustments to one snapshot activity, in order. Renewable share
+ * works on market-based Scope 2 as a whole and changes no activity.
+ */
+export function overlayActivity(
+  snapshot: any,
+  adjustments: ScenarioAdjustment[],
+  defaultCountry: string | null = null
+): ActivityOverlay {
+  const activity = { ...snapshot, metadata: { ...(snapshot.metadata || {}) } };
+  const overlay: ActivityOverlay = { activity, quantityScale: 1, factor: null, recalculate: false, applied: [] };
+
+  for (const adjustment of adjustments) {
+    switch (adjustment.type) {
+      case 'quantity_reduction': {
+        if (!matchesActivity(adjustment.match, activity)) break;
+        const scale = 1 - adjustment.percent / 100;
+        activity.quantity = parseFloat(activity.quantity) * scale;
+        overlay.quantityScale *= scale;
+        overlay.applied.push(adjustmentLabel(adjustment));
+        break;
+      }
+      case 'fuel_switch': {
+        if (activity.activity_type !== adjustment.fromActivityType || !matchesActivity(adjustment.match, activity)) break;
+        activity.activity_type = adjustment.toActivityType;
+        activity.unit = adjustment.toUnit || activity.unit;
+        activity.quantity = parseFloat(activity.quantity) * (adjustment.conversionRatio ?? 1);
+        overlay.quantityScale *= adjustment.conversionRatio ?? 1;
+        // The new fuel is matched to its own factor
+        overlay.factor = null;
+        overlay.recalculate = true;
+        overlay.applied.push(adjustmentLabel(adjustment));
+        break;
+      }
+      case 'grid_factor': {
+        if (scope2Service.getElectricityKwh(activity) === null || !matchesActivity(adjustment.match, activity)) break;
+        if (adjustment.country && !sameCountry(activityCountry(activity, defaultCountry), adjustment.country)) break;
+        const kwhPerUnit = unitService.convertQuantity(1, activity.unit, 'kwh');
+        overlay.factor = {
+          ...calculationRunService.customFactor(adjustment.factorKgCo2ePerKwh * kwhPerUnit, activity.unit),
+          source: 'scenario: grid factor',
+        };
+        overlay.recalculate = true;
+        overlay.applied.push(adjustmentLabel(adjustment));
+        break;
+      }
+      case 'supplier_change': {
+        if (!matchesActivity(adjustment.match, activity)) break;
+        const perActivityUnit = adjustment.unit ? unitService.convertQuantity(1, activity.unit, adjustment.unit) : 1;
+        overlay.factor = {
+          ...calculationRunService.customFactor(adjustment.factorKgCo2ePerUnit * perActivityUnit, activity.unit),
+          source: `scenario: supplier ${adjustment.supplierName}`,
+        };
+        activity.metadata.supplierName = adjustment.supplierName;
+        overlay.recalculate = true;
+        overlay.applied.push(adjustmentLabel(adjustment));
+        break;
+      }
+      case 'renewable_share':
+        break;
+    }
+  }
+
+  return overlay;
+}
+
+function scaleBreakdown(raw: unknown, scale: number): GasBreakdown | null {
+  const breakdown = gwpService.parseGasBreakdown(raw);
+  if (!breakdown) return null;
+  return {
+    gwpSet: breakdown.gwpSet,
+    gases: gwpService.scaleGasAmounts(breakdown.gases, scale),
+    unspecifiedCo2e: breakdown.unspecifiedCo2e * scale,
+  };
+}
+
+/**
+ * Zero-emission instruments that bring contractual coverage of electricity up
+ * to each renewable share target, per country of consumption
+ */
+export function renewableTopUps(
+  scope2: scope2Service.Scope2Result,
+  adjustments: ScenarioAdjustment[],
+  reportingYear: number
+): ContractualInstrument[] {
+  const instruments: ContractualInstrument[] = [];
+
+  for (const entry of scope2.byCountry) {
+    // The last renewable share adjustment for a country wins
+    const target = adjustments
+      .filter((a): a is Extract<ScenarioAdjustment, { type: 'renewable_share' }> => a.type === 'renewable_share')
+      .filter((a) => !a.country || sameCountry(a.country, entry.country))
+      .pop();
+    if (!target) continue;
+
+    const topUpKwh = (entry.electricityKwh * target.targetPercent) / 100 - entry.coveredKwh;
+    if (topUpKwh <= 0) continue;
+
+    instruments.push({
+      id: `scenario:${entry.country}`,
+      type: 'ppa',
+      quantityKwh: roundTo(topUpKwh, 4),
+      emissionFactor: 0,
+      supplier: 'Scenario',
+      country: entry.country,
+      vintageYear: reportingYear,
+      retired: true,
+    });
+  }
+
+  return instruments;
+}
+
+/**
+ * CFO by scope from the consolidated activities and CFP by lifecycle stage
+ * from all activities, with the mapping the live calculations use
+ */
+export function summarizeInventory(
+  activities: any[],
+  consolidated: any[],
+  scope2: { locationBased: number; marketBased: number }
+): ScenarioInventory {
+  const lifecycleStages = productService.emptyStages();
+  for (const activity of activities) {
+    lifecycleStages[productService.lifecycleStageOf(activity)] += parseFloat(activity.total_emissions_kg_co2e) || 0;
+  }
+
+  let scope1 = 0;
+  let scope3Upstream = 0;
+  let scope3Downstream = 0;
+  const scope3CategoryBreakdown: Record<string, number> = {};
+  for (const activity of consolidated) {
+    const emissions = parseFloat(activity.total_emissions_kg_co2e) || 0;
+    if (activity.scope === 'scope1') {
+      scope1 += emissions;
+    } else if (activity.scope === 'scope3') {
+      const category = activity.scope3_category || 'other';
+      scope3CategoryBreakdown[category] = (scope3CategoryBreakdown[category] || 0) + emissions;
+      if (UPSTREAM_CATEGORIES.includes(category)) {
+        scope3Upstream += emissions;
+      } else {
+        scope3Downstream += emissions;
+      }
+    }
+  }
+
+  const cfpTotal = Object.values(lifecycleStages).reduce((sum, value) => sum + value, 0);
+  return {
+    scope1: roundTo(scope1, 4),
+    scope2Location: roundTo(scope2.locationBased, 4),
+    scope2Market: roundTo(scope2.marketBased, 4),
+    scope3Upstream: roundTo(scope3Upstream, 4),
+    scope3Downstream: roundTo(scope3Downstream, 4),
+    scope3CategoryBreakdown: Object.fromEntries(
+      Object.entries(scope3CategoryBreakdown).map(([category, value]) => [category, roundTo(value, 4)])
+    ),
+    // Location-based in the total; market-based is reported alongside
+    cfoTotal: roundTo(scope1 + scope2.locationBased + scope3Upstream + scope3Downstream, 4),
+    lifecycleStages: Object.fromEntries(
+      Object.entries(lifecycleStages).map(([stage, value]) => [stage, roundTo(value, 4)])
+    ) as ScenarioInventory['lifecycleStages'],
+    cfpTotal: roundTo(cfpTotal, 4),
+  };
+}
+
+export function compareInventories(
+  actual: ScenarioInventory,
+  scenario: ScenarioInventory
+): Record<'scope1' | 'scope2Location' | 'scope2Market' | 'scope3' | 'cfoTotal' | 'cfpTotal', ScenarioComparisonLine> {
+  const line = (a: number, s: number): ScenarioComparisonLine => ({
+    actual: roundTo(a, 4),
+    scenario: roundTo(s, 4),
+    change: roundTo(s - a, 4),
+    changePercent: a !== 0 ? roundTo(((s - a) / a) * 100, 2) : null,
+  });
+
+  return {
+    scope1: line(actual.scope1, scenario.scope1),
+    scope2Location: line(actual.scope2Location, scenario.scope2Location),
+    scope2Market: line(actual.scope2Market, scenario.scope2Market),
+    scope3: line(actual.scope3Upstream + actual.scope3Downstream, scenario.scope3Upstream + scenario.scope3Downstream),
+    cfoTotal: line(actual.cfoTotal, scenario.cfoTotal),
+    cfpTotal: line(actual.cfpTotal, scenario.cfpTotal),
+  };
+}
+
+/**
+ * Calculated activities of a project as they stand, for a scenario snapshot
+ */
+export async function snapshotActivities(projectId: string): Promise<any[]> {
+  const result = await db.query(
+    `SELECT a.*, f.country AS facility_country, f.grid_region AS facility_grid_region, f.entity_id AS facility_entity_id
+     FROM activities a
+     LEFT JOIN facilities f ON f.id = a.facility_id
+     WHERE a.project_id = $1 AND a.calculation_status = 'calculated'
+     ORDER BY a.scope, a.created_at`,
+    [projectId]
+  );
+  return result.rows;
+}
+
+/**
+ * Calculate a scenario from its snapshot rows. Nothing is stored; an activity
+ * that fails to recalculate keeps its actual emissions and reports the error.
+ */
+export async function calculateScenario(
+  scenario: Scenario,
+  rows: Array<{ id: string; activity_id: string | null; snapshot: any }>
+): Promise<{
+  activities: ScenarioActivityResult[];
+  actual: ScenarioInventory;
+  scenario: ScenarioInventory;
+  comparison: ReturnType<typeof compareInventories>;
+  renewableInstruments: ContractualInstrument[];
+}> {
+  const projectId = scenario.projectId;
+  const gwpSet = await ghgService.getProjectGWPSet(projectId);
+  const project = await calculationRunService.loadMatchProject(projectId);
+  const entities = await consolidationService.getProjectEntities(projectId);
+  const defaultCountry = project?.country || null;
+
+  const results: ScenarioActivityResult[] = [];
+  const scenarioActivities: any[] = [];
+
+  for (const row of rows) {
+    const snapshot = row.snapshot;
+    const actualKgCo2e = parseFloat(snapshot.total_emissions_kg_co2e) || 0;
+    let overlay: ActivityOverlay | null = null;
+    let totalEmissions = actualKgCo2e;
+    let gasBreakdown: GasBreakdown | null = gwpService.parseGasBreakdown(snapshot.gas_breakdown);
+    let factor: any = snapshot.emission_factor_used || null;
+    let error: string | undefined;
+
+    try {
+      overlay = overlayActivity(snapshot, scenario.adjustments, defaultCountry);
+      if (overlay.recalculate) {
+        const applied = overlay.factor || (await calculationRunService.resolveActivityFactor(
+          overlay.activity,
+          gwpSet,
+          factorMatchingService.activityMatchContext(overlay.activity, project)
+        )).applied;
+        const computed = calculationRunService.computeEmissions(
+          parseFloat(overlay.activity.quantity),
+          applied,
+          gwpSet,
+          calculationRunService.tierMultiplierFor(overlay.activity.tier_level)
+        );
+        totalEmissions = computed.totalEmissions;
+        gasBreakdown = computed.gasBreakdown;
+        factor = { factor: applied.factor, source: applied.source, factorUnit: applied.unit, reference: applied.reference };
+      } else if (overlay.applied.length > 0) {
+        totalEmissions = roundTo(actualKgCo2e * overlay.quantityScale, 4);
+        gasBreakdown = scaleBreakdown(snapshot.gas_breakdown, overlay.quantityScale);
+      }
+    } catch (err: any) {
+      error = err.message;
+      overlay = null;
+    }
+
+    const activity = overlay ? overlay.activity : snapshot;
+    scenarioActivities.push({ ...activity, total_emissions_kg_co2e: error ? actualKgCo2e : totalEmissions, gas_breakdown: gasBreakdown });
+    results.push({
+      scenarioActivityId: row.id,
+      activityId: row.activity_id,
+      name: snapshot.name,
+      scope: snapshot.scope,
+      activityType: activity.activity_type,
+      quantity: roundTo(parseFloat(activity.quantity) || 0, 6),
+      unit: activity.unit,
+      actualKgCo2e: roundTo(actualKgCo2e, 4),
+      scenarioKgCo2e: roundTo(error ? actualKgCo2e : totalEmissions, 4),
+      gasBreakdown,
+      factor,
+      appliedAdjustments: overlay?.applied || [],
+      status: error ? 'error' : 'calculated',
+      ...(error ? { error } : {}),
+    });
+  }
+
+  const snapshots = rows.map((row) => row.snapshot);
+  const actualConsolidated = consolidationService.consolidateActivities(snapshots, entities, scenario.consolidationMethod).activities;
+  const scenarioConsolidated = consolidationService.consolidateActivities(scenarioActivities, entities, scenario.consolidationMethod).activities;
+  const scope2Options = { country: project?.country, reportingYear: scenario.reportingYear };
+
+  const actualScope2 = await scope2Service.calculateProjectScope2(projectId, actualConsolidated, scope2Options);
+  let scenarioScope2 = await scope2Service.calculateProjectScope2(projectId, scenarioConsolidated, scope2Options);
+  const renewableInstruments = renewableTopUps(scenarioScope2, scenario.adjustments, scenario.reportingYear);
+  if (renewableInstruments.length > 0) {
+    scenarioScope2 = await scope2Service.calculateProjectScope2(projectId, scenarioConsolidated, {
+      ...scope2Options,
+      additionalInstruments: renewableInstruments,
+    });
+  }
+
+  const actual = summarizeInventory(snapshots, actualConsolidated, actualScope2);
+  const scenarioInventory = summarizeInventory(scenarioActivities, scenarioConsolidated, scenarioScope2);
+
+  return {
+    activities: results,
+    actual,
+    scenario: scenarioInventory,
+    comparison: compareInventories(actual, scenarioInventory),
+    renewableInstruments,
+  };
+}
@@ -0,0 +1,337 @@
+import { db } from '../config/database';
+import { roundTo } from '../utils/helpers';
+import * as ghgService from './ghgService';
+import * as unitService from './unitService';
+import type {
+  ContractualInstrument,
+  Scope2QualityCheck,
+  Scope2QualityCheckItem,
+  Scope2QualityCriterion,
+  Scope2QualityStatus,
+} from '../types';
+
+// Energy attribute certificates must carry certificate IDs and be retired
+const CERTIFICATE_TYPES: ContractualInstrument['type'][] = ['rec', 'i_rec', 'goo'];
+
+// Vintages this many years from the reporting year pass with a warning
+const VINTAGE_TOLERANCE_YEARS = 1;
+
+const CRITERIA: Scope2QualityCriterion[] = [
+  'emission_rate',
+  'unique_claim',
+  'retirement',
+  'vintage',
+  'same_market',
+  'supplier_specific',
+  'residual_mix',
+];
+
+const STATUS_RANK: Record<Scope2QualityStatus, number> = {
+  not_applicable: 0,
+  pass: 1,
+  warning: 2,
+  fail: 3,
+};
+
+export interface Scope2CountryResult {
+  country: string;
+  electricityKwh: number;
+  locationBased: number;   // kg CO2e
+  marketBased: number;     // kg CO2e
+  coveredKwh: number;
+  residualKwh: number;
+  residualMixFactor: number;
+  residualMixSource: string;
+  isResidualMix: boolean;
+}
+
+export interface Scope2Result {
+  locationBased: number;   // kg CO2e
+  marketBased: number;     // kg CO2e
+  electricityKwh: number;
+  coveredKwh: number;
+  residualKwh: number;
+  byCountry: Scope2CountryResult[];
+  allocations: Array<{ instrumentId?: string; type: ContractualInstrument['type']; country: string; kwh: number; emissions: number }>;
+  excludedInstrumentIds: string[];
+  qualityCheck: Scope2QualityCheck;
+}
+
+interface QualityContext {
+  reportingYear: number;
+  countries: string[];
+  residualMix?: Array<{ country: string; residualKwh: number; isResidualMix: boolean }>;
+}
+
+function sameCountry(a?: string | null, b?: string | null): boolean {
+  return !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function worstStatus(statuses: Scope2QualityStatus[]): Scope2QualityStatus {
+  return statuses.reduce<Scope2QualityStatus>(
+    (worst, status) => (STATUS_RANK[status] > STATUS_RANK[worst] ? status : worst),
+    'not_applicable'
+  );
+}
+
+/**
+ * Map a contractual_instruments row to the calculation model (volume in kWh)
+ */
+export function mapInstrumentRow(row: any): ContractualInstrument {
+  return {
+    id: row.id,
+    type: row.instrument_type,
+    quantityKwh: parseFloat(row.volume_kwh),
+    emissionFactor: parseFloat(row.emission_factor) || 0,
+    supplier: row.supplier || undefined,
+    country: row.country || undefined,
+    vintageYear: row.vintage_year ?? undefined,
+    certificateIds: row.certificate_ids || [],
+    trackingSystem: row.tracking_system || undefined,
+    retired: !!row.retired,
+  };
+}
+
+/**
+ * Contractual instruments claimed for a project's reporting year
+ */
+export async function getProjectInstruments(
+  projectId: string,
+  reportingYear: number
+): Promise<ContractualInstrument[]> {
+  const result = await db.query(
+    `SELECT * FROM contractual_instruments
+     WHERE project_id = $1 AND reporting_year = $2
+     ORDER BY created_at`,
+    [projectId, reportingYear]
+  );
+
+  return result.rows.map(mapInstrumentRow);
+}
+
+/**
+ * Electricity consumption in kWh, or null if the activity is not metered electricity
+ */
+export function getElectricityKwh(activity: { activity_type?: string; quantity?: any; unit?: string }): number | null {
+  if (!/electric/i.test(activity.activity_type || '')) {
+    return null;
+  }
+  const unit = activity.unit || '';
+  if (unitService.getUnitDimension(unit) !== 'energy') {
+    return null;
+  }
+  return unitService.convertQuantity(parseFloat(activity.quantity) || 0, unit, 'kwh');
+}
+
+/**
+ * Assess each instrument against the GHG Protocol Scope 2 Quality Criteria.
+ * Returns the per-criterion check and the instruments that fail at least one
+ * criterion; those must not be applied to market-based emissions.
+ */
+export function checkQualityCriteria(
+  instruments: ContractualInstrument[],
+  context: QualityContext
+): { qualityCheck: Scope2QualityCheck; failedInstrumentIds: Set<string> } {
+  const findings: Record<Scope2QualityCriterion, Array<{ status: Scope2QualityStatus; id: string; message: string }>> = {
+    emission_rate: [],
+    unique_claim: [],
+    retirement: [],
+    vintage: [],
+    same_market: [],
+    supplier_specific: [],
+    residual_mix: [],
+  };
+
+  // Certificate IDs claimed by more than one instrument
+  const seen = new Map<string, number>();
+  for (const instrument of instruments) {
+    for (const certificateId of new Set(instrument.certificateIds || [])) {
+      seen.set(certificateId, (seen.get(certificateId) || 0) + 1);
+    }
+  }
+
+  instruments.forEach((instrument, index) => {
+    const id = instrument.id || `#${index + 1}`;
+    const add = (criterion: Scope2QualityCriterion, status: Scope2QualityStatus, message: string) => {
+      findings[criterion].push({ status, id, message });
+    };
+    const isCertificate = CERTIFICATE_TYPES.includes(instrument.type);
+
+    if (!Number.isFinite(instrument.emissionFactor) || instrument.emissionFactor < 0) {
+      add('emission_rate', 'fail', `${id}: no emission rate conveyed`);
+    } else {
+      add('emission_rate', 'pass', `${id}: ${instrument.emissionFactor} kg CO2e/kWh`);
+    }
+
+    const certificateIds = instrument.certificateIds || [];
+    const duplicates = certificateIds.filter((c) => (seen.get(c) || 0) > 1);
+    if (duplicates.length > 0) {
+      add('unique_claim', 'fail', `${id}: certificates also claimed by another instrument (${duplicates.join(', ')})`);
+    } else if (isCertificate && certificateIds.length === 0) {
+      add('unique_claim', 'fail', `${id}: certificate IDs are required to evidence a unique claim`);
+    } else if (certificateIds.length === 0) {
+      add('unique_claim', 'warning', `${id}: no bundled certificate IDs recorded`);
+    } else {
+      add('unique_claim', 'pass', `${id}: ${certificateIds.length} certificate(s)`);
+    }
+
+    if (instrument.retired) {
+      add('retirement', 'pass', `${id}: retired on behalf of the reporting entity`);
+    } else {
+      add('retirement', isCertificate ? 'fail' : 'warning', `${id}: not retired/cancelled`);
+    }
+
+    if (!instrument.vintageYear) {
+      add('vintage', 'fail', `${id}: vintage not recorded`);
+    } else {
+      const gap = Math.abs(instrument.vintageYear - context.reportingYear);
+      if (gap === 0) {
+        add('vintage', 'pass', `${id}: vintage ${instrument.vintageYear}`);
+      } else if (gap <= VINTAGE_TOLERANCE_YEARS) {
+        add('vintage', 'warning', `${id}: vintage ${instrument.vintageYear} differs from reporting year ${context.reportingYear}`);
+      } else {
+        add('vintage', 'fail', `${id}: vintage ${instrument.vintageYear} too far from reporting year ${context.reportingYear}`);
+      }
+    }
+
+    if (context.countries.some((country) => sameCountry(country, instrument.country))) {
+      add('same_market', 'pass', `${id}: ${instrument.country}`);
+    } else {
+      add('same_market', 'fail', `${id}: ${instrument.country || 'no country'} is outside the markets of consumption (${context.countries.join(', ')})`);
+    }
+
+    if (instrument.type === 'ppa') {
+      add('supplier_specific', instrument.supplier ? 'pass' : 'warning',
+        instrument.supplier ? `${id}: ${instrument.supplier}` : `${id}: PPA counterparty not recorded`);
+    }
+  });
+
+  for (const mix of context.residualMix || []) {
+    if (mix.residualKwh <= 0) continue;
+    findings.residual_mix.push(mix.isResidualMix
+      ? { status: 'pass', id: mix.country, message: `${mix.country}: residual mix applied to uncovered consumption` }
+      : { status: 'warning', id: mix.country, message: `${mix.country}: no residual mix available, grid average used (possible double counting)` });
+  }
+
+  const criteria: Scope2QualityCheckItem[] = CRITERIA.map((criterion) => {
+    const items = findings[criterion];
+    if (items.length === 0) {
+      return { criterion, status: 'not_applicable', message: 'No instruments or consumption to assess' };
+    }
+    const status = worstStatus(items.map((i) => i.status));
+    const flagged = items.filter((i) => i.status === status && status !== 'pass');
+    return {
+      criterion,
+      status,
+      message: (flagged.length > 0 ? flagged : items).map((i) => i.message).join('; '),
+      ...(criterion !== 'residual_mix' && flagged.length > 0 ? { instrumentIds: flagged.map((i) => i.id) } : {}),
+    };
+  });
+
+  const failedInstrumentIds = new Set<string>();
+  for (const criterion of CRITERIA) {
+    if (criterion === 'residual_mix') continue;
+    for (const item of findings[criterion]) {
+      if (item.status === 'fail') failedInstrumentIds.add(item.id);
+    }
+  }
+
+  return {
+    qualityCheck: { status: worstStatus(criteria.map((c) => c.status)), criteria },
+    failedInstrumentIds,
+  };
+}
+
+/**
+ * Dual Scope 2 reporting for a project: location-based totals come from the
+ * calculated activities; market-based applies qualifying instruments to
+ * electricity per country and the residual mix to the remainder.
+ * Additional instruments (e.g. purchases modelled in a scenario) are taken as
+ * qualifying and applied after the project's own.
+ */
+export async function calculateProjectScope2(
+  projectId: string,
+  activities: Array<Record<string, any>>,
+  options: { country?: string | null; reportingYear: number; additionalInstruments?: ContractualInstrument[] }
+): Promise<Scope2Result> {
+  const defaultCountry = options.country || 'Global';
+  const consumption = new Map<string, { electricityKwh: number; locationBased: number }>();
+  let locationBased = 0;
+  let otherScope2 = 0; // steam, heat and cooling: no instruments, market = location
+
+  for (const activity of activities) {
+    if (activity.scope !== 'scope2') continue;
+    const emissions = parseFloat(activity.total_emissions_kg_co2e) || 0;
+    locationBased += emissions;
+
+    const kwh = getElectricityKwh(activity);
+    if (kwh === null) {
+      otherScope2 += emissions;
+      continue;
+    }
+    const country = activity.metadata?.country || activity.facility_country || defaultCountry;
+    const entry = consumption.get(country) || { electricityKwh: 0, locationBased: 0 };
+    entry.electricityKwh += kwh;
+    entry.locationBased += emissions;
+    consumption.set(country, entry);
+  }
+
+  const instruments = await getProjectInstruments(projectId, options.reportingYear);
+  const countries = Array.from(consumption.keys());
+  const { failedInstrumentIds } = checkQualityCriteria(instruments, {
+    reportingYear: options.reportingYear,
+    countries,
+  });
+  const eligible = [
+    ...instruments.filter((i) => !failedInstrumentIds.has(i.id!)),
+    ...(options.additionalInstruments || []),
+  ];
+
+  const byCountry: Scope2CountryResult[] = [];
+  const allocations: Scope2Result['allocations'] = [];
+  let marketBased = otherScope2;
+
+  for (const [country, entry] of consumption) {
+    const residualMix = await ghgService.getResidualMixFactor(country, options.reportingYear);
+    const market = await ghgService.calculateScope2MarketBased(
+      entry.electricityKwh,
+      eligible.filter((i) => sameCountry(i.country, country)),
+      residualMix
+    );
+    marketBased += market.emissions;
+    allocations.push(...market.allocations.map((a) => ({ ...a, country })));
+    byCountry.push({
+      country,
+      electricityKwh: roundTo(entry.electricityKwh, 4),
+      locationBased: roundTo(entry.locationBased, 4),
+      marketBased: market.emissions,
+      coveredKwh: market.coveredKwh,
+      residualKwh: market.residualKwh,
+      residualMixFactor: residualMix.factor,
+      residualMixSource: residualMix.source,
+      isResidualMix: residualMix.isResidualMix,
+    });
+  }
+
+  // Re-run with the residual mix outcome so the report carries the full check
+  const { qualityCheck } = checkQualityCriteria(instruments, {
+    reportingYear: options.reportingYear,
+    countries,
+    residualMix: byCountry.map((c) => ({ country: c.country, residualKwh: c.residualKwh, isResidualMix: c.isResidualMix })),
+  });
+
+  const electricityKwh = byCountry.reduce((sum, c) => sum + c.electricityKwh, 0);
+  const coveredKwh = byCountry.reduce((sum, c) => sum + c.coveredKwh, 0);
+
+  return {
+    locationBased: roundTo(locationBased, 4),
+    marketBased: roundTo(marketBased, 4),
+    electricityKwh: roundTo(electricityKwh, 4),
+    coveredKwh: roundTo(coveredKwh, 4),
+    residualKwh: roundTo(electricityKwh - coveredKwh, 4),
+    byCountry,
+    allocations,
+    excludedInstrumentIds: Array.from(failedInstrumentIds),
+    qualityCheck,
+  };
+}
@@ -0,0 +1,250 @@
+/**
+ * Spend-based Scope 3 Service
+ *
+ * Environmentally-extended input-output (EEIO) factors are published per unit
+ * of one currency at the prices of one base year. Spend recorded in another
+ * currency or year is converted with the annual average exchange rate of the
+ * spend year, then deflated to the base year with the price index of the
+ * factor currency.
+ */
+
+import { db } from '../config/database';
+import { BadRequestError, NotFoundError, UnitConversionError } from '../middleware/errorHandler';
+import * as unitService from './unitService';
+import type { CalculationMethod, EEIOFactorSet, FxRate, PriceIndex } from '../types';
+
+// Relative data quality of the Scope 3 calculation methods, used to weight the quality score
+export const CALCULATION_METHOD_QUALITY: Record<CalculationMethod, number> = {
+  supplier_specific: 1.0,
+  average_data: 0.7,
+  spend_based: 0.4,
+};
+
+// Quality of an activity with no data quality score and no calculation method
+const UNSCORED_QUALITY = 0.3;
+
+/**
+ * Activity quality on a 0-1 scale. The data quality indicator runs from 1
+ * (measured, verified) to 5 (default or proxy data) and maps linearly onto
+ * 1.0-0.4. A Scope 3 estimate is no better than its calculation method allows;
+ * without a score it takes the method's quality.
+ */
+export function activityQuality(dataQualityScore: number | string | null, method: CalculationMethod | null): number {
+  const indicator = dataQualityScore === null || dataQualityScore === '' ? NaN : Number(dataQualityScore);
+  const scored = Number.isFinite(indicator)
+    ? 1 - (Math.min(5, Math.max(1, Math.round(indicator))) - 1) * 0.15
+    : null;
+
+  if (!method) {
+    return scored ?? UNSCORED_QUALITY;
+  }
+  return scored === null
+    ? CALCULATION_METHOD_QUALITY[method]
+    : Math.min(scored, CALCULATION_METHOD_QUALITY[method]);
+}
+
+export interface SpendNormalisation {
+  spendCurrency: string;
+  spendYear: number;
+  currency: string;       // factor set currency
+  baseYear: number;
+  fxRate: number;         // factor currency per spend currency in the spend year
+  deflator: number;       // base year prices per spend year prices
+}
+
+export interface SpendFactorLookup {
+  factor: number;            // kg CO2e per unit of spend currency
+  source: string;
+  unit: string;
+  conversionFactor: number;  // base year factor currency per unit of spend
+  spend: SpendNormalisation & { factorSetId: string; sectorCode: string; sectorFactor: number };
+}
+
+/**
+ * ISO 4217 code of a currency unit ("thb", "baht" -> "THB"), or null
+ */
+export function currencyCode(unit: string): string | null {
+  const definition = unitService.getUnit(unit);
+  return definition?.dimension === 'currency' ? definition.code.toUpperCase() : null;
+}
+
+/**
+ * Exchange rate from one currency to another for a year, crossing through USD
+ */
+export function fxRate(from: string, to: string, year: number, rates: FxRate[]): number {
+  if (from === to) {
+    return 1;
+  }
+
+  const unitsPerUsd = (currency: string): number => {
+    if (currency === 'USD') return 1;
+    const rate = rates.find((r) => r.currency === currency && r.year === year);
+    if (!rate) {
+      throw new UnitConversionError(`No ${year} exchange rate for ${currency}; load it under /emission-factors/spend/fx-rates`);
+    }
+    return rate.unitsPerUsd;
+  };
+
+  return unitsPerUsd(to) / unitsPerUsd(from);
+}
+
+/**
+ * Ratio that restates an amount from fromYear prices to toYear prices
+ */
+export function deflator(currency: string, fromYear: number, toYear: number, indices: PriceIndex[]): number {
+  if (fromYear === toYear) {
+    return 1;
+  }
+
+  const indexFor = (year: number): number => {
+    const index = indices.find((i) => i.currency === currency && i.year === year);
+    if (!index) {
+      throw new UnitConversionError(`No ${year} price index for ${currency}; load it under /emission-factors/spend/price-indices`);
+    }
+    return index.value;
+  };
+
+  return indexFor(toYear) / indexFor(fromYear);
+}
+
+/**
+ * Express one unit of spend in the currency and price year of a factor set
+ */
+export function normaliseSpend(
+  spendCurrency: string,
+  spendYear: number,
+  factorSet: Pick<EEIOFactorSet, 'currency' | 'baseYear'>,
+  rates: FxRate[],
+  indices: PriceIndex[]
+): SpendNormalisation {
+  return {
+    spendCurrency,
+    spendYear,
+    currency: factorSet.currency,
+    baseYear: factorSet.baseYear,
+    fxRate: fxRate(spendCurrency, factorSet.currency, spendYear, rates),
+    deflator: deflator(factorSet.currency, spendYear, factorSet.baseYear, indices),
+  };
+}
+
+/**
+ * Tag the Scope 3 calculation method of an activity. An explicit tag is kept;
+ * otherwise it follows from the factor that was applied.
+ */
+export function resolveCalculationMethod(
+  activity: { scope: string; calculation_method?: CalculationMethod | null },
+  factorSource: 'supplier' | 'spend' | 'transport' | 'land_sector' | 'default'
+): CalculationMethod | null {
+  if (activity.calculation_method) {
+    return activity.calculation_method;
+  }
+  if (activity.scope !== 'scope3') {
+    return null;
+  }
+  if (factorSource === 'supplier') return 'supplier_specific';
+  if (factorSource === 'spend') return 'spend_based';
+  return 'average_data';
+}
+
+export function mapFactorSetRow(row: any): EEIOFactorSet {
+  return {
+    id: row.id,
+    name: row.name,
+    version: row.version,
+    source: row.source,
+    region: row.region,
+    currency: row.currency,
+    baseYear: row.base_year,
+    priceBasis: row.price_basis,
+    isDefault: row.is_default,
+  };
+}
+
+/**
+ * Factor set by id, otherwise the default set, otherwise the latest loaded one
+ */
+export async function getFactorSet(setId?: string): Promise<EEIOFactorSet> {
+  const row = setId
+    ? await db.queryOne(`SELECT * FROM eeio_factor_sets WHERE id = $1`, [setId])
+    : await db.queryOne(`SELECT * FROM eeio_factor_sets ORDER BY is_default DESC, created_at DESC LIMIT 1`);
+
+  if (!row) {
+    throw new NotFoundError(setId ? 'EEIO factor set not found' : 'No EEIO factor set has been loaded');
+  }
+
+  return mapFactorSetRow(row);
+}
+
+/**
+ * Spend-based factor for an activity recorded in a currency with an EEIO sector
+ * code (metadata.eeioSector), or null when the activity is not spend-based.
+ * The spend year is metadata.spendYear, else the project's reporting year.
+ */
+export async function lookupSpendFactor(activity: {
+  project_id: string;
+  unit: string;
+  calculation_method?: CalculationMethod | null;
+  metadata?: any;
+}): Promise<SpendFactorLookup | null> {
+  const spendCurrency = currencyCode(activity.unit);
+  const sectorCode = activity.metadata?.eeioSector;
+
+  if (!spendCurrency || (!sectorCode && activity.calculation_method !== 'spend_based')) {
+    return null;
+  }
+  if (!sectorCode) {
+    throw new BadRequestError('Spend-based activities need an EEIO sector code in metadata.eeioSector');
+  }
+
+  const factorSet = await getFactorSet(activity.metadata?.eeioFactorSetId);
+  const factorRow = await db.queryOne(
+    `SELECT sector_code, sector_name, factor_kg_co2e_per_unit FROM eeio_factors
+     WHERE set_id = $1 AND sector_code = $2`,
+    [factorSet.id, String(sectorCode)]
+  );
+
+  if (!factorRow) {
+    throw new BadRequestError(`Sector "${sectorCode}" is not in ${factorSet.name} ${factorSet.version}`);
+  }
+
+  let spendYear = activity.metadata?.spendYear ? parseInt(activity.metadata.spendYear) : null;
+  if (!spendYear) {
+    const project = await db.queryOne(`SELECT reporting_year FROM projects WHERE id = $1`, [activity.project_id]);
+    spendYear = project.reporting_year as number;
+  }
+
+  const [rates, indices] = await Promise.all([
+    db.query(
+      `SELECT currency, year, units_per_usd FROM fx_rates WHERE year = $1 AND currency = ANY($2)`,
+      [spendYear, [spendCurrency, factorSet.currency]]
+    ),
+    db.query(
+      `SELECT currency, year, index_value FROM price_indices WHERE currency = $1 AND year = ANY($2)`,
+      [factorSet.currency, [spendYear, factorSet.baseYear]]
+    ),
+  ]);
+
+  const normalisation = normaliseSpend(
+    spendCurrency,
+    spendYear,
+    factorSet,
+    rates.rows.map((r) => ({ currency: r.currency, year: r.year, unitsPerUsd: parseFloat(r.units_per_usd) })),
+    indices.rows.map((r) => ({ currency: r.currency, year: r.year, value: parseFloat(r.index_value) }))
+  );
+
+  const sectorFactor = parseFloat(factorRow.factor_kg_co2e_per_unit);
+  const conversionFactor = normalisation.fxRate * normalisation.deflator;
+
+  return {
+    factor: sectorFactor * conversionFactor,
+    source: `${factorSet.name} ${factorSet.version}: ${factorRow.sector_name || factorRow.sector_code}`,
+    unit: factorSet.currency.toLowerCase(),
+    conversionFactor,
+    spend: {
+      ...normalisation,
+      factorSetId: factorSet.id,
+      sectorCode: factorRow.sector_code,
+      sectorFactor,
+    },
+  };
+}
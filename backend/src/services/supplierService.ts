@@ -0,0 +1,210 @@
+/**
+ * Supplier Portal Service
+ *
+ * Invite tokens for external suppliers and conversion of accepted submissions
+ * into Scope 3 activities. Suppliers never get a user account: a token only
+ * opens the submission form of one supplier in one project, and only its
+ * SHA-256 hash is stored.
+ */
+
+import * as crypto from 'crypto';
+import { db } from '../config/database';
+import { config } from '../config/env';
+import { UnauthorizedError } from '../middleware/errorHandler';
+import * as unitService from './unitService';
+import type {
+  ActivityDataPayload,
+  CalculationMethod,
+  GasAmounts,
+  ProductFootprintPayload,
+  Supplier,
+  SupplierInviteContext,
+  SupplierSubmissionType,
+  TierLevel,
+} from '../types';
+
+// Product footprints are supplier-specific product data, activity data still needs our factors
+const DEFAULT_TIER: Record<SupplierSubmissionType, TierLevel> = {
+  product_footprint: 'tier3',
+  activity_data: 'tier2',
+};
+
+const CALCULATION_METHODS: Record<SupplierSubmissionType, CalculationMethod> = {
+  product_footprint: 'supplier_specific',
+  activity_data: 'average_data',
+};
+
+/**
+ * Create a new invite token; the plain token is only ever returned here
+ */
+export function generateInviteToken(): { token: string; tokenHash: string } {
+  const token = crypto.randomBytes(32).toString('base64url');
+  return { token, tokenHash: hashInviteToken(token) };
+}
+
+export function hashInviteToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function inviteUrl(token: string): string {
+  return `${config.supplierPortal.url}/${token}`;
+}
+
+export function inviteExpiry(from: Date = new Date(), days: number = config.supplierPortal.inviteExpiryDays): Date {
+  return new Date(from.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Resolve a portal token to its invite. Revoked and expired invites are rejected
+ * with the same message so a token's existence is not revealed.
+ */
+export async function resolveInvite(token: string): Promise<SupplierInviteContext> {
+  const invite = await db.queryOne(
+    `SELECT i.id, i.supplier_id, i.project_id, i.submission_types, i.reporting_year,
+            i.status, i.expires_at, s.name AS supplier_name
+     FROM supplier_invites i
+     JOIN suppliers s ON s.id = i.supplier_id
+     WHERE i.token_hash = $1`,
+    [hashInviteToken(token)]
+  );
+
+  if (!invite || invite.status === 'revoked' || new Date(invite.expires_at) < new Date()) {
+    throw new UnauthorizedError('Invite link is invalid or has expired');
+  }
+
+  await db.query(`UPDATE supplier_invites SET last_used_at = NOW() WHERE id = $1`, [invite.id]);
+
+  return {
+    inviteId: invite.id,
+    supplierId: invite.supplier_id,
+    supplierName: invite.supplier_name,
+    projectId: invite.project_id,
+    submissionTypes: invite.submission_types,
+    reportingYear: invite.reporting_year,
+  };
+}
+
+export interface SubmissionForReview {
+  id: string;
+  inviteId: string;
+  submissionType: SupplierSubmissionType;
+  payload: ProductFootprintPayload | ActivityDataPayload;
+  submittedAt: Date | string;
+}
+
+export interface SubmissionActivity {
+  name: string;
+  description: string | null;
+  scope: 'scope3';
+  scope3Category: string;
+  activityType: string;
+  quantity: number;
+  unit: string;
+  source: string;
+  tierLevel: TierLevel;
+  tierDirection: 'upstream';
+  calculationMethod: CalculationMethod;
+  dataSource: 'supplier';
+  supplierName: string;
+  supplierTier: number;
+  metadata: Record<string, any>;
+}
+
+/**
+ * Map an accepted submission to a Scope 3 activity with its provenance
+ */
+export function submissionToActivity(
+  submission: SubmissionForReview,
+  supplier: Pick<Supplier, 'id' | 'name' | 'supplierTier'>,
+  review: { reviewedBy: string; reviewedAt: Date; tierLevel?: TierLevel; scope3Category?: string }
+): SubmissionActivity {
+  const provenance = {
+    submissionId: submission.id,
+    inviteId: submission.inviteId,
+    submissionType: submission.submissionType,
+    submittedAt: submission.submittedAt,
+    acceptedBy: review.reviewedBy,
+    acceptedAt: review.reviewedAt,
+  };
+
+  const common = {
+    scope: 'scope3' as const,
+    source: `Supplier portal: ${supplier.name}`,
+    tierLevel: review.tierLevel || DEFAULT_TIER[submission.submissionType],
+    tierDirection: 'upstream' as const,
+    calculationMethod: CALCULATION_METHODS[submission.submissionType],
+    dataSource: 'supplier' as const,
+    supplierName: supplier.name,
+    supplierTier: supplier.supplierTier,
+  };
+
+  if (submission.submissionType === 'product_footprint') {
+    const pcf = submission.payload as ProductFootprintPayload;
+    return {
+      ...common,
+      name: `${supplier.name}: ${pcf.productName}`,
+      description: pcf.notes || null,
+      scope3Category: review.scope3Category || 'purchased_goods',
+      activityType: 'purchased_goods',
+      quantity: pcf.quantity,
+      unit: pcf.declaredUnit,
+      metadata: {
+        supplierId: supplier.id,
+        supplierFactor: {
+          factor: pcf.pcfKgCo2ePerUnit,
+          unit: pcf.declaredUnit,
+          source: `Supplier PCF: ${supplier.name}${pcf.methodology ? ` (${pcf.methodology})` : ''}`,
+        },
+        product: {
+          name: pcf.productName,
+          code: pcf.productCode,
+          methodology: pcf.methodology,
+          primaryDataShare: pcf.primaryDataShare,
+          verified: pcf.verified ?? false,
+        },
+        provenance,
+      },
+    };
+  }
+
+  const data = submission.payload as ActivityDataPayload;
+  return {
+    ...common,
+    name: `${supplier.name}: ${data.activityType}`,
+    description: data.description || data.notes || null,
+    scope3Category: review.scope3Category || data.scope3Category || 'purchased_goods',
+    activityType: data.activityType,
+    quantity: data.quantity,
+    unit: data.unit,
+    metadata: { supplierId: supplier.id, provenance },
+  };
+}
+
+/**
+ * Supplier-specific emission factor (kg CO2e per activity unit) carried by an
+ * activity created from a product footprint, or null
+ */
+export function getSupplierFactor(activity: { unit: string; metadata?: any }): {
+  factor: number;
+  source: string;
+  unit: string;
+  conversionFactor: number;
+  gases?: GasAmounts;
+} | null {
+  const supplierFactor = activity.metadata?.supplierFactor;
+  if (!supplierFactor) {
+    return null;
+  }
+
+  // The activity unit may have been edited after acceptance
+  const conversionFactor = supplierFactor.unit && supplierFactor.unit !== activity.unit
+    ? unitService.convertQuantity(1, activity.unit, supplierFactor.unit)
+    : 1;
+
+  return {
+    factor: parseFloat(supplierFactor.factor) * conversionFactor,
+    source: supplierFactor.source,
+    unit: supplierFactor.unit || activity.unit,
+    conversionFactor,
+  };
+}
@@ -0,0 +1,212 @@
+/**
+ * Target Service
+ *
+ * Emission reduction targets and their decarbonisation pathways. Targets are
+ * absolute (kgCO2e) or intensity (kgCO2e per unit of output or revenue) and
+ * cover any combination of scopes. The pathway is linear from the base year to
+ * the target year, giving one milestone per year.
+ *
+ * SBTi cross-sector pathways set the minimum ambition: a linear annual
+ * reduction of 4.2% of base-year emissions for 1.5°C and 2.5% for well-below
+ * 2°C. Intensity targets apply the same rate to the intensity.
+ *
+ * Actuals are the latest CFO result of each year, with a restated base year
+ * taking the place of the original.
+ */
+
+import { db } from '../config/database';
+import { roundTo } from '../utils/helpers';
+import * as baseYearService from './baseYearService';
+import type {
+  BaseYearInventory,
+  EmissionTarget,
+  TargetMilestone,
+  TargetPathway,
+  TargetProgress,
+  TargetScope,
+  TargetStatus,
+} from '../types';
+
+// Linear annual reduction, % of base-year emissions
+export const SBTI_ANNUAL_REDUCTION: Record<Exclude<TargetPathway, 'custom'>, number> = {
+  sbti_1_5c: 4.2,
+  sbti_wb2c: 2.5,
+};
+
+const PATHWAY_LABELS: Record<TargetPathway, string> = {
+  sbti_1_5c: 'SBTi 1.5°C',
+  sbti_wb2c: 'SBTi well-below 2°C',
+  custom: 'custom',
+};
+
+export function toTarget(row: any): EmissionTarget {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    name: row.name,
+    targetType: row.target_type,
+    scopes: row.scopes || [],
+    scope2Method: row.scope2_method === 'location' ? 'location' : 'market',
+    baseYear: row.base_year,
+    targetYear: row.target_year,
+    pathway: row.pathway,
+    reductionPercent: parseFloat(row.reduction_percent),
+    intensityUnit: row.intensity_unit || null,
+    intensityDenominators: Object.fromEntries(
+      Object.entries(row.intensity_denominators || {}).map(([year, value]) => [year, Number(value)])
+    ),
+  };
+}
+
+/**
+ * Minimum reduction by the target year under a pathway; null for custom targets
+ */
+export function minimumReductionPercent(pathway: TargetPathway, baseYear: number, targetYear: number): number | null {
+  if (pathway === 'custom') {
+    return null;
+  }
+  return roundTo(Math.min(100, SBTI_ANNUAL_REDUCTION[pathway] * (targetYear - baseYear)), 2);
+}
+
+/**
+ * Emissions of the target's scopes in an inventory
+ */
+export function coveredEmissions(inventory: BaseYearInventory, scopes: TargetScope[], scope2Method: 'location' | 'market'): number {
+  let total = 0;
+  if (scopes.includes('scope1')) total += inventory.scope1;
+  if (scopes.includes('scope2')) total += scope2Method === 'market' ? inventory.scope2Market : inventory.scope2Location;
+  if (scopes.includes('scope3')) total += inventory.scope3;
+  return total;
+}
+
+// Value tracked for a year: emissions, or emissions per unit for intensity targets
+function trackedValue(target: EmissionTarget, inventory: BaseYearInventory | undefined, year: number): number | null {
+  if (!inventory) return null;
+  const emissions = coveredEmissions(inventory, target.scopes, target.scope2Method);
+  if (target.targetType === 'absolute') return emissions;
+
+  const denominator = target.intensityDenominators[String(year)];
+  return denominator > 0 ? emissions / denominator : null;
+}
+
+/**
+ * Annual milestones on the linear pathway and the target's status against
+ * the actuals of each year
+ */
+export function trackTarget(target: EmissionTarget, inventories: Map<number, BaseYearInventory>): TargetProgress {
+  const baseValue = trackedValue(target, inventories.get(target.baseYear), target.baseYear);
+  if (baseValue === null) {
+    return {
+      targetId: target.id,
+      baseValue: null,
+      targetValue: null,
+      latestYear: null,
+      latestValue: null,
+      progressPercent: null,
+      status: 'no_data',
+      milestones: [],
+    };
+  }
+
+  const span = target.targetYear - target.baseYear;
+  const targetValue = baseValue * (1 - target.reductionPercent / 100);
+
+  // Latest year after the base year with an actual
+  let latestYear: number | null = null;
+  let latestValue: number | null = null;
+  for (const year of Array.from(inventories.keys()).sort((a, b) => a - b)) {
+    const value = year > target.baseYear ? trackedValue(target, inventories.get(year), year) : null;
+    if (value !== null) {
+      latestYear = year;
+      latestValue = value;
+    }
+  }
+
+  const milestones: TargetMilestone[] = [];
+  for (let year = target.baseYear + 1; year <= target.targetYear; year++) {
+    const reductionPercent = (target.reductionPercent * (year - target.baseYear)) / span;
+    const milestoneValue = baseValue * (1 - reductionPercent / 100);
+    const actualValue = trackedValue(target, inventories.get(year), year);
+
+    let status: TargetMilestone['status'];
+    if (actualValue !== null) {
+      status = actualValue <= milestoneValue ? 'on_track' : 'off_track';
+    } else {
+      status = latestYear !== null && year < latestYear ? 'no_data' : 'upcoming';
+    }
+
+    milestones.push({
+      year,
+      targetValue: roundTo(milestoneValue, 4),
+      reductionPercent: roundTo(reductionPercent, 2),
+      actualValue: actualValue !== null ? roundTo(actualValue, 4) : null,
+      status,
+    });
+  }
+
+  let status: TargetStatus = 'no_data';
+  if (latestYear !== null && latestValue !== null) {
+    if (latestValue <= targetValue) {
+      status = 'achieved';
+    } else {
+      const milestone = milestones.find((m) => m.year === Math.min(latestYear!, target.targetYear));
+      status = milestone && latestValue <= milestone.targetValue ? 'on_track' : 'off_track';
+    }
+  }
+
+  const reductionNeeded = baseValue - targetValue;
+  return {
+    targetId: target.id,
+    baseValue: roundTo(baseValue, 4),
+    targetValue: roundTo(targetValue, 4),
+    latestYear,
+    latestValue: latestValue !== null ? roundTo(latestValue, 4) : null,
+    progressPercent: latestValue !== null && reductionNeeded > 0
+      ? roundTo(((baseValue - latestValue) / reductionNeeded) * 100, 2)
+      : null,
+    status,
+    milestones,
+  };
+}
+
+/**
+ * One-line description, e.g. for the K-ESG reduction target disclosure
+ */
+export function describeTarget(target: EmissionTarget): string {
+  const scopes = target.scopes.map((s) => s.replace('scope', '')).join('+');
+  const per = target.targetType === 'intensity' ? ` per ${target.intensityUnit || 'unit'}` : '';
+  return `${target.reductionPercent}% ${target.targetType} reduction of Scope ${scopes} emissions${per} by ${target.targetYear} ` +
+    `from a ${target.baseYear} base year (${PATHWAY_LABELS[target.pathway]} pathway)`;
+}
+
+/**
+ * Latest inventory of every year with a CFO result, restated where the year
+ * was restated as a base year
+ */
+export async function getAnnualInventories(projectId: string): Promise<Map<number, BaseYearInventory>> {
+  const result = await db.query(
+    `SELECT DISTINCT ON (c.reporting_year) c.*, r.restated_inventory
+     FROM cfo_results c
+     LEFT JOIN LATERAL (
+       SELECT restated_inventory FROM base_year_restatements
+       WHERE original_cfo_id = c.id
+       ORDER BY created_at DESC LIMIT 1
+     ) r ON true
+     WHERE c.project_id = $1
+     ORDER BY c.reporting_year, c.created_at DESC`,
+    [projectId]
+  );
+
+  return new Map(result.rows.map((row) => [
+    row.reporting_year,
+    row.restated_inventory || baseYearService.cfoInventory(row),
+  ]));
+}
+
+export async function getProjectTargets(projectId: string): Promise<EmissionTarget[]> {
+  const result = await db.query(
+    `SELECT * FROM emission_targets WHERE project_id = $1 ORDER BY target_year, name`,
+    [projectId]
+  );
+  return result.rows.map(toTarget);
+}
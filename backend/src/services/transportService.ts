@@ -0,0 +1,280 @@
+/**
+ * Freight Transport Service (GLEC Framework)
+ *
+ * Shipments are entered as legs between locations. Each leg's distance is the
+ * actual distance when known, otherwise the great-circle distance between the
+ * bundled coordinates with the GLEC distance adjustment for the mode. Leg
+ * emissions are tonne-km times a well-to-wheel intensity for the vehicle type,
+ * adjusted for the actual load factor and empty running.
+ */
+
+import { BadRequestError } from '../middleware/errorHandler';
+import { roundTo } from '../utils/helpers';
+import * as unitService from './unitService';
+import type {
+  Shipment,
+  ShipmentLegResult,
+  ShipmentResult,
+  TransportLocation,
+  TransportLocationInput,
+  TransportMode,
+} from '../types';
+
+const EARTH_RADIUS_KM = 6371;
+
+export const INTENSITY_SOURCE = 'GLEC Framework v3 default intensities (WTW, indicative)';
+
+// Great-circle distance adjustment per mode (GLEC Framework, Module 1)
+const DISTANCE_ADJUSTMENT: Record<TransportMode, { factor: number; addKm: number }> = {
+  road: { factor: 1.05, addKm: 0 },
+  rail: { factor: 1.05, addKm: 0 },
+  inland_waterway: { factor: 1.05, addKm: 0 },
+  sea: { factor: 1.15, addKm: 0 },
+  air: { factor: 1, addKm: 95 },
+};
+
+export interface VehicleType {
+  mode: TransportMode;
+  name: string;
+  intensity: number;          // g CO2e/tkm at the default load factor and empty running
+  defaultLoadFactor: number;
+  defaultEmptyRunning: number; // empty km per loaded km included in the intensity
+}
+
+// Indicative default intensities; the first vehicle type of a mode is its default
+export const VEHICLE_TYPES: Record<string, VehicleType> = {
+  truck: { mode: 'road', name: 'Truck (average)', intensity: 105, defaultLoadFactor: 0.6, defaultEmptyRunning: 0.2 },
+  van: { mode: 'road', name: 'Van (< 3.5 t)', intensity: 600, defaultLoadFactor: 0.4, defaultEmptyRunning: 0.2 },
+  rigid_truck: { mode: 'road', name: 'Rigid truck (7.5-12 t)', intensity: 200, defaultLoadFactor: 0.6, defaultEmptyRunning: 0.2 },
+  heavy_rigid_truck: { mode: 'road', name: 'Rigid truck (12-26 t)', intensity: 120, defaultLoadFactor: 0.6, defaultEmptyRunning: 0.2 },
+  articulated_truck: { mode: 'road', name: 'Articulated truck (34-40 t)', intensity: 75, defaultLoadFactor: 0.6, defaultEmptyRunning: 0.2 },
+  train: { mode: 'rail', name: 'Freight train (average)', intensity: 25, defaultLoadFactor: 0.6, defaultEmptyRunning: 0.3 },
+  electric_train: { mode: 'rail', name: 'Electric freight train', intensity: 20, defaultLoadFactor: 0.6, defaultEmptyRunning: 0.3 },
+  diesel_train: { mode: 'rail', name: 'Diesel freight train', intensity: 30, defaultLoadFactor: 0.6, defaultEmptyRunning: 0.3 },
+  container_ship: { mode: 'sea', name: 'Container ship', intensity: 15, defaultLoadFactor: 0.7, defaultEmptyRunning: 0 },
+  bulk_carrier: { mode: 'sea', name: 'Bulk carrier', intensity: 5, defaultLoadFactor: 0.5, defaultEmptyRunning: 0 },
+  tanker: { mode: 'sea', name: 'Tanker', intensity: 6, defaultLoadFactor: 0.5, defaultEmptyRunning: 0 },
+  general_cargo_ship: { mode: 'sea', name: 'General cargo ship', intensity: 15, defaultLoadFactor: 0.6, defaultEmptyRunning: 0 },
+  barge: { mode: 'inland_waterway', name: 'Inland barge', intensity: 30, defaultLoadFactor: 0.6, defaultEmptyRunning: 0.3 },
+  air_long_haul: { mode: 'air', name: 'Air freight (long haul)', intensity: 740, defaultLoadFactor: 0.7, defaultEmptyRunning: 0 },
+  air_short_haul: { mode: 'air', name: 'Air freight (short haul)', intensity: 1400, defaultLoadFactor: 0.7, defaultEmptyRunning: 0 },
+};
+
+// Ports (UN/LOCODE) and cargo airports (IATA) for great-circle distances
+const LOCATIONS: TransportLocation[] = [
+  // Thailand
+  { code: 'THLCH', name: 'Laem Chabang', country: 'TH', type: 'port', lat: 13.0833, lon: 100.8833 },
+  { code: 'THBKK', name: 'Bangkok', country: 'TH', type: 'port', lat: 13.7000, lon: 100.5700 },
+  { code: 'THMAT', name: 'Map Ta Phut', country: 'TH', type: 'port', lat: 12.6700, lon: 101.1500 },
+  { code: 'THSGZ', name: 'Songkhla', country: 'TH', type: 'port', lat: 7.2000, lon: 100.5900 },
+  { code: 'THCNX', name: 'Chiang Mai', country: 'TH', type: 'city', lat: 18.7883, lon: 98.9853 },
+  { code: 'THKKC', name: 'Khon Kaen', country: 'TH', type: 'city', lat: 16.4419, lon: 102.8360 },
+  { code: 'BKK', name: 'Bangkok Suvarnabhumi Airport', country: 'TH', type: 'airport', lat: 13.6900, lon: 100.7501 },
+  // China
+  { code: 'CNSHA', name: 'Shanghai', country: 'CN', type: 'port', lat: 31.2304, lon: 121.4737 },
+  { code: 'CNNGB', name: 'Ningbo', country: 'CN', type: 'port', lat: 29.8683, lon: 121.5440 },
+  { code: 'CNSZX', name: 'Shenzhen', country: 'CN', type: 'port', lat: 22.5431, lon: 114.0579 },
+  { code: 'CNCAN', name: 'Guangzhou', country: 'CN', type: 'port', lat: 23.1291, lon: 113.2644 },
+  { code: 'CNTAO', name: 'Qingdao', country: 'CN', type: 'port', lat: 36.0671, lon: 120.3826 },
+  { code: 'CNTSN', name: 'Tianjin', country: 'CN', type: 'port', lat: 39.0842, lon: 117.2009 },
+  { code: 'CNXMN', name: 'Xiamen', country: 'CN', type: 'port', lat: 24.4798, lon: 118.0894 },
+  { code: 'HKHKG', name: 'Hong Kong', country: 'HK', type: 'port', lat: 22.3193, lon: 114.1694 },
+  { code: 'PVG', name: 'Shanghai Pudong Airport', country: 'CN', type: 'airport', lat: 31.1443, lon: 121.8083 },
+  { code: 'HKG', name: 'Hong Kong Airport', country: 'HK', type: 'airport', lat: 22.3080, lon: 113.9185 },
+  // Japan & Korea
+  { code: 'JPTYO', name: 'Tokyo', country: 'JP', type: 'port', lat: 35.6528, lon: 139.8394 },
+  { code: 'JPYOK', name: 'Yokohama', country: 'JP', type: 'port', lat: 35.4437, lon: 139.6380 },
+  { code: 'JPNGO', name: 'Nagoya', country: 'JP', type: 'port', lat: 35.0833, lon: 136.8833 },
+  { code: 'JPOSA', name: 'Osaka', country: 'JP', type: 'port', lat: 34.6500, lon: 135.4333 },
+  { code: 'JPUKB', name: 'Kobe', country: 'JP', type: 'port', lat: 34.6901, lon: 135.1956 },
+  { code: 'KRPUS', name: 'Busan', country: 'KR', type: 'port', lat: 35.1028, lon: 129.0403 },
+  { code: 'KRINC', name: 'Incheon', country: 'KR', type: 'port', lat: 37.4563, lon: 126.7052 },
+  { code: 'NRT', name: 'Tokyo Narita Airport', country: 'JP', type: 'airport', lat: 35.7720, lon: 140.3929 },
+  { code: 'ICN', name: 'Seoul Incheon Airport', country: 'KR', type: 'airport', lat: 37.4602, lon: 126.4407 },
+  // South & Southeast Asia, Middle East
+  { code: 'SGSIN', name: 'Singapore', country: 'SG', type: 'port', lat: 1.2644, lon: 103.8400 },
+  { code: 'MYPKG', name: 'Port Klang', country: 'MY', type: 'port', lat: 3.0000, lon: 101.4000 },
+  { code: 'MYTPP', name: 'Tanjung Pelepas', country: 'MY', type: 'port', lat: 1.3667, lon: 103.5500 },
+  { code: 'VNSGN', name: 'Ho Chi Minh City', country: 'VN', type: 'port', lat: 10.7626, lon: 106.7070 },
+  { code: 'VNHPH', name: 'Haiphong', country: 'VN', type: 'port', lat: 20.8449, lon: 106.6881 },
+  { code: 'IDJKT', name: 'Jakarta', country: 'ID', type: 'port', lat: -6.1045, lon: 106.8864 },
+  { code: 'PHMNL', name: 'Manila', country: 'PH', type: 'port', lat: 14.5833, lon: 120.9667 },
+  { code: 'INNSA', name: 'Nhava Sheva', country: 'IN', type: 'port', lat: 18.9500, lon: 72.9500 },
+  { code: 'INMAA', name: 'Chennai', country: 'IN', type: 'port', lat: 13.0827, lon: 80.2707 },
+  { code: 'INMUN', name: 'Mundra', country: 'IN', type: 'port', lat: 22.7392, lon: 69.7033 },
+  { code: 'AEJEA', name: 'Jebel Ali', country: 'AE', type: 'port', lat: 25.0112, lon: 55.0610 },
+  { code: 'SIN', name: 'Singapore Changi Airport', country: 'SG', type: 'airport', lat: 1.3644, lon: 103.9915 },
+  // Europe
+  { code: 'NLRTM', name: 'Rotterdam', country: 'NL', type: 'port', lat: 51.9500, lon: 4.1400 },
+  { code: 'BEANR', name: 'Antwerp', country: 'BE', type: 'port', lat: 51.2603, lon: 4.4025 },
+  { code: 'DEHAM', name: 'Hamburg', country: 'DE', type: 'port', lat: 53.5400, lon: 9.9700 },
+  { code: 'GBFXT', name: 'Felixstowe', country: 'GB', type: 'port', lat: 51.9550, lon: 1.3510 },
+  { code: 'FRLEH', name: 'Le Havre', country: 'FR', type: 'port', lat: 49.4833, lon: 0.1000 },
+  { code: 'ESVLC', name: 'Valencia', country: 'ES', type: 'port', lat: 39.4500, lon: -0.3167 },
+  { code: 'ITGOA', name: 'Genoa', country: 'IT', type: 'port', lat: 44.4056, lon: 8.9463 },
+  { code: 'GRPIR', name: 'Piraeus', country: 'GR', type: 'port', lat: 37.9420, lon: 23.6465 },
+  { code: 'FRA', name: 'Frankfurt Airport', country: 'DE', type: 'airport', lat: 50.0379, lon: 8.5622 },
+  { code: 'AMS', name: 'Amsterdam Schiphol Airport', country: 'NL', type: 'airport', lat: 52.3105, lon: 4.7683 },
+  // Americas & Oceania
+  { code: 'USLAX', name: 'Los Angeles', country: 'US', type: 'port', lat: 33.7405, lon: -118.2600 },
+  { code: 'USLGB', name: 'Long Beach', country: 'US', type: 'port', lat: 33.7542, lon: -118.2165 },
+  { code: 'USNYC', name: 'New York', country: 'US', type: 'port', lat: 40.6840, lon: -74.0440 },
+  { code: 'USSAV', name: 'Savannah', country: 'US', type: 'port', lat: 32.0809, lon: -81.0912 },
+  { code: 'AUSYD', name: 'Sydney', country: 'AU', type: 'port', lat: -33.8688, lon: 151.2093 },
+  { code: 'AUMEL', name: 'Melbourne', country: 'AU', type: 'port', lat: -37.8136, lon: 144.9631 },
+  { code: 'LAX', name: 'Los Angeles Airport', country: 'US', type: 'airport', lat: 33.9416, lon: -118.4085 },
+];
+
+const LOCATION_LOOKUP = LOCATIONS.reduce((acc, location) => {
+  acc[location.code] = location;
+  return acc;
+}, {} as Record<string, TransportLocation>);
+
+export function findLocation(code: string): TransportLocation | null {
+  return LOCATION_LOOKUP[code.trim().toUpperCase()] || null;
+}
+
+export function searchLocations(options: { search?: string; country?: string; type?: string }): TransportLocation[] {
+  const search = options.search?.trim().toLowerCase();
+  return LOCATIONS.filter((location) =>
+    (!search || location.code.toLowerCase().includes(search) || location.name.toLowerCase().includes(search)) &&
+    (!options.country || location.country === options.country.toUpperCase()) &&
+    (!options.type || location.type === options.type)
+  );
+}
+
+/**
+ * Great-circle (haversine) distance in km
+ */
+export function greatCircleKm(a: { lat: number; lon: number }, b: { lat: number; lon: number }): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+export function adjustedDistanceKm(mode: TransportMode, greatCircle: number): number {
+  const adjustment = DISTANCE_ADJUSTMENT[mode];
+  return greatCircle * adjustment.factor + adjustment.addKm;
+}
+
+export function getVehicleType(mode: TransportMode, vehicleType?: string): { key: string; vehicle: VehicleType } {
+  const key = vehicleType || Object.keys(VEHICLE_TYPES).find((k) => VEHICLE_TYPES[k].mode === mode)!;
+  const vehicle = VEHICLE_TYPES[key];
+  if (!vehicle || vehicle.mode !== mode) {
+    const available = Object.keys(VEHICLE_TYPES).filter((k) => VEHICLE_TYPES[k].mode === mode);
+    throw new BadRequestError(`Unknown ${mode} vehicle type "${vehicleType}"; use one of: ${available.join(', ')}`);
+  }
+  return { key, vehicle };
+}
+
+/**
+ * Intensity (g CO2e/tkm) for the actual load factor and empty running.
+ * An empty return counts the return distance at the loaded-vehicle rate (conservative).
+ */
+export function adjustedIntensity(
+  vehicle: VehicleType,
+  options: { loadFactor?: number; emptyReturn?: boolean; emissionIntensity?: number } = {}
+): number {
+  const intensity = options.emissionIntensity ?? vehicle.intensity;
+  const loadAdjustment = options.loadFactor ? vehicle.defaultLoadFactor / options.loadFactor : 1;
+  const emptyAdjustment = options.emptyReturn ? 2 / (1 + vehicle.defaultEmptyRunning) : 1;
+  return intensity * loadAdjustment * emptyAdjustment;
+}
+
+function resolveLocation(input: TransportLocationInput): { label: string; lat: number; lon: number } {
+  if (typeof input !== 'string') {
+    return { label: input.name, lat: input.lat, lon: input.lon };
+  }
+  const location = findLocation(input);
+  if (!location) {
+    throw new BadRequestError(`Unknown location "${input}"; use a code from /transport/locations or give coordinates`);
+  }
+  return { label: `${location.name} (${location.code})`, lat: location.lat, lon: location.lon };
+}
+
+/**
+ * Distances, tonne-km and emissions per leg of a shipment
+ */
+export function calculateShipment(shipment: Shipment): ShipmentResult {
+  if (shipment.legs.length === 0) {
+    throw new BadRequestError('A shipment needs at least one leg');
+  }
+
+  let previous: TransportLocationInput = shipment.origin;
+
+  const legs: ShipmentLegResult[] = shipment.legs.map((leg, index) => {
+    const isLast = index === shipment.legs.length - 1;
+    const fromInput = leg.from ?? previous;
+    const toInput = leg.to ?? (isLast ? shipment.destination : undefined);
+    if (toInput === undefined && leg.distanceKm === undefined) {
+      throw new BadRequestError(`Leg ${index + 1} needs a destination or a distance`);
+    }
+
+    const from = resolveLocation(fromInput);
+    const to = toInput !== undefined ? resolveLocation(toInput) : null;
+    const greatCircle = to ? greatCircleKm(from, to) : null;
+    const distanceKm = leg.distanceKm ?? adjustedDistanceKm(leg.mode, greatCircle!);
+
+    const { key, vehicle } = getVehicleType(leg.mode, leg.vehicleType);
+    const intensity = adjustedIntensity(vehicle, leg);
+    const tonneKm = shipment.weightTonnes * distanceKm;
+
+    if (toInput !== undefined) previous = toInput;
+
+    return {
+      mode: leg.mode,
+      vehicleType: key,
+      from: from.label,
+      to: to?.label ?? 'unspecified',
+      greatCircleKm: greatCircle !== null ? roundTo(greatCircle, 1) : null,
+      distanceKm: roundTo(distanceKm, 1),
+      distanceSource: leg.distanceKm !== undefined ? 'actual' : 'great_circle',
+      tonneKm: roundTo(tonneKm, 2),
+      emissionIntensity: roundTo(intensity, 2),
+      emissionsKgCo2e: roundTo((tonneKm * intensity) / 1000, 4),
+    };
+  });
+
+  return {
+    weightTonnes: shipment.weightTonnes,
+    distanceKm: roundTo(legs.reduce((sum, leg) => sum + leg.distanceKm, 0), 1),
+    tonneKm: roundTo(legs.reduce((sum, leg) => sum + leg.tonneKm, 0), 2),
+    emissionsKgCo2e: roundTo(legs.reduce((sum, leg) => sum + leg.emissionsKgCo2e, 0), 4),
+    legs,
+  };
+}
+
+/**
+ * Factor (kg CO2e per tonne-km) for an activity carrying a shipment in
+ * metadata.shipment, or null
+ */
+export function getShipmentFactor(activity: { unit: string; metadata?: any }): {
+  factor: number;
+  source: string;
+  unit: string;
+  conversionFactor: number;
+  transport: ShipmentResult;
+} | null {
+  const shipment = activity.metadata?.shipment as Shipment | undefined;
+  if (!shipment) {
+    return null;
+  }
+
+  const transport = calculateShipment(shipment);
+  if (transport.tonneKm <= 0) {
+    throw new BadRequestError('Shipment has no tonne-km');
+  }
+
+  // The activity quantity is the shipment's tonne-km unless it was edited since
+  const conversionFactor = unitService.convertQuantity(1, activity.unit, 'tonne_km');
+
+  return {
+    factor: (transport.emissionsKgCo2e / transport.tonneKm) * conversionFactor,
+    source: INTENSITY_SOURCE,
+    unit: 'tonne_km',
+    conversionFactor,
+    transport,
+  };
+}
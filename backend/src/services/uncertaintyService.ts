@@ -0,0 +1,340 @@
+/**
+ * Uncertainty Service
+ *
+ * Monte Carlo propagation of activity data and emission factor uncertainty
+ * (IPCC 2006 Guidelines, Vol. 1 Ch. 3, Approach 2; ISO 14064-1 clause 8.3).
+ *
+ * Each activity's emissions are sampled as calculated emissions x a quantity
+ * multiplier x a factor multiplier. A factor used by several activities is
+ * drawn once per iteration, so its error is fully correlated across them.
+ * Activity uncertainty comes from uncertainty_percentage, factor uncertainty
+ * from the emission_factors row's uncertainty_min/max; where nothing is
+ * recorded a default by factor type is assumed and reported.
+ *
+ * Samples are drawn from a seeded generator, so the same seed reproduces the
+ * same intervals.
+ */
+
+import { db } from '../config/database';
+import { roundTo } from '../utils/helpers';
+import type {
+  SensitivityEntry,
+  UncertaintyAnalysis,
+  UncertaintyDistribution,
+  UncertaintyInput,
+  UncertaintyInterval,
+} from '../types';
+
+export const DEFAULT_ITERATIONS = 10000;
+export const DEFAULT_SEED = 14064;
+
+// Assumed 95% half-width when no uncertainty is recorded, in %
+export const DEFAULT_ACTIVITY_UNCERTAINTY = 10;
+export const DEFAULT_FACTOR_UNCERTAINTY: Record<string, number> = {
+  emission_factor: 10,
+  default: 10,
+  supplier: 10,
+  custom: 10,
+  transport: 20,
+  land_sector: 90, // IPCC Tier 1 soil N2O ranges span roughly -90% to +80%
+  eeio: 50,
+  estimate: 100,
+};
+
+// Symmetric uncertainties up to this half-width are sampled as normal, wider
+// or asymmetric ones as lognormal so emissions cannot go negative
+const NORMAL_LIMIT_PERCENT = 30;
+
+const DISTRIBUTIONS: UncertaintyDistribution[] = ['normal', 'lognormal', 'triangular'];
+
+export interface UncertainActivity {
+  id: string;
+  name: string;
+  scope: string;
+  category: string | null;
+  emissions: number;       // kg CO2e as calculated
+  activityInput: UncertaintyInput;
+  factorInput: UncertaintyInput;
+}
+
+/**
+ * Seeded uniform generator on [0, 1) (mulberry32)
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function standardNormal(random: () => number): number {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+export function chooseDistribution(
+  lowerPercent: number,
+  upperPercent: number,
+  requested?: unknown
+): UncertaintyDistribution {
+  if (DISTRIBUTIONS.includes(requested as UncertaintyDistribution)) {
+    return requested as UncertaintyDistribution;
+  }
+  return lowerPercent === upperPercent && upperPercent <= NORMAL_LIMIT_PERCENT ? 'normal' : 'lognormal';
+}
+
+/**
+ * A multiplier on the calculated value (1 = as calculated)
+ */
+export function sampleMultiplier(input: UncertaintyInput, random: () => number): number {
+  const lower = input.lowerPercent / 100;
+  const upper = input.upperPercent / 100;
+  if (lower === 0 && upper === 0) {
+    return 1;
+  }
+
+  switch (input.distribution) {
+    case 'normal': {
+      // Symmetric: the wider side sets the standard deviation
+      const sigma = Math.max(lower, upper) / 1.96;
+      return Math.max(0, 1 + sigma * standardNormal(random));
+    }
+    case 'lognormal': {
+      // Fitted to the 2.5th and 97.5th percentiles; a lower bound at zero
+      // leaves only the upper one, around a median of 1
+      if (lower >= 1) {
+        return Math.exp((Math.log(1 + upper) / 1.96) * standardNormal(random));
+      }
+      const lo = Math.log(1 - lower);
+      const hi = Math.log(1 + upper);
+      return Math.exp((lo + hi) / 2 + ((hi - lo) / 3.92) * standardNormal(random));
+    }
+    case 'triangular': {
+      // Minimum, mode 1, maximum
+      const min = Math.max(0, 1 - lower);
+      const max = 1 + upper;
+      const u = random();
+      const split = (1 - min) / (max - min);
+      return u < split
+        ? min + Math.sqrt(u * (max - min) * (1 - min))
+        : max - Math.sqrt((1 - u) * (max - min) * (max - 1));
+    }
+  }
+}
+
+function percentile(sorted: Float64Array, p: number): number {
+  const index = (sorted.length - 1) * p;
+  const low = Math.floor(index);
+  const high = Math.ceil(index);
+  return sorted[low] + (sorted[high] - sorted[low]) * (index - low);
+}
+
+export function summarizeSamples(samples: Float64Array): UncertaintyInterval {
+  const sorted = Float64Array.from(samples).sort();
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / (sorted.length || 1);
+  const lower = percentile(sorted, 0.025);
+  const upper = percentile(sorted, 0.975);
+
+  return {
+    mean: roundTo(mean, 4),
+    median: roundTo(percentile(sorted, 0.5), 4),
+    lower: roundTo(lower, 4),
+    upper: roundTo(upper, 4),
+    lowerPercent: mean > 0 ? roundTo(((mean - lower) / mean) * 100, 2) : 0,
+    upperPercent: mean > 0 ? roundTo(((upper - mean) / mean) * 100, 2) : 0,
+  };
+}
+
+/**
+ * Run the simulation. Scope 2 is location-based, as in the CFO total.
+ */
+export function simulate(
+  activities: UncertainActivity[],
+  options: { iterations?: number; seed?: number; topContributors?: number } = {}
+): UncertaintyAnalysis {
+  const iterations = options.iterations || DEFAULT_ITERATIONS;
+  const seed = options.seed ?? DEFAULT_SEED;
+  const random = seededRandom(seed);
+
+  // Distinct inputs; a shared factor appears once
+  const inputs: UncertaintyInput[] = [];
+  const inputIndex = new Map<string, number>();
+  const indexOf = (input: UncertaintyInput) => {
+    if (!inputIndex.has(input.key)) {
+      inputIndex.set(input.key, inputs.length);
+      inputs.push(input);
+    }
+    return inputIndex.get(input.key)!;
+  };
+  const links = activities.map((activity) => ({
+    activity,
+    activityIndex: indexOf(activity.activityInput),
+    factorIndex: indexOf(activity.factorInput),
+  }));
+
+  const total = new Float64Array(iterations);
+  const byScope = new Map<string, Float64Array>();
+  const byCategory = new Map<string, Float64Array>();
+  for (const { scope, category } of activities) {
+    if (!byScope.has(scope)) byScope.set(scope, new Float64Array(iterations));
+    if (scope === 'scope3' && !byCategory.has(category || 'other')) {
+      byCategory.set(category || 'other', new Float64Array(iterations));
+    }
+  }
+
+  // Running sums for the correlation of each input with the total
+  const sumX = new Float64Array(inputs.length);
+  const sumXX = new Float64Array(inputs.length);
+  const sumXT = new Float64Array(inputs.length);
+  let sumT = 0;
+  let sumTT = 0;
+  const draws = new Float64Array(inputs.length);
+
+  for (let i = 0; i < iterations; i++) {
+    for (let j = 0; j < inputs.length; j++) {
+      draws[j] = sampleMultiplier(inputs[j], random);
+    }
+
+    let iterationTotal = 0;
+    for (const { activity, activityIndex, factorIndex } of links) {
+      const emissions = activity.emissions * draws[activityIndex] * draws[factorIndex];
+      iterationTotal += emissions;
+      byScope.get(activity.scope)![i] += emissions;
+      if (activity.scope === 'scope3') {
+        byCategory.get(activity.category || 'other')![i] += emissions;
+      }
+    }
+    total[i] = iterationTotal;
+
+    sumT += iterationTotal;
+    sumTT += iterationTotal * iterationTotal;
+    for (let j = 0; j < inputs.length; j++) {
+      sumX[j] += draws[j];
+      sumXX[j] += draws[j] * draws[j];
+      sumXT[j] += draws[j] * iterationTotal;
+    }
+  }
+
+  const varianceT = sumTT / iterations - (sumT / iterations) ** 2;
+  const correlations = inputs.map((input, j) => {
+    const varianceX = sumXX[j] / iterations - (sumX[j] / iterations) ** 2;
+    const covariance = sumXT[j] / iterations - (sumX[j] / iterations) * (sumT / iterations);
+    const r = varianceX > 0 && varianceT > 0 ? covariance / Math.sqrt(varianceX * varianceT) : 0;
+    return { input, r };
+  });
+  const sumSquares = correlations.reduce((sum, { r }) => sum + r * r, 0);
+
+  const sensitivity: SensitivityEntry[] = correlations
+    .filter(({ r }) => r !== 0)
+    .sort((a, b) => b.r * b.r - a.r * a.r)
+    .slice(0, options.topContributors ?? 10)
+    .map(({ input, r }, index) => ({
+      rank: index + 1,
+      key: input.key,
+      kind: input.kind,
+      label: input.label,
+      correlation: roundTo(r, 4),
+      contributionToVariance: sumSquares > 0 ? roundTo(((r * r) / sumSquares) * 100, 2) : 0,
+    }));
+
+  return {
+    iterations,
+    seed,
+    confidenceLevel: 95,
+    calculatedTotal: roundTo(activities.reduce((sum, a) => sum + a.emissions, 0), 4),
+    total: summarizeSamples(total),
+    byScope: Object.fromEntries(Array.from(byScope, ([scope, samples]) => [scope, summarizeSamples(samples)])),
+    byCategory: Object.fromEntries(Array.from(byCategory, ([category, samples]) => [category, summarizeSamples(samples)])),
+    sensitivity,
+    inputs: {
+      activityData: inputs.filter((i) => i.kind === 'activity_data').length,
+      emissionFactors: inputs.filter((i) => i.kind === 'emission_factor').length,
+      defaultsAssumed: inputs.filter((i) => i.isDefault).length,
+    },
+  };
+}
+
+/**
+ * Uncertain inputs of calculated activities (rows with total_emissions_kg_co2e
+ * and emission_factor_used, consolidated or not), with factor bounds loaded
+ * from the emission_factors rows they reference
+ */
+export async function toUncertainActivities(activities: any[]): Promise<UncertainActivity[]> {
+  const factorIds = Array.from(new Set(
+    activities
+      .map((a) => a.emission_factor_used?.reference)
+      .filter((reference) => reference?.type === 'emission_factor' && reference.id)
+      .map((reference) => reference.id as string)
+  ));
+
+  const factorRows = new Map<string, any>();
+  if (factorIds.length > 0) {
+    const result = await db.query(
+      `SELECT id, name, uncertainty_min, uncertainty_max, metadata FROM emission_factors WHERE id = ANY($1)`,
+      [factorIds]
+    );
+    for (const row of result.rows) factorRows.set(row.id, row);
+  }
+
+  return activities.map((activity) => {
+    const used = activity.emission_factor_used || {};
+    const reference = used.reference || { type: 'estimate' };
+
+    const recorded = parseFloat(activity.uncertainty_percentage);
+    const activityPercent = Number.isFinite(recorded) ? recorded : DEFAULT_ACTIVITY_UNCERTAINTY;
+    const activityInput: UncertaintyInput = {
+      key: `activity:${activity.id}`,
+      kind: 'activity_data',
+      label: `${activity.name} (activity data)`,
+      distribution: chooseDistribution(activityPercent, activityPercent, activity.metadata?.uncertaintyDistribution),
+      lowerPercent: activityPercent,
+      upperPercent: activityPercent,
+      isDefault: !Number.isFinite(recorded),
+    };
+
+    const row = reference.type === 'emission_factor' ? factorRows.get(reference.id) : undefined;
+    const min = parseFloat(row?.uncertainty_min);
+    const max = parseFloat(row?.uncertainty_max);
+    const hasBounds = Number.isFinite(min) || Number.isFinite(max);
+    const fallback = DEFAULT_FACTOR_UNCERTAINTY[reference.type] ?? DEFAULT_FACTOR_UNCERTAINTY.default;
+    const lowerPercent = Number.isFinite(min) ? min : Number.isFinite(max) ? max : fallback;
+    const upperPercent = Number.isFinite(max) ? max : lowerPercent;
+
+    // Custom factors and estimates belong to one activity; others are shared
+    const factorKey = reference.type === 'custom' || reference.type === 'estimate' || !(reference.id || reference.key)
+      ? `factor:${activity.id}`
+      : `factor:${reference.type}:${reference.id || reference.key}`;
+
+    const factorInput: UncertaintyInput = {
+      key: factorKey,
+      kind: 'emission_factor',
+      label: row?.name || `${used.source || reference.type} factor for ${activity.activity_type}`,
+      distribution: chooseDistribution(lowerPercent, upperPercent, row?.metadata?.uncertaintyDistribution),
+      lowerPercent,
+      upperPercent,
+      isDefault: !hasBounds,
+    };
+
+    return {
+      id: activity.id,
+      name: activity.name,
+      scope: activity.scope,
+      category: activity.scope3_category || null,
+      emissions: parseFloat(activity.total_emissions_kg_co2e) || 0,
+      activityInput,
+      factorInput,
+    };
+  });
+}
+
+export async function analyzeActivities(
+  activities: any[],
+  options: { iterations?: number; seed?: number; topContributors?: number } = {}
+): Promise<UncertaintyAnalysis> {
+  return simulate(await toUncertainActivities(activities), options);
+}
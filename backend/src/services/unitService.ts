@@ -0,0 +1,180 @@
+import { UnitConversionError } from '../middleware/errorHandler';
+import type { UnitDefinition, UnitDimension } from '../types';
+
+const SHORT_TON_KG = 907.18474;
+const MILE_KM = 1.609344;
+
+/**
+ * Unit registry. Base units: kWh (energy), kg (mass), L (volume), km (distance),
+ * tonne-km (freight), passenger-km, ha (area), unit (count).
+ * Currencies share a dimension but only convert to themselves (FX is not a unit conversion).
+ */
+export const UNITS: UnitDefinition[] = [
+  // Energy
+  { code: 'kwh', name: 'Kilowatt-hour', dimension: 'energy', toBase: 1, aliases: ['kilowatt_hour', 'kilowatt_hours'] },
+  { code: 'wh', name: 'Watt-hour', dimension: 'energy', toBase: 0.001, aliases: ['watt_hour', 'watt_hours'] },
+  { code: 'mwh', name: 'Megawatt-hour', dimension: 'energy', toBase: 1000, aliases: ['megawatt_hour', 'megawatt_hours'] },
+  { code: 'gwh', name: 'Gigawatt-hour', dimension: 'energy', toBase: 1000000, aliases: ['gigawatt_hour', 'gigawatt_hours'] },
+  { code: 'mj', name: 'Megajoule', dimension: 'energy', toBase: 1 / 3.6, aliases: ['megajoule', 'megajoules'] },
+  { code: 'gj', name: 'Gigajoule', dimension: 'energy', toBase: 1000 / 3.6, aliases: ['gigajoule', 'gigajoules'] },
+  { code: 'tj', name: 'Terajoule', dimension: 'energy', toBase: 1000000 / 3.6, aliases: ['terajoule', 'terajoules'] },
+  { code: 'therm', name: 'Therm (US)', dimension: 'energy', toBase: 29.3071, aliases: ['therms', 'thm'] },
+  { code: 'mmbtu', name: 'Million BTU', dimension: 'energy', toBase: 293.071, aliases: ['mmbtus', 'million_btu'] },
+  { code: 'btu', name: 'British thermal unit', dimension: 'energy', toBase: 0.000293071, aliases: ['btus'] },
+  { code: 'kcal', name: 'Kilocalorie', dimension: 'energy', toBase: 0.001163, aliases: ['kilocalorie', 'kilocalories'] },
+  { code: 'toe', name: 'Tonne of oil equivalent', dimension: 'energy', toBase: 11630, aliases: ['tonne_oil_equivalent'] },
+
+  // Mass ('ton' is read as a metric tonne; use short_ton / long_ton for imperial tons)
+  { code: 'kg', name: 'Kilogram', dimension: 'mass', toBase: 1, aliases: ['kgs', 'kilogram', 'kilograms'] },
+  { code: 'g', name: 'Gram', dimension: 'mass', toBase: 0.001, aliases: ['gram', 'grams'] },
+  { code: 'mg', name: 'Milligram', dimension: 'mass', toBase: 0.000001, aliases: ['milligram', 'milligrams'] },
+  { code: 't', name: 'Tonne', dimension: 'mass', toBase: 1000, aliases: ['tonne', 'tonnes', 'metric_ton', 'metric_tons', 'mt', 'ton', 'tons'] },
+  { code: 'kt', name: 'Kilotonne', dimension: 'mass', toBase: 1000000, aliases: ['kilotonne', 'kilotonnes'] },
+  { code: 'lb', name: 'Pound', dimension: 'mass', toBase: 0.45359237, aliases: ['lbs', 'pound', 'pounds'] },
+  { code: 'short_ton', name: 'Short ton (US)', dimension: 'mass', toBase: SHORT_TON_KG, aliases: ['short_tons', 'us_ton', 'us_tons'] },
+  { code: 'long_ton', name: 'Long ton (UK)', dimension: 'mass', toBase: 1016.0469088, aliases: ['long_tons', 'imperial_ton', 'imperial_tons'] },
+
+  // Volume
+  { code: 'l', name: 'Litre', dimension: 'volume', toBase: 1, aliases: ['lt', 'liter', 'liters', 'litre', 'litres'] },
+  { code: 'ml', name: 'Millilitre', dimension: 'volume', toBase: 0.001, aliases: ['milliliter', 'milliliters', 'millilitre', 'millilitres'] },
+  { code: 'm3', name: 'Cubic metre', dimension: 'volume', toBase: 1000, aliases: ['cbm', 'cubic_meter', 'cubic_meters', 'cubic_metre', 'cubic_metres'] },
+  { code: 'gal', name: 'Gallon (US)', dimension: 'volume', toBase: 3.785411784, aliases: ['gallon', 'gallons', 'us_gal', 'us_gallon', 'us_gallons'] },
+  { code: 'imp_gal', name: 'Gallon (imperial)', dimension: 'volume', toBase: 4.54609, aliases: ['imperial_gallon', 'imperial_gallons', 'uk_gallon', 'uk_gallons'] },
+  { code: 'bbl', name: 'Barrel (oil)', dimension: 'volume', toBase: 158.987294928, aliases: ['barrel', 'barrels'] },
+  { code: 'ft3', name: 'Cubic foot', dimension: 'volume', toBase: 28.316846592, aliases: ['cf', 'scf', 'cubic_foot', 'cubic_feet'] },
+  { code: 'mcf', name: 'Thousand cubic feet', dimension: 'volume', toBase: 28316.846592, aliases: [] },
+
+  // Distance
+  { code: 'km', name: 'Kilometre', dimension: 'distance', toBase: 1, aliases: ['kms', 'kilometer', 'kilometers', 'kilometre', 'kilometres', 'vkm', 'vehicle_km'] },
+  { code: 'm', name: 'Metre', dimension: 'distance', toBase: 0.001, aliases: ['meter', 'meters', 'metre', 'metres'] },
+  { code: 'mi', name: 'Mile', dimension: 'distance', toBase: MILE_KM, aliases: ['mile', 'miles', 'vehicle_mile', 'vehicle_miles'] },
+  { code: 'nmi', name: 'Nautical mile', dimension: 'distance', toBase: 1.852, aliases: ['nautical_mile', 'nautical_miles'] },
+
+  // Freight
+  { code: 'tonne_km', name: 'Tonne-kilometre', dimension: 'freight', toBase: 1, aliases: ['tkm', 't_km', 'ton_km', 'tonne_kilometer', 'tonne_kilometers', 'tonne_kilometre', 'tonne_kilometres'] },
+  { code: 'ton_mile', name: 'Short ton-mile', dimension: 'freight', toBase: (SHORT_TON_KG / 1000) * MILE_KM, aliases: ['ton_miles', 'short_ton_mile', 'short_ton_miles'] },
+
+  // Passenger distance
+  { code: 'passenger_km', name: 'Passenger-kilometre', dimension: 'passenger_distance', toBase: 1, aliases: ['pkm', 'p_km', 'passenger_kilometer', 'passenger_kilometers', 'passenger_kilometre', 'passenger_kilometres'] },
+  { code: 'passenger_mile', name: 'Passenger-mile', dimension: 'passenger_distance', toBase: MILE_KM, aliases: ['passenger_miles', 'pmi'] },
+
+  // Area
+  { code: 'ha', name: 'Hectare', dimension: 'area', toBase: 1, aliases: ['hectare', 'hectares'] },
+  { code: 'm2', name: 'Square metre', dimension: 'area', toBase: 0.0001, aliases: ['sqm', 'square_meter', 'square_meters', 'square_metre', 'square_metres'] },
+  { code: 'km2', name: 'Square kilometre', dimension: 'area', toBase: 100, aliases: ['square_kilometer', 'square_kilometers'] },
+  { code: 'acre', name: 'Acre', dimension: 'area', toBase: 0.40468564224, aliases: ['acres'] },
+  { code: 'rai', name: 'Rai', dimension: 'area', toBase: 0.16, aliases: [] },
+
+  // Count
+  { code: 'unit', name: 'Unit', dimension: 'count', toBase: 1, aliases: ['units', 'item', 'items', 'piece', 'pieces', 'pcs'] },
+
+  // Currency
+  { code: 'usd', name: 'US dollar', dimension: 'currency', toBase: 1, aliases: ['us_dollar', 'us_dollars'] },
+  { code: 'eur', name: 'Euro', dimension: 'currency', toBase: 1, aliases: ['euro', 'euros'] },
+  { code: 'gbp', name: 'Pound sterling', dimension: 'currency', toBase: 1, aliases: [] },
+  { code: 'cny', name: 'Chinese yuan', dimension: 'currency', toBase: 1, aliases: ['rmb', 'yuan'] },
+  { code: 'jpy', name: 'Japanese yen', dimension: 'currency', toBase: 1, aliases: ['yen'] },
+  { code: 'krw', name: 'Korean won', dimension: 'currency', toBase: 1, aliases: ['won'] },
+  { code: 'thb', name: 'Thai baht', dimension: 'currency', toBase: 1, aliases: ['baht'] },
+  { code: 'sgd', name: 'Singapore dollar', dimension: 'currency', toBase: 1, aliases: [] },
+];
+
+/**
+ * Normalise a free-text unit for lookup ("Tonne-km" -> "tonne_km", "m³" -> "m3")
+ */
+export function normalizeUnitKey(unit: string): string {
+  return unit
+    .trim()
+    .toLowerCase()
+    .replace(/³/g, '3')
+    .replace(/²/g, '2')
+    .replace(/[\s\-.·]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+const UNIT_LOOKUP: Record<string, UnitDefinition> = UNITS.reduce((acc, unit) => {
+  for (const key of [unit.code, ...unit.aliases]) {
+    acc[key] = unit;
+  }
+  return acc;
+}, {} as Record<string, UnitDefinition>);
+
+export function getUnit(unit: string | null | undefined): UnitDefinition | null {
+  if (!unit) return null;
+  return UNIT_LOOKUP[normalizeUnitKey(unit)] || null;
+}
+
+export function getUnitDimension(unit: string): UnitDimension | null {
+  return getUnit(unit)?.dimension || null;
+}
+
+export function areUnitsCompatible(from: string, to: string): boolean {
+  const fromUnit = getUnit(from);
+  const toUnit = getUnit(to);
+  if (!fromUnit || !toUnit) {
+    return normalizeUnitKey(from) === normalizeUnitKey(to);
+  }
+  if (fromUnit.dimension === 'currency') {
+    return fromUnit.code === toUnit.code;
+  }
+  return fromUnit.dimension === toUnit.dimension;
+}
+
+/**
+ * Convert a quantity between units of the same dimension.
+ * Throws UnitConversionError for unknown units or mismatched dimensions.
+ */
+export function convertQuantity(value: number, from: string, to: string): number {
+  if (normalizeUnitKey(from) === normalizeUnitKey(to)) {
+    return value;
+  }
+
+  const fromUnit = getUnit(from);
+  const toUnit = getUnit(to);
+
+  if (!fromUnit || !toUnit) {
+    const unknown = !fromUnit ? from : to;
+    throw new UnitConversionError(`Unknown unit "${unknown}" cannot be converted to "${!fromUnit ? to : from}"`);
+  }
+
+  if (fromUnit.dimension !== toUnit.dimension) {
+    throw new UnitConversionError(
+      `Incompatible units: "${from}" (${fromUnit.dimension}) cannot be converted to "${to}" (${toUnit.dimension})`
+    );
+  }
+
+  if (fromUnit.dimension === 'currency' && fromUnit.code !== toUnit.code) {
+    throw new UnitConversionError(
+      `Currency "${from}" cannot be converted to "${to}" without an exchange rate`
+    );
+  }
+
+  return (value * fromUnit.toBase) / toUnit.toBase;
+}
+
+/**
+ * Split a compound unit key such as "diesel_l" or "tonne_km_road" into the
+ * measurement unit and the qualifier (fuel, mode, treatment route).
+ */
+export function splitUnitKey(key: string): { unit: UnitDefinition | null; qualifier: string } {
+  const normalized = normalizeUnitKey(key);
+  const direct = UNIT_LOOKUP[normalized];
+  if (direct) {
+    return { unit: direct, qualifier: '' };
+  }
+
+  const parts = normalized.split('_');
+  // Longest unit first, leading ("km_car") then trailing ("diesel_l")
+  for (let size = parts.length - 1; size > 0; size--) {
+    const leading = UNIT_LOOKUP[parts.slice(0, size).join('_')];
+    if (leading) {
+      return { unit: leading, qualifier: parts.slice(size).join('_') };
+    }
+    const trailing = UNIT_LOOKUP[parts.slice(parts.length - size).join('_')];
+    if (trailing) {
+      return { unit: trailing, qualifier: parts.slice(0, parts.length - size).join('_') };
+    }
+  }
+
+  return { unit: null, qualifier: normalized };
+}
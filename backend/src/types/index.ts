@@ -68,6 +68,10 @@ export type AuditAction =
   | 'SIGN_REPORT'
   | 'REVOKE_SIGNATURE'
   | 'REPARSE'
+  | 'RECALCULATE_GWP'
+  | 'RESTATE_BASE_YEAR'
+  | 'CALCULATE_SCENARIO'
+  | 'PUBLISH'
   | 'LOGIN'
   | 'LOGOUT';
 
@@ -81,6 +85,9 @@ export type ProjectStatus = 'active' | 'archived' | 'draft';
 // Report status type
 export type ReportStatus = 'generating' | 'completed' | 'failed' | 'signed';
 
+// xml is the EU CBAM registry quarterly report
+export type ReportFormat = 'pdf' | 'xlsx' | 'xml';
+
 // ============================================================================
 // PROJECT TYPES
 // ============================================================================
@@ -132,7 +139,7 @@ export interface StandardConfig {
     precursors: boolean;
   };
   report_sections: string[];
-  output_formats: ('pdf' | 'xlsx')[];
+  output_formats: ReportFormat[];
 }
 
 // ============================================================================
@@ -156,6 +163,10 @@ export interface Activity {
   country: string;
   material_type?: string;
   production_route?: string;
+  entity_id?: string | null;     // organizational entity; none means the reporting company
+  facility_id?: string | null;
+  product_id?: string | null;    // emissions belong to one product
+  process_id?: string | null;    // emissions belong to a shared process, split across its outputs
   emission_factor?: number;
   emission_factor_source?: string;
   emission_factor_unit?: string;
@@ -210,6 +221,114 @@ export const SCOPE3_CATEGORY_DIRECTIONS: Record<Scope3Category, Scope3Direction>
   investments: 'downstream',
 };
 
+// ============================================================================
+// GREENHOUSE GASES & GWP
+// ============================================================================
+
+// IPCC assessment report used for 100-year GWP values
+export type GWPSet = 'AR4' | 'AR5' | 'AR6';
+
+// Kyoto basket gases; HFCs and PFCs are tracked per species
+export type GreenhouseGas =
+  | 'CO2'
+  | 'CH4'
+  | 'CH4_fossil'
+  | 'CH4_non_fossil'
+  | 'N2O'
+  | 'HFC-23'
+  | 'HFC-32'
+  | 'HFC-125'
+  | 'HFC-134a'
+  | 'HFC-143a'
+  | 'HFC-152a'
+  | 'HFC-227ea'
+  | 'HFC-236fa'
+  | 'HFC-245fa'
+  | 'HFC-365mfc'
+  | 'PFC-14'
+  | 'PFC-116'
+  | 'PFC-218'
+  | 'PFC-318'
+  | 'SF6'
+  | 'NF3';
+
+// Mass of each gas, in kg (or kg per activity unit when used as a factor)
+export type GasAmounts = Partial<Record<GreenhouseGas, number>>;
+
+// Stored on activities/cfo_results so CO2e can be re-derived for another GWP set
+export interface GasBreakdown {
+  gwpSet: GWPSet;
+  gases: GasAmounts;
+  unspecifiedCo2e: number; // kg CO2e from factors without a per-gas split
+}
+
+// ============================================================================
+// UNITS
+// ============================================================================
+
+export type UnitDimension =
+  | 'energy'
+  | 'mass'
+  | 'volume'
+  | 'distance'
+  | 'freight'              // tonne-km
+  | 'passenger_distance'   // passenger-km
+  | 'currency'
+  | 'area'
+  | 'count';
+
+export interface UnitDefinition {
+  code: string;
+  name: string;
+  dimension: UnitDimension;
+  toBase: number; // multiplier to the dimension's base unit (kWh, kg, L, km, tonne-km, passenger-km, ha, unit)
+  aliases: string[];
+}
+
+// ============================================================================
+// SCOPE 2 CONTRACTUAL INSTRUMENTS
+// ============================================================================
+
+// Energy attribute certificates and contracts used for market-based Scope 2
+export type ContractualInstrumentType = 'ppa' | 'rec' | 'i_rec' | 'goo';
+
+export interface ContractualInstrument {
+  id?: string;
+  type: ContractualInstrumentType;
+  quantityKwh: number;
+  emissionFactor: number; // kg CO2e/kWh conveyed by the instrument (0 for renewables)
+  supplier?: string;
+  country?: string;
+  vintageYear?: number;
+  certificateIds?: string[];
+  trackingSystem?: string;
+  retired?: boolean;
+}
+
+export type Scope2QualityStatus = 'pass' | 'warning' | 'fail' | 'not_applicable';
+
+// GHG Protocol Scope 2 Guidance, Chapter 7 (Scope 2 Quality Criteria)
+export type Scope2QualityCriterion =
+  | 'emission_rate'
+  | 'unique_claim'
+  | 'retirement'
+  | 'vintage'
+  | 'same_market'
+  | 'supplier_specific'
+  | 'residual_mix';
+
+export interface Scope2QualityCheckItem {
+  criterion: Scope2QualityCriterion;
+  status: Scope2QualityStatus;
+  message: string;
+  instrumentIds?: string[];
+}
+
+export interface Scope2QualityCheck {
+  status: Scope2QualityStatus;
+  criteria: Scope2QualityCheckItem[];
+}
+
 // ============================================================================
 // EMISSION FACTORS
 // ============================================================================
@@ -249,6 +368,137 @@ export interface GridEmissionFactor {
   updated_at: Date;
 }
 
+// Versioned factor dataset, e.g. "DEFRA 2024" v1.1; its factors are frozen once published
+export type FactorDatasetStatus = 'draft' | 'published' | 'superseded';
+
+export interface FactorDataset {
+  id: string;
+  name: string;
+  version: string;
+  publisher?: string;
+  sourceUrl?: string;
+  description?: string;
+  status: FactorDatasetStatus;
+  publishedAt?: Date;
+}
+
+// Where and when an activity took place; used to rank candidate factors
+export interface FactorMatchContext {
+  country?: string | null;
+  region?: string | null;
+  year?: number | null;
+  date?: string | null;          // checked against valid_from / valid_to
+  category?: string | null;
+  sourcePriority?: string[];     // preferred sources or datasets, highest first
+  projectId?: string | null;     // project overrides take precedence
+}
+
+export type FactorCandidateKind = 'override' | 'emission_factor' | 'grid' | 'precursor' | 'default';
+
+// A factor considered by the matching engine
+export interface FactorCandidate {
+  key: string;                   // row id, or the bundled default key
+  kind: FactorCandidateKind;
+  label: string;
+  value: number;
+  unit: string | null;
+  qualifier: string | null;      // fuel, mode, route ("diesel" in "diesel_l")
+  scope: string | null;
+  category: string | null;
+  country: string | null;
+  region: string | null;
+  year: number | null;
+  validFrom: string | null;
+  validTo: string | null;
+  source: string;
+  createdAt: string | null;
+}
+
+export interface RankedFactorCandidate {
+  candidate: FactorCandidate;
+  rank: number | null;           // 1 is the chosen factor; null when excluded
+  matched: string[];
+  excluded: string | null;
+}
+
+// Outcome of factor matching: the chosen factor, why, and every candidate
+export interface FactorMatch {
+  chosen: FactorCandidate | null;
+  reason: string;
+  ambiguous: boolean;
+  tied: FactorCandidate[];               // top candidates that rank equally
+  candidates: RankedFactorCandidate[];
+}
+
+// Published factor files that can be parsed offline into a dataset
+export type FactorFileFormat = 'desnz' | 'epa_hub' | 'ipcc_efdb' | 'tgo';
+
+// Factor read from a published factor file, in emission_factors terms
+export interface ImportedEmissionFactor {
+  key: string;                    // unique within the file
+  name: string;
+  category: string;
+  subcategory: string | null;
+  activityType: string;
+  scope: EmissionScope;
+  unit: string;                   // activity unit code
+  factorValue: number;            // kg CO2e per activity unit
+  factorUnit: string;
+  gases: GasAmounts | null;       // kg of each gas per activity unit
+  source: string;
+  sourceYear: number;
+  region: string | null;
+  country: string | null;
+  uncertaintyMin: number | null;  // % below the value
+  uncertaintyMax: number | null;  // % above the value
+  metadata: Record<string, any>;
+  rows: number[];
+}
+
+export type FactorMappingStatus = 'mapped' | 'skipped' | 'error';
+
+// How one row of the source file was mapped
+export interface FactorMappingRow {
+  sheet: string;
+  row: number;
+  description: string;
+  status: FactorMappingStatus;
+  factorKeys: string[];
+  activityType: string | null;
+  unit: string | null;
+  notes: string[];
+}
+
+export interface FactorImportResult {
+  format: FactorFileFormat;
+  source: string;
+  sourceYear: number | null;
+  factors: ImportedEmissionFactor[];
+  report: FactorMappingRow[];
+  errors: ParsingError[];
+}
+
+// Exact factor version applied in a calculation
+export type FactorReferenceType =
+  | 'emission_factor'  // row of emission_factors
+  | 'default'          // bundled DEFAULT_EMISSION_FACTORS
+  | 'estimate'         // no factor found
+  | 'supplier'         // accepted supplier product footprint
+  | 'eeio'             // EEIO sector factor
+  | 'transport'        // GLEC shipment
+  | 'land_sector'      // IPCC Tier 1 land-sector model
+  | 'custom';          // entered with the calculation request
+
+export interface FactorReference {
+  type: FactorReferenceType;
+  id?: string;              // factor row version (or EEIO set, supplier submission)
+  lineageId?: string;       // shared by all versions of an emission_factors row
+  datasetId?: string | null;
+  dataset?: string | null;  // "<name> <version>"
+  key?: string;             // default factor key, EEIO sector code
+  version?: string;         // version of bundled defaults or intensities
+}
+
 export interface PrecursorFactor {
   id: string;
   material_type: CBAMMaterial;
@@ -272,6 +522,864 @@ export type CBAMMaterial =
   | 'hydrogen'
   | 'electricity';
 
+// Aggregated goods categories (Implementing Regulation (EU) 2023/1773, Annex II)
+export type CBAMGoodsCategory =
+  | 'calcined_clay'
+  | 'cement_clinker'
+  | 'cement'
+  | 'aluminous_cement'
+  | 'hydrogen'
+  | 'ammonia'
+  | 'nitric_acid'
+  | 'urea'
+  | 'mixed_fertilisers'
+  | 'sintered_ore'
+  | 'pig_iron'
+  | 'ferro_manganese'
+  | 'ferro_chromium'
+  | 'ferro_nickel'
+  | 'dri'
+  | 'crude_steel'
+  | 'iron_steel_products'
+  | 'unwrought_aluminium'
+  | 'aluminium_products'
+  | 'electricity';
+
+export interface CNCodeEntry {
+  code: string;                 // CN heading or subheading as listed in Annex I
+  description: string;
+  material: CBAMMaterial;
+  goodsCategory: CBAMGoodsCategory;
+  defaultRoute: string;
+  routes: string[];
+  precursors: CBAMGoodsCategory[];
+}
+
+// Scope 3 calculation methods (GHG Protocol Scope 3 Calculation Guidance)
+export type CalculationMethod = 'spend_based' | 'average_data' | 'supplier_specific';
+
+export interface EEIOFactorSet {
+  id: string;
+  name: string;
+  version: string;
+  source?: string;
+  region?: string;
+  currency: string;     // ISO 4217, e.g. 'USD'
+  baseYear: number;     // price year of the factors
+  priceBasis: 'purchaser' | 'basic';
+  isDefault: boolean;
+}
+
+export interface EEIOFactor {
+  sectorCode: string;
+  sectorName?: string;
+  factor: number;       // kg CO2e per currency unit at base year prices
+}
+
+export interface FxRate {
+  currency: string;
+  year: number;
+  unitsPerUsd: number;
+}
+
+export interface PriceIndex {
+  currency: string;
+  year: number;
+  value: number;
+}
+
+// ============================================================================
+// CBAM INSTALLATIONS
+// ============================================================================
+
+export interface CBAMInstallation {
+  id: string;
+  projectId: string;
+  name: string;
+  registryId?: string;          // installation identifier in the CBAM registry
+  operatorId?: string;
+  operatorName?: string;
+  country: string;              // ISO 3166-1 alpha-2
+  city?: string;
+  street?: string;
+  postCode?: string;
+  supplierName?: string;        // supplier that sent the operator template
+  dataSource?: 'manual' | 'operator_template';
+}
+
+export interface CBAMPrecursorInput {
+  goodsCategory: CBAMGoodsCategory;
+  consumedTonnes: number;
+  fromProcessId?: string;       // produced by another process of the same installation
+  seeDirect?: number;           // tCO2e/t, purchased precursors only
+  seeIndirect?: number;
+  source?: string;
+}
+
+export interface CBAMProductionProcess {
+  id: string;
+  name: string;
+  goodsCategory: CBAMGoodsCategory;
+  cnCodes: string[];
+  productionRoute?: string;
+  activityLevel: number;        // t of goods produced (MWh for electricity)
+  directEmissions: GasAmounts;  // t of each gas within the process boundary
+  heatImportedTj?: number;
+  heatExportedTj?: number;
+  heatEmissionFactor?: number;  // tCO2/TJ
+  electricityConsumedMwh?: number;
+  electricityExportedMwh?: number;
+  electricityEmissionFactor?: number; // tCO2/MWh
+  precursors: CBAMPrecursorInput[];
+}
+
+export interface CBAMProcessResult {
+  processId: string;
+  name: string;
+  goodsCategory: CBAMGoodsCategory;
+  productionRoute?: string;
+  activityLevel: number;
+  attributedDirect: number;     // tCO2e
+  attributedIndirect: number;
+  precursorDirect: number;
+  precursorIndirect: number;
+  seeDirect: number;            // tCO2e/t
+  seeIndirect: number;
+  seeTotal: number;
+}
+
+export interface CBAMCnCodeResult {
+  cnCode: string;
+  description?: string;
+  goodsCategory: CBAMGoodsCategory;
+  processId: string;
+  seeDirect: number;
+  seeIndirect: number;
+  seeTotal: number;
+}
+
+export interface CBAMEmbeddedEmissionsResult {
+  gwpSet: GWPSet;
+  processes: CBAMProcessResult[];
+  byCnCode: CBAMCnCodeResult[];
+  warnings: string[];
+}
+
+// Contents of the operator communication template exchanged with suppliers
+export interface CBAMOperatorTemplate {
+  reportingPeriod: { start: string; end: string }; // ISO dates
+  installation: Omit<CBAMInstallation, 'id' | 'projectId'>;
+  processes: CBAMProductionProcess[]; // ids and fromProcessId are template process IDs
+  reportedSEE: CBAMCnCodeResult[];
+}
+
+export interface CBAMOperatorTemplateParseResult {
+  template: CBAMOperatorTemplate;
+  errors: ParsingError[];
+}
+
+// ============================================================================
+// SUPPLIER PORTAL
+// ============================================================================
+
+export type SupplierSubmissionType = 'product_footprint' | 'activity_data';
+export type SupplierInviteStatus = 'invited' | 'submitted' | 'revoked';
+export type SupplierSubmissionStatus = 'submitted' | 'accepted' | 'rejected';
+
+export interface Supplier {
+  id: string;
+  projectId: string;
+  name: string;
+  contactName?: string;
+  contactEmail?: string;
+  country?: string;
+  supplierTier: number;         // supply chain depth
+}
+
+// Product carbon footprint declared by the supplier
+export interface ProductFootprintPayload {
+  productName: string;
+  productCode?: string;
+  declaredUnit: string;         // unit the footprint refers to, e.g. 'kg', 'unit'
+  pcfKgCo2ePerUnit: number;
+  quantity: number;             // declared units supplied in the reporting year
+  methodology?: string;         // e.g. 'ISO 14067', 'PACT'
+  primaryDataShare?: number;    // % of the footprint based on primary data
+  verified?: boolean;
+  notes?: string;
+}
+
+// Activity data attributable to the goods or services supplied
+export interface ActivityDataPayload {
+  activityType: string;
+  description?: string;
+  quantity: number;
+  unit: string;
+  scope3Category?: string;
+  notes?: string;
+}
+
+// Invite resolved from a portal token
+export interface SupplierInviteContext {
+  inviteId: string;
+  supplierId: string;
+  supplierName: string;
+  projectId: string;
+  submissionTypes: SupplierSubmissionType[];
+  reportingYear: number;
+}
+
+// ============================================================================
+// TRANSPORT (GLEC)
+// ============================================================================
+
+export type TransportMode = 'road' | 'rail' | 'sea' | 'inland_waterway' | 'air';
+
+export interface TransportLocation {
+  code: string;               // UN/LOCODE for ports and cities, IATA for airports
+  name: string;
+  country: string;            // ISO 3166-1 alpha-2
+  type: 'port' | 'city' | 'airport';
+  lat: number;
+  lon: number;
+}
+
+// A location code from the bundled table or explicit coordinates (e.g. a factory)
+export type TransportLocationInput = string | { name: string; lat: number; lon: number };
+
+export interface ShipmentLeg {
+  mode: TransportMode;
+  vehicleType?: string;
+  from?: TransportLocationInput;   // defaults to the end of the previous leg / shipment origin
+  to?: TransportLocationInput;     // defaults to the shipment destination on the last leg
+  distanceKm?: number;             // actual distance, skips the great-circle estimate
+  loadFactor?: number;             // share of capacity used, 0-1
+  emptyReturn?: boolean;           // vehicle returns empty
+  emissionIntensity?: number;      // g CO2e/tkm, overrides the default intensity
+}
+
+export interface Shipment {
+  origin: TransportLocationInput;
+  destination: TransportLocationInput;
+  weightTonnes: number;
+  legs: ShipmentLeg[];
+}
+
+export interface ShipmentLegResult {
+  mode: TransportMode;
+  vehicleType: string;
+  from: string;
+  to: string;
+  greatCircleKm: number | null;
+  distanceKm: number;
+  distanceSource: 'actual' | 'great_circle';
+  tonneKm: number;
+  emissionIntensity: number;       // g CO2e/tkm after load factor and empty running
+  emissionsKgCo2e: number;
+}
+
+export interface ShipmentResult {
+  weightTonnes: number;
+  distanceKm: number;
+  tonneKm: number;
+  emissionsKgCo2e: number;
+  legs: ShipmentLegResult[];
+}
+
+// ============================================================================
+// ORGANIZATIONAL BOUNDARY
+// ============================================================================
+
+// GHG Protocol Corporate Standard, Chapter 3
+export type ConsolidationMethod = 'equity_share' | 'financial_control' | 'operational_control';
+
+export type OrganizationalEntityType = 'subsidiary' | 'joint_venture' | 'associate' | 'division' | 'facility';
+
+// Ownership and control are held by the parent, or by the reporting company at the top level
+export interface OrganizationalEntity {
+  id: string;
+  projectId: string;
+  parentId: string | null;
+  name: string;
+  entityType: OrganizationalEntityType;
+  country: string | null;
+  ownershipPercent: number;
+  financialControl: boolean;
+  operationalControl: boolean;
+}
+
+// Site of a project; its country and grid region locate factor matching for its activities
+export interface Facility {
+  id: string;
+  projectId: string;
+  entityId: string | null;
+  name: string;
+  code: string | null;
+  address: string | null;
+  city: string | null;
+  country: string;
+  gridRegion: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  operationalFrom: string | null;
+  operationalTo: string | null;
+}
+
+// Share (0-1) of an entity's emissions the reporting company takes in under each approach
+export type ConsolidationShares = Record<ConsolidationMethod, number>;
+
+export interface EntityConsolidation {
+  entityId: string | null;       // null: activities not assigned to an entity
+  name: string;
+  path: string[];                // names from the top-level entity down
+  shares: ConsolidationShares;
+  grossKgCo2e: number;           // 100% of the entity's emissions
+  consolidatedKgCo2e: number;    // under the chosen approach
+}
+
+export interface ApproachTotals {
+  scope1: number;
+  scope2: number;                // location-based
+  scope3: number;
+  total: number;
+}
+
+// ============================================================================
+// BASE YEAR RECALCULATION
+// ============================================================================
+
+// GHG Protocol Corporate Standard, Chapter 5. Organic growth or decline never triggers a recalculation.
+export type StructuralChangeType =
+  | 'acquisition'
+  | 'divestment'
+  | 'outsourcing'
+  | 'insourcing'
+  | 'methodology_change'
+  | 'error_correction';
+
+// Base-year inventory in kgCO2e; the total includes Scope 2 location-based
+export interface BaseYearInventory {
+  scope1: number;
+  scope2Location: number;
+  scope2Market: number;
+  scope3: number;
+  total: number;
+}
+
+// kgCO2e a change adds to (positive) or removes from (negative) the base-year inventory
+export type BaseYearImpact = Omit<BaseYearInventory, 'total'>;
+
+export interface StructuralChange {
+  id: string;
+  projectId: string;
+  changeType: StructuralChangeType;
+  description: string;
+  effectiveDate: string | null;
+  entityId: string | null;
+  existedInBaseYear: boolean;    // acquisitions of entities founded after the base year are not restated
+  impact: BaseYearImpact;
+  restatementId: string | null;  // set once a restatement has applied the change
+}
+
+export interface BaseYearPolicy {
+  significanceThresholdPercent: number;
+  cumulative: boolean;           // compare the sum of pending changes, not only each change alone
+}
+
+export interface RecalculationAssessment {
+  baseYear: number;
+  policy: BaseYearPolicy;
+  baseTotal: number;
+  changes: Array<{
+    id: string;
+    changeType: StructuralChangeType;
+    description: string;
+    impactKgCo2e: number;        // net effect on the base-year total
+    impactPercent: number;
+    significant: boolean;
+    excluded?: string;           // why the change does not count towards a recalculation
+  }>;
+  cumulativeImpactKgCo2e: number;
+  cumulativeImpactPercent: number;
+  triggered: boolean;
+  reason: string;
+}
+
+// ============================================================================
+// EMISSION TARGETS
+// ============================================================================
+
+export type TargetType = 'absolute' | 'intensity';
+
+// SBTi cross-sector linear reduction pathways, or a custom reduction by the target year
+export type TargetPathway = 'sbti_1_5c' | 'sbti_wb2c' | 'custom';
+
+export type TargetScope = 'scope1' | 'scope2' | 'scope3';
+
+export type TargetStatus = 'on_track' | 'off_track' | 'achieved' | 'no_data';
+
+export interface EmissionTarget {
+  id: string;
+  projectId: string;
+  name: string;
+  targetType: TargetType;
+  scopes: TargetScope[];
+  scope2Method: 'location' | 'market';
+  baseYear: number;
+  targetYear: number;
+  pathway: TargetPathway;
+  reductionPercent: number;      // by the target year, relative to the base year
+  intensityUnit: string | null;  // denominator of an intensity target, e.g. 'tonne product'
+  intensityDenominators: Record<string, number>; // per year, for intensity targets
+}
+
+// kgCO2e for absolute targets, kgCO2e per intensity unit for intensity targets
+export interface TargetMilestone {
+  year: number;
+  targetValue: number;
+  reductionPercent: number;
+  actualValue: number | null;
+  status: 'on_track' | 'off_track' | 'upcoming' | 'no_data';
+}
+
+export interface TargetProgress {
+  targetId: string;
+  baseValue: number | null;
+  targetValue: number | null;
+  latestYear: number | null;
+  latestValue: number | null;
+  progressPercent: number | null; // share of the reduction to the target achieved so far
+  status: TargetStatus;
+  milestones: TargetMilestone[];
+}
+
+// ============================================================================
+// REDUCTION INITIATIVES
+// ============================================================================
+
+export type InitiativeStatus = 'planned' | 'approved' | 'implemented' | 'cancelled';
+
+export interface ReductionInitiative {
+  id: string;
+  projectId: string;
+  name: string;
+  description: string | null;
+  status: InitiativeStatus;
+  activityIds: string[];
+  categories: string[];          // activity types or Scope 3 categories
+  annualAbatementTCo2e: number;
+  capex: number;
+  annualOpex: number;            // change in operating cost per year, negative for savings
+  currency: string;
+  lifetimeYears: number;
+  startYear: number;
+}
+
+// One bar of a marginal abatement cost curve; bars are sorted by cost and laid
+// end to end, so x runs over cumulative abatement
+export interface MacCurveBar {
+  initiativeId: string;
+  name: string;
+  status: InitiativeStatus;
+  annualAbatementTCo2e: number;
+  annualizedCost: number;
+  costPerTonne: number;          // currency per tCO2e, negative where the initiative saves money
+  cumulativeStart: number;
+  cumulativeEnd: number;
+}
+
+export interface WedgeYear {
+  year: number;
+  baselineTCo2e: number;
+  wedges: Record<string, number>; // tCO2e abated, by initiative id
+  projectedTCo2e: number;
+}
+
+// ============================================================================
+// SCENARIOS
+// ============================================================================
+
+export type ScenarioStatus = 'draft' | 'calculated' | 'stale';
+
+export type ScenarioAdjustmentType =
+  | 'grid_factor'
+  | 'fuel_switch'
+  | 'renewable_share'
+  | 'supplier_change'
+  | 'quantity_reduction';
+
+// Activities an adjustment applies to; every given criterion must match, none matches all
+export interface ScenarioActivityMatch {
+  activityIds?: string[];
+  activityTypes?: string[];
+  scopes?: EmissionScope[];
+  scope3Categories?: string[];
+  facilityIds?: string[];
+}
+
+export type ScenarioAdjustment =
+  | { type: 'grid_factor'; label?: string; country?: string; factorKgCo2ePerKwh: number; match?: ScenarioActivityMatch }
+  | { type: 'fuel_switch'; label?: string; fromActivityType: string; toActivityType: string; toUnit?: string; conversionRatio?: number; match?: ScenarioActivityMatch }
+  | { type: 'renewable_share'; label?: string; country?: string; targetPercent: number }
+  | { type: 'supplier_change'; label?: string; supplierName: string; factorKgCo2ePerUnit: number; unit?: string; match: ScenarioActivityMatch }
+  | { type: 'quantity_reduction'; label?: string; percent: number; match?: ScenarioActivityMatch };
+
+export interface Scenario {
+  id: string;
+  projectId: string;
+  name: string;
+  description: string | null;
+  reportingYear: number;
+  consolidationMethod: ConsolidationMethod;
+  adjustments: ScenarioAdjustment[];
+  status: ScenarioStatus;
+  snapshotAt: string | null;
+  calculatedAt: string | null;
+}
+
+// CFO and CFP figures of a set of activities, in kg CO2e
+export interface ScenarioInventory {
+  scope1: number;
+  scope2Location: number;
+  scope2Market: number;
+  scope3Upstream: number;
+  scope3Downstream: number;
+  scope3CategoryBreakdown: Record<string, number>;
+  cfoTotal: number;
+  lifecycleStages: Record<'rawMaterials' | 'production' | 'distribution' | 'use' | 'endOfLife', number>;
+  cfpTotal: number;
+}
+
+export interface ScenarioComparisonLine {
+  actual: number;
+  scenario: number;
+  change: number;
+  changePercent: number | null;
+}
+
+// ============================================================================
+// UNCERTAINTY
+// ============================================================================
+
+export type UncertaintyDistribution = 'normal' | 'lognormal' | 'triangular';
+
+// An uncertain input: an activity's quantity, or a factor shared by the
+// activities that use it. Percentages bound the 95% interval below and above
+// the value (the minimum and maximum for triangular).
+export interface UncertaintyInput {
+  key: string;
+  kind: 'activity_data' | 'emission_factor';
+  label: string;
+  distribution: UncertaintyDistribution;
+  lowerPercent: number;
+  upperPercent: number;
+  isDefault: boolean;        // no uncertainty recorded, a default was assumed
+}
+
+export interface UncertaintyInterval {
+  mean: number;              // kg CO2e
+  median: number;
+  lower: number;             // 2.5th percentile
+  upper: number;             // 97.5th percentile
+  lowerPercent: number;      // (mean - lower) / mean
+  upperPercent: number;      // (upper - mean) / mean
+}
+
+export interface SensitivityEntry {
+  rank: number;
+  key: string;
+  kind: UncertaintyInput['kind'];
+  label: string;
+  correlation: number;            // with the total
+  contributionToVariance: number; // %, squared correlations normalised to 100
+}
+
+export interface UncertaintyAnalysis {
+  iterations: number;
+  seed: number;
+  confidenceLevel: 95;
+  calculatedTotal: number;   // kg CO2e, without sampling
+  total: UncertaintyInterval;
+  byScope: Record<string, UncertaintyInterval>;
+  byCategory: Record<string, UncertaintyInterval>;
+  sensitivity: SensitivityEntry[];
+  inputs: {
+    activityData: number;
+    emissionFactors: number;
+    defaultsAssumed: number;
+  };
+}
+
+// ============================================================================
+// PRODUCTS
+// ============================================================================
+
+export type LifecycleStage = 'rawMaterials' | 'production' | 'distribution' | 'use' | 'endOfLife';
+
+// ISO 14044 4.3.4: physical (mass, energy content), economic value, or
+// system expansion by substitution
+export type AllocationMethod = 'mass' | 'energy' | 'economic' | 'substitution';
+
+// A material or component per declared unit of the product. A line naming a
+// component product carries that product's footprint; other lines document
+// the product system.
+export interface BillOfMaterialsLine {
+  name: string;
+  quantity: number;
+  unit: string | null;
+  componentProductId: string | null;
+}
+
+export interface Product {
+  id: string;
+  projectId: string;
+  name: string;
+  code: string | null;
+  declaredUnit: string;            // e.g. 'kg', 'kWh'
+  functionalUnit: string | null;   // e.g. '1 kg white sugar in 500 g retail bags'
+  annualOutput: number;            // declared units produced in the reporting period
+  // Allocation keys per declared unit
+  massPerUnitKg: number | null;    // where the declared unit is not a mass
+  energyMjPerUnit: number | null;  // energy content, where the declared unit is not an energy
+  pricePerUnit: number | null;
+  priceCurrency: string | null;
+  substitutionKgCo2ePerUnit: number | null; // footprint of what the product displaces
+  billOfMaterials: BillOfMaterialsLine[];
+}
+
+// Quantity of a product, in its declared unit, coming out of a process
+export interface ProcessOutput {
+  productId: string;
+  quantity: number;
+}
+
+// A process step shared by its outputs (co-products)
+export interface ProductProcess {
+  id: string;
+  projectId: string;
+  name: string;
+  description: string | null;
+  lifecycleStage: LifecycleStage | null; // null: each activity's stage from its scope and category
+  sequence: number;
+  outputs: ProcessOutput[];
+  allocationMethod: AllocationMethod | null; // null: the method the CFP is calculated with
+  allocationJustification: string | null;
+}
+
+export interface ProductFootprint {
+  productId: string;
+  productName: string;
+  declaredUnit: string;
+  functionalUnit: string | null;
+  outputQuantity: number;
+  lifecycleStages: Record<LifecycleStage, number>;
+  sources: {
+    direct: number;       // activities assigned to the product
+    allocated: number;    // its share of shared processes
+    components: number;   // component products in the bill of materials
+  };
+  allocations: Array<{
+    processId: string;
+    processName: string;
+    method: AllocationMethod;
+    justification: string | null;
+    sharePercent: number;
+    emissions: number;
+  }>;
+  components: Array<{ productId: string; productName: string; quantity: number; emissions: number }>;
+  biogenicCarbon: number;
+  landSector: LandSectorFlows;
+  cfpTotal: number;       // kg CO2e for the output quantity
+  cfpPerUnit: number;     // kg CO2e per declared unit
+}
+
+// A product's footprint per declared unit with every shared process
+// allocated by each method in turn
+export interface AllocationSensitivity {
+  productId: string;
+  productName: string;
+  declaredUnit: string;
+  applied: number;
+  byMethod: Record<AllocationMethod, number>;
+  spreadPercent: number;  // (highest - lowest) / applied
+}
+
+// ============================================================================
+// LAND SECTOR
+// ============================================================================
+
+// IPCC Tier 1 models an activity can carry in metadata.landSector
+export type LandSectorModel =
+  | 'managed_soils'       // N2O from nitrogen applied to soils, CO2 from urea (quantity: N applied)
+  | 'residue_burning'     // burning crop residues in the field (quantity: area burnt)
+  | 'land_use_change'     // direct land-use change, amortised over 20 years (quantity: area converted)
+  | 'biomass_combustion'  // biomass burnt as fuel (quantity: mass of fuel)
+  | 'biogenic_uptake';    // CO2 taken up in biomass that leaves in the product (quantity: mass)
+
+// Where the emissions an activity adds to the inventory totals are reported
+export type LandSectorCategory = 'managedSoils' | 'residueBurning' | 'landUseChange' | 'biomassCombustion';
+
+// Stored with a calculated activity in emission_factor_used.landSector
+export interface LandSectorCalculation {
+  model: LandSectorModel;
+  category: LandSectorCategory | null;
+  parameters: Record<string, string | number | boolean>; // IPCC defaults filled in
+  // kg per activity unit, reported outside the inventory totals
+  reported: {
+    biogenicCo2Emissions: number;
+    biogenicRemovals: number;        // positive
+    indirectLandUseChange: number;   // kg CO2e
+  };
+}
+
+// kg CO2e. The first five make up the inventory total; the rest are
+// reported separately and never netted against it.
+export interface LandSectorFlows {
+  fossil: number;                    // activities without a land-sector model
+  managedSoils: number;
+  residueBurning: number;
+  landUseChange: number;             // direct (dLUC)
+  biomassCombustion: number;         // CH4 and N2O; the CO2 is biogenic
+  indirectLandUseChange: number;     // iLUC
+  biogenicCo2Emissions: number;
+  biogenicRemovals: number;          // positive
+}
+
+// ============================================================================
+// CARBON CREDITS
+// ============================================================================
+
+export type CreditRegistry = 'verra' | 'gold_standard' | 'ccer' | 't_ver' | 'j_credit' | 'k_oc';
+
+export type CreditType = 'avoidance' | 'removal';
+
+export type CreditStatus = 'held' | 'retired';
+
+// A block of credits with consecutive serial numbers, one credit per tCO2e.
+// Retiring part of a block splits it in two.
+export interface CarbonCredit {
+  id: string;
+  projectId: string;
+  registry: CreditRegistry;
+  registryProjectId: string | null;  // e.g. VCS 1748
+  projectName: string | null;
+  projectType: string;               // e.g. 'renewable_energy', 'reforestation'
+  creditType: CreditType;
+  vintage: number;
+  serialPrefix: string;              // registry block identifier the serial numbers run within
+  serialStart: number;
+  serialEnd: number;
+  quantity: number;                  // tCO2e
+  status: CreditStatus;
+  purchaseDate: string | null;
+  pricePerCredit: number | null;
+  currency: string | null;
+  retirementDate: string | null;
+  retiredForYear: number | null;     // reporting year the retirement is claimed against
+  productId: string | null;          // claimed against a product's CFP; otherwise the CFO
+  beneficiary: string | null;
+}
+
+// Gross emissions, credits retired against them and the net, kept apart
+export interface CreditNetView {
+  grossKgCo2e: number;
+  creditsRetiredTCo2e: number;
+  avoidanceTCo2e: number;
+  removalTCo2e: number;
+  netKgCo2e: number;
+  netPerUnit?: number;               // CFP only, kg CO2e per declared unit
+  credits: Array<{
+    id: string;
+    registry: CreditRegistry;
+    serials: string;
+    vintage: number;
+    creditType: CreditType;
+    quantity: number;
+  }>;
+}
+
+// ============================================================================
+// CHINA NATIONAL ETS
+// ============================================================================
+
+export type ChinaEtsSector = 'power' | 'cement' | 'aluminium';
+
+// Benchmark categories of the MEE allocation plans
+export type ChinaEtsUnitType =
+  | 'coal_above_300mw'          // conventional coal, above 300 MW class
+  | 'coal_300mw_and_below'      // conventional coal, 300 MW class and below
+  | 'coal_unconventional'       // coal gangue, slurry, CFB units
+  | 'gas'
+  | 'cement_clinker'
+  | 'aluminium_electrolysis';
+
+// Fuel burnt by a unit, for the emissions report (MEE power facility guideline)
+export interface ChinaEtsFuel {
+  fuel: string;
+  consumption: number;
+  unit: string;                  // e.g. 't', '10^4 Nm3'
+  ncvGjPerUnit: number;          // low heating value
+  carbonContentTCPerGj: number;  // element carbon content per unit of heat
+  oxidationRate: number;         // 0-1
+}
+
+// A generating unit (or production line) and its data for one year
+export interface ChinaEtsUnit {
+  id: string;
+  projectId: string;
+  facilityId: string | null;
+  name: string;
+  unitCode: string;
+  unitType: ChinaEtsUnitType;
+  capacityMw: number | null;
+  coolingType: 'water' | 'air';
+  reportingYear: number;
+  powerSuppliedMwh: number;
+  heatSuppliedGj: number;
+  heatSupplyRatio: number;       // 0-1, share of heat output supplied as heat
+  loadFactor: number | null;     // 0-1, for pure-condensing coal units
+  productionOutput: number;      // t clinker or t aluminium, for non-power sectors
+  benchmark: number | null;      // t CO2 per unit output, overriding the loaded benchmark
+  verifiedEmissionsTCo2: number | null;
+  purchasedElectricityMwh: number;
+  fuels: ChinaEtsFuel[];
+  verifier: string | null;
+}
+
+// Free allocation of one unit against its emissions, t CO2
+export interface ChinaEtsAllocation {
+  unitId: string;
+  unitCode: string;
+  name: string;
+  unitType: ChinaEtsUnitType;
+  sector: ChinaEtsSector;
+  benchmarkYear: number | null;
+  benchmarks: { power?: number; heat?: number; product?: number };
+  corrections: { cooling: number; heatSupply: number; load: number };
+  powerAllowance: number;
+  heatAllowance: number;
+  productAllowance: number;
+  allowance: number;
+  emissions: number;
+  emissionsSource: 'verified' | 'fuel_data' | 'activities' | 'none';
+  surplus: number;               // negative for a deficit
+}
+
+export interface ChinaEtsCompliance {
+  year: number;
+  allocationPlan: string;
+  units: ChinaEtsAllocation[];
+  allowance: number;
+  verifiedEmissions: number;
+  surplus: number;               // allowance minus emissions, negative for a deficit
+  obligation: number;            // allowances to surrender after the gap cap and gas-unit rule
+  gapCapPercent: number | null;
+  ccer: { limitPercent: number; limit: number; retired: number; usable: number };
+  position: number;              // allowance and usable CCER minus the obligation
+  status: 'surplus' | 'balanced' | 'deficit';
+  warnings: string[];
+}
+
 // ============================================================================
 // CALCULATION RESULTS
 // ============================================================================
@@ -280,14 +1388,56 @@ export interface CalculationRun {
   id: string;
   project_id: string;
   triggered_by: string;
-  calculation_type: 'cfp' | 'cfo' | 'both';
+  calculation_type: 'activity' | 'project' | 'cfp' | 'cfo' | 'both';
   status: 'pending' | 'running' | 'completed' | 'failed';
+  gwp_set: GWPSet;
+  tier2plus_multiplier: number;
+  activity_count: number;
+  total_emissions_kg_co2e: number;
   started_at: Date;
   completed_at?: Date;
   error_message?: string;
   created_at: Date;
 }
 
+// Factor as applied to one activity: per activity unit, pinned to its source version
+export interface AppliedFactor {
+  factor: number;            // kg CO2e per activity unit
+  gases: GasAmounts | null;  // kg of each gas per activity unit
+  unit: string;              // unit the factor is published in
+  conversionFactor: number;  // factor units per activity unit
+  source: string;
+  reference: FactorReference;
+  matchReason?: string;      // why the factor matcher chose this factor
+}
+
+// Activity fields a calculation depends on, snapshotted with the run
+export interface CalculationInputs {
+  activityType: string;
+  scope: EmissionScope;
+  quantity: number;
+  unit: string;
+  tierLevel: string | null;
+  calculationMethod: CalculationMethod | null;
+  metadata: Record<string, any>;
+  emissionFactorId?: string;      // factor row chosen with the calculation request
+  customEmissionFactor?: number;  // factor entered with the calculation request
+  matchContext?: FactorMatchContext;
+}
+
+export interface CalculationRunItem {
+  id: string;
+  run_id: string;
+  activity_id: string | null;
+  inputs: CalculationInputs;
+  factor: AppliedFactor;
+  tier_multiplier: number;
+  precursor_emissions: number;
+  gas_breakdown: GasBreakdown;
+  total_emissions_kg_co2e: number;
+  created_at: Date;
+}
+
 export interface CFPResult {
   id: string;
   calculation_run_id: string;
@@ -359,7 +1509,7 @@ export interface Report {
   project_id: string;
   batch_id?: string;
   standard: ReportStandard;
-  format: 'pdf' | 'xlsx';
+  format: ReportFormat;
   status: 'pending' | 'generating' | 'completed' | 'failed';
   file_path?: string;
   file_size?: number;
@@ -396,7 +1546,7 @@ export interface ReportBatch {
   id: string;
   project_id: string;
   standards: ReportStandard[];
-  formats: ('pdf' | 'xlsx')[];
+  formats: ReportFormat[];
   status: 'pending' | 'processing' | 'completed' | 'partial' | 'failed';
   total_reports: number;
   completed_reports: number;
@@ -490,6 +1640,7 @@ export interface UploadedFile {
 }
 
 export interface ParsingError {
+  sheet?: string;
   row: number;
   column: string;
   value: any;
@@ -516,8 +1667,9 @@ export interface CalculateCFORequest {
 export interface CalculatePrecursorsRequest {
   projectId: string;
   goods: {
-    material: CBAMMaterial;
-    productionRoute: string;
+    material?: CBAMMaterial;
+    cnCode?: string;              // derives material and default route
+    productionRoute?: string;
     quantity: number;
   }[];
 }
@@ -525,7 +1677,7 @@ export interface CalculatePrecursorsRequest {
 export interface BatchReportRequest {
   projectId: string;
   standards: ReportStandard[];
-  formats: ('pdf' | 'xlsx')[];
+  formats: ReportFormat[];
   includeAuditTrail: boolean;
   signatureRequired: boolean;
 }
@@ -0,0 +1,118 @@
+/**
+ * Base Year Service Unit Tests
+ * Tests for the significance test, restated inventories and the policy
+ */
+import {
+  assessRecalculation,
+  restateInventory,
+  projectPolicy,
+  cfoInventory,
+} from '../../src/services/baseYearService';
+import type { BaseYearInventory, StructuralChange } from '../../src/types';
+
+jest.mock('../../src/config/database', () => ({
+  db: { query: jest.fn(), queryOne: jest.fn() },
+}));
+
+const acquisition: StructuralChange = {
+  id: 'plant',
+  projectId: 'p1',
+  changeType: 'acquisition',
+  description: 'plant',
+  effectiveDate: null,
+  entityId: null,
+  existedInBaseYear: true,
+  impact: { scope1: 0, scope2Location: 0, scope2Market: 0, scope3: 0 },
+  restatementId: null,
+};
+
+// 1,000 t base year
+const inventory: BaseYearInventory = {
+  scope1: 400000,
+  scope2Location: 300000,
+  scope2Market: 250000,
+  scope3: 300000,
+  total: 1000000,
+};
+
+const policy = { significanceThresholdPercent: 5, cumulative: true };
+
+describe('Base Year Service', () => {
+  describe('assessRecalculation', () => {
+    it('should trigger on a single change at the threshold', () => {
+      const assessment = assessRecalculation(2020, inventory, [
+        { ...acquisition, impact: { scope1: 30000, scope2Location: 20000, scope2Market: 20000, scope3: 0 } },
+      ], policy);
+
+      expect(assessment.triggered).toBe(true);
+      expect(assessment.changes[0].impactPercent).toBe(5);
+      expect(assessment.changes[0].significant).toBe(true);
+      expect(assessment.reason).toContain('Acquisition "plant"');
+    });
+
+    it('should add up the absolute effects of changes under a cumulative policy', () => {
+      const changes: StructuralChange[] = [
+        { ...acquisition, id: 'bought', description: 'bought', impact: { scope1: 30000, scope2Location: 0, scope2Market: 0, scope3: 0 } },
+        { ...acquisition, id: 'sold', description: 'sold', changeType: 'divestment', impact: { scope1: -25000, scope2Location: 0, scope2Market: 0, scope3: 0 } },
+      ];
+
+      const cumulative = assessRecalculation(2020, inventory, changes, policy);
+      expect(cumulative.changes.every((c) => !c.significant)).toBe(true);
+      expect(cumulative.cumulativeImpactPercent).toBe(5.5);
+      expect(cumulative.triggered).toBe(true);
+
+      const individual = assessRecalculation(2020, inventory, changes, { ...policy, cumulative: false });
+      expect(individual.triggered).toBe(false);
+      expect(individual.reason).toContain('largest 3%');
+    });
+
+    it('should not count operations that did not exist in the base year', () => {
+      const assessment = assessRecalculation(2020, inventory, [
+        { ...acquisition, id: 'new build', description: 'new build', existedInBaseYear: false, impact: { scope1: 200000, scope2Location: 0, scope2Market: 0, scope3: 0 } },
+      ], policy);
+
+      expect(assessment.triggered).toBe(false);
+      expect(assessment.changes[0].excluded).toContain('did not exist in the base year');
+      expect(assessment.cumulativeImpactKgCo2e).toBe(0);
+    });
+  });
+
+  describe('restateInventory', () => {
+    it('should apply included changes per scope and recompute the total', () => {
+      const restated = restateInventory(inventory, [
+        { ...acquisition, impact: { scope1: 30000, scope2Location: 20000, scope2Market: 15000, scope3: 0 } },
+        { ...acquisition, id: 'error', description: 'error', changeType: 'error_correction', impact: { scope1: 0, scope2Location: 0, scope2Market: 0, scope3: -10000 } },
+        { ...acquisition, id: 'new build', description: 'new build', existedInBaseYear: false, impact: { scope1: 99999, scope2Location: 0, scope2Market: 0, scope3: 0 } },
+      ]);
+
+      expect(restated).toEqual({
+        scope1: 430000,
+        scope2Location: 320000,
+        scope2Market: 265000,
+        scope3: 290000,
+        total: 1040000,
+      });
+    });
+  });
+
+  describe('projectPolicy', () => {
+    it('should default to a cumulative 5% threshold', () => {
+      expect(projectPolicy({})).toEqual({ significanceThresholdPercent: 5, cumulative: true });
+      expect(projectPolicy({ baseYearPolicy: { significanceThresholdPercent: 10, cumulative: false } }))
+        .toEqual({ significanceThresholdPercent: 10, cumulative: false });
+    });
+  });
+
+  describe('cfoInventory', () => {
+    it('should read the scope totals of a CFO result', () => {
+      expect(cfoInventory({
+        scope1_emissions: '100',
+        scope2_location_emissions: '50',
+        scope2_market_emissions: '40',
+        scope3_upstream_emissions: '30',
+        scope3_downstream_emissions: '20',
+        cfo_total: '200',
+      })).toEqual({ scope1: 100, scope2Location: 50, scope2Market: 40, scope3: 50, total: 200 });
+    });
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Calculation Run Service Unit Tests
+ * Tests for pinned factor references, run replay and diffs against current factors
+ */
+import {
+  computeEmissions,
+  sameBreakdown,
+  resolveActivityFactor,
+  replayRun,
+  diffRun,
+} from '../../src/services/calculationRunService';
+import { DEFAULT_FACTORS_VERSION } from '../../src/services/ghgService';
+import { db } from '../../src/config/database';
+import type { AppliedFactor, CalculationInputs } from '../../src/types';
+
+jest.mock('../../src/config/database', () => ({
+  db: { query: jest.fn(), queryOne: jest.fn() },
+}));
+
+jest.mock('../../src/config/redis', () => ({
+  redis: { get: jest.fn().mockResolvedValue(null), setex: jest.fn() },
+}));
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: { warn: jest.fn(), info: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const mockedDb = db as jest.Mocked<typeof db>;
+
+const dieselInputs: CalculationInputs = {
+  activityType: 'stationary_combustion',
+  scope: 'scope1',
+  quantity: 1234.5,
+  unit: 'l',
+  tierLevel: 'tier1',
+  calculationMethod: null,
+  metadata: {},
+};
+
+const pinnedFactor: AppliedFactor = {
+  factor: 2.7,
+  gases: null,
+  unit: 'l',
+  conversionFactor: 1,
+  source: 'DEFRA 2023',
+  reference: { type: 'emission_factor', id: 'ef-2023', lineageId: 'ef-2023', datasetId: 'ds-2023', dataset: 'DEFRA 2023 v1.0' },
+};
+
+// Row as stored by recordRun and read back from PostgreSQL (DECIMAL columns as strings)
+function storedItem(factor: AppliedFactor, inputs: CalculationInputs = dieselInputs) {
+  const { gasBreakdown, totalEmissions } = computeEmissions(inputs.quantity, factor, 'AR5', 1);
+  return {
+    activity_id: 'activity-1',
+    inputs: JSON.parse(JSON.stringify(inputs)),
+    factor: JSON.parse(JSON.stringify(factor)),
+    tier_multiplier: 1,
+    precursor_emissions: '0.0000',
+    gas_breakdown: JSON.parse(JSON.stringify(gasBreakdown)),
+    total_emissions_kg_co2e: totalEmissions.toFixed(4),
+  };
+}
+
+const run = { id: 'run-1', gwp_set: 'AR5', total_emissions_kg_co2e: '3333.1500' };
+
+describe('Calculation Run Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('computeEmissions', () => {
+    it('should apply tier multiplier and precursor emissions', () => {
+      const { gasBreakdown, totalEmissions } = computeEmissions(100, { factor: 2, gases: null }, 'AR5', 1.3, 5);
+      expect(gasBreakdown.unspecifiedCo2e).toBeCloseTo(265, 10);
+      expect(totalEmissions).toBe(265);
+    });
+
+    it('should compare breakdowns gas by gas regardless of key order', () => {
+      const a = { gwpSet: 'AR5' as const, gases: { CO2: 1, CH4: 0.1 }, unspecifiedCo2e: 0 };
+      const b = { gwpSet: 'AR5' as const, gases: { CH4: 0.1, CO2: 1 }, unspecifiedCo2e: 0 };
+      expect(sameBreakdown(a, b)).toBe(true);
+      expect(sameBreakdown(a, { ...b, gases: { CO2: 1, CH4: 0.1000001 } })).toBe(false);
+    });
+  });
+
+  describe('resolveActivityFactor', () => {
+    it('should pin the emission_factors row version and its dataset', async () => {
+      mockedDb.query.mockResolvedValueOnce({
+        rows: [{
+          id: 'ef-2024', lineage_id: 'ef-2023', dataset_id: 'ds-2024', factor_value: '2.66',
+          gwp_values: null, source: 'DEFRA 2024', unit: 'l',
+          dataset_name: 'DEFRA 2024', dataset_version: 'v1.1',
+        }],
+        rowCount: 1,
+      });
+
+      const { applied, factorSource } = await resolveActivityFactor(
+        { activity_type: 'stationary_combustion', unit: 'l', scope: 'scope1', metadata: {} },
+        'AR5'
+      );
+
+      expect(factorSource).toBe('default');
+      expect(applied.factor).toBe(2.66);
+      expect(applied.reference).toEqual({
+        type: 'emission_factor',
+        id: 'ef-2024',
+        lineageId: 'ef-2023',
+        datasetId: 'ds-2024',
+        dataset: 'DEFRA 2024 v1.1',
+      });
+      expect(mockedDb.query.mock.calls[0][0]).toContain('superseded_at IS NULL');
+    });
+
+    it('should pin the version of bundled default factors', async () => {
+      mockedDb.query.mockResolvedValueOnce({ rows: [], rowCount: 0 });
+
+      const { applied } = await resolveActivityFactor(
+        { activity_type: 'stationary_combustion', unit: 'diesel_l', scope: 'scope1', metadata: {} },
+        'AR5'
+      );
+
+      expect(applied.reference).toEqual({
+        type: 'default',
+        key: 'stationary_combustion:diesel_l',
+        version: DEFAULT_FACTORS_VERSION,
+      });
+      expect(applied.gases).toEqual({ CO2: 2.676, CH4: 0.000108, N2O: 0.0000216 });
+    });
+  });
+
+  describe('replayRun', () => {
+    it('should reproduce a stored run exactly', async () => {
+      mockedDb.queryOne.mockResolvedValueOnce(run);
+      mockedDb.query.mockResolvedValueOnce({ rows: [storedItem(pinnedFactor)], rowCount: 1 });
+
+      const replay = await replayRun('run-1', 'project-1');
+
+      expect(replay.reproduced).toBe(true);
+      expect(replay.items[0].replayedKgCo2e).toBe(3333.15);
+      expect(replay.items[0].reference.id).toBe('ef-2023');
+    });
+
+    it('should flag an item whose stored result no longer matches', async () => {
+      const tampered = { ...storedItem(pinnedFactor), total_emissions_kg_co2e: '3333.1600' };
+      mockedDb.queryOne.mockResolvedValueOnce(run);
+      mockedDb.query.mockResolvedValueOnce({ rows: [tampered], rowCount: 1 });
+
+      const replay = await replayRun('run-1', 'project-1');
+
+      expect(replay.reproduced).toBe(false);
+      expect(replay.items[0].storedKgCo2e).toBe(3333.16);
+    });
+  });
+
+  describe('diffRun', () => {
+    it('should follow an explicitly chosen factor to its current version', async () => {
+      const inputs = { ...dieselInputs, emissionFactorId: 'ef-2023' };
+      mockedDb.queryOne
+        .mockResolvedValueOnce(run)
+        .mockResolvedValueOnce({ id: 'ef-2024' })
+        .mockResolvedValueOnce({
+          id: 'ef-2024', lineage_id: 'ef-2023', dataset_id: 'ds-2024', factor_value: '2.5',
+          gwp_values: null, source: 'DEFRA 2024', unit: 'l',
+          dataset_name: 'DEFRA 2024', dataset_version: 'v1.1',
+        });
+      mockedDb.query.mockResolvedValueOnce({ rows: [storedItem(pinnedFactor, inputs)], rowCount: 1 });
+
+      const diff = await diffRun('run-1', 'project-1');
+
+      expect(diff.changed).toBe(1);
+      expect(diff.items[0].currentFactor?.reference.id).toBe('ef-2024');
+      expect(diff.currentTotalKgCo2e).toBe(3086.25);
+      expect(diff.differenceKgCo2e).toBe(-246.9);
+    });
+
+    it('should leave custom factors unchanged', async () => {
+      const custom: AppliedFactor = { ...pinnedFactor, source: 'custom', reference: { type: 'custom' } };
+      const inputs = { ...dieselInputs, customEmissionFactor: 2.7 };
+      mockedDb.queryOne.mockResolvedValueOnce(run);
+      mockedDb.query.mockResolvedValueOnce({ rows: [storedItem(custom, inputs)], rowCount: 1 });
+
+      const diff = await diffRun('run-1', 'project-1');
+
+      expect(diff.changed).toBe(0);
+      expect(diff.differenceKgCo2e).toBe(0);
+    });
+  });
+});
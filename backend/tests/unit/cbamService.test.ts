@@ -0,0 +1,130 @@
+/**
+ * CBAM Service Unit Tests
+ * Tests for installation-level specific embedded emissions (Annex III)
+ */
+import { calculateEmbeddedEmissions, getRelevantGases, DEFAULT_HEAT_EMISSION_FACTOR } from '../../src/services/cbamService';
+import { getGWP } from '../../src/services/gwpService';
+import type { CBAMProductionProcess } from '../../src/types';
+
+jest.mock('../../src/config/database', () => ({
+  db: { query: jest.fn() },
+}));
+
+jest.mock('../../src/config/redis', () => ({
+  redis: { get: jest.fn().mockResolvedValue(null), setex: jest.fn() },
+}));
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: { warn: jest.fn(), info: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const sinter: CBAMProductionProcess = {
+  id: 'sinter',
+  name: 'Sinter plant',
+  goodsCategory: 'sintered_ore',
+  cnCodes: [],
+  activityLevel: 1000,
+  directEmissions: { CO2: 200 },
+  precursors: [],
+};
+
+const blastFurnace: CBAMProductionProcess = {
+  id: 'bf',
+  name: 'Blast furnace',
+  goodsCategory: 'pig_iron',
+  cnCodes: ['7201 10 11'],
+  productionRoute: 'BF-BOF',
+  activityLevel: 800,
+  directEmissions: { CO2: 1200 },
+  electricityConsumedMwh: 100,
+  electricityEmissionFactor: 0.5,
+  precursors: [{ goodsCategory: 'sintered_ore', consumedTonnes: 1000, fromProcessId: 'sinter' }],
+};
+
+describe('CBAM Service', () => {
+  describe('getRelevantGases', () => {
+    it('should follow the Annex II system boundaries', () => {
+      expect(getRelevantGases('crude_steel')).toEqual(['CO2']);
+      expect(getRelevantGases('nitric_acid')).toContain('N2O');
+      expect(getRelevantGases('unwrought_aluminium')).toContain('PFC-14');
+    });
+  });
+
+  describe('calculateEmbeddedEmissions', () => {
+    it('should carry internal precursor SEE into the consuming process', () => {
+      // Processes given out of order: the sinter plant must be calculated first
+      const result = calculateEmbeddedEmissions([blastFurnace, sinter], 'AR5');
+
+      const bf = result.processes[0];
+      expect(bf.processId).toBe('bf');
+      expect(bf.precursorDirect).toBe(200);
+      expect(bf.seeDirect).toBeCloseTo((1200 + 1000 * 0.2) / 800);
+      expect(bf.seeIndirect).toBeCloseTo(50 / 800);
+      expect(result.byCnCode).toEqual([
+        expect.objectContaining({ cnCode: '72011011', goodsCategory: 'pig_iron', seeTotal: bf.seeTotal }),
+      ]);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('should weight purchased precursors by consumed mass', () => {
+      const rolling: CBAMProductionProcess = {
+        id: 'hrm',
+        name: 'Hot strip mill',
+        goodsCategory: 'iron_steel_products',
+        cnCodes: ['72081000'],
+        activityLevel: 500,
+        directEmissions: { CO2: 50 },
+        precursors: [{ goodsCategory: 'crude_steel', consumedTonnes: 520, seeDirect: 1.9, seeIndirect: 0.2 }],
+      };
+
+      const [result] = calculateEmbeddedEmissions([rolling]).processes;
+      expect(result.seeDirect).toBeCloseTo((50 + 520 * 1.9) / 500);
+      expect(result.seeIndirect).toBeCloseTo((520 * 0.2) / 500);
+    });
+
+    it('should only count gases inside the boundary', () => {
+      const smelter: CBAMProductionProcess = {
+        id: 'al',
+        name: 'Smelter',
+        goodsCategory: 'unwrought_aluminium',
+        cnCodes: ['76011000'],
+        activityLevel: 100,
+        directEmissions: { CO2: 160, 'PFC-14': 0.01, CH4: 1 },
+        precursors: [],
+      };
+
+      const result = calculateEmbeddedEmissions([smelter], 'AR5');
+      expect(result.processes[0].attributedDirect).toBeCloseTo(160 + 0.01 * getGWP('PFC-14', 'AR5'));
+      expect(result.warnings).toEqual([expect.stringContaining('CH4 is outside')]);
+    });
+
+    it('should correct for measurable heat and exported electricity', () => {
+      const result = calculateEmbeddedEmissions([{
+        ...sinter,
+        heatImportedTj: 2,
+        heatExportedTj: 1,
+        electricityExportedMwh: 40,
+        electricityEmissionFactor: 0.5,
+      }]);
+
+      expect(result.processes[0].attributedDirect).toBeCloseTo(200 + DEFAULT_HEAT_EMISSION_FACTOR - 20);
+    });
+
+    it('should ignore irrelevant precursors and flag CN codes of another category', () => {
+      const result = calculateEmbeddedEmissions([{
+        ...sinter,
+        cnCodes: ['72081000'],
+        precursors: [{ goodsCategory: 'hydrogen', consumedTonnes: 5, seeDirect: 10 }],
+      }]);
+
+      expect(result.processes[0].precursorDirect).toBe(0);
+      expect(result.warnings).toHaveLength(2);
+    });
+
+    it('should reject precursor loops and missing production', () => {
+      const loop = { ...sinter, precursors: [{ goodsCategory: 'pig_iron' as const, consumedTonnes: 1, fromProcessId: 'bf' }] };
+      expect(() => calculateEmbeddedEmissions([blastFurnace, loop])).toThrow('loop');
+      expect(() => calculateEmbeddedEmissions([{ ...sinter, activityLevel: 0 }])).toThrow('no production');
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * CBAM Template Service Unit Tests
+ * Tests for operator communication template import and export
+ */
+import * as XLSX from 'xlsx';
+import { parseOperatorTemplate, buildOperatorTemplate, TEMPLATE_SHEETS } from '../../src/services/cbamTemplateService';
+import { calculateEmbeddedEmissions } from '../../src/services/cbamService';
+import type { CBAMProductionProcess } from '../../src/types';
+
+jest.mock('../../src/config/database', () => ({
+  db: { query: jest.fn() },
+}));
+
+jest.mock('../../src/config/redis', () => ({
+  redis: { get: jest.fn().mockResolvedValue(null), setex: jest.fn() },
+}));
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: { warn: jest.fn(), info: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const processes: CBAMProductionProcess[] = [
+  {
+    id: 'uuid-bof',
+    name: 'Basic oxygen furnace',
+    goodsCategory: 'crude_steel',
+    cnCodes: [],
+    productionRoute: 'BF-BOF',
+    activityLevel: 1000,
+    directEmissions: { CO2: 300 },
+    precursors: [{ goodsCategory: 'pig_iron', consumedTonnes: 900, seeDirect: 1.6, seeIndirect: 0.05, source: 'Supplier A' }],
+  },
+  {
+    id: 'uuid-hsm',
+    name: 'Hot strip mill',
+    goodsCategory: 'iron_steel_products',
+    cnCodes: ['72081000'],
+    activityLevel: 950,
+    directEmissions: { CO2: 80 },
+    electricityConsumedMwh: 100,
+    electricityEmissionFactor: 0.5,
+    precursors: [{ goodsCategory: 'crude_steel', consumedTonnes: 1000, fromProcessId: 'uuid-bof' }],
+  },
+];
+
+function exportedWorkbook(): XLSX.WorkBook {
+  const calculation = calculateEmbeddedEmissions(processes);
+  const workbook = buildOperatorTemplate({
+    reportingPeriod: { start: '2025-01-01', end: '2025-12-31' },
+    installation: { name: 'Rayong Steel Works', country: 'TH', operatorName: 'Siam Steel' },
+    processes,
+    reportedSEE: calculation.byCnCode,
+  });
+  // Round-trip through a file buffer as a supplier would
+  return XLSX.read(XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }));
+}
+
+function setCell(workbook: XLSX.WorkBook, sheet: string, address: string, value: any): void {
+  XLSX.utils.sheet_add_aoa(workbook.Sheets[sheet], [[value]], { origin: address });
+}
+
+describe('CBAM Template Service', () => {
+  it('should read back an exported template', () => {
+    const { template, errors } = parseOperatorTemplate(exportedWorkbook());
+
+    expect(errors).toEqual([]);
+    expect(template.reportingPeriod).toEqual({ start: '2025-01-01', end: '2025-12-31' });
+    expect(template.installation).toMatchObject({ name: 'Rayong Steel Works', country: 'TH', operatorName: 'Siam Steel' });
+
+    const [bof, hsm] = template.processes;
+    expect(bof).toMatchObject({ id: 'P1', goodsCategory: 'crude_steel', productionRoute: 'BF-BOF', directEmissions: { CO2: 300 } });
+    expect(bof.precursors).toEqual([
+      { goodsCategory: 'pig_iron', consumedTonnes: 900, seeDirect: 1.6, seeIndirect: 0.05, source: 'Supplier A' },
+    ]);
+    expect(hsm.precursors).toEqual([{ goodsCategory: 'crude_steel', consumedTonnes: 1000, fromProcessId: 'P1' }]);
+    expect(hsm.cnCodes).toEqual(['72081000']);
+
+    const original = calculateEmbeddedEmissions(processes).byCnCode[0];
+    expect(template.reportedSEE[0]).toMatchObject({ cnCode: '72081000', processId: 'P2', seeTotal: original.seeTotal });
+  });
+
+  it('should report malformed cells with sheet, row and column', () => {
+    const workbook = exportedWorkbook();
+    setCell(workbook, TEMPLATE_SHEETS.processes, 'E2', 'lots');
+    setCell(workbook, TEMPLATE_SHEETS.processes, 'C3', 'Steel stuff');
+    setCell(workbook, TEMPLATE_SHEETS.products, 'A2', '9999 99 99');
+
+    const { errors } = parseOperatorTemplate(workbook);
+
+    expect(errors).toEqual(expect.arrayContaining([
+      expect.objectContaining({ sheet: 'D_Processes', row: 2, column: 'Activity level (t)', value: 'lots', severity: 'error' }),
+      expect.objectContaining({ sheet: 'D_Processes', row: 3, column: 'Aggregated goods category', severity: 'error' }),
+      expect.objectContaining({ sheet: 'Summary_Products', row: 2, column: 'CN code', severity: 'error' }),
+    ]));
+  });
+
+  it('should report missing sheets, columns and required fields', () => {
+    const workbook = exportedWorkbook();
+    delete workbook.Sheets[TEMPLATE_SHEETS.products];
+    workbook.SheetNames = workbook.SheetNames.filter((s) => s !== TEMPLATE_SHEETS.products);
+    setCell(workbook, TEMPLATE_SHEETS.precursors, 'C1', 'Mass');
+    setCell(workbook, TEMPLATE_SHEETS.installation, 'B8', 'Thailand');
+
+    const { errors } = parseOperatorTemplate(workbook);
+
+    expect(errors).toEqual(expect.arrayContaining([
+      expect.objectContaining({ sheet: 'Summary_Products', row: 0, error: 'Sheet Summary_Products is missing' }),
+      expect.objectContaining({ sheet: 'D_Precursors', row: 1, column: 'Consumed (t)' }),
+      expect.objectContaining({ sheet: 'A_InstData', row: 8, value: 'Thailand' }),
+    ]));
+  });
+
+  it('should reject unknown precursor references', () => {
+    const workbook = exportedWorkbook();
+    setCell(workbook, TEMPLATE_SHEETS.precursors, 'B3', 'P9');
+
+    const { errors } = parseOperatorTemplate(workbook);
+
+    expect(errors).toEqual([
+      expect.objectContaining({ sheet: 'D_Precursors', row: 3, column: 'Precursor', severity: 'error' }),
+    ]);
+  });
+
+  it('should warn when reported SEE disagrees with the process data', () => {
+    const workbook = exportedWorkbook();
+    setCell(workbook, TEMPLATE_SHEETS.products, 'D2', 5);
+
+    const { errors } = parseOperatorTemplate(workbook);
+
+    expect(errors.every((e) => e.severity === 'warning')).toBe(true);
+    expect(errors).toEqual(expect.arrayContaining([
+      expect.objectContaining({ sheet: 'Summary_Products', row: 2, error: expect.stringContaining('Reported SEE differs') }),
+    ]));
+  });
+
+  it('should accept Excel dates and the Commission category labels', () => {
+    const workbook = exportedWorkbook();
+    setCell(workbook, TEMPLATE_SHEETS.installation, 'B2', 45658); // 2025-01-01
+    setCell(workbook, TEMPLATE_SHEETS.processes, 'C3', 'Iron or steel products');
+
+    const { template, errors } = parseOperatorTemplate(workbook);
+
+    expect(errors).toEqual([]);
+    expect(template.reportingPeriod.start).toBe('2025-01-01');
+    expect(template.processes[1].goodsCategory).toBe('iron_steel_products');
+  });
+});
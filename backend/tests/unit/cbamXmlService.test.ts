@@ -0,0 +1,112 @@
+/**
+ * CBAM XML Service Unit Tests
+ * Tests for the registry quarterly report builder and the partial structure schema check
+ */
+import {
+  buildQuarterlyReportXml,
+  validateQuarterlyReportXml,
+  goodTotalEmissions,
+  formatDecimal,
+  CBAMQuarterlyReport,
+} from '../../src/services/cbamXmlService';
+
+const report: CBAMQuarterlyReport = {
+  reportId: 'a1b2c3d4-2025-Q3',
+  year: 2025,
+  quarter: 3,
+  declarant: {
+    eori: 'DE123456789012345',
+    name: 'Importer GmbH',
+    address: { country: 'DE', city: 'Hamburg' },
+  },
+  goods: [{
+    cnCode: '72081000',
+    description: 'Hot-rolled coils & strip',
+    originCountry: 'TH',
+    importedTonnes: 200,
+    emissions: [{
+      productionCountry: 'TH',
+      operator: { id: 'OP-1', name: 'Siam Steel' },
+      installation: { id: 'INST-1', name: 'Rayong Works', address: { country: 'TH' } },
+      producedTonnes: 200,
+      direct: { determinationType: 'actual', specificEmbeddedEmissions: 1.85 },
+      indirect: { determinationType: 'actual', specificEmbeddedEmissions: 0.35 },
+      precursors: [{
+        material: 'pig_iron',
+        productionRoute: 'BF',
+        consumedTonnes: 150,
+        specificEmbeddedEmissions: 1.9,
+        determinationType: 'default',
+      }],
+      carbonPrices: [{ type: 'tax', country: 'TH', amount: 1200, currency: 'THB' }],
+    }],
+  }],
+};
+
+describe('CBAM XML Service', () => {
+  describe('buildQuarterlyReportXml', () => {
+    it('should build the registry structure', () => {
+      const xml = buildQuarterlyReportXml(report);
+
+      expect(xml).toContain('<ReportingPeriod>Q3</ReportingPeriod>');
+      expect(xml).toContain('<HsCode>720810</HsCode>');
+      expect(xml).toContain('<CnCode>72081000</CnCode>');
+      expect(xml).toContain('<CommodityDescription>Hot-rolled coils &amp; strip</CommodityDescription>');
+      expect(xml).toContain('<TypeOfInstrument>01</TypeOfInstrument>');
+      // 200 t at 2.2 tCO2e/t
+      expect(xml).toContain('<TotalEmissions>440</TotalEmissions>');
+    });
+
+    it('should split imported mass over installations', () => {
+      const good = report.goods[0];
+      const second = { ...good.emissions[0], direct: { determinationType: 'default' as const, specificEmbeddedEmissions: 2.65 } };
+      expect(goodTotalEmissions({ ...good, emissions: [good.emissions[0], second] })).toBeCloseTo(100 * 2.2 + 100 * 3.0);
+    });
+  });
+
+  describe('formatDecimal', () => {
+    it('should never use exponent notation', () => {
+      expect(formatDecimal(440)).toBe('440');
+      expect(formatDecimal(0.35)).toBe('0.35');
+      expect(formatDecimal(4e-7)).toBe('0.0000004');
+      expect(formatDecimal(1e-9)).toBe('0');
+    });
+  });
+
+  describe('validateQuarterlyReportXml', () => {
+    it('should accept a complete report', async () => {
+      const result = await validateQuarterlyReportXml(buildQuarterlyReportXml(report));
+      expect(result.errors).toEqual([]);
+      expect(result.valid).toBe(true);
+    });
+
+    it('should accept values below 1e-6', async () => {
+      const tiny = { ...report.goods[0].emissions[0], indirect: { determinationType: 'actual' as const, specificEmbeddedEmissions: 4e-7 } };
+      const xml = buildQuarterlyReportXml({ ...report, goods: [{ ...report.goods[0], emissions: [tiny] }] });
+
+      expect(xml).toContain('<SpecificEmbeddedEmissions>0.0000004</SpecificEmbeddedEmissions>');
+      expect((await validateQuarterlyReportXml(xml)).valid).toBe(true);
+    });
+
+    it('should reject a missing EORI number', async () => {
+      const result = await validateQuarterlyReportXml(
+        buildQuarterlyReportXml({ ...report, declarant: { ...report.declarant, eori: '' } })
+      );
+      expect(result.valid).toBe(false);
+      expect(result.errors.some((e) => e.message.includes('IdentificationNumber'))).toBe(true);
+    });
+
+    it('should reject malformed CN codes', async () => {
+      const result = await validateQuarterlyReportXml(
+        buildQuarterlyReportXml({ ...report, goods: [{ ...report.goods[0], cnCode: '7208' }] })
+      );
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].line).toEqual(expect.any(Number));
+    });
+
+    it('should reject a report without goods', async () => {
+      const result = await validateQuarterlyReportXml(buildQuarterlyReportXml({ ...report, goods: [] }));
+      expect(result.valid).toBe(false);
+    });
+  });
+});
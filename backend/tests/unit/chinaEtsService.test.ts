@@ -0,0 +1,195 @@
+/**
+ * China ETS Service Unit Tests
+ * Tests for benchmark allocation, the gap cap, the CCER limit and the MEE
+ * report tables
+ */
+import {
+  loadCorrection,
+  fuelEmissions,
+  allocateUnit,
+  unitObligation,
+  compliancePosition,
+  calculateCompliance,
+  buildMonitoringPlan,
+  buildEmissionsReport,
+} from '../../src/services/chinaEtsService';
+import type { ChinaEtsUnit } from '../../src/types';
+import { db } from '../../src/config/database';
+import { getRetiredCredits } from '../../src/services/creditService';
+
+jest.mock('../../src/config/database', () => ({
+  db: { query: jest.fn(), queryOne: jest.fn() },
+}));
+
+jest.mock('../../src/services/creditService', () => ({
+  getRetiredCredits: jest.fn(),
+}));
+
+const coalUnit: ChinaEtsUnit = {
+  id: 'u1',
+  projectId: 'p1',
+  facilityId: null,
+  name: 'Unit 1',
+  unitCode: 'U1',
+  unitType: 'coal_above_300mw',
+  capacityMw: 600,
+  coolingType: 'water',
+  reportingYear: 2021,
+  powerSuppliedMwh: 1_000_000,
+  heatSuppliedGj: 0,
+  heatSupplyRatio: 0,
+  loadFactor: 0.9,
+  productionOutput: 0,
+  benchmark: null,
+  verifiedEmissionsTCo2: null,
+  purchasedElectricityMwh: 0,
+  fuels: [],
+  verifier: null,
+};
+
+const coal = { fuel: 'Bituminous coal', consumption: 1000, unit: 't', ncvGjPerUnit: 20.9, carbonContentTCPerGj: 0.02618, oxidationRate: 0.99 };
+
+describe('China ETS Service', () => {
+  describe('loadCorrection', () => {
+    it('should raise the allocation of units loaded below 85%', () => {
+      expect(loadCorrection(null)).toBe(1);
+      expect(loadCorrection(0.9)).toBe(1);
+      expect(loadCorrection(0.82)).toBeCloseTo(1.0042, 6);
+      expect(loadCorrection(0.78)).toBeCloseTo(1.0102, 6);
+      expect(loadCorrection(0.7)).toBeCloseTo(Math.pow(1.015, 2), 6);
+    });
+  });
+
+  describe('fuelEmissions', () => {
+    it('should multiply consumption, heating value, carbon content and oxidation', () => {
+      expect(fuelEmissions({ ...coalUnit, fuels: [coal] })).toBeCloseTo(1986.198, 3);
+    });
+  });
+
+  describe('allocateUnit', () => {
+    it('should apply the cooling and load corrections to a condensing coal unit', () => {
+      const allocation = allocateUnit({ ...coalUnit, coolingType: 'air', loadFactor: 0.78 }, 900_000, 'verified');
+
+      expect(allocation.benchmarkYear).toBe(2021);
+      expect(allocation.benchmarks).toEqual({ power: 0.8218, heat: 0.1111 });
+      expect(allocation.corrections).toEqual({ cooling: 1.05, heatSupply: 1, load: 1.0102 });
+      expect(allocation.allowance).toBeCloseTo(871_691.478, 3);
+      expect(allocation.surplus).toBeCloseTo(-28_308.522, 3);
+    });
+
+    it('should allocate heat and drop the load correction for a CHP unit', () => {
+      const allocation = allocateUnit(
+        { ...coalUnit, heatSuppliedGj: 500_000, heatSupplyRatio: 0.2, loadFactor: 0.6 },
+        800_000,
+        'verified'
+      );
+
+      expect(allocation.corrections).toEqual({ cooling: 1, heatSupply: 0.956, load: 1 });
+      expect(allocation.powerAllowance).toBeCloseTo(785_640.8, 4);
+      expect(allocation.heatAllowance).toBeCloseTo(55_550, 4);
+    });
+
+    it('should not give gas units the cooling correction', () => {
+      const allocation = allocateUnit(
+        { ...coalUnit, unitType: 'gas', coolingType: 'air', powerSuppliedMwh: 100_000, heatSupplyRatio: 0.1, reportingYear: 2022 },
+        40_000,
+        'verified'
+      );
+
+      expect(allocation.corrections).toEqual({ cooling: 1, heatSupply: 0.94, load: 1 });
+      expect(allocation.allowance).toBeCloseTo(100_000 * 0.3901 * 0.94, 4);
+    });
+
+    it('should need a benchmark for cement and aluminium units', () => {
+      expect(() => allocateUnit({ ...coalUnit, unitType: 'cement_clinker', productionOutput: 1000 }, 900, 'verified'))
+        .toThrow('No cement benchmark loaded');
+
+      const allocation = allocateUnit(
+        { ...coalUnit, unitType: 'cement_clinker', productionOutput: 1000, benchmark: 0.86 },
+        900,
+        'verified'
+      );
+      expect(allocation.productAllowance).toBeCloseTo(860, 4);
+      expect(allocation.sector).toBe('cement');
+    });
+  });
+
+  describe('unitObligation', () => {
+    it('should cap a coal deficit at the gap cap and a gas deficit at the allocation', () => {
+      const coalDeficit = { ...allocateUnit(coalUnit, 1_000_000, 'verified'), allowance: 800_000, surplus: -200_000 };
+      expect(unitObligation(coalDeficit, 10)).toBe(900_000);
+      expect(unitObligation(coalDeficit, null)).toBe(1_000_000);
+
+      const gasDeficit = { ...allocateUnit({ ...coalUnit, unitType: 'gas' }, 150, 'verified'), allowance: 100, surplus: -50 };
+      expect(unitObligation(gasDeficit, 10)).toBe(100);
+    });
+  });
+
+  describe('compliancePosition', () => {
+    it('should use CCER up to 5% of verified emissions', () => {
+      const allocation = { ...allocateUnit(coalUnit, 1_000_000, 'verified'), allowance: 800_000, surplus: -200_000 };
+      const compliance = compliancePosition(2021, [allocation], 80_000);
+
+      expect(compliance).toMatchObject({
+        allocationPlan: 'MEE 2021-2022 allocation plan (power sector)',
+        gapCapPercent: 10,
+        obligation: 900_000,
+        ccer: { limitPercent: 5, limit: 50_000, retired: 80_000, usable: 50_000 },
+        position: -50_000,
+        status: 'deficit',
+      });
+      expect(compliance.warnings).toEqual(['30000 t of CCER retired exceeds the 5% limit and cannot be used']);
+    });
+  });
+
+  describe('calculateCompliance', () => {
+    it('should fall back to fuel data and net the CCER retired for the year', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({
+        rows: [{
+          id: 'u1', project_id: 'p1', name: 'Unit 1', unit_code: 'U1', unit_type: 'coal_above_300mw',
+          cooling_type: 'water', reporting_year: 2024, power_supplied_mwh: '3000', heat_supplied_gj: '0',
+          heat_supply_ratio: '0', load_factor: null, production_output: '0', benchmark: null,
+          verified_emissions_t_co2: null, purchased_electricity_mwh: '10', fuels: [coal],
+        }],
+      });
+      (getRetiredCredits as jest.Mock).mockResolvedValueOnce([
+        { registry: 'ccer', quantity: 50 },
+        { registry: 'verra', quantity: 500 },
+      ]);
+
+      const compliance = await calculateCompliance('p1', 2024);
+
+      expect(compliance.units[0]).toMatchObject({ emissionsSource: 'fuel_data', benchmarkYear: 2022 });
+      expect(compliance.units[0].emissions).toBeCloseTo(1986.198 + 5.703, 3);
+      expect(compliance.ccer.retired).toBe(50);
+      expect(compliance.warnings).toEqual([
+        'No power benchmarks loaded for 2024; the 2022 benchmarks are used',
+        'Unit U1: emissions are calculated from fuel data and not yet verified',
+      ]);
+    });
+  });
+
+  describe('report tables', () => {
+    it('should list the parameters to monitor and the emissions by unit and fuel', () => {
+      const units = [{ ...coalUnit, fuels: [coal], heatSuppliedGj: 1000, heatSupplyRatio: 0.05, verifiedEmissionsTCo2: 2000 }];
+      const plan = buildMonitoringPlan(units);
+      expect(plan.parameters.map((row) => row.parameter)).toEqual([
+        'Bituminous coal consumption',
+        'Bituminous coal low heating value',
+        'Bituminous coal element carbon content',
+        'Bituminous coal oxidation rate',
+        'Power supplied',
+        'Load factor',
+        'Heat supplied',
+        'Heat supply ratio',
+      ]);
+
+      const compliance = compliancePosition(2021, [allocateUnit(units[0], 2000, 'verified')], 0);
+      const report = buildEmissionsReport(units, compliance);
+      expect(report.emissions[0]).toMatchObject({ verifiedTCo2: 2000, reportedTCo2: 2000, emissionsSource: 'verified' });
+      expect(report.fuels[0].emissionsTCo2).toBeCloseTo(1986.198, 3);
+      expect(report.production[0].powerIntensityTCo2PerMwh).toBeCloseTo(0.0019, 6);
+      expect(report.production[0].heatIntensityTCo2PerGj).toBeCloseTo(0.1, 6);
+    });
+  });
+});
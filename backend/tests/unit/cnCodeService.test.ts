@@ -0,0 +1,90 @@
+/**
+ * CN Code Service Unit Tests
+ * Tests for the CBAM CN code catalogue and material/route derivation
+ */
+import {
+  normalizeCnCode,
+  isValidCnCode,
+  findCnCode,
+  searchCnCodes,
+  deriveFromCnCode,
+} from '../../src/services/cnCodeService';
+
+describe('CN Code Service', () => {
+  describe('normalizeCnCode', () => {
+    it('should strip spaces and dots', () => {
+      expect(normalizeCnCode('7208 10 00')).toBe('72081000');
+      expect(normalizeCnCode('7601.10.00')).toBe('76011000');
+      expect(isValidCnCode('7208 10 00')).toBe(true);
+      expect(isValidCnCode('7208')).toBe(false);
+    });
+  });
+
+  describe('findCnCode', () => {
+    it('should map a code under a covered heading', () => {
+      const entry = findCnCode('72081000');
+      expect(entry).toMatchObject({
+        code: '7208',
+        material: 'iron_steel',
+        goodsCategory: 'iron_steel_products',
+        defaultRoute: 'BF-BOF',
+      });
+      expect(entry?.precursors).toContain('crude_steel');
+    });
+
+    it('should prefer the most specific entry', () => {
+      expect(findCnCode('31021010')?.goodsCategory).toBe('urea');
+      expect(findCnCode('31023010')?.goodsCategory).toBe('mixed_fertilisers');
+    });
+
+    it('should map every CBAM material', () => {
+      expect(findCnCode('25232900')?.material).toBe('cement');
+      expect(findCnCode('76011000')?.material).toBe('aluminium');
+      expect(findCnCode('28141000')?.material).toBe('fertilizers');
+      expect(findCnCode('28041000')?.material).toBe('hydrogen');
+      expect(findCnCode('27160000')?.material).toBe('electricity');
+    });
+
+    it('should return null outside CBAM scope and for exclusions', () => {
+      expect(findCnCode('84713000')).toBeNull();
+      expect(findCnCode('31056000')).toBeNull();
+      expect(findCnCode('31052000')?.goodsCategory).toBe('mixed_fertilisers');
+    });
+
+    it('should keep a heading whose subheading is excluded', () => {
+      expect(findCnCode('3105')?.goodsCategory).toBe('mixed_fertilisers');
+    });
+  });
+
+  describe('searchCnCodes', () => {
+    it('should search by code prefix', () => {
+      const results = searchCnCodes({ search: '72' });
+      expect(results.length).toBeGreaterThan(10);
+      expect(results.every((r) => r.code.startsWith('72'))).toBe(true);
+    });
+
+    it('should search by description and filter by material', () => {
+      expect(searchCnCodes({ search: 'clinker' })[0].code).toBe('25231000');
+      expect(searchCnCodes({ material: 'hydrogen' })).toHaveLength(1);
+      expect(searchCnCodes({ material: 'aluminium', limit: 3 })).toHaveLength(3);
+    });
+  });
+
+  describe('deriveFromCnCode', () => {
+    it('should default the production route', () => {
+      const derived = deriveFromCnCode('7601 10 00');
+      expect(derived.cnCode).toBe('76011000');
+      expect(derived.productionRoute).toBe('Primary-Prebake');
+    });
+
+    it('should accept a route valid for the goods category', () => {
+      expect(deriveFromCnCode('72081000', 'eaf-scrap').productionRoute).toBe('EAF-Scrap');
+    });
+
+    it('should reject invalid codes and routes', () => {
+      expect(() => deriveFromCnCode('7208')).toThrow('expected 8 digits');
+      expect(() => deriveFromCnCode('84713000')).toThrow('not covered by CBAM');
+      expect(() => deriveFromCnCode('25231000', 'BF-BOF')).toThrow('does not apply');
+    });
+  });
+});
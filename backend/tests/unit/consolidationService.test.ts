@@ -0,0 +1,128 @@
+/**
+ * Consolidation Service Unit Tests
+ * Tests for entity shares under equity share, financial and operational control
+ */
+import {
+  consolidationShares,
+  consolidateActivities,
+  createsCycle,
+} from '../../src/services/consolidationService';
+import type { OrganizationalEntity } from '../../src/types';
+
+jest.mock('../../src/config/database', () => ({
+  db: { query: jest.fn(), queryOne: jest.fn() },
+}));
+
+// Group: 80% subsidiary holding a 50% JV, a 30% associate with a wholly owned plant
+const entities: OrganizationalEntity[] = [
+  {
+    id: 'sub', projectId: 'p1', parentId: null, name: 'Siam Packaging', entityType: 'subsidiary', country: 'TH',
+    ownershipPercent: 80, financialControl: true, operationalControl: true,
+  },
+  {
+    id: 'jv', projectId: 'p1', parentId: 'sub', name: 'Eastern Board JV', entityType: 'joint_venture', country: 'TH',
+    ownershipPercent: 50, financialControl: false, operationalControl: true,
+  },
+  {
+    id: 'assoc', projectId: 'p1', parentId: null, name: 'Mekong Pulp', entityType: 'associate', country: 'VN',
+    ownershipPercent: 30, financialControl: false, operationalControl: false,
+  },
+  {
+    id: 'plant', projectId: 'p1', parentId: 'assoc', name: 'Can Tho mill', entityType: 'facility', country: 'VN',
+    ownershipPercent: 100, financialControl: true, operationalControl: true,
+  },
+];
+
+describe('Consolidation Service', () => {
+  describe('consolidationShares', () => {
+    it('should multiply ownership down the tree for equity share', () => {
+      const shares = consolidationShares(entities);
+
+      expect(shares.get('sub')!.shares.equity_share).toBeCloseTo(0.8);
+      expect(shares.get('jv')!.shares.equity_share).toBeCloseTo(0.4);
+      expect(shares.get('plant')!.shares.equity_share).toBeCloseTo(0.3);
+      expect(shares.get('jv')!.path).toEqual(['Siam Packaging', 'Eastern Board JV']);
+    });
+
+    it('should take controlled entities in full and joint ventures by equity under financial control', () => {
+      const shares = consolidationShares(entities);
+
+      expect(shares.get('sub')!.shares.financial_control).toBe(1);
+      expect(shares.get('jv')!.shares.financial_control).toBeCloseTo(0.5);
+      expect(shares.get('assoc')!.shares.financial_control).toBe(0);
+    });
+
+    it('should not pass control through an uncontrolled parent', () => {
+      const shares = consolidationShares(entities);
+
+      expect(shares.get('jv')!.shares.operational_control).toBe(1);
+      expect(shares.get('plant')!.shares.operational_control).toBe(0);
+    });
+
+    it('should treat a cyclic parent as the reporting company', () => {
+      const shares = consolidationShares([
+        {
+          id: 'a', projectId: 'p1', parentId: 'b', name: 'A', entityType: 'subsidiary', country: null,
+          ownershipPercent: 50, financialControl: true, operationalControl: true,
+        },
+        {
+          id: 'b', projectId: 'p1', parentId: 'a', name: 'B', entityType: 'subsidiary', country: null,
+          ownershipPercent: 50, financialControl: true, operationalControl: true,
+        },
+      ]);
+
+      expect(shares.get('a')!.shares.equity_share).toBeCloseTo(0.25);
+      expect(shares.get('b')!.shares.equity_share).toBeCloseTo(0.5);
+    });
+  });
+
+  describe('createsCycle', () => {
+    it('should detect placing an entity under its own descendant', () => {
+      expect(createsCycle(entities, 'assoc', 'plant')).toBe(true);
+      expect(createsCycle(entities, 'plant', 'plant')).toBe(true);
+      expect(createsCycle(entities, 'plant', 'sub')).toBe(false);
+    });
+  });
+
+  describe('consolidateActivities', () => {
+    const activities = [
+      {
+        id: 'a1',
+        entity_id: 'jv',
+        scope: 'scope1',
+        quantity: '1000',
+        total_emissions_kg_co2e: '2000',
+        gas_breakdown: { gwpSet: 'AR5', gases: { CO2: 1990, CH4: 0.1 }, unspecifiedCo2e: 0 },
+      },
+      { id: 'a2', entity_id: 'plant', scope: 'scope2', quantity: '500', total_emissions_kg_co2e: '300', gas_breakdown: null },
+      { id: 'a3', entity_id: null, scope: 'scope3', quantity: '10', total_emissions_kg_co2e: '100', gas_breakdown: null },
+    ];
+
+    it('should scale activities to the share under the chosen approach', () => {
+      const result = consolidateActivities(activities, entities, 'equity_share');
+
+      const jv = result.activities.find((a) => a.id === 'a1')!;
+      expect(jv.total_emissions_kg_co2e).toBeCloseTo(800);
+      expect(jv.quantity).toBeCloseTo(400);
+      expect((jv.gas_breakdown as any).gases.CO2).toBeCloseTo(796);
+      expect(result.activities.find((a) => a.id === 'a3')).toBe(activities[2]);
+    });
+
+    it('should drop activities of entities outside the boundary', () => {
+      const result = consolidateActivities(activities, entities, 'operational_control');
+
+      expect(result.activities.map((a) => a.id)).toEqual(['a1', 'a3']);
+      const plant = result.byEntity.find((e) => e.entityId === 'plant')!;
+      expect(plant.grossKgCo2e).toBe(300);
+      expect(plant.consolidatedKgCo2e).toBe(0);
+    });
+
+    it('should report totals under every approach', () => {
+      const { approachTotals } = consolidateActivities(activities, entities, 'operational_control');
+
+      expect(approachTotals.operational_control).toEqual({ scope1: 2000, scope2: 0, scope3: 100, total: 2100 });
+      expect(approachTotals.equity_share).toEqual({ scope1: 800, scope2: 90, scope3: 100, total: 990 });
+      expect(approachTotals.financial_control.scope1).toBe(1000);
+    });
+  });
+});
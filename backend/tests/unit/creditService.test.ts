@@ -0,0 +1,107 @@
+/**
+ * Credit Service Unit Tests
+ * Tests for serial ranges, double-counting checks, partial retirement and the
+ * gross, credits and net view
+ */
+import {
+  toCredit,
+  formatSerials,
+  assertSerialsFree,
+  splitForRetirement,
+  netEmissions,
+} from '../../src/services/creditService';
+import type { CarbonCredit } from '../../src/types';
+import { db } from '../../src/config/database';
+
+jest.mock('../../src/config/database', () => ({
+  db: { query: jest.fn(), queryOne: jest.fn() },
+}));
+
+const retiredVcus: CarbonCredit = {
+  id: 'c1',
+  projectId: 'p1',
+  registry: 'verra',
+  registryProjectId: '1748',
+  projectName: 'Rayong biomass power',
+  projectType: 'renewable_energy',
+  creditType: 'avoidance',
+  vintage: 2023,
+  serialPrefix: '9471-VCS-VCU-263',
+  serialStart: 1001,
+  serialEnd: 1500,
+  quantity: 500,
+  status: 'retired',
+  purchaseDate: null,
+  pricePerCredit: null,
+  currency: null,
+  retirementDate: '2025-03-01',
+  retiredForYear: 2024,
+  productId: null,
+  beneficiary: null,
+};
+
+describe('Credit Service', () => {
+  describe('toCredit', () => {
+    it('should take the quantity from the serial range', () => {
+      const row = {
+        id: 'c1', project_id: 'p1', registry: 'ccer', project_type: 'forestry', credit_type: 'removal', vintage: 2022,
+        serial_prefix: '', serial_start: '1', serial_end: '250', status: 'held', price_per_credit: '62.50',
+      };
+      expect(toCredit(row)).toMatchObject({ quantity: 250, serialStart: 1, pricePerCredit: 62.5, retiredForYear: null });
+      expect(formatSerials(toCredit(row))).toBe('1-250');
+      expect(formatSerials(retiredVcus)).toBe('9471-VCS-VCU-263-1001-1500');
+    });
+  });
+
+  describe('assertSerialsFree', () => {
+    it('should refuse serials another project has recorded', async () => {
+      (db.queryOne as jest.Mock).mockResolvedValueOnce({
+        id: 'other', project_id: 'p2', serial_prefix: '9471-VCS-VCU-263', serial_start: '1400', serial_end: '1600',
+      });
+      await expect(assertSerialsFree(retiredVcus)).rejects.toThrow('recorded by another project (9471-VCS-VCU-263-1400-1600)');
+
+      const [, params] = (db.queryOne as jest.Mock).mock.calls[0];
+      expect(params).toEqual(['verra', '9471-VCS-VCU-263', 1001, 1500, null]);
+    });
+
+    it('should accept serials no ledger holds', async () => {
+      (db.queryOne as jest.Mock).mockResolvedValueOnce(null);
+      await expect(assertSerialsFree(retiredVcus, 'c1')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('splitForRetirement', () => {
+    it('should retire the first serials and keep the rest held', () => {
+      expect(splitForRetirement(retiredVcus, 200)).toEqual({
+        retired: { serialStart: 1001, serialEnd: 1200 },
+        remaining: { serialStart: 1201, serialEnd: 1500 },
+      });
+      expect(splitForRetirement(retiredVcus, 500).remaining).toBeNull();
+    });
+  });
+
+  describe('netEmissions', () => {
+    it('should keep the gross and report credits and the net apart', () => {
+      const view = netEmissions(
+        1_200_000,
+        [
+          retiredVcus,
+          { ...retiredVcus, id: 'c2', creditType: 'removal', serialStart: 1, serialEnd: 100, quantity: 100 },
+          { ...retiredVcus, id: 'c3', status: 'held', quantity: 1000 },
+        ],
+        40_000
+      );
+
+      expect(view).toMatchObject({
+        grossKgCo2e: 1_200_000,
+        creditsRetiredTCo2e: 600,
+        avoidanceTCo2e: 500,
+        removalTCo2e: 100,
+        netKgCo2e: 600_000,
+        netPerUnit: 15,
+      });
+      expect(view.credits.map((entry) => entry.id)).toEqual(['c1', 'c2']);
+      expect(netEmissions(100_000, [retiredVcus]).netKgCo2e).toBe(-400_000);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Emission Factor Controller Unit Tests
+ * Tests that revising or retiring a grid factor drops the cached lookups
+ */
+import { Request, Response } from 'express';
+import { upsertGridEmissionFactor, deleteGridEmissionFactor } from '../../src/controllers/emissionFactorController';
+import { getGridEmissionFactor } from '../../src/services/ghgService';
+import { db } from '../../src/config/database';
+
+jest.mock('../../src/config/database', () => ({
+  db: { query: jest.fn(), queryOne: jest.fn(), transaction: jest.fn() },
+}));
+
+// In-memory Redis holding the keys the services write
+jest.mock('../../src/config/redis', () => {
+  const store = new Map<string, string>();
+  const matching = (pattern: string) => {
+    const regex = new RegExp(`^${pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`);
+    return Array.from(store.keys()).filter((key) => regex.test(key));
+  };
+  return {
+    store,
+    redis: {
+      get: jest.fn(async (key: string) => store.get(key) ?? null),
+      setex: jest.fn(async (key: string, _seconds: number, value: string) => { store.set(key, value); }),
+      del: jest.fn(async (key: string) => { store.delete(key); }),
+    },
+    redisClient: {
+      get: jest.fn(async (key: string) => store.get(key) ?? null),
+      set: jest.fn(),
+      del: jest.fn(async (key: string) => { store.delete(key); }),
+    },
+    cache: {
+      delPattern: jest.fn(async (pattern: string) => { matching(pattern).forEach((key) => store.delete(key)); }),
+    },
+  };
+});
+
+const { store } = jest.requireMock('../../src/config/redis') as { store: Map<string, string> };
+
+const thailand2024 = {
+  id: 'gef1',
+  country: 'Thailand',
+  region: 'Thailand',
+  grid_name: 'Thai national grid',
+  year: 2024,
+  factor_kg_co2_per_kwh: '0.4999',
+  source: 'TGO',
+  valid_from: null,
+  valid_to: null,
+  created_at: '2025-01-15T00:00:00.000Z',
+};
+
+const admin = {
+  id: 'admin-1',
+  userId: 'admin-1',
+  email: 'admin@example.com',
+  name: 'Admin',
+  role: 'owner',
+  signatureAuthorized: false,
+} as Request['user'];
+
+function response(): Response {
+  return {
+    status: jest.fn().mockReturnThis(),
+    json: jest.fn().mockReturnThis(),
+  } as unknown as Response;
+}
+
+describe('Emission Factor Controller', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    store.clear();
+
+    // A lookup without a project, as the residual mix fallback makes, caches the factor
+    (db.query as jest.Mock).mockResolvedValueOnce({ rows: [thailand2024] });
+    await getGridEmissionFactor('Thailand', 2024);
+    expect(Array.from(store.keys())).toEqual(['grid_ef:thailand::2024']);
+  });
+
+  it('should clear cached grid factors when a factor is revised', async () => {
+    (db.transaction as jest.Mock).mockImplementationOnce((callback) =>
+      callback({ query: jest.fn().mockResolvedValue({ rows: [thailand2024] }) })
+    );
+    const res = response();
+
+    await upsertGridEmissionFactor(
+      { user: admin, body: { region: 'Thailand', year: 2024, factorKgCo2PerKwh: 0.4626 } } as Request,
+      res
+    );
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(store.size).toBe(0);
+  });
+
+  it('should clear cached grid factors when a factor is retired', async () => {
+    (db.queryOne as jest.Mock).mockResolvedValueOnce({ region: 'Thailand', year: 2024, superseded_at: null, dataset_status: null });
+    (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] }).mockResolvedValueOnce({ rows: [] });
+
+    await deleteGridEmissionFactor({ user: admin, params: { id: 'gef1' } } as unknown as Request, response());
+
+    expect(store.size).toBe(0);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Facility Service Unit Tests
+ * Tests for facility rows, operational years and per-facility summaries
+ */
+import { toFacility, operatesInYear, summarizeByFacility } from '../../src/services/facilityService';
+import { activityMatchContext } from '../../src/services/factorMatchingService';
+
+describe('Facility Service', () => {
+  describe('toFacility', () => {
+    it('should parse coordinates and format operational dates', () => {
+      const facility = toFacility({
+        id: 'f1',
+        project_id: 'p1',
+        name: 'Houston Plant',
+        country: 'US',
+        grid_region: 'ERCT',
+        latitude: '29.760400',
+        longitude: '-95.369800',
+        operational_from: new Date(2015, 2, 1),
+        operational_to: null,
+      });
+
+      expect(facility.latitude).toBeCloseTo(29.7604);
+      expect(facility.longitude).toBeCloseTo(-95.3698);
+      expect(facility.operationalFrom).toBe('2015-03-01');
+      expect(facility.operationalTo).toBeNull();
+      expect(facility.entityId).toBeNull();
+    });
+  });
+
+  describe('operatesInYear', () => {
+    it('should include the years a facility opened and closed', () => {
+      const facility = { operationalFrom: '2020-07-01', operationalTo: '2023-03-31' };
+
+      expect(operatesInYear(facility, 2019)).toBe(false);
+      expect(operatesInYear(facility, 2020)).toBe(true);
+      expect(operatesInYear(facility, 2023)).toBe(true);
+      expect(operatesInYear(facility, 2024)).toBe(false);
+      expect(operatesInYear({ operationalFrom: null, operationalTo: null }, 1990)).toBe(true);
+    });
+  });
+
+  describe('summarizeByFacility', () => {
+    it('should total scopes per facility and list unassigned activities last', () => {
+      const summary = summarizeByFacility([
+        { facility_id: null, scope: 'scope3', total_emissions: '50', activity_count: '2' },
+        { facility_id: 'f1', facility_name: 'Rayong Mill', country: 'Thailand', grid_region: 'PEA', scope: 'scope1', total_emissions: '1000', activity_count: '3' },
+        { facility_id: 'f1', facility_name: 'Rayong Mill', country: 'Thailand', grid_region: 'PEA', scope: 'scope2', total_emissions: '400.5', activity_count: '1' },
+        { facility_id: 'f2', facility_name: 'Bangkok Office', country: 'Thailand', grid_region: 'MEA', scope: 'scope2', total_emissions: '2000', activity_count: '1' },
+      ]);
+
+      expect(summary.map((f) => f.name)).toEqual(['Bangkok Office', 'Rayong Mill', 'Unassigned']);
+      expect(summary[1]).toEqual({
+        facilityId: 'f1',
+        name: 'Rayong Mill',
+        country: 'Thailand',
+        gridRegion: 'PEA',
+        totalEmissions: 1400.5,
+        activityCount: 4,
+        byScope: {
+          scope1: { totalEmissions: 1000, activityCount: 3 },
+          scope2: { totalEmissions: 400.5, activityCount: 1 },
+        },
+      });
+      expect(summary[2].facilityId).toBeNull();
+    });
+  });
+
+  describe('facility location in factor matching', () => {
+    const project = { id: 'p1', country: 'US', region: 'California', reporting_year: 2024 };
+
+    it('should locate an activity at its facility grid region', () => {
+      const context = activityMatchContext({ facility_country: 'US', facility_grid_region: 'ERCT', metadata: {} }, project);
+
+      expect(context.country).toBe('US');
+      expect(context.region).toBe('ERCT');
+    });
+
+    it('should let an explicit country in the activity metadata take precedence', () => {
+      const context = activityMatchContext(
+        { facility_country: 'US', facility_grid_region: 'ERCT', metadata: { country: 'Mexico', region: 'Nuevo Leon' } },
+        project
+      );
+
+      expect(context.country).toBe('Mexico');
+      expect(context.region).toBe('Nuevo Leon');
+    });
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Factor File Import Service Unit Tests
+ * Tests for the DESNZ, EPA Hub, IPCC EFDB and TGO factor file parsers
+ */
+import * as XLSX from 'xlsx';
+import { parseFactorFile, parseGasHeader, resolveActivityUnit } from '../../src/services/factorImportService';
+
+function workbook(sheets: Record<string, any[][]>): XLSX.WorkBook {
+  const book = XLSX.utils.book_new();
+  for (const [name, rows] of Object.entries(sheets)) {
+    XLSX.utils.book_append_sheet(book, XLSX.utils.aoa_to_sheet(rows), name);
+  }
+  return book;
+}
+
+const DESNZ_HEADER = ['ID', 'Scope', 'Level 1', 'Level 2', 'Level 3', 'Level 4', 'Column Text', 'UOM', 'GHG/Unit', 'GHG Conversion Factor 2024'];
+
+describe('Factor Import Service', () => {
+  describe('resolveActivityUnit', () => {
+    it('should map publisher unit text to unit codes and keep the basis', () => {
+      expect(resolveActivityUnit('kWh (Net CV)')).toEqual({ unit: 'kwh', basis: 'net_cv', notes: [] });
+      expect(resolveActivityUnit('passenger.km').unit).toBe('passenger_km');
+      expect(resolveActivityUnit('ลิตร').unit).toBe('l');
+      expect(resolveActivityUnit('ลบ.ม.').unit).toBe('m3');
+    });
+
+    it('should keep unknown units as a slug with a note', () => {
+      const { unit, notes } = resolveActivityUnit('Room per night');
+      expect(unit).toBe('room_per_night');
+      expect(notes[0]).toContain('not a recognised unit');
+    });
+  });
+
+  describe('DESNZ flat file', () => {
+    const file = workbook({
+      Introduction: [['UK Government GHG Conversion Factors for Company Reporting']],
+      'Factors by Category': [
+        ['Conversion factors 2024: flat file'],
+        [],
+        DESNZ_HEADER,
+        ['11', 'Scope 1', 'Fuels', 'Liquid fuels', 'Diesel (average biofuel blend)', null, null, 'litres', 'kg CO2e', 2.51279],
+        ['12', 'Scope 1', 'Fuels', 'Liquid fuels', 'Diesel (average biofuel blend)', null, null, 'litres', 'kg CO2e of CO2 per unit', 2.47936],
+        ['13', 'Scope 1', 'Fuels', 'Liquid fuels', 'Diesel (average biofuel blend)', null, null, 'litres', 'kg CO2e of CH4 per unit', 0.00028],
+        ['14', 'Scope 1', 'Fuels', 'Liquid fuels', 'Diesel (average biofuel blend)', null, null, 'litres', 'kg CO2e of N2O per unit', 0.03315],
+        ['21', 'Scope 1', 'Fuels', 'Gaseous fuels', 'Natural gas', null, null, 'kWh (Net CV)', 'kg CO2e', 0.20264],
+        ['31', 'Outside of scopes', 'Bioenergy', 'Biofuel', 'Biodiesel', null, null, 'litres', 'kg CO2e', 2.4],
+        ['41', 'Scope 3', 'Managed assets- vehicles', 'Cars', 'Small car', null, 'Diesel', 'km', 'kg CO2e', 0.14],
+        ['51', 'Scope 1', 'Fuels', 'Solid fuels', 'Coal (industrial)', null, null, 'tonnes', 'kg CO2e', 'n/a'],
+      ],
+    });
+
+    it('should group the per-gas rows of one factor and convert CO2e shares to gas mass', () => {
+      const result = parseFactorFile('desnz', file);
+      const diesel = result.factors.find((f) => f.name === 'Liquid fuels - Diesel (average biofuel blend)');
+
+      expect(result.sourceYear).toBe(2024);
+      expect(result.source).toBe('UK Government GHG Conversion Factors 2024');
+      expect(diesel).toMatchObject({
+        activityType: 'stationary_combustion',
+        scope: 'scope1',
+        unit: 'l',
+        factorValue: 2.51279,
+        country: 'GB',
+        sourceYear: 2024,
+        category: 'Fuels',
+        subcategory: 'Liquid fuels',
+      });
+      expect(diesel!.gases!.CO2).toBe(2.47936);
+      expect(diesel!.gases!.CH4).toBeCloseTo(0.00028 / 28, 12);
+      expect(diesel!.gases!.N2O).toBeCloseTo(0.03315 / 265, 12);
+      expect(diesel!.metadata.sourceIds).toEqual(['11', '12', '13', '14']);
+      expect(diesel!.rows).toEqual([4, 5, 6, 7]);
+    });
+
+    it('should report every row with its mapping status', () => {
+      const result = parseFactorFile('desnz', file);
+      const byRow = new Map(result.report.map((r) => [r.row, r]));
+
+      expect(result.report).toHaveLength(8);
+      expect(byRow.get(8)).toMatchObject({ status: 'mapped', unit: 'kwh' });
+      expect(result.factors.find((f) => f.rows[0] === 8)!.metadata.basis).toBe('net_cv');
+      expect(byRow.get(9)!.status).toBe('skipped');
+      expect(byRow.get(9)!.notes[0]).toContain('outside of scopes');
+      expect(byRow.get(10)!.notes[0]).toContain('no matching activity type');
+      expect(byRow.get(11)!.status).toBe('error');
+      expect(result.errors).toEqual([
+        expect.objectContaining({ sheet: 'Factors by Category', row: 11, severity: 'warning' }),
+      ]);
+    });
+
+    it('should fail when the columns are not found', () => {
+      const result = parseFactorFile('desnz', workbook({ Sheet1: [['Fuel', 'Factor']] }));
+      expect(result.factors).toHaveLength(0);
+      expect(result.errors[0].severity).toBe('error');
+    });
+  });
+
+  describe('EPA GHG Emission Factors Hub', () => {
+    it('should read gas columns from the headers', () => {
+      expect(parseGasHeader('CH4 Factor (g CH4 per mmBtu)')).toEqual({ gas: 'CH4', toKg: 0.001, per: 'mmBtu' });
+      expect(parseGasHeader('CO2 Factor (lb / MWh)')).toEqual({ gas: 'CO2', toKg: 0.45359237, per: 'MWh' });
+      expect(parseGasHeader('Heat Content (HHV) mmBtu per short ton')).toBeNull();
+    });
+
+    it('should build one factor per activity unit from each table row', () => {
+      const result = parseFactorFile('epa_hub', workbook({
+        'Emission Factors Hub': [
+          ['Emission Factors for Greenhouse Gas Inventories'],
+          ['Last Modified: 5 January 2024'],
+          [],
+          ['Table 1 Stationary Combustion'],
+          ['Fuel Type', 'Heat Content (HHV) mmBtu per short ton', 'CO2 Factor (kg CO2 per mmBtu)', 'CH4 Factor (g CH4 per mmBtu)', 'N2O Factor (g N2O per mmBtu)', 'CO2 Factor (kg CO2 per short ton)', 'CH4 Factor (g CH4 per short ton)', 'N2O Factor (g N2O per short ton)'],
+          ['Coal and Coke'],
+          ['Anthracite Coal', 25.09, 103.69, 11, 1.6, 2602, 276, 40],
+          [],
+          ['Table 6 Electricity'],
+          ['eGRID Subregion Acronym', 'eGRID Subregion Name', 'CO2 Factor (lb / MWh)', 'CH4 Factor (lb / MWh)', 'N2O Factor (lb / MWh)'],
+          ['AKGD', 'ASCC Alaska Grid', 1052.1, 0.088, 0.012],
+          [],
+          ['Table 12 Global Warming Potentials'],
+          ['Gas', '100-Year GWP (kg CO2 per kg gas)'],
+        ],
+      }));
+
+      expect(result.errors).toEqual([]);
+      expect(result.sourceYear).toBe(2024);
+      expect(result.factors).toHaveLength(3);
+
+      const perMmbtu = result.factors.find((f) => f.unit === 'mmbtu')!;
+      expect(perMmbtu).toMatchObject({ activityType: 'stationary_combustion', subcategory: 'Coal and Coke', name: 'Anthracite Coal' });
+      expect(perMmbtu.gases).toEqual({ CO2: 103.69, CH4: 0.011, N2O: 0.0016 });
+      expect(perMmbtu.factorValue).toBeCloseTo(103.69 + 0.011 * 28 + 0.0016 * 265, 8);
+      expect(result.factors.find((f) => f.unit === 'short_ton')!.gases!.CO2).toBe(2602);
+
+      const grid = result.factors.find((f) => f.activityType === 'purchased_electricity')!;
+      expect(grid).toMatchObject({ region: 'AKGD', name: 'ASCC Alaska Grid', unit: 'mwh', scope: 'scope2', country: 'US' });
+      expect(grid.gases!.CO2).toBeCloseTo(1052.1 * 0.45359237, 8);
+    });
+
+    it('should require a source year', () => {
+      const result = parseFactorFile('epa_hub', workbook({
+        Hub: [['Table 1 Stationary Combustion'], ['Fuel Type', 'CO2 Factor (kg CO2 per mmBtu)'], ['Anthracite Coal', 103.69]],
+      }));
+      expect(result.errors[0].error).toContain('Source year not found');
+      expect(parseFactorFile('epa_hub', workbook({
+        Hub: [['Table 1 Stationary Combustion'], ['Fuel Type', 'CO2 Factor (kg CO2 per mmBtu)'], ['Anthracite Coal', 103.69]],
+      }), { sourceYear: 2023 }).factors[0].sourceYear).toBe(2023);
+    });
+  });
+
+  describe('IPCC EFDB export', () => {
+    it('should map emission factor rows by 2006 category and compute uncertainty from the bounds', () => {
+      const result = parseFactorFile('ipcc_efdb', workbook({
+        EFDB: [
+          ['EF ID', 'IPCC 2006 Source/Sink Category', 'Gas', 'Fuel 2006', 'Type of parameter', 'Description', 'Value', 'Unit', 'Lower bound', 'Upper bound', 'Region / Regional Conditions'],
+          ['110579', '1.A.1 - Energy Industries', 'CARBON DIOXIDE', 'Natural Gas', 'Emission Factor', 'Default EF', 56100, 'kg/TJ', 54300, 58300, null],
+          ['110580', '1.A.3.b - Road Transportation', 'METHANE', 'Gas/Diesel Oil', 'Emission Factor', 'Default EF', 3.9, 'kg/TJ', 1.6, 9.5, null],
+          ['120001', '1.A.1 - Energy Industries', 'CARBON DIOXIDE', 'Natural Gas', 'Carbon content', 'Default', 15.3, 'kg/GJ', null, null, null],
+          ['130001', '3.C.4 - Direct N2O Emissions from managed soils', 'NITROUS OXIDE', null, 'Emission Factor', 'EF1', 0.01, 'kg/kg', null, null, null],
+        ],
+      }));
+
+      expect(result.sourceYear).toBe(2006);
+      expect(result.factors).toHaveLength(2);
+      expect(result.factors[0]).toMatchObject({
+        key: 'efdb_110579:CO2',
+        activityType: 'stationary_combustion',
+        unit: 'tj',
+        factorValue: 56100,
+        gases: { CO2: 56100 },
+        uncertaintyMin: 3.21,
+        uncertaintyMax: 3.92,
+      });
+      expect(result.factors[1]).toMatchObject({ activityType: 'mobile_combustion', gases: { CH4: 3.9 }, factorValue: 109.2 });
+      expect(result.report.map((r) => r.status)).toEqual(['mapped', 'mapped', 'skipped', 'skipped']);
+      expect(result.report[2].notes[0]).toContain('not an emission factor');
+    });
+  });
+
+  describe('TGO emission factors', () => {
+    it('should read bilingual headers, section rows and Buddhist-era years', () => {
+      const result = parseFactorFile('tgo', workbook({
+        'EF CFO': [
+          ['ค่าการปล่อยก๊าซเรือนกระจก ปรับปรุงล่าสุด พ.ศ. 2567'],
+          ['ลำดับ No.', 'ชื่อ Name', 'หน่วย Unit', 'ค่าการปล่อยก๊าซเรือนกระจก Emission Factor (kgCO2e/หน่วย)', 'ข้อมูลอ้างอิง Reference'],
+          ['1. เชื้อเพลิง Fuel'],
+          [1, 'Diesel', 'ลิตร', 2.7406, 'IPCC 2006'],
+          ['2. ไฟฟ้า Electricity'],
+          [2, 'Grid electricity', 'kWh', 0.4999, 'TGO'],
+          ['3. วัสดุ Materials'],
+          [3, 'Portland cement', 'kg', 0.9, 'Thai National LCI'],
+          [4, 'Steel bar', 'kg', 'n/a', null],
+        ],
+      }));
+
+      expect(result.sourceYear).toBe(2024);
+      expect(result.factors.map((f) => [f.name, f.activityType, f.scope, f.unit])).toEqual([
+        ['Diesel', 'stationary_combustion', 'scope1', 'l'],
+        ['Grid electricity', 'purchased_electricity', 'scope2', 'kwh'],
+        ['Portland cement', 'purchased_goods', 'scope3', 'kg'],
+      ]);
+      expect(result.factors[0]).toMatchObject({ factorValue: 2.7406, country: 'TH', category: '1. เชื้อเพลิง Fuel' });
+      expect(result.report[2].notes).toContain('No category match; mapped as purchased goods');
+      expect(result.report[3].status).toBe('error');
+    });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Factor Matching Service Unit Tests
+ * Tests for candidate exclusion, the ranking order and the explained choice
+ */
+import { rankFactorCandidates, activityMatchContext } from '../../src/services/factorMatchingService';
+import type { FactorCandidate } from '../../src/types';
+
+// Global grid factor per kWh; the tests vary one attribute at a time
+const gridFactor: FactorCandidate = {
+  key: 'global',
+  kind: 'emission_factor',
+  label: 'Grid electricity',
+  value: 0.5,
+  unit: 'kwh',
+  qualifier: null,
+  scope: null,
+  category: null,
+  country: null,
+  region: null,
+  year: null,
+  validFrom: null,
+  validTo: null,
+  source: 'Test',
+  createdAt: null,
+};
+
+describe('Factor Matching Service', () => {
+  describe('rankFactorCandidates', () => {
+    it('should compare countries exactly, never by substring', () => {
+      const match = rankFactorCandidates({ unit: 'kwh', country: 'India' }, [
+        { ...gridFactor, key: 'indiana', country: 'US', region: 'Indiana' },
+        { ...gridFactor, key: 'india', country: 'India' },
+      ]);
+
+      expect(match.chosen?.key).toBe('india');
+      const indiana = match.candidates.find((c) => c.candidate.key === 'indiana');
+      expect(indiana?.rank).toBeNull();
+      expect(indiana?.excluded).toContain('Indiana');
+    });
+
+    it('should prefer the region, then the country, then a global factor', () => {
+      const candidates = [
+        gridFactor,
+        { ...gridFactor, key: 'us', country: 'US' },
+        { ...gridFactor, key: 'california', country: 'US', region: 'California' },
+        { ...gridFactor, key: 'texas', country: 'US', region: 'Texas' },
+      ];
+
+      const inCalifornia = rankFactorCandidates({ unit: 'kwh', country: 'US', region: 'California' }, candidates);
+      expect(inCalifornia.chosen?.key).toBe('california');
+      expect(inCalifornia.candidates.find((c) => c.candidate.key === 'texas')?.excluded).toBeTruthy();
+
+      const inUS = rankFactorCandidates({ unit: 'kwh', country: 'us' }, candidates);
+      expect(inUS.candidates.map((c) => c.candidate.key)).toEqual(['us', 'california', 'texas', 'global']);
+
+      const elsewhere = rankFactorCandidates({ unit: 'kwh', country: 'Thailand' }, candidates);
+      expect(elsewhere.chosen?.key).toBe('global');
+    });
+
+    it('should choose the closest year, the earlier one on a tie', () => {
+      const match = rankFactorCandidates({ unit: 'kwh', year: 2022 }, [
+        { ...gridFactor, key: '2019', year: 2019 },
+        { ...gridFactor, key: '2023', year: 2023 },
+        { ...gridFactor, key: '2021', year: 2021 },
+      ]);
+
+      expect(match.candidates.map((c) => c.candidate.key)).toEqual(['2021', '2023', '2019']);
+      expect(match.reason).toContain('1 year earlier');
+    });
+
+    it('should exclude factors whose validity window misses the activity date', () => {
+      const match = rankFactorCandidates({ unit: 'kwh', date: '2024-06-30' }, [
+        { ...gridFactor, key: 'old', validFrom: '2020-01-01', validTo: '2023-12-31' },
+        { ...gridFactor, key: 'current', validFrom: '2024-01-01', validTo: '2024-12-31' },
+      ]);
+
+      expect(match.chosen?.key).toBe('current');
+      expect(match.candidates[1].excluded).toContain('2023-12-31');
+    });
+
+    it('should rank a project override first', () => {
+      const match = rankFactorCandidates({ country: 'Thailand', year: 2024 }, [
+        { ...gridFactor, key: 'tgo', country: 'Thailand', year: 2024 },
+        { ...gridFactor, key: 'override', kind: 'override', country: 'Thailand', year: 2022 },
+      ]);
+
+      expect(match.chosen?.key).toBe('override');
+      expect(match.reason).toContain('on project override');
+    });
+
+    it('should convert units of the same dimension and exclude other dimensions', () => {
+      const match = rankFactorCandidates({ unit: 'mwh' }, [
+        { ...gridFactor, key: 'per_kg', unit: 'kg' },
+        { ...gridFactor, key: 'per_kwh', unit: 'kwh' },
+      ]);
+
+      expect(match.chosen?.key).toBe('per_kwh');
+      expect(match.candidates[1].excluded).toContain('cannot be converted');
+    });
+
+    it('should match the fuel qualifier from the unit key', () => {
+      const match = rankFactorCandidates({ unit: 'diesel_l' }, [
+        { ...gridFactor, key: 'petrol', unit: 'l', qualifier: 'petrol' },
+        { ...gridFactor, key: 'any', unit: 'l' },
+        { ...gridFactor, key: 'diesel', unit: 'l', qualifier: 'diesel' },
+      ]);
+
+      expect(match.chosen?.key).toBe('diesel');
+      expect(match.candidates.map((c) => c.candidate.key)).toEqual(['diesel', 'any', 'petrol']);
+    });
+
+    it('should report ambiguity when different qualifiers rank equally', () => {
+      const match = rankFactorCandidates({ unit: 'l' }, [
+        { ...gridFactor, key: 'diesel', unit: 'l', qualifier: 'diesel' },
+        { ...gridFactor, key: 'petrol', unit: 'l', qualifier: 'petrol' },
+      ]);
+
+      expect(match.chosen).toBeNull();
+      expect(match.ambiguous).toBe(true);
+      expect(match.tied).toHaveLength(2);
+      expect(match.reason).toContain('specify one of: diesel, petrol');
+    });
+
+    it('should break remaining ties on source priority, then the newest row', () => {
+      const candidates = [
+        { ...gridFactor, key: 'epa', source: 'EPA 2024', createdAt: '2024-05-01T00:00:00Z' },
+        { ...gridFactor, key: 'desnz', source: 'DESNZ 2024', createdAt: '2024-01-01T00:00:00Z' },
+      ];
+
+      expect(rankFactorCandidates({ unit: 'kwh' }, candidates).chosen?.key).toBe('epa');
+      expect(rankFactorCandidates({ unit: 'kwh', sourcePriority: ['DESNZ'] }, candidates).chosen?.key).toBe('desnz');
+    });
+  });
+
+  describe('activityMatchContext', () => {
+    it('should fall back to the project location and reporting year', () => {
+      const context = activityMatchContext(
+        { scope3_category: 'business_travel', reporting_period_end: '2023-12-31', metadata: { region: 'Bangkok' } },
+        { id: 'p1', country: 'Thailand', region: null, reporting_year: 2024, settings: { factorSources: ['TGO'] } }
+      );
+
+      expect(context).toEqual({
+        country: 'Thailand',
+        region: 'Bangkok',
+        year: 2023,
+        date: '2023-12-31',
+        category: 'business_travel',
+        sourcePriority: ['TGO'],
+        projectId: 'p1',
+      });
+    });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * GWP Service Unit Tests
+ * Tests for multi-gas CO2e conversion across IPCC assessment reports
+ */
+import {
+  getGWP,
+  resolveGas,
+  parseGasAmounts,
+  gasesToCO2e,
+  calculateGasBreakdown,
+  breakdownToCO2e,
+  mergeGasBreakdowns,
+  summarizeGasBreakdown,
+} from '../../src/services/gwpService';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: { warn: jest.fn(), info: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+describe('GWP Service', () => {
+  describe('getGWP', () => {
+    it('should return assessment-report specific values', () => {
+      expect(getGWP('CH4', 'AR4')).toBe(25);
+      expect(getGWP('CH4', 'AR5')).toBe(28);
+      expect(getGWP('N2O', 'AR6')).toBe(273);
+      expect(getGWP('SF6', 'AR5')).toBe(23500);
+    });
+
+    it('should default to AR5', () => {
+      expect(getGWP('N2O')).toBe(265);
+    });
+  });
+
+  describe('resolveGas', () => {
+    it('should resolve formulas, refrigerant numbers and names', () => {
+      expect(resolveGas('co2')).toBe('CO2');
+      expect(resolveGas('HFC134a')).toBe('HFC-134a');
+      expect(resolveGas('R-134a')).toBe('HFC-134a');
+      expect(resolveGas('CF4')).toBe('PFC-14');
+      expect(resolveGas('methane')).toBe('CH4');
+    });
+
+    it('should return null for unknown gases', () => {
+      expect(resolveGas('R-22')).toBeNull();
+    });
+  });
+
+  describe('parseGasAmounts', () => {
+    it('should parse JSON strings and drop unknown gases', () => {
+      expect(parseGasAmounts('{"co2": 2.5, "ch4": "0.001", "HCFC-22": 1}')).toEqual({
+        CO2: 2.5,
+        CH4: 0.001,
+      });
+    });
+
+    it('should return null when nothing usable is present', () => {
+      expect(parseGasAmounts(null)).toBeNull();
+      expect(parseGasAmounts({})).toBeNull();
+    });
+  });
+
+  describe('gasesToCO2e', () => {
+    it('should convert R-410A (50% HFC-32 / 50% HFC-125) per report', () => {
+      const r410a = { 'HFC-32': 0.5, 'HFC-125': 0.5 } as const;
+      expect(gasesToCO2e(r410a, 'AR4')).toBeCloseTo(2087.5);
+      expect(gasesToCO2e(r410a, 'AR5')).toBeCloseTo(1923.5);
+      expect(gasesToCO2e(r410a, 'AR6')).toBeCloseTo(2255.5);
+    });
+  });
+
+  describe('calculateGasBreakdown', () => {
+    it('should scale per-gas factors by quantity and tier multiplier', () => {
+      const breakdown = calculateGasBreakdown(
+        1000,
+        { factor: 2.7, gases: { CO2: 2.676, CH4: 0.0001 } },
+        'AR5',
+        1.2
+      );
+
+      expect(breakdown.gases.CO2).toBeCloseTo(3211.2);
+      expect(breakdown.gases.CH4).toBeCloseTo(0.12);
+      expect(breakdown.unspecifiedCo2e).toBe(0);
+      expect(breakdownToCO2e(breakdown)).toBeCloseTo(3211.2 + 0.12 * 28);
+    });
+
+    it('should carry CO2e-only factors as unspecified', () => {
+      const breakdown = calculateGasBreakdown(500, { factor: 0.42 }, 'AR6');
+      expect(breakdown.gases).toEqual({});
+      expect(breakdownToCO2e(breakdown)).toBeCloseTo(210);
+    });
+  });
+
+  describe('recalculation between GWP sets', () => {
+    it('should re-derive CO2e from stored gas masses', () => {
+      const breakdown = { gwpSet: 'AR5' as const, gases: { CH4: 10, N2O: 1 }, unspecifiedCo2e: 50 };
+      expect(breakdownToCO2e(breakdown)).toBe(10 * 28 + 265 + 50);
+      expect(breakdownToCO2e(breakdown, 'AR6')).toBeCloseTo(10 * 27.9 + 273 + 50);
+    });
+  });
+
+  describe('mergeGasBreakdowns', () => {
+    it('should sum gases and treat legacy activities as unspecified', () => {
+      const merged = mergeGasBreakdowns(
+        [
+          { breakdown: { gwpSet: 'AR5', gases: { CO2: 100, SF6: 0.01 }, unspecifiedCo2e: 0 }, co2e: 335 },
+          { breakdown: JSON.stringify({ gwpSet: 'AR5', gases: { CO2: 50 }, unspecifiedCo2e: 5 }), co2e: 55 },
+          { breakdown: null, co2e: 20 },
+        ],
+        'AR5'
+      );
+
+      expect(merged.gases).toEqual({ CO2: 150, SF6: 0.01 });
+      expect(merged.unspecifiedCo2e).toBe(25);
+    });
+  });
+
+  describe('summarizeGasBreakdown', () => {
+    it('should list gases by CO2e contribution', () => {
+      const rows = summarizeGasBreakdown({ gwpSet: 'AR6', gases: { CO2: 100, SF6: 0.01 }, unspecifiedCo2e: 12 });
+
+      expect(rows.map((r) => r.gas)).toEqual(['SF6', 'CO2', 'unspecified']);
+      expect(rows[0]).toEqual({ gas: 'SF6', massKg: 0.01, gwp: 25200, co2eKg: 252 });
+      expect(rows[2].massKg).toBeNull();
+    });
+
+    it('should return an empty list without a breakdown', () => {
+      expect(summarizeGasBreakdown(null)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Initiative Service Unit Tests
+ * Tests for annualized costs, the MAC curve, emissions wedges and activity links
+ */
+import {
+  capitalRecoveryFactor,
+  costPerTonne,
+  buildMacCurve,
+  buildWedges,
+  linkedEmissionsTCo2e,
+} from '../../src/services/initiativeService';
+import type { ReductionInitiative } from '../../src/types';
+
+jest.mock('../../src/config/database', () => ({
+  db: { query: jest.fn(), queryOne: jest.fn() },
+}));
+
+const ledRetrofit: ReductionInitiative = {
+  id: 'i1',
+  projectId: 'p1',
+  name: 'LED retrofit',
+  description: null,
+  status: 'planned',
+  activityIds: [],
+  categories: [],
+  annualAbatementTCo2e: 100,
+  capex: 10000,
+  annualOpex: 0,
+  currency: 'USD',
+  lifetimeYears: 10,
+  startYear: 2026,
+};
+
+describe('Initiative Service', () => {
+  describe('costPerTonne', () => {
+    it('should spread capex straight-line at a zero discount rate', () => {
+      expect(capitalRecoveryFactor(0, 10)).toBeCloseTo(0.1, 10);
+      expect(costPerTonne(ledRetrofit, 0)).toBeCloseTo(10, 10);
+    });
+
+    it('should annualize capex with the capital recovery factor and net opex savings', () => {
+      // CRF(5%, 10 years) = 0.129505
+      expect(capitalRecoveryFactor(5, 10)).toBeCloseTo(0.129505, 5);
+      expect(costPerTonne({ ...ledRetrofit, annualOpex: -2000 }, 5)).toBeCloseTo((10000 * 0.129505 - 2000) / 100, 2);
+    });
+  });
+
+  describe('buildMacCurve', () => {
+    it('should order initiatives by cost per tonne and stack their abatement', () => {
+      const bars = buildMacCurve([
+        { ...ledRetrofit, id: 'solar', name: 'Solar PPA', annualAbatementTCo2e: 300, capex: 0, annualOpex: 6000 },
+        { ...ledRetrofit, id: 'led', annualOpex: -3000 },
+        { ...ledRetrofit, id: 'fleet', name: 'EV fleet', status: 'cancelled', capex: 0 },
+      ], 0);
+
+      expect(bars.map((bar) => bar.initiativeId)).toEqual(['led', 'solar']);
+      expect(bars[0].costPerTonne).toBe(-20);
+      expect(bars[0]).toMatchObject({ cumulativeStart: 0, cumulativeEnd: 100 });
+      expect(bars[1]).toMatchObject({ costPerTonne: 20, cumulativeStart: 100, cumulativeEnd: 400 });
+    });
+  });
+
+  describe('buildWedges', () => {
+    it('should abate each initiative from its start year for its lifetime', () => {
+      const years = buildWedges([
+        { ...ledRetrofit, id: 'a', startYear: 2026, lifetimeYears: 2, annualAbatementTCo2e: 50 },
+        { ...ledRetrofit, id: 'b', startYear: 2027, annualAbatementTCo2e: 200 },
+        { ...ledRetrofit, id: 'old', status: 'implemented', startYear: 2024 },
+      ], 2025, 1000, 2028);
+
+      expect(years.map((year) => year.year)).toEqual([2026, 2027, 2028]);
+      expect(years[0]).toMatchObject({ wedges: { a: 50 }, projectedTCo2e: 950 });
+      expect(years[1]).toMatchObject({ wedges: { a: 50, b: 200 }, projectedTCo2e: 750 });
+      expect(years[2]).toMatchObject({ baselineTCo2e: 1000, wedges: { b: 200 }, projectedTCo2e: 800 });
+    });
+
+    it('should not project below zero', () => {
+      const years = buildWedges([{ ...ledRetrofit, annualAbatementTCo2e: 5000 }], 2025, 1000, 2026);
+      expect(years[0].projectedTCo2e).toBe(0);
+    });
+  });
+
+  describe('linkedEmissionsTCo2e', () => {
+    it('should sum activities linked by id, activity type or Scope 3 category', () => {
+      const activities = [
+        { id: 'a1', activity_type: 'electricity', scope3_category: null, total_emissions_kg_co2e: '40000' },
+        { id: 'a2', activity_type: 'diesel', scope3_category: null, total_emissions_kg_co2e: '25000' },
+        { id: 'a3', activity_type: 'flight', scope3_category: 'business_travel', total_emissions_kg_co2e: '10000' },
+        { id: 'a4', activity_type: 'natural_gas', scope3_category: null, total_emissions_kg_co2e: '90000' },
+      ];
+
+      const linked = linkedEmissionsTCo2e(
+        { ...ledRetrofit, activityIds: ['a2'], categories: ['electricity', 'business_travel'] },
+        activities
+      );
+      expect(linked).toBe(75);
+    });
+  });
+});
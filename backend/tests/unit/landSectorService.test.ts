@@ -0,0 +1,124 @@
+/**
+ * Land Sector Service Unit Tests
+ * Tests for the IPCC Tier 1 models and for keeping biogenic flows apart from
+ * the fossil total
+ */
+import {
+  managedSoils,
+  residueBurning,
+  landUseChange,
+  getLandSectorFactor,
+  activityFlows,
+  summarizeLandSector,
+} from '../../src/services/landSectorService';
+
+describe('Land Sector Service', () => {
+  describe('managedSoils', () => {
+    it('should add direct and indirect N2O with the aggregated factors', () => {
+      const { gases, category } = managedSoils({});
+
+      // EF1 0.010 + FracGAS 0.11 x EF4 0.010 + FracLEACH 0.24 x EF5 0.011
+      expect(gases.N2O).toBeCloseTo(0.01374 * 44 / 28, 10);
+      expect(gases.CO2).toBeUndefined();
+      expect(category).toBe('managedSoils');
+    });
+
+    it('should use the climate factors and add CO2 from urea', () => {
+      const wet = managedSoils({ climate: 'wet', ureaShare: 0.6 });
+      expect(wet.gases.N2O).toBeCloseTo((0.016 + 0.11 * 0.014 + 0.24 * 0.011) * 44 / 28, 10);
+      expect(wet.gases.CO2).toBeCloseTo((0.6 / (28 / 60)) * 0.2 * 44 / 12, 10);
+
+      const dry = managedSoils({ climate: 'dry', nitrogenSource: 'organic' });
+      expect(dry.parameters).toMatchObject({ ef1: 0.005, fracLeach: 0 });
+
+      expect(() => managedSoils({ nitrogenSource: 'organic', ureaShare: 0.5 })).toThrow('synthetic nitrogen only');
+      expect(() => managedSoils({ climate: 'temperate' })).toThrow('Climate must be');
+    });
+  });
+
+  describe('residueBurning', () => {
+    it('should count CH4 and N2O and report the CO2 as biogenic', () => {
+      const { gases, reported } = residueBurning({ crop: 'sugarcane' });
+
+      // 6.5 t dry matter per ha x 2.7, 0.07 and 1515 g/kg
+      expect(gases.CH4_non_fossil).toBeCloseTo(17.55, 10);
+      expect(gases.N2O).toBeCloseTo(0.455, 10);
+      expect(gases.CO2).toBeUndefined();
+      expect(reported.biogenicCo2Emissions).toBeCloseTo(9847.5, 10);
+      expect(() => residueBurning({ crop: 'cassava' })).toThrow('fuelConsumedTDmPerHa');
+    });
+  });
+
+  describe('landUseChange', () => {
+    const conversion = { carbonStockBeforeTCPerHa: 60, carbonStockAfterTCPerHa: 10, conversionYear: 2015 };
+
+    it('should spread the carbon stock lost over 20 years', () => {
+      expect(landUseChange(conversion, 2024).gases.CO2).toBeCloseTo((50 * 44 / 12 * 1000) / 20, 8);
+      expect(landUseChange(conversion, 2035).gases).toEqual({});
+      expect(() => landUseChange(conversion, 2010)).toThrow('after the reporting year');
+    });
+
+    it('should report a stock gain as a removal and iLUC apart', () => {
+      const { gases, reported } = landUseChange(
+        { carbonStockBeforeTCPerHa: 10, carbonStockAfterTCPerHa: 30, conversionYear: 2020, ilucKgCo2ePerHa: 500 },
+        2024
+      );
+      expect(gases).toEqual({});
+      expect(reported.biogenicRemovals).toBeCloseTo((20 * 44 / 12 * 1000) / 20, 8);
+      expect(reported.indirectLandUseChange).toBe(500);
+    });
+  });
+
+  describe('getLandSectorFactor', () => {
+    it('should scale the model to the activity unit', () => {
+      const fertilizer = getLandSectorFactor(
+        { unit: 'tonnes_N', metadata: { landSector: { model: 'managed_soils' } } },
+        'AR5'
+      )!;
+      expect(fertilizer.conversionFactor).toBe(1000);
+      expect(fertilizer.factor).toBeCloseTo(1000 * 0.01374 * 44 / 28 * 265, 6);
+
+      // 11.6 GJ/t bagasse x 100000, 30 and 4 kg/TJ
+      const bagasse = getLandSectorFactor(
+        { unit: 'tonnes', metadata: { landSector: { model: 'biomass_combustion', fuel: 'bagasse' } } },
+        'AR5'
+      )!;
+      expect(bagasse.gases).toEqual({ CH4_non_fossil: expect.closeTo(0.348, 10), N2O: expect.closeTo(0.0464, 10) });
+      expect(bagasse.landSector.reported.biogenicCo2Emissions).toBeCloseTo(1160, 10);
+
+      expect(getLandSectorFactor({ unit: 'kg', metadata: {} }, 'AR5')).toBeNull();
+      expect(() => getLandSectorFactor({ unit: 'kg', metadata: { landSector: { model: 'peat' } } }, 'AR5'))
+        .toThrow('Unknown land-sector model');
+    });
+  });
+
+  describe('summarizeLandSector', () => {
+    it('should keep biogenic flows and removals apart from the counted emissions', () => {
+      const bagasse = getLandSectorFactor(
+        { unit: 't', metadata: { landSector: { model: 'biomass_combustion', fuel: 'bagasse' } } },
+        'AR5'
+      )!;
+      const sugar = getLandSectorFactor(
+        { unit: 'kg', metadata: { landSector: { model: 'biogenic_uptake', carbonFraction: 0.4 } } },
+        'AR5'
+      )!;
+      const activities = [
+        { quantity: '100', total_emissions_kg_co2e: '50', emission_factor_used: { landSector: bagasse.landSector } },
+        { quantity: '1000', total_emissions_kg_co2e: '0', emission_factor_used: { landSector: sugar.landSector } },
+        { quantity: '10', total_emissions_kg_co2e: '2680', emission_factor_used: {}, metadata: { biogenic_emissions: 40 } },
+      ];
+
+      expect(activityFlows(activities[0])).toMatchObject({ biomassCombustion: 50, fossil: 0, biogenicCo2Emissions: 116000 });
+      expect(summarizeLandSector(activities)).toEqual({
+        fossil: 2680,
+        managedSoils: 0,
+        residueBurning: 0,
+        landUseChange: 0,
+        biomassCombustion: 50,
+        indirectLandUseChange: 0,
+        biogenicCo2Emissions: 116040,
+        biogenicRemovals: 1466.6667,
+      });
+    });
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Product Service Unit Tests
+ * Tests for lifecycle stages, allocation of shared processes by each method
+ * and component products in the bill of materials
+ */
+import {
+  lifecycleStageOf,
+  massPerUnitKg,
+  allocationShares,
+  allocateProcess,
+  orderByComponents,
+  calculateProductFootprints,
+  compareAllocationMethods,
+} from '../../src/services/productService';
+import type { Product, ProductProcess } from '../../src/types';
+
+jest.mock('../../src/config/database', () => ({
+  db: { query: jest.fn(), queryOne: jest.fn() },
+}));
+
+const rawSugar: Product = {
+  id: 'raw',
+  projectId: 'p1',
+  name: 'Raw sugar',
+  code: null,
+  declaredUnit: 'kg',
+  functionalUnit: null,
+  annualOutput: 1000,
+  massPerUnitKg: null,
+  energyMjPerUnit: null,
+  pricePerUnit: null,
+  priceCurrency: null,
+  substitutionKgCo2ePerUnit: null,
+  billOfMaterials: [],
+};
+const molasses: Product = { ...rawSugar, id: 'molasses', name: 'Molasses', declaredUnit: 't', annualOutput: 0.5 };
+const power: Product = { ...rawSugar, id: 'power', name: 'Bagasse power', declaredUnit: 'kWh', annualOutput: 2000 };
+const whiteSugar: Product = {
+  ...rawSugar,
+  id: 'white',
+  name: 'White sugar',
+  annualOutput: 500,
+  billOfMaterials: [{ name: 'Raw sugar', quantity: 1.1, unit: 'kg', componentProductId: 'raw' }],
+};
+
+const mill: ProductProcess = {
+  id: 'mill',
+  projectId: 'p1',
+  name: 'Cane milling',
+  description: null,
+  lifecycleStage: null,
+  sequence: 0,
+  outputs: [
+    { productId: 'raw', quantity: 1000 },
+    { productId: 'molasses', quantity: 0.5 },
+    { productId: 'power', quantity: 2000 },
+  ],
+  allocationMethod: null,
+  allocationJustification: null,
+};
+
+const activities = [
+  { id: 'a1', scope: 'scope1', total_emissions_kg_co2e: '900', process_id: 'mill', product_id: null },
+  { id: 'a2', scope: 'scope3', scope3_category: 'purchased_goods', total_emissions_kg_co2e: '300', process_id: 'mill', product_id: null },
+  { id: 'a3', scope: 'scope2', total_emissions_kg_co2e: '100', process_id: null, product_id: 'white' },
+  { id: 'a4', scope: 'scope1', total_emissions_kg_co2e: '50', process_id: null, product_id: null },
+];
+
+describe('Product Service', () => {
+  describe('lifecycleStageOf', () => {
+    it('should put Scope 1 and 2 in production and map Scope 3 categories', () => {
+      expect(lifecycleStageOf({ scope: 'scope2' })).toBe('production');
+      expect(lifecycleStageOf({ scope: 'scope3', scope3_category: 'purchased_goods' })).toBe('rawMaterials');
+      expect(lifecycleStageOf({ scope: 'scope3', scope3_category: 'downstream_transport' })).toBe('distribution');
+      expect(lifecycleStageOf({ scope: 'scope3', scope3_category: 'business_travel' })).toBe('production');
+    });
+  });
+
+  describe('allocationShares', () => {
+    it('should split a shared process by output mass and leave outputs without a mass out', () => {
+      expect(massPerUnitKg(molasses)).toBe(1000);
+      expect(massPerUnitKg(power)).toBeNull();
+
+      const byId = new Map([rawSugar, molasses, power].map((p) => [p.id, p]));
+      const { shares, withoutKey } = allocationShares(mill, byId);
+
+      expect(shares.get('raw')).toBeCloseTo(2 / 3, 10);
+      expect(shares.get('molasses')).toBeCloseTo(1 / 3, 10);
+      expect(shares.has('power')).toBe(false);
+      expect(withoutKey).toEqual(['Bagasse power']);
+    });
+
+    it('should split by energy content and by price', () => {
+      const fuels = new Map([
+        [rawSugar.id, { ...rawSugar, energyMjPerUnit: 16, pricePerUnit: 0.5, priceCurrency: 'USD' }],
+        [molasses.id, { ...molasses, energyMjPerUnit: 10000, pricePerUnit: 100, priceCurrency: 'USD' }],
+        [power.id, { ...power, pricePerUnit: 0.1, priceCurrency: 'USD' }],
+      ]);
+
+      // 1000 kg x 16 MJ, 0.5 t x 10000 MJ and 2000 kWh x 3.6 MJ
+      const energy = allocationShares(mill, fuels, 'energy').shares;
+      expect(energy.get('raw')).toBeCloseTo(16000 / 28200, 10);
+      expect(energy.get('power')).toBeCloseTo(7200 / 28200, 10);
+
+      // 500 + 50 + 200 USD
+      const economic = allocationShares(mill, fuels, 'economic').shares;
+      expect(economic.get('raw')).toBeCloseTo(500 / 750, 10);
+      expect(economic.get('molasses')).toBeCloseTo(50 / 750, 10);
+
+      fuels.set(power.id, { ...power, pricePerUnit: 700, priceCurrency: 'CNY' });
+      expect(allocationShares(mill, fuels, 'economic').error).toMatch('one currency');
+    });
+  });
+
+  describe('allocateProcess', () => {
+    it('should credit substituted co-products and leave the rest to the determining products', () => {
+      const byId = new Map([
+        [rawSugar.id, rawSugar],
+        [molasses.id, molasses],
+        [power.id, { ...power, substitutionKgCo2ePerUnit: 0.5 }],
+      ]);
+
+      // 2000 kWh displaces 1000 kg CO2e of grid power; the other 200 kg is split by mass
+      const { shares, warnings } = allocateProcess(mill, byId, 'substitution', 1200);
+      expect(shares.get('power')! * 1200).toBeCloseTo(1000, 10);
+      expect(shares.get('raw')! * 1200).toBeCloseTo(200 * 2 / 3, 10);
+      expect(shares.get('molasses')! * 1200).toBeCloseTo(200 / 3, 10);
+      expect(warnings).toEqual([]);
+
+      const { shares: negative, warnings: negativeWarnings } = allocateProcess(mill, byId, 'substitution', 600);
+      expect(negative.get('raw')!).toBeLessThan(0);
+      expect(negativeWarnings[0]).toMatch('displaced emissions exceed the process');
+    });
+  });
+
+  describe('orderByComponents', () => {
+    it('should put components first and refuse a circular bill of materials', () => {
+      expect(orderByComponents([whiteSugar, rawSugar]).map((p) => p.id)).toEqual(['raw', 'white']);
+
+      const circular: Product = { ...rawSugar, billOfMaterials: [{ name: 'White', quantity: 1, unit: null, componentProductId: 'white' }] };
+      expect(() => orderByComponents([whiteSugar, circular])).toThrow('Bill of materials is circular');
+    });
+  });
+
+  describe('calculateProductFootprints', () => {
+    it('should combine direct activities, process shares and components per product', () => {
+      const { footprints, unassigned, warnings } = calculateProductFootprints(
+        [rawSugar, molasses, power, whiteSugar],
+        [mill],
+        activities
+      );
+      const byId = Object.fromEntries(footprints.map((f) => [f.productId, f]));
+
+      expect(byId.raw).toMatchObject({ cfpTotal: 800, cfpPerUnit: 0.8, sources: { direct: 0, allocated: 800, components: 0 } });
+      expect(byId.raw.lifecycleStages).toMatchObject({ production: 600, rawMaterials: 200 });
+      expect(byId.molasses).toMatchObject({ cfpTotal: 400, cfpPerUnit: 800 });
+      expect(byId.power.cfpTotal).toBe(0);
+
+      // 500 kg white sugar x 1.1 kg raw sugar x 0.8 kg CO2e/kg, plus its own electricity
+      expect(byId.white.components).toEqual([{ productId: 'raw', productName: 'Raw sugar', quantity: 550, emissions: 440 }]);
+      expect(byId.white).toMatchObject({ cfpTotal: 540, cfpPerUnit: 1.08, sources: { direct: 100, components: 440 } });
+
+      expect(unassigned).toEqual({ activityCount: 1, emissions: 50 });
+      expect(warnings).toHaveLength(2);
+      expect(warnings[1]).toMatch('no justification recorded for mass allocation');
+    });
+
+    it('should use the process stage when it has one', () => {
+      const { footprints } = calculateProductFootprints(
+        [rawSugar],
+        [{ ...mill, lifecycleStage: 'rawMaterials', outputs: [{ productId: 'raw', quantity: 1000 }] }],
+        activities.slice(0, 2)
+      );
+      expect(footprints[0].lifecycleStages).toMatchObject({ rawMaterials: 1200, production: 0 });
+    });
+
+    it('should report a process with no output mass as unallocated', () => {
+      const { footprints, unassigned } = calculateProductFootprints(
+        [power],
+        [{ ...mill, outputs: [{ productId: 'power', quantity: 2000 }] }],
+        activities.slice(0, 2)
+      );
+      expect(footprints[0].cfpTotal).toBe(0);
+      expect(unassigned.emissions).toBe(1200);
+    });
+
+    it('should use the process method over the calculation default', () => {
+      const byPrice: ProductProcess = {
+        ...mill,
+        allocationMethod: 'economic',
+        allocationJustification: 'Mass does not reflect why the mill is run',
+      };
+      const priced = [
+        { ...rawSugar, pricePerUnit: 0.5 },
+        { ...molasses, pricePerUnit: 100 },
+        { ...power, pricePerUnit: 0.1 },
+      ];
+      const { footprints, warnings } = calculateProductFootprints(priced, [byPrice], activities.slice(0, 2), {
+        allocationMethod: 'energy',
+      });
+
+      expect(footprints[0].cfpTotal).toBe(800);
+      expect(footprints[0].allocations[0]).toMatchObject({ method: 'economic', sharePercent: 66.6667 });
+      expect(footprints[2].cfpTotal).toBe(320);
+      expect(warnings).toEqual([]);
+    });
+  });
+
+  describe('compareAllocationMethods', () => {
+    it('should footprint every product under every method', () => {
+      const keyed = [
+        { ...rawSugar, energyMjPerUnit: 16, pricePerUnit: 0.5 },
+        { ...molasses, energyMjPerUnit: 10000, pricePerUnit: 100 },
+        { ...power, pricePerUnit: 0.1, substitutionKgCo2ePerUnit: 0.5 },
+      ];
+      const { products, warnings } = compareAllocationMethods(keyed, [mill], activities.slice(0, 2));
+      const raw = products.find((entry) => entry.productId === 'raw')!;
+
+      expect(raw.applied).toBe(0.8);
+      expect(raw.byMethod.mass).toBe(0.8);
+      expect(raw.byMethod.economic).toBe(0.8);
+      expect(raw.byMethod.energy).toBeCloseTo(1200 * 16000 / 28200 / 1000, 6);
+      expect(raw.byMethod.substitution).toBeCloseTo(0.133333, 6);
+      expect(raw.spreadPercent).toBeCloseTo(((0.8 - 0.133333) / 0.8) * 100, 1);
+      expect(warnings.substitution).toEqual([]);
+    });
+  });
+});
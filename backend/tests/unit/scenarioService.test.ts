@@ -0,0 +1,127 @@
+/**
+ * Scenario Service Unit Tests
+ * Tests for overlaying adjustments on snapshot activities, renewable top-ups
+ * and the comparison with the actual inventory
+ */
+import {
+  overlayActivity,
+  renewableTopUps,
+  summarizeInventory,
+  compareInventories,
+} from '../../src/services/scenarioService';
+import type { Scope2Result } from '../../src/services/scope2Service';
+
+jest.mock('../../src/config/database', () => ({
+  db: { query: jest.fn(), queryOne: jest.fn() },
+}));
+
+const electricity = {
+  id: 'a1',
+  name: 'Office electricity',
+  scope: 'scope2',
+  activity_type: 'electricity',
+  quantity: '10',
+  unit: 'MWh',
+  metadata: { country: 'Thailand' },
+  total_emissions_kg_co2e: '4990',
+};
+
+const diesel = {
+  id: 'a2',
+  name: 'Fleet diesel',
+  scope: 'scope1',
+  activity_type: 'diesel',
+  quantity: '1000',
+  unit: 'L',
+  metadata: {},
+  total_emissions_kg_co2e: '2680',
+};
+
+describe('Scenario Service', () => {
+  describe('overlayActivity', () => {
+    it('should leave activities no adjustment matches untouched', () => {
+      const overlay = overlayActivity(diesel, [
+        { type: 'quantity_reduction', percent: 20, match: { scopes: ['scope3'] } },
+      ]);
+
+      expect(overlay.applied).toEqual([]);
+      expect(overlay.recalculate).toBe(false);
+      expect(overlay.activity.quantity).toBe('1000');
+    });
+
+    it('should scale the quantity without recalculating for a quantity reduction', () => {
+      const overlay = overlayActivity(diesel, [{ type: 'quantity_reduction', percent: 25 }]);
+
+      expect(overlay.quantityScale).toBe(0.75);
+      expect(overlay.activity.quantity).toBe(750);
+      expect(overlay.recalculate).toBe(false);
+      expect(overlay.applied).toEqual(['Reduce quantity by 25%']);
+    });
+
+    it('should switch the fuel and rematch its factor', () => {
+      const overlay = overlayActivity(diesel, [
+        { type: 'supplier_change', supplierName: 'Acme', factorKgCo2ePerUnit: 2, match: { activityIds: ['a2'] } },
+        { type: 'fuel_switch', fromActivityType: 'diesel', toActivityType: 'hvo', conversionRatio: 1.05 },
+      ]);
+
+      expect(overlay.activity.activity_type).toBe('hvo');
+      expect(overlay.activity.quantity).toBeCloseTo(1050, 6);
+      expect(overlay.factor).toBeNull();
+      expect(overlay.recalculate).toBe(true);
+    });
+
+    it('should express a swapped grid factor per activity unit, in the named country only', () => {
+      const overlay = overlayActivity(electricity, [
+        { type: 'grid_factor', country: 'thailand', factorKgCo2ePerKwh: 0.3 },
+      ]);
+      expect(overlay.factor).toMatchObject({ factor: 300, unit: 'MWh', source: 'scenario: grid factor' });
+
+      const elsewhere = overlayActivity(electricity, [
+        { type: 'grid_factor', country: 'Vietnam', factorKgCo2ePerKwh: 0.3 },
+      ]);
+      expect(elsewhere.applied).toEqual([]);
+    });
+
+    it('should convert a supplier factor to the activity unit', () => {
+      const overlay = overlayActivity({ ...diesel, activity_type: 'steel', scope: 'scope3', quantity: '2', unit: 't' }, [
+        { type: 'supplier_change', supplierName: 'Green Steel Co', factorKgCo2ePerUnit: 0.8, unit: 'kg', match: { activityTypes: ['steel'] } },
+      ]);
+
+      expect(overlay.factor).toMatchObject({ factor: 800, source: 'scenario: supplier Green Steel Co' });
+      expect(overlay.activity.metadata.supplierName).toBe('Green Steel Co');
+    });
+  });
+
+  describe('renewableTopUps', () => {
+    it('should cover the gap between existing coverage and the target share', () => {
+      const scope2 = {
+        byCountry: [
+          { country: 'Thailand', electricityKwh: 10000, coveredKwh: 2000 },
+          { country: 'Vietnam', electricityKwh: 5000, coveredKwh: 4000 },
+        ],
+      } as unknown as Scope2Result;
+
+      const instruments = renewableTopUps(scope2, [{ type: 'renewable_share', targetPercent: 60 }], 2024);
+
+      expect(instruments).toHaveLength(1);
+      expect(instruments[0]).toMatchObject({ country: 'Thailand', quantityKwh: 4000, emissionFactor: 0, vintageYear: 2024 });
+    });
+  });
+
+  describe('compareInventories', () => {
+    it('should report the change against the actual inventory', () => {
+      const actual = summarizeInventory([electricity, diesel], [electricity, diesel], { locationBased: 4990, marketBased: 4990 });
+      const scenario = summarizeInventory(
+        [electricity, { ...diesel, total_emissions_kg_co2e: 1340 }],
+        [electricity, { ...diesel, total_emissions_kg_co2e: 1340 }],
+        { locationBased: 4990, marketBased: 1996 }
+      );
+
+      const comparison = compareInventories(actual, scenario);
+      expect(comparison.scope1).toEqual({ actual: 2680, scenario: 1340, change: -1340, changePercent: -50 });
+      expect(comparison.scope2Market.change).toBe(-2994);
+      expect(comparison.cfoTotal).toMatchObject({ actual: 7670, scenario: 6330 });
+      expect(comparison.cfpTotal.change).toBe(-1340);
+    });
+  });
+});
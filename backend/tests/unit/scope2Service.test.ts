@@ -0,0 +1,127 @@
+/**
+ * Scope 2 Service Unit Tests
+ * Tests for dual reporting and the GHG Protocol Scope 2 quality criteria
+ */
+import {
+  checkQualityCriteria,
+  getElectricityKwh,
+  calculateProjectScope2,
+} from '../../src/services/scope2Service';
+import type { ContractualInstrument } from '../../src/types';
+
+jest.mock('../../src/config/database', () => ({
+  db: { query: jest.fn() },
+}));
+
+jest.mock('../../src/config/redis', () => ({
+  redis: { get: jest.fn().mockResolvedValue(null), setex: jest.fn() },
+}));
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: { warn: jest.fn(), info: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import { db } from '../../src/config/database';
+
+const irec: ContractualInstrument = {
+  id: 'irec-1',
+  type: 'i_rec',
+  quantityKwh: 400000,
+  emissionFactor: 0,
+  country: 'Thailand',
+  vintageYear: 2025,
+  certificateIds: ['IREC-TH-0001'],
+  retired: true,
+};
+
+describe('Scope 2 Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getElectricityKwh', () => {
+    it('should convert metered electricity to kWh', () => {
+      expect(getElectricityKwh({ activity_type: 'purchased_electricity', quantity: '1.5', unit: 'MWh' })).toBe(1500);
+    });
+
+    it('should ignore steam and non-energy units', () => {
+      expect(getElectricityKwh({ activity_type: 'purchased_steam', quantity: 10, unit: 'GJ' })).toBeNull();
+      expect(getElectricityKwh({ activity_type: 'electricity', quantity: 10, unit: 'USD' })).toBeNull();
+    });
+  });
+
+  describe('checkQualityCriteria', () => {
+    const context = { reportingYear: 2025, countries: ['Thailand'] };
+
+    it('should pass a retired, same-market, current-vintage certificate', () => {
+      const { qualityCheck, failedInstrumentIds } = checkQualityCriteria([irec], context);
+
+      expect(qualityCheck.status).toBe('pass');
+      expect(failedInstrumentIds.size).toBe(0);
+      expect(qualityCheck.criteria.find((c) => c.criterion === 'supplier_specific')?.status).toBe('not_applicable');
+    });
+
+    it('should fail unretired certificates and other markets', () => {
+      const { qualityCheck, failedInstrumentIds } = checkQualityCriteria(
+        [{ ...irec, retired: false }, { ...irec, id: 'goo-1', type: 'goo', country: 'Germany', certificateIds: ['GO-DE-1'] }],
+        context
+      );
+
+      const byCriterion = Object.fromEntries(qualityCheck.criteria.map((c) => [c.criterion, c]));
+      expect(byCriterion.retirement.status).toBe('fail');
+      expect(byCriterion.retirement.instrumentIds).toEqual(['irec-1']);
+      expect(byCriterion.same_market.instrumentIds).toEqual(['goo-1']);
+      expect(Array.from(failedInstrumentIds).sort()).toEqual(['goo-1', 'irec-1']);
+    });
+
+    it('should fail certificates claimed twice', () => {
+      const { failedInstrumentIds } = checkQualityCriteria([irec, { ...irec, id: 'irec-2' }], context);
+      expect(failedInstrumentIds.size).toBe(2);
+    });
+
+    it('should warn on adjacent vintages and missing residual mix', () => {
+      const { qualityCheck, failedInstrumentIds } = checkQualityCriteria([{ ...irec, vintageYear: 2024 }], {
+        ...context,
+        residualMix: [{ country: 'Thailand', residualKwh: 1000, isResidualMix: false }],
+      });
+
+      expect(qualityCheck.status).toBe('warning');
+      expect(failedInstrumentIds.size).toBe(0);
+      expect(qualityCheck.criteria.find((c) => c.criterion === 'residual_mix')?.status).toBe('warning');
+    });
+
+    it('should be not applicable without instruments or consumption', () => {
+      expect(checkQualityCriteria([], context).qualityCheck.status).toBe('not_applicable');
+    });
+  });
+
+  describe('calculateProjectScope2', () => {
+    it('should report location- and market-based totals', async () => {
+      (db.query as jest.Mock)
+        // instruments for the reporting year
+        .mockResolvedValueOnce({
+          rows: [{
+            id: 'irec-1', instrument_type: 'i_rec', volume_kwh: '400000', emission_factor: '0',
+            country: 'Thailand', vintage_year: 2025, certificate_ids: ['IREC-TH-0001'], retired: true,
+          }],
+        })
+        // residual mix for Thailand
+        .mockResolvedValueOnce({
+          rows: [{ factor_kg_co2e_per_kwh: '0.55', source: 'TGO Residual Mix', year: 2025 }],
+        });
+
+      const result = await calculateProjectScope2('project-1', [
+        { scope: 'scope2', activity_type: 'purchased_electricity', quantity: '1000', unit: 'MWh', total_emissions_kg_co2e: '499900' },
+        { scope: 'scope2', activity_type: 'purchased_steam', quantity: '100', unit: 'GJ', total_emissions_kg_co2e: '6600' },
+        { scope: 'scope1', activity_type: 'diesel', quantity: '100', unit: 'L', total_emissions_kg_co2e: '268' },
+      ], { country: 'Thailand', reportingYear: 2025 });
+
+      expect(result.locationBased).toBe(506500);
+      // 400 MWh covered at 0, 600 MWh at the residual mix, steam unchanged
+      expect(result.marketBased).toBeCloseTo(600000 * 0.55 + 6600);
+      expect(result.coveredKwh).toBe(400000);
+      expect(result.byCountry[0]).toMatchObject({ country: 'Thailand', residualKwh: 600000, isResidualMix: true });
+      expect(result.qualityCheck.status).toBe('pass');
+    });
+  });
+});
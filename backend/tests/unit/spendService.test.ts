@@ -0,0 +1,119 @@
+/**
+ * Spend Service Unit Tests
+ * Tests for currency conversion, deflation and EEIO factor lookup
+ */
+import {
+  currencyCode,
+  fxRate,
+  deflator,
+  normaliseSpend,
+  resolveCalculationMethod,
+  activityQuality,
+  lookupSpendFactor,
+} from '../../src/services/spendService';
+import { db } from '../../src/config/database';
+import type { FxRate, PriceIndex } from '../../src/types';
+
+jest.mock('../../src/config/database', () => ({
+  db: { query: jest.fn(), queryOne: jest.fn() },
+}));
+
+jest.mock('../../src/config/redis', () => ({
+  redis: { get: jest.fn().mockResolvedValue(null), setex: jest.fn() },
+}));
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: { warn: jest.fn(), info: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const rates: FxRate[] = [
+  { currency: 'THB', year: 2024, unitsPerUsd: 35 },
+  { currency: 'EUR', year: 2024, unitsPerUsd: 0.92 },
+  { currency: 'JPY', year: 2023, unitsPerUsd: 140 },
+];
+
+const indices: PriceIndex[] = [
+  { currency: 'USD', year: 2021, value: 110 },
+  { currency: 'USD', year: 2023, value: 121 },
+  { currency: 'USD', year: 2024, value: 125 },
+];
+
+describe('Spend Service', () => {
+  it('should recognise currency units', () => {
+    expect(currencyCode('thb')).toBe('THB');
+    expect(currencyCode('baht')).toBe('THB');
+    expect(currencyCode('kg')).toBeNull();
+  });
+
+  it('should convert currencies through USD', () => {
+    expect(fxRate('USD', 'USD', 2024, [])).toBe(1);
+    expect(fxRate('THB', 'USD', 2024, rates)).toBeCloseTo(1 / 35, 10);
+    expect(fxRate('THB', 'EUR', 2024, rates)).toBeCloseTo(0.92 / 35, 10);
+    expect(() => fxRate('KRW', 'USD', 2024, rates)).toThrow('No 2024 exchange rate for KRW');
+    expect(() => fxRate('THB', 'USD', 2023, rates)).toThrow('No 2023 exchange rate for THB');
+  });
+
+  it('should deflate spend to the base year', () => {
+    expect(deflator('USD', 2024, 2024, [])).toBe(1);
+    expect(deflator('USD', 2024, 2021, indices)).toBeCloseTo(110 / 125, 10);
+    expect(() => deflator('USD', 2022, 2021, indices)).toThrow('No 2022 price index for USD');
+  });
+
+  it('should express spend in the factor set currency and base year prices', () => {
+    const normalisation = normaliseSpend('JPY', 2023, { currency: 'USD', baseYear: 2021 }, rates, indices);
+
+    expect(normalisation).toMatchObject({ spendCurrency: 'JPY', spendYear: 2023, currency: 'USD', baseYear: 2021 });
+    // 1,000,000 JPY in 2023 = 7,142.86 USD(2023) = 6,493.51 USD(2021)
+    expect(1000000 * normalisation.fxRate * normalisation.deflator).toBeCloseTo(6493.51, 2);
+  });
+
+  it('should tag the calculation method from the factor used', () => {
+    expect(resolveCalculationMethod({ scope: 'scope3' }, 'spend')).toBe('spend_based');
+    expect(resolveCalculationMethod({ scope: 'scope3' }, 'supplier')).toBe('supplier_specific');
+    expect(resolveCalculationMethod({ scope: 'scope3' }, 'default')).toBe('average_data');
+    expect(resolveCalculationMethod({ scope: 'scope3', calculation_method: 'supplier_specific' }, 'default')).toBe('supplier_specific');
+    expect(resolveCalculationMethod({ scope: 'scope1' }, 'default')).toBeNull();
+  });
+
+  it('should score the 1-5 quality indicator before capping it at the method', () => {
+    expect(activityQuality(1, null)).toBe(1);
+    expect(activityQuality(3, null)).toBeCloseTo(0.7);
+    expect(activityQuality(5, null)).toBeCloseTo(0.4);
+    expect(activityQuality(null, null)).toBe(0.3);
+    // Measured supplier data is capped by a spend-based estimate, not the other way round
+    expect(activityQuality(1, 'spend_based')).toBe(0.4);
+    expect(activityQuality(2, 'average_data')).toBe(0.7);
+    expect(activityQuality(4, 'supplier_specific')).toBeCloseTo(0.55);
+    expect(activityQuality(null, 'supplier_specific')).toBe(1);
+  });
+
+  describe('lookupSpendFactor', () => {
+    beforeEach(() => {
+      jest.resetAllMocks();
+    });
+
+    it('should skip activities that are not spend-based', async () => {
+      await expect(lookupSpendFactor({ project_id: 'p1', unit: 'kg', metadata: { eeioSector: '322210' } })).resolves.toBeNull();
+      await expect(lookupSpendFactor({ project_id: 'p1', unit: 'thb', metadata: {} })).resolves.toBeNull();
+      await expect(lookupSpendFactor({ project_id: 'p1', unit: 'thb', calculation_method: 'spend_based' }))
+        .rejects.toThrow('metadata.eeioSector');
+    });
+
+    it('should return a factor per unit of spend', async () => {
+      (db.queryOne as jest.Mock)
+        .mockResolvedValueOnce({ id: 'set-1', name: 'USEEIO', version: 'v2.0', currency: 'USD', base_year: 2021, price_basis: 'purchaser', is_default: true })
+        .mockResolvedValueOnce({ sector_code: '322210', sector_name: 'Paperboard containers', factor_kg_co2e_per_unit: '0.5' })
+        .mockResolvedValueOnce({ reporting_year: 2024 });
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ currency: 'THB', year: 2024, units_per_usd: '35' }] })
+        .mockResolvedValueOnce({ rows: [{ currency: 'USD', year: 2021, index_value: '110' }, { currency: 'USD', year: 2024, index_value: '125' }] });
+
+      const result = await lookupSpendFactor({ project_id: 'p1', unit: 'thb', metadata: { eeioSector: '322210' } });
+
+      expect(result!.source).toBe('USEEIO v2.0: Paperboard containers');
+      expect(result!.unit).toBe('usd');
+      expect(result!.factor).toBeCloseTo(0.5 / 35 * 110 / 125, 10);
+      expect(result!.spend).toMatchObject({ spendCurrency: 'THB', spendYear: 2024, factorSetId: 'set-1', sectorFactor: 0.5 });
+    });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Supplier Service Unit Tests
+ * Tests for invite tokens and conversion of accepted submissions into activities
+ */
+import {
+  generateInviteToken,
+  hashInviteToken,
+  inviteExpiry,
+  resolveInvite,
+  submissionToActivity,
+  getSupplierFactor,
+} from '../../src/services/supplierService';
+import { db } from '../../src/config/database';
+
+jest.mock('../../src/config/database', () => ({
+  db: { query: jest.fn(), queryOne: jest.fn() },
+}));
+
+jest.mock('../../src/config/redis', () => ({
+  redis: { get: jest.fn().mockResolvedValue(null), setex: jest.fn() },
+}));
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: { warn: jest.fn(), info: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const supplier = { id: 'supplier-1', name: 'Siam Packaging', supplierTier: 1 };
+const review = { reviewedBy: 'user-1', reviewedAt: new Date('2026-02-01T00:00:00Z') };
+
+describe('Supplier Service', () => {
+  describe('invite tokens', () => {
+    it('should store only a hash of the token', () => {
+      const { token, tokenHash } = generateInviteToken();
+
+      expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(tokenHash).toBe(hashInviteToken(token));
+      expect(tokenHash).not.toContain(token);
+      expect(generateInviteToken().token).not.toBe(token);
+    });
+
+    it('should expire invites after the given number of days', () => {
+      const from = new Date('2026-01-01T00:00:00Z');
+      expect(inviteExpiry(from, 30).toISOString()).toBe('2026-01-31T00:00:00.000Z');
+    });
+
+    it('should reject revoked and expired invites', async () => {
+      const invite = {
+        id: 'invite-1',
+        supplier_id: 'supplier-1',
+        project_id: 'project-1',
+        submission_types: ['product_footprint'],
+        reporting_year: 2025,
+        supplier_name: 'Siam Packaging',
+        status: 'invited',
+        expires_at: new Date(Date.now() + 86400000),
+      };
+
+      (db.queryOne as jest.Mock).mockResolvedValueOnce(invite);
+      await expect(resolveInvite('token')).resolves.toMatchObject({ inviteId: 'invite-1', supplierName: 'Siam Packaging' });
+
+      (db.queryOne as jest.Mock).mockResolvedValueOnce({ ...invite, status: 'revoked' });
+      await expect(resolveInvite('token')).rejects.toThrow('Invite link is invalid or has expired');
+
+      (db.queryOne as jest.Mock).mockResolvedValueOnce({ ...invite, expires_at: new Date(Date.now() - 1000) });
+      await expect(resolveInvite('token')).rejects.toThrow('Invite link is invalid or has expired');
+
+      (db.queryOne as jest.Mock).mockResolvedValueOnce(null);
+      await expect(resolveInvite('token')).rejects.toThrow('Invite link is invalid or has expired');
+    });
+  });
+
+  describe('submissionToActivity', () => {
+    it('should turn a product footprint into a tier 3 activity with a supplier factor', () => {
+      const activity = submissionToActivity(
+        {
+          id: 'submission-1',
+          inviteId: 'invite-1',
+          submissionType: 'product_footprint',
+          payload: { productName: 'Corrugated box', declaredUnit: 'kg', pcfKgCo2ePerUnit: 0.82, quantity: 12000, methodology: 'ISO 14067' },
+          submittedAt: '2026-01-15T00:00:00Z',
+        },
+        supplier,
+        review
+      );
+
+      expect(activity).toMatchObject({
+        scope: 'scope3',
+        scope3Category: 'purchased_goods',
+        quantity: 12000,
+        unit: 'kg',
+        tierLevel: 'tier3',
+        calculationMethod: 'supplier_specific',
+        dataSource: 'supplier',
+        supplierName: 'Siam Packaging',
+      });
+      expect(activity.metadata.supplierFactor).toEqual({ factor: 0.82, unit: 'kg', source: 'Supplier PCF: Siam Packaging (ISO 14067)' });
+      expect(activity.metadata.provenance).toMatchObject({ submissionId: 'submission-1', acceptedBy: 'user-1' });
+    });
+
+    it('should keep activity data as tier 2 unless the reviewer overrides it', () => {
+      const submission = {
+        id: 'submission-2',
+        inviteId: 'invite-1',
+        submissionType: 'activity_data' as const,
+        payload: { activityType: 'road_freight', quantity: 5400, unit: 'tkm', scope3Category: 'upstream_transport' },
+        submittedAt: '2026-01-15T00:00:00Z',
+      };
+
+      const activity = submissionToActivity(submission, supplier, review);
+      expect(activity).toMatchObject({ activityType: 'road_freight', scope3Category: 'upstream_transport', tierLevel: 'tier2' });
+      expect(activity.metadata.supplierFactor).toBeUndefined();
+
+      expect(submissionToActivity(submission, supplier, { ...review, tierLevel: 'tier3' }).tierLevel).toBe('tier3');
+    });
+  });
+
+  describe('getSupplierFactor', () => {
+    it('should return null for activities without a supplier factor', () => {
+      expect(getSupplierFactor({ unit: 'kg', metadata: {} })).toBeNull();
+    });
+
+    it('should convert the supplier factor to the activity unit', () => {
+      const metadata = { supplierFactor: { factor: 0.82, unit: 'kg', source: 'Supplier PCF' } };
+
+      expect(getSupplierFactor({ unit: 'kg', metadata })).toEqual({ factor: 0.82, source: 'Supplier PCF', unit: 'kg', conversionFactor: 1 });
+      expect(getSupplierFactor({ unit: 't', metadata })!.factor).toBeCloseTo(820, 6);
+    });
+  });
+});
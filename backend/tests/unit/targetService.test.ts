@@ -0,0 +1,102 @@
+/**
+ * Target Service Unit Tests
+ * Tests for SBTi pathway minimums, annual milestones and on-track status
+ */
+import {
+  minimumReductionPercent,
+  trackTarget,
+  describeTarget,
+} from '../../src/services/targetService';
+import type { BaseYearInventory, EmissionTarget } from '../../src/types';
+
+jest.mock('../../src/config/database', () => ({
+  db: { query: jest.fn(), queryOne: jest.fn() },
+}));
+
+const nearTerm: EmissionTarget = {
+  id: 't1',
+  projectId: 'p1',
+  name: 'Near-term',
+  targetType: 'absolute',
+  scopes: ['scope1', 'scope2'],
+  scope2Method: 'market',
+  baseYear: 2020,
+  targetYear: 2030,
+  pathway: 'sbti_1_5c',
+  reductionPercent: 42,
+  intensityUnit: null,
+  intensityDenominators: {},
+};
+
+function inventory(scope1: number, scope2Market: number, scope3 = 0): BaseYearInventory {
+  return { scope1, scope2Location: scope2Market * 1.2, scope2Market, scope3, total: scope1 + scope2Market * 1.2 + scope3 };
+}
+
+describe('Target Service', () => {
+  describe('minimumReductionPercent', () => {
+    it('should apply the linear annual SBTi rates', () => {
+      expect(minimumReductionPercent('sbti_1_5c', 2020, 2030)).toBe(42);
+      expect(minimumReductionPercent('sbti_wb2c', 2020, 2030)).toBe(25);
+      expect(minimumReductionPercent('sbti_1_5c', 2020, 2050)).toBe(100);
+      expect(minimumReductionPercent('custom', 2020, 2030)).toBeNull();
+    });
+  });
+
+  describe('trackTarget', () => {
+    it('should build annual milestones on the linear pathway', () => {
+      const progress = trackTarget(nearTerm, new Map([[2020, inventory(600, 400)]]));
+
+      expect(progress.baseValue).toBe(1000);
+      expect(progress.targetValue).toBe(580);
+      expect(progress.milestones).toHaveLength(10);
+      expect(progress.milestones[0]).toEqual({ year: 2021, targetValue: 958, reductionPercent: 4.2, actualValue: null, status: 'upcoming' });
+      expect(progress.status).toBe('no_data');
+    });
+
+    it('should compare actuals of covered scopes with the milestone of their year', () => {
+      const inventories = new Map([
+        [2020, inventory(600, 400, 5000)],
+        [2022, inventory(560, 350, 9000)], // 910 vs milestone 916
+        [2023, inventory(560, 340, 9000)], // 900 vs milestone 874
+      ]);
+
+      const progress = trackTarget(nearTerm, inventories);
+
+      expect(progress.milestones.find((m) => m.year === 2021)?.status).toBe('no_data');
+      expect(progress.milestones.find((m) => m.year === 2022)?.status).toBe('on_track');
+      expect(progress.milestones.find((m) => m.year === 2023)?.status).toBe('off_track');
+      expect(progress.latestYear).toBe(2023);
+      expect(progress.status).toBe('off_track');
+      expect(progress.progressPercent).toBeCloseTo(23.81, 2);
+    });
+
+    it('should report an achieved target', () => {
+      const progress = trackTarget(nearTerm, new Map([[2020, inventory(600, 400)], [2024, inventory(300, 200)]]));
+
+      expect(progress.status).toBe('achieved');
+    });
+
+    it('should track intensity per unit of the denominator of each year', () => {
+      const intensity: EmissionTarget = {
+        ...nearTerm,
+        targetType: 'intensity',
+        intensityUnit: 'tonne product',
+        intensityDenominators: { '2020': 100, '2021': 125 },
+      };
+
+      const progress = trackTarget(intensity, new Map([[2020, inventory(600, 400)], [2021, inventory(600, 500)]]));
+
+      expect(progress.baseValue).toBe(10);
+      expect(progress.milestones[0].actualValue).toBe(8.8);
+      expect(progress.milestones[0].status).toBe('on_track');
+    });
+  });
+
+  describe('describeTarget', () => {
+    it('should describe scope coverage, years and pathway', () => {
+      expect(describeTarget(nearTerm)).toBe(
+        '42% absolute reduction of Scope 1+2 emissions by 2030 from a 2020 base year (SBTi 1.5°C pathway)'
+      );
+    });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Transport Service Unit Tests
+ * Tests for great-circle distances and GLEC shipment calculations
+ */
+import {
+  greatCircleKm,
+  adjustedDistanceKm,
+  adjustedIntensity,
+  calculateShipment,
+  findLocation,
+  getShipmentFactor,
+  VEHICLE_TYPES,
+} from '../../src/services/transportService';
+import type { Shipment } from '../../src/types';
+
+const mill = { name: 'Rayong Sugar Mill', lat: 12.6814, lon: 101.2816 };
+
+describe('Transport Service', () => {
+  it('should compute great-circle distances', () => {
+    const laemChabang = findLocation('thlch')!;
+    const shanghai = findLocation('CNSHA')!;
+
+    expect(greatCircleKm(laemChabang, laemChabang)).toBe(0);
+    expect(greatCircleKm(laemChabang, shanghai)).toBeGreaterThan(2800);
+    expect(greatCircleKm(laemChabang, shanghai)).toBeLessThan(3000);
+  });
+
+  it('should apply the GLEC distance adjustment per mode', () => {
+    expect(adjustedDistanceKm('sea', 1000)).toBeCloseTo(1150, 6);
+    expect(adjustedDistanceKm('road', 1000)).toBeCloseTo(1050, 6);
+    expect(adjustedDistanceKm('air', 1000)).toBeCloseTo(1095, 6);
+  });
+
+  it('should adjust intensity for load factor and empty return', () => {
+    const truck = VEHICLE_TYPES.articulated_truck;
+
+    expect(adjustedIntensity(truck)).toBe(75);
+    expect(adjustedIntensity(truck, { loadFactor: 0.3 })).toBeCloseTo(150, 6);
+    expect(adjustedIntensity(truck, { emptyReturn: true })).toBeCloseTo(125, 6);
+    expect(adjustedIntensity(truck, { emissionIntensity: 90 })).toBe(90);
+  });
+
+  it('should chain legs from origin to destination', () => {
+    const shipment: Shipment = {
+      origin: mill,
+      destination: 'CNSHA',
+      weightTonnes: 50,
+      legs: [
+        { mode: 'road', vehicleType: 'articulated_truck', to: 'THLCH', emptyReturn: true },
+        { mode: 'sea', vehicleType: 'container_ship' },
+      ],
+    };
+
+    const result = calculateShipment(shipment);
+    const [road, sea] = result.legs;
+
+    expect(road).toMatchObject({ from: 'Rayong Sugar Mill', to: 'Laem Chabang (THLCH)', distanceSource: 'great_circle' });
+    expect(sea).toMatchObject({ from: 'Laem Chabang (THLCH)', to: 'Shanghai (CNSHA)', vehicleType: 'container_ship' });
+    expect(sea.distanceKm).toBeCloseTo(sea.greatCircleKm! * 1.15, 0);
+    expect(sea.tonneKm).toBeCloseTo(50 * sea.distanceKm, 0);
+    expect(sea.emissionsKgCo2e).toBeCloseTo((sea.tonneKm * 15) / 1000, 1);
+    expect(result.tonneKm).toBeCloseTo(road.tonneKm + sea.tonneKm, 1);
+    expect(result.emissionsKgCo2e).toBeCloseTo(road.emissionsKgCo2e + sea.emissionsKgCo2e, 3);
+  });
+
+  it('should prefer actual distances and reject unknown locations and vehicles', () => {
+    const actual = calculateShipment({
+      origin: 'THLCH',
+      destination: 'CNSHA',
+      weightTonnes: 10,
+      legs: [{ mode: 'sea', distanceKm: 4600 }],
+    });
+    expect(actual.legs[0]).toMatchObject({ distanceKm: 4600, distanceSource: 'actual', tonneKm: 46000 });
+
+    expect(() => calculateShipment({ origin: 'XXXXX', destination: 'CNSHA', weightTonnes: 1, legs: [{ mode: 'sea' }] }))
+      .toThrow('Unknown location "XXXXX"');
+    expect(() => calculateShipment({ origin: 'THLCH', destination: 'CNSHA', weightTonnes: 1, legs: [{ mode: 'sea', vehicleType: 'van' }] }))
+      .toThrow('Unknown sea vehicle type "van"');
+  });
+
+  it('should derive a per tonne-km factor for shipment activities', () => {
+    expect(getShipmentFactor({ unit: 'tonne_km', metadata: {} })).toBeNull();
+
+    const factor = getShipmentFactor({
+      unit: 'tkm',
+      metadata: { shipment: { origin: 'THLCH', destination: 'CNSHA', weightTonnes: 10, legs: [{ mode: 'sea', distanceKm: 4600 }] } },
+    })!;
+
+    expect(factor.factor).toBeCloseTo(0.015, 6);
+    expect(factor.transport.emissionsKgCo2e).toBeCloseTo(690, 4);
+  });
+});
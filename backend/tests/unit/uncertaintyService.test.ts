@@ -0,0 +1,159 @@
+/**
+ * Uncertainty Service Unit Tests
+ * Tests for sampling, Monte Carlo intervals, shared factors and the sensitivity ranking
+ */
+import {
+  seededRandom,
+  sampleMultiplier,
+  chooseDistribution,
+  simulate,
+  toUncertainActivities,
+  UncertainActivity,
+} from '../../src/services/uncertaintyService';
+import type { UncertaintyInput } from '../../src/types';
+import { db } from '../../src/config/database';
+
+jest.mock('../../src/config/database', () => ({
+  db: { query: jest.fn(), queryOne: jest.fn() },
+}));
+
+const activityInput: UncertaintyInput = {
+  key: 'activity:a',
+  kind: 'activity_data',
+  label: 'Boiler fuel',
+  distribution: 'normal',
+  lowerPercent: 10,
+  upperPercent: 10,
+  isDefault: false,
+};
+
+const exactFactor: UncertaintyInput = {
+  key: 'factor:f',
+  kind: 'emission_factor',
+  label: 'Boiler fuel factor',
+  distribution: 'normal',
+  lowerPercent: 0,
+  upperPercent: 0,
+  isDefault: false,
+};
+
+const boilerFuel: UncertainActivity = {
+  id: 'a',
+  name: 'Boiler fuel',
+  scope: 'scope1',
+  category: null,
+  emissions: 1000,
+  activityInput,
+  factorInput: exactFactor,
+};
+
+describe('Uncertainty Service', () => {
+  describe('sampleMultiplier', () => {
+    it('should reproduce the same draws from the same seed', () => {
+      const a = seededRandom(42);
+      const b = seededRandom(42);
+      expect([1, 2, 3].map(() => sampleMultiplier(activityInput, a)))
+        .toEqual([1, 2, 3].map(() => sampleMultiplier(activityInput, b)));
+    });
+
+    it('should keep triangular draws within the minimum and maximum', () => {
+      const random = seededRandom(1);
+      const triangular: UncertaintyInput = { ...exactFactor, distribution: 'triangular', lowerPercent: 20, upperPercent: 50 };
+      for (let i = 0; i < 1000; i++) {
+        const value = sampleMultiplier(triangular, random);
+        expect(value).toBeGreaterThanOrEqual(0.8);
+        expect(value).toBeLessThanOrEqual(1.5);
+      }
+    });
+
+    it('should sample wide or asymmetric uncertainty as lognormal', () => {
+      expect(chooseDistribution(10, 10)).toBe('normal');
+      expect(chooseDistribution(50, 50)).toBe('lognormal');
+      expect(chooseDistribution(5, 20)).toBe('lognormal');
+      expect(chooseDistribution(50, 50, 'triangular')).toBe('triangular');
+    });
+  });
+
+  describe('simulate', () => {
+    it('should recover the 95% interval of a single normal input', () => {
+      const analysis = simulate([boilerFuel], { iterations: 20000 });
+
+      expect(analysis.total.mean).toBeCloseTo(1000, -1);
+      expect(analysis.total.lowerPercent).toBeGreaterThan(9);
+      expect(analysis.total.lowerPercent).toBeLessThan(11);
+      expect(analysis.total.upperPercent).toBeGreaterThan(9);
+      expect(analysis.total.upperPercent).toBeLessThan(11);
+      expect(analysis.byScope.scope1).toEqual(analysis.total);
+    });
+
+    it('should not let a shared factor average out across activities', () => {
+      const shared: UncertaintyInput = { ...exactFactor, key: 'factor:grid', lowerPercent: 10, upperPercent: 10 };
+      const sites = Array.from({ length: 10 }, (_, i) => ({
+        ...boilerFuel,
+        id: `a${i}`,
+        emissions: 100,
+        activityInput: { ...activityInput, key: `activity:a${i}`, lowerPercent: 0, upperPercent: 0 },
+      }));
+
+      const correlated = simulate(sites.map((site) => ({ ...site, factorInput: shared })), { iterations: 5000 });
+      const independent = simulate(
+        sites.map((site, i) => ({ ...site, factorInput: { ...shared, key: `factor:${i}` } })),
+        { iterations: 5000 }
+      );
+
+      expect(correlated.total.upperPercent).toBeGreaterThan(9);
+      expect(independent.total.upperPercent).toBeLessThan(4.5);
+      expect(correlated.inputs.emissionFactors).toBe(1);
+    });
+
+    it('should rank the largest contributors to variance first', () => {
+      const analysis = simulate([
+        {
+          ...boilerFuel,
+          id: 'small',
+          emissions: 100,
+          activityInput: { ...activityInput, key: 'activity:small', lowerPercent: 5, upperPercent: 5 },
+          factorInput: { ...exactFactor, key: 'factor:small' },
+        },
+        {
+          ...boilerFuel,
+          id: 'large',
+          emissions: 5000,
+          activityInput: { ...activityInput, key: 'activity:large', lowerPercent: 30, upperPercent: 30 },
+          factorInput: { ...exactFactor, key: 'factor:large', lowerPercent: 5, upperPercent: 5 },
+        },
+      ], { iterations: 5000, topContributors: 2 });
+
+      expect(analysis.sensitivity.map((entry) => entry.key)).toEqual(['activity:large', 'factor:large']);
+      expect(analysis.sensitivity[0].contributionToVariance).toBeGreaterThan(90);
+      expect(analysis.calculatedTotal).toBe(5100);
+    });
+  });
+
+  describe('toUncertainActivities', () => {
+    it('should take factor bounds from the factor row and assume defaults elsewhere', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({
+        rows: [{ id: 'ef1', name: 'Diesel, IPCC', uncertainty_min: '5', uncertainty_max: '15', metadata: {} }],
+      });
+
+      const [diesel, spend] = await toUncertainActivities([
+        {
+          id: 'a1', name: 'Fleet diesel', scope: 'scope1', activity_type: 'diesel', uncertainty_percentage: '2.5',
+          total_emissions_kg_co2e: '2680', emission_factor_used: { reference: { type: 'emission_factor', id: 'ef1' } },
+        },
+        {
+          id: 'a2', name: 'Office supplies', scope: 'scope3', scope3_category: 'purchased_goods', activity_type: 'office_supplies',
+          total_emissions_kg_co2e: '500', emission_factor_used: { source: 'EXIOBASE', reference: { type: 'eeio', key: 'office' } },
+        },
+      ]);
+
+      expect(diesel.activityInput).toMatchObject({ lowerPercent: 2.5, isDefault: false, distribution: 'normal' });
+      expect(diesel.factorInput).toMatchObject({
+        key: 'factor:emission_factor:ef1', label: 'Diesel, IPCC', lowerPercent: 5, upperPercent: 15, distribution: 'lognormal',
+      });
+      expect(spend.activityInput).toMatchObject({ lowerPercent: 10, isDefault: true });
+      expect(spend.factorInput).toMatchObject({ lowerPercent: 50, isDefault: true, distribution: 'lognormal' });
+      expect(spend.category).toBe('purchased_goods');
+    });
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Unit Service Unit Tests
+ * Tests for dimension-aware conversion of activity quantities
+ */
+import {
+  normalizeUnitKey,
+  getUnitDimension,
+  areUnitsCompatible,
+  convertQuantity,
+  splitUnitKey,
+} from '../../src/services/unitService';
+import { UnitConversionError } from '../../src/middleware/errorHandler';
+
+describe('Unit Service', () => {
+  describe('normalizeUnitKey', () => {
+    it('should normalise case, separators and superscripts', () => {
+      expect(normalizeUnitKey('Tonne-km')).toBe('tonne_km');
+      expect(normalizeUnitKey('m³')).toBe('m3');
+      expect(normalizeUnitKey(' MWh ')).toBe('mwh');
+    });
+  });
+
+  describe('getUnitDimension', () => {
+    it('should resolve codes and aliases', () => {
+      expect(getUnitDimension('kWh')).toBe('energy');
+      expect(getUnitDimension('liters')).toBe('volume');
+      expect(getUnitDimension('tkm')).toBe('freight');
+      expect(getUnitDimension('furlong')).toBeNull();
+    });
+  });
+
+  describe('convertQuantity', () => {
+    it('should convert energy units', () => {
+      expect(convertQuantity(1, 'MWh', 'kWh')).toBe(1000);
+      expect(convertQuantity(1, 'GJ', 'kWh')).toBeCloseTo(277.7778, 3);
+      expect(convertQuantity(1, 'therm', 'kWh')).toBeCloseTo(29.3071, 4);
+    });
+
+    it('should convert mass and volume units', () => {
+      expect(convertQuantity(1, 'short_ton', 'kg')).toBeCloseTo(907.18474);
+      expect(convertQuantity(2, 't', 'kg')).toBe(2000);
+      expect(convertQuantity(1, 'gal', 'l')).toBeCloseTo(3.78541, 4);
+    });
+
+    it('should reject incompatible dimensions', () => {
+      expect(areUnitsCompatible('liters', 'kWh')).toBe(false);
+      expect(() => convertQuantity(100, 'liters', 'kWh')).toThrow(UnitConversionError);
+    });
+
+    it('should reject unknown units', () => {
+      expect(() => convertQuantity(1, 'furlong', 'km')).toThrow(UnitConversionError);
+    });
+
+    it('should not convert between currencies without an exchange rate', () => {
+      expect(convertQuantity(10, 'USD', 'usd')).toBe(10);
+      expect(() => convertQuantity(10, 'USD', 'EUR')).toThrow(/exchange rate/);
+    });
+  });
+
+  describe('splitUnitKey', () => {
+    it('should split compound factor keys into unit and qualifier', () => {
+      expect(splitUnitKey('diesel_l')).toMatchObject({ unit: { code: 'l' }, qualifier: 'diesel' });
+      expect(splitUnitKey('tonne_km_road')).toMatchObject({ unit: { code: 'tonne_km' }, qualifier: 'road' });
+      expect(splitUnitKey('km_car_petrol')).toMatchObject({ unit: { code: 'km' }, qualifier: 'car_petrol' });
+    });
+
+    it('should return no unit when the key has none', () => {
+      expect(splitUnitKey('hotel_night').unit).toBeNull();
+    });
+  });
+});
@@ -4,6 +4,7 @@
 -- Enable required extensions
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 CREATE EXTENSION IF NOT EXISTS "pgcrypto";
+CREATE EXTENSION IF NOT EXISTS "btree_gist";  -- serial range exclusion on carbon_credits
 CREATE EXTENSION IF NOT EXISTS "vector";  -- pgvector for LLM embeddings
 
 -- ============================================
@@ -88,12 +89,14 @@ CREATE TABLE projects (
   reporting_year INTEGER NOT NULL,
   status project_status DEFAULT 'draft',
   standards report_standard[] DEFAULT '{}',
+  gwp_set VARCHAR(10) NOT NULL DEFAULT 'AR5', -- IPCC assessment report for GWP-100 values
   settings JSONB DEFAULT '{}',
   created_by UUID NOT NULL REFERENCES users(id),
   created_at TIMESTAMP DEFAULT NOW(),
   updated_at TIMESTAMP DEFAULT NOW(),
   
-  CONSTRAINT valid_years CHECK (reporting_year >= baseline_year)
+  CONSTRAINT valid_years CHECK (reporting_year >= baseline_year),
+  CONSTRAINT valid_gwp_set CHECK (gwp_set IN ('AR4', 'AR5', 'AR6'))
 );
 
 CREATE INDEX idx_projects_status ON projects(status);
@@ -125,6 +128,114 @@ CREATE INDEX idx_project_members_project ON project_members(project_id);
 CREATE INDEX idx_project_members_user ON project_members(user_id);
 CREATE INDEX idx_project_members_role ON project_members(role);
 
+-- ============================================
+-- ORGANIZATIONAL ENTITIES (consolidation boundary)
+-- ============================================
+
+-- Legal entities and operations under a project. Ownership and control are held
+-- by the parent entity, or by the reporting company for top-level entities.
+CREATE TABLE organizational_entities (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES organizational_entities(id),
+  name VARCHAR(255) NOT NULL,
+  entity_type VARCHAR(30) NOT NULL, -- 'subsidiary', 'joint_venture', 'associate', 'division', 'facility'
+  country VARCHAR(100),
+  ownership_percent DECIMAL(7, 4) NOT NULL DEFAULT 100, -- equity share held by the parent
+  financial_control BOOLEAN NOT NULL DEFAULT TRUE,
+  operational_control BOOLEAN NOT NULL DEFAULT TRUE,
+  metadata JSONB DEFAULT '{}',
+
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+
+  CONSTRAINT unique_entity_name UNIQUE (project_id, name)
+);
+
+CREATE INDEX idx_entities_project ON organizational_entities(project_id);
+CREATE INDEX idx_entities_parent ON organizational_entities(parent_id);
+
+-- ============================================
+-- FACILITIES (sites)
+-- ============================================
+
+CREATE TABLE facilities (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  entity_id UUID REFERENCES organizational_entities(id), -- owning entity, for consolidation
+  name VARCHAR(255) NOT NULL,
+  code VARCHAR(50), -- internal site code
+  address TEXT,
+  city VARCHAR(100),
+  country VARCHAR(100) NOT NULL,
+  grid_region VARCHAR(100), -- grid sub-region, e.g. eGRID 'CAMX' or a provincial grid
+  latitude DECIMAL(9, 6),
+  longitude DECIMAL(9, 6),
+  operational_from DATE,
+  operational_to DATE,
+  metadata JSONB DEFAULT '{}',
+
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+
+  CONSTRAINT unique_facility_name UNIQUE (project_id, name)
+);
+
+CREATE INDEX idx_facilities_project ON facilities(project_id);
+
+-- ============================================
+-- PRODUCTS (product systems, ISO 14067)
+-- ============================================
+
+CREATE TABLE products (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  code VARCHAR(100), -- SKU or internal product code
+  declared_unit VARCHAR(50) NOT NULL, -- e.g. 'kg', 'kWh'
+  functional_unit VARCHAR(255), -- e.g. '1 kg white sugar in 500 g retail bags'
+  annual_output DECIMAL(20, 6) NOT NULL, -- declared units produced in the reporting period
+  mass_per_unit_kg DECIMAL(20, 6), -- allocation key where the declared unit is not a mass
+  energy_mj_per_unit DECIMAL(20, 6), -- allocation key where the declared unit is not an energy
+  price_per_unit DECIMAL(20, 6), -- economic allocation key
+  price_currency VARCHAR(3),
+  substitution_kg_co2e_per_unit DECIMAL(20, 6), -- footprint of the product it displaces (system expansion)
+  bill_of_materials JSONB DEFAULT '[]', -- [{ name, quantity, unit, componentProductId }] per declared unit
+  metadata JSONB DEFAULT '{}',
+
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+
+  CONSTRAINT unique_product_name UNIQUE (project_id, name)
+);
+
+CREATE INDEX idx_products_project ON products(project_id);
+
+-- Process steps shared by the co-products they output
+CREATE TABLE product_processes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  lifecycle_stage VARCHAR(20), -- NULL: each activity's stage from its scope and category
+  sequence INTEGER NOT NULL DEFAULT 0,
+  outputs JSONB NOT NULL DEFAULT '[]', -- [{ productId, quantity }] in each product's declared unit
+  allocation_method VARCHAR(20), -- 'mass', 'energy', 'economic', 'substitution'; NULL: the calculation's
+  allocation_justification TEXT, -- ISO 14044 4.3.4.2
+  metadata JSONB DEFAULT '{}',
+
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+
+  CONSTRAINT unique_process_name UNIQUE (project_id, name)
+);
+
+CREATE INDEX idx_product_processes_project ON product_processes(project_id);
+
 -- ============================================
 -- ACTIVITIES TABLE (Emission Sources)
 -- ============================================
@@ -146,12 +257,23 @@ CREATE TABLE activities (
   emission_factor DECIMAL(20, 10),
   emission_factor_unit VARCHAR(50),
   emission_factor_source VARCHAR(255),
+  gas_breakdown JSONB, -- {"gwpSet": "AR5", "gases": {"CO2": kg, "CH4": kg, ...}, "unspecifiedCo2e": kg}
   
   -- Calculation settings
   calculation_tier calculation_tier DEFAULT 'tier1',
   tier_multiplier DECIMAL(5, 2) DEFAULT 1.0,
+  calculation_method VARCHAR(30), -- Scope 3: 'spend_based', 'average_data' or 'supplier_specific'
+  
+  -- Organizational entity (consolidation); NULL counts as the reporting company
+  entity_id UUID REFERENCES organizational_entities(id),
   
-  -- Location/time context
+  -- Product system (CFP): one product, or a shared process split across its outputs
+  product_id UUID REFERENCES products(id) ON DELETE SET NULL,
+  process_id UUID REFERENCES product_processes(id) ON DELETE SET NULL,
+  CONSTRAINT activity_product_or_process CHECK (product_id IS NULL OR process_id IS NULL),
+  
+  -- Location/time context; facility_id replaces the free-text facility and location
+  facility_id UUID REFERENCES facilities(id),
   facility VARCHAR(255),
   location VARCHAR(255),
   reporting_period_start DATE,
@@ -184,6 +306,34 @@ CREATE INDEX idx_activities_scope3_cat ON activities(scope3_category);
 CREATE INDEX idx_activities_year ON activities(year);
 CREATE INDEX idx_activities_type ON activities(activity_type);
 CREATE INDEX idx_activities_tier ON activities(calculation_tier);
+CREATE INDEX idx_activities_entity ON activities(entity_id);
+CREATE INDEX idx_activities_facility ON activities(facility_id);
+CREATE INDEX idx_activities_product ON activities(product_id);
+CREATE INDEX idx_activities_process ON activities(process_id);
+
+-- ============================================
+-- FACTOR DATASETS (versioned, immutable once published)
+-- ============================================
+
+CREATE TABLE factor_datasets (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name VARCHAR(255) NOT NULL, -- e.g. 'DEFRA 2024', 'TGO 2023'
+  version VARCHAR(50) NOT NULL, -- e.g. 'v1.1'
+  publisher VARCHAR(255),
+  source_url VARCHAR(500),
+  description TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'draft', -- 'draft', 'published' or 'superseded'
+  published_at TIMESTAMP,
+  published_by UUID REFERENCES users(id),
+
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+
+  CONSTRAINT unique_factor_dataset UNIQUE (name, version)
+);
+
+CREATE INDEX idx_factor_datasets_status ON factor_datasets(status);
 
 -- ============================================
 -- EMISSION FACTORS TABLE (Custom/Cached)
@@ -220,11 +370,17 @@ CREATE TABLE emission_factors (
   uncertainty_max DECIMAL(5, 2),
   
   -- Metadata
-  gwp_values JSONB, -- CO2, CH4, N2O, etc.
+  gwp_values JSONB, -- Per-gas factors, kg gas per activity unit: {"CO2": 2.676, "CH4": 0.000108, "N2O": 0.0000216}
   metadata JSONB DEFAULT '{}',
   is_default BOOLEAN DEFAULT FALSE,
   is_active BOOLEAN DEFAULT TRUE,
   
+  -- Versioning: rows are never updated in place. An edit inserts a new row with
+  -- the same lineage_id and marks the previous one superseded.
+  dataset_id UUID REFERENCES factor_datasets(id),
+  lineage_id UUID NOT NULL DEFAULT uuid_generate_v4(),
+  superseded_at TIMESTAMP,
+  
   created_by UUID REFERENCES users(id),
   created_at TIMESTAMP DEFAULT NOW(),
   updated_at TIMESTAMP DEFAULT NOW()
@@ -235,6 +391,8 @@ CREATE INDEX idx_emission_factors_scope ON emission_factors(scope);
 CREATE INDEX idx_emission_factors_region ON emission_factors(region, country);
 CREATE INDEX idx_emission_factors_source ON emission_factors(source);
 CREATE INDEX idx_emission_factors_active ON emission_factors(is_active);
+CREATE INDEX idx_emission_factors_dataset ON emission_factors(dataset_id);
+CREATE INDEX idx_emission_factors_lineage ON emission_factors(lineage_id);
 
 -- ============================================
 -- GRID EMISSION FACTORS TABLE
@@ -265,17 +423,87 @@ CREATE TABLE grid_emission_factors (
   metadata JSONB DEFAULT '{}',
   is_active BOOLEAN DEFAULT TRUE,
   
+  -- Versioning (see emission_factors)
+  dataset_id UUID REFERENCES factor_datasets(id),
+  lineage_id UUID NOT NULL DEFAULT uuid_generate_v4(),
+  superseded_at TIMESTAMP,
+  
   created_by UUID REFERENCES users(id),
   created_at TIMESTAMP DEFAULT NOW(),
-  updated_at TIMESTAMP DEFAULT NOW(),
-  
-  CONSTRAINT unique_grid_ef UNIQUE (country, region, year)
+  updated_at TIMESTAMP DEFAULT NOW()
 );
 
+-- One current row per grid and year, per dataset; superseded versions are kept
+CREATE UNIQUE INDEX unique_grid_ef ON grid_emission_factors(country, region, year)
+  WHERE superseded_at IS NULL AND dataset_id IS NULL;
+CREATE UNIQUE INDEX unique_grid_ef_dataset ON grid_emission_factors(dataset_id, country, region, year)
+  WHERE superseded_at IS NULL AND dataset_id IS NOT NULL;
+
 CREATE INDEX idx_grid_ef_country ON grid_emission_factors(country);
 CREATE INDEX idx_grid_ef_region ON grid_emission_factors(region);
 CREATE INDEX idx_grid_ef_year ON grid_emission_factors(year);
 CREATE INDEX idx_grid_ef_active ON grid_emission_factors(is_active);
+CREATE INDEX idx_grid_ef_lineage ON grid_emission_factors(lineage_id);
+
+-- ============================================
+-- RESIDUAL MIX FACTORS TABLE (Scope 2 market-based)
+-- ============================================
+
+CREATE TABLE residual_mix_factors (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  country VARCHAR(100) NOT NULL,
+  year INTEGER NOT NULL,
+  factor_kg_co2e_per_kwh DECIMAL(20, 10) NOT NULL,
+  source VARCHAR(255) NOT NULL, -- e.g. 'AIB European Residual Mix 2024', 'Green-e Residual Mix'
+  source_url VARCHAR(500),
+  notes TEXT,
+  
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  
+  CONSTRAINT unique_residual_mix UNIQUE (country, year)
+);
+
+CREATE INDEX idx_residual_mix_country ON residual_mix_factors(country);
+
+-- ============================================
+-- CONTRACTUAL INSTRUMENTS TABLE (PPAs, RECs, I-RECs, GOs)
+-- ============================================
+
+CREATE TABLE contractual_instruments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  instrument_type VARCHAR(20) NOT NULL, -- 'ppa', 'rec', 'i_rec', 'goo'
+  name VARCHAR(255),
+  supplier VARCHAR(255),
+  
+  -- Claim
+  volume DECIMAL(20, 6) NOT NULL,
+  volume_unit VARCHAR(20) NOT NULL DEFAULT 'MWh',
+  volume_kwh DECIMAL(20, 6) NOT NULL,
+  emission_factor DECIMAL(20, 10) NOT NULL DEFAULT 0, -- kgCO2e/kWh conveyed by the instrument
+  energy_source VARCHAR(50), -- 'solar', 'wind', 'hydro', ...
+  reporting_year INTEGER NOT NULL, -- year the consumption claim applies to
+  
+  -- Certificate tracking
+  country VARCHAR(100) NOT NULL,
+  vintage_year INTEGER,
+  certificate_ids TEXT[] DEFAULT '{}',
+  tracking_system VARCHAR(100), -- 'AIB', 'M-RETS', 'I-REC Registry', ...
+  retired BOOLEAN DEFAULT FALSE,
+  retirement_date DATE,
+  
+  notes TEXT,
+  metadata JSONB DEFAULT '{}',
+  created_by UUID NOT NULL REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  
+  CONSTRAINT valid_instrument_type CHECK (instrument_type IN ('ppa', 'rec', 'i_rec', 'goo'))
+);
+
+CREATE INDEX idx_contractual_instruments_project ON contractual_instruments(project_id, reporting_year);
 
 -- ============================================
 -- PRECURSOR FACTORS TABLE (CBAM Materials)
@@ -323,6 +551,246 @@ CREATE INDEX idx_precursor_route ON precursor_factors(production_route);
 CREATE INDEX idx_precursor_region ON precursor_factors(region, country);
 CREATE INDEX idx_precursor_active ON precursor_factors(is_active);
 
+-- ============================================
+-- EEIO FACTOR SETS (spend-based Scope 3)
+-- ============================================
+
+CREATE TABLE eeio_factor_sets (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name VARCHAR(255) NOT NULL, -- e.g. 'USEEIO', 'EXIOBASE'
+  version VARCHAR(50) NOT NULL,
+  source VARCHAR(255),
+  region VARCHAR(100),
+  currency CHAR(3) NOT NULL, -- currency the factors are expressed in
+  base_year INTEGER NOT NULL, -- price year of the factors
+  price_basis VARCHAR(20) DEFAULT 'purchaser', -- 'purchaser' or 'basic'
+  description TEXT,
+  is_default BOOLEAN DEFAULT FALSE,
+
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+
+  CONSTRAINT unique_eeio_factor_set UNIQUE (name, version)
+);
+
+CREATE TABLE eeio_factors (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  set_id UUID NOT NULL REFERENCES eeio_factor_sets(id) ON DELETE CASCADE,
+  sector_code VARCHAR(50) NOT NULL,
+  sector_name VARCHAR(500),
+  factor_kg_co2e_per_unit DECIMAL(20, 10) NOT NULL, -- kg CO2e per unit of set currency at base year prices
+
+  CONSTRAINT unique_eeio_factor UNIQUE (set_id, sector_code)
+);
+
+CREATE INDEX idx_eeio_factors_set ON eeio_factors(set_id);
+
+-- Annual average exchange rates, quoted as currency units per US dollar
+CREATE TABLE fx_rates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  currency CHAR(3) NOT NULL,
+  year INTEGER NOT NULL,
+  units_per_usd DECIMAL(20, 8) NOT NULL,
+  source VARCHAR(255),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+
+  CONSTRAINT unique_fx_rate UNIQUE (currency, year)
+);
+
+-- Price indices (e.g. GDP deflator or PPI) for deflating spend to a factor base year
+CREATE TABLE price_indices (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  currency CHAR(3) NOT NULL,
+  year INTEGER NOT NULL,
+  index_value DECIMAL(12, 4) NOT NULL,
+  source VARCHAR(255),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+
+  CONSTRAINT unique_price_index UNIQUE (currency, year)
+);
+
+-- ============================================
+-- CBAM DEFAULT VALUES TABLE (per goods category and country)
+-- ============================================
+
+CREATE TABLE cbam_default_values (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  goods_category VARCHAR(50) NOT NULL, -- CBAM material, e.g. 'iron_steel'
+  country VARCHAR(100) NOT NULL,
+  direct_emissions DECIMAL(20, 10) NOT NULL, -- tCO2e/t good
+  indirect_emissions DECIMAL(20, 10) NOT NULL DEFAULT 0,
+  precursor_emissions DECIMAL(20, 10) NOT NULL DEFAULT 0,
+  source VARCHAR(255),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+
+  CONSTRAINT unique_cbam_default UNIQUE (goods_category, country)
+);
+
+-- ============================================
+-- CBAM INSTALLATIONS TABLE
+-- ============================================
+
+CREATE TABLE cbam_installations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  registry_id VARCHAR(70), -- installation identifier in the CBAM registry
+  operator_id VARCHAR(70),
+  operator_name VARCHAR(255),
+  
+  -- Location
+  country VARCHAR(2) NOT NULL, -- ISO 3166-1 alpha-2
+  city VARCHAR(100),
+  street VARCHAR(255),
+  post_code VARCHAR(20),
+  
+  -- Provenance
+  supplier_name VARCHAR(255), -- supplier that sent the operator communication template
+  data_source VARCHAR(50) DEFAULT 'manual', -- 'manual', 'operator_template'
+  
+  metadata JSONB DEFAULT '{}',
+  created_by UUID NOT NULL REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_cbam_installations_project ON cbam_installations(project_id);
+
+-- ============================================
+-- CBAM PRODUCTION PROCESSES TABLE (one per aggregated goods category)
+-- ============================================
+
+CREATE TABLE cbam_production_processes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  installation_id UUID NOT NULL REFERENCES cbam_installations(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  goods_category VARCHAR(50) NOT NULL, -- 'cement_clinker', 'crude_steel', 'unwrought_aluminium', ...
+  cn_codes VARCHAR(8)[] DEFAULT '{}',
+  production_route VARCHAR(100),
+  reporting_year INTEGER NOT NULL,
+  
+  -- Activity level and attributed emissions
+  activity_level DECIMAL(20, 6) NOT NULL, -- t of goods produced (MWh for electricity)
+  direct_emissions JSONB NOT NULL DEFAULT '{}', -- t of each gas, e.g. {"CO2": 1200, "N2O": 0.4}
+  heat_imported_tj DECIMAL(20, 6) DEFAULT 0,
+  heat_exported_tj DECIMAL(20, 6) DEFAULT 0,
+  heat_emission_factor DECIMAL(20, 6), -- tCO2/TJ, reference value when NULL
+  electricity_consumed_mwh DECIMAL(20, 6) DEFAULT 0,
+  electricity_exported_mwh DECIMAL(20, 6) DEFAULT 0,
+  electricity_emission_factor DECIMAL(20, 10), -- tCO2/MWh
+  
+  -- [{goodsCategory, consumedTonnes, fromProcessId?, seeDirect?, seeIndirect?, source?}]
+  precursors JSONB NOT NULL DEFAULT '[]',
+  
+  metadata JSONB DEFAULT '{}',
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_cbam_processes_installation ON cbam_production_processes(installation_id, reporting_year);
+
+-- ============================================
+-- SUPPLIERS TABLE (Scope 3 primary data collection)
+-- ============================================
+
+CREATE TABLE suppliers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  contact_name VARCHAR(255),
+  contact_email VARCHAR(255),
+  country VARCHAR(2),
+  supplier_tier INTEGER DEFAULT 1, -- 1, 2, 3, etc. for supply chain depth
+  metadata JSONB DEFAULT '{}',
+  created_by UUID NOT NULL REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  
+  CONSTRAINT unique_project_supplier UNIQUE (project_id, name)
+);
+
+CREATE INDEX idx_suppliers_project ON suppliers(project_id);
+
+-- Invite links: only the SHA-256 hash of the token is stored
+CREATE TABLE supplier_invites (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  supplier_id UUID NOT NULL REFERENCES suppliers(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  submission_types VARCHAR(50)[] NOT NULL DEFAULT '{product_footprint,activity_data}',
+  reporting_year INTEGER NOT NULL,
+  message TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'invited', -- 'invited', 'submitted', 'revoked'
+  expires_at TIMESTAMP NOT NULL,
+  last_used_at TIMESTAMP,
+  created_by UUID NOT NULL REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_supplier_invites_supplier ON supplier_invites(supplier_id);
+
+CREATE TABLE supplier_submissions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  invite_id UUID NOT NULL REFERENCES supplier_invites(id) ON DELETE CASCADE,
+  supplier_id UUID NOT NULL REFERENCES suppliers(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  submission_type VARCHAR(50) NOT NULL, -- 'product_footprint', 'activity_data'
+  payload JSONB NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'submitted', -- 'submitted', 'accepted', 'rejected'
+  review_note TEXT,
+  reviewed_by UUID REFERENCES users(id),
+  reviewed_at TIMESTAMP,
+  activity_id UUID REFERENCES activities(id) ON DELETE SET NULL, -- created on acceptance
+  submitted_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_supplier_submissions_project ON supplier_submissions(project_id, status);
+CREATE INDEX idx_supplier_submissions_supplier ON supplier_submissions(supplier_id);
+
+-- ============================================
+-- CALCULATION RUNS (reproducibility)
+-- ============================================
+
+CREATE TABLE calculation_runs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  triggered_by UUID REFERENCES users(id),
+  calculation_type VARCHAR(20) NOT NULL, -- 'activity' or 'project'
+  status VARCHAR(20) NOT NULL DEFAULT 'completed',
+  gwp_set VARCHAR(10) NOT NULL,
+  tier2plus_multiplier DOUBLE PRECISION NOT NULL,
+  activity_count INTEGER NOT NULL DEFAULT 0,
+  total_emissions_kg_co2e DECIMAL(20, 4) NOT NULL DEFAULT 0,
+  started_at TIMESTAMP DEFAULT NOW(),
+  completed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_calculation_runs_project ON calculation_runs(project_id, created_at);
+
+-- Everything needed to replay one activity of a run without looking factors up again
+CREATE TABLE calculation_run_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  run_id UUID NOT NULL REFERENCES calculation_runs(id) ON DELETE CASCADE,
+  activity_id UUID REFERENCES activities(id) ON DELETE SET NULL,
+  inputs JSONB NOT NULL, -- activity snapshot: quantity, unit, activity type, scope, tier, metadata
+  factor JSONB NOT NULL, -- applied factor per activity unit, per-gas split and pinned reference
+  tier_multiplier DOUBLE PRECISION NOT NULL DEFAULT 1.0,
+  precursor_emissions DECIMAL(20, 4) NOT NULL DEFAULT 0,
+  gas_breakdown JSONB NOT NULL,
+  total_emissions_kg_co2e DECIMAL(20, 4) NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_calculation_run_items_run ON calculation_run_items(run_id);
+CREATE INDEX idx_calculation_run_items_activity ON calculation_run_items(activity_id);
+
 -- ============================================
 -- CFP RESULTS TABLE (Carbon Footprint of Product)
 -- ============================================
@@ -331,6 +799,8 @@ CREATE TABLE cfp_results (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
   activity_id UUID REFERENCES activities(id) ON DELETE SET NULL,
+  product_id UUID REFERENCES products(id) ON DELETE SET NULL,
+  run_id UUID, -- rows written by the same CFP calculation share a run_id
   
   -- Product information
   product_name VARCHAR(255) NOT NULL,
@@ -349,6 +819,9 @@ CREATE TABLE cfp_results (
   transport DECIMAL(20, 6) DEFAULT 0,
   use_phase DECIMAL(20, 6) DEFAULT 0,
   end_of_life DECIMAL(20, 6) DEFAULT 0,
+  allocation JSONB, -- a product's own, shared-process and component contributions
+  land_sector JSONB, -- land-sector and biogenic flows, reported apart from the fossil total
+  credits JSONB, -- gross emissions, credits retired against them and the net
   
   -- Context
   year INTEGER NOT NULL,
@@ -372,6 +845,7 @@ CREATE TABLE cfp_results (
 
 CREATE INDEX idx_cfp_project ON cfp_results(project_id);
 CREATE INDEX idx_cfp_product ON cfp_results(product_name);
+CREATE INDEX idx_cfp_run ON cfp_results(run_id);
 CREATE INDEX idx_cfp_year ON cfp_results(year);
 
 -- ============================================
@@ -385,7 +859,7 @@ CREATE TABLE cfo_results (
   -- Organization context
   organization_name VARCHAR(255) NOT NULL,
   reporting_boundary VARCHAR(255),
-  consolidation_approach VARCHAR(100), -- 'operational', 'financial', 'equity_share'
+  consolidation_approach VARCHAR(100), -- 'operational_control', 'financial_control', 'equity_share'
   
   -- Total emissions
   total_emissions DECIMAL(20, 6) NOT NULL, -- tCO2e
@@ -406,6 +880,18 @@ CREATE TABLE cfo_results (
   scope3_downstream DECIMAL(20, 6) DEFAULT 0,
   scope3_by_category JSONB DEFAULT '{}', -- Category-level breakdown
   
+  -- Greenhouse gas breakdown
+  gwp_set VARCHAR(10) DEFAULT 'AR5',
+  gas_breakdown JSONB DEFAULT '{}', -- Per-gas kg totals, same shape as activities.gas_breakdown
+  
+  -- Consolidation: share of each entity taken in, and totals under every approach
+  entity_breakdown JSONB DEFAULT '[]',
+  approach_totals JSONB DEFAULT '{}',
+  scope2_quality_check JSONB, -- GHG Protocol Scope 2 quality criteria result
+  uncertainty JSONB, -- Monte Carlo 95% intervals and sensitivity, when requested
+  land_sector JSONB, -- land-sector and biogenic flows, reported apart from the fossil total
+  credits JSONB, -- gross emissions, credits retired against them and the net
+  
   -- Intensity metrics
   revenue DECIMAL(20, 2),
   revenue_currency VARCHAR(10),
@@ -452,6 +938,286 @@ CREATE INDEX idx_cfo_project ON cfo_results(project_id);
 CREATE INDEX idx_cfo_year ON cfo_results(year);
 CREATE INDEX idx_cfo_organization ON cfo_results(organization_name);
 
+-- ============================================
+-- BASE YEAR RECALCULATION (GHG Protocol Chapter 5)
+-- ============================================
+
+CREATE TABLE base_year_changes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  change_type VARCHAR(50) NOT NULL, -- 'acquisition', 'divestment', 'outsourcing', 'insourcing', 'methodology_change', 'error_correction'
+  description TEXT NOT NULL,
+  effective_date DATE,
+  entity_id UUID REFERENCES organizational_entities(id),
+  existed_in_base_year BOOLEAN DEFAULT true,
+
+  -- kgCO2e the change adds to (+) or removes from (-) the base-year inventory
+  scope1_impact DECIMAL(20, 6) DEFAULT 0,
+  scope2_location_impact DECIMAL(20, 6) DEFAULT 0,
+  scope2_market_impact DECIMAL(20, 6) DEFAULT 0,
+  scope3_impact DECIMAL(20, 6) DEFAULT 0,
+
+  restatement_id UUID, -- set once applied by a restatement
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_base_year_changes_project ON base_year_changes(project_id);
+
+-- Restated base-year inventories, stored alongside the original cfo_results row
+CREATE TABLE base_year_restatements (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  base_year INTEGER NOT NULL,
+  original_cfo_id UUID NOT NULL REFERENCES cfo_results(id),
+  previous_restatement_id UUID REFERENCES base_year_restatements(id),
+
+  original_inventory JSONB NOT NULL, -- as calculated, kgCO2e per scope
+  restated_inventory JSONB NOT NULL, -- after all restatements up to this one
+  applied_changes JSONB NOT NULL DEFAULT '[]',
+  assessment JSONB, -- significance test at the time of restatement
+  reason TEXT NOT NULL,
+
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_base_year_restatements_project ON base_year_restatements(project_id, base_year);
+
+-- ============================================
+-- EMISSION TARGETS
+-- ============================================
+
+CREATE TABLE emission_targets (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  target_type VARCHAR(20) NOT NULL DEFAULT 'absolute', -- 'absolute', 'intensity'
+  scopes TEXT[] NOT NULL DEFAULT ARRAY['scope1', 'scope2'],
+  scope2_method VARCHAR(20) DEFAULT 'market', -- 'location', 'market'
+  base_year INTEGER NOT NULL,
+  target_year INTEGER NOT NULL,
+  pathway VARCHAR(20) NOT NULL DEFAULT 'sbti_1_5c', -- 'sbti_1_5c', 'sbti_wb2c', 'custom'
+  reduction_percent DECIMAL(5, 2) NOT NULL, -- by the target year, from the base year
+  intensity_unit VARCHAR(100), -- e.g. 'tonne product', 'million THB revenue'
+  intensity_denominators JSONB DEFAULT '{}', -- { "2020": 12500, "2024": 14100 }
+  metadata JSONB DEFAULT '{}',
+
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+
+  CONSTRAINT valid_target_years CHECK (target_year > base_year)
+);
+
+CREATE INDEX idx_emission_targets_project ON emission_targets(project_id);
+
+-- ============================================
+-- REDUCTION INITIATIVES TABLE
+-- ============================================
+
+-- Planned and implemented abatement measures, for the MAC curve and the
+-- projected emissions wedges
+CREATE TABLE reduction_initiatives (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'planned', -- 'planned', 'approved', 'implemented', 'cancelled'
+
+  -- What the initiative abates: specific activities and/or activity types and Scope 3 categories
+  activity_ids UUID[] DEFAULT '{}',
+  categories TEXT[] DEFAULT '{}',
+
+  annual_abatement_t_co2e DECIMAL(20, 6) NOT NULL, -- expected abatement per year of operation
+  capex DECIMAL(20, 2) NOT NULL DEFAULT 0, -- one-off investment
+  annual_opex DECIMAL(20, 2) NOT NULL DEFAULT 0, -- change in operating cost per year, negative for savings
+  currency CHAR(3) NOT NULL DEFAULT 'USD',
+  lifetime_years INTEGER NOT NULL,
+  start_year INTEGER NOT NULL,
+  metadata JSONB DEFAULT '{}',
+
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+
+  CONSTRAINT valid_initiative_abatement CHECK (annual_abatement_t_co2e > 0),
+  CONSTRAINT valid_initiative_lifetime CHECK (lifetime_years > 0)
+);
+
+CREATE INDEX idx_reduction_initiatives_project ON reduction_initiatives(project_id);
+
+-- ============================================
+-- SCENARIOS TABLES
+-- ============================================
+
+-- Named what-if scenarios: adjustments overlaid on a snapshot of the
+-- calculated activities, never on the live activities
+CREATE TABLE scenarios (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  reporting_year INTEGER NOT NULL, -- year whose contractual instruments and residual mix apply
+  consolidation_method VARCHAR(30) NOT NULL DEFAULT 'operational_control',
+  adjustments JSONB NOT NULL DEFAULT '[]', -- applied in order to each activity
+  status VARCHAR(20) NOT NULL DEFAULT 'draft', -- 'draft', 'calculated', 'stale'
+  snapshot_at TIMESTAMP,
+  calculated_at TIMESTAMP,
+
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+
+  CONSTRAINT unique_scenario_name UNIQUE (project_id, name)
+);
+
+CREATE INDEX idx_scenarios_project ON scenarios(project_id);
+
+CREATE TABLE scenario_activities (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  scenario_id UUID NOT NULL REFERENCES scenarios(id) ON DELETE CASCADE,
+  activity_id UUID REFERENCES activities(id) ON DELETE SET NULL,
+  snapshot JSONB NOT NULL, -- the calculated activity as it stood when the snapshot was taken
+
+  -- Scenario result for the activity
+  activity_type VARCHAR(100),
+  quantity DECIMAL(20, 6),
+  unit VARCHAR(50),
+  total_emissions_kg_co2e DECIMAL(20, 6),
+  gas_breakdown JSONB,
+  emission_factor_used JSONB,
+  applied_adjustments JSONB DEFAULT '[]',
+  calculation_status VARCHAR(20) NOT NULL DEFAULT 'pending', -- 'pending', 'calculated', 'error'
+  error_message TEXT,
+
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_scenario_activities_scenario ON scenario_activities(scenario_id);
+
+CREATE TABLE scenario_results (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  scenario_id UUID NOT NULL REFERENCES scenarios(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+
+  -- CFO, kg CO2e
+  scope1_emissions DECIMAL(20, 6) DEFAULT 0,
+  scope2_location_emissions DECIMAL(20, 6) DEFAULT 0,
+  scope2_market_emissions DECIMAL(20, 6) DEFAULT 0,
+  scope3_upstream_emissions DECIMAL(20, 6) DEFAULT 0,
+  scope3_downstream_emissions DECIMAL(20, 6) DEFAULT 0,
+  scope3_category_breakdown JSONB DEFAULT '{}',
+  cfo_total DECIMAL(20, 6) NOT NULL,
+
+  -- CFP, kg CO2e
+  lifecycle_stages JSONB DEFAULT '{}',
+  cfp_total DECIMAL(20, 6) NOT NULL,
+
+  -- The same figures for the snapshot as calculated, and the difference
+  actual_inventory JSONB NOT NULL,
+  comparison JSONB NOT NULL,
+
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_scenario_results_scenario ON scenario_results(scenario_id, created_at DESC);
+
+-- ============================================
+-- CARBON CREDITS TABLE
+-- ============================================
+
+-- Ledger of offset and removal credits, one row per block of consecutive
+-- serials. Retiring part of a block splits the row.
+CREATE TABLE carbon_credits (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  registry VARCHAR(20) NOT NULL, -- 'verra', 'gold_standard', 'ccer', 't_ver', 'j_credit', 'k_oc'
+  registry_project_id VARCHAR(100), -- the credited project's ID in the registry
+  project_name VARCHAR(255),
+  project_type VARCHAR(100) NOT NULL, -- 'renewable_energy', 'reforestation', ...
+  credit_type VARCHAR(20) NOT NULL DEFAULT 'avoidance', -- 'avoidance', 'removal'
+  vintage INTEGER NOT NULL,
+
+  -- Serials run from serial_start to serial_end within the registry block serial_prefix
+  serial_prefix VARCHAR(255) NOT NULL DEFAULT '',
+  serial_start BIGINT NOT NULL,
+  serial_end BIGINT NOT NULL,
+
+  status VARCHAR(20) NOT NULL DEFAULT 'held', -- 'held', 'retired'
+  purchase_date DATE,
+  price_per_credit DECIMAL(20, 2),
+  currency CHAR(3),
+  retirement_date DATE,
+  retired_for_year INTEGER, -- reporting year the retirement is claimed against
+  product_id UUID REFERENCES products(id) ON DELETE RESTRICT, -- claimed against a product's CFP; otherwise the CFO
+  beneficiary VARCHAR(255),
+  notes TEXT,
+  metadata JSONB DEFAULT '{}',
+
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+
+  CONSTRAINT valid_credit_registry CHECK (registry IN ('verra', 'gold_standard', 'ccer', 't_ver', 'j_credit', 'k_oc')),
+  CONSTRAINT valid_credit_type CHECK (credit_type IN ('avoidance', 'removal')),
+  CONSTRAINT valid_credit_status CHECK (status IN ('held', 'retired')),
+  CONSTRAINT valid_credit_serials CHECK (serial_start >= 0 AND serial_end >= serial_start),
+  CONSTRAINT valid_credit_retirement CHECK (status = 'held' OR retired_for_year IS NOT NULL),
+  -- A serial can be held or retired by one ledger entry only, across all projects
+  CONSTRAINT unique_credit_serials EXCLUDE USING gist (
+    registry WITH =,
+    serial_prefix WITH =,
+    int8range(serial_start, serial_end, '[]') WITH &&
+  )
+);
+
+CREATE INDEX idx_carbon_credits_project ON carbon_credits(project_id, status, retired_for_year);
+
+-- ============================================
+-- CHINA ETS UNITS TABLE
+-- ============================================
+
+-- Generating units (or production lines) under China's national ETS, with
+-- their output and emissions for one year, for benchmark allocation
+CREATE TABLE china_ets_units (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  facility_id UUID REFERENCES facilities(id) ON DELETE SET NULL,
+  name VARCHAR(255) NOT NULL,
+  unit_code VARCHAR(50) NOT NULL, -- unit number in the MEE registry
+  unit_type VARCHAR(30) NOT NULL, -- 'coal_above_300mw', 'coal_300mw_and_below', 'coal_unconventional', 'gas', 'cement_clinker', 'aluminium_electrolysis'
+  capacity_mw DECIMAL(10, 2),
+  cooling_type VARCHAR(10) NOT NULL DEFAULT 'water', -- 'water', 'air'
+  reporting_year INTEGER NOT NULL,
+
+  -- Output
+  power_supplied_mwh DECIMAL(20, 4) NOT NULL DEFAULT 0,
+  heat_supplied_gj DECIMAL(20, 4) NOT NULL DEFAULT 0,
+  heat_supply_ratio DECIMAL(6, 4) NOT NULL DEFAULT 0, -- 0-1
+  load_factor DECIMAL(6, 4), -- 0-1, pure-condensing coal units
+  production_output DECIMAL(20, 4) NOT NULL DEFAULT 0, -- t clinker or t aluminium
+  benchmark DECIMAL(12, 6), -- t CO2 per unit output, overriding the loaded benchmark
+
+  -- Emissions
+  verified_emissions_t_co2 DECIMAL(20, 4),
+  purchased_electricity_mwh DECIMAL(20, 4) NOT NULL DEFAULT 0,
+  fuels JSONB DEFAULT '[]', -- consumption, low heating value, carbon content and oxidation rate per fuel
+  verifier VARCHAR(255),
+  metadata JSONB DEFAULT '{}',
+
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+
+  CONSTRAINT unique_china_ets_unit_year UNIQUE (project_id, unit_code, reporting_year),
+  CONSTRAINT valid_china_ets_heat_supply_ratio CHECK (heat_supply_ratio >= 0 AND heat_supply_ratio <= 1)
+);
+
+CREATE INDEX idx_china_ets_units_project ON china_ets_units(project_id, reporting_year);
+
 -- ============================================
 -- REPORTS TABLE
 -- ============================================
@@ -714,8 +1480,32 @@ CREATE TRIGGER update_emission_factors_updated_at BEFORE UPDATE ON emission_fact
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_grid_emission_factors_updated_at BEFORE UPDATE ON grid_emission_factors 
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_residual_mix_factors_updated_at BEFORE UPDATE ON residual_mix_factors 
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_contractual_instruments_updated_at BEFORE UPDATE ON contractual_instruments 
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_cbam_default_values_updated_at BEFORE UPDATE ON cbam_default_values 
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_cbam_installations_updated_at BEFORE UPDATE ON cbam_installations 
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_cbam_production_processes_updated_at BEFORE UPDATE ON cbam_production_processes 
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_suppliers_updated_at BEFORE UPDATE ON suppliers 
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_supplier_invites_updated_at BEFORE UPDATE ON supplier_invites 
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_supplier_submissions_updated_at BEFORE UPDATE ON supplier_submissions 
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_precursor_factors_updated_at BEFORE UPDATE ON precursor_factors 
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_eeio_factor_sets_updated_at BEFORE UPDATE ON eeio_factor_sets 
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_fx_rates_updated_at BEFORE UPDATE ON fx_rates 
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_price_indices_updated_at BEFORE UPDATE ON price_indices 
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_factor_datasets_updated_at BEFORE UPDATE ON factor_datasets 
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_cfp_results_updated_at BEFORE UPDATE ON cfp_results 
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_cfo_results_updated_at BEFORE UPDATE ON cfo_results 
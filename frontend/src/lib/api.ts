@@ -184,6 +184,11 @@ export const calculationsApi = {
     method: 'POST',
     body: JSON.stringify(options || {}),
   }),
+  // Monte Carlo confidence intervals and sensitivity ranking
+  analyzeUncertainty: async (projectId: string, options?: { iterations?: number; seed?: number; topContributors?: number }) => apiFetch(`/calculations/project/${projectId}/uncertainty`, {
+    method: 'POST',
+    body: JSON.stringify(options || {}),
+  }),
   // Legacy: calculate (alias for calculateAll)
   calculate: async (projectId: string) => apiFetch(`/calculations/project/${projectId}/all`, {
     method: 'POST',
@@ -214,6 +219,139 @@ export const emissionFactorsApi = {
   getByScope: async (scope: string) => apiFetch(`/emission-factors/scope/${scope}`),
 };
 
+// Emission Targets API
+export const targetsApi = {
+  getByProject: async (projectId: string) => apiFetch(`/targets/project/${projectId}`),
+  create: async (projectId: string, data: any) => apiFetch(`/targets/project/${projectId}`, {
+    method: 'POST',
+    body: JSON.stringify(data),
+  }),
+  update: async (projectId: string, targetId: string, data: any) => apiFetch(`/targets/project/${projectId}/${targetId}`, {
+    method: 'PUT',
+    body: JSON.stringify(data),
+  }),
+  delete: async (projectId: string, targetId: string) => apiFetch(`/targets/project/${projectId}/${targetId}`, {
+    method: 'DELETE',
+  }),
+};
+
+// Reduction initiatives API
+export const initiativesApi = {
+  getByProject: async (projectId: string) => apiFetch(`/initiatives/project/${projectId}`),
+  create: async (projectId: string, data: any) => apiFetch(`/initiatives/project/${projectId}`, {
+    method: 'POST',
+    body: JSON.stringify(data),
+  }),
+  update: async (projectId: string, initiativeId: string, data: any) => apiFetch(`/initiatives/project/${projectId}/${initiativeId}`, {
+    method: 'PUT',
+    body: JSON.stringify(data),
+  }),
+  delete: async (projectId: string, initiativeId: string) => apiFetch(`/initiatives/project/${projectId}/${initiativeId}`, {
+    method: 'DELETE',
+  }),
+  getMacCurve: async (projectId: string, discountRate?: number) =>
+    apiFetch(`/initiatives/project/${projectId}/mac-curve${discountRate !== undefined ? `?discountRate=${discountRate}` : ''}`),
+  getWedges: async (projectId: string, toYear?: number) =>
+    apiFetch(`/initiatives/project/${projectId}/wedges${toYear !== undefined ? `?toYear=${toYear}` : ''}`),
+};
+
+// Scenarios API
+export const scenariosApi = {
+  getByProject: async (projectId: string) => apiFetch(`/scenarios/project/${projectId}`),
+  getById: async (projectId: string, scenarioId: string) => apiFetch(`/scenarios/project/${projectId}/${scenarioId}`),
+  create: async (projectId: string, data: any) => apiFetch(`/scenarios/project/${projectId}`, {
+    method: 'POST',
+    body: JSON.stringify(data),
+  }),
+  update: async (projectId: string, scenarioId: string, data: any) => apiFetch(`/scenarios/project/${projectId}/${scenarioId}`, {
+    method: 'PUT',
+    body: JSON.stringify(data),
+  }),
+  delete: async (projectId: string, scenarioId: string) => apiFetch(`/scenarios/project/${projectId}/${scenarioId}`, {
+    method: 'DELETE',
+  }),
+  refreshSnapshot: async (projectId: string, scenarioId: string) => apiFetch(`/scenarios/project/${projectId}/${scenarioId}/snapshot`, {
+    method: 'POST',
+  }),
+  calculate: async (projectId: string, scenarioId: string) => apiFetch(`/scenarios/project/${projectId}/${scenarioId}/calculate`, {
+    method: 'POST',
+  }),
+  getActivities: async (projectId: string, scenarioId: string) => apiFetch(`/scenarios/project/${projectId}/${scenarioId}/activities`),
+};
+
+// Products API
+export const productsApi = {
+  getByProject: async (projectId: string) => apiFetch(`/products/project/${projectId}`),
+  create: async (projectId: string, data: any) => apiFetch(`/products/project/${projectId}`, {
+    method: 'POST',
+    body: JSON.stringify(data),
+  }),
+  update: async (projectId: string, productId: string, data: any) => apiFetch(`/products/project/${projectId}/${productId}`, {
+    method: 'PUT',
+    body: JSON.stringify(data),
+  }),
+  delete: async (projectId: string, productId: string) => apiFetch(`/products/project/${projectId}/${productId}`, {
+    method: 'DELETE',
+  }),
+  getProcesses: async (projectId: string) => apiFetch(`/products/project/${projectId}/processes`),
+  createProcess: async (projectId: string, data: any) => apiFetch(`/products/project/${projectId}/processes`, {
+    method: 'POST',
+    body: JSON.stringify(data),
+  }),
+  updateProcess: async (projectId: string, processId: string, data: any) => apiFetch(`/products/project/${projectId}/processes/${processId}`, {
+    method: 'PUT',
+    body: JSON.stringify(data),
+  }),
+  deleteProcess: async (projectId: string, processId: string) => apiFetch(`/products/project/${projectId}/processes/${processId}`, {
+    method: 'DELETE',
+  }),
+  getAllocationSensitivity: async (projectId: string, allocationMethod?: string) =>
+    apiFetch(`/products/project/${projectId}/allocation${allocationMethod ? `?allocationMethod=${allocationMethod}` : ''}`),
+};
+
+// Carbon credits API
+export const creditsApi = {
+  getByProject: async (projectId: string) => apiFetch(`/credits/project/${projectId}`),
+  getSummary: async (projectId: string) => apiFetch(`/credits/project/${projectId}/summary`),
+  create: async (projectId: string, data: any) => apiFetch(`/credits/project/${projectId}`, {
+    method: 'POST',
+    body: JSON.stringify(data),
+  }),
+  update: async (projectId: string, creditId: string, data: any) => apiFetch(`/credits/project/${projectId}/${creditId}`, {
+    method: 'PUT',
+    body: JSON.stringify(data),
+  }),
+  delete: async (projectId: string, creditId: string) => apiFetch(`/credits/project/${projectId}/${creditId}`, {
+    method: 'DELETE',
+  }),
+  retire: async (projectId: string, creditId: string, data: any) => apiFetch(`/credits/project/${projectId}/${creditId}/retire`, {
+    method: 'POST',
+    body: JSON.stringify(data),
+  }),
+};
+
+export const chinaEtsApi = {
+  getUnits: async (projectId: string, year?: number) =>
+    apiFetch(`/china-ets/project/${projectId}/units${year ? `?year=${year}` : ''}`),
+  createUnit: async (projectId: string, data: any) => apiFetch(`/china-ets/project/${projectId}/units`, {
+    method: 'POST',
+    body: JSON.stringify(data),
+  }),
+  updateUnit: async (projectId: string, unitId: string, data: any) => apiFetch(`/china-ets/project/${projectId}/units/${unitId}`, {
+    method: 'PUT',
+    body: JSON.stringify(data),
+  }),
+  deleteUnit: async (projectId: string, unitId: string) => apiFetch(`/china-ets/project/${projectId}/units/${unitId}`, {
+    method: 'DELETE',
+  }),
+  getCompliance: async (projectId: string, year?: number) =>
+    apiFetch(`/china-ets/project/${projectId}/compliance${year ? `?year=${year}` : ''}`),
+  getMonitoringPlan: async (projectId: string, year?: number) =>
+    apiFetch(`/china-ets/project/${projectId}/monitoring-plan${year ? `?year=${year}` : ''}`),
+  getEmissionsReport: async (projectId: string, year?: number) =>
+    apiFetch(`/china-ets/project/${projectId}/emissions-report${year ? `?year=${year}` : ''}`),
+};
+
 // Health check
 export const healthCheck = async (): Promise<boolean> => {
   try {
@@ -231,5 +369,11 @@ export default {
   calculations: calculationsApi,
   reports: reportsApi,
   emissionFactors: emissionFactorsApi,
+  targets: targetsApi,
+  initiatives: initiativesApi,
+  scenarios: scenariosApi,
+  products: productsApi,
+  credits: creditsApi,
+  chinaEts: chinaEtsApi,
   healthCheck,
 };
@@ -2,3 +2,4 @@ export { useActivities, type Activity, type ActivityFilters, type UseActivitiesR
 export { useProjects, type Project, type UseProjectsResult } from './useProjects';
 export { useCalculations, type CalculationTotals, type UseCalculationsResult } from './useCalculations';
 export { useReports, type Report, type ReportGenerationOptions, type UseReportsResult } from './useReports';
+export { useTargets, type EmissionTarget, type TargetMilestone, type UseTargetsResult } from './useTargets';
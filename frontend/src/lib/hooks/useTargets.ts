@@ -0,0 +1,81 @@
+import { useState, useEffect, useCallback } from 'react';
+import { targetsApi } from '../api';
+
+// Values in kgCO2e, or kgCO2e per intensity unit for intensity targets
+export interface TargetMilestone {
+  year: number;
+  targetValue: number;
+  reductionPercent: number;
+  actualValue: number | null;
+  status: 'on_track' | 'off_track' | 'upcoming' | 'no_data';
+}
+
+export interface EmissionTarget {
+  id: string;
+  projectId: string;
+  name: string;
+  description: string;
+  targetType: 'absolute' | 'intensity';
+  scopes: Array<'scope1' | 'scope2' | 'scope3'>;
+  baseYear: number;
+  targetYear: number;
+  pathway: 'sbti_1_5c' | 'sbti_wb2c' | 'custom';
+  reductionPercent: number;
+  intensityUnit: string | null;
+  progress: {
+    baseValue: number | null;
+    targetValue: number | null;
+    latestYear: number | null;
+    latestValue: number | null;
+    progressPercent: number | null;
+    status: 'on_track' | 'off_track' | 'achieved' | 'no_data';
+    milestones: TargetMilestone[];
+  };
+}
+
+export interface UseTargetsResult {
+  targets: EmissionTarget[];
+  isLoading: boolean;
+  error: string | null;
+  fetchTargets: (projectId: string) => Promise<void>;
+}
+
+export function useTargets(projectId?: string): UseTargetsResult {
+  const [targets, setTargets] = useState<EmissionTarget[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTargets = useCallback(async (pid: string) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await targetsApi.getByProject(pid);
+
+      if (response.success && response.data) {
+        setTargets(response.data as EmissionTarget[]);
+      } else {
+        setError(response.error || 'Failed to fetch targets');
+        setTargets([]);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      setTargets([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (projectId) {
+      fetchTargets(projectId);
+    }
+  }, [projectId, fetchTargets]);
+
+  return {
+    targets,
+    isLoading,
+    error,
+    fetchTargets,
+  };
+}
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
 import {
   BarChart3,
@@ -26,6 +26,7 @@ import { Card, CardHeader } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Badge } from '@/components/ui/Badge';
 import { Select } from '@/components/ui/Input';
+import { useProjects, useTargets, type EmissionTarget } from '@/lib/hooks';
 
 const container = {
   hidden: { opacity: 0 },
@@ -61,12 +62,57 @@ const topEmissionSources = [
   { name: 'Business Travel', emissions: 245.8, scope: 'Scope 3', icon: Truck, percentage: 6, color: 'bg-purple-500' },
 ];
 
-const reductionTargets = [
-  { year: 2025, target: 3944, actual: 3944.4, status: 'on-track', progress: 100 },
-  { year: 2026, target: 3550, actual: null, status: 'upcoming', progress: 0 },
-  { year: 2030, target: 2366, actual: null, status: 'upcoming', progress: 0 },
-  { year: 2050, target: 0, actual: null, status: 'net-zero', progress: 0 },
-];
+type TargetCardStatus = 'on-track' | 'off-track' | 'achieved' | 'upcoming' | 'net-zero';
+
+interface TargetCard {
+  key: string;
+  year: number;
+  name: string;
+  target: number;
+  actual: number | null;
+  unit: string;
+  status: TargetCardStatus;
+}
+
+// Milestone cards: for each target the latest year with an actual, the next
+// milestone and the target year itself (at most four cards overall)
+function buildTargetCards(targets: EmissionTarget[]): TargetCard[] {
+  const cards: TargetCard[] = [];
+
+  for (const target of targets) {
+    const { milestones } = target.progress;
+    const absolute = target.targetType === 'absolute';
+    const unit = absolute ? 'tCO2e' : `kgCO2e/${target.intensityUnit || 'unit'}`;
+    const scale = (value: number) => Math.round((absolute ? value / 1000 : value) * 100) / 100;
+
+    const latest = [...milestones].reverse().find((m) => m.actualValue !== null);
+    const next = milestones.find((m) => m.status === 'upcoming');
+    const final = milestones[milestones.length - 1];
+
+    for (const milestone of [latest, next, final]) {
+      if (!milestone || cards.some((c) => c.key === `${target.id}:${milestone.year}`)) continue;
+
+      let status: TargetCardStatus;
+      if (milestone.actualValue !== null) {
+        status = milestone.status !== 'on_track' ? 'off-track' : milestone === final ? 'achieved' : 'on-track';
+      } else {
+        status = milestone === final && target.reductionPercent >= 90 ? 'net-zero' : 'upcoming';
+      }
+
+      cards.push({
+        key: `${target.id}:${milestone.year}`,
+        year: milestone.year,
+        name: target.name,
+        target: scale(milestone.targetValue),
+        actual: milestone.actualValue !== null ? scale(milestone.actualValue) : null,
+        unit,
+        status,
+      });
+    }
+  }
+
+  return cards.slice(0, 4);
+}
 
 const benchmarks = [
   { category: 'Manufacturing (Asia)', avgEmissions: 4500, yourEmissions: 3944, percentile: 75, trend: 'improving' },
@@ -128,6 +174,11 @@ export const Analytics: React.FC = () => {
   const [activeTab, setActiveTab] = useState<'overview' | 'trends' | 'benchmarks' | 'insights'>('overview');
   const [selectedPeriod, setSelectedPeriod] = useState('6m');
   const [selectedProject, setSelectedProject] = useState('all');
+  const { projects } = useProjects();
+  const targetProjectId = selectedProject === 'all' ? projects[0]?.id : selectedProject;
+  const { targets } = useTargets(targetProjectId);
+  const reductionTargets = useMemo(() => buildTargetCards(targets), [targets]);
+  const primaryTarget = targets[0];
 
   const totalEmissions = Object.values(emissionsByScope).reduce((sum, s) => sum + s.value, 0);
   const maxMonthlyTotal = Math.max(...monthlyTrend.map(m => m.total));
@@ -340,36 +391,53 @@ export const Analytics: React.FC = () => {
               title="Emission Reduction Targets"
               subtitle="Progress towards your climate commitments"
             />
+            {reductionTargets.length === 0 && (
+              <p className="text-sm text-earth-500 dark:text-earth-400 mt-4">
+                No reduction targets set for this project yet.
+              </p>
+            )}
             <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mt-4">
               {reductionTargets.map((target) => (
                 <div
-                  key={target.year}
+                  key={target.key}
                   className={`p-4 rounded-xl border-2 ${
-                    target.status === 'on-track' ? 'border-green-300 bg-green-50 dark:bg-green-900/20 dark:border-green-700' :
+                    target.status === 'on-track' || target.status === 'achieved' ? 'border-green-300 bg-green-50 dark:bg-green-900/20 dark:border-green-700' :
+                    target.status === 'off-track' ? 'border-amber-300 bg-amber-50 dark:bg-amber-900/20 dark:border-amber-700' :
                     target.status === 'net-zero' ? 'border-grass-300 bg-grass-50 dark:bg-grass-900/20 dark:border-grass-700' :
                     'border-grass-200 dark:border-earth-700'
                   }`}
                 >
                   <div className="flex items-center justify-between mb-2">
                     <span className="text-2xl font-bold text-earth-800 dark:text-earth-100">{target.year}</span>
-                    {target.status === 'on-track' && <CheckCircle className="w-5 h-5 text-green-500" />}
+                    {(target.status === 'on-track' || target.status === 'achieved') && <CheckCircle className="w-5 h-5 text-green-500" />}
+                    {target.status === 'off-track' && <AlertTriangle className="w-5 h-5 text-amber-500" />}
                     {target.status === 'net-zero' && <Leaf className="w-5 h-5 text-grass-500" />}
                   </div>
-                  <p className="text-sm text-earth-500 dark:text-earth-400">Target</p>
+                  <p className="text-sm text-earth-500 dark:text-earth-400">{target.name}</p>
                   <p className="font-mono font-bold text-lg text-earth-800 dark:text-earth-100">
-                    {target.target.toLocaleString()} tCO2e
+                    {target.target.toLocaleString()} {target.unit}
                   </p>
                   {target.actual !== null && (
-                    <p className="text-sm text-green-600 mt-1">
-                      Actual: {target.actual.toLocaleString()} tCO2e
+                    <p className={`text-sm mt-1 ${target.status === 'off-track' ? 'text-amber-600' : 'text-green-600'}`}>
+                      Actual: {target.actual.toLocaleString()} {target.unit}
                     </p>
                   )}
                   <Badge 
-                    variant={target.status === 'on-track' ? 'success' : target.status === 'net-zero' ? 'grass' : 'default'} 
+                    variant={
+                      target.status === 'on-track' || target.status === 'achieved' ? 'success' :
+                      target.status === 'off-track' ? 'warning' :
+                      target.status === 'net-zero' ? 'grass' : 'default'
+                    } 
                     size="sm" 
                     className="mt-2"
                   >
-                    {target.status === 'on-track' ? 'On Track' : target.status === 'net-zero' ? 'Net Zero Goal' : 'Upcoming'}
+                    {{
+                      'on-track': 'On Track',
+                      'off-track': 'Off Track',
+                      achieved: 'Achieved',
+                      'net-zero': 'Net Zero Goal',
+                      upcoming: 'Upcoming',
+                    }[target.status]}
                   </Badge>
                 </div>
               ))}
@@ -477,8 +545,14 @@ export const Analytics: React.FC = () => {
                 <Target className="w-6 h-6 text-grass-600" />
                 <h4 className="font-semibold text-earth-800 dark:text-earth-100">Target Progress</h4>
               </div>
-              <p className="text-2xl font-bold text-grass-600">100%</p>
-              <p className="text-sm text-earth-500">2025 reduction target achieved</p>
+              <p className="text-2xl font-bold text-grass-600">
+                {primaryTarget?.progress.progressPercent != null ? `${primaryTarget.progress.progressPercent}%` : '—'}
+              </p>
+              <p className="text-sm text-earth-500">
+                {!primaryTarget ? 'No reduction target set' :
+                  primaryTarget.progress.status === 'no_data' ? `${primaryTarget.name}: no results after ${primaryTarget.baseYear} yet` :
+                  `${primaryTarget.name}: ${primaryTarget.progress.status === 'off_track' ? 'off track' : primaryTarget.progress.status === 'achieved' ? 'achieved' : 'on track'} for ${primaryTarget.targetYear}`}
+              </p>
             </Card>
             <Card variant="default" className="p-4 border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20">
               <div className="flex items-center gap-3 mb-3">